@@ -20,7 +20,7 @@ for (const line of readFileSync(envPath, "utf8").split("\n")) {
 }
 
 async function main() {
-const { getClientForModel, deepSeekRequestExtras } = await import(
+const { getClientForModel, providerRequestExtras } = await import(
   "@/lib/ai/openai"
 );
 const { buildSamplingParams } = await import("@/lib/ai/buildSamplingParams");
@@ -56,7 +56,7 @@ const completion = await chatCompletionsWithRetry(
     ...buildSamplingParams(model, { temperature: 0.7 }),
     response_format: { type: "json_object" },
     ...getTokenLimitParam(model, mainGenMaxOutputTokens),
-    ...deepSeekRequestExtras(model),
+    ...providerRequestExtras(model),
     messages: [
       { role: "system", content: systemPrompt },
       { role: "user", content: userPrompt },
@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+/**
+ * Translation DLQ CLI
+ *
+ * Inspect, replay and purge translation jobs that exhausted their retries,
+ * and manage auto-replay rules (a failure class marked as fixed is replayed
+ * by the worker's periodic sweep).
+ *
+ * Usage:
+ *   npm run dlq:translations -- list [--failure-class X] [--limit N] [--json]
+ *   npm run dlq:translations -- replay <threadId...> | --failure-class X | --all
+ *   npm run dlq:translations -- purge <threadId...> | --failure-class X | --all
+ *   npm run dlq:translations -- auto-replay list
+ *   npm run dlq:translations -- auto-replay add <failureClass>
+ *   npm run dlq:translations -- auto-replay remove <failureClass>
+ *
+ * Environment: the worker's Redis and Supabase settings.
+ */
+
+import { parseArgs } from "node:util";
+import {
+  addAutoReplayRule,
+  failureClassOf,
+  listAutoReplayRules,
+  listDeadLetters,
+  purgeDeadLetters,
+  removeAutoReplayRule,
+  replayDeadLetters,
+  type DeadLetterSelector,
+} from "../src/lib/workshop/deadLetterQueue";
+
+const USAGE = `Usage: translation-dlq <list|replay|purge|auto-replay> [options]
+  list [--failure-class X] [--limit N] [--json]
+  replay <threadId...> | --failure-class X | --all
+  purge <threadId...> | --failure-class X | --all
+  auto-replay list | add <failureClass> | remove <failureClass>`;
+
+function fail(message: string): never {
+  console.error(message);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function ago(epochMs: number | undefined): string {
+  if (!epochMs) return "?";
+  const minutes = Math.round((Date.now() - epochMs) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / 1440)}d ago`;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "failure-class": { type: "string" },
+      limit: { type: "string" },
+      all: { type: "boolean" },
+      json: { type: "boolean" },
+    },
+  });
+  const [command, ...args] = positionals;
+  const failureClass = values["failure-class"];
+
+  switch (command) {
+    case "list": {
+      const result = await listDeadLetters({
+        failureClass,
+        limit: values.limit ? parseInt(values.limit, 10) : 50,
+      });
+      if (values.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      console.log(`DLQ depth: ${result.depth}`);
+      for (const { message, jobStatus, lastErrors } of result.entries) {
+        console.log(
+          `\n${message.threadId}  ${failureClassOf(message)}  attempt=${message.attempt}` +
+            `  dead-lettered ${ago(message.deadLetteredAt)}  job=${jobStatus ?? "missing"}`
+        );
+        console.log(
+          `  user=${message.userId ?? "-"}  trace=${message.traceId ?? "-"}`
+        );
+        for (const e of lastErrors) {
+          console.log(
+            `  [chunk ${e.chunkIndex}] ${new Date(e.timestamp).toISOString()} ${e.code}: ${e.error}`
+          );
+        }
+      }
+      return;
+    }
+
+    case "replay":
+    case "purge": {
+      const selector: DeadLetterSelector = {
+        threadIds: args.length ? args : undefined,
+        failureClass,
+        all: values.all,
+      };
+      if (!selector.all && !selector.threadIds && !selector.failureClass) {
+        fail(`${command} needs thread ids, --failure-class or --all`);
+      }
+      if (command === "purge") {
+        console.log(`Purged ${await purgeDeadLetters(selector)} entries`);
+        return;
+      }
+      const result = await replayDeadLetters(selector);
+      console.log(`Replayed ${result.replayed.length} entries`);
+      for (const s of result.skipped) {
+        console.log(`  skipped ${s.threadId}: ${s.reason}`);
+      }
+      return;
+    }
+
+    case "auto-replay": {
+      const [sub, cls] = args;
+      if (sub === "list" || !sub) {
+        for (const rule of await listAutoReplayRules()) {
+          console.log(
+            `${rule.failureClass}  marked ${new Date(rule.markedAt).toISOString()}` +
+              (rule.markedBy ? ` by ${rule.markedBy}` : "")
+          );
+        }
+        return;
+      }
+      if (!cls) fail(`auto-replay ${sub} needs a failure class`);
+      if (sub === "add") {
+        await addAutoReplayRule(cls, process.env.USER ?? null);
+        console.log(`Entries of ${cls} dead-lettered until now will be auto-replayed`);
+        return;
+      }
+      if (sub === "remove") {
+        const removed = await removeAutoReplayRule(cls);
+        console.log(removed ? `Removed rule for ${cls}` : `No rule for ${cls}`);
+        return;
+      }
+      fail(`Unknown auto-replay command: ${sub}`);
+    }
+
+    default:
+      fail(command ? `Unknown command: ${command}` : "Missing command");
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("[translation-dlq]", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -10,9 +10,15 @@
  * Usage:
  *   npm run worker:translations
  *
+ * Jobs are picked by the fair scheduler (per-user round-robin, interactive
+ * before bulk, per-model caps), not in FIFO order.
+ *
  * Environment:
  *   - UPSTASH_REDIS_REST_URL (required in production)
  *   - UPSTASH_REDIS_REST_TOKEN (required in production)
+ *   - TRANSLATION_WORKER_CONCURRENCY (ticks in flight, default 1)
+ *   - TRANSLATION_USER_WEIGHTS, TRANSLATION_MODEL_CONCURRENCY,
+ *     TRANSLATION_INTERACTIVE_BURST (see fairScheduler.ts)
  */
 
 import { runTranslationTick } from "../src/lib/workshop/runTranslationTick";
@@ -25,10 +31,14 @@ import {
   deactivateTranslationJob,
   getTranslationActiveSetInfo,
   removeFromTranslationActiveSet,
-  parseQueueMessage,
   reenqueueWithRetry,
   type StructuredQueueMessage,
 } from "../src/lib/workshop/translationQueue";
+import {
+  claimNextTranslationJob,
+  createFairScheduler,
+} from "../src/lib/workshop/fairScheduler";
+import { runDeadLetterAutoReplay } from "../src/lib/workshop/deadLetterQueue";
 import {
   getAlignmentQueueRedis,
   deactivateAlignmentJob,
@@ -39,7 +49,6 @@ import {
 } from "../src/lib/workshop/alignmentQueue";
 import { generateAlignmentsBatched } from "../src/lib/ai/alignmentGenerator";
 
-const QUEUE_KEY = "translation:queue";
 const TICK_BUDGET_MS = 15000; // 15 seconds per tick (quality-safe, won't finalize partial lines)
 const POLL_INTERVAL_MS = 2000; // 2 seconds between polls when queue is empty
 const GC_INTERVAL_TICKS = 50; // Run active-set GC every N main-loop iterations
@@ -48,6 +57,14 @@ const STALE_THRESHOLD_MS = parseInt(
   10
 ); // 30 min default
 const ENABLE_GC = process.env.ENABLE_WORKER_ACTIVE_SET_GC !== "0";
+const WORKER_CONCURRENCY = Math.max(
+  1,
+  parseInt(process.env.TRANSLATION_WORKER_CONCURRENCY || "1", 10) || 1
+);
+
+// Translation scheduling state
+const scheduler = createFairScheduler();
+const runningTranslations = new Set<Promise<void>>();
 
 // Alignment processing state
 let activeAlignments = 0;
@@ -77,6 +94,17 @@ async function processJob(msg: StructuredQueueMessage): Promise<void> {
       return;
     }
 
+    // The owner's AI budget is used up: retrying would only dead-letter the
+    // message. The job keeps its blocked mark; polling or a retry resumes it.
+    if (tickResult.job.blocked) {
+      console.log(
+        `[translation-worker] Job ${threadId} blocked (${tickResult.job.blocked.reason}), deactivating`
+      );
+      await deactivateTranslationJob(threadId);
+      inFlightTranslation.delete(threadId);
+      return;
+    }
+
     const job = await getTranslationJob(threadId);
     if (!job) {
       console.log(`[translation-worker] Job not found: ${threadId}`);
@@ -294,6 +322,9 @@ async function main() {
   console.log(
     `[translation-worker] Max concurrent alignments: ${alignmentConfig.maxConcurrent}`
   );
+  console.log(
+    `[translation-worker] Max concurrent translation ticks: ${WORKER_CONCURRENCY}`
+  );
   console.log(
     `[translation-worker] GC: enabled=${ENABLE_GC}, interval=${GC_INTERVAL_TICKS} ticks, stale=${STALE_THRESHOLD_MS}ms`
   );
@@ -331,6 +362,10 @@ async function main() {
       await periodicActiveSetGC().catch((err) =>
         console.error("[translation-worker] GC error:", err)
       );
+      // Replay DLQ entries whose failure class an operator marked as fixed
+      await runDeadLetterAutoReplay().catch((err) =>
+        console.error("[translation-worker] DLQ auto-replay error:", err)
+      );
     }
 
     try {
@@ -364,22 +399,34 @@ async function main() {
         }
       }
 
-      // Priority 2: Process translation jobs
-      const rawMsg = await (
-        redis as {
-          rpop: (key: string) => Promise<string | null>;
-        }
-      ).rpop(QUEUE_KEY);
+      // Priority 2: Process translation jobs, picked by the fair scheduler
+      if (runningTranslations.size >= WORKER_CONCURRENCY) {
+        await Promise.race(runningTranslations);
+        continue;
+      }
+
+      const msg = await claimNextTranslationJob(scheduler);
 
-      if (rawMsg) {
-        const msg = parseQueueMessage(rawMsg);
+      if (msg) {
         inFlightTranslation.set(msg.threadId, Date.now());
-        await processJob(msg);
+        const run: Promise<void> = processJob(msg)
+          .catch((error) =>
+            console.error(`[translation-worker] Job ${msg.threadId} failed:`, error)
+          )
+          .finally(() => {
+            scheduler.release(msg);
+            runningTranslations.delete(run);
+          });
+        runningTranslations.add(run);
         continue; // Process next job immediately
       }
 
-      // No jobs in either queue, wait before polling again
-      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      // Nothing claimable (queues empty or every waiting model at its cap):
+      // wait for a running tick to finish or the poll interval, whichever is first
+      await Promise.race([
+        ...runningTranslations,
+        new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS)),
+      ]);
     } catch (error) {
       console.error("[translation-worker] Error in main loop:", error);
       // Wait before retrying to avoid tight error loop
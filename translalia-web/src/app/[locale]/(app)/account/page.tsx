@@ -2,7 +2,8 @@
 
 import { ProfileForm } from "@/components/account/ProfileForm";
 import { useTranslations } from "next-intl";
-import { User } from "lucide-react";
+import { ChevronRight, User, Wallet } from "lucide-react";
+import { Link } from "@/i18n/routing";
 
 export default function AccountPage() {
   const t = useTranslations("Account");
@@ -32,6 +33,17 @@ export default function AccountPage() {
         <div className="rounded-2xl bg-white/80 p-8 shadow-[0_4px_24px_rgba(15,23,42,0.06)] ring-1 ring-slate-200/60 backdrop-blur-sm sm:p-10">
           <ProfileForm />
         </div>
+
+        <Link
+          href="/account/usage"
+          className="mt-6 flex items-center justify-between rounded-2xl bg-white/80 px-8 py-5 text-sm text-slate-700 shadow-[0_4px_24px_rgba(15,23,42,0.06)] ring-1 ring-slate-200/60 backdrop-blur-sm transition hover:text-slate-900 hover:ring-sky-200"
+        >
+          <span className="flex items-center gap-3">
+            <Wallet className="h-4 w-4 text-sky-600" />
+            {t("usageLink")}
+          </span>
+          <ChevronRight className="h-4 w-4 text-slate-400" />
+        </Link>
       </main>
 
       {/* Footer accent gradient */}
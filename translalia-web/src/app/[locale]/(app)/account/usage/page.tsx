@@ -0,0 +1,230 @@
+"use client";
+
+import * as React from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { ArrowLeft, Loader2, Wallet } from "lucide-react";
+
+import { Link } from "@/i18n/routing";
+import { useAccountUsage } from "@/lib/hooks/useAccountUsage";
+import type { UsageBreakdownRow, UsageDimension } from "@/types/usage";
+
+const TABLE_DIMENSIONS: Array<Exclude<UsageDimension, "day">> = [
+  "route",
+  "model",
+  "project",
+  "thread",
+];
+
+function useUsd() {
+  const locale = useLocale();
+  return React.useMemo(() => {
+    const fmt = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: "USD",
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 4,
+    });
+    return (value: number) => fmt.format(value);
+  }, [locale]);
+}
+
+function UsageTable({
+  title,
+  rows,
+  usd,
+}: {
+  title: string;
+  rows: UsageBreakdownRow[];
+  usd: (value: number) => string;
+}) {
+  const t = useTranslations("AccountUsage");
+
+  return (
+    <section className="rounded-2xl bg-white/80 p-6 shadow-[0_4px_24px_rgba(15,23,42,0.06)] ring-1 ring-slate-200/60 backdrop-blur-sm">
+      <h2 className="mb-4 text-sm font-semibold text-slate-900">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500">{t("noUsage")}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-200 text-left text-xs uppercase tracking-wide text-slate-500">
+              <th className="pb-2 font-medium">{t("columnName")}</th>
+              <th className="pb-2 text-right font-medium">{t("columnCalls")}</th>
+              <th className="pb-2 text-right font-medium">{t("columnTokens")}</th>
+              <th className="pb-2 text-right font-medium">{t("columnCost")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-b border-slate-100 last:border-0">
+                <td className="max-w-[16rem] truncate py-2 text-slate-800" title={row.key}>
+                  {row.label || t("untitled")}
+                </td>
+                <td className="py-2 text-right tabular-nums text-slate-600">{row.calls}</td>
+                <td className="py-2 text-right tabular-nums text-slate-600">
+                  {(row.promptTokens + row.completionTokens).toLocaleString()}
+                </td>
+                <td className="py-2 text-right tabular-nums text-slate-900">{usd(row.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+export default function AccountUsagePage() {
+  const t = useTranslations("AccountUsage");
+  const usd = useUsd();
+  const [month, setMonth] = React.useState(() =>
+    new Date().toISOString().slice(0, 7)
+  );
+  const { data, isLoading, error } = useAccountUsage(month);
+
+  const budget = data?.budget;
+  const isCurrentMonth = data?.month === budget?.month;
+  const percent =
+    budget?.limitUsd && isCurrentMonth
+      ? Math.min(100, (budget.spentUsd / budget.limitUsd) * 100)
+      : null;
+  const maxDay = Math.max(0, ...(data?.breakdown.day ?? []).map((d) => d.costUsd));
+
+  return (
+    <div className="min-h-[calc(100vh-56px)] bg-gradient-to-b from-stone-50 via-stone-50 to-orange-50/30">
+      {/* Hero header — matching account page pattern */}
+      <header className="relative overflow-hidden border-b border-stone-200/60 bg-white/60 backdrop-blur-sm">
+        <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-sky-100/40 via-transparent to-transparent" />
+        <div className="relative mx-auto max-w-3xl px-6 py-12 sm:py-16">
+          <Link
+            href="/account"
+            className="mb-4 inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800"
+          >
+            <ArrowLeft className="h-3 w-3" />
+            {t("back")}
+          </Link>
+          <div className="flex items-end justify-between gap-4">
+            <div>
+              <p className="mb-2 text-xs font-semibold uppercase tracking-[0.2em] text-sky-600">
+                {t("title")}
+              </p>
+              <h1 className="font-serif text-3xl font-medium tracking-tight text-slate-900 sm:text-4xl">
+                {t("description")}
+              </h1>
+            </div>
+            <Wallet className="hidden h-10 w-10 text-stone-300 sm:block" />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-6 py-10 sm:py-14">
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <label htmlFor="usage-month" className="text-slate-600">
+            {t("month")}
+          </label>
+          <input
+            id="usage-month"
+            type="month"
+            value={month}
+            max={new Date().toISOString().slice(0, 7)}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="rounded-md border border-slate-200 bg-white px-2 py-1 text-slate-800"
+          />
+        </div>
+
+        {isLoading && (
+          <div className="flex justify-center py-12 text-slate-500">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <p className="rounded-lg bg-red-50 p-4 text-sm text-red-700">
+            {t("loadError")}
+          </p>
+        )}
+
+        {data && budget && (
+          <>
+            <section className="rounded-2xl bg-white/80 p-8 shadow-[0_4px_24px_rgba(15,23,42,0.06)] ring-1 ring-slate-200/60 backdrop-blur-sm">
+              <div className="flex items-baseline justify-between gap-4">
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-slate-500">{t("spent")}</p>
+                  <p className="font-serif text-3xl text-slate-900">{usd(data.totals.costUsd)}</p>
+                </div>
+                {isCurrentMonth && (
+                  <div className="text-right">
+                    <p className="text-xs uppercase tracking-wide text-slate-500">{t("limit")}</p>
+                    <p className="text-lg text-slate-700">
+                      {budget.limitUsd === null ? t("noLimit") : usd(budget.limitUsd)}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {percent !== null && (
+                <div className="mt-4 h-2 overflow-hidden rounded-full bg-slate-100">
+                  <div
+                    className={`h-full rounded-full ${budget.exceeded ? "bg-red-500" : percent >= 80 ? "bg-amber-500" : "bg-sky-500"}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              )}
+
+              <p className="mt-4 text-sm text-slate-600">
+                {t("callsSummary", {
+                  calls: data.totals.calls,
+                  tokens: (data.totals.promptTokens + data.totals.completionTokens).toLocaleString(),
+                })}
+              </p>
+
+              {isCurrentMonth && budget.limitUsd !== null && (
+                <p
+                  className={`mt-2 text-sm ${budget.exceeded ? "font-medium text-red-700" : "text-slate-500"}`}
+                >
+                  {budget.exceeded
+                    ? budget.action === "downgrade"
+                      ? t("exceededDowngrade")
+                      : t("exceededBlock")
+                    : budget.action === "downgrade"
+                      ? t("policyDowngrade")
+                      : t("policyBlock")}
+                </p>
+              )}
+            </section>
+
+            {data.breakdown.day.length > 0 && (
+              <section className="rounded-2xl bg-white/80 p-6 shadow-[0_4px_24px_rgba(15,23,42,0.06)] ring-1 ring-slate-200/60 backdrop-blur-sm">
+                <h2 className="mb-4 text-sm font-semibold text-slate-900">{t("byDay")}</h2>
+                <div className="flex h-32 items-end gap-1">
+                  {data.breakdown.day.map((day) => (
+                    <div
+                      key={day.key}
+                      className="flex-1 rounded-t bg-sky-400/80 hover:bg-sky-500"
+                      style={{ height: `${maxDay > 0 ? Math.max(2, (day.costUsd / maxDay) * 100) : 2}%` }}
+                      title={`${day.key}: ${usd(day.costUsd)} · ${day.calls}`}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {TABLE_DIMENSIONS.map((dimension) => (
+              <UsageTable
+                key={dimension}
+                title={t(`by.${dimension}`)}
+                rows={data.breakdown[dimension]}
+                usd={usd}
+              />
+            ))}
+
+            <p className="text-xs text-slate-400">{t("estimateNote")}</p>
+          </>
+        )}
+      </main>
+
+      {/* Footer accent gradient */}
+      <div className="h-24 bg-gradient-to-t from-orange-50/40 to-transparent" />
+    </div>
+  );
+}
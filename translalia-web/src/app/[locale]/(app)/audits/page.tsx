@@ -0,0 +1,560 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { ArrowLeft, FileSearch, GitCompare, Play, X } from "lucide-react";
+import { Link } from "@/i18n/routing";
+import {
+  useAuditDiff,
+  useAudits,
+  useReplayAudit,
+} from "@/lib/hooks/useAudits";
+import type {
+  AuditFilters,
+  AuditKind,
+  AuditRecord,
+  AuditReplayResult,
+  TextDiffOp,
+} from "@/types/audits";
+
+/**
+ * Internal audit explorer: the caller's masked prompt audits and Method 2
+ * line audits with filters, a two-audit diff and replay against the current
+ * prompt builders. English-only like the verification dashboard.
+ */
+
+type FilterDraft = Omit<AuditFilters, "kind" | "before" | "limit">;
+
+const PAGE_SIZE = 50;
+
+export default function AuditExplorerPage() {
+  const [kind, setKind] = useState<AuditKind>("prompt");
+  const [draft, setDraft] = useState<FilterDraft>({});
+  const [applied, setApplied] = useState<FilterDraft>({});
+  // Cursors of the pages before the current one
+  const [cursors, setCursors] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compare, setCompare] = useState<string[]>([]);
+
+  const before = cursors[cursors.length - 1];
+  const { data, isLoading, error } = useAudits({
+    kind,
+    ...applied,
+    before,
+    limit: PAGE_SIZE,
+  });
+  const audits = data?.audits ?? [];
+  const selected = audits.find((a) => a.id === selectedId) ?? null;
+
+  const reset = (nextKind: AuditKind) => {
+    setKind(nextKind);
+    setDraft({});
+    setApplied({});
+    setCursors([]);
+    setSelectedId(null);
+    setCompare([]);
+  };
+
+  const onSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setApplied(draft);
+    setCursors([]);
+  };
+
+  const toggleCompare = (id: string) =>
+    setCompare((prev) =>
+      prev.includes(id)
+        ? prev.filter((x) => x !== id)
+        : [...prev, id].slice(-2)
+    );
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-7xl mx-auto">
+        <Link
+          href="/verification-dashboard"
+          className="mb-4 inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-800"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Verification analytics
+        </Link>
+
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center gap-2">
+            <FileSearch className="w-7 h-7 text-blue-600" />
+            Audit Explorer
+          </h1>
+          <p className="text-gray-600">
+            Masked prompt audits and Method 2 line audits from your threads.
+            Pick two rows to diff them; replay re-runs an audit against the
+            current prompt builders.
+          </p>
+        </div>
+
+        <div className="mb-4 inline-flex rounded-lg border border-gray-200 bg-white p-1">
+          {(["prompt", "line"] as const).map((k) => (
+            <button
+              key={k}
+              onClick={() => reset(k)}
+              className={`px-4 py-1.5 text-sm rounded-md ${
+                kind === k ? "bg-gray-800 text-white" : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              {k === "prompt" ? "Prompt audits" : "Line audits"}
+            </button>
+          ))}
+        </div>
+
+        <form
+          onSubmit={onSubmit}
+          className="mb-6 grid grid-cols-2 md:grid-cols-6 gap-3 bg-white rounded-lg shadow-sm p-4"
+        >
+          {kind === "prompt" && (
+            <FilterInput
+              label="Stage"
+              value={draft.stage}
+              placeholder="line-verification-internal"
+              onChange={(stage) => setDraft((d) => ({ ...d, stage }))}
+            />
+          )}
+          <FilterInput
+            label="Model"
+            value={draft.model}
+            onChange={(model) => setDraft((d) => ({ ...d, model }))}
+          />
+          <FilterInput
+            label="Thread ID"
+            value={draft.threadId}
+            onChange={(threadId) => setDraft((d) => ({ ...d, threadId }))}
+          />
+          {kind === "prompt" ? (
+            <FilterInput
+              label="Prompt/response contains"
+              value={draft.q}
+              onChange={(q) => setDraft((d) => ({ ...d, q }))}
+            />
+          ) : (
+            <>
+              <FilterInput
+                label="Gate reason"
+                value={draft.gateReason}
+                placeholder="overlap_high"
+                onChange={(gateReason) => setDraft((d) => ({ ...d, gateReason }))}
+              />
+              <label className="text-xs font-medium text-gray-500">
+                Regen strategy
+                <select
+                  value={draft.regenStrategy ?? ""}
+                  onChange={(e) =>
+                    setDraft((d) => ({
+                      ...d,
+                      regenStrategy:
+                        (e.target.value as FilterDraft["regenStrategy"]) || undefined,
+                    }))
+                  }
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+                >
+                  <option value="">Any</option>
+                  <option value="single">single</option>
+                  <option value="salvage">salvage</option>
+                </select>
+              </label>
+            </>
+          )}
+          <div className="flex items-end">
+            <button
+              type="submit"
+              className="w-full px-4 py-1.5 bg-gray-800 text-white text-sm rounded-md hover:bg-gray-700"
+            >
+              Search
+            </button>
+          </div>
+        </form>
+
+        {compare.length === 2 && (
+          <DiffPanel
+            kind={kind}
+            a={compare[0]}
+            b={compare[1]}
+            onClose={() => setCompare([])}
+          />
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-3 bg-white rounded-lg shadow-sm overflow-hidden">
+            {isLoading && (
+              <div className="p-8">
+                <div className="animate-spin h-8 w-8 border-4 border-gray-300 border-t-blue-600 rounded-full mx-auto" />
+              </div>
+            )}
+            {error && (
+              <p className="p-4 text-sm text-red-700 bg-red-50">{error.message}</p>
+            )}
+            {data && audits.length === 0 && (
+              <p className="p-8 text-center text-gray-500">No audits match.</p>
+            )}
+            {audits.length > 0 && (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Diff</th>
+                    <th className="px-3 py-2 text-left">When</th>
+                    <th className="px-3 py-2 text-left">
+                      {kind === "prompt" ? "Stage" : "Line"}
+                    </th>
+                    <th className="px-3 py-2 text-left">Model</th>
+                    <th className="px-3 py-2 text-left">
+                      {kind === "prompt" ? "Thread" : "Gate / regen"}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {audits.map((audit) => (
+                    <tr
+                      key={audit.id}
+                      onClick={() => setSelectedId(audit.id)}
+                      className={`cursor-pointer hover:bg-gray-50 ${
+                        audit.id === selectedId ? "bg-blue-50" : ""
+                      }`}
+                    >
+                      <td className="px-3 py-2" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          checked={compare.includes(audit.id)}
+                          onChange={() => toggleCompare(audit.id)}
+                          aria-label="Select for diff"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                        {new Date(audit.createdAt).toLocaleString()}
+                      </td>
+                      <AuditSummaryCells audit={audit} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div className="flex justify-between border-t border-gray-100 px-3 py-2 text-sm">
+              <button
+                onClick={() => setCursors((c) => c.slice(0, -1))}
+                disabled={cursors.length === 0}
+                className="text-blue-600 disabled:text-gray-300"
+              >
+                Newer
+              </button>
+              <button
+                onClick={() =>
+                  data?.nextBefore && setCursors((c) => [...c, data.nextBefore!])
+                }
+                disabled={!data?.nextBefore}
+                className="text-blue-600 disabled:text-gray-300"
+              >
+                Older
+              </button>
+            </div>
+          </div>
+
+          <div className="lg:col-span-2">
+            {selected ? (
+              <AuditDetail key={selected.id} audit={selected} />
+            ) : (
+              <div className="bg-white rounded-lg shadow-sm p-8 text-center text-sm text-gray-500">
+                Select an audit to see its details.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FilterInput({
+  label,
+  value,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  value: string | undefined;
+  placeholder?: string;
+  onChange: (value: string | undefined) => void;
+}) {
+  return (
+    <label className="text-xs font-medium text-gray-500">
+      {label}
+      <input
+        value={value ?? ""}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value.trim() || undefined)}
+        className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+      />
+    </label>
+  );
+}
+
+function AuditSummaryCells({ audit }: { audit: AuditRecord }) {
+  if (audit.kind === "prompt") {
+    return (
+      <>
+        <td className="px-3 py-2 font-mono text-xs">{audit.stage}</td>
+        <td className="px-3 py-2">{audit.model}</td>
+        <td className="px-3 py-2 font-mono text-xs text-gray-500">
+          {audit.threadId?.slice(0, 8) ?? "—"}
+        </td>
+      </>
+    );
+  }
+  return (
+    <>
+      <td className="px-3 py-2">
+        {audit.lineIndex ?? "—"}
+        <span className="ml-1 text-xs text-gray-400">{audit.mode}</span>
+      </td>
+      <td className="px-3 py-2">{audit.model}</td>
+      <td className="px-3 py-2 text-xs">
+        <span className={audit.gatePass ? "text-green-700" : "text-red-700"}>
+          {audit.gatePass ? "pass" : audit.gateReason ?? "fail"}
+        </span>
+        {audit.regenPerformed && (
+          <span className="ml-2 text-gray-500">regen: {audit.regenStrategy}</span>
+        )}
+      </td>
+    </>
+  );
+}
+
+function AuditDetail({ audit }: { audit: AuditRecord }) {
+  const replay = useReplayAudit();
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-mono text-xs text-gray-500">{audit.id}</p>
+          <p className="text-sm text-gray-700">
+            {audit.model} · thread{" "}
+            <span className="font-mono">{audit.threadId ?? "—"}</span>
+          </p>
+        </div>
+        <button
+          onClick={() => replay.mutate({ kind: audit.kind, auditId: audit.id })}
+          disabled={!audit.replayable || replay.isPending}
+          title={
+            audit.replayable
+              ? "Re-run against the current prompt builders"
+              : "This audit did not keep enough input to replay"
+          }
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-40"
+        >
+          <Play className="w-4 h-4" />
+          {replay.isPending ? "Replaying..." : "Replay"}
+        </button>
+      </div>
+
+      {audit.kind === "prompt" ? (
+        <>
+          <TextBlock title="System prompt (masked)" text={audit.promptSystem} />
+          <TextBlock title="User prompt (masked)" text={audit.promptUser} />
+          <TextBlock title="Response excerpt" text={audit.responseExcerpt ?? ""} />
+          {audit.redactions.length > 0 && (
+            <p className="text-xs text-gray-500">
+              Redactions: {audit.redactions.join(", ")}
+            </p>
+          )}
+        </>
+      ) : (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          <Field label="Stanza / line" value={`${audit.stanzaIndex ?? "—"} / ${audit.lineIndex ?? "—"}`} />
+          <Field label="Recipe cache" value={audit.recipeCacheHit} />
+          <Field label="Phase 1" value={audit.phase1Pass === null ? null : audit.phase1Pass ? "pass" : (audit.phase1Failed ?? []).join(", ")} />
+          <Field label="Gate" value={audit.gatePass ? "pass" : audit.gateReason} />
+          <Field label="Failed constraints" value={(audit.gateFailedConstraints ?? []).join(", ")} />
+          <Field label="Avg similarity" value={audit.gateSimilarity?.avgPairwise?.toFixed(3)} />
+          <Field label="Regen" value={audit.regenPerformed ? `${audit.regenStrategy} (${audit.regenVariantLabel ?? "?"})` : "no"} />
+          <Field label="Regen reason" value={audit.regenReason} />
+        </dl>
+      )}
+
+      {replay.error && <p className="text-sm text-red-600">{replay.error.message}</p>}
+      {replay.data && <ReplayResult result={replay.data} />}
+    </div>
+  );
+}
+
+function Field({ label, value }: { label: string; value: string | null | undefined }) {
+  return (
+    <>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className="text-gray-900">{value || "—"}</dd>
+    </>
+  );
+}
+
+function TextBlock({ title, text }: { title: string; text: string }) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-500 uppercase mb-1">{title}</p>
+      <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded bg-gray-50 p-2 text-xs text-gray-800">
+        {text || "—"}
+      </pre>
+    </div>
+  );
+}
+
+function DiffView({ ops }: { ops: TextDiffOp[] }) {
+  return (
+    <pre className="max-h-72 overflow-auto whitespace-pre-wrap rounded bg-gray-50 p-2 text-xs">
+      {ops.map((op, i) => (
+        <span
+          key={i}
+          className={
+            op.op === "add"
+              ? "block bg-green-100 text-green-900"
+              : op.op === "remove"
+                ? "block bg-red-100 text-red-900 line-through"
+                : "block text-gray-700"
+          }
+        >
+          {op.text}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+function ReplayResult({ result }: { result: AuditReplayResult }) {
+  if (result.kind === "prompt") {
+    const dimensions = Object.keys({ ...result.original.scores, ...result.replay.scores });
+    return (
+      <div className="space-y-3 border-t border-gray-100 pt-3">
+        <p className="text-sm font-semibold text-gray-900">
+          Replay ({result.model}): overall {result.original.overall ?? "—"} →{" "}
+          {result.replay.overall ?? "—"}
+        </p>
+        <table className="w-full text-xs">
+          <tbody>
+            {dimensions.map((d) => {
+              const key = d as keyof typeof result.original.scores;
+              return (
+                <tr key={d}>
+                  <td className="py-0.5 text-gray-600">{d.replace(/_/g, " ")}</td>
+                  <td className="py-0.5 text-right">{result.original.scores[key] ?? "—"}</td>
+                  <td className="py-0.5 text-right font-semibold">
+                    {result.replay.scores[key] ?? "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-xs font-medium text-gray-500 uppercase">
+          System prompt: stored → current builder
+        </p>
+        <DiffView ops={result.promptDiff.system} />
+        <p className="text-xs font-medium text-gray-500 uppercase">
+          User prompt: stored → current builder
+        </p>
+        <DiffView ops={result.promptDiff.user} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 border-t border-gray-100 pt-3">
+      <p className="text-sm text-gray-700">
+        <span className="font-semibold">Line:</span> {result.lineText}
+      </p>
+      <p className="text-sm text-gray-700">
+        Gate {result.original.gatePass ? "pass" : result.original.gateReason ?? "fail"} →{" "}
+        {result.replay.qualityMetadata?.gatePass === false
+          ? result.replay.qualityMetadata.gateReason ?? "fail"
+          : "pass"}
+        {" · "}regen {result.original.regenPerformed ? "yes" : "no"} →{" "}
+        {result.replay.qualityMetadata?.regenPerformed ? "yes" : "no"}
+      </p>
+      {result.replay.variants.map((variant, i) => (
+        <div key={i}>
+          <p className="text-xs font-medium text-gray-500 uppercase mb-1">
+            Variant {String.fromCharCode(65 + i)}
+          </p>
+          {result.variantDiffs ? (
+            <DiffView ops={result.variantDiffs[i]} />
+          ) : (
+            <p className="text-sm text-gray-900">{variant}</p>
+          )}
+        </div>
+      ))}
+      {!result.variantDiffs && (
+        <p className="text-xs text-gray-500">
+          No trace was recorded for the audited run, so only the new variants are shown.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function DiffPanel({
+  kind,
+  a,
+  b,
+  onClose,
+}: {
+  kind: AuditKind;
+  a: string;
+  b: string;
+  onClose: () => void;
+}) {
+  const { data, isLoading, error } = useAuditDiff(kind, a, b);
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-blue-600" />
+          Diff
+          <span className="font-mono text-xs text-gray-500">
+            {a.slice(0, 8)} → {b.slice(0, 8)}
+          </span>
+        </h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isLoading && <p className="text-sm text-gray-500">Comparing...</p>}
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+      {data && (
+        <div className="space-y-4">
+          {data.fields.length === 0 ? (
+            <p className="text-sm text-gray-500">No field differences.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="text-gray-500 uppercase">
+                <tr>
+                  <th className="py-1 text-left">Field</th>
+                  <th className="py-1 text-left">A</th>
+                  <th className="py-1 text-left">B</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {data.fields.map((f) => (
+                  <tr key={f.path}>
+                    <td className="py-1 font-mono">{f.path}</td>
+                    <td className="py-1 text-red-800">{JSON.stringify(f.a)}</td>
+                    <td className="py-1 text-green-800">{JSON.stringify(f.b)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {Object.entries(data.text).map(([name, ops]) => (
+            <div key={name}>
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">{name}</p>
+              <DiffView ops={ops} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
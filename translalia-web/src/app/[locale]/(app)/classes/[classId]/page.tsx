@@ -0,0 +1,328 @@
+"use client";
+
+import * as React from "react";
+import { useParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Loader2 } from "lucide-react";
+import { Link, useRouter } from "@/i18n/routing";
+import { routes } from "@/lib/routers";
+import { useSupabaseUser } from "@/hooks/useSupabaseUser";
+import {
+  useAssignmentSubmissions,
+  useClassDetail,
+  useCreateAssignment,
+  useStartAssignment,
+} from "@/lib/hooks/useClassroom";
+import {
+  DEFAULT_VARIANT_COUNT,
+  MAX_VARIANT_COUNT,
+  MIN_VARIANT_COUNT,
+} from "@/lib/ai/variantCount";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { ClassAssignment, SubmissionStatus } from "@/types/classroom";
+
+const STATUS_BADGE: Record<SubmissionStatus, "secondary" | "warning" | "success" | "outline"> = {
+  in_progress: "secondary",
+  submitted: "warning",
+  returned: "outline",
+  reviewed: "success",
+};
+
+export default function ClassPage() {
+  const { classId } = useParams<{ classId: string }>();
+  const t = useTranslations("Classroom");
+  const tCommon = useTranslations("Common");
+  const router = useRouter();
+  const { user, loading: authLoading } = useSupabaseUser();
+  const { data, isLoading, error } = useClassDetail(classId);
+
+  React.useEffect(() => {
+    if (!authLoading && !user) {
+      router.push(`/auth/sign-in?redirect=${encodeURIComponent(routes.classDetail(classId))}`);
+    }
+  }, [authLoading, user, router, classId]);
+
+  if (isLoading) {
+    return <p className="p-10 text-sm text-slate-500">{tCommon("loading")}</p>;
+  }
+  if (error || !data) {
+    return <p className="p-10 text-sm text-red-600">{error?.message ?? t("notFound")}</p>;
+  }
+
+  const isTeacher = data.class.role === "teacher";
+
+  return (
+    <div className="min-h-full bg-slate-50 px-4 py-10 text-slate-900">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-8">
+        <section className="rounded-3xl bg-white/80 px-6 py-8 shadow-[0_20px_60px_rgba(15,23,42,0.08)] sm:px-10">
+          <Link href={routes.classes()} className="text-sm text-slate-500 hover:text-slate-700">
+            {t("backToClasses")}
+          </Link>
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-4">
+            <h1 className="text-3xl font-semibold tracking-tight">{data.class.name}</h1>
+            {data.class.joinCode && (
+              <div className="rounded-2xl bg-slate-50 px-4 py-2 ring-1 ring-slate-200">
+                <p className="text-xs uppercase tracking-widest text-slate-500">
+                  {t("joinCode")}
+                </p>
+                <p className="font-mono text-xl font-semibold tracking-[0.3em]">
+                  {data.class.joinCode}
+                </p>
+              </div>
+            )}
+          </div>
+        </section>
+
+        {isTeacher && <NewAssignmentForm classId={classId} />}
+
+        <section className="rounded-3xl bg-white/90 p-6 shadow-sm ring-1 ring-slate-200 sm:p-8">
+          <h2 className="text-2xl font-semibold">{t("assignments")}</h2>
+          {data.assignments.length === 0 ? (
+            <p className="mt-6 text-sm text-slate-500">{t("noAssignments")}</p>
+          ) : (
+            <ul className="mt-6 grid gap-4">
+              {data.assignments.map((assignment) =>
+                isTeacher ? (
+                  <TeacherAssignment key={assignment.id} assignment={assignment} />
+                ) : (
+                  <StudentAssignment key={assignment.id} assignment={assignment} />
+                )
+              )}
+            </ul>
+          )}
+        </section>
+
+        <section className="rounded-3xl bg-white/90 p-6 shadow-sm ring-1 ring-slate-200 sm:p-8">
+          <h2 className="text-2xl font-semibold">{t("roster")}</h2>
+          <ul className="mt-4 divide-y divide-slate-100">
+            {data.members.map((member) => (
+              <li key={member.userId} className="flex items-center justify-between py-2 text-sm">
+                <span>{member.displayName || member.email || t("unknownStudent")}</span>
+                <Badge variant={member.role === "teacher" ? "default" : "secondary"}>
+                  {t(`role.${member.role}`)}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+}
+
+function AssignmentHeading({ assignment }: { assignment: ClassAssignment }) {
+  const t = useTranslations("Classroom");
+  return (
+    <div className="space-y-1">
+      <p className="text-lg font-semibold">{assignment.title}</p>
+      {assignment.dueAt && (
+        <p className="text-xs text-slate-500">
+          {t("dueAt", { date: new Date(assignment.dueAt).toLocaleString() })}
+        </p>
+      )}
+      {assignment.instructions && (
+        <p className="whitespace-pre-wrap text-sm text-slate-600">{assignment.instructions}</p>
+      )}
+    </div>
+  );
+}
+
+function StudentAssignment({ assignment }: { assignment: ClassAssignment }) {
+  const t = useTranslations("Classroom");
+  const router = useRouter();
+  const start = useStartAssignment();
+  const status = assignment.submission?.status;
+
+  return (
+    <li className="flex flex-col gap-4 rounded-2xl border border-slate-200 bg-white/70 p-5 sm:flex-row sm:items-start sm:justify-between">
+      <AssignmentHeading assignment={assignment} />
+      <div className="flex shrink-0 items-center gap-3">
+        {status && <Badge variant={STATUS_BADGE[status]}>{t(`status.${status}`)}</Badge>}
+        <Button
+          size="sm"
+          disabled={start.isPending}
+          onClick={() =>
+            start.mutate(assignment.id, {
+              onSuccess: ({ projectId, threadId }) =>
+                router.push(routes.projectWithThread(projectId, threadId)),
+            })
+          }
+        >
+          {start.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {status ? t("open") : t("start")}
+        </Button>
+      </div>
+      {start.error && <p className="text-sm text-red-600">{start.error.message}</p>}
+    </li>
+  );
+}
+
+function TeacherAssignment({ assignment }: { assignment: ClassAssignment }) {
+  const t = useTranslations("Classroom");
+  const [expanded, setExpanded] = React.useState(false);
+  const counts = assignment.statusCounts ?? {};
+
+  return (
+    <li className="rounded-2xl border border-slate-200 bg-white/70 p-5">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <AssignmentHeading assignment={assignment} />
+        <div className="flex shrink-0 flex-wrap items-center gap-2">
+          {(Object.keys(STATUS_BADGE) as SubmissionStatus[]).map((status) =>
+            counts[status] ? (
+              <Badge key={status} variant={STATUS_BADGE[status]}>
+                {t(`status.${status}`)} · {counts[status]}
+              </Badge>
+            ) : null
+          )}
+          <Button size="sm" variant="outline" onClick={() => setExpanded((v) => !v)}>
+            {expanded ? t("hideSubmissions") : t("showSubmissions")}
+          </Button>
+        </div>
+      </div>
+      {expanded && <SubmissionList assignmentId={assignment.id} classId={assignment.classId} />}
+    </li>
+  );
+}
+
+function SubmissionList({ assignmentId, classId }: { assignmentId: string; classId: string }) {
+  const t = useTranslations("Classroom");
+  const tCommon = useTranslations("Common");
+  const { data, isLoading, error } = useAssignmentSubmissions(assignmentId);
+
+  if (isLoading) return <p className="mt-4 text-sm text-slate-500">{tCommon("loading")}</p>;
+  if (error) return <p className="mt-4 text-sm text-red-600">{error.message}</p>;
+
+  const submissions = data?.submissions ?? [];
+  if (submissions.length === 0) {
+    return <p className="mt-4 text-sm text-slate-500">{t("noSubmissions")}</p>;
+  }
+
+  return (
+    <ul className="mt-4 divide-y divide-slate-100 border-t border-slate-100">
+      {submissions.map((submission) => (
+        <li key={submission.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+          <span>
+            {submission.student?.displayName ||
+              submission.student?.email ||
+              t("unknownStudent")}
+          </span>
+          <span className="flex items-center gap-3">
+            <Badge variant={STATUS_BADGE[submission.status]}>
+              {t(`status.${submission.status}`)}
+            </Badge>
+            <Link
+              href={routes.submissionReview(classId, submission.id)}
+              className="font-medium text-sky-700 hover:underline"
+            >
+              {t("review")}
+            </Link>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function NewAssignmentForm({ classId }: { classId: string }) {
+  const t = useTranslations("Classroom");
+  const createAssignment = useCreateAssignment(classId);
+  const [title, setTitle] = React.useState("");
+  const [instructions, setInstructions] = React.useState("");
+  const [sourcePoem, setSourcePoem] = React.useState("");
+  const [intent, setIntent] = React.useState("");
+  const [variantCount, setVariantCount] = React.useState(DEFAULT_VARIANT_COUNT);
+  const [dueAt, setDueAt] = React.useState("");
+
+  function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!title.trim() || !sourcePoem.trim()) return;
+    createAssignment.mutate(
+      {
+        title: title.trim(),
+        sourcePoem,
+        instructions: instructions.trim() || null,
+        guideDefaults: {
+          ...(intent.trim() ? { translationIntent: intent.trim() } : {}),
+          variantCount,
+        },
+        dueAt: dueAt ? new Date(dueAt).toISOString() : null,
+      },
+      {
+        onSuccess: () => {
+          setTitle("");
+          setInstructions("");
+          setSourcePoem("");
+          setIntent("");
+          setDueAt("");
+        },
+      }
+    );
+  }
+
+  return (
+    <section className="rounded-3xl bg-white/90 p-6 shadow-sm ring-1 ring-slate-200 sm:p-8">
+      <h2 className="text-2xl font-semibold">{t("newAssignment")}</h2>
+      <form onSubmit={onSubmit} className="mt-4 grid gap-4">
+        <label className="grid gap-1 text-sm font-medium text-slate-700">
+          {t("assignmentTitle")}
+          <Input value={title} maxLength={120} onChange={(e) => setTitle(e.target.value)} />
+        </label>
+        <label className="grid gap-1 text-sm font-medium text-slate-700">
+          {t("sourcePoem")}
+          <Textarea
+            rows={8}
+            value={sourcePoem}
+            onChange={(e) => setSourcePoem(e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1 text-sm font-medium text-slate-700">
+          {t("instructions")}
+          <Textarea
+            rows={3}
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+          />
+        </label>
+        <label className="grid gap-1 text-sm font-medium text-slate-700">
+          {t("translationIntent")}
+          <Input value={intent} onChange={(e) => setIntent(e.target.value)} />
+        </label>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="grid gap-1 text-sm font-medium text-slate-700">
+            {t("variantCount")}
+            <Input
+              type="number"
+              min={MIN_VARIANT_COUNT}
+              max={MAX_VARIANT_COUNT}
+              value={variantCount}
+              onChange={(e) => setVariantCount(Number(e.target.value) || DEFAULT_VARIANT_COUNT)}
+            />
+          </label>
+          <label className="grid gap-1 text-sm font-medium text-slate-700">
+            {t("dueDate")}
+            <Input
+              type="datetime-local"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+            />
+          </label>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button
+            type="submit"
+            disabled={createAssignment.isPending || !title.trim() || !sourcePoem.trim()}
+          >
+            {createAssignment.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("postAssignment")}
+          </Button>
+          {createAssignment.error && (
+            <p className="text-sm text-red-600">{createAssignment.error.message}</p>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+}
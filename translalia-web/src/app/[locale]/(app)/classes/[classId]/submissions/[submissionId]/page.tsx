@@ -0,0 +1,278 @@
+"use client";
+
+import * as React from "react";
+import { useParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Loader2, Trash2 } from "lucide-react";
+import { Link } from "@/i18n/routing";
+import { routes } from "@/lib/routers";
+import {
+  useAddSubmissionComment,
+  useDeleteSubmissionComment,
+  useSubmissionAction,
+  useSubmissionReview,
+} from "@/lib/hooks/useClassroom";
+import { JourneySummaryDisplay } from "@/components/journey/JourneySummaryDisplay";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { SubmissionComment } from "@/types/classroom";
+
+export default function SubmissionReviewPage() {
+  const { classId, submissionId } = useParams<{ classId: string; submissionId: string }>();
+  const t = useTranslations("Classroom");
+  const tDiary = useTranslations("Diary");
+  const tCommon = useTranslations("Common");
+  const { data, isLoading, error } = useSubmissionReview(submissionId);
+  const action = useSubmissionAction();
+  const [feedback, setFeedback] = React.useState<string | null>(null);
+
+  if (isLoading) {
+    return <p className="p-10 text-sm text-slate-500">{tCommon("loading")}</p>;
+  }
+  if (error || !data) {
+    return <p className="p-10 text-sm text-red-600">{error?.message ?? t("notFound")}</p>;
+  }
+
+  const { submission, assignment, student, role } = data;
+  const isTeacher = role === "teacher";
+  const feedbackText = feedback ?? submission.feedback ?? "";
+  const commentsByLine = new Map<number | null, SubmissionComment[]>();
+  for (const comment of data.comments) {
+    commentsByLine.set(comment.lineIndex, [
+      ...(commentsByLine.get(comment.lineIndex) ?? []),
+      comment,
+    ]);
+  }
+
+  return (
+    <div className="min-h-full bg-slate-50 px-4 py-10 text-slate-900">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-8">
+        <section className="rounded-3xl bg-white/80 px-6 py-8 shadow-[0_20px_60px_rgba(15,23,42,0.08)] sm:px-10">
+          <Link
+            href={routes.classDetail(classId)}
+            className="text-sm text-slate-500 hover:text-slate-700"
+          >
+            {t("backToClass")}
+          </Link>
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h1 className="text-3xl font-semibold tracking-tight">{assignment.title}</h1>
+              <p className="text-sm text-slate-600">
+                {student?.displayName || student?.email || t("unknownStudent")}
+                {submission.submittedAt &&
+                  ` · ${t("submittedAt", {
+                    date: new Date(submission.submittedAt).toLocaleString(),
+                  })}`}
+              </p>
+            </div>
+            <Badge>{t(`status.${submission.status}`)}</Badge>
+          </div>
+        </section>
+
+        <section className="rounded-3xl bg-white/90 p-6 shadow-sm ring-1 ring-slate-200 sm:p-8">
+          <h2 className="text-2xl font-semibold">{t("translation")}</h2>
+          <ol className="mt-4 divide-y divide-slate-100">
+            {data.sourceLines.map((source, index) => (
+              <li key={index} className="grid gap-2 py-3 md:grid-cols-2 md:gap-6">
+                <p className="text-sm text-slate-500">
+                  <span className="mr-2 font-mono text-xs text-slate-400">{index + 1}</span>
+                  {source}
+                </p>
+                <div className="space-y-2">
+                  <p className="text-sm">
+                    {data.translatedLines[index] ?? (
+                      <span className="italic text-slate-400">{t("untranslated")}</span>
+                    )}
+                  </p>
+                  <CommentThread
+                    submissionId={submission.id}
+                    lineIndex={index}
+                    comments={commentsByLine.get(index) ?? []}
+                    canEdit={isTeacher}
+                  />
+                </div>
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        <section className="grid gap-6 md:grid-cols-2">
+          <div className="rounded-3xl bg-white/90 p-6 shadow-sm ring-1 ring-slate-200">
+            <h2 className="text-lg font-semibold">{t("expressYourView")}</h2>
+            <p className="mt-3 whitespace-pre-wrap text-sm text-slate-700">
+              {data.expressYourView ?? (
+                <span className="italic text-slate-400">{t("noExpressYourView")}</span>
+              )}
+            </p>
+          </div>
+          <div className="rounded-3xl bg-white/90 p-6 shadow-sm ring-1 ring-slate-200">
+            <h2 className="text-lg font-semibold">{t("journeySummary")}</h2>
+            {data.journeySummary ? (
+              <JourneySummaryDisplay
+                data={data.journeySummary}
+                labels={{
+                  atAGlance: tDiary("journeyAtAGlance"),
+                  overview: tDiary("journeyOverview"),
+                  readMore: tDiary("journeyReadMore"),
+                  readLess: tDiary("journeyReadLess"),
+                  keyInsights: tDiary("keyInsights"),
+                  strengths: tDiary("strengths"),
+                  challenges: tDiary("challenges"),
+                  toExploreFurther: tDiary("toExploreFurther"),
+                }}
+              />
+            ) : (
+              <p className="mt-3 text-sm italic text-slate-400">{t("noJourneySummary")}</p>
+            )}
+          </div>
+        </section>
+
+        <section className="rounded-3xl bg-white/90 p-6 shadow-sm ring-1 ring-slate-200 sm:p-8">
+          <h2 className="text-2xl font-semibold">{t("feedback")}</h2>
+          <div className="mt-4">
+            <CommentThread
+              submissionId={submission.id}
+              lineIndex={null}
+              comments={commentsByLine.get(null) ?? []}
+              canEdit={isTeacher}
+            />
+          </div>
+          {isTeacher ? (
+            <div className="mt-4 space-y-3">
+              <Textarea
+                rows={4}
+                value={feedbackText}
+                maxLength={5000}
+                placeholder={t("feedbackPlaceholder")}
+                onChange={(e) => setFeedback(e.target.value)}
+              />
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  variant="outline"
+                  disabled={action.isPending || submission.status === "returned"}
+                  onClick={() =>
+                    action.mutate({
+                      submissionId: submission.id,
+                      action: "return",
+                      feedback: feedbackText,
+                    })
+                  }
+                >
+                  {t("returnToStudent")}
+                </Button>
+                <Button
+                  disabled={action.isPending || submission.status !== "submitted"}
+                  onClick={() =>
+                    action.mutate({
+                      submissionId: submission.id,
+                      action: "review",
+                      feedback: feedbackText,
+                    })
+                  }
+                >
+                  {action.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t("markReviewed")}
+                </Button>
+                {action.error && <p className="text-sm text-red-600">{action.error.message}</p>}
+              </div>
+            </div>
+          ) : (
+            submission.feedback && (
+              <p className="mt-4 whitespace-pre-wrap text-sm text-slate-700">
+                {submission.feedback}
+              </p>
+            )
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+function CommentThread({
+  submissionId,
+  lineIndex,
+  comments,
+  canEdit,
+}: {
+  submissionId: string;
+  lineIndex: number | null;
+  comments: SubmissionComment[];
+  canEdit: boolean;
+}) {
+  const t = useTranslations("Classroom");
+  const addComment = useAddSubmissionComment(submissionId);
+  const deleteComment = useDeleteSubmissionComment(submissionId);
+  const [draft, setDraft] = React.useState("");
+  const [open, setOpen] = React.useState(false);
+
+  function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    addComment.mutate(
+      { lineIndex, body: draft.trim() },
+      {
+        onSuccess: () => {
+          setDraft("");
+          setOpen(false);
+        },
+      }
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {comments.map((comment) => (
+        <div
+          key={comment.id}
+          className="flex items-start justify-between gap-2 rounded-lg bg-amber-50 px-3 py-2 text-sm text-amber-900"
+        >
+          <p className="whitespace-pre-wrap">{comment.body}</p>
+          {canEdit && (
+            <button
+              type="button"
+              aria-label={t("deleteComment")}
+              className="text-amber-700 hover:text-red-600"
+              disabled={deleteComment.isPending}
+              onClick={() => deleteComment.mutate(comment.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      {canEdit &&
+        (open ? (
+          <form onSubmit={onSubmit} className="space-y-2">
+            <Textarea
+              rows={2}
+              autoFocus
+              value={draft}
+              maxLength={2000}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" type="submit" disabled={addComment.isPending || !draft.trim()}>
+                {t("addComment")}
+              </Button>
+              <Button size="sm" type="button" variant="ghost" onClick={() => setOpen(false)}>
+                {t("cancel")}
+              </Button>
+            </div>
+            {addComment.error && (
+              <p className="text-sm text-red-600">{addComment.error.message}</p>
+            )}
+          </form>
+        ) : (
+          <button
+            type="button"
+            className="text-xs font-medium text-sky-700 hover:underline"
+            onClick={() => setOpen(true)}
+          >
+            {lineIndex === null ? t("commentOnTranslation") : t("commentOnLine")}
+          </button>
+        ))}
+    </div>
+  );
+}
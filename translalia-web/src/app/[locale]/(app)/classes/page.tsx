@@ -0,0 +1,149 @@
+"use client";
+
+import * as React from "react";
+import { useTranslations } from "next-intl";
+import { Loader2 } from "lucide-react";
+import { useRouter } from "@/i18n/routing";
+import { routes } from "@/lib/routers";
+import { useSupabaseUser } from "@/hooks/useSupabaseUser";
+import { useClasses, useCreateClass, useJoinClass } from "@/lib/hooks/useClassroom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export default function ClassesPage() {
+  const t = useTranslations("Classroom");
+  const tCommon = useTranslations("Common");
+  const router = useRouter();
+  const { user, loading: authLoading } = useSupabaseUser();
+  const { data, isLoading, error } = useClasses();
+  const createClass = useCreateClass();
+  const joinClass = useJoinClass();
+  const [name, setName] = React.useState("");
+  const [code, setCode] = React.useState("");
+
+  React.useEffect(() => {
+    if (!authLoading && !user) {
+      router.push("/auth/sign-in?redirect=/classes");
+    }
+  }, [authLoading, user, router]);
+
+  function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    createClass.mutate(name.trim(), {
+      onSuccess: ({ class: created }) => router.push(routes.classDetail(created.id)),
+    });
+  }
+
+  function onJoin(e: React.FormEvent) {
+    e.preventDefault();
+    if (!code.trim()) return;
+    joinClass.mutate(code.trim(), {
+      onSuccess: ({ classId }) => router.push(routes.classDetail(classId)),
+    });
+  }
+
+  const classes = data?.classes ?? [];
+
+  return (
+    <div className="min-h-full bg-slate-50 px-4 py-10 text-slate-900">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-8">
+        <section className="rounded-3xl bg-white/80 px-6 py-8 shadow-[0_20px_60px_rgba(15,23,42,0.08)] sm:px-10">
+          <p className="text-sm font-semibold uppercase tracking-[0.3em] text-slate-500">
+            {t("title")}
+          </p>
+          <h1 className="mt-2 text-3xl font-semibold tracking-tight">{t("heading")}</h1>
+          <p className="mt-2 text-base text-slate-600">{t("description")}</p>
+
+          <div className="mt-6 grid gap-4 md:grid-cols-2">
+            <form
+              onSubmit={onCreate}
+              className="space-y-2 rounded-2xl bg-slate-50/90 p-4 ring-1 ring-slate-200"
+            >
+              <label className="text-sm font-medium text-slate-700" htmlFor="class-name">
+                {t("createLabel")}
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id="class-name"
+                  value={name}
+                  maxLength={120}
+                  placeholder={t("createPlaceholder")}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <Button type="submit" disabled={createClass.isPending || !name.trim()}>
+                  {createClass.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t("create")}
+                </Button>
+              </div>
+              {createClass.error && (
+                <p className="text-sm text-red-600">{createClass.error.message}</p>
+              )}
+            </form>
+
+            <form
+              onSubmit={onJoin}
+              className="space-y-2 rounded-2xl bg-slate-50/90 p-4 ring-1 ring-slate-200"
+            >
+              <label className="text-sm font-medium text-slate-700" htmlFor="join-code">
+                {t("joinLabel")}
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id="join-code"
+                  value={code}
+                  maxLength={16}
+                  placeholder={t("joinPlaceholder")}
+                  className="uppercase"
+                  onChange={(e) => setCode(e.target.value)}
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={joinClass.isPending || !code.trim()}
+                >
+                  {joinClass.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t("join")}
+                </Button>
+              </div>
+              {joinClass.error && (
+                <p className="text-sm text-red-600">{joinClass.error.message}</p>
+              )}
+            </form>
+          </div>
+        </section>
+
+        <section className="rounded-3xl bg-white/90 p-6 shadow-sm ring-1 ring-slate-200 sm:p-8">
+          <h2 className="text-2xl font-semibold">{t("yourClasses")}</h2>
+          {isLoading ? (
+            <p className="mt-6 text-sm text-slate-500">{tCommon("loading")}</p>
+          ) : error ? (
+            <p className="mt-6 text-sm text-red-600">{error.message}</p>
+          ) : classes.length === 0 ? (
+            <p className="mt-6 rounded-2xl border border-dashed border-slate-300 bg-slate-50/60 px-5 py-10 text-center text-sm text-slate-500">
+              {t("noClasses")}
+            </p>
+          ) : (
+            <ul className="mt-6 grid gap-3">
+              {classes.map((c) => (
+                <li key={c.id}>
+                  <button
+                    type="button"
+                    onClick={() => router.push(routes.classDetail(c.id))}
+                    className="flex w-full items-center justify-between rounded-2xl border border-slate-200 bg-white/70 p-5 text-left transition hover:border-sky-200 hover:shadow-lg"
+                  >
+                    <span className="text-lg font-semibold">{c.name}</span>
+                    <Badge variant={c.role === "teacher" ? "default" : "secondary"}>
+                      {t(`role.${c.role}`)}
+                    </Badge>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import * as React from "react";
 import { useRouter } from "@/i18n/routing";
-import { useTranslations } from "next-intl";
+import { useLocale, useTranslations } from "next-intl";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
 import { useSupabaseUser } from "@/hooks/useSupabaseUser";
@@ -20,6 +20,7 @@ import {
   PenLine,
   Download,
   Printer,
+  FileDown,
 } from "lucide-react";
 import { JourneySummaryDisplay } from "@/components/journey/JourneySummaryDisplay";
 import { Button } from "@/components/ui/button";
@@ -32,6 +33,7 @@ import type {
   DiaryTranslationInsights,
 } from "@/lib/diary/types";
 import {
+  downloadEntryExport,
   exportEntryAsPdf,
   exportEntryAsTxt,
   getLineNoteEntries,
@@ -325,6 +327,15 @@ function normalizeEntry(raw: DiaryResponse["items"][number]): DiaryEntry {
   };
 }
 
+type ServerExportFormat = "md" | "docx" | "epub";
+
+const SERVER_EXPORTS: Array<{ format: ServerExportFormat; labelKey: string }> =
+  [
+    { format: "md", labelKey: "exportMarkdown" },
+    { format: "docx", labelKey: "exportDocx" },
+    { format: "epub", labelKey: "exportEpub" },
+  ];
+
 function buildExportLabels(t: (key: string) => string): DiaryExportLabels {
   return {
     title: t("title"),
@@ -350,6 +361,8 @@ function buildExportLabels(t: (key: string) => string): DiaryExportLabels {
     generatedOn: t("generatedOn"),
     lineCount: t("lineCount"),
     untitledPoem: t("untitledPoem"),
+    line: t("line"),
+    lineReferences: t("lineReferences"),
   };
 }
 
@@ -363,9 +376,31 @@ function PoemEntry({
   exportLabels: DiaryExportLabels;
 }) {
   const [expanded, setExpanded] = React.useState(false);
+  const [exporting, setExporting] = React.useState<ServerExportFormat | null>(
+    null
+  );
+  const [exportFailed, setExportFailed] = React.useState(false);
+  const locale = useLocale();
   const validLines = getValidLines(entry);
   const threadId = entry.thread_id;
 
+  const handleServerExport = async (format: ServerExportFormat) => {
+    setExporting(format);
+    setExportFailed(false);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      await downloadEntryExport(entry, exportLabels, format, {
+        locale,
+        accessToken: sessionData.session?.access_token,
+      });
+    } catch (err) {
+      console.error("[diary] export failed:", err);
+      setExportFailed(true);
+    } finally {
+      setExporting(null);
+    }
+  };
+
   const handleJump = (sectionId: string) => {
     const el = document.getElementById(sectionId);
     el?.scrollIntoView({ behavior: "smooth", block: "start" });
@@ -433,6 +468,25 @@ function PoemEntry({
               <Printer className="mr-1.5 h-4 w-4" />
               {t("exportPdf")}
             </Button>
+            {SERVER_EXPORTS.map(({ format, labelKey }) => (
+              <Button
+                key={format}
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleServerExport(format)}
+                disabled={exporting !== null}
+                className="rounded-full text-foreground-secondary"
+                title={t(labelKey)}
+              >
+                {exporting === format ? (
+                  <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileDown className="mr-1.5 h-4 w-4" />
+                )}
+                {t(labelKey)}
+              </Button>
+            ))}
             <button
               type="button"
               onClick={() => setExpanded(!expanded)}
@@ -453,6 +507,15 @@ function PoemEntry({
             </button>
           </div>
         </div>
+        {exportFailed && (
+          <p
+            className="mt-3 flex items-center gap-1.5 text-sm text-error"
+            role="alert"
+          >
+            <AlertCircle className="h-4 w-4" />
+            {t("exportFailed")}
+          </p>
+        )}
       </header>
 
       <div
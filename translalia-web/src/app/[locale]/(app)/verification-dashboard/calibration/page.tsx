@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowLeft, CheckCircle, ClipboardCheck } from "lucide-react";
+import { Link } from "@/i18n/routing";
+import {
+  useCalibrationQueue,
+  useSubmitCalibrationRating,
+} from "@/lib/hooks/useVerificationAnalytics";
+import { VERIFICATION_DIMENSIONS } from "@/lib/verification/calibration";
+import type {
+  CalibrationQueueItem,
+  HumanDimensionScores,
+} from "@/types/verification";
+
+/**
+ * Blind grading for Track A calibration. Reviewers score sampled lines on the
+ * grader's dimensions without seeing the model's scores or each other's.
+ * Internal only, like the rest of the verification dashboard.
+ */
+
+const DIMENSION_HINTS: Record<keyof HumanDimensionScores, string> = {
+  semantic_accuracy: "Literal meaning preserved",
+  cultural_fidelity: "Idioms and references handled appropriately",
+  rhythm_prosody: "Rhythm and sound patterns",
+  register_tone: "Formal/informal alignment",
+  dialect_preservation: "Non-standard forms respected",
+  option_quality: "Were the generated choices actually good?",
+};
+
+function emptyScores(): HumanDimensionScores {
+  return Object.fromEntries(
+    VERIFICATION_DIMENSIONS.map((d) => [d, 5])
+  ) as HumanDimensionScores;
+}
+
+export default function CalibrationGradingPage() {
+  const { data, isLoading, error } = useCalibrationQueue(5);
+  const item = data?.items[0];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-3xl mx-auto">
+        <Link
+          href="/verification-dashboard"
+          className="mb-4 inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-800"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Verification analytics
+        </Link>
+
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center gap-2">
+            <ClipboardCheck className="w-7 h-7 text-blue-600" />
+            Grader Calibration
+          </h1>
+          <p className="text-gray-600">
+            Score each line on your own judgement. The model&apos;s grade and
+            other reviewers&apos; scores stay hidden until the report.
+          </p>
+        </div>
+
+        {isLoading && (
+          <div className="animate-spin h-8 w-8 border-4 border-gray-300 border-t-blue-600 rounded-full mx-auto" />
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+            Failed to load lines. Calibration is limited to reviewers.
+          </div>
+        )}
+
+        {data && !item && (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">
+              Nothing left to grade
+            </h2>
+            <p className="text-gray-600">
+              Sample more lines from the verification dashboard.
+            </p>
+          </div>
+        )}
+
+        {item && (
+          <GradingCard key={item.id} item={item} remaining={data.remaining} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function GradingCard({
+  item,
+  remaining,
+}: {
+  item: CalibrationQueueItem;
+  remaining: number;
+}) {
+  const [scores, setScores] = useState<HumanDimensionScores>(emptyScores);
+  const [notes, setNotes] = useState("");
+  const submit = useSubmitCalibrationRating();
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex justify-between text-xs text-gray-500 mb-4">
+        <span>
+          {item.sourceLanguage} → {item.targetLanguage}
+        </span>
+        <span>{remaining} left</span>
+      </div>
+
+      <div className="space-y-3 mb-6">
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase mb-1">Source</p>
+          <p className="text-lg text-gray-900">{item.sourceLine}</p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase mb-1">Translation</p>
+          <p className="text-lg text-gray-900">{item.translatedLine}</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {VERIFICATION_DIMENSIONS.map((dimension) => {
+          const value = scores[dimension];
+          return (
+            <div key={dimension}>
+              <div className="flex justify-between items-baseline mb-1">
+                <label
+                  htmlFor={`score-${dimension}`}
+                  className="text-sm font-medium text-gray-700 capitalize"
+                >
+                  {dimension.replace(/_/g, " ")}
+                  <span className="ml-2 font-normal text-xs text-gray-500 normal-case">
+                    {DIMENSION_HINTS[dimension]}
+                  </span>
+                </label>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-semibold text-gray-900 w-10 text-right">
+                    {value === null ? "N/A" : `${value}/10`}
+                  </span>
+                  <label className="flex items-center gap-1 text-xs text-gray-500">
+                    <input
+                      type="checkbox"
+                      checked={value === null}
+                      onChange={(e) =>
+                        setScores((prev) => ({
+                          ...prev,
+                          [dimension]: e.target.checked ? null : 5,
+                        }))
+                      }
+                    />
+                    N/A
+                  </label>
+                </div>
+              </div>
+              <input
+                id={`score-${dimension}`}
+                type="range"
+                min={0}
+                max={10}
+                step={1}
+                value={value ?? 5}
+                disabled={value === null}
+                onChange={(e) =>
+                  setScores((prev) => ({
+                    ...prev,
+                    [dimension]: Number(e.target.value),
+                  }))
+                }
+                className="w-full disabled:opacity-40"
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes (optional)"
+        rows={2}
+        className="mt-6 w-full rounded-lg border border-gray-300 p-2 text-sm"
+      />
+
+      {submit.error && (
+        <p className="mt-2 text-sm text-red-600">{submit.error.message}</p>
+      )}
+
+      <div className="mt-4 flex justify-end">
+        <button
+          onClick={() =>
+            submit.mutate({ itemId: item.id, scores, notes: notes || undefined })
+          }
+          disabled={submit.isPending}
+          className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
+        >
+          {submit.isPending ? "Saving..." : "Save and next"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,17 +2,23 @@
 
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "@/i18n/routing";
 import {
   useVerificationAnalytics,
   useGradeDetail,
+  useCalibrationReport,
+  useSampleCalibrationItems,
 } from "@/lib/hooks/useVerificationAnalytics";
+import type { CalibrationReport } from "@/types/verification";
 import {
   BarChart3,
+  ClipboardCheck,
   TrendingUp,
   AlertCircle,
   CheckCircle,
   Download,
   Eye,
+  FileSearch,
   X,
 } from "lucide-react";
 
@@ -74,9 +80,18 @@ export default function VerificationDashboard() {
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
             Translation Verification Analytics
           </h1>
-          <p className="text-gray-600">
-            Internal quality monitoring for AI-generated translations
-          </p>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-gray-600">
+              Internal quality monitoring for AI-generated translations
+            </p>
+            <Link
+              href="/audits"
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <FileSearch className="w-4 h-4" />
+              Audit explorer
+            </Link>
+          </div>
         </div>
 
         {/* Warning banner */}
@@ -159,6 +174,8 @@ export default function VerificationDashboard() {
           </div>
         )}
 
+        <CalibrationPanel />
+
         {!hasData ? (
           /* No data state */
           <div className="bg-white rounded-lg shadow-sm p-12 text-center">
@@ -369,6 +386,167 @@ export default function VerificationDashboard() {
 }
 
 // Helper Components
+const VERDICT_CLASSES: Record<
+  CalibrationReport["dimensions"][number]["verdict"],
+  string
+> = {
+  trusted: "bg-green-100 text-green-700",
+  review: "bg-red-100 text-red-700",
+  insufficient: "bg-gray-100 text-gray-500",
+};
+
+function formatStat(value: number | null, digits = 2) {
+  return value === null ? "—" : value.toFixed(digits);
+}
+
+/**
+ * Human calibration of the Track A grader. Only rendered for calibration
+ * reviewers; the report endpoint answers 403 to everyone else.
+ */
+function CalibrationPanel() {
+  const { data: report } = useCalibrationReport();
+  const sample = useSampleCalibrationItems();
+
+  if (!report) return null;
+
+  const maxAbsBias = Math.max(
+    1,
+    ...report.drift.map((point) => Math.abs(point.modelBias ?? 0))
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-blue-600" />
+            Grader Calibration
+          </h2>
+          <p className="text-sm text-gray-600">
+            {report.ratedItems} of {report.sampledItems} sampled lines rated ·{" "}
+            {report.ratings} ratings from {report.reviewers} reviewers
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => sample.mutate({ size: 20 })}
+            disabled={sample.isPending}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            {sample.isPending
+              ? "Sampling..."
+              : sample.data
+              ? `Sampled ${sample.data.added} more`
+              : "Sample 20 lines"}
+          </button>
+          <Link
+            href="/verification-dashboard/calibration"
+            className="px-3 py-1.5 text-sm bg-gray-800 text-white rounded-lg hover:bg-gray-700"
+          >
+            Grade lines
+          </Link>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {[
+                "Dimension",
+                "Items",
+                "Reviewer α",
+                "Reviewer |Δ|",
+                "Model r",
+                "Model ρ",
+                "Bias",
+                "MAE",
+                "Verdict",
+              ].map((heading) => (
+                <th
+                  key={heading}
+                  className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {report.dimensions.map((row) => (
+              <tr key={row.dimension}>
+                <td className="px-3 py-2 capitalize text-gray-900">
+                  {row.dimension.replace(/_/g, " ")}
+                </td>
+                <td className="px-3 py-2 text-gray-600">{row.items}</td>
+                <td className="px-3 py-2 text-gray-600">{formatStat(row.humanAlpha)}</td>
+                <td className="px-3 py-2 text-gray-600">{formatStat(row.humanMeanAbsDiff)}</td>
+                <td className="px-3 py-2 text-gray-600">{formatStat(row.modelPearson)}</td>
+                <td className="px-3 py-2 text-gray-600">{formatStat(row.modelSpearman)}</td>
+                <td className="px-3 py-2 text-gray-600">
+                  {row.modelBias !== null && row.modelBias > 0 ? "+" : ""}
+                  {formatStat(row.modelBias)}
+                </td>
+                <td className="px-3 py-2 text-gray-600">{formatStat(row.modelMeanAbsError)}</td>
+                <td className="px-3 py-2">
+                  <span
+                    className={`px-2 py-0.5 rounded text-xs font-medium ${VERDICT_CLASSES[row.verdict]}`}
+                  >
+                    {row.verdict}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {report.drift.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-gray-900 mb-1">
+            Model drift by week graded
+          </h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Mean model − reviewer score across dimensions; bars above the line
+            mean the grader scores higher than reviewers.
+          </p>
+          <div className="flex items-center h-32 gap-2">
+            {report.drift.map((point) => {
+              const bias = point.modelBias ?? 0;
+              const height = (Math.abs(bias) / maxAbsBias) * 50;
+              return (
+                <div
+                  key={point.period}
+                  className="flex-1 h-full flex flex-col"
+                  title={`Week of ${point.period}: bias ${formatStat(point.modelBias)}, MAE ${formatStat(point.modelMeanAbsError)}, r ${formatStat(point.modelPearson)} (${point.items} lines)`}
+                >
+                  <div className="h-1/2 flex items-end">
+                    {bias > 0 && (
+                      <div className="w-full bg-orange-400 rounded-t" style={{ height: `${height * 2}%` }} />
+                    )}
+                  </div>
+                  <div className="h-1/2 flex items-start border-t border-gray-300">
+                    {bias < 0 && (
+                      <div className="w-full bg-blue-400 rounded-b" style={{ height: `${height * 2}%` }} />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-2 mt-1">
+            {report.drift.map((point) => (
+              <div key={point.period} className="flex-1 text-center text-[10px] text-gray-500">
+                {point.period.slice(5)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function StatCard({
   title,
   value,
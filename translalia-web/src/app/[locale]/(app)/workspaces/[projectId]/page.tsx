@@ -8,6 +8,7 @@ import { supabase } from "@/lib/supabaseClient";
 import { routes } from "@/lib/routers";
 import { useSupabaseUser } from "@/hooks/useSupabaseUser";
 import Breadcrumbs from "@/components/nav/Breadcrumbs";
+import { ProjectGlossaryPanel } from "@/components/workspace/ProjectGlossaryPanel";
 import { useTranslations } from "next-intl";
 
 type Thread = { id: string; title: string | null; created_at: string };
@@ -203,6 +204,8 @@ export default function WorkspaceChatsPage() {
             )}
           </ul>
         </section>
+
+        {projectId && <ProjectGlossaryPanel projectId={projectId} />}
       </div>
     </div>
   );
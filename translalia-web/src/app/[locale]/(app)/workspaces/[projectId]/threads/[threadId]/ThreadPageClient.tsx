@@ -296,6 +296,8 @@ export default function ThreadPageClient({
         // Hydrate guide store
         if (hasDbPoem) {
           const gs = useGuideStore.getState();
+          // Saved with a section outline: re-split as a long-form work
+          if (poemStanzas?.sections?.length) gs.setLongForm(true);
           gs.setPoem(rawPoem);
           gs.submitPoem();
 
@@ -320,6 +322,9 @@ export default function ThreadPageClient({
           if (answers.translationMethod) {
             gs.setTranslationMethod(answers.translationMethod);
           }
+          if (answers.variantCount) {
+            gs.setVariantCount(answers.variantCount);
+          }
         }
 
         // Hydrate workshop store
@@ -782,6 +787,7 @@ export default function ThreadPageClient({
                               {workshopProgress && (
                                 <ProgressRingButton
                                   summary={workshopProgress}
+                                  threadId={threadId}
                                   expanded={workshopProgressExpanded}
                                   onToggle={() =>
                                     setWorkshopProgressExpanded((prev) => !prev)
@@ -793,6 +799,7 @@ export default function ThreadPageClient({
                           {workshopProgress && workshopProgressExpanded && (
                             <TranslationProgressDetails
                               summary={workshopProgress}
+                              threadId={threadId}
                               onRetry={() => workshopJobQuery.refetch()}
                             />
                           )}
@@ -2,25 +2,33 @@
 
 import * as React from "react";
 import { useParams } from "next/navigation";
+import { ChevronLeft } from "lucide-react";
+import { Link } from "@/i18n/routing";
 import { TranslationTuningLayout } from "@/components/tuning/TranslationTuningLayout";
 import { PipelineTimeline } from "@/components/tuning/PipelineTimeline";
 import { DownstreamAnalysis } from "@/components/tuning/DownstreamAnalysis";
 import { PlaybackScrubber } from "@/components/tuning/PlaybackScrubber";
-import { routes } from "@/lib/routers";
+import { presets } from "@/components/tuning/mockData";
 import {
-  lineInfo,
-  pipelineNodes,
-  pipelineStats,
-  presets,
-  sourcePoem,
-} from "@/components/tuning/mockData";
+  traceToLineInfo,
+  traceToPipelineNodes,
+  traceToPromptSummary,
+  traceToReasoning,
+  traceToStats,
+  tracesToHistory,
+} from "@/components/tuning/traceView";
+import { useLineTraces } from "@/lib/hooks/useLineTraces";
+import { routes } from "@/lib/routers";
+
+/** Replays finish in roughly this long, however long the recorded run took. */
+const REPLAY_TARGET_MS = 8000;
 
 /**
  * Translation Tuning (Beta) — pipeline visualization / tuning workspace.
  *
- * UI-only for now: everything renders from hardcoded mock data — the timeline,
- * the inline node detail, the downstream analysis list, and the playback
- * scrubber pinned to the bottom.
+ * Replays recorded Method 2 line traces: the timeline, node detail, history
+ * and playback scrubber are all derived from the selected trace. Presets, the
+ * test run and downstream analysis are still UI-only mock sections.
  */
 export default function TranslationTuningPage() {
   const params = useParams<{ projectId: string; threadId: string }>();
@@ -28,34 +36,177 @@ export default function TranslationTuningPage() {
   const threadId = params?.threadId ?? "";
   const backHref = routes.projectWithThread(projectId, threadId);
 
+  const [lineIndex, setLineIndex] = React.useState(0);
+  const [selectedTraceTs, setSelectedTraceTs] = React.useState<string | null>(
+    null,
+  );
   const [selectedNodeId, setSelectedNodeId] = React.useState<string | null>(
     null,
   );
 
+  const { data, isLoading, error } = useLineTraces(threadId || null, lineIndex);
+
+  // Land on the first traced line if line 1 has never been traced.
+  React.useEffect(() => {
+    if (!data || data.traces.length > 0 || data.tracedLines.length === 0) {
+      return;
+    }
+    if (!data.tracedLines.includes(lineIndex)) {
+      setLineIndex(data.tracedLines[0]);
+    }
+  }, [data, lineIndex]);
+
+  const traces = React.useMemo(() => data?.traces ?? [], [data]);
+  const trace =
+    traces.find((t) => t.ts === selectedTraceTs) ?? traces[0] ?? null;
+  const totalMs = trace?.totalMs ?? 0;
+
+  // Replay state. A freshly selected trace starts finished; Play/Replay runs
+  // it back from the beginning at a speed that fits REPLAY_TARGET_MS.
+  const [elapsedMs, setElapsedMs] = React.useState(0);
+  const [playing, setPlaying] = React.useState(false);
+
+  React.useEffect(() => {
+    setElapsedMs(totalMs);
+    setPlaying(false);
+  }, [trace?.ts, totalMs]);
+
+  React.useEffect(() => {
+    if (!playing) return;
+    const speed = Math.max(1, totalMs / REPLAY_TARGET_MS);
+    let last = performance.now();
+    let raf = requestAnimationFrame(function step(now) {
+      const dt = (now - last) * speed;
+      last = now;
+      setElapsedMs((prev) => Math.min(totalMs, prev + dt));
+      raf = requestAnimationFrame(step);
+    });
+    return () => cancelAnimationFrame(raf);
+  }, [playing, totalMs]);
+
+  React.useEffect(() => {
+    if (playing && elapsedMs >= totalMs) setPlaying(false);
+  }, [playing, elapsedMs, totalMs]);
+
+  const nodes = React.useMemo(
+    () => (trace ? traceToPipelineNodes(trace, elapsedMs) : []),
+    [trace, elapsedMs],
+  );
+  const history = React.useMemo(
+    () => tracesToHistory(traces, trace?.ts ?? null),
+    [traces, trace],
+  );
+
+  const stepLine = (delta: -1 | 1) => {
+    const lines = data?.tracedLines ?? [];
+    const pos = lines.indexOf(lineIndex);
+    const next =
+      pos === -1
+        ? delta > 0
+          ? lines.find((l) => l > lineIndex)
+          : [...lines].reverse().find((l) => l < lineIndex)
+        : lines[pos + delta];
+    if (next === undefined) return;
+    setLineIndex(next);
+    setSelectedTraceTs(null);
+    setSelectedNodeId(null);
+  };
+
+  if (isLoading) {
+    return <TuningMessage backHref={backHref}>Loading traces…</TuningMessage>;
+  }
+
+  if (error) {
+    return (
+      <TuningMessage backHref={backHref}>
+        {error instanceof Error ? error.message : "Failed to load traces."}
+      </TuningMessage>
+    );
+  }
+
+  if (!trace || !data) {
+    return (
+      <TuningMessage backHref={backHref}>
+        No pipeline traces yet — translate a line with Method 2 to record one.
+      </TuningMessage>
+    );
+  }
+
+  const lines = data.tracedLines;
+  const linePos = lines.indexOf(lineIndex);
+  const hasPrev = linePos === -1 ? lines.some((l) => l < lineIndex) : linePos > 0;
+  const hasNext =
+    linePos === -1
+      ? lines.some((l) => l > lineIndex)
+      : linePos < lines.length - 1;
+
   return (
     <TranslationTuningLayout
       backHref={backHref}
-      poemTitle={sourcePoem.title}
-      lineInfo={lineInfo}
-      stats={pipelineStats}
+      poemTitle={data.thread.title ?? "Untitled poem"}
+      lineInfo={traceToLineInfo(trace)}
+      stats={traceToStats(trace)}
       presets={presets}
+      onPrevLine={hasPrev ? () => stepLine(-1) : undefined}
+      onNextLine={hasNext ? () => stepLine(1) : undefined}
       footer={
         <PlaybackScrubber
-          nodes={pipelineNodes}
-          progressPercent={80}
-          totalSeconds={pipelineStats.timeSeconds}
+          nodes={nodes}
+          elapsedSeconds={elapsedMs / 1000}
+          totalSeconds={totalMs / 1000}
+          playing={playing}
+          onTogglePlay={() => {
+            if (!playing && elapsedMs >= totalMs) setElapsedMs(0);
+            setPlaying((v) => !v);
+          }}
+          onReplay={() => {
+            setElapsedMs(0);
+            setPlaying(true);
+          }}
+          onSeek={(node) => {
+            setPlaying(false);
+            setElapsedMs((node.endPercent / 100) * totalMs);
+          }}
         />
       }
     >
       <PipelineTimeline
-        nodes={pipelineNodes}
+        nodes={nodes}
         selectedNodeId={selectedNodeId}
         onSelectNode={(id) =>
           setSelectedNodeId((prev) => (prev === id ? null : id))
         }
+        detail={{
+          prompt: traceToPromptSummary(trace),
+          reasoning: traceToReasoning(trace),
+          history,
+          lineNumber: trace.lineIndex + 1,
+          onSelectRun: setSelectedTraceTs,
+        }}
       />
 
       <DownstreamAnalysis />
     </TranslationTuningLayout>
   );
 }
+
+function TuningMessage({
+  backHref,
+  children,
+}: {
+  backHref: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex h-full flex-col items-center justify-center gap-3 bg-base px-6 text-center">
+      <p className="text-sm text-foreground-muted">{children}</p>
+      <Link
+        href={backHref}
+        className="inline-flex items-center gap-1 text-sm font-medium text-accent hover:underline"
+      >
+        <ChevronLeft size={16} />
+        Back to Workshop
+      </Link>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import type { ReactNode } from "react";
 import { Link } from "@/i18n/routing";
 import { TranslaliaLogo } from "@/components/brand/TranslaliaLogo";
 import { cn } from "@/lib/utils";
+import { languageDirection } from "@/lib/i18n/textDirection";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -46,7 +47,7 @@ export default async function LocaleLayout({
   const messages = await getMessages();
 
   // Determine direction
-  const dir = locale === "ar" ? "rtl" : "ltr";
+  const dir = languageDirection(locale) ?? "ltr";
 
   return (
     <html lang={locale} dir={dir}>
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/apiGuard";
+import { getBudgetStatus } from "@/lib/usage/budget";
+import { currentUsageMonth, loadUsageBreakdown } from "@/lib/usage/store";
+import type { UsageSummary } from "@/types/usage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const QuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected YYYY-MM")
+    .optional(),
+});
+
+/**
+ * GET /api/account/usage?month=YYYY-MM
+ * The signed-in user's AI spend for a month (default: the current one) with
+ * their budget status.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const guard = await requireUser(req);
+    if ("res" in guard) return guard.res;
+    const { user, sb } = guard;
+
+    const parsed = QuerySchema.safeParse({
+      month: req.nextUrl.searchParams.get("month") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { ok: false, error: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const month = parsed.data.month
+      ? `${parsed.data.month}-01`
+      : currentUsageMonth();
+
+    const [budget, breakdown] = await Promise.all([
+      getBudgetStatus(user.id),
+      loadUsageBreakdown(sb, month),
+    ]);
+
+    const totals = breakdown.route.reduce<UsageSummary["totals"]>(
+      (acc, row) => ({
+        calls: acc.calls + row.calls,
+        promptTokens: acc.promptTokens + row.promptTokens,
+        completionTokens: acc.completionTokens + row.completionTokens,
+        costUsd: acc.costUsd + row.costUsd,
+      }),
+      { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 }
+    );
+
+    const summary: UsageSummary = { budget, totals, breakdown };
+    return NextResponse.json(
+      { ok: true, month, ...summary },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    console.error("[/api/account/usage] GET", e);
+    return NextResponse.json(
+      { ok: false, error: "Failed to load usage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/requireUser";
+import { requireClassRole } from "@/lib/apiGuard";
+import { getAssignment, getClass, startSubmission } from "@/lib/classroom/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ assignmentId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * POST /api/assignments/[assignmentId]/start
+ * Students start (or reopen) an assignment. Returns the thread to open:
+ * `{ submission, projectId, threadId }`.
+ */
+export async function POST(_req: Request, { params }: RouteContext) {
+  const { assignmentId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  try {
+    const assignment = await getAssignment(sb, assignmentId);
+    if (!assignment) {
+      return err(404, "ASSIGNMENT_NOT_FOUND", "Assignment not found.");
+    }
+
+    const guard = await requireClassRole(sb, assignment.classId, user.id, "member");
+    if ("res" in guard) return guard.res;
+    if (guard.role !== "student") {
+      return err(403, "FORBIDDEN", "Only students work on assignments.");
+    }
+
+    const summary = await getClass(sb, assignment.classId, guard.role);
+    const { submission, projectId } = await startSubmission(sb, {
+      assignment,
+      className: summary?.name ?? assignment.title,
+      studentId: user.id,
+    });
+    return NextResponse.json({ submission, projectId, threadId: submission.threadId });
+  } catch (e: unknown) {
+    console.error("[/api/assignments/start] POST", e);
+    return err(500, "INTERNAL", "Failed to start the assignment.");
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/requireUser";
+import { requireClassRole } from "@/lib/apiGuard";
+import {
+  getAssignment,
+  listClassMembers,
+  listSubmissions,
+} from "@/lib/classroom/store";
+import type { AssignmentSubmissionsResponse } from "@/types/classroom";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ assignmentId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/assignments/[assignmentId]/submissions
+ * Teachers list every student's submission of the assignment.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { assignmentId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  try {
+    const assignment = await getAssignment(sb, assignmentId);
+    if (!assignment) {
+      return err(404, "ASSIGNMENT_NOT_FOUND", "Assignment not found.");
+    }
+
+    const guard = await requireClassRole(sb, assignment.classId, user.id, "teacher");
+    if ("res" in guard) return guard.res;
+
+    const [submissions, members] = await Promise.all([
+      listSubmissions(sb, [assignment.id]),
+      listClassMembers(sb, assignment.classId),
+    ]);
+    const body: AssignmentSubmissionsResponse = {
+      assignment,
+      submissions: submissions.map((submission) => ({
+        ...submission,
+        student: members.find((m) => m.userId === submission.studentId) ?? null,
+      })),
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/assignments/submissions] GET", e);
+    return err(500, "INTERNAL", "Failed to load submissions.");
+  }
+}
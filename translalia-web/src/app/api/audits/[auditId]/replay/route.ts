@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { loadAudit } from "@/lib/audits/store";
+import { AuditNotReplayableError, replayAudit } from "@/lib/audits/replay";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
+
+const replayRequestSchema = z.object({
+  kind: z.enum(["prompt", "line"]).default("prompt"),
+});
+
+type RouteContext = { params: Promise<{ auditId: string }> };
+
+export function POST(request: NextRequest, context: RouteContext) {
+  return withRouteMetrics("audits/replay", () => handlePost(request, context));
+}
+
+/**
+ * POST: re-run one of the caller's audits against the current prompt
+ * builders and return the stored and new outputs side by side. Track A
+ * grades and Method 2 line audits only; others are 422 NOT_REPLAYABLE.
+ */
+async function handlePost(request: NextRequest, { params }: RouteContext) {
+  const { auditId } = await params;
+  const requestId = crypto.randomUUID();
+
+  try {
+    const { user, response, sb } = await requireUser();
+    if (!user) return response;
+
+    const body = await request.json().catch(() => ({}));
+    const { kind } = replayRequestSchema.parse(body);
+
+    const audit = z.string().uuid().safeParse(auditId).success
+      ? await loadAudit(sb, user.id, kind, auditId)
+      : null;
+    if (!audit) {
+      return NextResponse.json(
+        { error: { code: "NOT_FOUND", message: "Audit not found" } },
+        { status: 404 }
+      );
+    }
+
+    const budget = await requireAiBudget({
+      userId: user.id,
+      threadId: audit.threadId,
+    });
+    if ("res" in budget) return budget.res;
+
+    const result = await replayAudit(sb, audit, {
+      authorizedEmail: user.email ?? null,
+    });
+    console.log("[audits/replay]", requestId, `Replayed ${kind} audit ${auditId}`);
+    return NextResponse.json({ audit, result });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: err.message } },
+        { status: 400 }
+      );
+    }
+    if (err instanceof AuditNotReplayableError) {
+      return NextResponse.json(
+        { error: { code: err.code, message: err.message } },
+        { status: 422 }
+      );
+    }
+    console.error("[audits/replay]", requestId, "POST error:", err);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Replay failed" } },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
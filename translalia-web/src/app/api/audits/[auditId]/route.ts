@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { loadAudit } from "@/lib/audits/store";
+
+const kindSchema = z.enum(["prompt", "line"]).default("prompt");
+
+/** GET: one of the caller's audits with its masked prompt/response. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const { auditId } = await params;
+  const requestId = crypto.randomUUID();
+
+  try {
+    const { user, response, sb } = await requireUser();
+    if (!user) return response;
+
+    const kind = kindSchema.parse(
+      new URL(request.url).searchParams.get("kind") ?? undefined
+    );
+    const audit = z.string().uuid().safeParse(auditId).success
+      ? await loadAudit(sb, user.id, kind, auditId)
+      : null;
+    if (!audit) {
+      return NextResponse.json(
+        { error: { code: "NOT_FOUND", message: "Audit not found" } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ audit });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: err.message } },
+        { status: 400 }
+      );
+    }
+    console.error("[audits/detail]", requestId, "GET error:", err);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Failed to load audit" } },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
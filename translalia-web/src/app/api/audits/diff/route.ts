@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { diffAudits } from "@/lib/audits/diff";
+import { loadAudit } from "@/lib/audits/store";
+
+const diffQuerySchema = z.object({
+  kind: z.enum(["prompt", "line"]).default("prompt"),
+  a: z.string().uuid(),
+  b: z.string().uuid(),
+});
+
+/** GET: diff two of the caller's audits of the same kind (`?kind&a&b`). */
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const { user, response, sb } = await requireUser();
+    if (!user) return response;
+
+    const query = diffQuerySchema.parse(
+      Object.fromEntries(new URL(request.url).searchParams.entries())
+    );
+
+    const [a, b] = await Promise.all([
+      loadAudit(sb, user.id, query.kind, query.a),
+      loadAudit(sb, user.id, query.kind, query.b),
+    ]);
+    if (!a || !b) {
+      return NextResponse.json(
+        { error: { code: "NOT_FOUND", message: "Audit not found" } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diffAudits(a, b));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: err.message } },
+        { status: 400 }
+      );
+    }
+    console.error("[audits/diff]", requestId, "GET error:", err);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Failed to diff audits" } },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
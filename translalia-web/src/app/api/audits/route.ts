@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { listAudits } from "@/lib/audits/store";
+
+const listQuerySchema = z.object({
+  kind: z.enum(["prompt", "line"]).default("prompt"),
+  stage: z
+    .string()
+    .regex(/^[a-z0-9-]+$/)
+    .optional(),
+  model: z.string().min(1).max(100).optional(),
+  threadId: z.string().uuid().optional(),
+  gateReason: z.string().min(1).max(100).optional(),
+  regenStrategy: z.enum(["single", "salvage"]).optional(),
+  q: z.string().min(1).max(200).optional(),
+  before: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * GET: the caller's prompt audits (`kind=prompt`) or Method 2 line audits
+ * (`kind=line`), newest first. Filters: stage, model, threadId, q (prompt);
+ * model, threadId, gateReason, regenStrategy (line). Page with `before`.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const { user, response, sb } = await requireUser();
+    if (!user) return response;
+
+    const { searchParams } = new URL(request.url);
+    const filters = listQuerySchema.parse(
+      Object.fromEntries(
+        [...searchParams.entries()].filter(([, value]) => value !== "")
+      )
+    );
+
+    return NextResponse.json(await listAudits(sb, user.id, filters));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: err.message } },
+        { status: 400 }
+      );
+    }
+    console.error("[audits]", requestId, "GET error:", err);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Failed to load audits" } },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { requireClassRole } from "@/lib/apiGuard";
+import { createAssignment } from "@/lib/classroom/store";
+import { AssignmentGuideDefaultsSchema } from "@/lib/classroom/workflow";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CreateSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  instructions: z.string().trim().max(5000).nullable().optional(),
+  sourcePoem: z.string().trim().min(1).max(20000),
+  guideDefaults: AssignmentGuideDefaultsSchema.optional(),
+  dueAt: z.string().datetime({ offset: true }).nullable().optional(),
+});
+
+type RouteContext = { params: Promise<{ classId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * POST /api/classes/[classId]/assignments
+ * Teachers post an assignment:
+ * `{ title, sourcePoem, instructions?, guideDefaults?, dueAt? }`.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { classId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = CreateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid assignment", { details: parsed.error.issues });
+  }
+
+  const guard = await requireClassRole(sb, classId, user.id, "teacher");
+  if ("res" in guard) return guard.res;
+
+  try {
+    const assignment = await createAssignment(sb, {
+      classId,
+      userId: user.id,
+      ...parsed.data,
+      instructions: parsed.data.instructions || null,
+    });
+    return NextResponse.json({ assignment }, { status: 201 });
+  } catch (e: unknown) {
+    console.error("[/api/classes/assignments] POST", e);
+    return err(500, "INTERNAL", "Failed to create the assignment.");
+  }
+}
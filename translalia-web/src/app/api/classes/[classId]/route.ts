@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/requireUser";
+import { requireClassRole } from "@/lib/apiGuard";
+import {
+  getClass,
+  listAssignments,
+  listClassMembers,
+  listSubmissions,
+} from "@/lib/classroom/store";
+import type {
+  ClassAssignment,
+  ClassDetailResponse,
+  SubmissionStatus,
+} from "@/types/classroom";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ classId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/classes/[classId]
+ * The class, its roster and assignments. Students get their own submission
+ * per assignment; teachers get submission counts per status.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { classId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const guard = await requireClassRole(sb, classId, user.id, "member");
+  if ("res" in guard) return guard.res;
+
+  try {
+    const [summary, members, assignments] = await Promise.all([
+      getClass(sb, classId, guard.role),
+      listClassMembers(sb, classId),
+      listAssignments(sb, classId),
+    ]);
+    if (!summary) {
+      return err(404, "CLASS_NOT_FOUND", "Class not found.");
+    }
+
+    const isTeacher = guard.role === "teacher";
+    // RLS already limits students to their own submissions
+    const submissions = await listSubmissions(
+      sb,
+      assignments.map((a) => a.id),
+      isTeacher ? undefined : user.id
+    );
+
+    const body: ClassDetailResponse = {
+      class: summary,
+      members,
+      assignments: assignments.map((assignment): ClassAssignment => {
+        const own = submissions.filter((s) => s.assignmentId === assignment.id);
+        const statusCounts: Partial<Record<SubmissionStatus, number>> = {};
+        for (const submission of own) {
+          statusCounts[submission.status] = (statusCounts[submission.status] ?? 0) + 1;
+        }
+        return {
+          ...assignment,
+          submission: isTeacher ? null : (own[0] ?? null),
+          statusCounts: isTeacher ? statusCounts : null,
+        };
+      }),
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/classes/[classId]] GET", e);
+    return err(500, "INTERNAL", "Failed to load the class.");
+  }
+}
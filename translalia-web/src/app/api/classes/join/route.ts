@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { joinClass } from "@/lib/classroom/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const JoinSchema = z.object({ code: z.string().trim().min(4).max(16) });
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * POST /api/classes/join
+ * Join a class as a student: `{ code }`. Members who join again keep their
+ * role.
+ */
+export async function POST(req: Request) {
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = JoinSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid join code", { details: parsed.error.issues });
+  }
+
+  try {
+    const classId = await joinClass(sb, parsed.data.code);
+    if (!classId) {
+      return err(404, "CLASS_NOT_FOUND", "No class uses this join code.");
+    }
+    return NextResponse.json({ classId });
+  } catch (e: unknown) {
+    console.error("[/api/classes/join] POST", e);
+    return err(500, "INTERNAL", "Failed to join the class.");
+  }
+}
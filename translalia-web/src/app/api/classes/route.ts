@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { createClass, listClasses } from "@/lib/classroom/store";
+import type { ClassesResponse } from "@/types/classroom";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CreateSchema = z.object({ name: z.string().trim().min(1).max(120) });
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/classes
+ * Classes the caller teaches or attends. Join codes are only returned to
+ * teachers.
+ */
+export async function GET() {
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  try {
+    const body: ClassesResponse = { classes: await listClasses(sb, user.id) };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/classes] GET", e);
+    return err(500, "INTERNAL", "Failed to load classes.");
+  }
+}
+
+/**
+ * POST /api/classes
+ * Create a class: `{ name }`. The caller becomes its teacher.
+ */
+export async function POST(req: Request) {
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = CreateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid class", { details: parsed.error.issues });
+  }
+
+  try {
+    const created = await createClass(sb, user.id, parsed.data.name);
+    return NextResponse.json({ class: created }, { status: 201 });
+  } catch (e: unknown) {
+    console.error("[/api/classes] POST", e);
+    return err(500, "INTERNAL", "Failed to create the class.");
+  }
+}
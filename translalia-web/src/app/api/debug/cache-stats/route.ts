@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/requireUser";
+import { getCacheBackend } from "@/lib/cache/backend";
+import { getCacheStats } from "@/lib/cache/stats";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Cache backend in use and hit/miss counts per key family for this process.
+ * Only available in preview/development environments, or with
+ * DEBUG_API_ENABLED=1.
+ *
+ * Usage: GET /api/debug/cache-stats
+ */
+export async function GET() {
+  const explicitlyEnabled = process.env.DEBUG_API_ENABLED === "1";
+  const productionLike =
+    process.env.NODE_ENV === "production" ||
+    process.env.VERCEL_ENV === "production";
+  if (productionLike && !explicitlyEnabled) {
+    return NextResponse.json({ error: "Not available" }, { status: 404 });
+  }
+
+  const { user, response } = await requireUser();
+  if (!user) return response;
+
+  let backend: string;
+  try {
+    backend = (await getCacheBackend()).name;
+  } catch (error) {
+    backend = `unavailable: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  return NextResponse.json({ backend, ...getCacheStats() });
+}
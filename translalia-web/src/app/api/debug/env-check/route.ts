@@ -29,6 +29,9 @@ export async function GET() {
     // Redis
     hasRedisUrl: !!process.env.UPSTASH_REDIS_REST_URL,
     hasRedisToken: !!process.env.UPSTASH_REDIS_REST_TOKEN,
+    hasRedisTcpUrl: !!process.env.REDIS_URL,
+    hasCacheSqlitePath: !!process.env.CACHE_SQLITE_PATH,
+    cacheBackend: process.env.CACHE_BACKEND,
 
     // Supabase
     hasSupabaseUrl: !!process.env.NEXT_PUBLIC_SUPABASE_URL,
@@ -0,0 +1,102 @@
+/**
+ * The export route renders the entry it loads for the thread, not one posted
+ * by the client, and answers stored data it cannot render with a 4xx instead
+ * of throwing.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { NextRequest } from "next/server";
+
+const { tables } = vi.hoisted(() => ({
+  tables: {} as Record<string, unknown>,
+}));
+
+vi.mock("@/lib/apiGuard", () => ({
+  requireUser: async () => ({
+    user: { id: "owner-1" },
+    // Every table answers its single row to any query chain
+    sb: {
+      from: (table: string) => {
+        const query = {
+          select: () => query,
+          eq: () => query,
+          order: () => query,
+          limit: () => query,
+          maybeSingle: async () => ({ data: tables[table] ?? null, error: null }),
+        };
+        return query;
+      },
+    },
+  }),
+}));
+
+import { POST } from "./route";
+
+const THREAD_ID = "11111111-1111-1111-1111-111111111111";
+
+const LABELS = Object.fromEntries(
+  [
+    "title", "heading", "originalText", "translatedText", "translation", "notes",
+    "threadNote", "lineNote", "lineNotes", "translationInsights",
+    "yourTranslationAims", "suggestions", "journeySummary", "insights",
+    "strengths", "challenges", "recommendations", "expressYourView",
+    "originalTextFull", "notesAndReflection", "generatedOn", "lineCount",
+    "untitledPoem", "line", "lineReferences",
+  ].map((key) => [key, key])
+);
+
+function exportThread(body: Record<string, unknown> = {}) {
+  return POST(
+    new Request("http://localhost/api/diary/export", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ format: "md", threadId: THREAD_ID, labels: LABELS, ...body }),
+    }) as unknown as NextRequest
+  );
+}
+
+beforeEach(() => {
+  tables.chat_threads = {
+    id: THREAD_ID,
+    title: "Caminante",
+    created_at: "2026-01-05T10:00:00.123456+00:00",
+    raw_poem: "Caminante, no hay camino",
+    created_by: "owner-1",
+    state: {
+      workshop_lines: [
+        { original: "Caminante, no hay camino", translated: "Wanderer, there is no road" },
+      ],
+    },
+  };
+  tables.journey_ai_summaries = null;
+});
+
+describe("POST /api/diary/export", () => {
+  it("renders the stored entry and ignores a posted one", async () => {
+    const res = await exportThread({
+      entry: { thread_id: THREAD_ID, title: "Forged", workshop_lines: [] },
+    });
+
+    expect(res.status).toBe(200);
+    const markdown = await res.text();
+    expect(markdown).toContain("Caminante");
+    expect(markdown).toContain("Wanderer, there is no road");
+    expect(markdown).not.toContain("Forged");
+  });
+
+  it("answers 422 when the stored entry does not parse", async () => {
+    tables.chat_threads = {
+      ...(tables.chat_threads as object),
+      state: { workshop_lines: "not-a-list" },
+    };
+
+    const res = await exportThread();
+    expect(res.status).toBe(422);
+  });
+
+  it("rejects threads of other users", async () => {
+    tables.chat_threads = { ...(tables.chat_threads as object), created_by: "someone-else" };
+
+    const res = await exportThread();
+    expect(res.status).toBe(403);
+  });
+});
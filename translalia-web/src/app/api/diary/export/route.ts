@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { requireUser } from "@/lib/apiGuard";
+import { z } from "zod";
+import type { DiaryEntry, DiaryExportLabels } from "@/lib/diary/types";
+import { exportFileName } from "@/lib/diary/exportDocument";
+import { buildEntryMarkdown } from "@/lib/diary/exportMarkdown";
+import { buildEntryDocx, DOCX_MIME_TYPE } from "@/lib/diary/exportDocx";
+import { buildEntryEpub, EPUB_MIME_TYPE } from "@/lib/diary/exportEpub";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const LABEL_KEYS = [
+  "title",
+  "heading",
+  "originalText",
+  "translatedText",
+  "translation",
+  "notes",
+  "threadNote",
+  "lineNote",
+  "lineNotes",
+  "translationInsights",
+  "yourTranslationAims",
+  "suggestions",
+  "journeySummary",
+  "insights",
+  "strengths",
+  "challenges",
+  "recommendations",
+  "expressYourView",
+  "originalTextFull",
+  "notesAndReflection",
+  "generatedOn",
+  "lineCount",
+  "untitledPoem",
+  "line",
+  "lineReferences",
+] as const satisfies ReadonlyArray<keyof DiaryExportLabels>;
+
+const LabelsSchema = z.object(
+  Object.fromEntries(LABEL_KEYS.map((key) => [key, z.string()])) as Record<
+    keyof DiaryExportLabels,
+    z.ZodString
+  >
+);
+
+const StringList = z.array(z.string()).nullable();
+const Timestamp = z.string().datetime({ offset: true });
+
+const EntrySchema = z.object({
+  thread_id: z.string().uuid(),
+  title: z.string(),
+  thread_created_at: Timestamp,
+  raw_poem: z.string().nullable(),
+  workshop_lines: z.array(
+    z
+      .object({
+        original: z.string(),
+        translated: z.string(),
+        completedAt: z.string().optional(),
+      })
+      .nullable()
+  ),
+  notebook_notes: z
+    .object({
+      thread_note: z.string().nullable().optional(),
+      line_notes: z.record(z.coerce.number(), z.string()).optional(),
+    })
+    .nullable(),
+  expressYourView: z.string().nullable(),
+  translationInsights: z
+    .object({
+      aims: z.string(),
+      suggestions: z.array(
+        z.object({
+          title: z.string(),
+          description: z.string(),
+          lineReferences: z.array(z.number().int()).optional(),
+        })
+      ),
+      confidence: z.number().nullable().optional(),
+      generated_at: z.string().optional(),
+    })
+    .nullable(),
+  journey_summary_created_at: Timestamp.nullable(),
+  reflection_text: z.string().nullable(),
+  insights: StringList,
+  strengths: StringList,
+  challenges: StringList,
+  recommendations: StringList,
+});
+
+const BodySchema = z.object({
+  format: z.enum(["md", "docx", "epub"]),
+  locale: z.string().min(2).max(35).optional(),
+  threadId: z.string().uuid(),
+  labels: LabelsSchema,
+});
+
+type LoadedEntry =
+  | { entry: DiaryEntry }
+  | { status: 403 | 404 | 422; error: string };
+
+/**
+ * The diary entry for one of the caller's threads, built from the thread and
+ * its latest journey summary the same way diary_completed_poems() builds the
+ * feed. Stored state that does not fit the entry shape is a 422.
+ */
+async function loadDiaryEntry(
+  sb: SupabaseClient,
+  userId: string,
+  threadId: string
+): Promise<LoadedEntry> {
+  const { data: thread, error: threadErr } = await sb
+    .from("chat_threads")
+    .select("id, title, created_at, raw_poem, state, created_by")
+    .eq("id", threadId)
+    .maybeSingle();
+  if (threadErr || !thread) return { status: 404, error: "Thread not found" };
+  if (thread.created_by !== userId) return { status: 403, error: "Forbidden" };
+
+  const { data: summary } = await sb
+    .from("journey_ai_summaries")
+    .select("created_at, reflection_text, insights, strengths, challenges, recommendations")
+    .eq("thread_id", threadId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const state = (thread.state ?? {}) as Record<string, unknown>;
+  const parsed = EntrySchema.safeParse({
+    thread_id: thread.id,
+    title: thread.title ?? "",
+    thread_created_at: thread.created_at,
+    raw_poem: thread.raw_poem ?? null,
+    workshop_lines: state.workshop_lines ?? [],
+    notebook_notes: state.notebook_notes ?? null,
+    expressYourView: state.express_your_view ?? null,
+    translationInsights: state.translation_insights ?? null,
+    journey_summary_created_at: summary?.created_at ?? null,
+    reflection_text: summary?.reflection_text ?? null,
+    insights: summary?.insights ?? null,
+    strengths: summary?.strengths ?? null,
+    challenges: summary?.challenges ?? null,
+    recommendations: summary?.recommendations ?? null,
+  });
+  if (!parsed.success) {
+    console.warn("[diary/export] stored entry does not parse:", parsed.error.message);
+    return { status: 422, error: "Diary entry cannot be exported" };
+  }
+  return { entry: parsed.data as DiaryEntry };
+}
+
+/**
+ * POST /api/diary/export
+ *
+ * Renders one diary entry as Markdown, DOCX or EPUB and returns it as a
+ * download. The client names the thread and sends the localized labels; the
+ * entry itself is loaded from the database, and the thread must belong to the
+ * caller.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 1) Authenticate user
+    const guard = await requireUser(req);
+    if ("res" in guard) return guard.res;
+    const { sb, user } = guard;
+
+    // 2) Validate body
+    const parsed = BodySchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { ok: false, error: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { format, locale, threadId } = parsed.data;
+    const labels = parsed.data.labels as DiaryExportLabels;
+
+    // 3) Load the caller's entry
+    const loaded = await loadDiaryEntry(sb, user.id, threadId);
+    if ("error" in loaded) {
+      return NextResponse.json(
+        { ok: false, error: loaded.error },
+        { status: loaded.status }
+      );
+    }
+    const { entry } = loaded;
+
+    // 4) Render
+    const options = { locale };
+    let body: string | Uint8Array;
+    let contentType: string;
+    if (format === "md") {
+      body = buildEntryMarkdown(entry, labels, options);
+      contentType = "text/markdown; charset=utf-8";
+    } else if (format === "docx") {
+      body = buildEntryDocx(entry, labels, options);
+      contentType = DOCX_MIME_TYPE;
+    } else {
+      body = buildEntryEpub(entry, labels, options);
+      contentType = EPUB_MIME_TYPE;
+    }
+
+    const fileName = exportFileName(entry, labels, format);
+    return new NextResponse(body as BodyInit, {
+      status: 200,
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e: unknown) {
+    const message = (e as { message?: string })?.message || "Internal error";
+    console.error("[diary/export] fatal error:", e);
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
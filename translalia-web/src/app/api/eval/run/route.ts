@@ -1,12 +1,144 @@
-import { NextResponse } from "next/server";
+/**
+ * API endpoint for golden-set evaluation runs
+ *
+ * Runs a versioned golden set through Method 1 or Method 2, scores it, stores
+ * the report and diffs it against the previous run of the same set/method so
+ * prompt regressions show up as `diff.regressed`.
+ *
+ * POST /api/eval/run   - run an eval (defaults: latest set, method-2, fake client)
+ * GET  /api/eval/run   - list recent runs
+ *
+ * Not available in production unless EVAL_API_ENABLED=1.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { requireUser } from "@/lib/auth/requireUser";
+import { LATEST_GOLDEN_SET_VERSION, listGoldenSetVersions, loadGoldenSet } from "@/lib/eval/goldenSet";
+import { createGoldenMockClient } from "@/lib/eval/goldenMockClient";
+import { runGoldenSetEval } from "@/lib/eval/runEval";
+import { diffEvalReports } from "@/lib/eval/diffReports";
+import {
+  listEvalRuns,
+  loadPreviousEvalReport,
+  saveEvalReport,
+} from "@/server/eval/evalRunStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const EvalRunRequestSchema = z.object({
+  goldenSetVersion: z.string().default(LATEST_GOLDEN_SET_VERSION),
+  method: z.enum(["method-1", "method-2"]).default("method-2"),
+  model: z.string().min(1).optional(),
+  /** "fake" replays golden references offline; "live" calls the configured provider */
+  client: z.enum(["fake", "live"]).default("fake"),
+  poemIds: z.array(z.string().min(1)).min(1).optional(),
+});
 
-// NOTE(cursor): Stubbed admin eval runner
-export async function POST() {
-  const { user, response } = await requireUser();
+function err(
+  status: number,
+  code: string,
+  message: string,
+  extra?: Record<string, unknown>
+) {
+  return NextResponse.json({ ok: false, error: { code, message, ...extra } }, { status });
+}
+
+function ok<T>(data: T & { ok: true }, status = 200) {
+  return NextResponse.json<T & { ok: true }>(data, { status });
+}
+
+function evalApiDisabled(): boolean {
+  const productionLike =
+    process.env.NODE_ENV === "production" ||
+    process.env.VERCEL_ENV === "production";
+  return productionLike && process.env.EVAL_API_ENABLED !== "1";
+}
+
+export async function POST(req: NextRequest) {
+  if (evalApiDisabled()) return err(404, "NOT_AVAILABLE", "Not available");
+
+  const { user, response, sb } = await requireUser();
   if (!user) return response;
-  return NextResponse.json(
-    { ok: true, message: "Eval runner stub — wire to golden set in Phase 5.x" },
-    { status: 202 }
+
+  let body: z.infer<typeof EvalRunRequestSchema>;
+  try {
+    const raw = await req.json().catch(() => ({}));
+    const parsed = EvalRunRequestSchema.safeParse(raw);
+    if (!parsed.success) {
+      return err(400, "INVALID_REQUEST", "Invalid request body", {
+        details: parsed.error.flatten(),
+      });
+    }
+    body = parsed.data;
+  } catch {
+    return err(400, "INVALID_JSON", "Invalid JSON body");
+  }
+
+  if (!listGoldenSetVersions().includes(body.goldenSetVersion)) {
+    return err(404, "UNKNOWN_GOLDEN_SET", `Unknown golden set: ${body.goldenSetVersion}`, {
+      available: listGoldenSetVersions(),
+    });
+  }
+  const goldenSet = loadGoldenSet(body.goldenSetVersion);
+
+  const unknownPoems = (body.poemIds ?? []).filter(
+    (id) => !goldenSet.poems.some((poem) => poem.id === id)
   );
+  if (unknownPoems.length > 0) {
+    return err(400, "UNKNOWN_POEMS", "Unknown poem ids", { unknownPoems });
+  }
+
+  try {
+    const report = await runGoldenSetEval({
+      goldenSet,
+      method: body.method,
+      model: body.model,
+      client: body.client === "fake" ? createGoldenMockClient(goldenSet) : undefined,
+      clientKind: body.client,
+      poemIds: body.poemIds,
+    });
+
+    const previous = await loadPreviousEvalReport(sb, report);
+    const diff = previous ? diffEvalReports(previous, report) : null;
+    await saveEvalReport(sb, { createdBy: user.id, report, diff });
+
+    return ok({
+      ok: true,
+      runId: report.runId,
+      goldenSetVersion: report.goldenSetVersion,
+      method: report.method,
+      model: report.model,
+      clientKind: report.clientKind,
+      durationMs: report.durationMs,
+      summary: report.summary,
+      diff,
+    });
+  } catch (error) {
+    console.error("[eval/run] failed", error);
+    return err(
+      500,
+      "EVAL_FAILED",
+      error instanceof Error ? error.message : "Eval run failed"
+    );
+  }
+}
+
+export async function GET(req: NextRequest) {
+  if (evalApiDisabled()) return err(404, "NOT_AVAILABLE", "Not available");
+
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const limitParam = Number(req.nextUrl.searchParams.get("limit") ?? 20);
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(1, limitParam), 100) : 20;
+
+  try {
+    const runs = await listEvalRuns(sb, limit);
+    return ok({ ok: true, goldenSetVersions: listGoldenSetVersions(), runs });
+  } catch (error) {
+    console.error("[eval/run] list failed", error);
+    return err(500, "LIST_FAILED", "Failed to list eval runs");
+  }
 }
@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { z } from "zod";
-import OpenAI from "openai";
+import {
+  getClientForModel,
+  isModelProviderConfigured,
+} from "@/lib/ai/openai";
 import { createServerClient } from "@supabase/ssr";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { buildJourneyFeedbackPrompt } from "@/lib/ai/workshopPrompts";
 import { checkRateLimit } from "@/lib/ratelimit/redis";
 import {
   getSystemPrompt,
   getLanguageInstruction,
 } from "@/lib/ai/localePrompts";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -33,7 +39,11 @@ function err(status: number, code: string, message: string, extra?: any) {
   return NextResponse.json({ error: { code, message, ...extra } }, { status });
 }
 
-export async function POST(req: NextRequest) {
+export function POST(req: NextRequest) {
+  return withRouteMetrics("journey/generate-brief-feedback", () => handlePost(req));
+}
+
+async function handlePost(req: NextRequest) {
   const requestId = crypto.randomUUID();
   const started = Date.now();
   const log = (...a: any[]) =>
@@ -99,6 +109,9 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId: body.threadId });
+    if ("res" in budget) return budget.res;
+
     // 3) Verify journey reflection ownership
     const { data: reflection, error: reflectionErr } = await supabase
       .from("journey_reflections")
@@ -137,6 +150,9 @@ export async function POST(req: NextRequest) {
       return err(403, "FORBIDDEN", "You do not have access to this thread.");
     }
 
+    const guard = await requireThreadWrite(supabase, body.threadId, user.id);
+    if ("res" in guard) return guard.res;
+
     // 4a) Fetch user's locale preference
     const { data: profile, error: profileErr } = await supabase
       .from("profiles")
@@ -162,23 +178,27 @@ export async function POST(req: NextRequest) {
     });
     const userPrompt = `${baseUserPrompt}\n\n${getLanguageInstruction(userLocale)}`;
 
-    // 6) Call OpenAI gpt-5 (with fallback to gpt-4o-mini)
-    const key = process.env.OPENAI_API_KEY;
-    if (!key) {
-      log("openai_key_missing");
-      return err(500, "OPENAI_KEY_MISSING", "Server missing OpenAI API key.");
-    }
-
-    const openai = new OpenAI({ apiKey: key });
-
+    // 6) Call gpt-5 (with fallback to gpt-4o-mini)
     let modelToUse = "gpt-5-turbo"; // Primary: gpt-5 family as specified
     let feedback: string = "";
     let usedFallback = false;
 
+    if (!isModelProviderConfigured(modelToUse)) {
+      log("model_provider_not_configured", { model: modelToUse });
+      return err(
+        500,
+        "MODEL_PROVIDER_NOT_CONFIGURED",
+        "Server missing credentials for the model provider."
+      );
+    }
+
     try {
       log("openai_attempt", { model: modelToUse });
 
-      const completion = await openai.chat.completions.create({
+      const completion = await getClientForModel(
+        modelToUse,
+        "journey-feedback"
+      ).chat.completions.create({
         model: modelToUse,
         temperature: 0.8, // Slightly higher for more natural, conversational tone
         messages: [
@@ -204,7 +224,10 @@ export async function POST(req: NextRequest) {
         modelToUse = "gpt-4o-mini";
 
         try {
-          const completion = await openai.chat.completions.create({
+          const completion = await getClientForModel(
+            modelToUse,
+            "journey-feedback"
+          ).chat.completions.create({
             model: modelToUse,
             temperature: 0.8,
             messages: [
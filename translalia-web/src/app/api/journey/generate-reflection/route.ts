@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { z } from "zod";
-import OpenAI from "openai";
+import {
+  getClientForModel,
+  isModelProviderConfigured,
+  providerIdForModel,
+} from "@/lib/ai/openai";
 import { createServerClient } from "@supabase/ssr";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { ENHANCER_MODEL } from "@/lib/models";
 import { checkRateLimit } from "@/lib/ratelimit/redis";
 import { maskPrompts } from "@/server/audit/mask";
@@ -12,6 +17,8 @@ import {
   getLanguageInstruction,
 } from "@/lib/ai/localePrompts";
 import { formatNotebookNotesForPrompt } from "@/lib/ai/workshopPrompts";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -38,7 +45,11 @@ function err(status: number, code: string, message: string, extra?: any) {
   return NextResponse.json({ error: { code, message, ...extra } }, { status });
 }
 
-export async function POST(req: NextRequest) {
+export function POST(req: NextRequest) {
+  return withRouteMetrics("journey/generate-reflection", () => handlePost(req));
+}
+
+async function handlePost(req: NextRequest) {
   const requestId = crypto.randomUUID();
   const started = Date.now();
   const log = (...a: any[]) =>
@@ -103,6 +114,9 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId: body.threadId });
+    if ("res" in budget) return budget.res;
+
     // 3) Thread ownership and fetch state (including notes)
     const { data: thread, error: threadErr } = await supabase
       .from("chat_threads")
@@ -119,6 +133,9 @@ export async function POST(req: NextRequest) {
       return err(403, "FORBIDDEN", "You do not have access to this thread.");
     }
 
+    const guard = await requireThreadWrite(supabase, body.threadId, user.id);
+    if ("res" in guard) return guard.res;
+
     // 3a) Fetch user's locale preference
     const { data: profile, error: profileErr } = await supabase
       .from("profiles")
@@ -145,14 +162,7 @@ export async function POST(req: NextRequest) {
       lineNotesCount: Object.keys(notebookNotes.line_notes || {}).length
     });
 
-    // 4) OpenAI call for journey reflection
-    const key = process.env.OPENAI_API_KEY;
-    if (!key) {
-      log("openai_key_missing");
-      return err(500, "OPENAI_KEY_MISSING", "Server missing OpenAI API key.");
-    }
-    const openai = new OpenAI({ apiKey: key });
-
+    // 4) Model call for journey reflection
     // Build prompt for journey reflection
     const { context } = body;
     const completedLinesText = Object.entries(context.completedLines)
@@ -204,13 +214,25 @@ Please provide a reflective journey summary focusing on the translator's process
     let modelToUse = ENHANCER_MODEL;
     let completion;
 
+    if (!isModelProviderConfigured(modelToUse)) {
+      log("model_provider_not_configured", { model: modelToUse });
+      return err(
+        500,
+        "MODEL_PROVIDER_NOT_CONFIGURED",
+        "Server missing credentials for the model provider."
+      );
+    }
+
     const isGpt5 = modelToUse.startsWith("gpt-5");
 
     try {
       log("openai_attempt", { model: modelToUse, isGpt5 });
 
       if (isGpt5) {
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "journey-reflection"
+        ).chat.completions.create({
           model: modelToUse,
           response_format: { type: "json_object" },
           messages: [
@@ -219,7 +241,10 @@ Please provide a reflective journey summary focusing on the translator's process
           ],
         });
       } else {
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "journey-reflection"
+        ).chat.completions.create({
           model: modelToUse,
           temperature: 0.7, // Higher temperature for more creative reflection
           response_format: { type: "json_object" },
@@ -243,7 +268,10 @@ Please provide a reflective journey summary focusing on the translator's process
             modelError?.error?.code || modelError?.error?.message || "error",
         });
         modelToUse = "gpt-4o-mini";
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "journey-reflection"
+        ).chat.completions.create({
           model: modelToUse,
           temperature: 0.7,
           response_format: { type: "json_object" },
@@ -313,7 +341,10 @@ ${reflection.reflection}
 Return only valid JSON with all 4 arrays populated.`;
 
       try {
-        const repairCompletion = await openai.chat.completions.create({
+        const repairCompletion = await getClientForModel(
+          "gpt-4o-mini",
+          "journey-reflection"
+        ).chat.completions.create({
           model: "gpt-4o-mini", // Use cheaper model for repair
           temperature: 0.3,
           response_format: { type: "json_object" },
@@ -368,7 +399,7 @@ Return only valid JSON with all 4 arrays populated.`;
       projectId: thread.project_id ?? null,
       threadId: body.threadId,
       stage: "journey-reflection",
-      provider: "openai",
+      provider: providerIdForModel(modelToUse),
       model: modelToUse,
       params: {
         duration_ms: ms,
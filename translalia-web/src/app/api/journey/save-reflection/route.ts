@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { z } from "zod";
 import { createServerClient } from "@supabase/ssr";
+import { requireThreadWrite } from "@/lib/apiGuard";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -91,6 +92,9 @@ export async function POST(req: NextRequest) {
       return err(403, "FORBIDDEN", "You do not have access to this thread.");
     }
 
+    const guard = await requireThreadWrite(supabase, body.threadId, user.id);
+    if ("res" in guard) return guard.res;
+
     // 4) Verify project ownership (thread's project should match requested project)
     if (thread.project_id !== body.projectId) {
       log("project_mismatch", {
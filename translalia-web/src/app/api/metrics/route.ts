@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  collectMetrics,
+  OPENMETRICS_CONTENT_TYPE,
+  PROMETHEUS_CONTENT_TYPE,
+  registerCollector,
+} from "@/lib/telemetry/registry";
+import { queueActiveJobs, queueDepth } from "@/lib/telemetry/metrics";
+import { recordQueueSnapshot } from "@/lib/telemetry/metricsCollector";
+import { getTranslationQueueStats } from "@/lib/workshop/translationQueue";
+import { requireOpsToken } from "@/lib/auth/opsToken";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Queue lengths live in Redis; read them at scrape time
+registerCollector(async () => {
+  const stats = await getTranslationQueueStats();
+  if (!stats) return;
+  recordQueueSnapshot(stats.depth, stats.oldestAgeMs);
+  queueDepth.set({ queue: "dlq" }, stats.dlqDepth);
+  queueActiveJobs.set(undefined, stats.activeJobs);
+});
+
+/**
+ * OpenMetrics scrape endpoint for this process's metrics registry: route and
+ * LLM call latency, token usage, translation queue gauges, cache lookups,
+ * verification timings and Method 2 gate/regeneration counters.
+ *
+ * With METRICS_TOKEN set, requires `Authorization: Bearer <METRICS_TOKEN>`.
+ * Without it, only available outside production (or with DEBUG_API_ENABLED=1).
+ * Clients that only accept `text/plain` get the Prometheus 0.0.4 format.
+ *
+ * Usage: GET /api/metrics
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireOpsToken(req, process.env.METRICS_TOKEN);
+  if (denied) return denied;
+
+  const accept = req.headers.get("accept") ?? "";
+  const format =
+    accept.includes("text/plain") && !accept.includes("application/openmetrics-text")
+      ? "prometheus"
+      : "openmetrics";
+
+  try {
+    const body = await collectMetrics(format);
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type":
+          format === "openmetrics" ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    console.error("[/api/metrics] GET", e);
+    return NextResponse.json({ error: "Failed to render metrics" }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { requireUser } from "@/lib/auth/requireUser";
-import { openai } from "@/lib/ai/openai";
+import { getClientForModel, providerIdForModel } from "@/lib/ai/openai";
 import { isDeepSeekBlocked } from "@/lib/ai/deepseekAccess";
 import { TRANSLATOR_MODEL } from "@/lib/models";
 import { supabaseServer } from "@/lib/supabaseServer";
@@ -15,6 +15,8 @@ import { DragData } from "@/types/drag";
 import { z } from "zod";
 import { maskPrompts } from "@/server/audit/mask";
 import { insertPromptAudit } from "@/server/audit/insertPromptAudit";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 const RequestSchema = z.object({
   threadId: z.string().uuid(),
@@ -55,7 +57,11 @@ const ResponseSchema = z.object({
 
 export type AIAssistResponse = z.infer<typeof ResponseSchema>;
 
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("notebook/ai-assist", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   // Auth check
   const { user, response } = await requireUser();
   if (!user) return response;
@@ -102,6 +108,9 @@ export async function POST(req: Request) {
       );
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId });
+    if ("res" in budget) return budget.res;
+
     // Check cache first (cache key based on selected words and instruction)
     const wordsKey = selectedWords.map((w) => w.text).join("_");
     const cacheKey = `ai-assist:${threadId}:${cellId}:${wordsKey}:${instruction || "refine"}`;
@@ -167,7 +176,10 @@ export async function POST(req: Request) {
     try {
       if (isGpt5) {
         // GPT-5: No temperature or other sampling parameters
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "ai-assist"
+        ).chat.completions.create({
           model: modelToUse,
           response_format: { type: "json_object" },
           messages: [
@@ -177,7 +189,10 @@ export async function POST(req: Request) {
         });
       } else {
         // GPT-4: Include temperature
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "ai-assist"
+        ).chat.completions.create({
           model: modelToUse,
           temperature: 0.7,
           response_format: { type: "json_object" },
@@ -202,7 +217,10 @@ export async function POST(req: Request) {
             "error"
         );
         modelToUse = "gpt-4o-mini";
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "ai-assist"
+        ).chat.completions.create({
           model: modelToUse,
           temperature: 0.7,
           response_format: { type: "json_object" },
@@ -225,7 +243,7 @@ export async function POST(req: Request) {
       projectId: thread.project_id ?? null,
       threadId: threadId,
       stage: "ai-assist",
-      provider: "openai",
+      provider: providerIdForModel(modelToUse),
       model: modelToUse,
       params: {
         cellId,
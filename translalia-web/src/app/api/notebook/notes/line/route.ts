@@ -3,6 +3,9 @@ import { z } from "zod";
 import { requireUser } from "@/lib/auth/requireUser";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { patchThreadStateField } from "@/server/guide/updateGuideState";
+import { collabUser } from "@/lib/collab/access";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import { findForeignLock, publishCollabEvents } from "@/lib/collab/relay";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -55,7 +58,7 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // 3) Verify thread exists and user owns it
+    // 3) Verify thread exists and user owns or collaborates on it
     const supabase = await supabaseServer();
     const { data: thread, error: threadError } = await supabase
       .from("chat_threads")
@@ -68,9 +71,20 @@ export async function POST(req: NextRequest) {
       return err(404, "THREAD_NOT_FOUND", "Thread not found.");
     }
 
-    if (thread.created_by !== user.id) {
-      log("forbidden", { userId: user.id, owner: thread.created_by });
-      return err(403, "FORBIDDEN", "You do not have access to this thread.");
+    // Owner or collaborator, and not locked by a submitted assignment
+    const guard = await requireThreadWrite(supabase, body.threadId, user.id);
+    if ("res" in guard) {
+      log("forbidden", { userId: user.id, owner: thread.created_by, status: guard.res.status });
+      return guard.res;
+    }
+
+    // A line lock covers the line's note too
+    const foreignLock = await findForeignLock(body.threadId, user.id, body.lineIndex);
+    if (foreignLock) {
+      log("line_locked", { lineIndex: body.lineIndex, holder: foreignLock.userId });
+      return err(409, "LINE_LOCKED", `${foreignLock.name} is editing this line.`, {
+        holder: foreignLock,
+      });
     }
 
     // 4) Get current notes state
@@ -110,6 +124,10 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    await publishCollabEvents(body.threadId, collabUser(user), [
+      { type: "note_saved", lineIndex: body.lineIndex, content: body.content },
+    ]);
+
     log("success", {
       ms: Date.now() - started,
       lineIndex: body.lineIndex,
@@ -3,6 +3,9 @@ import { z } from "zod";
 import { requireUser } from "@/lib/auth/requireUser";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { patchThreadStateField } from "@/server/guide/updateGuideState";
+import { collabUser, getThreadAccess } from "@/lib/collab/access";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import { publishCollabEvents } from "@/lib/collab/relay";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -71,8 +74,8 @@ export async function GET(req: NextRequest) {
       return err(404, "THREAD_NOT_FOUND", "Thread not found.");
     }
 
-    // 4) Verify ownership
-    if (thread.created_by !== user.id) {
+    // 4) Verify the caller owns or collaborates on the thread
+    if (!(await getThreadAccess(supabase, validatedQuery.threadId, user.id))) {
       log("forbidden", { userId: user.id, owner: thread.created_by });
       return err(403, "FORBIDDEN", "You do not have access to this thread.");
     }
@@ -135,7 +138,7 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // 3) Verify thread exists and user owns it
+    // 3) Verify thread exists and user owns or collaborates on it
     const supabase = await supabaseServer();
     const { data: thread, error: threadError } = await supabase
       .from("chat_threads")
@@ -148,9 +151,11 @@ export async function POST(req: NextRequest) {
       return err(404, "THREAD_NOT_FOUND", "Thread not found.");
     }
 
-    if (thread.created_by !== user.id) {
-      log("forbidden", { userId: user.id, owner: thread.created_by });
-      return err(403, "FORBIDDEN", "You do not have access to this thread.");
+    // Owner or collaborator, and not locked by a submitted assignment
+    const guard = await requireThreadWrite(supabase, body.threadId, user.id);
+    if ("res" in guard) {
+      log("forbidden", { userId: user.id, owner: thread.created_by, status: guard.res.status });
+      return guard.res;
     }
 
     // 4) Get current notes state to merge
@@ -187,6 +192,17 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    await publishCollabEvents(body.threadId, collabUser(user), [
+      ...(body.threadNote !== undefined
+        ? [{ type: "note_saved" as const, lineIndex: null, content: body.threadNote }]
+        : []),
+      ...Object.entries(body.lineNotes ?? {}).map(([lineIndex, content]) => ({
+        type: "note_saved" as const,
+        lineIndex: Number(lineIndex),
+        content,
+      })),
+    ]);
+
     log("success", {
       ms: Date.now() - started,
       hasThreadNote: !!updatedNotes.thread_note,
@@ -21,6 +21,8 @@ import {
   generateFallbackSuggestions,
 } from "@/lib/ai/poemSuggestions";
 import type { PoetryMacroCritiqueResponse } from "@/types/poemSuggestion";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -45,7 +47,11 @@ function ok<T>(data: T, status = 200) {
   return NextResponse.json<T>(data, { status });
 }
 
-export async function POST(req: NextRequest) {
+export function POST(req: NextRequest) {
+  return withRouteMetrics("notebook/poem-suggestions", () => handlePost(req));
+}
+
+async function handlePost(req: NextRequest) {
   const requestId = crypto.randomUUID();
   const started = Date.now();
   const log = (...a: unknown[]) =>
@@ -94,6 +100,9 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId: body.threadId });
+    if ("res" in budget) return budget.res;
+
     // 3) Verify thread ownership
     const supabase = await supabaseServer();
     const { data: thread, error: threadErr } = await supabase
@@ -125,7 +134,6 @@ export async function POST(req: NextRequest) {
         createdBy: user.id,
         threadId: body.threadId,
         stage: "notebook:poem-suggestions",
-        provider: "openai",
       },
     });
 
@@ -2,9 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { createServerClient } from "@supabase/ssr";
 import { z } from "zod";
-import OpenAI from "openai";
 import { TRANSLATOR_MODEL } from "@/lib/models";
 import { isDeepSeekBlocked } from "@/lib/ai/deepseekAccess";
+import { getClientForModel, isModelProviderConfigured } from "@/lib/ai/openai";
 import { checkRateLimit } from "@/lib/ratelimit/redis";
 import {
   getOrCreateVariantRecipes,
@@ -13,6 +13,8 @@ import {
 } from "@/lib/ai/variantRecipes";
 import { buildRecipeAwarePrismaticPrompt } from "@/lib/ai/workshopPrompts";
 import { buildTranslatorPersonality } from "@/lib/ai/translatorPersonality";
+import { selectGlossaryForLine } from "@/lib/ai/glossaryGate";
+import { loadGlossaryForThread } from "@/lib/glossary/store";
 import {
   checkDistinctness,
   type TranslationVariant,
@@ -25,6 +27,8 @@ import {
   type Anchor,
 } from "@/lib/ai/anchorsValidation";
 import type { GuideAnswers } from "@/store/guideSlice";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -56,9 +60,13 @@ function err(status: number, code: string, message: string, extra?: unknown) {
 
 /**
  * POST /api/notebook/prismatic
- * Generate A/B/C translation variants for a specific line using recipe-based generation
+ * Generate translation variants (A, B, C, … per the thread's variant count) for a specific line using recipe-based generation
  */
-export async function POST(req: NextRequest) {
+export function POST(req: NextRequest) {
+  return withRouteMetrics("notebook/prismatic", () => handlePost(req));
+}
+
+async function handlePost(req: NextRequest) {
   const requestId = crypto.randomUUID();
   const started = Date.now();
   const log = (...a: unknown[]) =>
@@ -117,10 +125,13 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId: body.threadId });
+    if ("res" in budget) return budget.res;
+
     // 3) Fetch thread and context
     const { data: thread, error: threadErr } = await supabase
       .from("chat_threads")
-      .select("id,created_by,state,translation_model,translation_method,translation_intent,translation_zone,source_language_variety,raw_poem")
+      .select("id,created_by,state,translation_model,translation_method,translation_intent,translation_zone,source_language_variety,variant_count,raw_poem")
       .eq("id", body.threadId)
       .single();
 
@@ -155,6 +166,8 @@ export async function POST(req: NextRequest) {
         thread.source_language_variety ??
         guideAnswersState.sourceLanguageVariety ??
         null,
+      variantCount:
+        thread.variant_count ?? guideAnswersState.variantCount,
     };
 
     // Cost gate: DeepSeek is restricted to allowlisted accounts. Reject rather
@@ -192,6 +205,8 @@ export async function POST(req: NextRequest) {
     log("mode", { mode });
 
     // 6) Get or create variant recipes (cached per thread + context)
+    const glossary = await loadGlossaryForThread(body.threadId);
+    const lineGlossary = selectGlossaryForLine(glossary, body.sourceText);
     let recipes: VariantRecipesBundle;
     try {
       recipes = await getOrCreateVariantRecipes(
@@ -201,6 +216,7 @@ export async function POST(req: NextRequest) {
           fullPoem: rawPoem,
           sourceLanguage,
           targetLanguage,
+          glossary,
         },
         mode
       );
@@ -280,6 +296,7 @@ export async function POST(req: NextRequest) {
       personality,
       currentTranslation: currentTranslation || undefined,
       context,
+      glossary: lineGlossary,
     });
     if (process.env.DEBUG_VARIANTS === "1") {
       log("[DEBUG_VARIANTS][prismatic.prompt]", {
@@ -296,17 +313,19 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // 10) Call OpenAI for prismatic variants (single call on happy path)
-    const key = process.env.OPENAI_API_KEY;
-    if (!key) {
-      log("openai_key_missing");
-      return err(500, "OPENAI_KEY_MISSING", "Server missing OpenAI API key.");
-    }
-    const openai = new OpenAI({ apiKey: key });
-
+    // 10) Call the model for prismatic variants (single call on happy path)
     let modelToUse = TRANSLATOR_MODEL;
     let completion;
 
+    if (!isModelProviderConfigured(modelToUse)) {
+      log("model_provider_not_configured", { model: modelToUse });
+      return err(
+        500,
+        "MODEL_PROVIDER_NOT_CONFIGURED",
+        "Server missing credentials for the model provider."
+      );
+    }
+
     // GPT-5 models don't support temperature, top_p, frequency_penalty, etc.
     const isGpt5 = modelToUse.startsWith("gpt-5");
     const temperature =
@@ -324,7 +343,10 @@ export async function POST(req: NextRequest) {
 
       if (isGpt5) {
         // GPT-5: No temperature or other sampling parameters
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "notebook:prismatic"
+        ).chat.completions.create({
           model: modelToUse,
           response_format: { type: "json_object" },
           messages: [
@@ -334,7 +356,10 @@ export async function POST(req: NextRequest) {
         });
       } else {
         // GPT-4: Include temperature
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "notebook:prismatic"
+        ).chat.completions.create({
           model: modelToUse,
           temperature,
           presence_penalty,
@@ -365,7 +390,10 @@ export async function POST(req: NextRequest) {
           reason: modelErr?.error?.code || modelErr?.error?.message || "error",
         });
         modelToUse = "gpt-4o-mini";
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "notebook:prismatic"
+        ).chat.completions.create({
           model: modelToUse,
           temperature,
           presence_penalty,
@@ -415,9 +443,17 @@ export async function POST(req: NextRequest) {
     const anchors = responseObj.anchors;
 
     // Validate structure
-    if (!Array.isArray(variants) || variants.length !== 3) {
-      log("invalid_variant_count", { count: variants.length });
-      return err(502, "INVALID_RESPONSE", "Expected 3 variants from model");
+    const expectedVariants = recipes.recipes.length;
+    if (!Array.isArray(variants) || variants.length !== expectedVariants) {
+      log("invalid_variant_count", {
+        count: variants.length,
+        expected: expectedVariants,
+      });
+      return err(
+        502,
+        "INVALID_RESPONSE",
+        `Expected ${expectedVariants} variants from model`
+      );
     }
 
     // ========================================================================
@@ -589,6 +625,7 @@ export async function POST(req: NextRequest) {
               targetLanguage,
               mode,
               stancePlanSubjectForm,
+              glossary: lineGlossary,
             },
             anchors || [],
             gateResult.reason || "distinctness_check_failed",
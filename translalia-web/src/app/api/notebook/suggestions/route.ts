@@ -12,6 +12,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
 import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { cacheGet, cacheSet } from "@/lib/ai/cache";
 import { checkRateLimit } from "@/lib/ratelimit/redis";
@@ -40,6 +41,8 @@ import {
   generateFallbackPersonalized,
 } from "@/lib/ai/notebookSuggestionsPrompts";
 import { patchThreadStateField } from "@/server/guide/updateGuideState";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -71,7 +74,11 @@ function ok<T extends { ok: true }>(data: T, status = 200) {
   return NextResponse.json<T>(data, { status });
 }
 
-export async function POST(req: NextRequest) {
+export function POST(req: NextRequest) {
+  return withRouteMetrics("notebook/suggestions", () => handlePost(req));
+}
+
+async function handlePost(req: NextRequest) {
   const requestId = crypto.randomUUID();
   const started = Date.now();
   const log = (...a: unknown[]) =>
@@ -120,6 +127,9 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId: body.threadId });
+    if ("res" in budget) return budget.res;
+
     // 4) Verify thread ownership
     const supabase = await supabaseServer();
     const { data: thread, error: threadErr } = await supabase
@@ -134,6 +144,9 @@ export async function POST(req: NextRequest) {
       return err(404, "THREAD_NOT_FOUND", "Thread not found or unauthorized");
     }
 
+    const guard = await requireThreadWrite(supabase, body.threadId, user.id);
+    if ("res" in guard) return guard.res;
+
     // 5) Check cache
     const cacheKey = `notebook-suggestions:${body.threadId}:${body.step}:${hashPayload({
       sourcePoem: body.sourcePoem,
@@ -295,7 +308,6 @@ async function processIdentifyStep(
         createdBy: userId,
         threadId: body.threadId,
         stage: "notebook:suggestions:identify",
-        provider: "openai",
       },
     });
 
@@ -371,7 +383,6 @@ async function processAdjustStep(
         createdBy: userId,
         threadId: body.threadId,
         stage: "notebook:suggestions:adjust",
-        provider: "openai",
       },
     });
 
@@ -439,7 +450,6 @@ async function processPersonalizeStep(
         createdBy: userId,
         threadId: body.threadId,
         stage: "notebook:suggestions:personalize",
-        provider: "openai",
       },
     });
 
@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { requireUser } from "@/lib/auth/requireUser";
+import {
+  addProjectGlossaryEntry,
+  deleteProjectGlossaryEntry,
+  listProjectGlossary,
+} from "@/lib/glossary/store";
+import type { ProjectGlossaryResponse } from "@/types/glossary";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const TERM_MAX = 200;
+
+const EntrySchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("required"),
+    sourceTerm: z.string().trim().min(1).max(TERM_MAX),
+    targetTerm: z.string().trim().min(1).max(TERM_MAX),
+    note: z.string().max(500).nullish(),
+  }),
+  z.object({
+    kind: z.literal("do_not_translate"),
+    sourceTerm: z.string().trim().min(1).max(TERM_MAX),
+    note: z.string().max(500).nullish(),
+  }),
+  z.object({
+    kind: z.literal("forbidden"),
+    targetTerm: z.string().trim().min(1).max(TERM_MAX),
+    note: z.string().max(500).nullish(),
+  }),
+]);
+
+const DeleteSchema = z.object({ id: z.string().uuid() });
+
+type RouteContext = { params: Promise<{ projectId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/** 404/403 response when the caller does not own the project, else null. */
+async function checkProjectOwner(
+  sb: SupabaseClient,
+  projectId: string,
+  userId: string
+): Promise<NextResponse | null> {
+  const { data: project, error } = await sb
+    .from("projects")
+    .select("id, owner_id")
+    .eq("id", projectId)
+    .single();
+
+  if (error || !project) {
+    return err(404, "PROJECT_NOT_FOUND", "Workspace not found.");
+  }
+  if (project.owner_id !== userId) {
+    return err(403, "FORBIDDEN", "You do not have access to this workspace.");
+  }
+  return null;
+}
+
+/**
+ * GET /api/projects/[projectId]/glossary
+ * The workspace glossary used to constrain translation of its threads.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const denied = await checkProjectOwner(sb, projectId, user.id);
+  if (denied) return denied;
+
+  try {
+    const body: ProjectGlossaryResponse = {
+      projectId,
+      entries: await listProjectGlossary(sb, projectId),
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/projects/glossary] GET", e);
+    return err(500, "INTERNAL", "Failed to load the glossary.");
+  }
+}
+
+/**
+ * POST /api/projects/[projectId]/glossary
+ * Add one entry: `{ kind, sourceTerm?, targetTerm?, note? }`.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = EntrySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid glossary entry", {
+      details: parsed.error.issues,
+    });
+  }
+
+  const denied = await checkProjectOwner(sb, projectId, user.id);
+  if (denied) return denied;
+
+  try {
+    const entry = await addProjectGlossaryEntry(sb, {
+      projectId,
+      userId: user.id,
+      ...parsed.data,
+    });
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    if (message.includes("duplicate key")) {
+      return err(409, "DUPLICATE_TERM", "This term is already in the glossary.");
+    }
+    console.error("[/api/projects/glossary] POST", message);
+    return err(500, "INTERNAL", "Failed to add the glossary entry.");
+  }
+}
+
+/**
+ * DELETE /api/projects/[projectId]/glossary
+ * Remove one entry: `{ id }`.
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = DeleteSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "id is required");
+  }
+
+  const denied = await checkProjectOwner(sb, projectId, user.id);
+  if (denied) return denied;
+
+  try {
+    const deleted = await deleteProjectGlossaryEntry(sb, projectId, parsed.data.id);
+    if (!deleted) {
+      return err(404, "ENTRY_NOT_FOUND", "Glossary entry not found.");
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e: unknown) {
+    console.error("[/api/projects/glossary] DELETE", e);
+    return err(500, "INTERNAL", "Failed to delete the glossary entry.");
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireUser } from "@/lib/auth/requireUser";
-import { openai } from "@/lib/ai/openai";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import { getClientForModel, providerIdForModel } from "@/lib/ai/openai";
 import { isDeepSeekBlocked } from "@/lib/ai/deepseekAccess";
 import { TRANSLATOR_MODEL } from "@/lib/models";
 import { supabaseServer } from "@/lib/supabaseServer";
@@ -16,6 +17,8 @@ import { z } from "zod";
 import { maskPrompts } from "@/server/audit/mask";
 import { insertPromptAudit } from "@/server/audit/insertPromptAudit";
 import { patchThreadStateField } from "@/server/guide/updateGuideState";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -38,7 +41,11 @@ const ResponseSchema = z.object({
 
 export type AIAssistStepCResponse = z.infer<typeof ResponseSchema>;
 
-export async function POST(req: NextRequest) {
+export function POST(req: NextRequest) {
+  return withRouteMetrics("reflection/ai-assist-step-c", () => handlePost(req));
+}
+
+async function handlePost(req: NextRequest) {
   // Auth check
   const { user, response } = await requireUser();
   if (!user) return response;
@@ -86,6 +93,9 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId });
+    if ("res" in budget) return budget.res;
+
     // Check cache first
     const cacheKey = `ai-assist-step-c:${threadId}`;
     const cached = await cacheGet<AIAssistStepCResponse>(cacheKey);
@@ -111,6 +121,9 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const guard = await requireThreadWrite(supabase, threadId, user.id);
+    if ("res" in guard) return guard.res;
+
     // Extract data from columns (with JSONB fallback for legacy data)
     const state = (thread.state as any) || {};
     const guideAnswers: GuideAnswers = {
@@ -181,7 +194,10 @@ export async function POST(req: NextRequest) {
 
       if (isGpt5) {
         // GPT-5: No temperature or other sampling parameters
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "ai-assist-step-c"
+        ).chat.completions.create({
           model: modelToUse,
           response_format: { type: "json_object" },
           messages: [
@@ -191,7 +207,10 @@ export async function POST(req: NextRequest) {
         });
       } else {
         // GPT-4: Include temperature
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "ai-assist-step-c"
+        ).chat.completions.create({
           model: modelToUse,
           temperature: 0.8, // Higher for more creative suggestions
           response_format: { type: "json_object" },
@@ -215,7 +234,10 @@ export async function POST(req: NextRequest) {
             modelError?.error?.code || modelError?.error?.message || "error",
         });
         modelToUse = "gpt-4o-mini";
-        completion = await openai.chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "ai-assist-step-c"
+        ).chat.completions.create({
           model: modelToUse,
           temperature: 0.8,
           response_format: { type: "json_object" },
@@ -271,7 +293,7 @@ export async function POST(req: NextRequest) {
       projectId: thread.project_id ?? null,
       threadId: threadId,
       stage: "ai-assist-step-c",
-      provider: "openai",
+      provider: providerIdForModel(modelToUse),
       model: modelToUse,
       params: {
         duration_ms: auditDuration,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { patchThreadStateField } from "@/server/guide/updateGuideState";
 
@@ -147,6 +148,13 @@ export async function POST(req: NextRequest) {
       return err(403, "FORBIDDEN", "You do not have access to this thread.");
     }
 
+    // A submitted assignment's reflection is part of what the teacher reviews
+    const guard = await requireThreadWrite(supabase, body.threadId, user.id);
+    if ("res" in guard) {
+      log("locked", { status: guard.res.status });
+      return guard.res;
+    }
+
     // 4) Atomic patch of the single string field (null clears it)
     const patchResult = await patchThreadStateField(
       body.threadId,
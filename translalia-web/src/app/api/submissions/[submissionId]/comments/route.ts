@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { requireUser } from "@/lib/auth/requireUser";
+import { requireClassRole } from "@/lib/apiGuard";
+import {
+  addSubmissionComment,
+  deleteSubmissionComment,
+  getAssignment,
+  getSubmission,
+} from "@/lib/classroom/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const AddSchema = z.object({
+  /** null comments on the whole translation */
+  lineIndex: z.number().int().min(0).nullable(),
+  body: z.string().trim().min(1).max(2000),
+});
+const DeleteSchema = z.object({ id: z.string().uuid() });
+
+type RouteContext = { params: Promise<{ submissionId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/** Only teachers of the submission's class comment on it. */
+async function requireSubmissionTeacher(
+  sb: SupabaseClient,
+  submissionId: string,
+  userId: string
+) {
+  const submission = await getSubmission(sb, submissionId);
+  const assignment = submission ? await getAssignment(sb, submission.assignmentId) : null;
+  if (!submission || !assignment) {
+    return { res: err(404, "SUBMISSION_NOT_FOUND", "Submission not found.") };
+  }
+  const guard = await requireClassRole(sb, assignment.classId, userId, "teacher");
+  if ("res" in guard) return guard;
+  return { submission };
+}
+
+/**
+ * POST /api/submissions/[submissionId]/comments
+ * Teachers comment on a line (or the whole translation): `{ lineIndex, body }`.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { submissionId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = AddSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid comment", { details: parsed.error.issues });
+  }
+
+  try {
+    const guard = await requireSubmissionTeacher(sb, submissionId, user.id);
+    if ("res" in guard) return guard.res;
+
+    const comment = await addSubmissionComment(sb, {
+      submissionId,
+      authorId: user.id,
+      ...parsed.data,
+    });
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (e: unknown) {
+    console.error("[/api/submissions/comments] POST", e);
+    return err(500, "INTERNAL", "Failed to add the comment.");
+  }
+}
+
+/**
+ * DELETE /api/submissions/[submissionId]/comments
+ * Remove a review comment: `{ id }`.
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { submissionId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = DeleteSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid comment id", { details: parsed.error.issues });
+  }
+
+  try {
+    const guard = await requireSubmissionTeacher(sb, submissionId, user.id);
+    if ("res" in guard) return guard.res;
+
+    if (!(await deleteSubmissionComment(sb, submissionId, parsed.data.id))) {
+      return err(404, "COMMENT_NOT_FOUND", "Comment not found.");
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e: unknown) {
+    console.error("[/api/submissions/comments] DELETE", e);
+    return err(500, "INTERNAL", "Failed to delete the comment.");
+  }
+}
@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { requireUser } from "@/lib/auth/requireUser";
+import { requireClassRole } from "@/lib/apiGuard";
+import {
+  getAssignment,
+  getSubmission,
+  listClassMembers,
+  listSubmissionComments,
+  updateSubmission,
+} from "@/lib/classroom/store";
+import {
+  splitPoemLines,
+  submittedLines,
+  transitionSubmission,
+} from "@/lib/classroom/workflow";
+import { parseJourneySummary } from "@/lib/reflection/artifacts";
+import type { SubmissionReview } from "@/types/classroom";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ActionSchema = z.object({
+  action: z.enum(["submit", "return", "review"]),
+  /** Teacher feedback on the whole translation */
+  feedback: z.string().trim().max(5000).nullable().optional(),
+});
+
+type RouteContext = { params: Promise<{ submissionId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * The submission with its class role for the caller: teachers of the class
+ * and the student who owns it. Anyone else gets 404.
+ */
+async function loadSubmission(sb: SupabaseClient, submissionId: string, userId: string) {
+  const submission = await getSubmission(sb, submissionId);
+  const assignment = submission ? await getAssignment(sb, submission.assignmentId) : null;
+  if (!submission || !assignment) {
+    return { res: err(404, "SUBMISSION_NOT_FOUND", "Submission not found.") };
+  }
+
+  const guard = await requireClassRole(sb, assignment.classId, userId, "member");
+  if ("res" in guard) return guard;
+  if (guard.role === "student" && submission.studentId !== userId) {
+    return { res: err(404, "SUBMISSION_NOT_FOUND", "Submission not found.") };
+  }
+  return { submission, assignment, role: guard.role };
+}
+
+/**
+ * GET /api/submissions/[submissionId]
+ * What the teacher reviews: the source and saved translation lines, the
+ * student's Express Your View text, their latest journey summary and the
+ * review comments.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { submissionId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  try {
+    const loaded = await loadSubmission(sb, submissionId, user.id);
+    if ("res" in loaded) return loaded.res;
+    const { submission, assignment, role } = loaded;
+
+    const [threadResult, journeyResult, comments, members] = await Promise.all([
+      sb
+        .from("chat_threads")
+        .select("raw_poem, state")
+        .eq("id", submission.threadId)
+        .maybeSingle(),
+      sb
+        .from("journey_ai_summaries")
+        .select(
+          "reflection_text, insights, strengths, challenges, recommendations, created_at"
+        )
+        .eq("thread_id", submission.threadId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      listSubmissionComments(sb, submission.id),
+      listClassMembers(sb, assignment.classId),
+    ]);
+    if (threadResult.error || !threadResult.data) {
+      return err(404, "THREAD_NOT_FOUND", "The submission's thread no longer exists.");
+    }
+
+    const state = (threadResult.data.state as Record<string, unknown> | null) ?? {};
+    const sourceLines = splitPoemLines(
+      (threadResult.data.raw_poem as string | null) ?? assignment.sourcePoem
+    );
+    const expressYourView = state.express_your_view;
+
+    const body: SubmissionReview = {
+      submission,
+      assignment,
+      student: members.find((m) => m.userId === submission.studentId) ?? null,
+      role,
+      sourceLines,
+      translatedLines: submittedLines(state, sourceLines.length),
+      expressYourView:
+        typeof expressYourView === "string" && expressYourView.trim()
+          ? expressYourView
+          : null,
+      journeySummary: journeyResult.data ? parseJourneySummary(journeyResult.data) : null,
+      comments,
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/submissions] GET", e);
+    return err(500, "INTERNAL", "Failed to load the submission.");
+  }
+}
+
+/**
+ * PATCH /api/submissions/[submissionId]
+ * Move the submission along: `{ action, feedback? }`. Students `submit`
+ * (locking their notebook); teachers `return` it for more work or mark it
+ * `review`ed, optionally with feedback.
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { submissionId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = ActionSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid submission action", {
+      details: parsed.error.issues,
+    });
+  }
+
+  try {
+    const loaded = await loadSubmission(sb, submissionId, user.id);
+    if ("res" in loaded) return loaded.res;
+    const { submission, role } = loaded;
+
+    const { action, feedback } = parsed.data;
+    const next = transitionSubmission(submission.status, action, role);
+    if (!next.ok) {
+      return next.code === "FORBIDDEN"
+        ? err(403, "FORBIDDEN", "You cannot do this to the submission.")
+        : err(409, "INVALID_TRANSITION", `Cannot ${action} a ${submission.status} submission.`, {
+            status: submission.status,
+          });
+    }
+
+    const updated = await updateSubmission(sb, submission.id, {
+      status: next.status,
+      // Only teachers write feedback
+      ...(role === "teacher" && feedback !== undefined ? { feedback: feedback || null } : {}),
+    });
+    return NextResponse.json({ submission: updated });
+  } catch (e: unknown) {
+    console.error("[/api/submissions] PATCH", e);
+    return err(500, "INTERNAL", "Failed to update the submission.");
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import {
+  branchExists,
+  deleteTranslationBranch,
+  recordLineRevision,
+} from "@/lib/revisions/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const LineSchema = z.object({
+  lineIndex: z.number().int().min(0),
+  text: z.string().trim().min(1).max(2000),
+  origin: z.enum(["manual_edit", "restore"]).default("manual_edit"),
+  /** Revision being restored (origin "restore") */
+  restoredFrom: z.string().uuid().optional(),
+});
+
+const BranchIdSchema = z.string().uuid();
+
+type RouteContext = { params: Promise<{ threadId: string; branchId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * PATCH /api/threads/[threadId]/branches/[branchId]
+ * Save one line of a branch: `{ lineIndex, text, origin?, restoredFrom? }`.
+ * Branch lines live only in their revisions.
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { threadId, branchId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = LineSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid branch line", {
+      details: parsed.error.issues,
+    });
+  }
+
+  if (!BranchIdSchema.safeParse(branchId).success) {
+    return err(404, "BRANCH_NOT_FOUND", "Branch not found.");
+  }
+
+  const guard = await requireThreadWrite(sb, threadId, user.id);
+  if ("res" in guard) return guard.res;
+
+  try {
+    if (!(await branchExists(sb, threadId, branchId))) {
+      return err(404, "BRANCH_NOT_FOUND", "Branch not found.");
+    }
+
+    const { lineIndex, text, origin, restoredFrom } = parsed.data;
+    const saved = await recordLineRevision(sb, {
+      threadId,
+      userId: user.id,
+      branchId,
+      lineIndex,
+      text,
+      origin,
+      restoredFrom: origin === "restore" ? restoredFrom : null,
+    });
+    if (!saved) {
+      return err(500, "INTERNAL", "Failed to save the branch line.");
+    }
+    return NextResponse.json({ ok: true, lineIndex, text });
+  } catch (e: unknown) {
+    console.error("[/api/threads/branches] PATCH", e);
+    return err(500, "INTERNAL", "Failed to save the branch line.");
+  }
+}
+
+/**
+ * DELETE /api/threads/[threadId]/branches/[branchId]
+ * Remove a branch and its revisions. The main translation is untouched.
+ */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { threadId, branchId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  if (!BranchIdSchema.safeParse(branchId).success) {
+    return err(404, "BRANCH_NOT_FOUND", "Branch not found.");
+  }
+
+  const guard = await requireThreadWrite(sb, threadId, user.id);
+  if ("res" in guard) return guard.res;
+
+  try {
+    const deleted = await deleteTranslationBranch(sb, threadId, branchId);
+    if (!deleted) {
+      return err(404, "BRANCH_NOT_FOUND", "Branch not found.");
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e: unknown) {
+    console.error("[/api/threads/branches] DELETE", e);
+    return err(500, "INTERNAL", "Failed to delete the branch.");
+  }
+}
@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { getThreadAccess } from "@/lib/collab/access";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import {
+  createTranslationBranch,
+  listTranslationBranches,
+} from "@/lib/revisions/store";
+import type { TranslationBranchesResponse } from "@/types/revisions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ForkSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  /** Branch to copy; omitted to fork the main translation */
+  fromBranchId: z.string().uuid().optional(),
+});
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/** Current main translation per line, from state.workshop_lines. */
+function mainLines(state: unknown): Record<number, string> {
+  const workshopLines = (state as Record<string, unknown> | null)?.workshop_lines;
+  if (!workshopLines || typeof workshopLines !== "object") return {};
+
+  const lines: Record<number, string> = {};
+  for (const [key, line] of Object.entries(workshopLines)) {
+    const translated = (line as { translated?: unknown } | null)?.translated;
+    if (typeof translated === "string" && translated.trim()) {
+      lines[Number(key)] = translated;
+    }
+  }
+  return lines;
+}
+
+/**
+ * GET /api/threads/[threadId]/branches
+ * Alternative translations of the thread, each with its current lines.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  if (!(await getThreadAccess(sb, threadId, user.id))) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  try {
+    const body: TranslationBranchesResponse = {
+      branches: await listTranslationBranches(sb, threadId),
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/threads/branches] GET", e);
+    return err(500, "INTERNAL", "Failed to load branches.");
+  }
+}
+
+/**
+ * POST /api/threads/[threadId]/branches
+ * Fork a branch: `{ name, fromBranchId? }`. Copies the current lines of the
+ * main translation, or of `fromBranchId`.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = ForkSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid branch", {
+      details: parsed.error.issues,
+    });
+  }
+
+  const guard = await requireThreadWrite(sb, threadId, user.id);
+  if ("res" in guard) return guard.res;
+
+  const { data: thread } = await sb
+    .from("chat_threads")
+    .select("id, state")
+    .eq("id", threadId)
+    .maybeSingle();
+  if (!thread) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  try {
+    const { name, fromBranchId } = parsed.data;
+    let lines = mainLines(thread.state);
+    if (fromBranchId) {
+      const source = (await listTranslationBranches(sb, threadId)).find(
+        (branch) => branch.id === fromBranchId
+      );
+      if (!source) {
+        return err(404, "BRANCH_NOT_FOUND", "Branch not found.");
+      }
+      lines = source.lines;
+    }
+
+    const branch = await createTranslationBranch(sb, {
+      threadId,
+      userId: user.id,
+      name,
+      forkedFromBranchId: fromBranchId ?? null,
+      lines,
+    });
+    return NextResponse.json({ branch }, { status: 201 });
+  } catch (e: unknown) {
+    console.error("[/api/threads/branches] POST", e);
+    return err(500, "INTERNAL", "Failed to fork the translation.");
+  }
+}
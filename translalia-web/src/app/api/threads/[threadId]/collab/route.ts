@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { collabUser, getThreadAccess } from "@/lib/collab/access";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import {
+  acquireLineLock,
+  leaveThread,
+  publishCollabEvents,
+  readCollabSnapshot,
+  releaseLineLock,
+  touchPresence,
+} from "@/lib/collab/relay";
+import type { CollabSnapshot } from "@/types/collaboration";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const QuerySchema = z.object({
+  after: z.coerce.number().int().min(0).default(0),
+});
+
+const ActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("heartbeat"),
+    lineIndex: z.number().int().min(0).nullable(),
+  }),
+  z.object({ type: z.literal("lock"), lineIndex: z.number().int().min(0) }),
+  z.object({ type: z.literal("unlock"), lineIndex: z.number().int().min(0) }),
+  z.object({
+    type: z.literal("draft"),
+    lineIndex: z.number().int().min(0),
+    text: z.string().max(2000),
+  }),
+  z.object({ type: z.literal("leave") }),
+]);
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/threads/[threadId]/collab?after=<seq>
+ * Who has the notebook open, which lines are locked, and the drafts and saves
+ * published after `after`. Clients poll it while the notebook is open.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const url = new URL(req.url);
+  const parsed = QuerySchema.safeParse({
+    after: url.searchParams.get("after") ?? undefined,
+  });
+  if (!parsed.success) {
+    return err(400, "BAD_QUERY", "after must be a sequence number");
+  }
+
+  if (!(await getThreadAccess(sb, threadId, user.id))) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  try {
+    const body: CollabSnapshot = await readCollabSnapshot(threadId, parsed.data.after);
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/threads/collab] GET", e);
+    return err(500, "INTERNAL", "Failed to read collaboration state.");
+  }
+}
+
+/**
+ * POST /api/threads/[threadId]/collab
+ * `{ type: "heartbeat", lineIndex }` keeps the caller's presence alive;
+ * `{ type: "lock" | "unlock", lineIndex }` takes (or renews) and frees a line;
+ * `{ type: "draft", lineIndex, text }` shares unsaved text of a locked line;
+ * `{ type: "leave" }` drops presence and locks. Lock conflicts are
+ * `409 LINE_LOCKED` with the holder.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = ActionSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid collaboration action", {
+      details: parsed.error.issues,
+    });
+  }
+
+  const action = parsed.data;
+
+  // Taking a line (lock, draft) is an edit: refused while the thread is a
+  // submitted assignment. Presence updates are not.
+  if (action.type === "lock" || action.type === "draft") {
+    const guard = await requireThreadWrite(sb, threadId, user.id);
+    if ("res" in guard) return guard.res;
+  } else if (!(await getThreadAccess(sb, threadId, user.id))) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  const me = collabUser(user);
+
+  try {
+    switch (action.type) {
+      case "heartbeat":
+        await touchPresence(threadId, me, action.lineIndex);
+        return NextResponse.json({ ok: true });
+
+      case "lock":
+      case "draft": {
+        const result = await acquireLineLock(threadId, me, action.lineIndex);
+        if (!result.ok) {
+          return err(409, "LINE_LOCKED", `${result.holder.name} is editing this line.`, {
+            holder: result.holder,
+          });
+        }
+        if (action.type === "draft") {
+          await publishCollabEvents(threadId, me, [
+            { type: "draft", lineIndex: action.lineIndex, text: action.text },
+          ]);
+        }
+        return NextResponse.json({ ok: true, lock: result.lock });
+      }
+
+      case "unlock":
+        await releaseLineLock(threadId, user.id, action.lineIndex);
+        return NextResponse.json({ ok: true });
+
+      case "leave":
+        await leaveThread(threadId, user.id);
+        return NextResponse.json({ ok: true });
+    }
+  } catch (e: unknown) {
+    console.error("[/api/threads/collab] POST", e);
+    return err(500, "INTERNAL", "Failed to update collaboration state.");
+  }
+}
@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { getThreadAccess } from "@/lib/collab/access";
+import type {
+  ThreadParticipant,
+  ThreadParticipantsResponse,
+  ThreadRole,
+} from "@/types/collaboration";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const AddSchema = z.object({ email: z.string().trim().email() });
+const RemoveSchema = z.object({ userId: z.string().uuid() });
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+interface ParticipantRow {
+  user_id: string;
+  role: ThreadRole;
+  display_name: string | null;
+  email: string | null;
+  added_at: string;
+}
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/threads/[threadId]/collaborators
+ * The owner and collaborators of the thread, with display names.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  if (!(await getThreadAccess(sb, threadId, user.id))) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  const { data, error } = await sb.rpc("thread_participants", {
+    p_thread_id: threadId,
+  });
+  if (error) {
+    console.error("[/api/threads/collaborators] GET", error.message);
+    return err(500, "INTERNAL", "Failed to load collaborators.");
+  }
+
+  const body: ThreadParticipantsResponse = {
+    participants: ((data ?? []) as ParticipantRow[]).map(
+      (row): ThreadParticipant => ({
+        userId: row.user_id,
+        role: row.role,
+        displayName: row.display_name,
+        email: row.email,
+        addedAt: row.added_at,
+      })
+    ),
+  };
+  return NextResponse.json(body);
+}
+
+/**
+ * POST /api/threads/[threadId]/collaborators
+ * Owner only: add a collaborator `{ email }`. `404 USER_NOT_FOUND` when no
+ * account has that email.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = AddSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "A valid email is required");
+  }
+
+  const access = await getThreadAccess(sb, threadId, user.id);
+  if (!access) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+  if (access.role !== "owner") {
+    return err(403, "FORBIDDEN", "Only the thread owner can add collaborators.");
+  }
+
+  const { data: userId, error } = await sb.rpc("add_thread_collaborator", {
+    p_thread_id: threadId,
+    p_email: parsed.data.email,
+  });
+  if (error) {
+    console.error("[/api/threads/collaborators] POST", error.message);
+    return err(500, "INTERNAL", "Failed to add the collaborator.");
+  }
+  if (!userId) {
+    return err(404, "USER_NOT_FOUND", "No account uses this email.");
+  }
+  if (userId === user.id) {
+    return err(400, "SELF", "You already own this thread.");
+  }
+  return NextResponse.json({ userId }, { status: 201 });
+}
+
+/**
+ * DELETE /api/threads/[threadId]/collaborators
+ * Remove a collaborator `{ userId }`: the owner removes anyone, a
+ * collaborator can remove themselves (leave the thread).
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = RemoveSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "userId is required");
+  }
+
+  const access = await getThreadAccess(sb, threadId, user.id);
+  if (!access) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+  if (access.role !== "owner" && parsed.data.userId !== user.id) {
+    return err(403, "FORBIDDEN", "Only the thread owner can remove collaborators.");
+  }
+
+  const { data, error } = await sb
+    .from("thread_collaborators")
+    .delete()
+    .eq("thread_id", threadId)
+    .eq("user_id", parsed.data.userId)
+    .select("user_id");
+  if (error) {
+    console.error("[/api/threads/collaborators] DELETE", error.message);
+    return err(500, "INTERNAL", "Failed to remove the collaborator.");
+  }
+  if ((data ?? []).length === 0) {
+    return err(404, "NOT_A_COLLABORATOR", "This user is not a collaborator.");
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { getThreadAccess } from "@/lib/collab/access";
+import { listLineRevisions } from "@/lib/revisions/store";
+import type { LineRevisionsResponse } from "@/types/revisions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const QuerySchema = z.object({
+  lineIndex: z.coerce.number().int().min(0).optional(),
+  branchId: z.string().uuid().optional(),
+});
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/threads/[threadId]/revisions?lineIndex=&branchId=
+ * Saved revisions of one line (or the whole poem without `lineIndex`) of the
+ * main translation, or of a branch with `branchId`. Newest first.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const url = new URL(req.url);
+  const parsed = QuerySchema.safeParse({
+    lineIndex: url.searchParams.get("lineIndex") ?? undefined,
+    branchId: url.searchParams.get("branchId") ?? undefined,
+  });
+  if (!parsed.success) {
+    return err(400, "BAD_QUERY", "Invalid lineIndex or branchId", {
+      details: parsed.error.issues,
+    });
+  }
+
+  if (!(await getThreadAccess(sb, threadId, user.id))) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  try {
+    const body: LineRevisionsResponse = {
+      revisions: await listLineRevisions(sb, threadId, parsed.data),
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/threads/revisions] GET", e);
+    return err(500, "INTERNAL", "Failed to load revision history.");
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/requireUser";
+import { getThreadAccess } from "@/lib/collab/access";
+import {
+  getAssignment,
+  getSubmissionByThread,
+  listSubmissionComments,
+} from "@/lib/classroom/store";
+import type { ThreadSubmissionResponse } from "@/types/classroom";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/threads/[threadId]/submission
+ * The assignment submission a thread belongs to, with the teacher's
+ * comments; `{ submission: null }` for an ordinary thread.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  if (!(await getThreadAccess(sb, threadId, user.id))) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  try {
+    const submission = await getSubmissionByThread(sb, threadId);
+    const [assignment, comments] = submission
+      ? await Promise.all([
+          getAssignment(sb, submission.assignmentId),
+          listSubmissionComments(sb, submission.id),
+        ])
+      : [null, []];
+
+    const body: ThreadSubmissionResponse = {
+      submission,
+      assignment: assignment
+        ? {
+            id: assignment.id,
+            title: assignment.title,
+            classId: assignment.classId,
+            dueAt: assignment.dueAt,
+          }
+        : null,
+      comments,
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/threads/submission] GET", e);
+    return err(500, "INTERNAL", "Failed to load the submission.");
+  }
+}
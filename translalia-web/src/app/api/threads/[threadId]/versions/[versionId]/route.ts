@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { getThreadAccess } from "@/lib/collab/access";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import {
+  deleteTranslationVersion,
+  getTranslationVersions,
+} from "@/lib/versions/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VersionIdSchema = z.string().uuid();
+
+type RouteContext = { params: Promise<{ threadId: string; versionId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/threads/[threadId]/versions/[versionId]
+ * One saved version with its lines.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { threadId, versionId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  if (!VersionIdSchema.safeParse(versionId).success) {
+    return err(404, "VERSION_NOT_FOUND", "Version not found.");
+  }
+  if (!(await getThreadAccess(sb, threadId, user.id))) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  try {
+    const version = (await getTranslationVersions(sb, threadId, [versionId])).get(
+      versionId
+    );
+    if (!version) {
+      return err(404, "VERSION_NOT_FOUND", "Version not found.");
+    }
+    return NextResponse.json({ version });
+  } catch (e: unknown) {
+    console.error("[/api/threads/versions] GET one", e);
+    return err(500, "INTERNAL", "Failed to load the version.");
+  }
+}
+
+/**
+ * DELETE /api/threads/[threadId]/versions/[versionId]
+ * Remove a saved version. The translation is untouched.
+ */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { threadId, versionId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  if (!VersionIdSchema.safeParse(versionId).success) {
+    return err(404, "VERSION_NOT_FOUND", "Version not found.");
+  }
+
+  const guard = await requireThreadWrite(sb, threadId, user.id);
+  if ("res" in guard) return guard.res;
+
+  try {
+    const deleted = await deleteTranslationVersion(sb, threadId, versionId);
+    if (!deleted) {
+      return err(404, "VERSION_NOT_FOUND", "Version not found.");
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e: unknown) {
+    console.error("[/api/threads/versions] DELETE", e);
+    return err(500, "INTERNAL", "Failed to delete the version.");
+  }
+}
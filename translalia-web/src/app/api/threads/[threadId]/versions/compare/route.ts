@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/requireUser";
+import { getThreadAccess } from "@/lib/collab/access";
+import { createCompareSchema } from "@/lib/schemas";
+import { getLanguageInstruction } from "@/lib/ai/localePrompts";
+import { compareVersionLines } from "@/lib/versions/diff";
+import { generateCompareCommentary } from "@/lib/versions/commentary";
+import { getTranslationVersions, summarizeVersion } from "@/lib/versions/store";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
+import type { VersionCompareResult } from "@/types/versions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * POST /api/threads/[threadId]/versions/compare
+ * Diff two saved versions (createCompareSchema): `{ projectId, leftId,
+ * rightId, granularity? (default "phrase"), lens?, notes? }`. With a lens the
+ * response also carries AI commentary (a model call, budget-gated); `notes`
+ * tells the model what to look at.
+ */
+export function POST(req: Request, ctx: RouteContext) {
+  return withRouteMetrics("threads/versions/compare", () => handlePost(req, ctx));
+}
+
+async function handlePost(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = createCompareSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid compare request", {
+      details: parsed.error.issues,
+    });
+  }
+  const { projectId, leftId, rightId, lens, notes } = parsed.data;
+  const granularity = parsed.data.granularity ?? "phrase";
+
+  if (!(await getThreadAccess(sb, threadId, user.id))) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  if (lens) {
+    const budget = await requireAiBudget({ userId: user.id, threadId });
+    if ("res" in budget) return budget.res;
+  }
+
+  try {
+    const versions = await getTranslationVersions(sb, threadId, [leftId, rightId]);
+    const left = versions.get(leftId);
+    const right = versions.get(rightId);
+    if (!left || !right) {
+      return err(404, "VERSION_NOT_FOUND", "Version not found.");
+    }
+    if (left.projectId !== projectId || right.projectId !== projectId) {
+      return err(400, "PROJECT_MISMATCH", "The versions do not belong to this project.");
+    }
+
+    const { lines, stats } = compareVersionLines(left.lines, right.lines, granularity);
+
+    let commentary: string | null = null;
+    if (lens) {
+      const [{ data: thread }, { data: profile }] = await Promise.all([
+        sb.from("chat_threads").select("raw_poem").eq("id", threadId).maybeSingle(),
+        sb.from("profiles").select("locale").eq("id", user.id).maybeSingle(),
+      ]);
+      try {
+        commentary = await generateCompareCommentary({
+          lens,
+          leftTitle: left.title,
+          rightTitle: right.title,
+          lines,
+          sourcePoem: thread?.raw_poem ?? null,
+          notes,
+          languageInstruction: getLanguageInstruction(profile?.locale ?? "en"),
+        });
+      } catch (e: unknown) {
+        console.error("[/api/threads/versions/compare] commentary", e);
+        return err(502, "COMMENTARY_FAILED", "Commentary generation failed.");
+      }
+    }
+
+    const body: VersionCompareResult = {
+      left: summarizeVersion(left),
+      right: summarizeVersion(right),
+      granularity,
+      lens: lens ?? null,
+      lines,
+      stats,
+      commentary,
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/threads/versions/compare] POST", e);
+    return err(500, "INTERNAL", "Failed to compare versions.");
+  }
+}
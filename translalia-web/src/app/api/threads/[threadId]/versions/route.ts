@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/requireUser";
+import { getThreadAccess } from "@/lib/collab/access";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import { createVersionSchema } from "@/lib/schemas";
+import {
+  createTranslationVersion,
+  listTranslationVersions,
+} from "@/lib/versions/store";
+import type { TranslationVersionsResponse } from "@/types/versions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/threads/[threadId]/versions
+ * Saved versions of the thread's translation, newest first (without lines).
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  if (!(await getThreadAccess(sb, threadId, user.id))) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+
+  try {
+    const body: TranslationVersionsResponse = {
+      versions: await listTranslationVersions(sb, threadId),
+    };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    console.error("[/api/threads/versions] GET", e);
+    return err(500, "INTERNAL", "Failed to load versions.");
+  }
+}
+
+/**
+ * POST /api/threads/[threadId]/versions
+ * Save a named snapshot (createVersionSchema): `{ projectId, title, lines,
+ * tags?, meta?, summary? }`. `projectId` must be the thread's project.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = createVersionSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid version", {
+      details: parsed.error.issues,
+    });
+  }
+
+  const guard = await requireThreadWrite(sb, threadId, user.id);
+  if ("res" in guard) return guard.res;
+
+  const { data: thread } = await sb
+    .from("chat_threads")
+    .select("id, project_id")
+    .eq("id", threadId)
+    .maybeSingle();
+  if (!thread) {
+    return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+  }
+  if (thread.project_id !== parsed.data.projectId) {
+    return err(400, "PROJECT_MISMATCH", "The thread does not belong to this project.");
+  }
+
+  try {
+    const version = await createTranslationVersion(sb, {
+      threadId,
+      userId: user.id,
+      ...parsed.data,
+    });
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (e: unknown) {
+    console.error("[/api/threads/versions] POST", e);
+    return err(500, "INTERNAL", "Failed to save the version.");
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { findTranslationMemoryMatches } from "@/lib/translationMemory/store";
+import type { TranslationMemoryMatchesResponse } from "@/types/translationMemory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const BodySchema = z.object({
+  threadId: z.string().uuid(),
+  segments: z.array(z.string().max(2000)).min(1).max(100),
+  minPercent: z.number().int().min(1).max(100).optional(),
+  limit: z.number().int().min(1).max(10).optional(),
+});
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * POST /api/translation-memory/matches
+ * Fuzzy matches from the caller's translation memory for each source
+ * segment, excluding lines saved in the requesting thread. Returns
+ * `enabled: false` (and no matches) when the thread turned memory off.
+ */
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const log = (...a: unknown[]) =>
+    console.log("[/api/translation-memory/matches] POST", requestId, ...a);
+
+  try {
+    const { user, response, sb } = await requireUser();
+    if (!user) {
+      log("unauthorized");
+      return response;
+    }
+
+    const parsed = BodySchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      log("bad body", parsed.error.message);
+      return err(400, "BAD_BODY", "Invalid request body", {
+        details: parsed.error.issues,
+      });
+    }
+    const { threadId, segments, minPercent, limit } = parsed.data;
+
+    const { data: thread, error: threadError } = await sb
+      .from("chat_threads")
+      .select("id, created_by, translation_memory_enabled")
+      .eq("id", threadId)
+      .single();
+
+    if (threadError || !thread) {
+      log("thread_not_found", threadError?.message);
+      return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+    }
+
+    if (thread.created_by !== user.id) {
+      log("forbidden", { userId: user.id, owner: thread.created_by });
+      return err(403, "FORBIDDEN", "You do not have access to this thread.");
+    }
+
+    if (thread.translation_memory_enabled === false) {
+      const body: TranslationMemoryMatchesResponse = {
+        enabled: false,
+        matches: segments.map(() => []),
+      };
+      return NextResponse.json(body);
+    }
+
+    const matches = await findTranslationMemoryMatches(sb, segments, {
+      excludeThreadId: threadId,
+      minPercent,
+      limit,
+    });
+    const body: TranslationMemoryMatchesResponse = { enabled: true, matches };
+    return NextResponse.json(body);
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    log("fatal", message);
+    return err(500, "INTERNAL", "Failed to look up translation memory.");
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireCalibrationReviewer } from "@/lib/verification/calibrationAccess";
+import { loadCalibrationQueue } from "@/lib/verification/calibrationStore";
+
+/**
+ * Lines waiting for the caller's blind grade. Model scores and other
+ * reviewers' ratings are never included.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const guard = await requireCalibrationReviewer();
+    if ("res" in guard) return guard.res;
+
+    const limit = Math.min(
+      Math.max(parseInt(request.nextUrl.searchParams.get("limit") || "10") || 10, 1),
+      50
+    );
+    const queue = await loadCalibrationQueue(guard.user.id, limit);
+    return NextResponse.json(queue);
+  } catch (err) {
+    console.error("[verification/calibration/queue]", requestId, "Error:", err);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Failed to load queue" } },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
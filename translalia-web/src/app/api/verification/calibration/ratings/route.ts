@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireCalibrationReviewer } from "@/lib/verification/calibrationAccess";
+import { saveCalibrationRating } from "@/lib/verification/calibrationStore";
+
+// null: the dimension does not apply to this line (e.g. rhythm not requested)
+const score = z.number().min(0).max(10).nullable();
+
+const ratingSchema = z.object({
+  itemId: z.string().uuid(),
+  scores: z.object({
+    semantic_accuracy: score,
+    cultural_fidelity: score,
+    rhythm_prosody: score,
+    register_tone: score,
+    dialect_preservation: score,
+    option_quality: score,
+  }),
+  notes: z.string().max(2000).optional(),
+});
+
+/**
+ * Save the caller's blind grade of a calibration item; grading the same item
+ * again replaces it.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const guard = await requireCalibrationReviewer();
+    if ("res" in guard) return guard.res;
+
+    const body = await request.json();
+    const rating = ratingSchema.parse(body);
+
+    const saved = await saveCalibrationRating({
+      itemId: rating.itemId,
+      reviewerId: guard.user.id,
+      scores: rating.scores,
+      notes: rating.notes?.trim() || null,
+    });
+    if (!saved) {
+      return NextResponse.json(
+        { error: { code: "NOT_FOUND", message: "Calibration item not found" } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: err.message } },
+        { status: 400 }
+      );
+    }
+    console.error("[verification/calibration/ratings]", requestId, "Error:", err);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Failed to save rating" } },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { buildCalibrationReport } from "@/lib/verification/calibration";
+import { requireCalibrationReviewer } from "@/lib/verification/calibrationAccess";
+import {
+  loadCalibrationSamples,
+  sampleCalibrationItems,
+} from "@/lib/verification/calibrationStore";
+
+const sampleRequestSchema = z.object({
+  size: z.number().int().min(1).max(100).default(20),
+  since: z.string().datetime().optional(),
+});
+
+/**
+ * GET: Track A calibration report (reviewer agreement, model-vs-human
+ * correlation per dimension, weekly drift).
+ */
+export async function GET() {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const guard = await requireCalibrationReviewer();
+    if ("res" in guard) return guard.res;
+
+    const samples = await loadCalibrationSamples();
+    return NextResponse.json(buildCalibrationReport(samples));
+  } catch (err) {
+    console.error("[verification/calibration]", requestId, "GET error:", err);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Calibration report failed" } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST: sample `size` more graded lines (optionally graded after `since`)
+ * into the calibration set.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const guard = await requireCalibrationReviewer();
+    if ("res" in guard) return guard.res;
+
+    const body = await request.json().catch(() => ({}));
+    const params = sampleRequestSchema.parse(body);
+
+    const added = await sampleCalibrationItems({
+      size: params.size,
+      since: params.since,
+      sampledBy: guard.user.id,
+    });
+
+    console.log("[verification/calibration]", requestId, `Sampled ${added} items`);
+    return NextResponse.json({ success: true, added });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: err.message } },
+        { status: 400 }
+      );
+    }
+    console.error("[verification/calibration]", requestId, "POST error:", err);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Sampling failed" } },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { requireUser } from "@/lib/auth/requireUser";
 import { getServerClient } from "@/lib/supabaseServer";
-import { openai } from "@/lib/ai/openai";
+import { getClientForModel, providerIdForModel } from "@/lib/ai/openai";
 import { isDeepSeekBlocked } from "@/lib/ai/deepseekAccess";
 import { CONTEXT_MODEL } from "@/lib/models";
 import {
@@ -19,6 +19,8 @@ import {
   VerificationErrorCode,
 } from "@/lib/verification/errorHandler";
 import { recordMetric, createTimer } from "@/lib/verification/monitoring";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 type GuideAnswersState = {
   translationModel?: string | null;
@@ -49,7 +51,11 @@ interface ContextNotesResponse {
   considerations: string[];
 }
 
-export async function POST(request: NextRequest) {
+export function POST(request: NextRequest) {
+  return withRouteMetrics("verification/context-notes", () => handlePost(request));
+}
+
+async function handlePost(request: NextRequest) {
   const requestId = crypto.randomUUID();
   const timer = createTimer();
   console.log(
@@ -109,6 +115,9 @@ export async function POST(request: NextRequest) {
     const { threadId, lineIndex, tokenIndex, wordOptions } =
       contextRequestSchema.parse(body);
 
+    const budget = await requireAiBudget({ userId: user.id, threadId });
+    if ("res" in budget) return budget.res;
+
     console.log("[verification/context-notes]", requestId, {
       threadId,
       lineIndex,
@@ -299,7 +308,10 @@ export async function POST(request: NextRequest) {
       "Calling context model"
     );
 
-    const completion = await openai.chat.completions.create({
+    const completion = await getClientForModel(
+      CONTEXT_MODEL,
+      "line-verification-context"
+    ).chat.completions.create({
       model: CONTEXT_MODEL,
       messages: [
         { role: "system", content: prompt.system },
@@ -356,7 +368,7 @@ export async function POST(request: NextRequest) {
         projectId: thread.project_id ?? null,
         threadId: threadId,
         stage: "line-verification-context", // May need DB update
-        provider: "openai",
+        provider: providerIdForModel(CONTEXT_MODEL),
         model: CONTEXT_MODEL,
         params: {
           lineIndex,
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { getServerClient } from "@/lib/supabaseServer";
-import { openai } from "@/lib/ai/openai";
+import { getClientForModel, providerIdForModel } from "@/lib/ai/openai";
 import { VERIFICATION_MODEL } from "@/lib/models";
 import {
   buildVerificationPrompt,
@@ -20,13 +21,19 @@ import {
   VerificationErrorCode,
 } from "@/lib/verification/errorHandler";
 import { recordMetric, createTimer } from "@/lib/verification/monitoring";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 const gradeRequestSchema = z.object({
   threadId: z.string().uuid(),
   lineIndex: z.number().int().min(0),
 });
 
-export async function POST(request: NextRequest) {
+export function POST(request: NextRequest) {
+  return withRouteMetrics("verification/grade-line", () => handlePost(request));
+}
+
+async function handlePost(request: NextRequest) {
   const requestId = crypto.randomUUID();
   const timer = createTimer();
   console.log("[verification/grade-line]", requestId, "Starting verification");
@@ -96,6 +103,9 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { threadId, lineIndex } = gradeRequestSchema.parse(body);
 
+    const budget = await requireAiBudget({ userId: user.id, threadId });
+    if ("res" in budget) return budget.res;
+
     console.log("[verification/grade-line]", requestId, {
       threadId,
       lineIndex,
@@ -137,6 +147,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const guard = await requireThreadWrite(supabase, threadId, user.id);
+    if ("res" in guard) return guard.res;
+
     // 5. Extract state data
     const state = (thread.state as any) || {};
     const { guide_answers, poem_analysis, workshop_lines } = state;
@@ -222,7 +235,10 @@ export async function POST(request: NextRequest) {
       "Calling verification model"
     );
 
-    const gradingResponse = await openai.chat.completions.create({
+    const gradingResponse = await getClientForModel(
+      VERIFICATION_MODEL,
+      "line-verification-internal"
+    ).chat.completions.create({
       model: VERIFICATION_MODEL,
       messages: [
         { role: "system", content: prompt.system },
@@ -290,7 +306,7 @@ export async function POST(request: NextRequest) {
       projectId: thread.project_id ?? null,
       threadId: threadId,
       stage: "line-verification-internal", // May need DB update to allow this stage
-      provider: "openai",
+      provider: providerIdForModel(VERIFICATION_MODEL),
       model: VERIFICATION_MODEL,
       params: {
         lineIndex,
@@ -6,9 +6,12 @@ import { checkRateLimit } from "@/lib/ratelimit/redis";
 import {
   LineSuggestionsRequestSchema,
   type LineSuggestionsRequest,
+  variantTextList,
 } from "@/lib/ai/suggestions/suggestionsSchemas";
 import { generateLineSuggestions } from "@/lib/ai/suggestions/suggestionsService";
 import { isDeepSeekBlocked } from "@/lib/ai/deepseekAccess";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 type GuideAnswersState = {
   translationModel?: string | null;
@@ -21,14 +24,16 @@ type GuideAnswersState = {
 function hasAnchorTokens(payload: LineSuggestionsRequest): boolean {
   const anchors = [
     payload.targetLineDraft ?? "",
-    payload.variantFullTexts?.A ?? "",
-    payload.variantFullTexts?.B ?? "",
-    payload.variantFullTexts?.C ?? "",
+    ...variantTextList(payload.variantFullTexts),
   ].filter((t) => t.trim().length > 0);
   return anchors.some((text) => tokenize(text).length > 0);
 }
 
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("workshop/additional-suggestions", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   const { user, response } = await requireUser();
   if (!user) return response;
 
@@ -63,6 +68,9 @@ export async function POST(req: Request) {
       );
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId: parsed.threadId });
+    if ("res" in budget) return budget.res;
+
     if (!parsed.targetLanguage?.trim()) {
       return NextResponse.json(
         { ok: false, reason: "target_language_missing" },
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import { findForeignLock } from "@/lib/collab/relay";
+import { patchThreadStateField } from "@/server/guide/updateGuideState";
+import { updateVariantAlignment } from "@/lib/workshop/jobState";
+import { MAX_VARIANT_COUNT } from "@/lib/ai/variantCount";
+import type { WorkshopLineWithVerification } from "@/types/verification";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const AlignedWordSchema = z.object({
+  original: z.string(),
+  translation: z.string(),
+  partOfSpeech: z.string(),
+  position: z.number().int().min(0),
+  sourceIndices: z.array(z.number().int().min(0)).optional(),
+  targetIndices: z.array(z.number().int().min(0)).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  manual: z.boolean().optional(),
+});
+
+const BodySchema = z.object({
+  threadId: z.string().uuid(),
+  lineIndex: z.number().int().min(0),
+  /** Generated variant to correct; null for the line's saved translation */
+  variant: z.number().int().min(1).max(MAX_VARIANT_COUNT).nullable(),
+  words: z.array(AlignedWordSchema).max(200),
+});
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+function savedLine(state: unknown, lineIndex: number): WorkshopLineWithVerification | null {
+  const workshopLines = (state as Record<string, unknown> | null)?.workshop_lines;
+  if (!workshopLines || typeof workshopLines !== "object") return null;
+  const line = (workshopLines as Record<string, unknown>)[String(lineIndex)];
+  return line && typeof line === "object" ? (line as WorkshopLineWithVerification) : null;
+}
+
+/**
+ * PUT /api/workshop/alignment
+ * Save a corrected word alignment, either for a generated variant (stored on
+ * the job line) or for the line's saved translation (state.workshop_lines).
+ * A variant correction also updates the saved line when it holds that variant.
+ */
+export async function PUT(req: Request) {
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = BodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", "Invalid request body", { details: parsed.error.issues });
+  }
+  const { threadId, lineIndex, variant, words } = parsed.data;
+
+  const guard = await requireThreadWrite(sb, threadId, user.id);
+  if ("res" in guard) return guard.res;
+
+  const foreignLock = await findForeignLock(threadId, user.id, lineIndex);
+  if (foreignLock) {
+    return err(409, "LINE_LOCKED", `${foreignLock.name} is editing this line`, {
+      holder: foreignLock,
+    });
+  }
+
+  try {
+    const { data: thread, error: threadError } = await sb
+      .from("chat_threads")
+      .select("state")
+      .eq("id", threadId)
+      .single();
+    if (threadError || !thread) {
+      return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+    }
+    const saved = savedLine(thread.state, lineIndex);
+
+    let syncSaved = variant === null;
+    if (variant !== null) {
+      const line = await updateVariantAlignment(threadId, lineIndex, variant, words);
+      if (!line) {
+        return err(404, "LINE_NOT_FOUND", "No generated translation for this line and variant.");
+      }
+      const fullText = line.translations.find((t) => t.variant === variant)?.fullText;
+      syncSaved = !!saved && saved.translated.trim() === fullText?.trim();
+    } else if (!saved) {
+      return err(404, "LINE_NOT_FOUND", "This line has no saved translation.");
+    }
+
+    if (syncSaved) {
+      const result = await patchThreadStateField(
+        threadId,
+        ["workshop_lines", String(lineIndex), "alignment"],
+        words
+      );
+      if (!result.success) {
+        return err(500, "SAVE_FAILED", result.error);
+      }
+    }
+
+    return NextResponse.json({ ok: true, lineIndex, variant, words });
+  } catch (e: unknown) {
+    console.error("[/api/workshop/alignment] PUT", e);
+    return err(500, "INTERNAL", "Failed to save alignment.");
+  }
+}
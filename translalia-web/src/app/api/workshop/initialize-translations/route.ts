@@ -2,24 +2,33 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 
 import { requireUser } from "@/lib/auth/requireUser";
-import { getUpstashRedis } from "@/lib/ai/cache";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import { lockHelper } from "@/lib/ai/cache";
 import {
   createTranslationJob,
   getTranslationJob,
 } from "@/lib/workshop/jobState";
 import { loadThreadContext } from "@/lib/workshop/runTranslationTick";
 import { summarizeTranslationJob } from "@/lib/workshop/translationProgress";
+import { isLongFormSplit } from "@/lib/poem/sections";
 import {
   deactivateTranslationJob,
   enqueueTranslationJob,
+  queueModelOf,
 } from "@/lib/workshop/translationQueue";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 const RequestSchema = z.object({
   threadId: z.string().uuid(),
   runInitialTick: z.boolean().optional().default(false), // Changed: default false for fast response
 });
 
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("workshop/initialize-translations", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   console.log("[HIT] initialize-translations");
   const { user, response, sb } = await requireUser();
   if (!user) return response;
@@ -60,15 +69,23 @@ export async function POST(req: Request) {
     );
   }
 
+  const guard = await requireThreadWrite(sb, threadId, user.id);
+  if ("res" in guard) return guard.res;
+
+  const budget = await requireAiBudget({ userId: user.id, threadId });
+  if ("res" in budget) return budget.res;
+
   const context = await loadThreadContext(threadId, {
     authorizedEmail: user.email,
   });
 
-  // Safety limit: reject poems that are too large for translation
-  const MAX_POEM_LINES = parseInt(
-    process.env.MAX_POEM_LINES_FOR_TRANSLATION || "200",
-    10
-  );
+  // Safety limit: reject poems that are too large for translation. Long-form
+  // works get a higher limit; the saved outline is client state, so the
+  // stored poem is re-split here and must match the saved stanzas.
+  const longForm = isLongFormSplit(context.rawPoem, context.stanzaResult.stanzas);
+  const MAX_POEM_LINES = longForm
+    ? parseInt(process.env.MAX_LONG_FORM_LINES_FOR_TRANSLATION || "2000", 10)
+    : parseInt(process.env.MAX_POEM_LINES_FOR_TRANSLATION || "200", 10);
   const totalLines = context.stanzaResult.stanzas.reduce(
     (sum: number, s: { lines: unknown[] }) => sum + (s.lines?.length ?? 0),
     0
@@ -84,7 +101,7 @@ export async function POST(req: Request) {
 
   // Detect model change so we can force-clear the old tick's resources after
   // the new job is created. workshop_lines cleanup is handled atomically
-  // inside createTranslationJob (same writeThreadState call) to avoid
+  // inside createTranslationJob (same translation_job_replace transaction) to avoid
   // interleaving with the old tick's writes.
   const existingJob = await getTranslationJob(threadId);
   const requestedModel = (context.guideAnswers as Record<string, unknown>)?.translationModel;
@@ -112,22 +129,20 @@ export async function POST(req: Request) {
   );
 
   // When replacing an in-progress job (model switch), the old tick may still
-  // hold the per-thread Redis lock and occupy the queue active set. Force-clear
+  // hold the per-thread tick lock and occupy the queue active set. Force-clear
   // both so the new job can be enqueued and processed immediately.
-  // Safety: the OCC version check in writeThreadState catches any stale writes
-  // from the old tick — it will fail with "Translation job modified concurrently"
+  // Safety: the row version checks in translation_job_apply catch any stale
+  // writes from the old tick (its job rows are gone) — it will fail with
+  // "Translation job modified concurrently"
   // and stop gracefully.
   let alreadyEnqueued = false;
 
   if (modelChanged) {
     try {
-      const redis = await getUpstashRedis();
-      if (redis) {
-        // 1. Release the tick lock so the old tick can't block the new job
-        const tickKey = `tick:${threadId}`;
-        await (redis as { del: (key: string) => Promise<number> }).del(tickKey);
-        console.log(`[initialize-translations] Force-released tick lock: ${tickKey}`);
-      }
+      // 1. Release the tick lock so the old tick can't block the new job
+      const tickKey = `tick:${threadId}`;
+      await lockHelper.forceRelease(tickKey);
+      console.log(`[initialize-translations] Force-released tick lock: ${tickKey}`);
     } catch (error) {
       // Non-fatal: lock will expire via its 10-minute TTL naturally
       console.warn("[initialize-translations] Failed to force-release tick lock:", error);
@@ -137,7 +152,11 @@ export async function POST(req: Request) {
       // 2. Remove from queue active set so re-enqueue is accepted
       await deactivateTranslationJob(threadId);
       // 3. Enqueue the new job for processing
-      const result = await enqueueTranslationJob(threadId, { userId: user.id });
+      const result = await enqueueTranslationJob(threadId, {
+        userId: user.id,
+        model: queueModelOf(context.guideAnswers as Record<string, unknown>),
+        lines: totalLines,
+      });
       alreadyEnqueued = true;
       if (!result.enqueued) {
         console.warn(`[initialize-translations] Re-enqueue after model change rejected: ${result.reason}`);
@@ -152,6 +171,8 @@ export async function POST(req: Request) {
   if (!alreadyEnqueued) {
     const enqueueResult = await enqueueTranslationJob(threadId, {
       userId: user.id,
+      model: queueModelOf(context.guideAnswers as Record<string, unknown>),
+      lines: totalLines,
     }).catch((error) => {
       console.error("[initialize-translations] Failed to enqueue job:", error);
       return { enqueued: false, reason: "error" } as const;
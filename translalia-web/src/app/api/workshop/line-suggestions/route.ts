@@ -8,8 +8,11 @@ import { tokenize } from "@/lib/ai/textNormalize";
 import {
   LineSuggestionsRequestSchema,
   type LineSuggestionsRequest,
+  variantTextList,
 } from "@/lib/ai/suggestions/suggestionsSchemas";
 import { generateLineSuggestions } from "@/lib/ai/suggestions/suggestionsService";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 const CACHE_TTL_SECONDS = 3600;
 const SUGGESTION_RATE_LIMIT = parseInt(
@@ -60,9 +63,7 @@ function hashPayload(payload: unknown): string {
 function hasAnchorTokens(payload: LineSuggestionsRequest): boolean {
   const anchors = [
     payload.targetLineDraft ?? "",
-    payload.variantFullTexts?.A ?? "",
-    payload.variantFullTexts?.B ?? "",
-    payload.variantFullTexts?.C ?? "",
+    ...variantTextList(payload.variantFullTexts),
     payload.sourceLine ?? "",
     payload.currentLine ?? "",
   ].filter((t) => t.trim().length > 0);
@@ -77,7 +78,11 @@ type GuideAnswersState = {
   sourceLanguageVariety?: string | null;
 };
 
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("workshop/line-suggestions", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   const { user, response } = await requireUser();
   if (!user) return response;
 
@@ -128,6 +133,9 @@ export async function POST(req: Request) {
       );
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId: parsed.threadId });
+    if ("res" in budget) return budget.res;
+
     // Verify thread ownership and fetch guide answers
     const supabase = await supabaseServer();
     const { data: thread, error: threadError } = await supabase
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth/requireUser";
+import { supabaseServer } from "@/lib/supabaseServer";
+import type { LineTrace, LineTracesResponse } from "@/types/lineTrace";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const GetQuerySchema = z.object({
+  threadId: z.string().uuid(),
+  lineIndex: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+function ok(data: LineTracesResponse, status = 200) {
+  return NextResponse.json(data, { status });
+}
+
+function err(status: number, code: string, message: string, extra?: object) {
+  return NextResponse.json({ error: { code, message, ...extra } }, { status });
+}
+
+/**
+ * GET /api/workshop/line-traces?threadId=...&lineIndex=...&limit=...
+ * Recorded Method 1 and Method 2 traces for one line (newest first), plus the
+ * indices of every traced line so the tuning view can step between them.
+ */
+export async function GET(req: NextRequest) {
+  const requestId = crypto.randomUUID();
+  const log = (...a: unknown[]) =>
+    console.log("[/api/workshop/line-traces] GET", requestId, ...a);
+
+  try {
+    const { user, response } = await requireUser();
+    if (!user) {
+      log("unauthorized");
+      return response;
+    }
+
+    const { searchParams } = new URL(req.url);
+    let validatedQuery: z.infer<typeof GetQuerySchema>;
+    try {
+      validatedQuery = GetQuerySchema.parse({
+        threadId: searchParams.get("threadId"),
+        lineIndex: searchParams.get("lineIndex") ?? undefined,
+        limit: searchParams.get("limit") ?? undefined,
+      });
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      log("bad query", message);
+      return err(400, "BAD_QUERY", "Invalid query parameters", {
+        details: message,
+      });
+    }
+
+    const supabase = await supabaseServer();
+    const { data: thread, error: threadError } = await supabase
+      .from("chat_threads")
+      .select("id, title, created_by")
+      .eq("id", validatedQuery.threadId)
+      .single();
+
+    if (threadError || !thread) {
+      log("thread_not_found", threadError?.message);
+      return err(404, "THREAD_NOT_FOUND", "Thread not found.");
+    }
+
+    if (thread.created_by !== user.id) {
+      log("forbidden", { userId: user.id, owner: thread.created_by });
+      return err(403, "FORBIDDEN", "You do not have access to this thread.");
+    }
+
+    const [tracesResult, linesResult] = await Promise.all([
+      supabase
+        .from("line_traces")
+        .select("trace")
+        .eq("thread_id", validatedQuery.threadId)
+        .eq("line_index", validatedQuery.lineIndex)
+        .order("created_at", { ascending: false })
+        .limit(validatedQuery.limit),
+      supabase
+        .from("line_traces")
+        .select("line_index")
+        .eq("thread_id", validatedQuery.threadId)
+        .limit(5000),
+    ]);
+
+    if (tracesResult.error || linesResult.error) {
+      const message =
+        tracesResult.error?.message ?? linesResult.error?.message;
+      log("trace_fetch_failed", message);
+      return err(500, "DB_ERROR", "Failed to load line traces.", {
+        details: message,
+      });
+    }
+
+    const traces = (tracesResult.data ?? []).map(
+      (row) => row.trace as LineTrace
+    );
+    const tracedLines = Array.from(
+      new Set((linesResult.data ?? []).map((row) => row.line_index as number))
+    ).sort((a, b) => a - b);
+
+    log("success", {
+      lineIndex: validatedQuery.lineIndex,
+      traces: traces.length,
+      tracedLines: tracedLines.length,
+    });
+
+    return ok({
+      thread: { id: thread.id, title: thread.title ?? null },
+      lineIndex: validatedQuery.lineIndex,
+      traces,
+      tracedLines,
+    });
+  } catch (e: unknown) {
+    console.error("[/api/workshop/line-traces] GET fatal", e);
+    return err(500, "INTERNAL", "Internal server error");
+  }
+}
@@ -2,12 +2,18 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 
 import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { supabaseServer } from "@/lib/supabaseServer";
 import {
   getTranslationJob,
   updateTranslationJob,
 } from "@/lib/workshop/jobState";
 import { runTranslationTick } from "@/lib/workshop/runTranslationTick";
+import {
+  enqueueTranslationJob,
+  queueModelOf,
+} from "@/lib/workshop/translationQueue";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
 
 const RequestSchema = z.object({
   threadId: z.string().uuid(),
@@ -16,7 +22,11 @@ const RequestSchema = z.object({
   runImmediately: z.boolean().optional().default(true),
 });
 
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("workshop/requeue-stanza", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   const { user, response } = await requireUser();
   if (!user) return response;
 
@@ -38,26 +48,10 @@ export async function POST(req: Request) {
 
   const { threadId, stanzaIndex, clearLines, runImmediately } = body;
 
+  // Owner or collaborator, and not a locked submission
   const supabase = await supabaseServer();
-  const { data: thread, error: threadError } = await supabase
-    .from("chat_threads")
-    .select("id, created_by")
-    .eq("id", threadId)
-    .single();
-
-  if (threadError || !thread) {
-    return NextResponse.json(
-      { error: "Thread not found or unauthorized" },
-      { status: 404 }
-    );
-  }
-
-  if (thread.created_by !== user.id) {
-    return NextResponse.json(
-      { error: "You do not have access to this thread" },
-      { status: 403 }
-    );
-  }
+  const guard = await requireThreadWrite(supabase, threadId, user.id);
+  if ("res" in guard) return guard.res;
 
   const job = await getTranslationJob(threadId);
   if (!job) {
@@ -130,6 +124,21 @@ export async function POST(req: Request) {
 
   const updatedJob = await getTranslationJob(threadId);
 
+  // Hand the remaining work to the worker ahead of bulk work
+  if (
+    updatedJob &&
+    updatedJob.status !== "completed" &&
+    updatedJob.status !== "failed"
+  ) {
+    await enqueueTranslationJob(threadId, {
+      userId: user.id,
+      model: queueModelOf(updatedJob.guide_preferences),
+      priority: "interactive",
+    }).catch((error) =>
+      console.warn("[requeue-stanza] Interactive enqueue failed:", error)
+    );
+  }
+
   return NextResponse.json({
     ok: true,
     job: updatedJob,
@@ -10,6 +10,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 
 import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { checkRateLimit } from "@/lib/ratelimit/redis";
 import {
@@ -21,7 +22,10 @@ import { translateLineWithRecipesInternal } from "@/lib/translation/method2/tran
 import type { GuideAnswers } from "@/store/guideSlice";
 import { isDeepSeekBlocked } from "@/lib/ai/deepseekAccess";
 import type { StanzaDetectionResult } from "@/lib/poem/stanzaDetection";
+import { getSectionContext } from "@/lib/poem/sections";
 import type { LineQualityMetadata } from "@/types/translationJob";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 const RequestSchema = z.object({
   threadId: z.string().uuid(),
@@ -47,7 +51,11 @@ interface SuccessResponse {
   };
 }
 
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("workshop/retry-line", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   const { user, response } = await requireUser();
   if (!user) return response;
 
@@ -85,13 +93,15 @@ export async function POST(req: Request) {
       );
     }
 
-    // Verify thread ownership and load context
+    const budget = await requireAiBudget({ userId: user.id, threadId });
+    if ("res" in budget) return budget.res;
+
+    // Load context; the guard below admits the owner and collaborators
     const supabase = await supabaseServer();
     const { data: thread, error: threadError } = await supabase
       .from("chat_threads")
-      .select("id, state, created_by, project_id, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, raw_poem")
+      .select("id, state, created_by, project_id, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, variant_count, raw_poem")
       .eq("id", threadId)
-      .eq("created_by", user.id)
       .single();
 
     if (threadError || !thread) {
@@ -101,6 +111,9 @@ export async function POST(req: Request) {
       );
     }
 
+    const guard = await requireThreadWrite(supabase, threadId, user.id);
+    if ("res" in guard) return guard.res;
+
     // Get thread context from columns (with JSONB fallback for legacy data)
     const state = (thread.state as Record<string, unknown>) || {};
     const guideAnswersState =
@@ -122,6 +135,8 @@ export async function POST(req: Request) {
         thread.source_language_variety ??
         guideAnswersState.sourceLanguageVariety ??
         null,
+      variantCount:
+        thread.variant_count ?? guideAnswersState.variantCount,
     };
 
     // Cost gate: DeepSeek is restricted to allowlisted accounts. Reject rather
@@ -208,7 +223,7 @@ export async function POST(req: Request) {
         if (
           line.translationStatus === "translated" &&
           line.translations &&
-          line.translations.length === 3 &&
+          line.translations.length > 0 &&
           !line.translations.some((t) => !t.fullText || t.fullText.trim() === "")
         ) {
           return NextResponse.json(
@@ -259,6 +274,7 @@ export async function POST(req: Request) {
       : "the target language";
     const selectedModel = guideAnswers.translationModel;
     const translationMethod = guideAnswers.translationMethod ?? "method-2";
+    const sectionContext = getSectionContext(stanzaResult, stanzaIndex);
 
     console.log(
       `[retry-line] Retrying line ${lineNumber} in stanza ${stanzaIndex} using ${translationMethod}`
@@ -282,6 +298,7 @@ export async function POST(req: Request) {
           model: selectedModel,
           auditUserId: user.id,
           auditProjectId: thread.project_id ?? null,
+          sectionContext,
         });
       } else {
         lineTranslation = await translateLineInternal({
@@ -296,6 +313,7 @@ export async function POST(req: Request) {
           sourceLanguage,
           targetLanguage,
           modelOverride: selectedModel,
+          sectionContext,
           audit: {
             createdBy: user.id,
             projectId: thread.project_id ?? null,
@@ -0,0 +1,100 @@
+/**
+ * Collaborators may retry a failed chunk of a thread they were added to: the
+ * route admits them through requireThreadWrite instead of matching
+ * chat_threads.created_by, then loads and updates the job as the caller
+ * (RLS on the job tables admits collaborators via is_thread_collaborator).
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { tables, jobState } = vi.hoisted(() => ({
+  tables: {} as Record<string, unknown>,
+  jobState: {
+    getTranslationJob: vi.fn(),
+    updateStanzaStatus: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/auth/requireUser", () => ({
+  requireUser: async () => ({
+    user: { id: "collaborator-1", email: "c@example.com" },
+    response: null,
+  }),
+}));
+vi.mock("@/lib/supabaseServer", () => ({
+  // Every table answers its single row to any select/eq chain
+  supabaseServer: async () => ({
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        single: async () => ({ data: tables[table] ?? null, error: null }),
+        maybeSingle: async () => ({ data: tables[table] ?? null, error: null }),
+      };
+      return query;
+    },
+  }),
+}));
+vi.mock("@/lib/workshop/jobState", () => jobState);
+vi.mock("@/lib/workshop/runTranslationTick", () => ({
+  runTranslationTick: vi.fn(async () => null),
+}));
+vi.mock("@/lib/workshop/translationQueue", () => ({
+  enqueueTranslationJob: vi.fn(async () => ({ enqueued: true })),
+  queueModelOf: () => undefined,
+}));
+
+import { POST } from "./route";
+
+const THREAD_ID = "11111111-1111-1111-1111-111111111111";
+
+function failedJob() {
+  return {
+    status: "processing",
+    processing_status: { completed: 0, processing: 0, queued: 0, failed: 1 },
+    chunks: {
+      0: { status: "failed", retries: 1, maxRetries: 3, error_history: [] },
+    },
+  };
+}
+
+function retry() {
+  return POST(
+    new Request("http://localhost/api/workshop/retry-stanza", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ threadId: THREAD_ID, stanzaIndex: 0 }),
+    })
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  tables.chat_threads = { id: THREAD_ID, created_by: "owner-1" };
+  tables.thread_collaborators = { user_id: "collaborator-1" };
+  tables.assignment_submissions = null;
+  jobState.getTranslationJob.mockResolvedValue(failedJob());
+  jobState.updateStanzaStatus.mockImplementation(async () => failedJob());
+});
+
+describe("POST /api/workshop/retry-stanza", () => {
+  it("lets a collaborator load the job and requeue a failed chunk", async () => {
+    const res = await retry();
+
+    expect(res.status).toBe(200);
+    expect(jobState.getTranslationJob).toHaveBeenCalledWith(THREAD_ID);
+    expect(jobState.updateStanzaStatus).toHaveBeenCalledWith(
+      THREAD_ID,
+      0,
+      expect.objectContaining({ status: "queued", retries: 2 })
+    );
+  });
+
+  it("returns 404 to users who are neither owner nor collaborator", async () => {
+    tables.thread_collaborators = null;
+
+    const res = await retry();
+
+    expect(res.status).toBe(404);
+    expect(jobState.updateStanzaStatus).not.toHaveBeenCalled();
+  });
+});
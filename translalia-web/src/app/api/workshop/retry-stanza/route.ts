@@ -10,12 +10,18 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 
 import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { supabaseServer } from "@/lib/supabaseServer";
 import {
   getTranslationJob,
   updateStanzaStatus,
 } from "@/lib/workshop/jobState";
 import { runTranslationTick } from "@/lib/workshop/runTranslationTick";
+import {
+  enqueueTranslationJob,
+  queueModelOf,
+} from "@/lib/workshop/translationQueue";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
 
 const RequestSchema = z.object({
   threadId: z.string().uuid(),
@@ -47,7 +53,11 @@ interface SuccessResponse {
   };
 }
 
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("workshop/retry-stanza", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   const { user, response } = await requireUser();
   if (!user) return response;
 
@@ -67,21 +77,10 @@ export async function POST(req: Request) {
 
     const { threadId, stanzaIndex } = validation.data;
 
-    // Verify thread ownership and load job state
+    // Owner or collaborator, and not a locked submission
     const supabase = await supabaseServer();
-    const { data: thread, error: threadError } = await supabase
-      .from("chat_threads")
-      .select("id, state")
-      .eq("id", threadId)
-      .eq("created_by", user.id)
-      .single();
-
-    if (threadError || !thread) {
-      return NextResponse.json(
-        { error: "Thread not found or unauthorized" } as ErrorResponse,
-        { status: 404 }
-      );
-    }
+    const guard = await requireThreadWrite(supabase, threadId, user.id);
+    if ("res" in guard) return guard.res;
 
     // Get current job
     const job = await getTranslationJob(threadId);
@@ -171,6 +170,17 @@ export async function POST(req: Request) {
     // Get updated job state
     const finalJob = await getTranslationJob(threadId);
 
+    // Hand what the short tick left to the worker ahead of bulk work
+    if (finalJob && finalJob.status !== "completed" && finalJob.status !== "failed") {
+      await enqueueTranslationJob(threadId, {
+        userId: user.id,
+        model: queueModelOf(finalJob.guide_preferences),
+        priority: "interactive",
+      }).catch((enqueueError) =>
+        console.warn("[retry-stanza] Interactive enqueue failed:", enqueueError)
+      );
+    }
+
     return NextResponse.json(
       {
         success: true,
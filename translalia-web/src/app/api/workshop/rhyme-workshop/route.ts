@@ -29,10 +29,11 @@ import {
 import {
   fetchRhymes,
   fetchRhymesForLineEndings,
-  getRhymeSound,
   findRhymePairs,
 } from "@/lib/rhyme/rhymeService";
 import { analyzeLineSound, extractLineEnding } from "@/lib/rhyme/soundAnalysis";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -61,7 +62,11 @@ function ok<T>(data: T & { ok: true }, status = 200) {
   return NextResponse.json<T & { ok: true }>(data, { status });
 }
 
-export async function POST(req: NextRequest) {
+export function POST(req: NextRequest) {
+  return withRouteMetrics("workshop/rhyme-workshop", () => handlePost(req));
+}
+
+async function handlePost(req: NextRequest) {
   const requestId = crypto.randomUUID();
   const started = Date.now();
   const log = (...a: unknown[]) =>
@@ -107,6 +112,9 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId: body.threadId });
+    if ("res" in budget) return budget.res;
+
     // 4) Verify thread ownership
     const supabase = await supabaseServer();
     const { data: thread, error: threadErr } = await supabase
@@ -139,12 +147,12 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // 6) Fetch rhyme dictionary data (for English target language only)
+    // 6) Look up rhymes in the offline dictionary (English target language only)
     let rhymeDictionaryData = undefined;
     if (body.targetLanguage.toLowerCase().includes("english")) {
       try {
         // Get rhymes for the current translation's line ending
-        const lineEnding = extractLineEnding(body.currentTranslation);
+        const lineEnding = extractLineEnding(body.currentTranslation, body.targetLanguage);
         const lineEndingRhymes = lineEnding ? await fetchRhymes(lineEnding) : null;
 
         // Also get rhymes for lines that should rhyme with this one
@@ -160,6 +168,8 @@ export async function POST(req: NextRequest) {
         log("rhyme_dictionary_fetched", {
           lineEnding,
           perfectRhymeCount: lineEndingRhymes?.perfectRhymes.length ?? 0,
+          slantRhymeCount: lineEndingRhymes?.slantRhymes.length ?? 0,
+          pronunciationGuessed: lineEndingRhymes?.pronunciationGuessed ?? false,
         });
       } catch (e) {
         log("rhyme_dictionary_error", e);
@@ -168,10 +178,12 @@ export async function POST(req: NextRequest) {
     }
 
     // 7) Analyze source and current line sounds
-    const sourceLineAnalysis = analyzeLineSound(body.sourceLine);
-    const currentLineAnalysis = analyzeLineSound(body.currentTranslation);
+    const sourceLineAnalysis = analyzeLineSound(body.sourceLine, body.sourceLanguage);
+    const currentLineAnalysis = analyzeLineSound(body.currentTranslation, body.targetLanguage);
 
     log("sound_analysis", {
+      sourceAnalyzer: sourceLineAnalysis.language,
+      targetAnalyzer: currentLineAnalysis.language,
       sourceSyllables: sourceLineAnalysis.syllableCount,
       currentSyllables: currentLineAnalysis.syllableCount,
       sourceAlliteration: sourceLineAnalysis.alliteration.length,
@@ -236,7 +248,6 @@ export async function POST(req: NextRequest) {
           createdBy: user.id,
           threadId: body.threadId,
           stage: "workshop:rhyme-workshop",
-          provider: "openai",
         },
       });
     } catch (llmError) {
@@ -1,5 +1,10 @@
 import { NextResponse } from "next/server";
 import { requireUser } from "@/lib/auth/requireUser";
+import { recordTranslationMemory } from "@/lib/translationMemory/store";
+import { recordLineRevision } from "@/lib/revisions/store";
+import { collabUser } from "@/lib/collab/access";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import { findForeignLock, publishCollabEvents } from "@/lib/collab/relay";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { z } from "zod";
 import {
@@ -7,13 +12,15 @@ import {
   WordOptionForVerification,
 } from "@/types/verification";
 import type { LineTranslationResponse } from "@/types/lineTranslation";
+import { MAX_VARIANT_COUNT } from "@/lib/ai/variantCount";
+import { linksToWords, tokenizeLine, wordsToLinks } from "@/lib/alignment/links";
 
 const RequestSchema = z.object({
   threadId: z.string().uuid(),
   lineIndex: z.number().int().min(0),
   originalLine: z.string().optional(),
   // New format: line translation with variant
-  variant: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  variant: z.number().int().min(1).max(MAX_VARIANT_COUNT),
   lineTranslation: z.unknown(), // validated at runtime
 });
 
@@ -32,7 +39,7 @@ function normalizeLineTranslationResponse(
 
 export async function POST(req: Request) {
   // Auth check
-  const { user, response } = await requireUser();
+  const { user, response, sb } = await requireUser();
   if (!user) return response;
 
   try {
@@ -59,13 +66,15 @@ export async function POST(req: Request) {
       );
     }
 
-    // Verify thread ownership
+    // Verify the caller owns or collaborates on the thread and that it is
+    // not a submitted assignment
     const supabase = await supabaseServer();
+    const guard = await requireThreadWrite(supabase, threadId, user.id);
+    if ("res" in guard) return guard.res;
     const { data: thread, error: threadError } = await supabase
       .from("chat_threads")
-      .select("id, state, project_id")
+      .select("id, state, project_id, translation_memory_enabled")
       .eq("id", threadId)
-      .eq("created_by", user.id)
       .single();
 
     if (threadError || !thread) {
@@ -75,6 +84,19 @@ export async function POST(req: Request) {
       );
     }
 
+    // Another collaborator is editing this line
+    const foreignLock = await findForeignLock(threadId, user.id, lineIndex);
+    if (foreignLock) {
+      return NextResponse.json(
+        {
+          error: `${foreignLock.name} is editing this line`,
+          code: "LINE_LOCKED",
+          holder: foreignLock,
+        },
+        { status: 409 }
+      );
+    }
+
     // Determine translated line from selected variant
     const selectedVariant = parsedLineTranslation.translations.find(
       (v) => v.variant === variant
@@ -116,6 +138,16 @@ export async function POST(req: Request) {
         };
       });
 
+    // Anchor the variant's alignment to token indices for the alignment editor
+    const sourceTokens = tokenizeLine(originalLine || parsedLineTranslation.lineOriginal);
+    const targetTokens = tokenizeLine(translatedLine);
+    const alignment = linksToWords(
+      wordsToLinks(selectedVariant.words, sourceTokens, targetTokens),
+      sourceTokens,
+      targetTokens,
+      selectedVariant.words
+    );
+
     // Get current state
     const currentState = (thread.state as Record<string, unknown>) || {};
 
@@ -127,6 +159,7 @@ export async function POST(req: Request) {
       completedAt: new Date().toISOString(),
       // Store word options for verification if available
       word_options: wordOptionsForVerification,
+      alignment,
       // Initialize verification structure
       verification: {
         trackA: {
@@ -214,6 +247,31 @@ export async function POST(req: Request) {
       );
     }
 
+    // Remember the chosen line for fuzzy matches in the user's other threads
+    if (thread.translation_memory_enabled !== false) {
+      await recordTranslationMemory(sb, {
+        userId: user.id,
+        threadId,
+        lineIndex,
+        sourceText: originalLine || parsedLineTranslation.lineOriginal,
+        targetText: translatedLine,
+        origin: "workshop",
+      });
+    }
+
+    await recordLineRevision(sb, {
+      threadId,
+      userId: user.id,
+      lineIndex,
+      text: translatedLine,
+      origin: "variant_pick",
+      variant,
+    });
+
+    await publishCollabEvents(threadId, collabUser(user), [
+      { type: "line_saved", lineIndex, text: translatedLine },
+    ]);
+
     // ============ VERIFICATION TRIGGER (Phase 2) ============
     // Trigger async verification if feature flag enabled
     if (process.env.NEXT_PUBLIC_FEATURE_VERIFICATION_INTERNAL === "true") {
@@ -1,16 +1,59 @@
 import { NextResponse } from "next/server";
 import { requireUser } from "@/lib/auth/requireUser";
+import { recordTranslationMemory } from "@/lib/translationMemory/store";
+import { recordLineRevision } from "@/lib/revisions/store";
+import { collabUser } from "@/lib/collab/access";
+import { requireThreadWrite } from "@/lib/apiGuard";
+import { findForeignLock, publishCollabEvents } from "@/lib/collab/relay";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { z } from "zod";
 import { WorkshopLineWithVerification } from "@/types/verification";
+import type { AlignedWord } from "@/types/lineTranslation";
+import { alignmentForEdit } from "@/lib/alignment/links";
+import { findTranslatedLine, getTranslationJob } from "@/lib/workshop/jobState";
 
 const RequestSchema = z.object({
   threadId: z.string().uuid(),
   lineIndex: z.number().int().min(0),
   originalLine: z.string(),
   translatedLine: z.string(),
+  /** Where the text came from; recorded in the line's revision history */
+  origin: z
+    .enum(["variant_pick", "manual_edit", "ai_assist", "rhyme_rewrite", "restore"])
+    .optional(),
+  /** Revision being restored (origin "restore") */
+  restoredFrom: z.string().uuid().optional(),
 });
 
+/**
+ * Carry the line's alignment over to the edited text, starting from the
+ * previously saved text or the closest generated variant. Best effort: a
+ * failure leaves the line unaligned rather than failing the save.
+ */
+async function carryAlignment(
+  threadId: string,
+  lineIndex: number,
+  originalLine: string,
+  translatedLine: string,
+  previous: WorkshopLineWithVerification | null | undefined
+): Promise<AlignedWord[]> {
+  try {
+    const candidates: Array<{ text: string; words: AlignedWord[] }> = [];
+    if (previous?.alignment?.length) {
+      candidates.push({ text: previous.translated, words: previous.alignment });
+    }
+    const job = await getTranslationJob(threadId);
+    const jobLine = job ? findTranslatedLine(job, lineIndex)?.line : null;
+    for (const variant of jobLine?.translations ?? []) {
+      candidates.push({ text: variant.fullText, words: variant.words ?? [] });
+    }
+    return alignmentForEdit(originalLine, translatedLine, candidates);
+  } catch (error) {
+    console.warn("[save-manual-line] Could not carry alignment over:", error);
+    return [];
+  }
+}
+
 /**
  * POST /api/workshop/save-manual-line
  *
@@ -19,7 +62,7 @@ const RequestSchema = z.object({
  */
 export async function POST(req: Request) {
   // Auth check
-  const { user, response } = await requireUser();
+  const { user, response, sb } = await requireUser();
   if (!user) return response;
 
   try {
@@ -34,16 +77,24 @@ export async function POST(req: Request) {
       );
     }
 
-    const { threadId, lineIndex, originalLine, translatedLine } =
-      validation.data;
+    const {
+      threadId,
+      lineIndex,
+      originalLine,
+      translatedLine,
+      origin = "manual_edit",
+      restoredFrom,
+    } = validation.data;
 
-    // Verify thread ownership
+    // Verify the caller owns or collaborates on the thread and that it is
+    // not a submitted assignment
     const supabase = await supabaseServer();
+    const guard = await requireThreadWrite(supabase, threadId, user.id);
+    if ("res" in guard) return guard.res;
     const { data: thread, error: threadError } = await supabase
       .from("chat_threads")
-      .select("id, state, project_id")
+      .select("id, state, project_id, translation_memory_enabled")
       .eq("id", threadId)
-      .eq("created_by", user.id)
       .single();
 
     if (threadError || !thread) {
@@ -53,6 +104,19 @@ export async function POST(req: Request) {
       );
     }
 
+    // Another collaborator is editing this line
+    const foreignLock = await findForeignLock(threadId, user.id, lineIndex);
+    if (foreignLock) {
+      return NextResponse.json(
+        {
+          error: `${foreignLock.name} is editing this line`,
+          code: "LINE_LOCKED",
+          holder: foreignLock,
+        },
+        { status: 409 }
+      );
+    }
+
     // Get current state
     const currentState = (thread.state as Record<string, unknown>) || {};
 
@@ -108,6 +172,14 @@ export async function POST(req: Request) {
       updatedWorkshopLinesArr.push(null);
     }
 
+    newLine.alignment = await carryAlignment(
+      threadId,
+      lineIndex,
+      originalLine,
+      translatedLine,
+      updatedWorkshopLinesArr[lineIndex]
+    );
+
     // Set the line at the correct index
     updatedWorkshopLinesArr[lineIndex] = newLine;
 
@@ -150,6 +222,31 @@ export async function POST(req: Request) {
       );
     }
 
+    // Remember the chosen line for fuzzy matches in the user's other threads
+    if (thread.translation_memory_enabled !== false) {
+      await recordTranslationMemory(sb, {
+        userId: user.id,
+        threadId,
+        lineIndex,
+        sourceText: originalLine,
+        targetText: translatedLine,
+        origin: "manual",
+      });
+    }
+
+    await recordLineRevision(sb, {
+      threadId,
+      userId: user.id,
+      lineIndex,
+      text: translatedLine,
+      origin,
+      restoredFrom: origin === "restore" ? restoredFrom : null,
+    });
+
+    await publishCollabEvents(threadId, collabUser(user), [
+      { type: "line_saved", lineIndex, text: translatedLine },
+    ]);
+
     console.log(
       `[save-manual-line] ✓ Saved manual translation for line ${lineIndex}`
     );
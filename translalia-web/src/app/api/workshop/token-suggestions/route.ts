@@ -8,9 +8,12 @@ import { tokenize } from "@/lib/ai/textNormalize";
 import {
   TokenSuggestionsRequestSchema,
   type TokenSuggestionsRequest,
+  variantTextList,
 } from "@/lib/ai/suggestions/suggestionsSchemas";
 import { generateTokenSuggestions } from "@/lib/ai/suggestions/suggestionsService";
 import { createDiagnostics } from "@/lib/diagnostics";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 const CACHE_TTL_SECONDS = 3600;
 const SUGGESTION_RATE_LIMIT = parseInt(
@@ -65,9 +68,7 @@ function hashPayload(payload: unknown): string {
 function hasAnyTokens(payload: TokenSuggestionsRequest): boolean {
   const allTexts = [
     payload.targetLineDraft ?? "",
-    payload.variantFullTexts?.A ?? "",
-    payload.variantFullTexts?.B ?? "",
-    payload.variantFullTexts?.C ?? "",
+    ...variantTextList(payload.variantFullTexts),
     payload.sourceLine ?? "",
     payload.currentLine ?? "",
   ].filter((t) => t.trim().length > 0);
@@ -82,9 +83,7 @@ function hasAnyTokens(payload: TokenSuggestionsRequest): boolean {
 function hasTargetLanguageAnchors(payload: TokenSuggestionsRequest): boolean {
   const targetAnchors = [
     payload.targetLineDraft ?? "",
-    payload.variantFullTexts?.A ?? "",
-    payload.variantFullTexts?.B ?? "",
-    payload.variantFullTexts?.C ?? "",
+    ...variantTextList(payload.variantFullTexts),
   ].filter((t) => t.trim().length > 0);
   return targetAnchors.some((text) => tokenize(text).length > 0);
 }
@@ -97,7 +96,11 @@ type GuideAnswersState = {
   sourceLanguageVariety?: string | null;
 };
 
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("workshop/token-suggestions", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   const diag = createDiagnostics("token-suggestions");
 
   // Auth check
@@ -184,6 +187,9 @@ export async function POST(req: Request) {
       );
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId: parsed.threadId });
+    if ("res" in budget) return budget.res;
+
     // Verify thread ownership and fetch guide answers
     diag.mark("db-query-start");
     const supabase = await supabaseServer();
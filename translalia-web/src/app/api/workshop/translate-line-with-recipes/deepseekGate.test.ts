@@ -21,9 +21,10 @@ const ALLOWED = "allowed@example.com";
 const NOT_ALLOWED = "stranger@example.com";
 const THREAD_ID = "11111111-1111-1111-1111-111111111111";
 
-function mockThread(translationModel: string | null) {
+function mockThread(translationModel: string | null, ownerId: string) {
   return {
     id: THREAD_ID,
+    created_by: ownerId,
     state: { guide_answers: { translationModel } },
     project_id: null,
     translation_model: null,
@@ -35,14 +36,22 @@ function mockThread(translationModel: string | null) {
   };
 }
 
-function wireSupabase(translationModel: string | null) {
-  const single = vi
-    .fn()
-    .mockResolvedValue({ data: mockThread(translationModel), error: null });
-  const eq2 = vi.fn(() => ({ single }));
-  const eq1 = vi.fn(() => ({ eq: eq2 }));
-  const select = vi.fn(() => ({ eq: eq1 }));
-  const from = vi.fn(() => ({ select }));
+function wireSupabase(translationModel: string | null, ownerId: string) {
+  // The thread for every chat_threads read; no submission, so not locked
+  const rows: Record<string, unknown> = {
+    chat_threads: mockThread(translationModel, ownerId),
+    assignment_submissions: null,
+  };
+  const from = vi.fn((table: string) => {
+    const result = { data: rows[table] ?? null, error: null };
+    const query = {
+      select: () => query,
+      eq: () => query,
+      single: vi.fn().mockResolvedValue(result),
+      maybeSingle: vi.fn().mockResolvedValue(result),
+    };
+    return query;
+  });
   vi.mocked(supabaseServer).mockResolvedValue({ from } as never);
 }
 
@@ -84,7 +93,7 @@ describe("translate-line-with-recipes DeepSeek gate", () => {
       user: { id: "u1", email: NOT_ALLOWED },
       response: null,
     } as never);
-    wireSupabase("deepseek-v4-flash");
+    wireSupabase("deepseek-v4-flash", "u1");
 
     const res = await POST(makeRequest(baseBody));
 
@@ -101,7 +110,7 @@ describe("translate-line-with-recipes DeepSeek gate", () => {
       user: { id: "u1", email: NOT_ALLOWED },
       response: null,
     } as never);
-    wireSupabase(null); // no model in state; override supplies deepseek
+    wireSupabase(null, "u1"); // no model in state; override supplies deepseek
 
     const res = await POST(
       makeRequest({ ...baseBody, modelOverride: "deepseek-v4-flash" })
@@ -116,7 +125,7 @@ describe("translate-line-with-recipes DeepSeek gate", () => {
       user: { id: "u2", email: ALLOWED.toUpperCase() }, // uppercase to prove case-insensitivity
       response: null,
     } as never);
-    wireSupabase("deepseek-v4-flash");
+    wireSupabase("deepseek-v4-flash", "u2");
 
     const res = await POST(makeRequest(baseBody));
 
@@ -133,7 +142,7 @@ describe("translate-line-with-recipes DeepSeek gate", () => {
       user: { id: "u3", email: NOT_ALLOWED },
       response: null,
     } as never);
-    wireSupabase("gpt-4o");
+    wireSupabase("gpt-4o", "u3");
 
     const res = await POST(makeRequest(baseBody));
 
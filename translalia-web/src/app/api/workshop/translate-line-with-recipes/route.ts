@@ -3,11 +3,14 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 
 import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { checkDailyLimit } from "@/lib/ratelimit/redis";
 import type { GuideAnswers } from "@/store/guideSlice";
 import { translateLineWithRecipesInternal } from "@/lib/translation/method2/translateLineWithRecipesInternal";
 import { isDeepSeekBlocked } from "@/lib/ai/deepseekAccess";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 const RequestSchema = z.object({
   threadId: z.string().uuid(),
@@ -28,7 +31,11 @@ const RequestSchema = z.object({
  * Handles authentication, rate limiting, and request validation, then delegates
  * to the shared Method 2 function.
  */
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("workshop/translate-line-with-recipes", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   console.log("[HIT] translate-line-with-recipes");
   const { user, response } = await requireUser();
   if (!user) return response;
@@ -73,12 +80,14 @@ export async function POST(req: Request) {
       );
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId });
+    if ("res" in budget) return budget.res;
+
     const supabase = await supabaseServer();
     const { data: thread, error: threadError } = await supabase
       .from("chat_threads")
-      .select("id, state, project_id, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, raw_poem")
+      .select("id, state, project_id, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, variant_count, raw_poem")
       .eq("id", threadId)
-      .eq("created_by", user.id)
       .single();
 
     if (threadError || !thread) {
@@ -88,6 +97,9 @@ export async function POST(req: Request) {
       );
     }
 
+    const guard = await requireThreadWrite(supabase, threadId, user.id);
+    if ("res" in guard) return guard.res;
+
     const state = (thread.state as Record<string, unknown>) || {};
     const guideAnswersState =
       (state as { guide_answers?: GuideAnswers }).guide_answers ?? {};
@@ -109,6 +121,8 @@ export async function POST(req: Request) {
         thread.source_language_variety ??
         guideAnswersState.sourceLanguageVariety ??
         null,
+      variantCount:
+        thread.variant_count ?? guideAnswersState.variantCount,
     };
 
     // Cost gate: DeepSeek is restricted to allowlisted accounts. Reject rather
@@ -3,14 +3,19 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 
 import { requireUser } from "@/lib/auth/requireUser";
+import { requireThreadWrite } from "@/lib/apiGuard";
 import { TRANSLATOR_MODEL } from "@/lib/models";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { checkDailyLimit } from "@/lib/ratelimit/redis";
 import type { GuideAnswers } from "@/store/guideSlice";
 import type { LineTranslationResponse } from "@/types/lineTranslation";
 import { translateLineInternal } from "@/lib/workshop/translateLineInternal";
+import { getSectionContext } from "@/lib/poem/sections";
+import type { StanzaDetectionResult } from "@/lib/poem/stanzaDetection";
 import { buildTranslatorPersonality } from "@/lib/ai/translatorPersonality";
 import { isDeepSeekBlocked } from "@/lib/ai/deepseekAccess";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { requireAiBudget } from "@/lib/usage/budget";
 
 const RequestSchema = z.object({
   threadId: z.string().uuid(),
@@ -22,7 +27,11 @@ const RequestSchema = z.object({
   nextLine: z.string().optional(),
 });
 
-export async function POST(req: Request) {
+export function POST(req: Request) {
+  return withRouteMetrics("workshop/translate-line", () => handlePost(req));
+}
+
+async function handlePost(req: Request) {
   const { user, response } = await requireUser();
   if (!user) return response;
 
@@ -65,12 +74,14 @@ export async function POST(req: Request) {
       );
     }
 
+    const budget = await requireAiBudget({ userId: user.id, threadId });
+    if ("res" in budget) return budget.res;
+
     const supabase = await supabaseServer();
     const { data: thread, error: threadError } = await supabase
       .from("chat_threads")
       .select("id, state, project_id, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, raw_poem")
       .eq("id", threadId)
-      .eq("created_by", user.id)
       .single();
 
     if (threadError || !thread) {
@@ -80,6 +91,9 @@ export async function POST(req: Request) {
       );
     }
 
+    const guard = await requireThreadWrite(supabase, threadId, user.id);
+    if ("res" in guard) return guard.res;
+
     const state = (thread.state as Record<string, unknown>) || {};
     const guideAnswersState =
       (state as { guide_answers?: GuideAnswers }).guide_answers ?? {};
@@ -207,6 +221,10 @@ export async function POST(req: Request) {
       sourceLanguage: poemAnalysis.language || "the source language",
       targetLanguage,
       modelOverride: model,
+      sectionContext: getSectionContext(
+        state.poem_stanzas as StanzaDetectionResult | undefined,
+        actualStanzaIndex
+      ),
       audit: {
         createdBy: user.id,
         projectId: thread.project_id ?? null,
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireOpsToken } from "@/lib/auth/opsToken";
+import {
+  addAutoReplayRule,
+  listAutoReplayRules,
+  removeAutoReplayRule,
+} from "@/lib/workshop/deadLetterQueue";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const RuleSchema = z.object({
+  failureClass: z.string().min(1).max(200),
+  markedBy: z.string().min(1).max(200).optional(),
+});
+
+function err(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+/**
+ * Auto-replay rules for the translation DLQ. A rule marks a failure class as
+ * fixed; the worker then replays entries of that class dead-lettered before
+ * the rule was added.
+ *
+ * GET    /api/workshop/translation-dlq/auto-replay
+ * POST   /api/workshop/translation-dlq/auto-replay   { failureClass, markedBy? }
+ * DELETE /api/workshop/translation-dlq/auto-replay?failureClass=...
+ *
+ * Same auth as /api/workshop/translation-dlq (QUEUE_ADMIN_TOKEN).
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireOpsToken(req, process.env.QUEUE_ADMIN_TOKEN);
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ rules: await listAutoReplayRules() });
+  } catch (e) {
+    console.error("[/api/workshop/translation-dlq/auto-replay] GET", e);
+    return err(500, "INTERNAL_ERROR", "Failed to read auto-replay rules");
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireOpsToken(req, process.env.QUEUE_ADMIN_TOKEN);
+  if (denied) return denied;
+
+  const parsed = RuleSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", parsed.error.message);
+  }
+
+  try {
+    const rule = await addAutoReplayRule(
+      parsed.data.failureClass,
+      parsed.data.markedBy ?? null
+    );
+    return NextResponse.json({ ok: true, rule }, { status: 201 });
+  } catch (e) {
+    console.error("[/api/workshop/translation-dlq/auto-replay] POST", e);
+    return err(500, "INTERNAL_ERROR", "Failed to save auto-replay rule");
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const denied = requireOpsToken(req, process.env.QUEUE_ADMIN_TOKEN);
+  if (denied) return denied;
+
+  const failureClass = new URL(req.url).searchParams.get("failureClass");
+  if (!failureClass) {
+    return err(400, "BAD_QUERY", "failureClass is required");
+  }
+
+  try {
+    const removed = await removeAutoReplayRule(failureClass);
+    if (!removed) return err(404, "NOT_FOUND", "No rule for that failure class");
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    console.error("[/api/workshop/translation-dlq/auto-replay] DELETE", e);
+    return err(500, "INTERNAL_ERROR", "Failed to remove auto-replay rule");
+  }
+}
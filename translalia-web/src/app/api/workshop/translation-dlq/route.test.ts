@@ -0,0 +1,129 @@
+/**
+ * The DLQ admin route has no user session (it is authorised by the ops
+ * token), so the thread's job must be read with the service role: with the
+ * cookie client RLS hides every job row and entries come back without their
+ * job status and chunk errors.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const { redis, createClient, supabaseServer } = vi.hoisted(() => {
+  const dlq: string[] = [];
+  return {
+    redis: {
+      dlq,
+      llen: async () => dlq.length,
+      // Upstash auto-deserializes JSON values on read
+      lrange: async () => dlq.map((value) => JSON.parse(value)),
+      hgetall: async () => null,
+    },
+    createClient: vi.fn(),
+    supabaseServer: vi.fn(async () => {
+      throw new Error("cookie client used");
+    }),
+  };
+});
+
+vi.mock("@/lib/ai/cache", () => ({ getUpstashRedis: async () => redis }));
+vi.mock("@supabase/supabase-js", () => ({ createClient }));
+vi.mock("@/lib/supabaseServer", () => ({ supabaseServer }));
+
+import { GET } from "./route";
+
+const THREAD_ID = "11111111-1111-1111-1111-111111111111";
+
+function jobRow() {
+  return {
+    job_id: "job-1",
+    thread_id: THREAD_ID,
+    version: 4,
+    status: "failed",
+    queue: [],
+    active: [],
+    max_concurrent: 5,
+    max_chunks_per_tick: 5,
+    full_poem: null,
+    guide_preferences: null,
+    meta: { createdAt: 1000, updatedAt: 2000 },
+    translation_job_chunks: [
+      {
+        chunk_index: 0,
+        version: 3,
+        status: "failed",
+        lines_processed: 0,
+        total_lines: 4,
+        retries: 3,
+        max_retries: 3,
+        next_retry_at: null,
+        error: "Request timed out",
+        error_history: [
+          { timestamp: 100, error: "Rate limited", code: "rate_limit", retryable: true },
+          { timestamp: 200, error: "Request timed out", code: "timeout", retryable: true },
+        ],
+        meta: {},
+      },
+    ],
+    translation_job_lines: [],
+  };
+}
+
+function wireServiceClient() {
+  const maybeSingle = vi.fn().mockResolvedValue({ data: jobRow(), error: null });
+  const eq = vi.fn(() => ({ maybeSingle }));
+  const select = vi.fn(() => ({ eq }));
+  const from = vi.fn(() => ({ select }));
+  createClient.mockReturnValue({ from });
+  return { from, eq };
+}
+
+beforeEach(() => {
+  redis.dlq.length = 0;
+  redis.dlq.push(
+    JSON.stringify({
+      threadId: THREAD_ID,
+      attempt: 6,
+      enqueuedAt: 1,
+      failureClass: "TimeoutError",
+      deadLetteredAt: 300,
+    })
+  );
+  vi.stubEnv("QUEUE_ADMIN_TOKEN", "ops-token");
+  vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "https://example.supabase.co");
+  vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "service-key");
+});
+
+describe("GET /api/workshop/translation-dlq", () => {
+  it("returns each entry's job status and latest chunk errors", async () => {
+    const { from, eq } = wireServiceClient();
+
+    const res = await GET(
+      new NextRequest("http://localhost/api/workshop/translation-dlq", {
+        headers: { authorization: "Bearer ops-token" },
+      })
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(createClient).toHaveBeenCalledWith(
+      "https://example.supabase.co",
+      "service-key"
+    );
+    expect(supabaseServer).not.toHaveBeenCalled();
+    expect(from).toHaveBeenCalledWith("translation_jobs");
+    expect(eq).toHaveBeenCalledWith("thread_id", THREAD_ID);
+
+    expect(body.depth).toBe(1);
+    expect(body.entries[0].jobStatus).toBe("failed");
+    expect(body.entries[0].lastErrors).toEqual([
+      { timestamp: 200, error: "Request timed out", code: "timeout", retryable: true, chunkIndex: 0 },
+      { timestamp: 100, error: "Rate limited", code: "rate_limit", retryable: true, chunkIndex: 0 },
+    ]);
+  });
+
+  it("rejects requests without the ops token", async () => {
+    const res = await GET(
+      new NextRequest("http://localhost/api/workshop/translation-dlq")
+    );
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireOpsToken } from "@/lib/auth/opsToken";
+import {
+  listAutoReplayRules,
+  listDeadLetters,
+  purgeDeadLetters,
+  replayDeadLetters,
+} from "@/lib/workshop/deadLetterQueue";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ListQuerySchema = z.object({
+  failureClass: z.string().min(1).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const ActionSchema = z
+  .object({
+    action: z.enum(["replay", "purge"]),
+    threadIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+    failureClass: z.string().min(1).max(200).optional(),
+    all: z.literal(true).optional(),
+  })
+  .refine((b) => b.all || b.threadIds || b.failureClass, {
+    message: "Select entries with threadIds, failureClass or all: true",
+  });
+
+function err(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+/**
+ * Translation dead-letter queue admin.
+ *
+ * GET  /api/workshop/translation-dlq?failureClass=&limit=
+ *      DLQ entries (newest first) with the thread's job status and latest
+ *      chunk errors, plus the auto-replay rules.
+ * POST /api/workshop/translation-dlq
+ *      { action: "replay" | "purge", threadIds? | failureClass? | all: true }
+ *
+ * Requires `Authorization: Bearer <QUEUE_ADMIN_TOKEN>`; without the token it
+ * is only available outside production. CLI: `npm run dlq:translations`.
+ */
+export async function GET(req: NextRequest) {
+  const denied = requireOpsToken(req, process.env.QUEUE_ADMIN_TOKEN);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(req.url);
+  const parsed = ListQuerySchema.safeParse({
+    failureClass: searchParams.get("failureClass") || undefined,
+    limit: searchParams.get("limit") ?? undefined,
+  });
+  if (!parsed.success) {
+    return err(400, "BAD_QUERY", parsed.error.message);
+  }
+
+  try {
+    const [list, autoReplay] = await Promise.all([
+      listDeadLetters(parsed.data),
+      listAutoReplayRules(),
+    ]);
+    return NextResponse.json({ ...list, autoReplay });
+  } catch (e) {
+    console.error("[/api/workshop/translation-dlq] GET", e);
+    return err(500, "INTERNAL_ERROR", "Failed to read the DLQ");
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireOpsToken(req, process.env.QUEUE_ADMIN_TOKEN);
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => null);
+  const parsed = ActionSchema.safeParse(body);
+  if (!parsed.success) {
+    return err(400, "BAD_BODY", parsed.error.message);
+  }
+
+  const { action, ...selector } = parsed.data;
+  try {
+    if (action === "replay") {
+      return NextResponse.json({ ok: true, ...(await replayDeadLetters(selector)) });
+    }
+    return NextResponse.json({ ok: true, purged: await purgeDeadLetters(selector) });
+  } catch (e) {
+    console.error("[/api/workshop/translation-dlq] POST", action, e);
+    return err(500, "INTERNAL_ERROR", `Failed to ${action} DLQ entries`);
+  }
+}
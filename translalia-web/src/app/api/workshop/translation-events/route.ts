@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { requireUser } from "@/lib/auth/requireUser";
+import { getTranslationJob } from "@/lib/workshop/jobState";
+import {
+  getLatestProgressSeq,
+  readProgressEvents,
+  waitForProgressEvents,
+} from "@/lib/workshop/progressEvents";
+import { runTranslationTick } from "@/lib/workshop/runTranslationTick";
+import {
+  applyProgressEvent,
+  summarizeTranslationJob,
+} from "@/lib/workshop/translationProgress";
+import type { TranslationJobState } from "@/types/translationJob";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const ADVANCE_SPLIT_ENABLED =
+  process.env.ENABLE_STATUS_READ_ADVANCE_SPLIT === "1";
+
+/** How often the log is re-read when no in-process publish wakes us. */
+const EVENT_POLL_MS = 1000;
+/** Idle interval for the heartbeat and the safety snapshot check. */
+const HEARTBEAT_MS = 15000;
+/** How often a tick is kicked while the job still has work (advance=true). */
+const TICK_INTERVAL_MS = 4000;
+/** Streams close after this long; clients reconnect and get a fresh snapshot. */
+const MAX_STREAM_MS =
+  Number(process.env.TRANSLATION_EVENTS_MAX_MS) || 5 * 60 * 1000;
+
+const QuerySchema = z.object({
+  threadId: z.string().uuid(),
+  advance: z.enum(["true", "false"]).optional().default("true"),
+});
+
+function isTerminal(job: TranslationJobState | null): boolean {
+  return !job || job.status === "completed" || job.status === "failed";
+}
+
+/**
+ * GET /api/workshop/translation-events?threadId=...&advance=true
+ *
+ * Server-sent events for a thread's translation job:
+ * - `snapshot`: `{ job, progress }` on connect, and again if the job changed
+ *   without events reaching this instance
+ * - `progress`: one TranslationProgressMessage per transition (id = seq)
+ * - `done`: the job completed, failed or does not exist; the stream closes
+ *
+ * With advance=true the stream also kicks translation ticks, replacing the
+ * advancing polls of /api/workshop/translation-status.
+ */
+export async function GET(req: NextRequest) {
+  const { user, response, sb } = await requireUser();
+  if (!user) return response;
+
+  const parsed = QuerySchema.safeParse(
+    Object.fromEntries(req.nextUrl.searchParams.entries())
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error.message },
+      { status: 400 }
+    );
+  }
+
+  const { threadId } = parsed.data;
+  const advance = !ADVANCE_SPLIT_ENABLED && parsed.data.advance === "true";
+
+  const { data: thread, error: threadError } = await sb
+    .from("chat_threads")
+    .select("id, created_by")
+    .eq("id", threadId)
+    .single();
+
+  if (threadError || !thread) {
+    return NextResponse.json(
+      { error: "Thread not found or unauthorized" },
+      { status: 404 }
+    );
+  }
+
+  if (thread.created_by !== user.id) {
+    return NextResponse.json(
+      { error: "You do not have access to this thread" },
+      { status: 403 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      req.signal.addEventListener("abort", close);
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const sendEvent = (event: string, data: unknown, id?: number) => {
+        send(
+          `${id !== undefined ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+        );
+      };
+
+      const kickTick = () => {
+        runTranslationTick(threadId, {
+          maxProcessingTimeMs: Number(process.env.TICK_TIME_BUDGET_MS) || 30000,
+          authorizedEmail: user.email,
+        }).catch((error) => {
+          console.error(
+            `[translation-events] tick error for ${threadId}:`,
+            error instanceof Error ? error.message : String(error)
+          );
+        });
+      };
+
+      try {
+        // Read the cursor before the job so no event falls between the two.
+        let cursor = await getLatestProgressSeq(threadId);
+        let job = await getTranslationJob(threadId);
+        sendEvent("snapshot", { job, progress: summarizeTranslationJob(job) });
+
+        const startedAt = Date.now();
+        let lastTickAt = 0;
+        let lastActivityAt = Date.now();
+
+        while (!closed && !isTerminal(job)) {
+          if (Date.now() - startedAt > MAX_STREAM_MS) break;
+
+          if (advance && Date.now() - lastTickAt >= TICK_INTERVAL_MS) {
+            lastTickAt = Date.now();
+            kickTick();
+          }
+
+          const events = await readProgressEvents(threadId, cursor);
+          for (const event of events) {
+            sendEvent("progress", event, event.seq);
+            cursor = event.seq;
+            if (job && event.jobId === job.jobId) {
+              job = applyProgressEvent(job, event);
+            }
+          }
+          if (events.some((event) => event.jobId !== job?.jobId)) {
+            // The job was replaced; subscribers reload from a snapshot.
+            job = await getTranslationJob(threadId);
+            sendEvent("snapshot", { job, progress: summarizeTranslationJob(job) });
+          }
+
+          if (events.length > 0) {
+            lastActivityAt = Date.now();
+          } else if (Date.now() - lastActivityAt >= HEARTBEAT_MS) {
+            // Events can be lost (log trimmed, publish failed); resend the
+            // whole job when it moved without us hearing about it.
+            const latest = await getTranslationJob(threadId);
+            if (
+              latest?.jobId !== job?.jobId ||
+              (latest && job && latest.updatedAt > job.updatedAt)
+            ) {
+              sendEvent("snapshot", {
+                job: latest,
+                progress: summarizeTranslationJob(latest),
+              });
+            } else {
+              send(": keep-alive\n\n");
+            }
+            job = latest;
+            lastActivityAt = Date.now();
+          }
+
+          if (!isTerminal(job)) {
+            await waitForProgressEvents(threadId, EVENT_POLL_MS);
+          }
+        }
+
+        if (isTerminal(job)) {
+          sendEvent("done", { status: job?.status ?? null });
+        }
+      } catch (error) {
+        console.error(
+          `[translation-events] stream error for ${threadId}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      } finally {
+        req.signal.removeEventListener("abort", close);
+        close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -5,6 +5,8 @@ import { requireUser } from "@/lib/auth/requireUser";
 import { getTranslationJob } from "@/lib/workshop/jobState";
 import { runTranslationTick } from "@/lib/workshop/runTranslationTick";
 import { summarizeTranslationJob } from "@/lib/workshop/translationProgress";
+import { withRouteMetrics } from "@/lib/telemetry/metricsCollector";
+import { getBudgetStatus } from "@/lib/usage/budget";
 
 // Force dynamic rendering - never cache this route
 export const dynamic = "force-dynamic";
@@ -23,7 +25,11 @@ const QuerySchema = z.object({
   advance: z.enum(["true", "false"]).optional().default("true"),
 });
 
-export async function GET(req: NextRequest) {
+export function GET(req: NextRequest) {
+  return withRouteMetrics("workshop/translation-status", () => handleGet(req));
+}
+
+async function handleGet(req: NextRequest) {
   const routeStartTime = Date.now();
   const requestId = `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   
@@ -85,8 +91,13 @@ export async function GET(req: NextRequest) {
   // Next poll will trigger another tick if needed.
   let tickResult = null;
   let tickScheduled = false;
-  
-  if (advance === "true") {
+
+  // A used-up `block` budget stops the tick before it starts; the client
+  // sees budgetExceeded instead of a job that silently stops advancing.
+  const budget = advance === "true" ? await getBudgetStatus(user.id) : null;
+  const budgetExceeded = !!budget?.exceeded && budget.action === "block";
+
+  if (advance === "true" && !budgetExceeded) {
     // OPTIMIZATION: Let work continue in background, return status faster
     const HTTP_RESPONSE_TIMEOUT_MS =
       Number(process.env.TRANSLATION_STATUS_TIMEOUT_MS) || 300;
@@ -258,6 +269,8 @@ export async function GET(req: NextRequest) {
     ? "completed" 
     : tickScheduled 
     ? "scheduled" 
+    : budgetExceeded
+    ? "budget-blocked"
     : advance === "true" 
     ? "skipped" 
     : "none";
@@ -273,6 +286,7 @@ export async function GET(req: NextRequest) {
       progress,
       readyLines,
       edgeState,
+      ...(budgetExceeded ? { budgetExceeded: true } : {}),
     },
     {
       headers: {
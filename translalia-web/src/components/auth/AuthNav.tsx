@@ -5,7 +5,7 @@ import { useTranslations } from "next-intl";
 import { supabase } from "@/lib/supabaseClient";
 import { useSupabaseUser } from "@/hooks/useSupabaseUser";
 import { useProfile } from "@/hooks/useProfile";
-import { Home, FolderKanban, BookOpen } from "lucide-react";
+import { Home, FolderKanban, BookOpen, GraduationCap } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
 
 function NavLinkWithTooltip({
@@ -74,6 +74,7 @@ function PrimaryNav() {
     { href: "/", label: t("home"), icon: Home },
     { href: "/workspaces", label: t("workspaces"), icon: FolderKanban },
     { href: "/diary", label: t("diary"), icon: BookOpen },
+    { href: "/classes", label: t("classes"), icon: GraduationCap },
     // { href: "/verification-dashboard", label: "Verification Analytics" },
   ];
 
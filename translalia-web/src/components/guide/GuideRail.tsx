@@ -24,6 +24,16 @@ import {
 } from "@/lib/hooks/useGuideFlow";
 import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabaseClient";
+import {
+  MAX_VARIANT_COUNT,
+  MIN_VARIANT_COUNT,
+  resolveVariantCount,
+} from "@/lib/ai/variantCount";
+import {
+  languageDirection,
+  resolveTextDirection,
+} from "@/lib/i18n/textDirection";
+import { LONG_FORM_CHAR_LIMIT } from "@/lib/poem/sections";
 
 import { ConfirmationDialog } from "@/components/guide/ConfirmationDialog";
 import { GuideSteps } from "@/components/guide/GuideSteps";
@@ -67,7 +77,8 @@ export function GuideRail({
   const router = useRouter();
   const queryClient = useQueryClient();
 
-  const dir = locale === "ar" ? "rtl" : "ltr";
+  // UI direction; typed text follows its own letters (resolveTextDirection)
+  const dir = languageDirection(locale) ?? "ltr";
 
   const {
     poem,
@@ -75,6 +86,7 @@ export function GuideRail({
     submitPoem,
     setPreserveFormatting,
     setCustomSegmentation,
+    setLongForm,
     translationIntent,
     setTranslationIntent,
     submitTranslationIntent,
@@ -94,6 +106,16 @@ export function GuideRail({
   const setTranslationZone = useGuideStore((s) => s.setTranslationZone);
   const submitTranslationZone = useGuideStore((s) => s.submitTranslationZone);
 
+  const translationMemoryEnabled = useGuideStore(
+    (s) => s.answers.translationMemory !== false
+  );
+  const setTranslationMemory = useGuideStore((s) => s.setTranslationMemory);
+
+  const variantCount = useGuideStore((s) =>
+    resolveVariantCount(s.answers.variantCount)
+  );
+  const setVariantCount = useGuideStore((s) => s.setVariantCount);
+
   const sourceLanguageVariety = useGuideStore((s) => s.sourceLanguageVariety);
   const setSourceLanguageVariety = useGuideStore(
     (s) => s.setSourceLanguageVariety
@@ -144,6 +166,8 @@ export function GuideRail({
   const [showGuideHints, setShowGuideHints] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [showSegmentEditor, setShowSegmentEditor] = useState(false);
+  // Set when a paste over POEM_CHAR_LIMIT switched long-form mode on
+  const [longFormAutoEnabled, setLongFormAutoEnabled] = useState(false);
 
   // DeepSeek is gated to allowlisted accounts. The endpoint keeps the allowlist
   // server-side; everyone else never sees the picker option. Enforcement is
@@ -327,6 +351,7 @@ export function GuideRail({
 
   const poemText = poem.text ?? "";
   const poemCharCount = poemText.length;
+  const poemCharLimit = poem.longForm ? LONG_FORM_CHAR_LIMIT : POEM_CHAR_LIMIT;
   const isSubmitDisabled = !poemText.trim();
 
   const translationIntentRaw = translationIntent?.text;
@@ -574,10 +599,21 @@ export function GuideRail({
   };
 
   const handlePoemChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
-    setPoem(event.target.value.slice(0, POEM_CHAR_LIMIT));
+    const text = event.target.value;
+    // Switch to long-form mode rather than cut off a long work
+    if (!poem.longForm && text.length > POEM_CHAR_LIMIT) {
+      setLongForm(true);
+      setLongFormAutoEnabled(true);
+    }
+    setPoem(text.slice(0, LONG_FORM_CHAR_LIMIT));
     setUserHasManuallySetFormatting(false);
   };
 
+  const handleLongFormToggle = (enabled: boolean) => {
+    setLongForm(enabled);
+    setLongFormAutoEnabled(false);
+  };
+
   const handlePoemKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
     if ((event.metaKey || event.ctrlKey) && event.key === "Enter") {
       event.preventDefault();
@@ -587,6 +623,11 @@ export function GuideRail({
 
   const handlePoemSubmit = () => {
     if (!poem.text?.trim()) return;
+    // Long-form works are segmented per section; the editor is not shown
+    if (poem.longForm) {
+      submitPoem();
+      return;
+    }
     // Show segment editor before submitting
     setShowSegmentEditor(true);
   };
@@ -750,6 +791,36 @@ export function GuideRail({
     }
   };
 
+  const handleToggleTranslationMemory = async (enabled: boolean) => {
+    setTranslationMemory(enabled);
+    if (!threadId) return;
+
+    try {
+      await saveTranslationIntent.mutateAsync({
+        threadId,
+        questionKey: "translationMemory",
+        value: enabled,
+      });
+    } catch (error) {
+      console.error("[handleToggleTranslationMemory] Error:", error);
+    }
+  };
+
+  const handleSaveVariantCount = async (count: number) => {
+    setVariantCount(count);
+    if (!threadId) return;
+
+    try {
+      await saveTranslationIntent.mutateAsync({
+        threadId,
+        questionKey: "variantCount",
+        value: count,
+      });
+    } catch (error) {
+      console.error("[handleSaveVariantCount] Error:", error);
+    }
+  };
+
   const handleResetAll = () => {
     // If there's workshop progress, show confirmation dialog
     if (hasWorkshopProgress) {
@@ -921,7 +992,7 @@ export function GuideRail({
           <span className={ui.pill}>
             {t("characterCount", {
               current: poemCharCount,
-              limit: POEM_CHAR_LIMIT,
+              limit: poemCharLimit,
             })}
           </span>
         </div>
@@ -937,17 +1008,16 @@ export function GuideRail({
               id="poem-input"
               ref={poemTextareaRef}
               rows={10}
-              maxLength={POEM_CHAR_LIMIT}
+              maxLength={poemCharLimit}
               value={poemText}
               onChange={handlePoemChange}
               onKeyDown={handlePoemKeyDown}
               placeholder={t("poemPlaceholder")}
               aria-describedby="poem-helper poem-error"
-              lang={locale}
-              dir={dir}
+              dir={resolveTextDirection(poemText, [sourceVarietyText], dir)}
               className={cn(
                 ui.textarea,
-                "flex-1 min-h-[200px] resize-none"
+                "flex-1 min-h-[200px] resize-none [unicode-bidi:plaintext]"
               )}
             />
 
@@ -956,6 +1026,29 @@ export function GuideRail({
               {t("poemHelper")}
             </p>
 
+            <label className="flex items-start gap-3 rounded-md bg-muted px-4 py-3 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 accent-accent"
+                checked={poem.longForm}
+                disabled={
+                  isPoemSubmitted ||
+                  (poem.longForm && poemCharCount > POEM_CHAR_LIMIT)
+                }
+                onChange={(e) => handleLongFormToggle(e.target.checked)}
+              />
+              <span className="space-y-1">
+                <span className="block text-sm font-semibold text-foreground">
+                  {t("longFormToggle")}
+                </span>
+                <span className="block text-xs text-foreground-secondary leading-relaxed">
+                  {longFormAutoEnabled
+                    ? t("longFormAutoEnabled", { limit: POEM_CHAR_LIMIT })
+                    : t("longFormHelper", { limit: LONG_FORM_CHAR_LIMIT })}
+                </span>
+              </span>
+            </label>
+
             {(poem.stanzas?.totalStanzas ?? 0) > 0 || hasBlankLinesDetected ? (
               <div className="space-y-3">
                 <button
@@ -986,6 +1079,14 @@ export function GuideRail({
                       </p>
                     )}
 
+                    {(poem.stanzas?.sections?.length ?? 0) > 1 && (
+                      <p className="text-sm">
+                        {t("sectionsDetected", {
+                          count: poem.stanzas!.sections!.length,
+                        })}
+                      </p>
+                    )}
+
                     {hasBlankLinesDetected && (
                       <div className="flex items-center justify-between gap-4">
                         <span className="text-sm">
@@ -1080,7 +1181,7 @@ export function GuideRail({
               disabled={!canEditVariety || isSourceVarietySubmitted}
               placeholder={t("sourceLanguageVarietyPlaceholder")}
               className={ui.input}
-              dir={dir}
+              dir={resolveTextDirection(sourceVarietyText, [], dir)}
               lang={locale}
             />
 
@@ -1142,7 +1243,7 @@ export function GuideRail({
               }
               placeholder={t("translationZonePlaceholder")}
               lang={locale}
-              dir={dir}
+              dir={resolveTextDirection(translationZoneText, [], dir)}
               className={cn(ui.textarea, "resize-y")}
             />
 
@@ -1196,7 +1297,7 @@ export function GuideRail({
               }
               placeholder={t("translationIntentPlaceholder")}
               lang={locale}
-              dir={dir}
+              dir={resolveTextDirection(translationIntentText, [], dir)}
               className={cn(ui.textarea, "resize-y")}
             />
 
@@ -1263,6 +1364,42 @@ export function GuideRail({
             )}
 
             {isSavingTranslationRangeMode && <p className={ui.subtle}>Saving…</p>}
+
+            <div className="space-y-2">
+              <p className="text-sm font-semibold text-foreground">
+                {t("variantCountLabel")}
+              </p>
+              <div
+                className="flex gap-2"
+                role="group"
+                aria-label={t("variantCountLabel")}
+              >
+                {Array.from(
+                  { length: MAX_VARIANT_COUNT - MIN_VARIANT_COUNT + 1 },
+                  (_, i) => MIN_VARIANT_COUNT + i
+                ).map((count) => (
+                  <button
+                    key={count}
+                    type="button"
+                    onClick={() => void handleSaveVariantCount(count)}
+                    className={cn(
+                      "h-9 w-9 rounded-md text-sm font-semibold",
+                      "transition-all duration-fast",
+                      "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent focus-visible:ring-offset-2",
+                      variantCount === count
+                        ? "bg-accent text-white"
+                        : "bg-muted text-foreground hover:bg-border-subtle"
+                    )}
+                    aria-pressed={variantCount === count}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-foreground-secondary leading-relaxed">
+                {t("variantCountHelper")}
+              </p>
+            </div>
           </div>,
 
           // Step 5: Translation Model
@@ -1348,6 +1485,25 @@ export function GuideRail({
                 </button>
               ))}
             </div>
+
+            <label className="flex items-start gap-3 rounded-md bg-muted px-4 py-3 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 accent-accent"
+                checked={translationMemoryEnabled}
+                onChange={(e) =>
+                  void handleToggleTranslationMemory(e.target.checked)
+                }
+              />
+              <span className="space-y-1">
+                <span className="block text-sm font-semibold text-foreground">
+                  {t("translationMemoryLabel")}
+                </span>
+                <span className="block text-xs text-foreground-secondary leading-relaxed">
+                  {t("translationMemoryHelper")}
+                </span>
+              </span>
+            </label>
           </div>,
         ]}
       </GuideSteps>
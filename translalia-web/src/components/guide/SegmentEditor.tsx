@@ -20,6 +20,11 @@ import {
   detectSmartBreakpoints,
   breakpointsToSegments,
 } from "@/lib/poem/smartStanzaDetection";
+import {
+  lineDirection,
+  resolveTextDirection,
+  type TextDirection,
+} from "@/lib/i18n/textDirection";
 
 export interface CustomSegmentation {
   lineToSegment: Map<number, number>; // Map of line index -> segment number (1-indexed)
@@ -41,6 +46,7 @@ export function SegmentEditor({
 }: SegmentEditorProps) {
   // Convert poem lines back to text for smart detection
   const poemText = poemLines.join("\n");
+  const poemDir = React.useMemo(() => resolveTextDirection(poemText), [poemText]);
 
   // Initialize segmentation from smart detection or provided initial
   const [lineToSegment, setLineToSegment] = React.useState<Map<number, number>>(
@@ -323,6 +329,7 @@ export function SegmentEditor({
                   moveLineToSegment={moveLineToSegment}
                   removeSegment={removeSegment}
                   activeLineIndex={activeLineIndex}
+                  poemDir={poemDir}
                 />
               ))}
             </div>
@@ -346,7 +353,10 @@ export function SegmentEditor({
             <span className="text-xs text-slate-400 font-mono">
               {activeLineIndex + 1}
             </span>
-            <span className="flex-1 text-sm text-slate-700">
+            <span
+              className="flex-1 text-sm text-slate-700"
+              dir={lineDirection(poemLines[activeLineIndex], poemDir)}
+            >
               {poemLines[activeLineIndex]}
             </span>
           </div>
@@ -364,6 +374,7 @@ function DraggableLine({
   totalSegments,
   moveLineToSegment,
   isDragging,
+  poemDir,
 }: {
   lineIndex: number;
   lineText: string;
@@ -371,6 +382,7 @@ function DraggableLine({
   totalSegments: number;
   moveLineToSegment: (lineIndex: number, targetSegment: number) => void;
   isDragging: boolean;
+  poemDir: TextDirection;
 }) {
   const { attributes, listeners, setNodeRef, transform } = useDraggable({
     id: String(lineIndex),
@@ -404,7 +416,12 @@ function DraggableLine({
       <span className="text-xs text-slate-400 font-mono w-8">
         {lineIndex + 1}
       </span>
-      <span className="flex-1 text-sm text-slate-700">{lineText}</span>
+      <span
+        className="flex-1 text-sm text-slate-700"
+        dir={lineDirection(lineText, poemDir)}
+      >
+        {lineText}
+      </span>
       <select
         value={segmentNumber}
         onChange={(e) =>
@@ -433,6 +450,7 @@ function SegmentDropZone({
   moveLineToSegment,
   removeSegment,
   activeLineIndex,
+  poemDir,
 }: {
   segmentNumber: number;
   lines: Array<{ lineIndex: number; lineText: string }>;
@@ -440,6 +458,7 @@ function SegmentDropZone({
   moveLineToSegment: (lineIndex: number, targetSegment: number) => void;
   removeSegment: (segmentNumber: number) => void;
   activeLineIndex: number | null;
+  poemDir: TextDirection;
 }) {
   const { isOver, setNodeRef } = useDroppable({
     id: `segment-${segmentNumber}`,
@@ -493,6 +512,7 @@ function SegmentDropZone({
               totalSegments={totalSegments}
               moveLineToSegment={moveLineToSegment}
               isDragging={activeLineIndex === lineIndex}
+              poemDir={poemDir}
             />
           ))
         )}
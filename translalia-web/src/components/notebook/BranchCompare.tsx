@@ -0,0 +1,247 @@
+"use client";
+
+import * as React from "react";
+import { useTranslations } from "next-intl";
+import { GitBranch, History, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  useDeleteBranch,
+  useForkBranch,
+  useUpdateBranchLine,
+} from "@/lib/hooks/useRevisions";
+import { cn } from "@/lib/utils";
+import { lineDirection } from "@/lib/i18n/textDirection";
+import { usePoemDirections } from "@/hooks/usePoemDirections";
+import type { TranslationBranch } from "@/types/revisions";
+import { RevisionDiff } from "./RevisionDiff";
+
+interface BranchControlsProps {
+  threadId: string | undefined;
+  branches: TranslationBranch[];
+  /** Selected branch id, or null to compare with the source text */
+  compareWith: string | null;
+  onCompareWithChange: (branchId: string | null) => void;
+  /** Open the revision history of the main translation or the selected branch */
+  onOpenHistory: () => void;
+}
+
+/**
+ * Toolbar row of ComparisonView: choose what the left column shows (source
+ * text or a branch), fork a new branch, delete one, open poem history.
+ */
+export function BranchControls({
+  threadId,
+  branches,
+  compareWith,
+  onCompareWithChange,
+  onOpenHistory,
+}: BranchControlsProps) {
+  const t = useTranslations("Notebook");
+  const forkBranch = useForkBranch(threadId);
+  const deleteBranch = useDeleteBranch(threadId);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const selected = branches.find((b) => b.id === compareWith) ?? null;
+
+  const handleFork = async () => {
+    const name = window.prompt(
+      t("branchNamePrompt"),
+      t("branchDefaultName", { n: branches.length + 1 })
+    );
+    if (!name?.trim()) return;
+
+    setError(null);
+    try {
+      const { branch } = await forkBranch.mutateAsync({
+        name: name.trim(),
+        fromBranchId: selected?.id,
+      });
+      onCompareWithChange(branch.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(t("branchDeleteConfirm", { name: selected.name }))) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await deleteBranch.mutateAsync(selected.id);
+      onCompareWithChange(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+      <label className="flex items-center gap-2 text-gray-600">
+        {t("branchCompareWith")}
+        <select
+          value={compareWith ?? ""}
+          onChange={(e) => onCompareWithChange(e.target.value || null)}
+          className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm"
+        >
+          <option value="">{t("branchSourceOption")}</option>
+          {branches.map((branch) => (
+            <option key={branch.id} value={branch.id}>
+              {branch.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => void handleFork()}
+        disabled={!threadId || forkBranch.isPending}
+        title={selected ? t("branchForkFromBranch") : t("branchForkFromMain")}
+      >
+        <GitBranch className="w-4 h-4 mr-1" />
+        {t("branchFork")}
+      </Button>
+      {selected && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => void handleDelete()}
+          disabled={deleteBranch.isPending}
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          {t("branchDelete")}
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" onClick={onOpenHistory}>
+        <History className="w-4 h-4 mr-1" />
+        {t("historyButton")}
+      </Button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
+
+interface BranchCompareColumnProps {
+  threadId: string | undefined;
+  branch: TranslationBranch;
+  /** Current main translation per line (0-based), to diff the branch against */
+  currentLines: Array<string | null>;
+  showLineNumbers: boolean;
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+  onScroll: (e: React.UIEvent<HTMLDivElement>) => void;
+  /** Copy a branch line into the main translation's draft */
+  onUseLine: (lineIndex: number, text: string) => void;
+}
+
+/**
+ * Left column of ComparisonView when a branch is selected: the branch's lines,
+ * editable (saved on blur), each with a word diff against the main translation.
+ */
+export function BranchCompareColumn({
+  threadId,
+  branch,
+  currentLines,
+  showLineNumbers,
+  scrollRef,
+  onScroll,
+  onUseLine,
+}: BranchCompareColumnProps) {
+  const t = useTranslations("Notebook");
+  const updateLine = useUpdateBranchLine(threadId);
+  const directions = usePoemDirections();
+  const [edits, setEdits] = React.useState<Record<number, string>>({});
+
+  React.useEffect(() => {
+    setEdits({});
+  }, [branch.id]);
+
+  const saveLine = (lineIndex: number) => {
+    const text = edits[lineIndex]?.trim();
+    if (!text || text === (branch.lines[lineIndex] ?? "").trim()) return;
+    updateLine.mutate(
+      { branchId: branch.id, lineIndex, text },
+      {
+        onSuccess: () =>
+          setEdits((prev) => {
+            const next = { ...prev };
+            delete next[lineIndex];
+            return next;
+          }),
+      }
+    );
+  };
+
+  return (
+    <div className="flex-1 bg-white flex flex-col">
+      <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex-shrink-0">
+        <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+          {branch.name}
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">{t("branchColumnHint")}</p>
+      </div>
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-y-auto px-4 py-4 space-y-4"
+        onScroll={onScroll}
+      >
+        {currentLines.map((current, idx) => {
+          const value = edits[idx] ?? branch.lines[idx] ?? "";
+          const differs = !!value.trim() && value.trim() !== (current ?? "").trim();
+          return (
+            <div key={`branch-${idx}`} className="group relative">
+              {showLineNumbers && (
+                <div className="text-xs text-gray-400 font-mono mb-1">
+                  Line {idx + 1}
+                </div>
+              )}
+              <div
+                className={cn(
+                  "p-3 rounded-lg border transition",
+                  differs
+                    ? "bg-amber-50 border-amber-200"
+                    : "bg-gray-50 border-gray-200"
+                )}
+              >
+                <textarea
+                  value={value}
+                  onChange={(e) =>
+                    setEdits((prev) => ({
+                      ...prev,
+                      [idx]: e.target.value.replace(/[\r\n]+/g, " "),
+                    }))
+                  }
+                  onBlur={() => saveLine(idx)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                      e.preventDefault();
+                    }
+                  }}
+                  dir={directions.target}
+                  className="min-h-[44px] w-full resize-y bg-transparent text-sm leading-relaxed text-gray-900 outline-none [unicode-bidi:plaintext]"
+                />
+                {differs && current && (
+                  <div className="mt-2 flex items-start justify-between gap-2 border-t border-amber-200 pt-2 text-xs text-gray-600">
+                    <RevisionDiff
+                      before={current}
+                      after={value}
+                      dir={lineDirection(value, directions.target)}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => onUseLine(idx, value.trim())}
+                      className="flex-shrink-0 rounded px-1.5 py-0.5 text-blue-700 hover:bg-blue-50"
+                    >
+                      {t("branchUseLine")}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
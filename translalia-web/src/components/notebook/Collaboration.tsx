@@ -0,0 +1,206 @@
+"use client";
+
+import * as React from "react";
+import { useTranslations } from "next-intl";
+import { UserMinus, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useSupabaseUser } from "@/hooks/useSupabaseUser";
+import {
+  useAddCollaborator,
+  useRemoveCollaborator,
+  useThreadParticipants,
+} from "@/lib/hooks/useThreadCollaboration";
+import type { CollabPresence } from "@/types/collaboration";
+
+const MAX_AVATARS = 4;
+
+function initials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  const letters = parts.length > 1 ? parts[0][0] + parts[1][0] : name.slice(0, 2);
+  return letters.toUpperCase();
+}
+
+export interface PresenceAvatarsProps {
+  /** Other users with the notebook open */
+  others: CollabPresence[];
+}
+
+/**
+ * Initials of the other collaborators currently in the notebook, with the
+ * line each of them is on in the tooltip.
+ */
+export function PresenceAvatars({ others }: PresenceAvatarsProps) {
+  const t = useTranslations("Notebook");
+  if (others.length === 0) return null;
+
+  const shown = others.slice(0, MAX_AVATARS);
+  const hidden = others.length - shown.length;
+
+  return (
+    <div className="flex items-center -space-x-1.5" aria-label={t("collabPresenceLabel")}>
+      {shown.map((p) => (
+        <span
+          key={p.userId}
+          className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-surface bg-accent-light text-[10px] font-semibold text-accent"
+          title={
+            p.lineIndex === null
+              ? p.name
+              : t("collabPresenceOnLine", { name: p.name, line: p.lineIndex + 1 })
+          }
+        >
+          {initials(p.name)}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-surface bg-muted text-[10px] text-foreground-secondary">
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export interface CollaboratorsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  threadId: string | null | undefined;
+}
+
+/**
+ * Who can edit the thread. The owner adds collaborators by email and removes
+ * them; a collaborator can leave.
+ */
+export function CollaboratorsDialog({
+  open,
+  onOpenChange,
+  threadId,
+}: CollaboratorsDialogProps) {
+  const t = useTranslations("Notebook");
+  const { user } = useSupabaseUser();
+  const { data, isLoading, error } = useThreadParticipants(open ? threadId : null);
+  const addCollaborator = useAddCollaborator(threadId);
+  const removeCollaborator = useRemoveCollaborator(threadId);
+  const [email, setEmail] = React.useState("");
+
+  const participants = data?.participants ?? [];
+  const isOwner = participants.some(
+    (p) => p.role === "owner" && p.userId === user?.id
+  );
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setEmail("");
+      addCollaborator.reset();
+    }
+    onOpenChange(next);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    try {
+      await addCollaborator.mutateAsync(email.trim());
+      setEmail("");
+    } catch {
+      // Shown from addCollaborator.error
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange} ariaLabelledby="collaborators-title">
+      <DialogHeader>
+        <div>
+          <DialogTitle id="collaborators-title" className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            {t("collabTitle")}
+          </DialogTitle>
+          <DialogDescription>{t("collabDescription")}</DialogDescription>
+        </div>
+      </DialogHeader>
+
+      <DialogContent className="max-h-[60vh] space-y-4 overflow-y-auto">
+        {isLoading && (
+          <p className="text-sm text-foreground-muted">{t("collabLoading")}</p>
+        )}
+        {error && (
+          <p className="text-sm text-error">{(error as Error).message}</p>
+        )}
+
+        <ul className="space-y-2">
+          {participants.map((p) => {
+            const name = p.displayName?.trim() || p.email || p.userId;
+            const canRemove =
+              p.role === "collaborator" && (isOwner || p.userId === user?.id);
+            return (
+              <li
+                key={p.userId}
+                className="flex items-center gap-3 rounded-md border border-border-subtle p-2"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm text-foreground">{name}</p>
+                  {p.email && p.email !== name && (
+                    <p className="truncate text-xs text-foreground-muted">{p.email}</p>
+                  )}
+                </div>
+                <Badge variant="secondary">{t(`collabRole.${p.role}`)}</Badge>
+                {canRemove && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeCollaborator.mutate(p.userId)}
+                    disabled={removeCollaborator.isPending}
+                    title={p.userId === user?.id ? t("collabLeave") : t("collabRemove")}
+                  >
+                    <UserMinus className="h-4 w-4" />
+                    <span className="sr-only">
+                      {p.userId === user?.id ? t("collabLeave") : t("collabRemove")}
+                    </span>
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {isOwner && (
+          <form onSubmit={handleAdd} className="space-y-2">
+            <label htmlFor="collaborator-email" className="text-sm font-medium text-foreground">
+              {t("collabAddLabel")}
+            </label>
+            <div className="flex gap-2">
+              <Input
+                id="collaborator-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder={t("collabEmailPlaceholder")}
+              />
+              <Button type="submit" disabled={!email.trim() || addCollaborator.isPending}>
+                {t("collabAdd")}
+              </Button>
+            </div>
+            {addCollaborator.error && (
+              <p className="text-sm text-error">{addCollaborator.error.message}</p>
+            )}
+          </form>
+        )}
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => handleOpenChange(false)}>
+          {t("collabClose")}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -4,7 +4,11 @@ import * as React from "react";
 import { useWorkshopStore } from "@/store/workshopSlice";
 import { useGuideStore } from "@/store/guideSlice";
 import { useThreadId } from "@/hooks/useThreadId";
-import { useWorkshopState } from "@/lib/hooks/useWorkshopFlow";
+import { useSaveManualLine, useWorkshopState } from "@/lib/hooks/useWorkshopFlow";
+import {
+  useTranslationBranches,
+  useUpdateBranchLine,
+} from "@/lib/hooks/useRevisions";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -25,8 +29,15 @@ import {
   Edit,
   RotateCcw,
   Save,
+  Layers,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { isolateBidi, lineDirection } from "@/lib/i18n/textDirection";
+import { usePoemDirections } from "@/hooks/usePoemDirections";
+import type { LineRevision } from "@/types/revisions";
+import { BranchCompareColumn, BranchControls } from "./BranchCompare";
+import { RevisionHistoryDialog } from "./RevisionHistoryDialog";
+import { VersionComparePanel } from "./VersionCompare";
 
 export interface ComparisonViewProps {
   /** Whether the sheet is open */
@@ -51,6 +62,8 @@ export interface ComparisonViewProps {
  * - Missing line highlighting
  * - Export capabilities (copy, TXT, PDF)
  * - Difference highlighting (optional)
+ * - Branches: fork an alternative translation and compare it with the
+ *   current one; revision history with restore
  * - Mobile-responsive stacking
  */
 export function ComparisonView({
@@ -64,6 +77,7 @@ export function ComparisonView({
   const draftLines = useWorkshopStore((s) => s.draftLines);
   const setDraft = useWorkshopStore((s) => s.setDraft);
   const setDraftLines = useWorkshopStore((s) => s.setDraftLines);
+  const setCompletedLine = useWorkshopStore((s) => s.setCompletedLine);
   const guideAnswers = useGuideStore((s) => s.answers);
   const translationIntent = useGuideStore(
     (s) => s.translationIntent.text ?? null
@@ -71,8 +85,12 @@ export function ComparisonView({
 
   const threadId = useThreadId() || undefined;
   const { data: savedWorkshopLines } = useWorkshopState(threadId);
+  const { data: branchesData } = useTranslationBranches(threadId);
+  const saveManualLine = useSaveManualLine();
+  const updateBranchLine = useUpdateBranchLine(threadId);
 
   const targetLanguageName = guideAnswers.targetLanguage?.lang?.trim() || null;
+  const directions = usePoemDirections();
   const targetVarietyName = guideAnswers.targetLanguage?.variety?.trim() || "";
   const targetLanguageDisplay =
     targetLanguageName ||
@@ -81,14 +99,23 @@ export function ComparisonView({
   const [copied, setCopied] = React.useState(false);
   const [syncScroll, setSyncScroll] = React.useState(true);
 
-  // Whole-edit mode state
-  const [editMode, setEditMode] = React.useState<"compare" | "whole-edit">(
-    "compare"
-  );
+  // Whole-edit / saved-versions mode state
+  const [editMode, setEditMode] = React.useState<
+    "compare" | "whole-edit" | "versions"
+  >("compare");
   const [wholeTranslation, setWholeTranslation] = React.useState("");
   const [hasUnsavedChanges, setHasUnsavedChanges] = React.useState(false);
   const [saveSuccess, setSaveSuccess] = React.useState(false);
 
+  // Left column: source text (null) or a branch translation
+  const [compareWith, setCompareWith] = React.useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = React.useState(false);
+  const branches = React.useMemo(
+    () => branchesData?.branches ?? [],
+    [branchesData]
+  );
+  const compareBranch = branches.find((b) => b.id === compareWith) ?? null;
+
   const leftScrollRef = React.useRef<HTMLDivElement>(null);
   const rightScrollRef = React.useRef<HTMLDivElement>(null);
   const scrollingRef = React.useRef<"left" | "right" | null>(null);
@@ -185,6 +212,63 @@ export function ComparisonView({
     }, 0);
   }, [comparisonLines]);
 
+  // Restore a revision of the main translation or of the compared branch
+  const handleRestoreRevision = React.useCallback(
+    async (revision: LineRevision) => {
+      if (!threadId) return;
+      if (revision.branchId) {
+        await updateBranchLine.mutateAsync({
+          branchId: revision.branchId,
+          lineIndex: revision.lineIndex,
+          text: revision.text,
+          origin: "restore",
+          restoredFrom: revision.id,
+        });
+        return;
+      }
+      await saveManualLine.mutateAsync({
+        threadId,
+        lineIndex: revision.lineIndex,
+        originalLine: poemLines[revision.lineIndex] ?? "",
+        translatedLine: revision.text,
+        origin: "restore",
+        restoredFrom: revision.id,
+      });
+      setCompletedLine(revision.lineIndex, revision.text);
+    },
+    [threadId, poemLines, updateBranchLine, saveManualLine, setCompletedLine]
+  );
+
+  const branchControls = (
+    <BranchControls
+      threadId={threadId}
+      branches={branches}
+      compareWith={compareBranch?.id ?? null}
+      onCompareWithChange={setCompareWith}
+      onOpenHistory={() => setHistoryOpen(true)}
+    />
+  );
+
+  const versionsPanel = (
+    <VersionComparePanel
+      threadId={threadId}
+      sourceLines={poemLines}
+      currentLines={comparisonLines.map((line) => line.translation)}
+      showLineNumbers={showLineNumbers}
+    />
+  );
+
+  const historyDialog = (
+    <RevisionHistoryDialog
+      open={historyOpen}
+      onOpenChange={setHistoryOpen}
+      threadId={threadId}
+      lineIndex={null}
+      branchId={compareBranch?.id ?? null}
+      onRestore={handleRestoreRevision}
+    />
+  );
+
   // Assemble complete translation from Studio drafts + confirmed saves
   const assembleWholeTranslation = React.useCallback(() => {
     return poemLines.map((_, idx) => getStudioValue(idx) || "").join("\n");
@@ -301,8 +385,8 @@ export function ComparisonView({
     const text = comparisonLines
       .map(
         (line) =>
-          `${line.lineNumber}. ${line.source}\n   → ${
-            line.translation || "[Not translated]"
+          `${line.lineNumber}. ${isolateBidi(line.source)}\n   → ${
+            line.translation ? isolateBidi(line.translation) : "[Not translated]"
           }`
       )
       .join("\n\n");
@@ -330,8 +414,8 @@ export function ComparisonView({
     const content = comparisonLines
       .map(
         (line) =>
-          `Line ${line.lineNumber}\nSource: ${line.source}\nTranslation: ${
-            line.translation || "[Not yet translated]"
+          `Line ${line.lineNumber}\nSource: ${isolateBidi(line.source)}\nTranslation: ${
+            line.translation ? isolateBidi(line.translation) : "[Not yet translated]"
           }\n`
       )
       .join("\n");
@@ -459,8 +543,8 @@ export function ComparisonView({
               (line) => `
             <div class="comparison-row">
               <div class="line-number">${line.lineNumber}</div>
-              <div class="source">${line.source}</div>
-              <div class="${line.translation ? "translation" : "missing"}">
+              <div class="source" dir="${lineDirection(line.source, directions.source)}">${line.source}</div>
+              <div class="${line.translation ? "translation" : "missing"}" dir="${lineDirection(line.translation, directions.target)}">
                 ${line.translation || "[Not yet translated]"}
               </div>
             </div>
@@ -560,6 +644,15 @@ export function ComparisonView({
             <Edit className="w-4 h-4" />
             Edit Whole
           </Button>
+          <Button
+            variant={editMode === "versions" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setEditMode("versions")}
+            className="gap-1"
+          >
+            <Layers className="w-4 h-4" />
+            Versions
+          </Button>
 
           {hasUnsavedChanges && editMode === "whole-edit" && (
             <Badge
@@ -581,6 +674,8 @@ export function ComparisonView({
           )}
         </div>
 
+        {branchControls}
+
         {/* Stats and Actions Bar */}
         <div className="flex items-center justify-between mt-4 pt-4 border-t">
           <div className="flex items-center gap-4">
@@ -663,39 +758,54 @@ export function ComparisonView({
       >
         {editMode === "compare" ? (
           <>
-            {/* Source Column */}
-            <div className="flex-1 bg-white flex flex-col">
-              <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex-shrink-0">
-                <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
-                  Source Text
-                </h3>
-                <p className="text-xs text-gray-500 mt-1">Original poem</p>
-              </div>
-              <div
-                ref={leftScrollRef}
-                className="flex-1 overflow-y-auto px-4 py-4 space-y-4"
+            {/* Source Column (or the compared branch) */}
+            {compareBranch ? (
+              <BranchCompareColumn
+                threadId={threadId}
+                branch={compareBranch}
+                currentLines={comparisonLines.map((line) => line.translation)}
+                showLineNumbers={showLineNumbers}
+                scrollRef={leftScrollRef}
                 onScroll={(e) => handleScroll("left", e)}
-              >
-                {comparisonLines.map((line) => (
-                  <div
-                    key={`source-${line.lineNumber}`}
-                    className="group relative"
-                    id={`source-line-${line.lineNumber}`}
-                  >
-                    {showLineNumbers && (
-                      <div className="text-xs text-gray-400 font-mono mb-1">
-                        Line {line.lineNumber}
+                onUseLine={(lineIndex, text) => setDraft(lineIndex, text)}
+              />
+            ) : (
+              <div className="flex-1 bg-white flex flex-col">
+                <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex-shrink-0">
+                  <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                    Source Text
+                  </h3>
+                  <p className="text-xs text-gray-500 mt-1">Original poem</p>
+                </div>
+                <div
+                  ref={leftScrollRef}
+                  className="flex-1 overflow-y-auto px-4 py-4 space-y-4"
+                  onScroll={(e) => handleScroll("left", e)}
+                >
+                  {comparisonLines.map((line) => (
+                    <div
+                      key={`source-${line.lineNumber}`}
+                      className="group relative"
+                      id={`source-line-${line.lineNumber}`}
+                    >
+                      {showLineNumbers && (
+                        <div className="text-xs text-gray-400 font-mono mb-1">
+                          Line {line.lineNumber}
+                        </div>
+                      )}
+                      <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 hover:border-gray-300 transition">
+                        <p
+                          className="text-sm text-gray-900 leading-relaxed"
+                          dir={lineDirection(line.source, directions.source)}
+                        >
+                          {line.source}
+                        </p>
                       </div>
-                    )}
-                    <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 hover:border-gray-300 transition">
-                      <p className="text-sm text-gray-900 leading-relaxed">
-                        {line.source}
-                      </p>
                     </div>
-                  </div>
-                ))}
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Divider */}
             <div className="w-1 bg-gray-300 flex-shrink-0" />
@@ -751,6 +861,7 @@ export function ComparisonView({
 
                         <textarea
                           value={getStudioValue(line.lineNumber - 1)}
+                          dir={directions.target}
                           onChange={(e) =>
                             setDraft(
                               line.lineNumber - 1,
@@ -771,7 +882,7 @@ export function ComparisonView({
                           }
                           className={cn(
                             "flex-1 min-h-[44px] w-full resize-y bg-transparent",
-                            "text-sm leading-relaxed outline-none",
+                            "text-sm leading-relaxed outline-none [unicode-bidi:plaintext]",
                             line.isCompleted
                               ? "text-gray-900 font-medium"
                               : "text-gray-700"
@@ -792,6 +903,8 @@ export function ComparisonView({
               </div>
             </div>
           </>
+        ) : editMode === "versions" ? (
+          versionsPanel
         ) : (
           <>
             {/* Left: Original Poem (read-only reference) */}
@@ -805,7 +918,10 @@ export function ComparisonView({
                 </p>
               </div>
               <div className="flex-1 overflow-y-auto px-4 py-4">
-                <pre className="text-sm whitespace-pre-wrap font-sans leading-relaxed text-gray-800">
+                <pre
+                  className="text-sm whitespace-pre-wrap font-sans leading-relaxed text-gray-800 [unicode-bidi:plaintext]"
+                  dir={directions.source}
+                >
                   {poemLines.join("\n")}
                 </pre>
               </div>
@@ -853,11 +969,12 @@ export function ComparisonView({
               <div className="flex-1 p-4 flex flex-col min-h-0">
                 <textarea
                   value={wholeTranslation}
+                  dir={directions.target}
                   onChange={(e) => {
                     setWholeTranslation(e.target.value);
                     setHasUnsavedChanges(true);
                   }}
-                  className="w-full flex-1 resize-none border rounded-lg p-4 font-sans text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[200px]"
+                  className="w-full flex-1 resize-none border rounded-lg p-4 font-sans text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[200px] [unicode-bidi:plaintext]"
                   placeholder="Your complete translation will appear here..."
                   spellCheck={false}
                 />
@@ -909,6 +1026,8 @@ export function ComparisonView({
           </div>
         </div>
       </div>
+
+      {historyDialog}
     </>
   );
 
@@ -972,6 +1091,15 @@ export function ComparisonView({
               <Edit className="w-4 h-4" />
               Edit Whole
             </Button>
+            <Button
+              variant={editMode === "versions" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setEditMode("versions")}
+              className="gap-1"
+            >
+              <Layers className="w-4 h-4" />
+              Versions
+            </Button>
 
             {hasUnsavedChanges && editMode === "whole-edit" && (
               <Badge
@@ -993,6 +1121,8 @@ export function ComparisonView({
             )}
           </div>
 
+          {branchControls}
+
           {/* Stats and Actions Bar */}
           <div className="flex items-center justify-between mt-4 pt-4 border-t">
             <div className="flex items-center gap-4">
@@ -1071,39 +1201,54 @@ export function ComparisonView({
         <div className="flex h-[calc(100%-180px)] gap-px bg-gray-200">
           {editMode === "compare" ? (
             <>
-              {/* Source Column */}
-              <div className="flex-1 bg-white flex flex-col">
-                <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex-shrink-0">
-                  <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
-                    Source Text
-                  </h3>
-                  <p className="text-xs text-gray-500 mt-1">Original poem</p>
-                </div>
-                <div
-                  ref={leftScrollRef}
-                  className="flex-1 overflow-y-auto px-4 py-4 space-y-4"
+              {/* Source Column (or the compared branch) */}
+              {compareBranch ? (
+                <BranchCompareColumn
+                  threadId={threadId}
+                  branch={compareBranch}
+                  currentLines={comparisonLines.map((line) => line.translation)}
+                  showLineNumbers={showLineNumbers}
+                  scrollRef={leftScrollRef}
                   onScroll={(e) => handleScroll("left", e)}
-                >
-                  {comparisonLines.map((line) => (
-                    <div
-                      key={`source-${line.lineNumber}`}
-                      className="group relative"
-                      id={`source-line-${line.lineNumber}`}
-                    >
-                      {showLineNumbers && (
-                        <div className="text-xs text-gray-400 font-mono mb-1">
-                          Line {line.lineNumber}
+                  onUseLine={(lineIndex, text) => setDraft(lineIndex, text)}
+                />
+              ) : (
+                <div className="flex-1 bg-white flex flex-col">
+                  <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex-shrink-0">
+                    <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                      Source Text
+                    </h3>
+                    <p className="text-xs text-gray-500 mt-1">Original poem</p>
+                  </div>
+                  <div
+                    ref={leftScrollRef}
+                    className="flex-1 overflow-y-auto px-4 py-4 space-y-4"
+                    onScroll={(e) => handleScroll("left", e)}
+                  >
+                    {comparisonLines.map((line) => (
+                      <div
+                        key={`source-${line.lineNumber}`}
+                        className="group relative"
+                        id={`source-line-${line.lineNumber}`}
+                      >
+                        {showLineNumbers && (
+                          <div className="text-xs text-gray-400 font-mono mb-1">
+                            Line {line.lineNumber}
+                          </div>
+                        )}
+                        <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 hover:border-gray-300 transition">
+                          <p
+                            className="text-sm text-gray-900 leading-relaxed"
+                            dir={lineDirection(line.source, directions.source)}
+                          >
+                            {line.source}
+                          </p>
                         </div>
-                      )}
-                      <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 hover:border-gray-300 transition">
-                        <p className="text-sm text-gray-900 leading-relaxed">
-                          {line.source}
-                        </p>
                       </div>
-                    </div>
-                  ))}
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Divider */}
               <div className="w-1 bg-gray-300 flex-shrink-0" />
@@ -1159,6 +1304,7 @@ export function ComparisonView({
 
                           <textarea
                             value={getStudioValue(line.lineNumber - 1)}
+                            dir={directions.target}
                             onChange={(e) =>
                               setDraft(
                                 line.lineNumber - 1,
@@ -1179,7 +1325,7 @@ export function ComparisonView({
                             }
                             className={cn(
                               "flex-1 min-h-[44px] w-full resize-y bg-transparent",
-                              "text-sm leading-relaxed outline-none",
+                              "text-sm leading-relaxed outline-none [unicode-bidi:plaintext]",
                               line.isCompleted
                                 ? "text-gray-900 font-medium"
                                 : "text-gray-700"
@@ -1200,6 +1346,8 @@ export function ComparisonView({
                 </div>
               </div>
             </>
+          ) : editMode === "versions" ? (
+            versionsPanel
           ) : (
             <>
               {/* Left: Original Poem (read-only reference) */}
@@ -1213,7 +1361,10 @@ export function ComparisonView({
                   </p>
                 </div>
                 <div className="flex-1 overflow-y-auto px-4 py-4">
-                  <pre className="text-sm whitespace-pre-wrap font-sans leading-relaxed text-gray-800">
+                  <pre
+                    className="text-sm whitespace-pre-wrap font-sans leading-relaxed text-gray-800 [unicode-bidi:plaintext]"
+                    dir={directions.source}
+                  >
                     {poemLines.join("\n")}
                   </pre>
                 </div>
@@ -1261,11 +1412,12 @@ export function ComparisonView({
                 <div className="flex-1 p-4 flex flex-col min-h-0">
                   <textarea
                     value={wholeTranslation}
+                    dir={directions.target}
                     onChange={(e) => {
                       setWholeTranslation(e.target.value);
                       setHasUnsavedChanges(true);
                     }}
-                    className="w-full flex-1 resize-none border rounded-lg p-4 font-sans text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[200px]"
+                    className="w-full flex-1 resize-none border rounded-lg p-4 font-sans text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[200px] [unicode-bidi:plaintext]"
                     placeholder="Your complete translation will appear here..."
                     spellCheck={false}
                   />
@@ -1317,6 +1469,7 @@ export function ComparisonView({
             </div>
           </div>
         </div>
+        {historyDialog}
       </SheetContent>
     </Sheet>
   );
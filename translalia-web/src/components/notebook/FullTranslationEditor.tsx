@@ -207,6 +207,9 @@ export function FullTranslationEditor({
       await queryClient.invalidateQueries({
         queryKey: ["workshop-state", threadId],
       });
+      await queryClient.invalidateQueries({
+        queryKey: ["line-revisions", threadId],
+      });
 
       console.log(
         `[FullTranslationEditor] Saved ${successCount}/${linesToSave.length} lines to database`
@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { FileText, Save, StickyNote } from "lucide-react";
+import { FileText, History, Save, StickyNote, Users } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
 import { Button } from "@/components/ui/button";
@@ -33,6 +33,16 @@ interface NotebookHeaderProps {
   notesButtonRef?: React.RefObject<HTMLButtonElement | null>;
   /** Optional on-demand help affordance rendered beside the notes button */
   notesHelp?: React.ReactNode;
+  /** Callback to open the revision history of the whole poem */
+  onOpenHistory?: () => void;
+  /** Label for the history button */
+  historyButtonLabel?: string;
+  /** Other collaborators in the notebook, rendered beside the title */
+  presence?: React.ReactNode;
+  /** Callback to open the collaborators dialog */
+  onOpenCollaborators?: () => void;
+  /** Label for the collaborators button */
+  collaboratorsButtonLabel?: string;
 }
 
 /**
@@ -52,6 +62,11 @@ export function NotebookHeader({
   notesButtonLabel = "Notes",
   notesButtonRef,
   notesHelp,
+  onOpenHistory,
+  historyButtonLabel = "History",
+  presence,
+  onOpenCollaborators,
+  collaboratorsButtonLabel = "Share",
 }: NotebookHeaderProps) {
   const hasUnsaved = draftCount > 0;
 
@@ -64,6 +79,8 @@ export function NotebookHeader({
             <h2 className="notebook-title">Notebook</h2>
           )}
 
+          {presence}
+
           {/* Unsaved badge with pulse animation */}
           <AnimatePresence>
             {hasUnsaved && (
@@ -132,6 +149,32 @@ export function NotebookHeader({
             </div>
           )}
 
+          {onOpenCollaborators && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={onOpenCollaborators}
+            >
+              <Users className="w-3.5 h-3.5 mr-1.5" />
+              {collaboratorsButtonLabel}
+            </Button>
+          )}
+
+          {onOpenHistory && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={onOpenHistory}
+            >
+              <History className="w-3.5 h-3.5 mr-1.5" />
+              {historyButtonLabel}
+            </Button>
+          )}
+
           {onOpenFullEditor && (
             <Button
               variant="outline"
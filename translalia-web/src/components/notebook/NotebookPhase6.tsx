@@ -3,13 +3,18 @@
 import * as React from "react";
 import { useDndMonitor } from "@dnd-kit/core";
 import { motion, AnimatePresence } from "framer-motion";
-import { FileText, X, Pencil } from "lucide-react";
+import { FileText, History, Link2, X, Pencil } from "lucide-react";
 import { HelpHint } from "@/components/ui/help-hint";
 import { useTranslations } from "next-intl";
 
 import { useWorkshopStore } from "@/store/workshopSlice";
+import { useGuideStore } from "@/store/guideSlice";
 import { useThreadId } from "@/hooks/useThreadId";
-import { useSaveManualLine, useSaveManualLineWithoutInvalidation } from "@/lib/hooks/useWorkshopFlow";
+import {
+  useSaveManualLine,
+  useSaveManualLineWithoutInvalidation,
+  useWorkshopState,
+} from "@/lib/hooks/useWorkshopFlow";
 import { useQueryClient } from "@tanstack/react-query";
 
 import { Textarea } from "@/components/ui/textarea";
@@ -17,7 +22,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { NotebookDropZone } from "./NotebookDropZone";
 import { FullTranslationEditor } from "./FullTranslationEditor";
 import { CompletionConfirmationDialog } from "./CompletionConfirmationDialog";
+import { RevisionHistoryDialog } from "./RevisionHistoryDialog";
+import { CollaboratorsDialog, PresenceAvatars } from "./Collaboration";
+import { SubmissionBanner } from "./SubmissionBanner";
 import { CongratulationsModal } from "@/components/workshop/CongratulationsModal";
+import { AlignmentEditor } from "@/components/workshop/AlignmentEditor";
 import { NotebookStatusIndicator } from "./NotebookStatusIndicator";
 import { NotebookHeader } from "./NotebookHeader";
 import { NoteMarker } from "./NoteMarker";
@@ -26,6 +35,14 @@ import { NotesSheet } from "./NotesSheet";
 import { useNotebookStore } from "@/store/notebookSlice";
 import { useIsCoarsePointer } from "@/hooks/useIsCoarsePointer";
 import { useNotebookNotesHydration } from "@/lib/hooks/useNotebookNotesHydration";
+import { useLineRevisions } from "@/lib/hooks/useRevisions";
+import { useThreadSubmission } from "@/lib/hooks/useClassroom";
+import { isSubmissionLocked } from "@/lib/classroom/workflow";
+import {
+  useParticipantNames,
+  useThreadCollaboration,
+} from "@/lib/hooks/useThreadCollaboration";
+import type { LineRevision } from "@/types/revisions";
 
 interface NotebookPhase6Props {
   projectId?: string;
@@ -56,10 +73,14 @@ export default function NotebookPhase6({
   const clearDraft = useWorkshopStore((s) => s.clearDraft);
   const setCompletedLine = useWorkshopStore((s) => s.setCompletedLine);
   const getDisplayText = useWorkshopStore((s) => s.getDisplayText);
+  const getDraftOrigin = useWorkshopStore((s) => s.getDraftOrigin);
+  // Long-form poems: section outline for the section jump
+  const sections = useGuideStore((s) => s.poem.stanzas?.sections);
 
   const threadId = useThreadId();
   const saveManualLine = useSaveManualLine();
   const saveManualLineBatch = useSaveManualLineWithoutInvalidation();
+  const { data: savedLines } = useWorkshopState(threadId ?? undefined);
   const queryClient = useQueryClient();
   const toggleNotesSheet = useNotebookStore((s) => s.toggleNotesSheet);
   const lineNotes = useNotebookStore((s) => s.lineNotes);
@@ -72,6 +93,13 @@ export default function NotebookPhase6({
   const [showFullEditor, setShowFullEditor] = React.useState(false);
   const [isDragActive, setIsDragActive] = React.useState(false);
   const [saveError, setSaveError] = React.useState<string | null>(null);
+  // Revision history dialog: one line, or the whole poem (lineIndex null)
+  const [historyTarget, setHistoryTarget] = React.useState<{
+    lineIndex: number | null;
+  } | null>(null);
+  // Alignment editor for a saved line
+  const [alignmentLineIndex, setAlignmentLineIndex] = React.useState<number | null>(null);
+  const [collaboratorsOpen, setCollaboratorsOpen] = React.useState(false);
   const [isSavingAll, setIsSavingAll] = React.useState(false);
   const [hoveredLineIndex, setHoveredLineIndex] = React.useState<number | null>(
     null
@@ -92,6 +120,38 @@ export default function NotebookPhase6({
   const autoSaveTimeoutRef = React.useRef<Record<number, NodeJS.Timeout>>({});
   const isCoarsePointer = useIsCoarsePointer();
   useNotebookNotesHydration();
+
+  // Co-editing: presence, line locks and who last saved each line
+  const collab = useThreadCollaboration(threadId, { currentLineIndex });
+  const participantNames = useParticipantNames(threadId);
+  const { data: mainRevisions } = useLineRevisions(threadId, {
+    enabled: participantNames !== null,
+  });
+  const lastEditors = React.useMemo(() => {
+    const editors: Record<number, string> = {};
+    if (!participantNames) return editors;
+    // Revisions are newest first: the first one per line is its last save
+    for (const revision of mainRevisions?.revisions ?? []) {
+      if (editors[revision.lineIndex] === undefined) {
+        editors[revision.lineIndex] =
+          participantNames[revision.createdBy] ?? t("collabUnknownUser");
+      }
+    }
+    return editors;
+  }, [mainRevisions, participantNames, t]);
+
+  // Assignment threads: submitting locks every line until the teacher returns it
+  const { data: threadSubmission } = useThreadSubmission(threadId);
+  const submissionStatus = threadSubmission?.submission?.status;
+  const isSubmitted = submissionStatus ? isSubmissionLocked(submissionStatus) : false;
+  const teacherLineComments = React.useMemo(() => {
+    const comments: Record<number, string[]> = {};
+    for (const comment of threadSubmission?.comments ?? []) {
+      if (comment.lineIndex === null) continue;
+      (comments[comment.lineIndex] ??= []).push(comment.body);
+    }
+    return comments;
+  }, [threadSubmission]);
   const [jumpHighlightIndex, setJumpHighlightIndex] = React.useState<
     number | null
   >(null);
@@ -197,6 +257,7 @@ export default function NotebookPhase6({
           lineIndex,
           originalLine: poemLines[lineIndex] ?? "",
           translatedLine,
+          origin: getDraftOrigin(lineIndex),
         });
         setCompletedLine(lineIndex, translatedLine);
       } catch (e) {
@@ -204,7 +265,14 @@ export default function NotebookPhase6({
         // Don't show error for auto-save - it's silent
       }
     },
-    [threadId, getDisplayText, poemLines, saveManualLine, setCompletedLine]
+    [
+      threadId,
+      getDisplayText,
+      getDraftOrigin,
+      poemLines,
+      saveManualLine,
+      setCompletedLine,
+    ]
   );
 
   // Show completion dialog when all lines are completed (only once)
@@ -394,6 +462,7 @@ export default function NotebookPhase6({
           lineIndex,
           originalLine: poemLines[lineIndex] ?? "",
           translatedLine,
+          origin: getDraftOrigin(lineIndex),
         });
 
         setCompletedLine(lineIndex, translatedLine);
@@ -402,7 +471,38 @@ export default function NotebookPhase6({
         setSaveError("Couldn't save right now. Your draft is still here.");
       }
     },
-    [threadId, getDisplayText, poemLines, saveManualLine, setCompletedLine]
+    [
+      threadId,
+      getDisplayText,
+      getDraftOrigin,
+      poemLines,
+      saveManualLine,
+      setCompletedLine,
+    ]
+  );
+
+  // Restore a saved revision as the line's current translation
+  const handleRestoreRevision = React.useCallback(
+    async (revision: LineRevision) => {
+      if (!threadId) return;
+
+      setSaveError(null);
+      try {
+        await saveManualLine.mutateAsync({
+          threadId,
+          lineIndex: revision.lineIndex,
+          originalLine: poemLines[revision.lineIndex] ?? "",
+          translatedLine: revision.text,
+          origin: "restore",
+          restoredFrom: revision.id,
+        });
+        setCompletedLine(revision.lineIndex, revision.text);
+      } catch (e) {
+        console.error("[Notebook] Failed to restore revision:", e);
+        setSaveError("Couldn't restore that version. Please try again.");
+      }
+    },
+    [threadId, poemLines, saveManualLine, setCompletedLine]
   );
 
   // Save all lines with content (both draft and completed)
@@ -444,6 +544,7 @@ export default function NotebookPhase6({
             lineIndex,
             originalLine: poemLines[lineIndex] ?? "",
             translatedLine: text,
+            origin: getDraftOrigin(lineIndex),
           });
           saveResults.push({ lineIndex, success: true });
         } catch (lineError) {
@@ -478,6 +579,9 @@ export default function NotebookPhase6({
       await queryClient.invalidateQueries({
         queryKey: ["workshop-state", threadId],
       });
+      await queryClient.invalidateQueries({
+        queryKey: ["line-revisions", threadId],
+      });
 
       // Report errors if any
       if (failCount > 0) {
@@ -495,6 +599,7 @@ export default function NotebookPhase6({
     threadId,
     poemLines,
     getDisplayText,
+    getDraftOrigin,
     saveManualLineBatch,
     queryClient,
   ]);
@@ -506,6 +611,25 @@ export default function NotebookPhase6({
     ).length;
   }, [completedLines]);
 
+  const sectionCompletion = React.useMemo(() => {
+    if (!sections || sections.length < 2) return null;
+    return sections.map((section) => {
+      let completed = 0;
+      for (let i = section.firstLine; i < section.firstLine + section.lineCount; i++) {
+        if (completedLines[i]?.trim()) completed += 1;
+      }
+      return { section, completed };
+    });
+  }, [sections, completedLines]);
+
+  const currentSectionIndex =
+    sections?.find(
+      (s) =>
+        currentLineIndex !== null &&
+        currentLineIndex >= s.firstLine &&
+        currentLineIndex < s.firstLine + s.lineCount
+    )?.index ?? 0;
+
   if (poemLines.length === 0) {
     return (
       <div className="h-full flex items-center justify-center p-6 notebook-paper">
@@ -534,6 +658,11 @@ export default function NotebookPhase6({
         onSaveAll={handleSaveAll}
         onOpenFullEditor={() => setShowFullEditor(true)}
         onOpenNotes={() => setNotesSheetOpen(true)}
+        onOpenHistory={() => setHistoryTarget({ lineIndex: null })}
+        historyButtonLabel={t("historyButton")}
+        presence={<PresenceAvatars others={collab.others} />}
+        onOpenCollaborators={() => setCollaboratorsOpen(true)}
+        collaboratorsButtonLabel={t("collabButton")}
         lineNotesCount={lineNotesCount}
         notesButtonLabel={t("notesTitle", { defaultValue: "Notes" })}
         notesButtonRef={notesButtonRef}
@@ -554,6 +683,13 @@ export default function NotebookPhase6({
         }
       />
 
+      {threadSubmission?.submission && (
+        <SubmissionBanner
+          data={threadSubmission}
+          hasUnsavedDrafts={Object.keys(draftLines).length > 0}
+        />
+      )}
+
       {/* Column headers + notes instruction (muted; keeps action header uncluttered) */}
       <div className="sticky top-0 z-10 bg-surface">
         <div className="grid grid-cols-2 border-b border-border-subtle">
@@ -562,6 +698,27 @@ export default function NotebookPhase6({
           </div>
           <div className="notebook-column-header pl-8">Translation</div>
         </div>
+        {sectionCompletion && (
+          <label className="flex items-center gap-2 border-b border-border-subtle px-5 py-1.5 text-xs text-foreground-secondary">
+            {t("sectionJump")}
+            <select
+              value={currentSectionIndex}
+              onChange={(e) => {
+                const section = sections?.[parseInt(e.target.value, 10)];
+                if (section) handleJumpToLine(section.firstLine);
+              }}
+              className="min-w-0 max-w-[20rem] rounded-md border border-border-subtle bg-white px-2 py-1 text-xs"
+            >
+              {sectionCompletion.map(({ section, completed }) => (
+                <option key={section.index} value={section.index}>
+                  {section.title ?? t("sectionNumber", { number: section.index + 1 })}
+                  {" — "}
+                  {t("sectionLines", { completed, total: section.lineCount })}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
         <div className="flex items-center gap-1.5 border-b border-border-subtle px-5 py-1.5">
           <p className="text-xs text-foreground-muted leading-snug">
             {t("notesInstruction", {
@@ -601,6 +758,8 @@ export default function NotebookPhase6({
             lineNote !== null && lineNote.trim().length > 0;
 
           const isJumpHighlighted = jumpHighlightIndex === idx;
+          const lockHolder = collab.lockedByOther(idx);
+          const lastEditor = lastEditors[idx];
 
           return (
             <motion.div
@@ -701,6 +860,7 @@ export default function NotebookPhase6({
                         // Strip any newlines that may be pasted in
                         const newValue = e.target.value.replace(/[\r\n]+/g, " ");
                         setDraft(idx, newValue);
+                        collab.broadcastDraft(idx, newValue);
                         setCurrentLineIndex(idx);
                         const target = e.target as HTMLTextAreaElement;
                         resizeTextareaIfOverflow(target);
@@ -715,13 +875,16 @@ export default function NotebookPhase6({
                           }
                         }, 2000);
                       }}
+                      readOnly={isSubmitted || lockHolder !== null}
                       onFocus={() => {
                         setCurrentLineIndex(idx);
+                        if (!lockHolder && !isSubmitted) void collab.lockLine(idx);
                         const textarea = textareaRefs.current[idx];
                         if (textarea) {
                           resizeTextareaIfOverflow(textarea);
                         }
                       }}
+                      onBlur={() => collab.unlockLine(idx)}
                       onKeyDown={(e) => {
                         const isMac = navigator.platform
                           .toUpperCase()
@@ -758,6 +921,23 @@ export default function NotebookPhase6({
                       }}
                     />
                   </NotebookDropZone>
+                  {lockHolder ? (
+                    <p className="mt-1 text-xs text-amber-700">
+                      {t("collabEditing", { name: lockHolder.name })}
+                    </p>
+                  ) : lastEditor && hasContent ? (
+                    <p className="mt-0.5 text-[11px] text-foreground-muted">
+                      {t("collabLastEditedBy", { name: lastEditor })}
+                    </p>
+                  ) : null}
+                  {teacherLineComments[idx]?.map((body, i) => (
+                    <p
+                      key={i}
+                      className="mt-1 rounded bg-amber-50 px-2 py-1 text-xs text-amber-900"
+                    >
+                      {t("submissionTeacherComment", { comment: body })}
+                    </p>
+                  ))}
                 </div>
                 {/* Show pencil icon when empty and hovered, clear button when has content */}
                 <AnimatePresence mode="wait">
@@ -772,7 +952,7 @@ export default function NotebookPhase6({
                       <Pencil className="w-4 h-4 text-foreground-disabled mt-0.5 flex-shrink-0" />
                     </motion.div>
                   )}
-                  {hasContent && (isHovered || isActive) && (
+                  {hasContent && (isHovered || isActive) && !lockHolder && !isSubmitted && (
                     <motion.button
                       key="clear"
                       type="button"
@@ -794,6 +974,53 @@ export default function NotebookPhase6({
                       <X className="w-4 h-4" />
                     </motion.button>
                   )}
+                  {hasContent && (isHovered || isActive) && (
+                    <motion.button
+                      key="history"
+                      type="button"
+                      initial={{ opacity: 0, scale: 0.8 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      exit={{ opacity: 0, scale: 0.8 }}
+                      transition={{ duration: 0.15 }}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setHistoryTarget({ lineIndex: idx });
+                      }}
+                      className={[
+                        "mt-0.5 flex-shrink-0 rounded p-1 text-foreground-muted",
+                        "hover:bg-muted hover:text-foreground-secondary",
+                        "transition-colors",
+                      ].join(" ")}
+                      aria-label={t("historyLineButton")}
+                    >
+                      <History className="w-4 h-4" />
+                    </motion.button>
+                  )}
+                  {status === "completed" &&
+                    !isSubmitted &&
+                    !!savedLines?.[idx] &&
+                    (isHovered || isActive) && (
+                      <motion.button
+                        key="alignment"
+                        type="button"
+                        initial={{ opacity: 0, scale: 0.8 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.8 }}
+                        transition={{ duration: 0.15 }}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setAlignmentLineIndex(idx);
+                        }}
+                        className={[
+                          "mt-0.5 flex-shrink-0 rounded p-1 text-foreground-muted",
+                          "hover:bg-muted hover:text-foreground-secondary",
+                          "transition-colors",
+                        ].join(" ")}
+                        aria-label={t("alignmentLineButton")}
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </motion.button>
+                    )}
                 </AnimatePresence>
               </div>
             </motion.div>
@@ -868,6 +1095,12 @@ export default function NotebookPhase6({
         onEditLineNote={handleEditLineNote}
       />
 
+      <CollaboratorsDialog
+        open={collaboratorsOpen}
+        onOpenChange={setCollaboratorsOpen}
+        threadId={threadId}
+      />
+
       {/* Full Translation Editor */}
       <FullTranslationEditor
         open={showFullEditor}
@@ -875,6 +1108,31 @@ export default function NotebookPhase6({
       />
 
       {/* Completion Confirmation Dialog */}
+      <RevisionHistoryDialog
+        open={historyTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setHistoryTarget(null);
+        }}
+        threadId={threadId}
+        lineIndex={historyTarget?.lineIndex ?? null}
+        onRestore={handleRestoreRevision}
+      />
+
+      {threadId && alignmentLineIndex !== null && savedLines?.[alignmentLineIndex] && (
+        <AlignmentEditor
+          open
+          onOpenChange={(open) => {
+            if (!open) setAlignmentLineIndex(null);
+          }}
+          threadId={threadId}
+          lineIndex={alignmentLineIndex}
+          variant={null}
+          sourceText={poemLines[alignmentLineIndex] ?? ""}
+          translationText={savedLines[alignmentLineIndex].translated}
+          words={savedLines[alignmentLineIndex].alignment ?? []}
+        />
+      )}
+
       <CompletionConfirmationDialog
         open={showCompletionDialog}
         onOpenChange={setShowCompletionDialog}
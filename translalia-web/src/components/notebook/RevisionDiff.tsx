@@ -0,0 +1,43 @@
+"use client";
+
+import * as React from "react";
+import { diffWords } from "@/lib/revisions/history";
+import { cn } from "@/lib/utils";
+import type { TextDirection } from "@/lib/i18n/textDirection";
+
+interface RevisionDiffProps {
+  before: string;
+  after: string;
+  className?: string;
+  /** Direction of the compared text (isolates it from the surrounding UI) */
+  dir?: TextDirection;
+}
+
+/**
+ * Word-level diff of two texts: removed words struck through, added words
+ * highlighted.
+ */
+export function RevisionDiff({ before, after, className, dir }: RevisionDiffProps) {
+  const segments = React.useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <span className={cn("leading-relaxed", className)} dir={dir}>
+      {segments.map((segment, i) => (
+        <React.Fragment key={i}>
+          {i > 0 && " "}
+          {segment.type === "equal" ? (
+            <span>{segment.text}</span>
+          ) : segment.type === "delete" ? (
+            <del className="rounded bg-error-light px-0.5 text-error">
+              {segment.text}
+            </del>
+          ) : (
+            <ins className="rounded bg-success-light px-0.5 text-success no-underline">
+              {segment.text}
+            </ins>
+          )}
+        </React.Fragment>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import * as React from "react";
+import { useTranslations } from "next-intl";
+import { History, RotateCcw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useLineRevisions } from "@/lib/hooks/useRevisions";
+import { useParticipantNames } from "@/lib/hooks/useThreadCollaboration";
+import { cn } from "@/lib/utils";
+import type { LineRevision } from "@/types/revisions";
+import { RevisionDiff } from "./RevisionDiff";
+
+export interface RevisionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  threadId: string | null | undefined;
+  /** One line's history; null for the whole poem */
+  lineIndex: number | null;
+  /** Branch to read; null or omitted for the main translation */
+  branchId?: string | null;
+  /** Restore a revision as the line's current text */
+  onRestore: (revision: LineRevision) => Promise<void> | void;
+}
+
+/**
+ * Saved revisions of a line (or every line of the poem), newest first.
+ * Pick one revision to see what it changed, or two to compare them; any
+ * revision can be restored. Shared threads show who saved each revision.
+ */
+export function RevisionHistoryDialog({
+  open,
+  onOpenChange,
+  threadId,
+  lineIndex,
+  branchId = null,
+  onRestore,
+}: RevisionHistoryDialogProps) {
+  const t = useTranslations("Notebook");
+  const { data, isLoading, error } = useLineRevisions(threadId, {
+    lineIndex,
+    branchId,
+    enabled: open,
+  });
+  const revisions = React.useMemo(() => data?.revisions ?? [], [data]);
+  // Authors are only shown on shared threads
+  const authorNames = useParticipantNames(open ? threadId : null);
+
+  const [picked, setPicked] = React.useState<string[]>([]);
+  const [restoringId, setRestoringId] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!open) setPicked([]);
+  }, [open, lineIndex, branchId]);
+
+  const togglePick = (id: string) => {
+    setPicked((prev) =>
+      prev.includes(id)
+        ? prev.filter((p) => p !== id)
+        : [...prev, id].slice(-2)
+    );
+  };
+
+  // Older revision on the left of the diff, newer on the right. With one pick,
+  // compare it with the revision before it on the same line.
+  const comparison = React.useMemo(() => {
+    const chosen = revisions.filter((r) => picked.includes(r.id));
+    if (chosen.length === 2) {
+      const [newer, older] = chosen;
+      return { before: older, after: newer };
+    }
+    if (chosen.length === 1) {
+      const after = chosen[0];
+      const before = revisions.find(
+        (r) => r.lineIndex === after.lineIndex && r.createdAt < after.createdAt
+      );
+      return { before: before ?? null, after };
+    }
+    return null;
+  }, [revisions, picked]);
+
+  const handleRestore = async (revision: LineRevision) => {
+    setRestoringId(revision.id);
+    try {
+      await onRestore(revision);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const title =
+    lineIndex === null
+      ? t("historyPoemTitle")
+      : t("historyLineTitle", { line: lineIndex + 1 });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+      ariaLabelledby="revision-history-title"
+    >
+      <DialogHeader>
+        <div>
+          <DialogTitle id="revision-history-title" className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{t("historyDescription")}</DialogDescription>
+        </div>
+      </DialogHeader>
+
+      <DialogContent className="max-h-[60vh] space-y-3 overflow-y-auto">
+        {comparison && (
+          <div className="rounded-md border border-border-subtle bg-muted p-3 text-sm">
+            <p className="mb-1 text-xs font-medium text-foreground-secondary">
+              {comparison.before
+                ? t("historyDiffLabel")
+                : t("historyFirstRevision")}
+            </p>
+            <RevisionDiff
+              before={comparison.before?.text ?? ""}
+              after={comparison.after.text}
+            />
+          </div>
+        )}
+
+        {isLoading && (
+          <p className="text-sm text-foreground-muted">{t("historyLoading")}</p>
+        )}
+        {error && (
+          <p className="text-sm text-error">{(error as Error).message}</p>
+        )}
+        {!isLoading && !error && revisions.length === 0 && (
+          <p className="text-sm text-foreground-muted">{t("historyEmpty")}</p>
+        )}
+
+        <ul className="space-y-2">
+          {revisions.map((revision) => {
+            const isPicked = picked.includes(revision.id);
+            return (
+              <li
+                key={revision.id}
+                className={cn(
+                  "flex items-start gap-3 rounded-md border p-2",
+                  isPicked ? "border-accent bg-accent-light" : "border-border-subtle"
+                )}
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={isPicked}
+                  onChange={() => togglePick(revision.id)}
+                  aria-label={t("historyPick")}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="mb-1 flex flex-wrap items-center gap-2 text-xs text-foreground-muted">
+                    {lineIndex === null && (
+                      <span className="font-medium">
+                        {t("historyLineLabel", { line: revision.lineIndex + 1 })}
+                      </span>
+                    )}
+                    <Badge variant="secondary">
+                      {t(`historyOrigin.${revision.origin}`)}
+                      {revision.variant ? ` ${revision.variant}` : ""}
+                    </Badge>
+                    {authorNames && (
+                      <span>
+                        {authorNames[revision.createdBy] ?? t("collabUnknownUser")}
+                      </span>
+                    )}
+                    <time dateTime={revision.createdAt}>
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </time>
+                  </div>
+                  <p className="text-sm text-foreground">{revision.text}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => void handleRestore(revision)}
+                  disabled={restoringId !== null}
+                  title={t("historyRestore")}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span className="sr-only">{t("historyRestore")}</span>
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          {t("historyClose")}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import * as React from "react";
+import { useTranslations } from "next-intl";
+import { GraduationCap, Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSubmissionAction } from "@/lib/hooks/useClassroom";
+import { isSubmissionLocked } from "@/lib/classroom/workflow";
+import type { ThreadSubmissionResponse } from "@/types/classroom";
+
+export interface SubmissionBannerProps {
+  data: ThreadSubmissionResponse;
+  /** Unsaved drafts would be left out of the submission */
+  hasUnsavedDrafts: boolean;
+}
+
+/**
+ * Strip above an assignment's notebook: status, the Submit button and the
+ * teacher's feedback. Line comments are shown on their lines.
+ */
+export function SubmissionBanner({ data, hasUnsavedDrafts }: SubmissionBannerProps) {
+  const t = useTranslations("Notebook");
+  const tClass = useTranslations("Classroom");
+  const action = useSubmissionAction();
+  const { submission, assignment } = data;
+  if (!submission) return null;
+
+  const locked = isSubmissionLocked(submission.status);
+  const generalComments = data.comments.filter((c) => c.lineIndex === null);
+
+  return (
+    <div className="border-b border-border-subtle bg-amber-50/60 px-5 py-2.5 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-foreground">
+          {locked ? (
+            <Lock className="h-4 w-4 text-amber-700" />
+          ) : (
+            <GraduationCap className="h-4 w-4 text-amber-700" />
+          )}
+          <span className="font-medium">{assignment?.title}</span>
+          <span className="text-foreground-muted">
+            · {tClass(`status.${submission.status}`)}
+          </span>
+          {locked && <span className="text-foreground-muted">{t("submissionLocked")}</span>}
+        </div>
+        {!locked && (
+          <div className="flex items-center gap-2">
+            {hasUnsavedDrafts && (
+              <span className="text-xs text-amber-800">{t("submissionSaveDrafts")}</span>
+            )}
+            <Button
+              size="sm"
+              disabled={action.isPending || hasUnsavedDrafts}
+              onClick={() => action.mutate({ submissionId: submission.id, action: "submit" })}
+            >
+              {action.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t("submissionSubmit")}
+            </Button>
+          </div>
+        )}
+      </div>
+      {action.error && <p className="mt-1 text-xs text-red-600">{action.error.message}</p>}
+      {(submission.feedback || generalComments.length > 0) && (
+        <div className="mt-2 space-y-1 text-amber-900">
+          <p className="text-xs font-semibold uppercase tracking-wide">
+            {t("submissionFeedback")}
+          </p>
+          {submission.feedback && <p className="whitespace-pre-wrap">{submission.feedback}</p>}
+          {generalComments.map((comment) => (
+            <p key={comment.id} className="whitespace-pre-wrap">
+              {comment.body}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,8 +15,11 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+import { lineDirection } from "@/lib/i18n/textDirection";
+import { usePoemDirections } from "@/hooks/usePoemDirections";
 import { GripVertical, X, Edit2, Check, Lock, Unlock } from "lucide-react";
 import { DragData } from "@/types/drag";
+import { TranslationMemoryMatches } from "@/components/workshop/TranslationMemoryMatches";
 
 export interface TranslationCellData {
   id: string;
@@ -39,6 +42,8 @@ interface TranslationCellProps {
   onCancel: (cellId: string) => void;
   onRemove: (cellId: string) => void;
   onToggleLock: (cellId: string) => void;
+  /** Enables translation memory suggestions in the edit dialog. */
+  threadId?: string;
 }
 
 export function TranslationCell({
@@ -49,10 +54,17 @@ export function TranslationCell({
   onCancel,
   onRemove,
   onToggleLock,
+  threadId,
 }: TranslationCellProps) {
   const [editText, setEditText] = React.useState(
     cell.customText || cell.words.map((w) => w.text).join(" ")
   );
+  const originalText = cell.words
+    .map((w) => w.originalWord)
+    .filter(Boolean)
+    .join(" ");
+
+  const directions = usePoemDirections();
 
   const isArrangeMode = mode === "arrange";
   const isEditMode = mode === "edit";
@@ -128,7 +140,10 @@ export function TranslationCell({
           {...attributes}
           {...listeners}
         >
-          <span className="text-sm font-medium truncate max-w-[180px]">
+          <span
+            className="text-sm font-medium truncate max-w-[180px]"
+            dir={lineDirection(chipText, directions.target)}
+          >
             {chipText || "…"}
           </span>
           <div className="flex items-center gap-1">
@@ -184,14 +199,20 @@ export function TranslationCell({
                 <div className="text-xs font-semibold text-gray-700">
                   Original
                 </div>
-                <div className="rounded-lg border bg-gray-50 px-3 py-2 text-sm text-gray-800">
-                  {cell.words
-                    .map((w) => w.originalWord)
-                    .filter(Boolean)
-                    .join(" ")}
+                <div
+                  className="rounded-lg border bg-gray-50 px-3 py-2 text-sm text-gray-800"
+                  dir={lineDirection(originalText, directions.source)}
+                >
+                  {originalText}
                 </div>
               </div>
 
+              <TranslationMemoryMatches
+                threadId={threadId}
+                sourceText={originalText}
+                onUse={setEditText}
+              />
+
               <div className="space-y-1">
                 <div className="text-xs font-semibold text-gray-700">
                   Translation
@@ -199,7 +220,8 @@ export function TranslationCell({
                 <Textarea
                   value={editText}
                   onChange={(e) => setEditText(e.target.value)}
-                  className="min-h-[90px] resize-none"
+                  className="min-h-[90px] resize-none [unicode-bidi:plaintext]"
+                  dir={directions.target}
                   placeholder="Edit your translation..."
                   autoFocus
                   onKeyDown={(e) => {
@@ -389,7 +411,10 @@ export function TranslationCell({
           <div className="p-4" onClick={(e) => e.stopPropagation()}>
             <div className="space-y-2">
               {/* Translation Text */}
-              <p className="text-base font-medium leading-relaxed">
+              <p
+                className="text-base font-medium leading-relaxed"
+                dir={lineDirection(chipText, directions.target)}
+              >
                 {cell.customText || cell.words.map((w) => w.text).join(" ")}
               </p>
 
@@ -397,7 +422,11 @@ export function TranslationCell({
               <div className="text-xs text-gray-500 flex flex-wrap gap-2 pt-2 border-t">
                 <span className="font-medium">From:</span>
                 {cell.words.map((w, idx) => (
-                  <span key={idx} className="italic">
+                  <span
+                    key={idx}
+                    className="italic"
+                    dir={lineDirection(w.originalWord, directions.source)}
+                  >
                     {w.originalWord}
                     {idx < cell.words.length - 1 ? "," : ""}
                   </span>
@@ -426,14 +455,20 @@ export function TranslationCell({
               <div className="text-xs font-semibold text-gray-700">
                 Original
               </div>
-              <div className="rounded-lg border bg-gray-50 px-3 py-2 text-sm text-gray-800">
-                {cell.words
-                  .map((w) => w.originalWord)
-                  .filter(Boolean)
-                  .join(" ")}
+              <div
+                className="rounded-lg border bg-gray-50 px-3 py-2 text-sm text-gray-800"
+                dir={lineDirection(originalText, directions.source)}
+              >
+                {originalText}
               </div>
             </div>
 
+            <TranslationMemoryMatches
+              threadId={threadId}
+              sourceText={originalText}
+              onUse={setEditText}
+            />
+
             <div className="space-y-1">
               <div className="text-xs font-semibold text-gray-700">
                 Translation
@@ -441,7 +476,8 @@ export function TranslationCell({
               <Textarea
                 value={editText}
                 onChange={(e) => setEditText(e.target.value)}
-                className="min-h-[90px] resize-none"
+                className="min-h-[90px] resize-none [unicode-bidi:plaintext]"
+                dir={directions.target}
                 placeholder="Edit your translation..."
                 autoFocus
                 onKeyDown={(e) => {
@@ -0,0 +1,360 @@
+"use client";
+
+import * as React from "react";
+import { useParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Camera, Sparkles, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  useCompareVersions,
+  useDeleteVersion,
+  useSaveVersion,
+  useTranslationVersions,
+  useVersionCommentary,
+} from "@/lib/hooks/useVersions";
+import { cn } from "@/lib/utils";
+import { lineDirection, type TextDirection } from "@/lib/i18n/textDirection";
+import { usePoemDirections } from "@/hooks/usePoemDirections";
+import type { DiffSegment } from "@/types/revisions";
+import type {
+  CompareGranularity,
+  CompareLens,
+  VersionLineStatus,
+} from "@/types/versions";
+
+const GRANULARITIES: CompareGranularity[] = ["line", "phrase", "char"];
+const LENSES: CompareLens[] = ["meaning", "form", "tone", "culture"];
+const STATUSES: VersionLineStatus[] = ["changed", "added", "removed", "equal"];
+
+/**
+ * Segments of a version diff. Tokens carry their own spacing, so segments are
+ * rendered back to back (unlike RevisionDiff's word segments).
+ */
+function VersionDiffText({
+  segments,
+  dir,
+}: {
+  segments: DiffSegment[];
+  dir: TextDirection;
+}) {
+  return (
+    <span className="leading-relaxed whitespace-pre-wrap" dir={dir}>
+      {segments.map((segment, i) =>
+        segment.type === "equal" ? (
+          <span key={i}>{segment.text}</span>
+        ) : segment.type === "delete" ? (
+          <del key={i} className="rounded bg-error-light px-0.5 text-error">
+            {segment.text}
+          </del>
+        ) : (
+          <ins
+            key={i}
+            className="rounded bg-success-light px-0.5 text-success no-underline"
+          >
+            {segment.text}
+          </ins>
+        )
+      )}
+    </span>
+  );
+}
+
+interface VersionComparePanelProps {
+  threadId: string | undefined;
+  /** Source poem lines, shown above each compared line */
+  sourceLines: string[];
+  /** Current translation per line (0-based), saved when taking a snapshot */
+  currentLines: Array<string | null>;
+  showLineNumbers: boolean;
+}
+
+/**
+ * "Versions" mode of ComparisonView: save the current translation as a named
+ * version, pick two versions, and diff them line by line at line, phrase or
+ * character granularity, optionally with AI commentary through a lens.
+ */
+export function VersionComparePanel({
+  threadId,
+  sourceLines,
+  currentLines,
+  showLineNumbers,
+}: VersionComparePanelProps) {
+  const t = useTranslations("Notebook");
+  const params = useParams();
+  const projectId = (params?.projectId as string | undefined) ?? "";
+  const directions = usePoemDirections();
+
+  const { data: versionsData, isLoading } = useTranslationVersions(threadId);
+  const saveVersion = useSaveVersion(threadId);
+  const deleteVersion = useDeleteVersion(threadId);
+  const commentary = useVersionCommentary(threadId);
+  const versions = React.useMemo(
+    () => versionsData?.versions ?? [],
+    [versionsData]
+  );
+
+  const [leftId, setLeftId] = React.useState<string | null>(null);
+  const [rightId, setRightId] = React.useState<string | null>(null);
+  const [granularity, setGranularity] =
+    React.useState<CompareGranularity>("phrase");
+  const [lens, setLens] = React.useState<CompareLens>("meaning");
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Default to the two newest versions (older on the left)
+  const left = leftId ?? versions[1]?.id ?? null;
+  const right = rightId ?? versions[0]?.id ?? null;
+
+  const compareParams =
+    projectId && left && right
+      ? { projectId, leftId: left, rightId: right, granularity }
+      : null;
+  const compare = useCompareVersions(threadId, compareParams);
+
+  const { reset: resetCommentary } = commentary;
+  React.useEffect(() => {
+    resetCommentary();
+  }, [left, right, granularity, lens, resetCommentary]);
+
+  const handleSave = async () => {
+    const title = window.prompt(
+      t("versionTitlePrompt"),
+      t("versionDefaultTitle", { n: versions.length + 1 })
+    );
+    if (!title?.trim()) return;
+
+    setError(null);
+    try {
+      const { version } = await saveVersion.mutateAsync({
+        projectId,
+        title: title.trim(),
+        lines: currentLines.map((line) => line ?? ""),
+      });
+      setLeftId(right);
+      setRightId(version.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDelete = async (versionId: string) => {
+    const version = versions.find((v) => v.id === versionId);
+    if (!version || !confirm(t("versionDeleteConfirm", { title: version.title }))) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await deleteVersion.mutateAsync(versionId);
+      if (leftId === versionId) setLeftId(null);
+      if (rightId === versionId) setRightId(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleExplain = () => {
+    if (!compareParams) return;
+    commentary.mutate({ ...compareParams, lens });
+  };
+
+  const versionSelect = (
+    value: string | null,
+    onChange: (id: string) => void,
+    label: string
+  ) => (
+    <label className="flex items-center gap-2 text-gray-600">
+      {label}
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value)}
+        className="max-w-[12rem] rounded-md border border-gray-300 bg-white px-2 py-1 text-sm"
+      >
+        {versions.map((version) => (
+          <option key={version.id} value={version.id}>
+            {version.title}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const result = compare.data;
+  const commentaryText = commentary.data?.commentary;
+
+  return (
+    <div className="flex-1 bg-white flex flex-col min-h-0">
+      <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex-shrink-0 space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => void handleSave()}
+            disabled={!threadId || !projectId || saveVersion.isPending}
+          >
+            <Camera className="w-4 h-4 mr-1" />
+            {t("versionSave")}
+          </Button>
+          {versions.length >= 2 && (
+            <>
+              {versionSelect(left, setLeftId, t("versionLeft"))}
+              {versionSelect(right, setRightId, t("versionRight"))}
+              <label className="flex items-center gap-2 text-gray-600">
+                {t("versionGranularity")}
+                <select
+                  value={granularity}
+                  onChange={(e) =>
+                    setGranularity(e.target.value as CompareGranularity)
+                  }
+                  className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm"
+                >
+                  {GRANULARITIES.map((g) => (
+                    <option key={g} value={g}>
+                      {t(`versionGranularityOption.${g}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+          {error && <span className="text-xs text-red-600">{error}</span>}
+        </div>
+
+        {versions.length >= 2 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label className="flex items-center gap-2 text-gray-600">
+              {t("versionLens")}
+              <select
+                value={lens}
+                onChange={(e) => setLens(e.target.value as CompareLens)}
+                className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm"
+              >
+                {LENSES.map((l) => (
+                  <option key={l} value={l}>
+                    {t(`versionLensOption.${l}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleExplain}
+              disabled={!compareParams || left === right || commentary.isPending}
+            >
+              <Sparkles className="w-4 h-4 mr-1" />
+              {commentary.isPending ? t("versionExplaining") : t("versionExplain")}
+            </Button>
+            {result && (
+              <span className="text-xs text-gray-500">
+                {STATUSES.map((status) =>
+                  t(`versionStats.${status}`, { count: result.stats[status] })
+                ).join(" · ")}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">{t("versionLoading")}</p>
+        ) : versions.length < 2 ? (
+          <p className="text-sm text-gray-500">
+            {versions.length === 0 ? t("versionEmpty") : t("versionNeedTwo")}
+          </p>
+        ) : left === right ? (
+          <p className="text-sm text-gray-500">{t("versionSamePicked")}</p>
+        ) : compare.isLoading ? (
+          <p className="text-sm text-gray-500">{t("versionComparing")}</p>
+        ) : compare.error ? (
+          <p className="text-sm text-red-600">{compare.error.message}</p>
+        ) : result ? (
+          <>
+            {(commentaryText || commentary.error) && (
+              <div className="rounded-lg border border-purple-200 bg-purple-50 p-3 text-sm">
+                <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-purple-700">
+                  {t("versionCommentaryTitle", {
+                    lens: t(`versionLensOption.${lens}`),
+                  })}
+                </div>
+                {commentary.error ? (
+                  <p className="text-red-600">{commentary.error.message}</p>
+                ) : (
+                  <p className="whitespace-pre-wrap text-gray-800">
+                    {commentaryText}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {result.lines.map((line) => (
+              <div key={`version-line-${line.lineIndex}`}>
+                {showLineNumbers && (
+                  <div className="text-xs text-gray-400 font-mono mb-1">
+                    Line {line.lineIndex + 1}
+                  </div>
+                )}
+                <div
+                  className={cn(
+                    "p-3 rounded-lg border text-sm",
+                    line.status === "equal"
+                      ? "bg-white border-gray-200"
+                      : "bg-amber-50 border-amber-200"
+                  )}
+                >
+                  {sourceLines[line.lineIndex] && (
+                    <p
+                      className="mb-1 text-xs text-gray-500"
+                      dir={lineDirection(
+                        sourceLines[line.lineIndex],
+                        directions.source
+                      )}
+                    >
+                      {sourceLines[line.lineIndex]}
+                    </p>
+                  )}
+                  <VersionDiffText
+                    segments={line.segments}
+                    dir={lineDirection(line.right || line.left, directions.target)}
+                  />
+                </div>
+              </div>
+            ))}
+          </>
+        ) : null}
+
+        {versions.length > 0 && (
+          <div className="border-t pt-3">
+            <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-700">
+              {t("versionListTitle")}
+            </div>
+            <ul className="space-y-1 text-sm">
+              {versions.map((version) => (
+                <li
+                  key={version.id}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span className="truncate">
+                    {version.title}{" "}
+                    <span className="text-xs text-gray-500">
+                      {new Date(version.createdAt).toLocaleString()}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => void handleDelete(version.id)}
+                    disabled={deleteVersion.isPending}
+                    title={t("versionDelete")}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
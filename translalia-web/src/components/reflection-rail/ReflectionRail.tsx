@@ -141,7 +141,7 @@ export function ReflectionRail({
   // Handler for applying AI suggestion adjustments
   const handleApplyAdjustment = React.useCallback(
     (lineIndex: number, newText: string) => {
-      setDraft(lineIndex, newText);
+      setDraft(lineIndex, newText, "rhyme_rewrite");
       setCurrentLineIndex(lineIndex);
     },
     [setDraft, setCurrentLineIndex]
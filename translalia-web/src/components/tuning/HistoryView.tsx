@@ -1,8 +1,8 @@
 import { cn } from "@/lib/utils";
-import { promptHistory } from "./mockData";
+import type { HistoryEntry } from "./types";
 import { textLink } from "./uiClasses";
 
-function Score({ label, value }: { label: string; value: number }) {
+function Score({ label, value }: { label: string; value: string }) {
   return (
     <span className="whitespace-nowrap">
       <span className="text-xs text-foreground-muted">{label}</span>{" "}
@@ -11,14 +11,21 @@ function Score({ label, value }: { label: string; value: number }) {
   );
 }
 
+interface HistoryViewProps {
+  lineNumber: number;
+  entries: HistoryEntry[];
+  /** Replay a past run in the timeline. */
+  onSelect: (id: string) => void;
+}
+
 /**
- * "History" tab — recent runs for the current line, as quiet rows (not cards).
+ * "History" tab — recorded runs for the current line, as quiet rows (not cards).
  */
-export function HistoryView() {
+export function HistoryView({ lineNumber, entries, onSelect }: HistoryViewProps) {
   return (
     <section>
       <h3 className="text-lg font-semibold text-foreground">
-        Recent runs for Line 1
+        Recent runs for Line {lineNumber}
       </h3>
       <p className="mt-1 text-sm text-foreground-muted">
         Compare how different settings produced different variants for this
@@ -26,15 +33,15 @@ export function HistoryView() {
       </p>
 
       <div className="mt-2">
-        {promptHistory.map((entry) => (
+        {entries.map((entry) => (
           <div
-            key={`${entry.preset}-${entry.timeAgo}`}
+            key={entry.id}
             className="flex flex-wrap items-center justify-between gap-x-8 gap-y-3 border-b border-border-subtle py-4 last:border-0"
           >
             <div className="min-w-40">
               <div className="flex items-center gap-2">
                 <span className="text-sm font-medium text-foreground">
-                  {entry.preset}
+                  {entry.label}
                 </span>
                 {entry.active && (
                   <span className="rounded-full bg-accent/10 px-2 py-0.5 text-xs font-medium uppercase tracking-wide text-accent">
@@ -48,17 +55,19 @@ export function HistoryView() {
             </div>
 
             <div className="flex items-center gap-6">
-              <Score label="Diversity" value={entry.diversity} />
-              <Score label="Quality" value={entry.quality} />
-              <Score label="Fidelity" value={entry.fidelity} />
+              {entry.scores.map((score) => (
+                <Score key={score.label} label={score.label} value={score.value} />
+              ))}
             </div>
 
             <div className="flex items-center gap-4">
-              <button type="button" className={cn("text-sm", textLink)}>
-                Compare ›
-              </button>
-              <button type="button" className={cn("text-sm", textLink)}>
-                Restore ›
+              <button
+                type="button"
+                onClick={() => onSelect(entry.id)}
+                disabled={entry.active}
+                className={cn("text-sm disabled:opacity-50", textLink)}
+              >
+                Replay ›
               </button>
             </div>
           </div>
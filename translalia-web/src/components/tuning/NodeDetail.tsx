@@ -3,7 +3,12 @@
 import * as React from "react";
 import { X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { promptHistory, type PipelineNode } from "./mockData";
+import type {
+  HistoryEntry,
+  PipelineNode,
+  PromptSummary,
+  ReasoningSummary,
+} from "./types";
 import { HistoryView } from "./HistoryView";
 import { TranslationInstructions } from "./sections/TranslationInstructions";
 import { ModelSettings } from "./sections/ModelSettings";
@@ -22,6 +27,12 @@ interface NodeDetailProps {
   /** Selected node, or null to collapse the panel. */
   node: PipelineNode | null;
   onClose: () => void;
+  /** Recorded run details for the Prompt Assembly view. */
+  prompt: PromptSummary;
+  reasoning: ReasoningSummary;
+  history: HistoryEntry[];
+  lineNumber: number;
+  onSelectRun: (id: string) => void;
 }
 
 type Tab = "current" | "history";
@@ -36,7 +47,15 @@ type Tab = "current" | "history";
  * cross-fades the content (the row re-sizes while hidden, so height never
  * jumps). State is kept in `displayNode` so content survives the collapse.
  */
-export function NodeDetail({ node, onClose }: NodeDetailProps) {
+export function NodeDetail({
+  node,
+  onClose,
+  prompt,
+  reasoning,
+  history,
+  lineNumber,
+  onSelectRun,
+}: NodeDetailProps) {
   const reducedMotion = useReducedMotion();
   const [displayNode, setDisplayNode] = React.useState<PipelineNode | null>(
     node,
@@ -215,7 +234,7 @@ export function NodeDetail({ node, onClose }: NodeDetailProps) {
                   >
                     History{" "}
                     <span className="font-normal opacity-70">
-                      · {promptHistory.length}
+                      · {history.length}
                     </span>
                   </button>
                 </div>
@@ -244,14 +263,18 @@ export function NodeDetail({ node, onClose }: NodeDetailProps) {
               >
                 {shownTab === "current" ? (
                   <>
-                    <TranslationInstructions />
-                    <ModelSettings />
+                    <TranslationInstructions prompt={prompt} />
+                    <ModelSettings prompt={prompt} />
                     <OutputRequirements />
                     <TestRun />
-                    <ReasoningTrace />
+                    <ReasoningTrace reasoning={reasoning} />
                   </>
                 ) : (
-                  <HistoryView />
+                  <HistoryView
+                    lineNumber={lineNumber}
+                    entries={history}
+                    onSelect={onSelectRun}
+                  />
                 )}
               </div>
             ) : (
@@ -264,8 +287,8 @@ export function NodeDetail({ node, onClose }: NodeDetailProps) {
   );
 }
 
-/** Simplified detail for non-prompt nodes — title/description live in the
- *  header; here we surface the node's key metadata. Fleshed out later. */
+/** Detail for non-prompt nodes — title/description live in the header; here
+ *  we surface the recorded metadata for the stage. */
 function GenericDetail({ node }: { node: PipelineNode }) {
   const entries = Object.entries(node.meta).filter(
     ([key]) => key !== "status" && key !== "editable",
@@ -295,10 +318,6 @@ function GenericDetail({ node }: { node: PipelineNode }) {
           </div>
         ))}
       </dl>
-
-      <p className="text-xs text-foreground-muted">
-        Full inspector for this stage is coming soon.
-      </p>
     </section>
   );
 }
@@ -3,13 +3,18 @@
 import * as React from "react";
 import { Check, Pencil } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { PipelineNode } from "./mockData";
+import type { PipelineNode } from "./types";
 import { NodeDetail } from "./NodeDetail";
 
 interface PipelineTimelineProps {
   nodes: PipelineNode[];
   selectedNodeId: string | null;
   onSelectNode: (id: string) => void;
+  /** Run details passed through to the inline detail panel. */
+  detail: Omit<
+    React.ComponentProps<typeof NodeDetail>,
+    "node" | "onClose"
+  >;
 }
 
 /**
@@ -24,6 +29,7 @@ export function PipelineTimeline({
   nodes,
   selectedNodeId,
   onSelectNode,
+  detail,
 }: PipelineTimelineProps) {
   // Index of the last completed node — the accent fill stops here.
   const lastDoneIndex = nodes.reduce(
@@ -182,6 +188,7 @@ export function PipelineTimeline({
 
       {/* Inline detail panel for the selected node. */}
       <NodeDetail
+        {...detail}
         node={selectedNode}
         onClose={() => {
           if (selectedNodeId) onSelectNode(selectedNodeId);
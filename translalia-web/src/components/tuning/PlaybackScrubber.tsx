@@ -3,32 +3,38 @@
 import * as React from "react";
 import { Pause, Play, RotateCcw } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { PipelineNode } from "./mockData";
+import type { PipelineNode } from "./types";
 import { focusRing } from "./uiClasses";
 
 interface PlaybackScrubberProps {
   nodes: PipelineNode[];
-  /** Mock progress along the pipeline, 0–100. */
-  progressPercent?: number;
+  /** Replay position in the recorded run. */
+  elapsedSeconds: number;
   totalSeconds: number;
+  playing: boolean;
+  onTogglePlay: () => void;
+  onReplay: () => void;
+  /** Jump the replay to the end of a node's stage. */
+  onSeek: (node: PipelineNode) => void;
 }
 
-// Even positions for the 5 pipeline ticks, using only standard inset fractions
-// (each dot is centered on its point via -translate-x-1/2).
-const tickLeft = ["left-0", "left-1/4", "left-1/2", "left-3/4", "left-full"];
-
 /**
  * Bottom playback bar. Intentionally the quietest control on the page: a thin
- * line, a small outlined play/pause, and muted monospace timing.
+ * line, a small outlined play/pause, and muted monospace timing. Ticks sit
+ * where each stage finished in the recorded run.
  */
 export function PlaybackScrubber({
   nodes,
-  progressPercent = 80,
+  elapsedSeconds,
   totalSeconds,
+  playing,
+  onTogglePlay,
+  onReplay,
+  onSeek,
 }: PlaybackScrubberProps) {
-  const [playing, setPlaying] = React.useState(true);
-
-  const elapsed = ((progressPercent / 100) * totalSeconds).toFixed(1);
+  const progressPercent =
+    totalSeconds > 0 ? Math.min(100, (elapsedSeconds / totalSeconds) * 100) : 100;
+  const elapsed = elapsedSeconds.toFixed(1);
   const total = totalSeconds.toFixed(1);
 
   return (
@@ -36,7 +42,7 @@ export function PlaybackScrubber({
       {/* Play / pause — understated outlined circle, not a loud button */}
       <button
         type="button"
-        onClick={() => setPlaying((v) => !v)}
+        onClick={onTogglePlay}
         aria-label={playing ? "Pause" : "Play"}
         className="flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full border border-border-subtle text-foreground-muted transition-colors duration-fast hover:border-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent focus-visible:ring-offset-2"
       >
@@ -63,15 +69,14 @@ export function PlaybackScrubber({
         </div>
 
         {/* Node ticks */}
-        {nodes.map((node, i) => (
+        {nodes.map((node) => (
           <button
             key={node.id}
             type="button"
             aria-label={node.name}
-            className={cn(
-              "group absolute top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full focus-visible:outline-none",
-              tickLeft[i] ?? "left-1/2",
-            )}
+            onClick={() => onSeek(node)}
+            className="group absolute top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full focus-visible:outline-none"
+            style={{ left: `${node.endPercent}%` }}
           >
             <span
               className={cn(
@@ -96,6 +101,7 @@ export function PlaybackScrubber({
         </span>
         <button
           type="button"
+          onClick={onReplay}
           className={cn(
             "inline-flex items-center gap-1 rounded-sm text-xs text-foreground-muted transition-colors duration-fast hover:text-accent",
             focusRing,
@@ -11,7 +11,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { LineInfo, PipelineStats, PresetOption } from "./mockData";
+import type { LineInfo, PipelineStats, PresetOption } from "./types";
 import {
   focusRing,
   pillToggle,
@@ -30,6 +30,9 @@ interface TranslationTuningLayoutProps {
   children: React.ReactNode;
   /** Pinned to the bottom of the layout (e.g. the playback scrubber). */
   footer?: React.ReactNode;
+  /** Step to the previous/next traced line; omitted at either end. */
+  onPrevLine?: () => void;
+  onNextLine?: () => void;
 }
 
 export function TranslationTuningLayout({
@@ -40,6 +43,8 @@ export function TranslationTuningLayout({
   presets,
   children,
   footer,
+  onPrevLine,
+  onNextLine,
 }: TranslationTuningLayoutProps) {
   const [preset, setPreset] = React.useState(presets[0]?.id ?? "");
   const [reasoningOn, setReasoningOn] = React.useState(false);
@@ -158,8 +163,18 @@ export function TranslationTuningLayout({
           </span>
           <span className="font-serif italic text-foreground">{poemTitle}</span>
           <span className="text-foreground-disabled">·</span>
-          <span className="text-sm text-foreground-muted">
+          <span className="inline-flex items-center gap-1 text-sm text-foreground-muted">
+            <LineStepButton
+              label="Previous traced line"
+              onClick={onPrevLine}
+              icon={<ChevronLeft size={14} />}
+            />
             Line {lineInfo.lineNumber} of {lineInfo.totalLines}
+            <LineStepButton
+              label="Next traced line"
+              onClick={onNextLine}
+              icon={<ChevronRight size={14} />}
+            />
           </span>
           <span className="text-foreground-disabled">·</span>
           <span className="inline-flex items-center gap-1">
@@ -179,7 +194,14 @@ export function TranslationTuningLayout({
 
         <div className="ml-auto flex items-center gap-6">
           <Stat label="Tokens" value={stats.totalTokens.toLocaleString()} />
-          <Stat label="Cost" value={`~$${stats.estimatedCost.toFixed(2)}`} />
+          <Stat
+            label="Cost"
+            value={
+              stats.estimatedCost === null
+                ? "—"
+                : `~$${stats.estimatedCost.toFixed(2)}`
+            }
+          />
           <Stat label="Time" value={`${stats.timeSeconds}s`} />
           <Stat label="Model" value={stats.model} />
         </div>
@@ -198,6 +220,31 @@ export function TranslationTuningLayout({
   );
 }
 
+function LineStepButton({
+  label,
+  onClick,
+  icon,
+}: {
+  label: string;
+  onClick?: () => void;
+  icon: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-label={label}
+      onClick={onClick}
+      disabled={!onClick}
+      className={cn(
+        "rounded-sm p-0.5 text-foreground-muted transition-colors duration-fast hover:text-accent disabled:opacity-30 disabled:hover:text-foreground-muted",
+        focusRing,
+      )}
+    >
+      {icon}
+    </button>
+  );
+}
+
 function Stat({ label, value }: { label: string; value: string }) {
   return (
     <div className="flex flex-col">
@@ -1,17 +1,20 @@
-import { promptReasoning } from "../mockData";
+import type { ReasoningSummary } from "../types";
 import { SectionHeader } from "./SectionHeader";
 
-export function ReasoningTrace() {
-  const { tokens, steps } = promptReasoning;
+interface ReasoningTraceProps {
+  reasoning: ReasoningSummary;
+}
+
+/** Step-by-step account of what the pipeline did for this line. */
+export function ReasoningTrace({ reasoning }: ReasoningTraceProps) {
+  const { caption, steps } = reasoning;
 
   return (
     <section className="my-2 border-t border-dashed border-border-subtle py-6">
       <SectionHeader
-        title="AI Reasoning Trace"
+        title="Pipeline Trace"
         right={
-          <span className="font-mono text-xs text-accent">
-            {tokens} reasoning tokens
-          </span>
+          <span className="font-mono text-xs text-accent">{caption}</span>
         }
       />
 
@@ -0,0 +1,516 @@
+/**
+ * Maps a recorded LineTrace onto the Translation Tuning view: the five
+ * pipeline nodes (with replay status at a given point in time), header stats,
+ * the prompt summary, the pipeline log and the run history for the line.
+ * Method 1 runs have no recipes or gates, so their nodes and log describe the
+ * single model call and how its answer parsed.
+ */
+
+import type {
+  LineTrace,
+  LineTraceStageId,
+  Method1LineTrace,
+  Method2LineTrace,
+} from "@/types/lineTrace";
+import type {
+  HistoryEntry,
+  LineInfo,
+  PipelineNode,
+  PipelineNodeStatus,
+  PipelineStats,
+  PromptSummary,
+  ReasoningSummary,
+} from "./types";
+
+/** Timeline node id for each recorded stage. */
+const NODE_FOR_STAGE: Record<LineTraceStageId, string> = {
+  context: "context",
+  prompt: "prompt",
+  generation: "model",
+  gates: "quality",
+  output: "variants",
+};
+
+const MODE_LABEL: Record<string, string> = {
+  focused: "Focused",
+  balanced: "Balanced",
+  adventurous: "Adventurous",
+};
+
+const METHOD_1_PRESET = "Method 1";
+
+type NodeDraft = Omit<PipelineNode, "status" | "endPercent">;
+
+function traceModel(trace: LineTrace): string {
+  return trace.method === "method-1" ? trace.model : trace.audit.model;
+}
+
+function tracePreset(trace: LineTrace): string {
+  return trace.method === "method-1"
+    ? METHOD_1_PRESET
+    : MODE_LABEL[trace.audit.mode] ?? trace.audit.mode;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function firstWords(text: string, count = 2): string {
+  const words = text.trim().split(/\s+/);
+  return words.length > count ? `${words.slice(0, count).join(" ")}…` : text;
+}
+
+function totalTokens(trace: LineTrace): number {
+  return Object.values(trace.usage).reduce(
+    (sum, usage) => sum + (usage?.totalTokens ?? 0),
+    0,
+  );
+}
+
+function stageStatus(
+  trace: LineTrace,
+  stageId: LineTraceStageId,
+  elapsedMs: number,
+): PipelineNodeStatus {
+  const stage = trace.stages.find((s) => s.id === stageId);
+  if (!stage) return "pending";
+  if (elapsedMs >= stage.startMs + stage.durationMs) return "done";
+  if (elapsedMs >= stage.startMs) return "running";
+  return "pending";
+}
+
+function stageEndPercent(trace: LineTrace, stageId: LineTraceStageId): number {
+  const stage = trace.stages.find((s) => s.id === stageId);
+  if (!stage || trace.totalMs <= 0) return 0;
+  return Math.min(
+    100,
+    ((stage.startMs + stage.durationMs) / trace.totalMs) * 100,
+  );
+}
+
+function stageMs(trace: LineTrace, stageId: LineTraceStageId): number {
+  return trace.stages.find((s) => s.id === stageId)?.durationMs ?? 0;
+}
+
+// ============================================================================
+// Pipeline Nodes
+// ============================================================================
+
+/**
+ * Build the timeline nodes for a trace, with statuses as of `elapsedMs` into
+ * the replay (pass trace.totalMs for the finished run).
+ */
+export function traceToPipelineNodes(
+  trace: LineTrace,
+  elapsedMs: number,
+): PipelineNode[] {
+  const nodes =
+    trace.method === "method-1" ? method1Nodes(trace) : method2Nodes(trace);
+
+  return nodes.map((node) => {
+    const stageId = (Object.keys(NODE_FOR_STAGE) as LineTraceStageId[]).find(
+      (id) => NODE_FOR_STAGE[id] === node.id,
+    )!;
+    return {
+      ...node,
+      status: stageStatus(trace, stageId, elapsedMs),
+      endPercent: stageEndPercent(trace, stageId),
+    };
+  });
+}
+
+function contextNode(
+  trace: LineTrace,
+  meta: Record<string, unknown> = {},
+): NodeDraft {
+  const { context } = trace;
+  return {
+    id: "context",
+    name: "Source Text",
+    description: "Line, surrounding lines, and style settings.",
+    metricLine: `Line ${trace.lineIndex + 1} of ${context.poemLineCount}`,
+    previewLine: `“${truncate(context.lineText, 40)}”`,
+    meta: {
+      line: context.lineText,
+      ...(context.prevLine ? { previousLine: context.prevLine } : {}),
+      ...(context.nextLine ? { nextLine: context.nextLine } : {}),
+      ...(context.translationIntent
+        ? { intent: context.translationIntent }
+        : {}),
+      ...(context.translationZone ? { zone: context.translationZone } : {}),
+      ...meta,
+    },
+  };
+}
+
+function method1Nodes(trace: Method1LineTrace): NodeDraft[] {
+  const mainGen = trace.usage["main-gen"];
+  const promptChars = trace.prompt.systemChars + trace.prompt.userChars;
+
+  return [
+    contextNode(trace),
+    {
+      id: "prompt",
+      name: "Prompt Assembly",
+      description: "Guide answers, poem context, and source line.",
+      editable: true,
+      metricLine: `${promptChars.toLocaleString()} chars · ~${Math.ceil(
+        promptChars / 4,
+      ).toLocaleString()} tokens`,
+      previewLine: trace.fallbackMode
+        ? "Fallback prompt (no word alignment)"
+        : "Single-call prompt with word alignment",
+      meta: {
+        fallbackMode: trace.fallbackMode,
+        durationMs: stageMs(trace, "prompt"),
+      },
+    },
+    {
+      id: "model",
+      name: "AI Generation",
+      description: "Generates three aligned variants in one call.",
+      editable: true,
+      metricLine:
+        trace.generation.temperature !== undefined
+          ? `${trace.model} · T ${trace.generation.temperature}`
+          : trace.model,
+      previewLine: mainGen
+        ? `${mainGen.promptTokens.toLocaleString()} in · ${mainGen.completionTokens.toLocaleString()} out`
+        : undefined,
+      meta: {
+        model: trace.model,
+        ...(trace.generation.finishReason
+          ? { finishReason: trace.generation.finishReason }
+          : {}),
+        ...(mainGen ? { totalTokens: mainGen.totalTokens } : {}),
+        durationMs: stageMs(trace, "generation"),
+      },
+    },
+    {
+      id: "quality",
+      name: "Response Check",
+      description: "Schema validation of the three variants.",
+      metricLine: trace.validation === "valid" ? "valid" : "repaired",
+      previewLine:
+        trace.validation === "valid"
+          ? "Schema ✓"
+          : "Schema ✗ · missing fields filled in",
+      meta: {
+        validation: trace.validation,
+        durationMs: stageMs(trace, "gates"),
+      },
+    },
+    {
+      id: "variants",
+      name: "3 Variants Ready",
+      description: "Three translations released to the workshop.",
+      metricLine: `${METHOD_1_PRESET}${
+        mainGen ? ` · ${mainGen.completionTokens} output tokens` : ""
+      }`,
+      previewLine: trace.variants.final
+        .map((v) => `“${firstWords(v)}”`)
+        .join(" / "),
+      meta: { variants: trace.variants.final },
+    },
+  ];
+}
+
+function method2Nodes(trace: Method2LineTrace): NodeDraft[] {
+  const { audit, usage } = trace;
+  const mainGen = usage["main-gen"];
+  const regen = audit.regen?.performed ? audit.regen : undefined;
+  const avgSimilarity = audit.gate.similarity?.avgPairwise;
+  const promptChars = trace.prompt.systemChars + trace.prompt.userChars;
+
+  return [
+    contextNode(trace, { mode: audit.mode }),
+    {
+      id: "prompt",
+      name: "Prompt Assembly",
+      description: "Variant recipes, compiled instructions, and source line.",
+      editable: true,
+      metricLine: `${promptChars.toLocaleString()} chars · ~${Math.ceil(
+        promptChars / 4,
+      ).toLocaleString()} tokens`,
+      previewLine: `Recipes ${audit.recipe.cacheHit === "miss" ? "generated" : `cached (${audit.recipe.cacheHit})`} · ${MODE_LABEL[audit.mode] ?? audit.mode}`,
+      meta: {
+        recipeCache: audit.recipe.cacheHit,
+        recipeSchema: audit.recipe.schemaVersion,
+        ...(audit.recipe.bundleKey ? { bundleKey: audit.recipe.bundleKey } : {}),
+        ...(usage.recipe ? { recipeTokens: usage.recipe.totalTokens } : {}),
+        directives: trace.recipes.map((r) => `${r.label}: ${r.directive}`),
+        durationMs: stageMs(trace, "prompt"),
+      },
+    },
+    {
+      id: "model",
+      name: "AI Generation",
+      description: "Generates three variants in one call.",
+      editable: true,
+      metricLine:
+        trace.generation.temperature !== undefined
+          ? `${audit.model} · T ${trace.generation.temperature}`
+          : audit.model,
+      previewLine: mainGen
+        ? `${mainGen.promptTokens.toLocaleString()} in · ${mainGen.completionTokens.toLocaleString()} out`
+        : undefined,
+      meta: {
+        model: audit.model,
+        ...(trace.generation.finishReason
+          ? { finishReason: trace.generation.finishReason }
+          : {}),
+        strictSchema: trace.generation.strictSchema,
+        ...(mainGen ? { totalTokens: mainGen.totalTokens } : {}),
+        durationMs: stageMs(trace, "generation"),
+      },
+    },
+    {
+      id: "quality",
+      name: "Quality Gates",
+      description:
+        "Fidelity, glossary, anchor, and diversity checks, then regeneration.",
+      metricLine: `${
+        avgSimilarity !== undefined
+          ? `Similarity ${avgSimilarity.toFixed(2)} · `
+          : ""
+      }${audit.gate.pass ? "pass" : "fail"}`,
+      previewLine: `Fidelity ${trace.fidelity.pass ? "✓" : "✗"} · ${
+        regen
+          ? `1 retry (variant ${regen.variantLabel ?? "?"})`
+          : "no retry"
+      }`,
+      meta: {
+        gatePass: audit.gate.pass,
+        ...(audit.gate.reason ? { gateReason: audit.gate.reason } : {}),
+        ...(audit.gate.failedConstraints
+          ? { failedConstraints: audit.gate.failedConstraints }
+          : {}),
+        ...(audit.gate.openerTypes
+          ? {
+              openers: Object.values(audit.gate.openerTypes).map(
+                (o) => o ?? "—"
+              ),
+            }
+          : {}),
+        ...(audit.phase1 ? { anchorsPass: audit.phase1.pass } : {}),
+        ...(audit.phase1?.failed ? { anchorsFailed: audit.phase1.failed } : {}),
+        fidelityPass: trace.fidelity.pass,
+        ...(trace.fidelity.reason
+          ? { fidelityReason: trace.fidelity.reason }
+          : {}),
+        ...(audit.glossary ? { glossaryPass: audit.glossary.pass } : {}),
+        ...(audit.glossary?.violations
+          ? { glossaryViolations: audit.glossary.violations }
+          : {}),
+        regenPerformed: !!regen,
+        ...(regen?.strategy ? { regenStrategy: regen.strategy } : {}),
+        ...(regen?.sampleCount !== undefined
+          ? { regenSamples: regen.sampleCount }
+          : {}),
+        ...(regen?.hardPassCount !== undefined
+          ? { regenHardPasses: regen.hardPassCount }
+          : {}),
+        ...(usage.regen ? { regenTokens: usage.regen.totalTokens } : {}),
+        durationMs: stageMs(trace, "gates"),
+      },
+    },
+    {
+      id: "variants",
+      name: "3 Variants Ready",
+      description:
+        "Three distinct translations released to the workshop.",
+      metricLine: `Quality ${trace.qualityTier}${
+        mainGen ? ` · ${mainGen.completionTokens} output tokens` : ""
+      }`,
+      previewLine: trace.variants.final
+        .map((v) => `“${firstWords(v)}”`)
+        .join(" / "),
+      meta: {
+        variants: trace.variants.final,
+        ...(trace.variants.initial.some(
+          (text, i) => text !== trace.variants.final[i],
+        )
+          ? { beforeRegen: trace.variants.initial }
+          : {}),
+        qualityTier: trace.qualityTier,
+      },
+    },
+  ];
+}
+
+// ============================================================================
+// Header / Detail Summaries
+// ============================================================================
+
+export function traceToStats(trace: LineTrace): PipelineStats {
+  return {
+    totalTokens: totalTokens(trace),
+    estimatedCost: null,
+    timeSeconds: Math.round(trace.totalMs / 100) / 10,
+    model: traceModel(trace),
+  };
+}
+
+export function traceToLineInfo(trace: LineTrace): LineInfo {
+  return {
+    lineNumber: trace.lineIndex + 1,
+    totalLines: trace.context.poemLineCount,
+    sourceLang: trace.sourceLanguage,
+    targetLang: trace.targetLanguage,
+    preset: tracePreset(trace),
+  };
+}
+
+export function traceToPromptSummary(trace: LineTrace): PromptSummary {
+  const chars = trace.prompt.systemChars + trace.prompt.userChars;
+  return {
+    lineText: trace.context.lineText,
+    sourceLanguage: trace.sourceLanguage,
+    targetLanguage: trace.targetLanguage,
+    mode: tracePreset(trace),
+    translationIntent: trace.context.translationIntent,
+    chars,
+    estimatedTokens: Math.ceil(chars / 4),
+    model: traceModel(trace),
+    temperature: trace.generation.temperature,
+  };
+}
+
+/**
+ * Step-by-step account of the run, in pipeline order.
+ */
+export function traceToReasoning(trace: LineTrace): ReasoningSummary {
+  return {
+    caption: `${totalTokens(trace).toLocaleString()} tokens · ${(
+      trace.totalMs / 1000
+    ).toFixed(1)}s`,
+    steps:
+      trace.method === "method-1"
+        ? method1Steps(trace)
+        : method2Steps(trace),
+  };
+}
+
+function method1Steps(trace: Method1LineTrace): string[] {
+  return [
+    trace.fallbackMode
+      ? "Used the fallback prompt without word alignment after an invalid first answer."
+      : "Built the single-call prompt with word alignment.",
+    `Generated three variants with ${trace.model}${
+      trace.generation.finishReason
+        ? ` (finish: ${trace.generation.finishReason})`
+        : ""
+    }.`,
+    trace.validation === "valid"
+      ? "Response matched the variant schema."
+      : "Response failed the variant schema; missing fields were filled in.",
+  ];
+}
+
+function method2Steps(trace: Method2LineTrace): string[] {
+  const { audit } = trace;
+  const steps: string[] = [];
+
+  steps.push(
+    audit.recipe.cacheHit === "miss"
+      ? `Generated ${MODE_LABEL[audit.mode] ?? audit.mode} recipes for A/B/C (schema ${audit.recipe.schemaVersion}).`
+      : `Reused cached ${MODE_LABEL[audit.mode] ?? audit.mode} recipes (${audit.recipe.cacheHit}, schema ${audit.recipe.schemaVersion}).`,
+  );
+  steps.push(
+    `Generated three variants with ${audit.model}${
+      trace.generation.finishReason
+        ? ` (finish: ${trace.generation.finishReason})`
+        : ""
+    }.`,
+  );
+  steps.push(
+    trace.fidelity.pass
+      ? "Fidelity gate passed: negation, numbers, and names preserved."
+      : `Fidelity gate flagged: ${trace.fidelity.reason ?? "unknown reason"}.`,
+  );
+  if (audit.glossary) {
+    steps.push(
+      audit.glossary.pass
+        ? "Project glossary respected by all variants."
+        : `Glossary violations: ${(audit.glossary.violations ?? []).join(", ")}.`,
+    );
+  }
+  if (audit.phase1) {
+    steps.push(
+      audit.phase1.pass
+        ? "Anchor and self-report checks passed."
+        : `Anchor checks failed: ${(audit.phase1.failed ?? []).join(", ")}.`,
+    );
+  }
+  if (audit.regen?.performed) {
+    steps.push(
+      `Regenerated variant ${audit.regen.variantLabel ?? "?"} (${
+        audit.regen.strategy ?? "single"
+      }${
+        audit.regen.sampleCount !== undefined
+          ? `, ${audit.regen.sampleCount} candidates`
+          : ""
+      }).`,
+    );
+  }
+  steps.push(
+    audit.gate.pass
+      ? "Diversity gate passed."
+      : `Diversity gate still failing: ${audit.gate.reason ?? "unknown reason"}.`,
+  );
+  steps.push(`Released with quality tier “${trace.qualityTier}”.`);
+
+  return steps;
+}
+
+function formatTimeAgo(iso: string, now: number): string {
+  const seconds = Math.max(0, Math.round((now - new Date(iso).getTime()) / 1000));
+  if (seconds < 60) return "just now";
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+/**
+ * History rows for every recorded run of the line (newest first).
+ */
+export function tracesToHistory(
+  traces: LineTrace[],
+  activeTs: string | null,
+  now: number = Date.now(),
+): HistoryEntry[] {
+  return traces.map((trace) => {
+    const label = `${tracePreset(trace)} · ${traceModel(trace)}`;
+    if (trace.method === "method-1") {
+      return {
+        id: trace.ts,
+        label,
+        timeAgo: formatTimeAgo(trace.ts, now),
+        scores: [
+          { label: "Schema", value: trace.validation },
+          { label: "Fallback", value: trace.fallbackMode ? "yes" : "no" },
+        ],
+        active: trace.ts === activeTs,
+      };
+    }
+
+    const avg = trace.audit.gate.similarity?.avgPairwise;
+    return {
+      id: trace.ts,
+      label,
+      timeAgo: formatTimeAgo(trace.ts, now),
+      scores: [
+        {
+          label: "Diversity",
+          value: avg !== undefined ? (1 - avg).toFixed(2) : "—",
+        },
+        { label: "Gate", value: trace.audit.gate.pass ? "pass" : "fail" },
+        { label: "Fidelity", value: trace.fidelity.pass ? "pass" : "fail" },
+        { label: "Tier", value: trace.qualityTier },
+      ],
+      active: trace.ts === activeTs,
+    };
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * View types for the Translation Tuning (Beta) components.
+ *
+ * Pipeline nodes, stats and history are derived from recorded line traces
+ * (see traceView.ts); the mock data only covers the sections that are still
+ * UI-only (presets, test run, downstream analysis).
+ */
+
+export type PipelineNodeStatus = "done" | "running" | "pending";
+
+export interface PipelineStats {
+  totalTokens: number;
+  /** Null until cost accounting is available. */
+  estimatedCost: number | null;
+  timeSeconds: number;
+  model: string;
+}
+
+export interface LineInfo {
+  lineNumber: number;
+  totalLines: number;
+  sourceLang: string;
+  targetLang: string;
+  preset: string;
+}
+
+export interface PresetOption {
+  id: string;
+  name: string;
+}
+
+export interface PipelineNode {
+  id: string;
+  name: string;
+  status: PipelineNodeStatus;
+  /** One-line summary shown under the title in the detail panel. */
+  description: string;
+  /** Editable nodes show a pencil affordance in the timeline. */
+  editable?: boolean;
+  /** Primary metadata line, e.g. "8 lines · 412 tokens". */
+  metricLine: string;
+  /** Optional secondary preview line (rendered italic). */
+  previewLine?: string;
+  /** Raw structured metadata, listed in the detail panel. */
+  meta: Record<string, string | number | boolean | string[]>;
+  /** Where the stage finished in the run, as 0–100 percent of total time. */
+  endPercent: number;
+}
+
+/** Prompt as it was actually sent, for the Prompt Assembly detail. */
+export interface PromptSummary {
+  lineText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  mode: string;
+  translationIntent?: string;
+  chars: number;
+  estimatedTokens: number;
+  model: string;
+  temperature?: number;
+}
+
+export interface ReasoningSummary {
+  caption: string;
+  steps: string[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timeAgo: string;
+  scores: { label: string; value: string }[];
+  active?: boolean;
+}
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { getStatusMeta } from "./stanzaStatusMeta";
 import { Loader2 } from "lucide-react";
 import { useWorkshopStore } from "@/store/workshopSlice";
+import { useLiveTranslationSummary } from "@/lib/hooks/useTranslationProgressStream";
 
 interface StanzaProgressPanelProps {
   summary: TranslationJobProgressSummary | null | undefined;
@@ -22,6 +23,11 @@ export function StanzaProgressPanel({
   onRetry,
 }: StanzaProgressPanelProps) {
   const [retryingIndex, setRetryingIndex] = React.useState<number | null>(null);
+  // Chunk and line transitions arrive over the progress stream between polls.
+  const liveSummary = useLiveTranslationSummary(
+    threadId ?? undefined,
+    summary ?? null
+  );
 
   const handleRetry = React.useCallback(
     async (stanzaIndex: number, lineNumbers: number[]) => {
@@ -58,11 +64,11 @@ export function StanzaProgressPanel({
     [threadId, onRetry]
   );
 
-  if (!summary || !stanzaResult?.stanzas?.length) {
+  if (!liveSummary || !stanzaResult?.stanzas?.length) {
     return null;
   }
 
-  const { progress, chunks, stanzas } = summary;
+  const { progress, chunks, stanzas } = liveSummary;
   // Use chunks (new) or stanzas (legacy) for compatibility
   const chunkStates = chunks || stanzas || {};
   const completionPercent =
@@ -84,7 +90,7 @@ export function StanzaProgressPanel({
         <div className="text-xs text-foreground-muted">
           Job status:{" "}
           <span className="font-medium text-foreground capitalize">
-            {summary.status}
+            {liveSummary.status}
           </span>
         </div>
       </div>
@@ -15,11 +15,12 @@ import {
   RefreshCw,
   ChevronLeft,
   ChevronRight,
+  Link2,
 } from "lucide-react";
 import { DragData } from "@/types/drag";
 import { cn } from "@/lib/utils";
 import { Preloader } from "@/components/ui/preloader";
-import type { LineTranslationVariant } from "@/types/lineTranslation";
+import type { AlignedWord, LineTranslationVariant } from "@/types/lineTranslation";
 import {
   AdditionalSuggestions,
   type WordSuggestion,
@@ -27,10 +28,18 @@ import {
 import { TokenSuggestionsPopover } from "@/components/workshop/TokenSuggestionsPopover";
 import { FullTranslationEditor } from "@/components/notebook/FullTranslationEditor";
 import { CongratulationsModal } from "@/components/workshop/CongratulationsModal";
+import { TranslationMemoryMatches } from "@/components/workshop/TranslationMemoryMatches";
+import { AlignmentEditor } from "@/components/workshop/AlignmentEditor";
 import { Sparkles } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { HelpHint } from "@/components/ui/help-hint";
 import { TokenSuggestButton } from "@/components/workshop-rail/TokenSuggestButton";
+import { variantLabelAt } from "@/lib/ai/variantCount";
+import {
+  lineDirection,
+  type TextDirection,
+} from "@/lib/i18n/textDirection";
+import { usePoemDirections } from "@/hooks/usePoemDirections";
 
 /**
  * Map all suggestion failure reasons to user-friendly messages
@@ -68,6 +77,19 @@ function getSuggestionErrorMessage(reason?: string): string {
   }
 }
 
+/**
+ * Variant texts keyed by label (A, B, C, …) for the suggestions endpoints
+ */
+function buildVariantFullTexts(
+  lineTranslation: { translations: LineTranslationVariant[] } | null | undefined
+): Record<string, string> {
+  const texts: Record<string, string> = { A: "", B: "", C: "" };
+  lineTranslation?.translations.forEach((variant) => {
+    texts[variantLabelAt(variant.variant - 1)] = variant.fullText;
+  });
+  return texts;
+}
+
 // Part of speech type and color mapping - soft pastels for readability
 const POS_COLORS = {
   noun: "bg-sky-50/80 text-sky-700 border-sky-200/80",
@@ -293,6 +315,7 @@ export function WordGrid({ threadId: pThreadId, lineContext }: WordGridProps) {
     ? `${targetLanguageName}${targetLanguageVariety ? ` (${targetLanguageVariety})` : ""}`
     : "the target language";
   const userSelectedModel = useGuideStore((s) => s.translationModel);
+  const directions = usePoemDirections();
 
   const [additionalSuggestions, setAdditionalSuggestions] = React.useState<
     WordSuggestion[]
@@ -361,6 +384,7 @@ export function WordGrid({ threadId: pThreadId, lineContext }: WordGridProps) {
   const lineTranslations = useWorkshopStore((s) => s.lineTranslations);
   const selectedVariant = useWorkshopStore((s) => s.selectedVariant);
   const draftLines = useWorkshopStore((s) => s.draftLines);
+  const setDraft = useWorkshopStore((s) => s.setDraft);
   const setLineTranslation = useWorkshopStore((s) => s.setLineTranslation);
   const selectVariant = useWorkshopStore((s) => s.selectVariant);
   const clearLineTranslation = useWorkshopStore((s) => s.clearLineTranslation);
@@ -598,17 +622,7 @@ export function WordGrid({ threadId: pThreadId, lineContext }: WordGridProps) {
       if (!thread || currentLineIndex === null) return;
 
       const currentDraft = draftLines[currentLineIndex] || "";
-      const variantFullTexts = currentLineTranslation
-        ? currentLineTranslation.translations.reduce(
-            (acc, variant) => {
-              if (variant.variant === 1) acc.A = variant.fullText;
-              if (variant.variant === 2) acc.B = variant.fullText;
-              if (variant.variant === 3) acc.C = variant.fullText;
-              return acc;
-            },
-            { A: "", B: "", C: "" }
-          )
-        : { A: "", B: "", C: "" };
+      const variantFullTexts = buildVariantFullTexts(currentLineTranslation);
       suggestionsAbortRef.current?.abort();
       const controller = new AbortController();
       suggestionsAbortRef.current = controller;
@@ -718,17 +732,7 @@ export function WordGrid({ threadId: pThreadId, lineContext }: WordGridProps) {
       if (!thread || currentLineIndex === null || !tokenFocus) return;
 
       const currentDraft = draftLines[currentLineIndex] || "";
-      const variantFullTexts = currentLineTranslation
-        ? currentLineTranslation.translations.reduce(
-            (acc, variant) => {
-              if (variant.variant === 1) acc.A = variant.fullText;
-              if (variant.variant === 2) acc.B = variant.fullText;
-              if (variant.variant === 3) acc.C = variant.fullText;
-              return acc;
-            },
-            { A: "", B: "", C: "" }
-          )
-        : { A: "", B: "", C: "" };
+      const variantFullTexts = buildVariantFullTexts(currentLineTranslation);
       tokenSuggestionsAbortRef.current?.abort();
       const controller = new AbortController();
       tokenSuggestionsAbortRef.current = controller;
@@ -875,7 +879,8 @@ export function WordGrid({ threadId: pThreadId, lineContext }: WordGridProps) {
       };
       appendToDraft(
         dragData.sourceLineNumber ?? currentLineIndex,
-        dragData.text
+        dragData.text,
+        "ai_assist"
       );
     },
     [currentLineIndex]
@@ -1048,6 +1053,13 @@ export function WordGrid({ threadId: pThreadId, lineContext }: WordGridProps) {
           sourceWords={sourceWords}
           lineNumber={currentLineIndex}
           onSuggest={handleOpenTokenSuggestions}
+          dir={lineDirection(poemLines[currentLineIndex], directions.source)}
+        />
+
+        <TranslationMemoryMatches
+          threadId={thread}
+          sourceText={poemLines[currentLineIndex]}
+          onUse={(text) => setDraft(currentLineIndex, text)}
         />
 
         <div className="space-y-3">
@@ -1068,6 +1080,17 @@ export function WordGrid({ threadId: pThreadId, lineContext }: WordGridProps) {
               lineNumber={currentLineIndex ?? 0}
               stanzaIndex={lineContext?.stanzaIndex}
               onSuggest={handleOpenTokenSuggestions}
+              threadId={thread}
+              sourceText={poemLines[currentLineIndex] ?? ""}
+              dir={lineDirection(variant.fullText, directions.target)}
+              onAlignmentSaved={(words) =>
+                setLineTranslation(currentLineIndex, {
+                  ...currentLineTranslation,
+                  translations: currentLineTranslation.translations.map((v) =>
+                    v.variant === variant.variant ? { ...v, words } : v
+                  ),
+                })
+              }
             />
           ))}
         </div>
@@ -1156,9 +1179,12 @@ function SourceWordsPalette({
   sourceWords,
   lineNumber,
   onSuggest,
+  dir,
 }: {
   sourceWords: string[];
   lineNumber: number | null;
+  /** Direction of the source line, so words chain in reading order */
+  dir: TextDirection;
   onSuggest?: (payload: {
     word: string;
     originalWord: string;
@@ -1187,7 +1213,7 @@ function SourceWordsPalette({
       <p className="text-xs text-blue-700 mb-3">
         Click, tap, or drag a word to keep the original in your translation
       </p>
-      <div className="flex flex-wrap gap-2">
+      <div className="flex flex-wrap gap-2" dir={dir}>
         {sourceWords.map((word, idx) => (
           <DraggableSourceWord
             key={`source-${lineNumber ?? 0}-${idx}`}
@@ -1216,6 +1242,11 @@ interface TranslationVariantCardProps {
     sourceType: "variant";
     variantId: number;
   }) => void;
+  threadId?: string;
+  sourceText: string;
+  /** Direction of the variant text, so tokens chain in reading order */
+  dir: TextDirection;
+  onAlignmentSaved: (words: AlignedWord[]) => void;
 }
 
 function TranslationVariantCard({
@@ -1225,7 +1256,13 @@ function TranslationVariantCard({
   lineNumber,
   stanzaIndex,
   onSuggest,
+  threadId,
+  sourceText,
+  dir,
+  onAlignmentSaved,
 }: TranslationVariantCardProps) {
+  const tAlignment = useTranslations("Alignment");
+  const [alignmentOpen, setAlignmentOpen] = React.useState(false);
   const currentLineIndex = useWorkshopStore((s) => s.currentLineIndex);
   const setCurrentLineIndex = useWorkshopStore((s) => s.setCurrentLineIndex);
   const appendToDraft = useWorkshopStore((s) => s.appendToDraft);
@@ -1266,7 +1303,7 @@ function TranslationVariantCard({
     }
 
     // Add all tokens to draft
-    appendToDraft(targetLine, fullVariantText);
+    appendToDraft(targetLine, fullVariantText, "variant_pick");
   }, [
     tokens,
     lineNumber,
@@ -1276,71 +1313,100 @@ function TranslationVariantCard({
   ]);
 
   return (
-    <Card
-      onClick={(e) => {
-        // Only act if clicking on the card itself, not on draggable tokens
-        const target = e.target as HTMLElement;
-        if (!target.closest('[data-draggable="true"]')) {
-          // Add all tokens to draft
-          handleAddAllTokens();
-          // Also toggle selection
-          onSelect();
-        }
-      }}
-      className={cn(
-        "transition-all duration-fast border-2 rounded-md",
-        isSelected
-          ? "border-success bg-success-light shadow-panel-shadow"
-          : "border-border-subtle hover:border-accent/50 hover:shadow-card"
-      )}
-    >
-      <CardContent className="space-y-3 p-4">
-        <div className="flex items-start justify-between cursor-pointer">
-          <div className="flex items-center gap-2">
-            <Badge
-              variant={isSelected ? "default" : "secondary"}
-              className={isSelected ? "bg-success" : ""}
-            >
-              Variant {variant.variant}
-            </Badge>
-            {isSelected && <CheckCircle2 className="w-4 h-4 text-success" />}
+    <>
+      <Card
+        onClick={(e) => {
+          // Only act if clicking on the card itself, not on draggable tokens
+          const target = e.target as HTMLElement;
+          if (!target.closest('[data-draggable="true"]')) {
+            // Add all tokens to draft
+            handleAddAllTokens();
+            // Also toggle selection
+            onSelect();
+          }
+        }}
+        className={cn(
+          "transition-all duration-fast border-2 rounded-md",
+          isSelected
+            ? "border-success bg-success-light shadow-panel-shadow"
+            : "border-border-subtle hover:border-accent/50 hover:shadow-card"
+        )}
+      >
+        <CardContent className="space-y-3 p-4">
+          <div className="flex items-start justify-between cursor-pointer">
+            <div className="flex items-center gap-2">
+              <Badge
+                variant={isSelected ? "default" : "secondary"}
+                className={isSelected ? "bg-success" : ""}
+              >
+                Variant {variant.variant}
+              </Badge>
+              {isSelected && <CheckCircle2 className="w-4 h-4 text-success" />}
+            </div>
+            {threadId && variant.words.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-foreground-muted"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setAlignmentOpen(true);
+                }}
+              >
+                <Link2 className="mr-1 h-3.5 w-3.5" />
+                {tAlignment("edit")}
+              </Button>
+            )}
+            {/* <div className="text-xs text-foreground-muted">
+              Literalness: {(variant.metadata.literalness * 100).toFixed(0)}%
+            </div> */}
           </div>
-          {/* <div className="text-xs text-foreground-muted">
-            Literalness: {(variant.metadata.literalness * 100).toFixed(0)}%
-          </div> */}
-        </div>
 
-        <div className="flex flex-wrap gap-2">
-          {tokens.map((token, idx) => (
-            <DraggableVariantToken
-              key={`${variant.variant}-${token.position}-${idx}`}
-              token={token}
-              variantId={variant.variant}
-              lineNumber={lineNumber}
-              stanzaIndex={stanzaIndex}
-              disabled={!token.translation}
-              onSuggest={onSuggest}
-            />
-          ))}
-        </div>
+          <div className="flex flex-wrap gap-2" dir={dir}>
+            {tokens.map((token, idx) => (
+              <DraggableVariantToken
+                key={`${variant.variant}-${token.position}-${idx}`}
+                token={token}
+                variantId={variant.variant}
+                lineNumber={lineNumber}
+                stanzaIndex={stanzaIndex}
+                disabled={!token.translation}
+                onSuggest={onSuggest}
+              />
+            ))}
+          </div>
 
-        <div className="flex flex-wrap gap-2 mt-2">
-          {variant.metadata.preservesRhyme && (
-            <Badge variant="outline" className="text-xs">
-              Rhyme
-            </Badge>
-          )}
-          {variant.metadata.preservesMeter && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {variant.metadata.preservesRhyme && (
+              <Badge variant="outline" className="text-xs">
+                Rhyme
+              </Badge>
+            )}
+            {variant.metadata.preservesMeter && (
+              <Badge variant="outline" className="text-xs">
+                Meter
+              </Badge>
+            )}
             <Badge variant="outline" className="text-xs">
-              Meter
+              {variant.metadata.characterCount} chars
             </Badge>
-          )}
-          <Badge variant="outline" className="text-xs">
-            {variant.metadata.characterCount} chars
-          </Badge>
-        </div>
-      </CardContent>
-    </Card>
+          </div>
+        </CardContent>
+      </Card>
+      {threadId && (
+        <AlignmentEditor
+          open={alignmentOpen}
+          onOpenChange={setAlignmentOpen}
+          threadId={threadId}
+          lineIndex={lineNumber}
+          variant={variant.variant}
+          sourceText={sourceText}
+          translationText={variant.fullText}
+          words={variant.words}
+          onSaved={onAlignmentSaved}
+        />
+      )}
+    </>
   );
 }
 
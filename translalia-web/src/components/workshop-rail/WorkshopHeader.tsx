@@ -12,12 +12,14 @@ import type { TranslationJobProgressSummary } from "@/types/translationJob";
 interface WorkshopHeaderProps {
   showTitle?: boolean;
   translationProgress?: TranslationJobProgressSummary | null;
+  threadId?: string;
   onRetryProgress?: () => void;
 }
 
 export function WorkshopHeader({
   showTitle = true,
   translationProgress = null,
+  threadId,
   onRetryProgress,
 }: WorkshopHeaderProps) {
   const total = useWorkshopStore((s) => s.poemLines.length);
@@ -56,6 +58,7 @@ export function WorkshopHeader({
           {showProgress && (
             <ProgressRingButton
               summary={translationProgress}
+              threadId={threadId}
               expanded={progressExpanded}
               onToggle={() => setProgressExpanded((prev) => !prev)}
             />
@@ -66,6 +69,7 @@ export function WorkshopHeader({
       {showProgress && progressExpanded && (
         <TranslationProgressDetails
           summary={translationProgress}
+          threadId={threadId}
           onRetry={onRetryProgress}
         />
       )}
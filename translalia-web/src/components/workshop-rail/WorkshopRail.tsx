@@ -11,11 +11,12 @@ import { Check, Lock } from "lucide-react";
 import { WordGrid } from "@/components/workshop-rail/WordGrid";
 import { LineClickHandler } from "@/components/workshop-rail/LineClickHandler";
 import { getStatusMeta } from "@/components/workshop-rail/stanzaStatusMeta";
+import { findSectionForChunk } from "@/lib/poem/sections";
+import { summarizeSectionProgress } from "@/lib/workshop/translationProgress";
 import type {
   TranslationStanzaStatus,
   TranslationJobProgressSummary,
 } from "@/types/translationJob";
-import type { LineTranslationVariant } from "@/types/lineTranslation";
 
 export function WorkshopRail() {
   const t = useTranslations("Workshop");
@@ -48,12 +49,24 @@ export function WorkshopRail() {
     number | null
   >(null);
 
+  // Long-form poems: the segment list shows one section at a time
+  const sections = poemStanzas?.sections;
+  const [selectedSectionIndex, setSelectedSectionIndex] = React.useState(0);
+
   // Reset stanza selection when switching workshops to prevent stale UI
   React.useEffect(() => {
     setSelectedStanzaIndex(null);
+    setSelectedSectionIndex(0);
     console.log('[WorkshopRail] Stanza selection reset for thread:', threadId);
   }, [threadId]);
 
+  // Keep the section list on the section of the selected segment
+  React.useEffect(() => {
+    if (selectedStanzaIndex === null) return;
+    const section = findSectionForChunk(sections, selectedStanzaIndex);
+    if (section) setSelectedSectionIndex(section.index);
+  }, [selectedStanzaIndex, sections]);
+
   // ✅ Re-enabled: Poll for translation job status updates
   const shouldPollTranslations =
     !!threadId && !!poemStanzas && poemStanzas.totalStanzas > 0;
@@ -361,16 +374,12 @@ export function WorkshopRail() {
           const lineStatus = line.translationStatus;
 
           if (lineStatus === "translated") {
-            // For non-empty lines with 3 variants
-            if (line.translations && line.translations.length === 3) {
+            // For non-empty lines with their variants
+            if (line.translations && line.translations.length > 0) {
               setLineTranslation(line.line_number, {
                 lineOriginal:
                   line.original_text || poemLines[line.line_number] || "",
-                translations: line.translations as [
-                  LineTranslationVariant,
-                  LineTranslationVariant,
-                  LineTranslationVariant
-                ],
+                translations: line.translations,
                 modelUsed: line.model_used || "unknown",
               });
               hydratedCount++;
@@ -479,6 +488,14 @@ export function WorkshopRail() {
 
   // STEP 1: If no segment selected, show segment selector
   if (selectedStanzaIndex === null) {
+    const progressChunks =
+      translationProgress?.chunks || translationProgress?.stanzas;
+    const sectionProgress =
+      sections && sections.length > 1
+        ? summarizeSectionProgress(sections, progressChunks)
+        : null;
+    const visibleSection = sectionProgress?.[selectedSectionIndex]?.section;
+
     return (
       <div className="h-full flex flex-col">
 
@@ -494,11 +511,46 @@ export function WorkshopRail() {
             disableLines
             lineLabel={t("linesSelectSegmentFirst")}
           />
+          {translationProgress?.blocked && (
+            <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+              {t("translationBudgetBlocked")}
+            </div>
+          )}
+          {sectionProgress && (
+            <label className="mb-4 flex items-center gap-2 text-sm text-foreground-secondary">
+              {t("sectionLabel")}
+              <select
+                value={selectedSectionIndex}
+                onChange={(e) =>
+                  setSelectedSectionIndex(parseInt(e.target.value, 10))
+                }
+                className="min-w-0 flex-1 text-sm border border-border-subtle rounded px-2 py-1 bg-white"
+              >
+                {sectionProgress.map(({ section, progress }) => (
+                  <option key={section.index} value={section.index}>
+                    {section.title ??
+                      t("sectionNumber", { number: section.index + 1 })}
+                    {" — "}
+                    {t("sectionProgress", {
+                      completed: progress.completed,
+                      total: progress.total,
+                    })}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
           <div className="space-y-4">
             {poemStanzas.stanzas.map((stanza, idx) => {
+              // Long-form: only the selected section's segments (indices stay global)
+              if (
+                visibleSection &&
+                (idx < visibleSection.firstChunk ||
+                  idx >= visibleSection.firstChunk + visibleSection.chunkCount)
+              ) {
+                return null;
+              }
               // ✅ Get real segment status from translation progress (use chunks or stanzas)
-              const progressChunks =
-                translationProgress?.chunks || translationProgress?.stanzas;
               const stanzaStatus: TranslationStanzaStatus =
                 progressChunks?.[idx]?.status ?? "pending";
               const statusMeta = getStatusMeta(stanzaStatus);
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { RegenerateGuidanceDialog } from "./RegenerateGuidanceDialog";
+import type { VariantLabel } from "@/lib/ai/variantCount";
 
 export interface WordSuggestion {
   word: string;
@@ -13,7 +14,7 @@ export interface WordSuggestion {
   register?: string;
   literalness?: number;
   use?: "replace" | "insert" | "opening" | "closing";
-  fitsWith?: "A" | "B" | "C" | "any";
+  fitsWith?: VariantLabel | "any";
   /** The line word this suggestion is an alternative for (line-level suggestions). */
   targetsWord?: string | null;
 }
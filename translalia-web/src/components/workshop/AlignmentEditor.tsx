@@ -0,0 +1,335 @@
+"use client";
+
+import * as React from "react";
+import { useTranslations } from "next-intl";
+import { Link2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useSaveAlignment } from "@/lib/hooks/useWorkshopFlow";
+import {
+  confidenceLevel,
+  linksToWords,
+  toggleLink,
+  tokenizeLine,
+  wordsToLinks,
+  type AlignmentLink,
+  type ConfidenceLevel,
+} from "@/lib/alignment/links";
+import { cn } from "@/lib/utils";
+import type { AlignedWord } from "@/types/lineTranslation";
+
+export interface AlignmentEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  threadId: string;
+  lineIndex: number;
+  /** Generated variant being corrected; null for the line's saved translation */
+  variant: number | null;
+  sourceText: string;
+  translationText: string;
+  words: AlignedWord[];
+  onSaved?: (words: AlignedWord[]) => void;
+}
+
+const LEVEL_STROKE: Record<ConfidenceLevel, string> = {
+  manual: "#0284c7",
+  high: "#10b981",
+  medium: "#f59e0b",
+  low: "#ef4444",
+};
+
+const LEVEL_CHIP: Record<ConfidenceLevel, string> = {
+  manual: "border-sky-500 bg-sky-50",
+  high: "border-emerald-500 bg-emerald-50",
+  medium: "border-amber-500 bg-amber-50",
+  low: "border-red-400 bg-red-50",
+};
+
+const LEVELS: ConfidenceLevel[] = ["manual", "high", "medium", "low"];
+
+/**
+ * Word alignment between a source line and one translation of it. Drag from
+ * a source word to a translation word (or click one, then the other) to link
+ * them; click a link to remove it. Any word may have several links, so
+ * phrases align many-to-many. Links are coloured by confidence.
+ */
+export function AlignmentEditor({ open, onOpenChange, ...props }: AlignmentEditorProps) {
+  const t = useTranslations("Alignment");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5 text-primary" />
+            {props.variant === null
+              ? t("title")
+              : t("titleVariant", { variant: props.variant })}
+          </DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+        {/* Mounted per opening so edits start from the stored alignment */}
+        {open && <AlignmentCanvas {...props} onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+function AlignmentCanvas({
+  threadId,
+  lineIndex,
+  variant,
+  sourceText,
+  translationText,
+  words,
+  onSaved,
+  onClose,
+}: Omit<AlignmentEditorProps, "open" | "onOpenChange"> & { onClose: () => void }) {
+  const t = useTranslations("Alignment");
+  const save = useSaveAlignment();
+  const sourceTokens = React.useMemo(() => tokenizeLine(sourceText), [sourceText]);
+  const targetTokens = React.useMemo(() => tokenizeLine(translationText), [translationText]);
+  const initialLinks = React.useMemo(
+    () => wordsToLinks(words, sourceTokens, targetTokens),
+    [words, sourceTokens, targetTokens]
+  );
+
+  const [links, setLinks] = React.useState<AlignmentLink[]>(initialLinks);
+  const [pendingSource, setPendingSource] = React.useState<number | null>(null);
+  const [drag, setDrag] = React.useState<{ source: number; to: Point } | null>(null);
+
+  // Chip anchor points, relative to the canvas
+  const canvasRef = React.useRef<HTMLDivElement>(null);
+  const sourceRefs = React.useRef<Array<HTMLButtonElement | null>>([]);
+  const targetRefs = React.useRef<Array<HTMLButtonElement | null>>([]);
+  const [anchors, setAnchors] = React.useState<{ source: Point[]; target: Point[] }>({
+    source: [],
+    target: [],
+  });
+
+  React.useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const measure = () => {
+      const anchor = (el: HTMLButtonElement | null, edge: "top" | "bottom"): Point =>
+        el
+          ? {
+              x: el.offsetLeft + el.offsetWidth / 2,
+              y: edge === "bottom" ? el.offsetTop + el.offsetHeight : el.offsetTop,
+            }
+          : { x: 0, y: 0 };
+      setAnchors({
+        source: sourceTokens.map((_, i) => anchor(sourceRefs.current[i], "bottom")),
+        target: targetTokens.map((_, i) => anchor(targetRefs.current[i], "top")),
+      });
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [sourceTokens, targetTokens]);
+
+  const canvasPoint = React.useCallback((clientX: number, clientY: number): Point => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return rect ? { x: clientX - rect.left, y: clientY - rect.top } : { x: 0, y: 0 };
+  }, []);
+
+  // Follow the pointer while dragging; dropping on a translation word links it
+  React.useEffect(() => {
+    if (!drag) return;
+    const onMove = (e: PointerEvent) =>
+      setDrag((current) => current && { ...current, to: canvasPoint(e.clientX, e.clientY) });
+    const onUp = (e: PointerEvent) => {
+      const dropped = document
+        .elementFromPoint(e.clientX, e.clientY)
+        ?.closest<HTMLElement>("[data-target-index]");
+      if (dropped) {
+        const target = Number(dropped.dataset.targetIndex);
+        setLinks((current) =>
+          current.some((l) => l.source === drag.source && l.target === target)
+            ? current
+            : toggleLink(current, drag.source, target)
+        );
+        setPendingSource(null);
+      }
+      setDrag(null);
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+  }, [drag, canvasPoint]);
+
+  // Chips take the colour of their weakest link
+  const chipLevel = (side: "source" | "target", index: number): ConfidenceLevel | null => {
+    const own = links.filter((l) => l[side] === index);
+    if (own.length === 0) return null;
+    const weakest = own.reduce((a, b) => (b.confidence < a.confidence ? b : a));
+    return own.every((l) => l.manual) ? "manual" : confidenceLevel(weakest.confidence);
+  };
+
+  const handleTargetClick = (target: number) => {
+    if (pendingSource === null) return;
+    setLinks((current) => toggleLink(current, pendingSource, target));
+    setPendingSource(null);
+  };
+
+  const handleSave = () => {
+    const corrected = linksToWords(links, sourceTokens, targetTokens, words);
+    save.mutate(
+      { threadId, lineIndex, variant, words: corrected },
+      {
+        onSuccess: () => {
+          onSaved?.(corrected);
+          onClose();
+        },
+      }
+    );
+  };
+
+  const unlinked = sourceTokens.filter((_, i) => !links.some((l) => l.source === i)).length;
+
+  return (
+    <>
+      <div ref={canvasRef} className="relative select-none space-y-16 py-4" style={{ touchAction: "none" }}>
+        <div className="relative z-10 flex flex-wrap gap-2">
+          {sourceTokens.map((token, i) => {
+            const level = chipLevel("source", i);
+            return (
+              <button
+                key={`s-${i}`}
+                ref={(el) => {
+                  sourceRefs.current[i] = el;
+                }}
+                type="button"
+                aria-pressed={pendingSource === i}
+                className={cn(
+                  "rounded-md border-2 px-2 py-1 text-sm transition-colors",
+                  level ? LEVEL_CHIP[level] : "border-dashed border-border-subtle bg-white",
+                  pendingSource === i && "ring-2 ring-primary ring-offset-1"
+                )}
+                onPointerDown={(e) => {
+                  e.preventDefault();
+                  setDrag({ source: i, to: canvasPoint(e.clientX, e.clientY) });
+                }}
+                onClick={() => setPendingSource((current) => (current === i ? null : i))}
+              >
+                {token}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="relative z-10 flex flex-wrap gap-2">
+          {targetTokens.map((token, i) => {
+            const level = chipLevel("target", i);
+            return (
+              <button
+                key={`t-${i}`}
+                ref={(el) => {
+                  targetRefs.current[i] = el;
+                }}
+                type="button"
+                data-target-index={i}
+                className={cn(
+                  "rounded-md border-2 px-2 py-1 text-sm transition-colors",
+                  level ? LEVEL_CHIP[level] : "border-dashed border-border-subtle bg-white",
+                  pendingSource !== null && "hover:border-primary"
+                )}
+                onClick={() => handleTargetClick(i)}
+              >
+                {token}
+              </button>
+            );
+          })}
+        </div>
+
+        <svg className="pointer-events-none absolute inset-0 h-full w-full">
+          {links.map((link) => {
+            const from = anchors.source[link.source];
+            const to = anchors.target[link.target];
+            if (!from || !to) return null;
+            const level = link.manual ? "manual" : confidenceLevel(link.confidence);
+            return (
+              <g
+                key={`${link.source}:${link.target}`}
+                className="pointer-events-auto cursor-pointer"
+                onClick={() =>
+                  setLinks((current) => toggleLink(current, link.source, link.target))
+                }
+              >
+                <title>
+                  {t("linkTitle", {
+                    source: sourceTokens[link.source],
+                    target: targetTokens[link.target],
+                    confidence: Math.round(link.confidence * 100),
+                  })}
+                </title>
+                <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="transparent" strokeWidth={10} />
+                <line
+                  x1={from.x}
+                  y1={from.y}
+                  x2={to.x}
+                  y2={to.y}
+                  stroke={LEVEL_STROKE[level]}
+                  strokeWidth={2}
+                  strokeDasharray={level === "low" ? "4 3" : undefined}
+                />
+              </g>
+            );
+          })}
+          {drag && anchors.source[drag.source] && (
+            <line
+              x1={anchors.source[drag.source].x}
+              y1={anchors.source[drag.source].y}
+              x2={drag.to.x}
+              y2={drag.to.y}
+              stroke={LEVEL_STROKE.manual}
+              strokeWidth={2}
+              strokeDasharray="4 3"
+            />
+          )}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-foreground-muted">
+        {LEVELS.map((level) => (
+          <span key={level} className="flex items-center gap-1.5">
+            <span className="h-0.5 w-5" style={{ backgroundColor: LEVEL_STROKE[level] }} />
+            {t(`level.${level}`)}
+          </span>
+        ))}
+        {unlinked > 0 && <span>{t("unlinked", { count: unlinked })}</span>}
+      </div>
+
+      {save.error && <p className="text-sm text-red-600">{save.error.message}</p>}
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={() => setLinks(initialLinks)} disabled={save.isPending}>
+          {t("reset")}
+        </Button>
+        <Button variant="outline" onClick={onClose} disabled={save.isPending}>
+          {t("cancel")}
+        </Button>
+        <Button onClick={handleSave} disabled={save.isPending}>
+          {save.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t("save")}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -9,15 +9,22 @@ import {
   Check,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useLiveTranslationSummary } from "@/lib/hooks/useTranslationProgressStream";
 import type { TranslationJobProgressSummary } from "@/types/translationJob";
 
 interface ProcessingProgressProps {
   summary?: TranslationJobProgressSummary | null;
+  /** Follow the thread's progress stream between summary updates. */
+  threadId?: string;
   onRetry?: () => void;
 }
 
-function useProgressState(summary: TranslationJobProgressSummary) {
-  const { progress, status } = summary;
+function useProgressState(
+  summary: TranslationJobProgressSummary,
+  threadId?: string
+) {
+  const { progress, status } =
+    useLiveTranslationSummary(threadId, summary) ?? summary;
   const completionPercent =
     progress.total > 0
       ? Math.round((progress.completed / progress.total) * 100)
@@ -48,10 +55,12 @@ function useProgressState(summary: TranslationJobProgressSummary) {
 
 export function ProgressRingButton({
   summary,
+  threadId,
   expanded,
   onToggle,
 }: {
   summary: TranslationJobProgressSummary;
+  threadId?: string;
   expanded: boolean;
   onToggle: () => void;
 }) {
@@ -61,7 +70,7 @@ export function ProgressRingButton({
     isComplete,
     hasFailed,
     statusLabel,
-  } = useProgressState(summary);
+  } = useProgressState(summary, threadId);
 
   const size = 36;
   const stroke = 3;
@@ -143,9 +152,11 @@ export function ProgressRingButton({
 
 export function TranslationProgressDetails({
   summary,
+  threadId,
   onRetry,
 }: {
   summary: TranslationJobProgressSummary;
+  threadId?: string;
   onRetry?: () => void;
 }) {
   const {
@@ -155,7 +166,7 @@ export function TranslationProgressDetails({
     isComplete,
     hasFailed,
     statusLabel,
-  } = useProgressState(summary);
+  } = useProgressState(summary, threadId);
 
   return (
     <div className="border-t border-border-subtle bg-surface/95 px-6 py-2.5 md:px-10">
@@ -232,7 +243,11 @@ export function TranslationProgressDetails({
 }
 
 /** @deprecated Use ProgressRingButton + TranslationProgressDetails in WorkshopHeader */
-export function ProcessingProgress({ summary, onRetry }: ProcessingProgressProps) {
+export function ProcessingProgress({
+  summary,
+  threadId,
+  onRetry,
+}: ProcessingProgressProps) {
   const [expanded, setExpanded] = React.useState(false);
 
   if (!summary) return null;
@@ -242,12 +257,17 @@ export function ProcessingProgress({ summary, onRetry }: ProcessingProgressProps
       <div className="flex justify-end px-3">
         <ProgressRingButton
           summary={summary}
+          threadId={threadId}
           expanded={expanded}
           onToggle={() => setExpanded((prev) => !prev)}
         />
       </div>
       {expanded && (
-        <TranslationProgressDetails summary={summary} onRetry={onRetry} />
+        <TranslationProgressDetails
+          summary={summary}
+          threadId={threadId}
+          onRetry={onRetry}
+        />
       )}
     </div>
   );
@@ -5,12 +5,16 @@ import { Waves, ChevronDown, ChevronUp, Check, X, Lightbulb } from "lucide-react
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { getSoundPatternLabels } from "@/lib/rhyme/languages/patternLabels";
+import { resolveSoundLanguage } from "@/lib/rhyme/languages/resolveLanguage";
 import type { SoundPatternSuggestion, SoundOption } from "@/types/rhymeWorkshop";
 
 interface SoundPatternPanelProps {
   suggestions: SoundPatternSuggestion[];
   onApplyOption: (lineIndex: number, newText: string) => void;
   onDismiss: (suggestionIndex: number) => void;
+  /** Thread target language; picks the pattern names of that tradition */
+  targetLanguage?: string;
   className?: string;
 }
 
@@ -18,6 +22,7 @@ export function SoundPatternPanel({
   suggestions,
   onApplyOption,
   onDismiss,
+  targetLanguage,
   className,
 }: SoundPatternPanelProps) {
   const [expandedSuggestion, setExpandedSuggestion] = useState<number | null>(
@@ -44,33 +49,17 @@ export function SoundPatternPanel({
     onDismiss(index);
   };
 
-  const getSoundTypeLabel = (type: SoundPatternSuggestion["type"]): string => {
-    switch (type) {
-      case "alliteration":
-        return "Alliteration";
-      case "assonance":
-        return "Assonance";
-      case "consonance":
-        return "Consonance";
-      default:
-        return "Sound Pattern";
-    }
-  };
+  const soundLanguage = resolveSoundLanguage(
+    targetLanguage,
+    suggestions[0]?.currentText
+  );
+
+  const getSoundTypeLabel = (type: SoundPatternSuggestion["type"]): string =>
+    getSoundPatternLabels(type, soundLanguage).label;
 
   const getSoundTypeDescription = (
     type: SoundPatternSuggestion["type"]
-  ): string => {
-    switch (type) {
-      case "alliteration":
-        return "Repeated consonant sounds at the beginning of words";
-      case "assonance":
-        return "Repeated vowel sounds within words";
-      case "consonance":
-        return "Repeated consonant sounds at the end of words";
-      default:
-        return "Sound pattern";
-    }
-  };
+  ): string => getSoundPatternLabels(type, soundLanguage).description;
 
   const getSoundTypeColor = (
     type: SoundPatternSuggestion["type"]
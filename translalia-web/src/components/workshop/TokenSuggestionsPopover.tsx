@@ -16,6 +16,9 @@ import { Plus, RefreshCw, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { RegenerateGuidanceDialog } from "./RegenerateGuidanceDialog";
 import type { WordSuggestion } from "./AdditionalSuggestions";
+import { VARIANT_LABELS } from "@/lib/ai/variantCount";
+
+const SUGGESTION_GROUPS = [...VARIANT_LABELS, "any"] as const;
 
 type TokenSuggestionRangeMode = "focused" | "balanced" | "adventurous";
 
@@ -53,12 +56,9 @@ export function TokenSuggestionsPopover({
   const [rangeMode, setRangeMode] =
     useState<TokenSuggestionRangeMode>("balanced");
   const groupedSuggestions = React.useMemo(() => {
-    const groups: Record<string, WordSuggestion[]> = {
-      A: [],
-      B: [],
-      C: [],
-      any: [],
-    };
+    const groups: Record<string, WordSuggestion[]> = Object.fromEntries(
+      SUGGESTION_GROUPS.map((key) => [key, []])
+    );
     suggestions.forEach((s) => {
       const key = s.fitsWith && groups[s.fitsWith] ? s.fitsWith : "any";
       groups[key].push(s);
@@ -265,7 +265,7 @@ export function TokenSuggestionsPopover({
               </div>
             ) : (
               <div className="space-y-4">
-                {(["A", "B", "C", "any"] as const).map((groupKey) => {
+                {SUGGESTION_GROUPS.map((groupKey) => {
                   const groupItems = groupedSuggestions[groupKey];
                   if (groupItems.length === 0) return null;
                   return (
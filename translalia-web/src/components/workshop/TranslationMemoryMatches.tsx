@@ -0,0 +1,110 @@
+"use client";
+
+import * as React from "react";
+import { History } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { useTranslationMemoryMatches } from "@/lib/hooks/useTranslationMemory";
+import { useGuideStore } from "@/store/guideSlice";
+import type { TranslationMemoryMatch } from "@/types/translationMemory";
+
+interface TranslationMemoryMatchesProps {
+  threadId: string | null | undefined;
+  /** Source line to look up in the user's other threads. */
+  sourceText: string | null | undefined;
+  /** Called with the remembered translation when the user picks a match. */
+  onUse: (targetText: string) => void;
+  className?: string;
+}
+
+function badgeVariant(match: TranslationMemoryMatch) {
+  if (match.matchPercent >= 99) return "success" as const;
+  if (match.matchPercent >= 85) return "default" as const;
+  return "secondary" as const;
+}
+
+/**
+ * Fuzzy matches for one source line from the user's translation memory.
+ * Renders nothing when the thread turned memory off or nothing is similar.
+ */
+export function TranslationMemoryMatches({
+  threadId,
+  sourceText,
+  onUse,
+  className,
+}: TranslationMemoryMatchesProps) {
+  const t = useTranslations("Workshop");
+  const memoryEnabled = useGuideStore(
+    (s) => s.answers.translationMemory !== false
+  );
+  const segments = React.useMemo(
+    () => (sourceText?.trim() ? [sourceText] : []),
+    [sourceText]
+  );
+  const { data } = useTranslationMemoryMatches(threadId, segments, {
+    enabled: memoryEnabled,
+  });
+
+  const matches = data?.enabled ? data.matches[0] ?? [] : [];
+  if (!memoryEnabled || matches.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-border-subtle bg-muted/40 p-3 space-y-2",
+        className
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-foreground-secondary" />
+        <span className="text-sm font-medium">
+          {t("translationMemoryTitle", { defaultValue: "From your memory" })}
+        </span>
+      </div>
+
+      <ul className="space-y-2">
+        {matches.map((match) => (
+          <li
+            key={match.id}
+            className="flex items-start justify-between gap-3 rounded-md bg-surface px-3 py-2"
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={badgeVariant(match)}>
+                  {t("translationMemoryMatch", {
+                    percent: match.matchPercent,
+                    defaultValue: "{percent}% match",
+                  })}
+                </Badge>
+                {match.threadTitle && (
+                  <span className="truncate text-xs text-foreground-muted">
+                    {match.threadTitle}
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-foreground">{match.targetText}</p>
+              {match.matchPercent < 100 && (
+                <p className="text-xs text-foreground-secondary">
+                  {t("translationMemorySource", {
+                    source: match.sourceText,
+                    defaultValue: "Source: {source}",
+                  })}
+                </p>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 shrink-0 text-xs"
+              onClick={() => onUse(match.targetText)}
+            >
+              {t("translationMemoryUse", { defaultValue: "Use" })}
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
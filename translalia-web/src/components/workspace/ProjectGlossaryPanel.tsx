@@ -0,0 +1,172 @@
+"use client";
+
+import * as React from "react";
+import { BookMarked, X } from "lucide-react";
+import { useTranslations } from "next-intl";
+import {
+  useAddGlossaryEntry,
+  useDeleteGlossaryEntry,
+  useProjectGlossary,
+} from "@/lib/hooks/useProjectGlossary";
+import type { GlossaryEntry, GlossaryTermKind } from "@/types/glossary";
+
+const KINDS: GlossaryTermKind[] = ["required", "do_not_translate", "forbidden"];
+
+const KIND_LABEL_KEY = {
+  required: "kindRequired",
+  do_not_translate: "kindDoNotTranslate",
+  forbidden: "kindForbidden",
+} as const;
+
+function entryText(entry: GlossaryEntry): string {
+  if (entry.kind === "required") return `${entry.sourceTerm} → ${entry.targetTerm}`;
+  if (entry.kind === "do_not_translate") return entry.sourceTerm;
+  return entry.targetTerm;
+}
+
+/**
+ * Workspace glossary: terms every variant of every chat in the project
+ * must render, keep verbatim, or avoid.
+ */
+export function ProjectGlossaryPanel({ projectId }: { projectId: string }) {
+  const t = useTranslations("Glossary");
+  const { data, isLoading } = useProjectGlossary(projectId);
+  const addEntry = useAddGlossaryEntry(projectId);
+  const deleteEntry = useDeleteGlossaryEntry(projectId);
+
+  const [kind, setKind] = React.useState<GlossaryTermKind>("required");
+  const [sourceTerm, setSourceTerm] = React.useState("");
+  const [targetTerm, setTargetTerm] = React.useState("");
+  const [note, setNote] = React.useState("");
+
+  const needsSource = kind !== "forbidden";
+  const needsTarget = kind !== "do_not_translate";
+  const canSubmit =
+    (!needsSource || sourceTerm.trim().length > 0) &&
+    (!needsTarget || targetTerm.trim().length > 0) &&
+    !addEntry.isPending;
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!canSubmit) return;
+    try {
+      await addEntry.mutateAsync({
+        kind,
+        ...(needsSource ? { sourceTerm: sourceTerm.trim() } : {}),
+        ...(needsTarget ? { targetTerm: targetTerm.trim() } : {}),
+        note: note.trim() || null,
+      });
+      setSourceTerm("");
+      setTargetTerm("");
+      setNote("");
+    } catch {
+      // Error is rendered from addEntry.error
+    }
+  }
+
+  const entries = data?.entries ?? [];
+  const inputClass =
+    "w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-sky-400 focus:outline-none";
+
+  return (
+    <section className="rounded-3xl bg-white/90 p-6 shadow-sm ring-1 ring-slate-200 sm:p-8">
+      <div className="flex items-center gap-2">
+        <BookMarked className="h-5 w-5 text-slate-500" aria-hidden />
+        <h2 className="text-2xl font-semibold text-slate-900">{t("title")}</h2>
+      </div>
+      <p className="mt-2 text-sm text-slate-600">{t("description")}</p>
+
+      <form
+        onSubmit={onSubmit}
+        className="mt-6 grid gap-3 sm:grid-cols-[auto_1fr_1fr_1fr_auto] sm:items-end"
+      >
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-500">
+          {t("kindLabel")}
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as GlossaryTermKind)}
+            className={inputClass}
+          >
+            {KINDS.map((k) => (
+              <option key={k} value={k}>
+                {t(KIND_LABEL_KEY[k])}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-500">
+          {t("sourceTerm")}
+          <input
+            value={sourceTerm}
+            onChange={(e) => setSourceTerm(e.target.value)}
+            disabled={!needsSource}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-500">
+          {t("targetTerm")}
+          <input
+            value={targetTerm}
+            onChange={(e) => setTargetTerm(e.target.value)}
+            disabled={!needsTarget}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-semibold text-slate-500">
+          {t("note")}
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="rounded-full bg-sky-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-sky-500 disabled:opacity-60"
+        >
+          {t("add")}
+        </button>
+      </form>
+      {addEntry.error && (
+        <p className="mt-2 text-sm text-red-600">{addEntry.error.message}</p>
+      )}
+
+      <ul className="mt-6 flex flex-col gap-2">
+        {isLoading ? null : entries.length === 0 ? (
+          <li className="rounded-2xl border border-dashed border-slate-300 bg-slate-50/60 px-5 py-6 text-center text-sm text-slate-500">
+            {t("empty")}
+          </li>
+        ) : (
+          entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-white/80 px-4 py-3"
+            >
+              <div className="min-w-0">
+                <span className="mr-2 rounded-full bg-slate-100 px-2 py-0.5 text-xs font-semibold text-slate-600">
+                  {t(KIND_LABEL_KEY[entry.kind])}
+                </span>
+                <span className="text-sm font-medium text-slate-900">
+                  {entryText(entry)}
+                </span>
+                {entry.note && (
+                  <span className="ml-2 text-xs text-slate-500">{entry.note}</span>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => deleteEntry.mutate(entry.id)}
+                disabled={deleteEntry.isPending}
+                className="rounded-full p-1 text-slate-400 transition hover:bg-red-50 hover:text-red-600"
+                aria-label={t("remove")}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))
+        )}
+      </ul>
+    </section>
+  );
+}
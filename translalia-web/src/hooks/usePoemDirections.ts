@@ -0,0 +1,55 @@
+"use client";
+
+import * as React from "react";
+import { useLocale } from "next-intl";
+import { useGuideStore } from "@/store/guideSlice";
+import { useWorkshopStore } from "@/store/workshopSlice";
+import {
+  detectScript,
+  languageDirection,
+  resolveTextDirection,
+  type TextDirection,
+  type WritingScript,
+} from "@/lib/i18n/textDirection";
+
+export interface PoemDirections {
+  /** Direction of the source poem */
+  source: TextDirection;
+  /** Direction of the translation */
+  target: TextDirection;
+  sourceScript: WritingScript | null;
+  targetScript: WritingScript | null;
+}
+
+/**
+ * Text direction of the source poem and of the translation, independent of
+ * the UI locale. The source comes from the poem's letters (then the source
+ * variety the user named); the target from the chosen target script or
+ * language, then from lines already translated. Both fall back to the UI
+ * direction. Render single lines with `lineDirection(line, source|target)`.
+ */
+export function usePoemDirections(): PoemDirections {
+  const locale = useLocale();
+  const poemLines = useWorkshopStore((s) => s.poemLines);
+  const completedLines = useWorkshopStore((s) => s.completedLines);
+  const poemText = useGuideStore((s) => s.poem.text);
+  const sourceVariety = useGuideStore((s) => s.sourceLanguageVariety.text);
+  const targetLanguage = useGuideStore((s) => s.answers.targetLanguage);
+
+  return React.useMemo(() => {
+    const uiDir = languageDirection(locale) ?? "ltr";
+    const source = poemLines.length ? poemLines.join("\n") : poemText;
+    const translated = Object.values(completedLines).join("\n");
+    const target =
+      languageDirection(targetLanguage?.script) ??
+      languageDirection(targetLanguage?.lang) ??
+      resolveTextDirection(translated, [], uiDir);
+
+    return {
+      source: resolveTextDirection(source, [sourceVariety], uiDir),
+      target,
+      sourceScript: detectScript(source),
+      targetScript: detectScript(translated),
+    };
+  }, [locale, poemLines, poemText, sourceVariety, completedLines, targetLanguage]);
+}
@@ -1,6 +1,7 @@
 // src/lib/ai/alignmentGenerator.ts
 import { z } from "zod";
-import { openai } from "@/lib/ai/openai";
+import { getClientForModel } from "@/lib/ai/openai";
+import { ALIGNMENT_MODEL } from "@/lib/models";
 import { trackCallStart, trackCallEnd } from "@/lib/ai/openaiInstrumentation";
 
 const AlignedWordSchema = z.object({
@@ -8,6 +9,7 @@ const AlignedWordSchema = z.object({
   translation: z.string(),
   partOfSpeech: z.string(),
   position: z.number().int().min(0),
+  confidence: z.number().min(0).max(1).optional(),
 });
 
 const AlignmentResponseSchema = z.object({
@@ -52,6 +54,7 @@ Rules:
 4. Handle multi-word phrases by creating separate entries with same position
 5. For grammatical particles or function words, use "neutral" as part of speech
 6. Position index starts at 0 and increments for each source word
+7. Rate each mapping with a confidence between 0 and 1 (1 = certain)
 
 Return ONLY valid JSON matching this schema:
 {
@@ -60,7 +63,8 @@ Return ONLY valid JSON matching this schema:
       "original": "source_word",
       "translation": "translated_word",
       "partOfSpeech": "noun|verb|adjective|etc",
-      "position": 0
+      "position": 0,
+      "confidence": 0.9
     }
   ]
 }`;
@@ -76,8 +80,11 @@ Analyze the semantic structure and create precise alignments. Return JSON only.`
   const alignStart = Date.now();
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await getClientForModel(
+      ALIGNMENT_MODEL,
+      "workshop:alignment"
+    ).chat.completions.create({
+      model: ALIGNMENT_MODEL,
       temperature: 0, // Deterministic for consistency
       response_format: { type: "json_object" },
       messages: [
@@ -92,7 +99,7 @@ Analyze the semantic structure and create precise alignments. Return JSON only.`
       promptTokens: completion.usage?.prompt_tokens,
       completionTokens: completion.usage?.completion_tokens,
       totalTokens: completion.usage?.total_tokens,
-      model: "gpt-4o-mini",
+      model: ALIGNMENT_MODEL,
       temperature: 0,
     });
 
@@ -131,7 +138,7 @@ Analyze the semantic structure and create precise alignments. Return JSON only.`
       errorName: errorObj.name,
       httpStatus: errorObj.status,
       errorMessageShort: errorObj.message?.slice(0, 100),
-      model: "gpt-4o-mini",
+      model: ALIGNMENT_MODEL,
       temperature: 0,
     });
     console.error("[alignmentGenerator] Error:", error);
@@ -154,7 +161,7 @@ Analyze the semantic structure and create precise alignments. Return JSON only.`
  * Optimized to reduce API calls from 3 to 1 per line.
  *
  * @param sourceText - Original text in source language
- * @param variants - Array of translated texts (typically 3 variants)
+ * @param variants - Array of translated texts (one per variant, up to six)
  * @param sourceLanguage - Source language name
  * @param targetLanguage - Target language name
  * @returns Array of alignment arrays (one per variant)
@@ -180,6 +187,8 @@ Rules:
 4. Handle multi-word phrases by creating separate entries with same position
 5. For grammatical particles or function words, use "neutral" as part of speech
 6. Position index starts at 0 and increments for each source word
+7. Rate each mapping with a confidence between 0 and 1 (1 = certain)
+8. Return one entry per variant, numbered as in the request
 
 Return ONLY valid JSON matching this schema:
 {
@@ -191,7 +200,8 @@ Return ONLY valid JSON matching this schema:
           "original": "source_word",
           "translation": "translated_word",
           "partOfSpeech": "noun|verb|adjective|etc",
-          "position": 0
+          "position": 0,
+          "confidence": 0.9
         }
       ]
     },
@@ -223,8 +233,11 @@ Analyze the semantic structure and create precise alignments for each variant. R
   const alignStart = Date.now();
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await getClientForModel(
+      ALIGNMENT_MODEL,
+      "workshop:alignment"
+    ).chat.completions.create({
+      model: ALIGNMENT_MODEL,
       temperature: 0, // Deterministic for consistency
       response_format: { type: "json_object" },
       messages: [
@@ -239,7 +252,7 @@ Analyze the semantic structure and create precise alignments for each variant. R
       promptTokens: completion.usage?.prompt_tokens,
       completionTokens: completion.usage?.completion_tokens,
       totalTokens: completion.usage?.total_tokens,
-      model: "gpt-4o-mini",
+      model: ALIGNMENT_MODEL,
       temperature: 0,
     });
 
@@ -287,7 +300,7 @@ Analyze the semantic structure and create precise alignments for each variant. R
       errorName: errorObj.name,
       httpStatus: errorObj.status,
       errorMessageShort: errorObj.message?.slice(0, 100),
-      model: "gpt-4o-mini",
+      model: ALIGNMENT_MODEL,
       temperature: 0,
     });
     console.error("[alignmentGenerator] Batched alignment error:", error);
@@ -7,6 +7,7 @@
  */
 
 import { pickStopwords } from "./stopwords";
+import type { VariantLabel } from "./variantCount";
 import {
   normalizeForContainment,
   containsNormalized,
@@ -334,7 +335,7 @@ export function validateSelfReportMetadata(
     c_world_shift_summary?: string;
     c_subject_form_used?: string;
   },
-  label: "A" | "B" | "C",
+  label: VariantLabel,
   anchorIds: string[],
   mode: "focused" | "balanced" | "adventurous",
   stancePlanSubjectForm?: string
@@ -5,12 +5,20 @@
  * - Recipe cache hits
  * - Phase 1/2 validation failures
  * - Diversity gate metrics
+ * - Project glossary violations
  * - Regeneration outcomes
  *
  * Enables fast debugging: "Why was this line paraphrase-y?"
  */
 
 import type { TranslationRangeMode, RecipeCacheInfo } from "./variantRecipes";
+import type { GlossaryGateResult } from "./glossaryGate";
+import {
+  variantLabelAt,
+  variantPairKey,
+  variantPairs,
+  type VariantLabel,
+} from "./variantCount";
 
 // =============================================================================
 // Types
@@ -47,21 +55,27 @@ export interface LineAudit {
     pass: boolean;
     reason?: string; // stable reason string
     failedConstraints?: string[]; // e.g. ["signature","opener","overlap"]
+    // Keyed by lowercase label pair ("ab", "ac", "bc", …) plus the average
     similarity?: {
-      ab?: number;
-      ac?: number;
-      bc?: number;
       avgPairwise?: number;
+      [pair: string]: number | undefined;
     };
-    openerTypes?: { a?: string; b?: string; c?: string };
-    signatures?: { a?: string; b?: string; c?: string };
-    contentTokenCounts?: { a?: number; b?: number; c?: number };
+    // Keyed by lowercase variant label ("a", "b", "c", …)
+    openerTypes?: Record<string, string | undefined>;
+    signatures?: Record<string, string | undefined>;
+    contentTokenCounts?: Record<string, number | undefined>;
+  };
+
+  // Only set when the thread's project has a glossary
+  glossary?: {
+    pass: boolean;
+    violations?: string[]; // e.g. ["B:forbidden:spirit"]
   };
 
   regen?: {
     performed: boolean;
-    worstIndex?: 0 | 1 | 2;
-    variantLabel?: "A" | "B" | "C";
+    worstIndex?: number;
+    variantLabel?: VariantLabel;
     reason?: string; // gate.reason or phase1 reason
     strategy?: "single" | "salvage";
     sampleCount?: number; // 1 or K (e.g., 6)
@@ -84,7 +98,7 @@ export interface Phase1Result {
 export interface RegenInfo {
   performed: boolean;
   worstIndex?: number;
-  variantLabel?: "A" | "B" | "C";
+  variantLabel?: VariantLabel;
   reason?: string;
   strategy?: "single" | "salvage";
   sampleCount?: number;
@@ -95,6 +109,13 @@ export interface RegenInfo {
 // Audit Builders
 // =============================================================================
 
+/** Per-variant values keyed by lowercase label: [x, y] → { a: x, b: y }. */
+function byVariantLabel<T>(values: T[]): Record<string, T> {
+  return Object.fromEntries(
+    values.map((v, i) => [variantLabelAt(i).toLowerCase(), v])
+  );
+}
+
 /**
  * Create base audit record with core fields
  */
@@ -155,43 +176,33 @@ export function attachGateMetrics(
     };
   }
 ): void {
-  // Extract pairwise similarities (ab, ac, bc)
+  const details = gateResult.details;
+
+  // Extract pairwise similarities (ab, ac, bc, …); the gate scores pairs in
+  // variantPairs order, so n variants give n(n-1)/2 scores
+  const jaccardScores = details?.jaccardScores ?? [];
+  const variantCount = Math.round((1 + Math.sqrt(1 + 8 * jaccardScores.length)) / 2);
+  const pairs = variantPairs(variantCount);
   const similarities =
-    gateResult.details?.jaccardScores && gateResult.details.jaccardScores.length === 3
+    jaccardScores.length > 0 && jaccardScores.length === pairs.length
       ? {
-          ab: gateResult.details.jaccardScores[0],
-          ac: gateResult.details.jaccardScores[1],
-          bc: gateResult.details.jaccardScores[2],
+          ...Object.fromEntries(
+            pairs.map(([i, j], k) => [variantPairKey(i, j), jaccardScores[k]])
+          ),
           avgPairwise:
-            gateResult.details.jaccardScores.reduce((sum, s) => sum + s, 0) / 3,
+            jaccardScores.reduce((sum, s) => sum + s, 0) / jaccardScores.length,
         }
       : undefined;
 
-  // Extract opener types
-  const openerTypes = gateResult.details?.openerTypes
-    ? {
-        a: gateResult.details.openerTypes[0],
-        b: gateResult.details.openerTypes[1],
-        c: gateResult.details.openerTypes[2],
-      }
+  // Extract opener types, signatures and content token counts
+  const openerTypes = details?.openerTypes
+    ? byVariantLabel(details.openerTypes)
     : undefined;
-
-  // Extract signatures
-  const signatures = gateResult.details?.signatures
-    ? {
-        a: gateResult.details.signatures[0],
-        b: gateResult.details.signatures[1],
-        c: gateResult.details.signatures[2],
-      }
+  const signatures = details?.signatures
+    ? byVariantLabel(details.signatures)
     : undefined;
-
-  // Extract content token counts
-  const contentTokenCounts = gateResult.details?.contentTokenCounts
-    ? {
-        a: gateResult.details.contentTokenCounts[0],
-        b: gateResult.details.contentTokenCounts[1],
-        c: gateResult.details.contentTokenCounts[2],
-      }
+  const contentTokenCounts = details?.contentTokenCounts
+    ? byVariantLabel(details.contentTokenCounts)
     : undefined;
 
   // Determine failed constraints from reason
@@ -214,6 +225,22 @@ export function attachGateMetrics(
   };
 }
 
+/**
+ * Attach glossary gate results (final variants) to audit
+ */
+export function attachGlossaryMetrics(
+  audit: LineAudit,
+  glossaryResult: GlossaryGateResult
+): void {
+  audit.glossary = {
+    pass: glossaryResult.pass,
+    violations:
+      glossaryResult.violations.length > 0
+        ? glossaryResult.violations.map((v) => `${v.variant}:${v.kind}:${v.term}`)
+        : undefined,
+  };
+}
+
 /**
  * Attach regeneration metrics to audit
  */
@@ -222,7 +249,7 @@ export function attachRegenMetrics(audit: LineAudit, regenInfo: RegenInfo): void
     performed: regenInfo.performed,
     worstIndex:
       regenInfo.worstIndex !== undefined
-        ? (regenInfo.worstIndex as 0 | 1 | 2)
+        ? regenInfo.worstIndex
         : undefined,
     variantLabel: regenInfo.variantLabel,
     reason: regenInfo.reason,
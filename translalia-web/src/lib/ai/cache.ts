@@ -1,13 +1,9 @@
 import crypto from "crypto";
 import { randomUUID } from "crypto";
-
-// =============================================================================
-// In-Memory Fallback (DEV ONLY)
-// =============================================================================
-// This Map is ONLY used when Redis is not configured (local development).
-// On Vercel/serverless, this is useless because each function instance has
-// its own memory that's wiped after ~10-30 seconds of inactivity.
-const mem = new Map<string, { expires: number; value: unknown }>();
+import { getCacheBackend, type CacheBackend } from "@/lib/cache/backend";
+import { getMemoryBackend } from "@/lib/cache/memoryBackend";
+import { getUpstashClient } from "@/lib/cache/upstashBackend";
+import { recordCacheLookup } from "@/lib/cache/stats";
 
 // =============================================================================
 // Utility Functions
@@ -25,16 +21,17 @@ export function stableHash(obj: unknown): string {
 // Upstash Redis Client (Lazy-Initialized Singleton)
 // =============================================================================
 
-let redisClient: unknown = null;
-
 /**
- * Get Upstash Redis client (lazy-initialized singleton)
+ * Get Upstash Redis client (lazy-initialized singleton), for the translation
+ * queue, fair scheduler, dead-letter queue, progress events and collaboration
+ * relay, which talk to Upstash directly. The cache and locks below go through
+ * the configured backend instead (lib/cache/backend.ts), so REDIS_URL,
+ * CACHE_SQLITE_PATH or CACHE_BACKEND do not stand in for Upstash here.
+ *
  * Returns null if not configured in development, throws in production
  * ✅ CRITICAL: If USE_REDIS_LOCK=true is set, always throws if Redis is missing
  */
 export async function getUpstashRedis(): Promise<unknown> {
-  if (redisClient) return redisClient;
-
   if (
     !process.env.UPSTASH_REDIS_REST_URL ||
     !process.env.UPSTASH_REDIS_REST_TOKEN
@@ -56,12 +53,7 @@ export async function getUpstashRedis(): Promise<unknown> {
   }
 
   try {
-    const { Redis } = await import("@upstash/redis");
-    redisClient = new Redis({
-      url: process.env.UPSTASH_REDIS_REST_URL,
-      token: process.env.UPSTASH_REDIS_REST_TOKEN,
-    });
-    return redisClient;
+    return await getUpstashClient();
   } catch (error) {
     console.error("[cache] Failed to initialize Upstash Redis:", error);
     if (process.env.NODE_ENV === "production") {
@@ -72,77 +64,57 @@ export async function getUpstashRedis(): Promise<unknown> {
 }
 
 // =============================================================================
-// Cache Functions (Now Redis-backed!)
+// Cache Functions (Backend-agnostic)
 // =============================================================================
-// These functions now use Upstash Redis in production/serverless environments,
-// with in-memory fallback for local development without Redis configured.
+// These functions use the configured cache backend (Upstash, Redis over TCP,
+// SQLite or memory; see lib/cache/backend.ts). Development defaults to an
+// in-memory Map.
 //
-// KEY INSIGHT: The same Redis instance is used for:
+// KEY INSIGHT: The same backend is used for:
 // - LLM response caching (this section)
 // - Distributed locks (lockHelper below)
-// - Rate limiting (separate file)
-// - Job queues (separate file)
 //
 // We prefix cache keys with "cache:" to avoid collisions with lock keys.
 
 /**
- * Get a cached value by key.
- *
- * Production/Vercel: Reads from Upstash Redis (shared across all instances)
- * Development: Falls back to in-memory Map (not shared, but fine for local dev)
+ * Run a cache operation on the configured backend, falling back to the
+ * in-process memory backend if it is unavailable or errors.
  */
-export async function cacheGet<T>(key: string): Promise<T | null> {
-  const prefixedKey = `cache:${key}`;
-
-  // Production or serverless: use Redis
-  if (
-    process.env.NODE_ENV === "production" ||
-    process.env.USE_REDIS_LOCK === "true"
-  ) {
-    try {
-      const redis = await getUpstashRedis();
-      if (!redis) {
-        // Shouldn't happen in production, but handle gracefully
-        console.warn("[cacheGet] Redis not available, falling back to memory");
-        return memoryGet<T>(key);
-      }
-
-      const value = await (
-        redis as { get: (key: string) => Promise<string | null> }
-      ).get(prefixedKey);
-
-      if (value === null) {
-        return null;
-      }
-
-      // Upstash Redis automatically deserializes JSON, but let's be safe
-      try {
-        // If it's already an object (auto-deserialized), return it
-        if (typeof value === "object") {
-          return value as T;
-        }
-        // If it's a string, try to parse it
-        return JSON.parse(value) as T;
-      } catch {
-        // If parsing fails, return as-is (might be a simple string)
-        return value as T;
-      }
-    } catch (error) {
-      console.error("[cacheGet] Redis error, falling back to memory:", error);
-      return memoryGet<T>(key);
-    }
+async function withCacheBackend<T>(
+  operation: string,
+  run: (backend: CacheBackend) => Promise<T>,
+): Promise<T> {
+  let backend: CacheBackend;
+  try {
+    backend = await getCacheBackend();
+  } catch (error) {
+    console.warn(`[${operation}] Cache backend not available, falling back to memory:`, error);
+    return run(getMemoryBackend());
+  }
+  try {
+    return await run(backend);
+  } catch (error) {
+    if (backend.name === "memory") throw error;
+    console.error(`[${operation}] ${backend.name} error, falling back to memory:`, error);
+    return run(getMemoryBackend());
   }
+}
 
-  // Development: use in-memory fallback
-  return memoryGet<T>(key);
+/**
+ * Get a cached value by key. Hits and misses are counted per key family
+ * (lib/cache/stats.ts).
+ */
+export async function cacheGet<T>(key: string): Promise<T | null> {
+  const value = await withCacheBackend("cacheGet", (backend) =>
+    backend.get(`cache:${key}`),
+  );
+  recordCacheLookup(key, value !== null && value !== undefined);
+  return (value ?? null) as T | null;
 }
 
 /**
  * Set a cached value with TTL.
  *
- * Production/Vercel: Writes to Upstash Redis (persists across instances)
- * Development: Falls back to in-memory Map
- *
  * @param key - Cache key (will be prefixed with "cache:")
  * @param value - Value to cache (will be JSON serialized)
  * @param ttlSec - Time-to-live in seconds (default: 3600 = 1 hour)
@@ -152,41 +124,9 @@ export async function cacheSet<T>(
   value: T,
   ttlSec = 3600,
 ): Promise<void> {
-  const prefixedKey = `cache:${key}`;
-
-  // Production or serverless: use Redis
-  if (
-    process.env.NODE_ENV === "production" ||
-    process.env.USE_REDIS_LOCK === "true"
-  ) {
-    try {
-      const redis = await getUpstashRedis();
-      if (!redis) {
-        console.warn("[cacheSet] Redis not available, falling back to memory");
-        memorySet(key, value, ttlSec);
-        return;
-      }
-
-      // SET with EX (expiration in seconds)
-      // Upstash Redis handles JSON serialization automatically
-      await (
-        redis as {
-          set: (
-            key: string,
-            value: unknown,
-            opts: { ex: number },
-          ) => Promise<string | null>;
-        }
-      ).set(prefixedKey, value, { ex: ttlSec });
-    } catch (error) {
-      console.error("[cacheSet] Redis error, falling back to memory:", error);
-      memorySet(key, value, ttlSec);
-    }
-    return;
-  }
-
-  // Development: use in-memory fallback
-  memorySet(key, value, ttlSec);
+  await withCacheBackend("cacheSet", (backend) =>
+    backend.set(`cache:${key}`, value, ttlSec),
+  );
 }
 
 /**
@@ -194,143 +134,71 @@ export async function cacheSet<T>(
  * CRITICAL: Use this for explicit cache invalidation.
  */
 export async function cacheDelete(key: string): Promise<void> {
-  const prefixedKey = `cache:${key}`;
-
-  // Production or serverless: use Redis
-  if (
-    process.env.NODE_ENV === "production" ||
-    process.env.USE_REDIS_LOCK === "true"
-  ) {
-    try {
-      const redis = await getUpstashRedis();
-      if (!redis) {
-        console.warn(
-          "[cacheDelete] Redis not available, falling back to memory",
-        );
-        mem.delete(key);
-        return;
-      }
-
-      await (redis as { del: (key: string) => Promise<number> }).del(
-        prefixedKey,
-      );
-    } catch (error) {
-      console.error("[cacheDelete] Redis error:", error);
-      mem.delete(key);
-    }
-    return;
-  }
-
-  // Development: use in-memory fallback
-  mem.delete(key);
+  await withCacheBackend("cacheDelete", (backend) =>
+    backend.del(`cache:${key}`),
+  );
 }
 
 // =============================================================================
-// In-Memory Helpers (DEV ONLY)
+// Lock Helpers
 // =============================================================================
 
-function memoryGet<T>(key: string): T | null {
-  const item = mem.get(key);
-  if (!item) return null;
-  if (Date.now() > item.expires) {
-    mem.delete(key);
-    return null;
+/**
+ * Backend for locks. Unlike the cache, locks never fall back to memory when
+ * a shared backend is required: an in-process lock would not exclude other
+ * instances.
+ */
+async function getLockBackend(): Promise<CacheBackend> {
+  const backend = await getCacheBackend();
+  // DEV ONLY unless chosen explicitly (NOT safe for Vercel/serverless!)
+  if (
+    backend.name === "memory" &&
+    !process.env.CACHE_BACKEND &&
+    process.env.NODE_ENV !== "test"
+  ) {
+    console.warn(
+      "[lockHelper] Using in-memory lock (dev only, not safe for production)",
+    );
   }
-  return item.value as T;
+  return backend;
 }
 
-function memorySet<T>(key: string, value: T, ttlSec: number): void {
-  mem.set(key, { expires: Date.now() + ttlSec * 1000, value });
-}
-
-// =============================================================================
-// Upstash Redis Lock Helpers
-// =============================================================================
-
 /**
  * Lock helper with explicit acquire/release semantics.
- * CRITICAL: In-memory fallback is DEV-ONLY. Production MUST use Upstash Redis.
+ * CRITICAL: The memory backend is DEV-ONLY (or single-process deployments).
  *
- * HARDENING: Uses UUID tokens and Lua compare-and-delete to prevent:
+ * HARDENING: Uses UUID tokens and compare-and-delete to prevent:
  * - Releasing someone else's lock after TTL expiry
  * - Race conditions when multiple processes compete for the same lock
  */
 export const lockHelper = {
   /**
-   * Atomic acquire: Redis SET ... NX EX with UUID token.
+   * Atomic acquire: SET ... NX EX (or the backend's equivalent) with UUID token.
    * Returns the token if acquired, null if lock already held.
    * IMPORTANT: Caller must store and pass this token to release().
    */
   async acquire(key: string, ttlSec: number): Promise<string | null> {
     const startTime = Date.now();
     const token = randomUUID();
+    // ✅ getCacheBackend() rejects if a shared backend is required but missing
+    const backend = await getLockBackend();
 
-    // Production or explicit Redis flag: use Upstash Redis
-    // ✅ PRIORITY 1 FIX: Set USE_REDIS_LOCK=true in dev for multi-process safety
-    // In-memory locks don't work across instances/processes (Vercel/serverless)
-    if (
-      process.env.NODE_ENV === "production" ||
-      process.env.USE_REDIS_LOCK === "true"
-    ) {
-      // ✅ getUpstashRedis() will throw if USE_REDIS_LOCK=true but Redis is missing
-      const redis = await getUpstashRedis();
-      if (!redis) {
-        // This should never happen if USE_REDIS_LOCK=true (getUpstashRedis throws)
-        // But handle it defensively for production mode
-        throw new Error(
-          "Redis required for locking but getUpstashRedis() returned null. " +
-            "Check Redis configuration.",
-        );
-      }
-      // SET key <uuid> NX EX ttlSec - returns "OK" if acquired, null if already exists
-      const result = await (
-        redis as {
-          set: (
-            key: string,
-            value: string,
-            opts: { nx: boolean; ex: number },
-          ) => Promise<string | null>;
-        }
-      ).set(key, token, { nx: true, ex: ttlSec });
-
-      const elapsed = Date.now() - startTime;
-      if (result === "OK") {
-        console.log(
-          `[lockHelper] ✅ Acquired ${key} in ${elapsed}ms (TTL: ${ttlSec}s, token: ${token.slice(0, 8)}...)`,
-        );
-        return token;
-      } else {
-        console.log(
-          `[lockHelper] ⏳ Failed to acquire ${key} (already held) in ${elapsed}ms`,
-        );
-        return null;
-      }
-    }
-
-    // DEV ONLY: In-memory fallback (NOT safe for Vercel/serverless!)
-    if (process.env.NODE_ENV !== "test") {
-      console.warn(
-        "[lockHelper] Using in-memory lock (dev only, not safe for production)",
-      );
-    }
-    const existing = memoryGet<string>(key);
+    const acquired = await backend.set(key, token, ttlSec, { nx: true });
     const elapsed = Date.now() - startTime;
-    if (existing) {
+    if (acquired) {
       console.log(
-        `[lockHelper] ⏳ Failed to acquire ${key} (already held, in-memory) in ${elapsed}ms`,
+        `[lockHelper] ✅ Acquired ${key} in ${elapsed}ms (${backend.name}, TTL: ${ttlSec}s, token: ${token.slice(0, 8)}...)`,
       );
-      return null;
+      return token;
     }
-    memorySet(key, token, ttlSec);
     console.log(
-      `[lockHelper] ✅ Acquired ${key} in ${elapsed}ms (in-memory, TTL: ${ttlSec}s)`,
+      `[lockHelper] ⏳ Failed to acquire ${key} (already held, ${backend.name}) in ${elapsed}ms`,
     );
-    return token;
+    return null;
   },
 
   /**
    * Safe release: Only deletes the lock if we still own it (token matches).
-   * Uses Lua compare-and-delete script for atomicity in Redis.
    * Prevents releasing someone else's lock after TTL expiry.
    *
    * @param key - The lock key
@@ -343,67 +211,23 @@ export const lockHelper = {
       return;
     }
 
-    // Production or explicit Redis flag: use Upstash Redis
-    if (
-      process.env.NODE_ENV === "production" ||
-      process.env.USE_REDIS_LOCK === "true"
-    ) {
-      const redis = await getUpstashRedis();
-      if (!redis) {
-        throw new Error("Redis required for locking in production");
-      }
-
-      // Lua script for atomic compare-and-delete:
-      // Only deletes if the current value equals our token
-      const luaScript = `
-        if redis.call("get", KEYS[1]) == ARGV[1] then
-          return redis.call("del", KEYS[1])
-        else
-          return 0
-        end
-      `;
-
-      try {
-        await (
-          redis as {
-            eval: (
-              script: string,
-              keys: string[],
-              args: string[],
-            ) => Promise<number>;
-          }
-        ).eval(luaScript, [key], [token]);
-        const elapsed = Date.now() - startTime;
-        console.log(
-          `[lockHelper] 🔓 Released ${key} in ${elapsed}ms (token: ${token.slice(0, 8)}...)`,
-        );
-      } catch {
-        // Fallback for Redis clients that don't support eval directly
-        // Check-then-delete (not atomic, but better than unconditional delete)
-        const currentValue = await (
-          redis as { get: (key: string) => Promise<string | null> }
-        ).get(key);
-        if (currentValue === token) {
-          await (redis as { del: (key: string) => Promise<number> }).del(key);
-        }
-        const elapsed = Date.now() - startTime;
-        console.log(
-          `[lockHelper] 🔓 Released ${key} in ${elapsed}ms (fallback, token: ${token.slice(0, 8)}...)`,
-        );
-      }
-      return;
-    }
-
-    // DEV ONLY: In-memory compare-and-delete
-    const existing = memoryGet<string>(key);
-    if (existing === token) {
-      mem.delete(key);
+    const backend = await getLockBackend();
+    if (await backend.deleteIfEquals(key, token)) {
       const elapsed = Date.now() - startTime;
       console.log(
-        `[lockHelper] 🔓 Released ${key} in ${elapsed}ms (in-memory)`,
+        `[lockHelper] 🔓 Released ${key} in ${elapsed}ms (${backend.name}, token: ${token.slice(0, 8)}...)`,
       );
     }
   },
+
+  /**
+   * Delete a lock regardless of who holds it. Only for taking over work the
+   * holder must abandon (e.g. a job restarted with another model).
+   */
+  async forceRelease(key: string): Promise<void> {
+    const backend = await getLockBackend();
+    await backend.del(key);
+  },
 };
 
 /**
@@ -427,7 +251,7 @@ const activeHeartbeats = new Map<string, NodeJS.Timeout>();
  * Start a heartbeat that periodically extends the lock TTL.
  * This prevents the lock from expiring during long-running operations.
  *
- * The heartbeat uses a Lua script to atomically check the token before extending,
+ * The heartbeat atomically checks the token before extending (a Lua script on Redis),
  * ensuring we don't extend a lock we no longer own.
  *
  * @param key - The lock key
@@ -460,115 +284,36 @@ export function startLockHeartbeat(
     const elapsed = Math.floor((Date.now() - startTime) / 1000);
 
     try {
-      // Production or explicit Redis flag: use Upstash Redis
-      if (
-        process.env.NODE_ENV === "production" ||
-        process.env.USE_REDIS_LOCK === "true"
-      ) {
-        const redis = await getUpstashRedis();
-        if (!redis) {
-          console.warn(
-            `[lockHeartbeat] Redis not available, stopping heartbeat for ${key}`,
-          );
-          clearInterval(timer);
-          activeHeartbeats.delete(key);
-          return;
-        }
-
-        // Lua script: Only extend TTL if we still own the lock (token matches)
-        // EXPIRE returns 1 if timeout was set, 0 if key doesn't exist
-        const luaScript = `
-          if redis.call("get", KEYS[1]) == ARGV[1] then
-            return redis.call("expire", KEYS[1], ARGV[2])
-          else
-            return -1
-          end
-        `;
-
-        try {
-          const result = await (
-            redis as {
-              eval: (
-                script: string,
-                keys: string[],
-                args: string[],
-              ) => Promise<number>;
-            }
-          ).eval(luaScript, [key], [token, ttlSec.toString()]);
-
-          if (result === -1) {
-            // We no longer own the lock - stop heartbeat
-            console.warn(
-              `[lockHeartbeat] Lock ${key} no longer owned (token mismatch), stopping heartbeat ` +
-                `(beat #${heartbeatCount}, elapsed=${elapsed}s)`,
-            );
-            clearInterval(timer);
-            activeHeartbeats.delete(key);
-            return;
-          }
-
-          if (result === 0) {
-            // Key doesn't exist - stop heartbeat
-            console.warn(
-              `[lockHeartbeat] Lock ${key} expired/deleted, stopping heartbeat ` +
-                `(beat #${heartbeatCount}, elapsed=${elapsed}s)`,
-            );
-            clearInterval(timer);
-            activeHeartbeats.delete(key);
-            return;
-          }
-
-          console.log(
-            `[lockHeartbeat] ❤️ Extended ${key} TTL to ${ttlSec}s ` +
-              `(beat #${heartbeatCount}, elapsed=${elapsed}s)`,
-          );
-        } catch (evalError) {
-          // Fallback for Redis clients that don't support eval
-          console.warn(
-            `[lockHeartbeat] Lua eval failed, using fallback:`,
-            evalError,
-          );
-
-          const currentValue = await (
-            redis as { get: (key: string) => Promise<string | null> }
-          ).get(key);
-
-          if (currentValue === token) {
-            await (
-              redis as {
-                expire: (key: string, seconds: number) => Promise<number>;
-              }
-            ).expire(key, ttlSec);
-            console.log(
-              `[lockHeartbeat] ❤️ Extended ${key} TTL to ${ttlSec}s (fallback) ` +
-                `(beat #${heartbeatCount}, elapsed=${elapsed}s)`,
-            );
-          } else {
-            console.warn(
-              `[lockHeartbeat] Lock ${key} no longer owned, stopping heartbeat (fallback)`,
-            );
-            clearInterval(timer);
-            activeHeartbeats.delete(key);
-          }
-        }
-        return;
-      }
+      const backend = await getLockBackend();
+      // Only extend TTL if we still own the lock (token matches)
+      const result = await backend.expireIfEquals(key, token, ttlSec);
 
-      // DEV ONLY: In-memory lock extension
-      const existing = memoryGet<string>(key);
-      if (existing === token) {
-        memorySet(key, token, ttlSec);
-        console.log(
-          `[lockHeartbeat] ❤️ Extended ${key} TTL to ${ttlSec}s (in-memory) ` +
+      if (result === -1) {
+        // We no longer own the lock - stop heartbeat
+        console.warn(
+          `[lockHeartbeat] Lock ${key} no longer owned (token mismatch), stopping heartbeat ` +
             `(beat #${heartbeatCount}, elapsed=${elapsed}s)`,
         );
-      } else {
+        clearInterval(timer);
+        activeHeartbeats.delete(key);
+        return;
+      }
+
+      if (result === 0) {
+        // Key doesn't exist - stop heartbeat
         console.warn(
-          `[lockHeartbeat] Lock ${key} no longer owned (in-memory), stopping heartbeat`,
+          `[lockHeartbeat] Lock ${key} expired/deleted, stopping heartbeat ` +
+            `(beat #${heartbeatCount}, elapsed=${elapsed}s)`,
         );
         clearInterval(timer);
         activeHeartbeats.delete(key);
+        return;
       }
+
+      console.log(
+        `[lockHeartbeat] ❤️ Extended ${key} TTL to ${ttlSec}s (${backend.name}) ` +
+          `(beat #${heartbeatCount}, elapsed=${elapsed}s)`,
+      );
     } catch (error) {
       console.error(`[lockHeartbeat] Error extending ${key}:`, error);
       // Don't stop on transient errors - the lock might still be valid
@@ -20,7 +20,7 @@ const INVISIBLE_CHARS = /[​‌‍⁠﻿ ]/g;
  * whitespace, lowercase. Without this, a pasted allowlist value can look
  * identical to the login email yet fail an exact match.
  */
-function normalizeEmail(value: string): string {
+export function normalizeEmail(value: string): string {
   return value.replace(INVISIBLE_CHARS, "").trim().toLowerCase();
 }
 
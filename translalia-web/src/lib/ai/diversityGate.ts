@@ -15,11 +15,15 @@
  * - Mode-aware Jaccard thresholds (focused=lenient, adventurous=strict)
  * - Extended stopword support (EN/FR/ES/DE/PT/IT)
  * - Debug logging behind DEBUG_GATE flag
+ *
+ * Works for any variant count (see variantCount.ts): pairwise checks cover
+ * every pair, while the opener/signature rules tied to the A/B/C archetypes
+ * only compare those three.
  */
 
 import { z } from "zod";
 import type { VariantRecipe } from "./variantRecipes";
-import { openai } from "./openai";
+import { getClientForModel } from "./openai";
 import { TRANSLATOR_MODEL } from "@/lib/models";
 import { pickStopwords, getStopwordsLanguage } from "./stopwords";
 import {
@@ -28,6 +32,12 @@ import {
   countNonPunctTokens,
   type OpenerType,
 } from "./structureSignature";
+import {
+  CORE_VARIANT_COUNT,
+  variantLabelAt,
+  variantPairs,
+  type VariantLabel,
+} from "./variantCount";
 
 // =============================================================================
 // Types
@@ -37,7 +47,7 @@ import {
  * A translation variant as returned by the prismatic generation
  */
 export interface TranslationVariant {
-  label: "A" | "B" | "C";
+  label: VariantLabel;
   text: string;
   rationale?: string;
   confidence?: number;
@@ -310,13 +320,17 @@ export function checkDistinctness(
     sourceText?: string;
   }
 ): DistinctnessResult {
-  if (variants.length !== 3) {
+  const n = variants.length;
+  if (n === 0) {
     return {
       pass: false,
       worstIndex: null,
-      reason: `Expected 3 variants, got ${variants.length}`,
+      reason: "Expected at least 1 variant, got 0",
     };
   }
+  // Default regen target when a check has no better candidate: the last
+  // variant (C for the classic three, the most exploratory recipe)
+  const lastIndex = n - 1;
 
   const mode = opts?.mode ?? "balanced";
   const sourceText = opts?.sourceText ?? "";
@@ -325,7 +339,7 @@ export function checkDistinctness(
   // ========================================================================
   // SAFETY CHECK: Empty variant text
   // ========================================================================
-  for (let i = 0; i < 3; i++) {
+  for (let i = 0; i < n; i++) {
     if (!variants[i].text || variants[i].text.trim().length === 0) {
       return {
         pass: false,
@@ -335,6 +349,15 @@ export function checkDistinctness(
     }
   }
 
+  // A single variant has nothing to be distinct from
+  if (n === 1) {
+    return {
+      pass: true,
+      worstIndex: null,
+      details: { jaccardScores: [], maxOverlap: 0, pairWithMaxOverlap: [0, 0] },
+    };
+  }
+
   // ========================================================================
   // PHASE 2: STRUCTURAL SIGNATURE CHECKS (Template Clone Detection)
   // ========================================================================
@@ -352,10 +375,14 @@ export function checkDistinctness(
     });
   }
 
-  // Adventurous mode: Strict structural enforcement
+  // Adventurous mode: Strict structural enforcement (archetype variants A/B/C;
+  // there are fewer opener types than variants once N grows past five)
   if (mode === "adventurous") {
     // Rule 1: Variant C signature must be unique vs A and B
-    if (signatureKeys[2] === signatureKeys[0] || signatureKeys[2] === signatureKeys[1]) {
+    if (
+      n >= CORE_VARIANT_COUNT &&
+      (signatureKeys[2] === signatureKeys[0] || signatureKeys[2] === signatureKeys[1])
+    ) {
       return {
         pass: false,
         worstIndex: 2,
@@ -373,7 +400,10 @@ export function checkDistinctness(
     }
 
     // Rule 2: Opener type distinctness with priority (C first, then B)
-    if (openerTypes[2] === openerTypes[0] || openerTypes[2] === openerTypes[1]) {
+    if (
+      n >= CORE_VARIANT_COUNT &&
+      (openerTypes[2] === openerTypes[0] || openerTypes[2] === openerTypes[1])
+    ) {
       return {
         pass: false,
         worstIndex: 2,
@@ -410,6 +440,7 @@ export function checkDistinctness(
   if (mode === "balanced") {
     // If all three openers are the same, fail with priority (prefer C, then B)
     if (
+      n >= CORE_VARIANT_COUNT &&
       openerTypes[0] === openerTypes[1] &&
       openerTypes[1] === openerTypes[2]
     ) {
@@ -450,7 +481,7 @@ export function checkDistinctness(
 
   // Use average content token count for threshold calculation
   const avgContentTokenCount = Math.round(
-    contentTokenCounts.reduce((sum, c) => sum + c, 0) / 3
+    contentTokenCounts.reduce((sum, c) => sum + c, 0) / n
   );
 
   // Phase 2: Length-aware threshold
@@ -474,15 +505,14 @@ export function checkDistinctness(
   let maxOverlap = 0;
   let maxPair: [number, number] = [0, 1];
 
-  for (let i = 0; i < 3; i++) {
-    for (let j = i + 1; j < 3; j++) {
-      const score = jaccardSimilarity(tokenSets[i], tokenSets[j]);
-      jaccardScores.push(score);
+  // Pair order matches variantPairs(n): (0,1), (0,2), (1,2), …
+  for (const [i, j] of variantPairs(n)) {
+    const score = jaccardSimilarity(tokenSets[i], tokenSets[j]);
+    jaccardScores.push(score);
 
-      if (score > maxOverlap) {
-        maxOverlap = score;
-        maxPair = [i, j];
-      }
+    if (score > maxOverlap) {
+      maxOverlap = score;
+      maxPair = [i, j];
     }
   }
 
@@ -505,9 +535,9 @@ export function checkDistinctness(
           );
           return {
             pass: false,
-            worstIndex: dup === -1 ? 2 : dup,
+            worstIndex: dup === -1 ? lastIndex : dup,
             reason: `Two variants share the same subject opener pattern: "${
-              subjectOpeners[dup === -1 ? 2 : dup]
+              subjectOpeners[dup === -1 ? lastIndex : dup]
             }"`,
             details: {
               jaccardScores,
@@ -527,18 +557,18 @@ export function checkDistinctness(
       openingContentBigram(v.text, stopwords)
     );
     const nonNullOpenings = openings.filter((o): o is string => !!o);
-    if (!skipOpeningBigram && nonNullOpenings.length === 3) {
+    if (!skipOpeningBigram && nonNullOpenings.length === n) {
       const uniq = new Set(nonNullOpenings);
-      if (uniq.size < 3) {
+      if (uniq.size < n) {
         // Regenerate one of the duplicates (prefer last duplicate)
         const dup = openings.findIndex(
           (o, i) => o && openings.indexOf(o) !== i
         );
         return {
           pass: false,
-          worstIndex: dup === -1 ? 2 : dup,
+          worstIndex: dup === -1 ? lastIndex : dup,
           reason: `Two variants share the same opening content bigram: "${
-            openings[dup === -1 ? 2 : dup]
+            openings[dup === -1 ? lastIndex : dup]
           }"`,
           details: {
             jaccardScores,
@@ -561,7 +591,7 @@ export function checkDistinctness(
         if (markerCount > 1) {
           return {
             pass: false,
-            worstIndex: 2,
+            worstIndex: lastIndex,
             reason: `Source has simile; ${mode} mode requires at most 1 variant with comparison marker (found ${markerCount})`,
             details: {
               jaccardScores,
@@ -573,11 +603,11 @@ export function checkDistinctness(
       } else {
         // Focused mode: simplified mode allows unlimited (close variants may all use same marker)
         const focusedMarkerLimit =
-          process.env.USE_SIMPLIFIED_PROMPTS === "1" ? Infinity : 3;
+          process.env.USE_SIMPLIFIED_PROMPTS === "1" ? Infinity : n;
         if (markerCount >= focusedMarkerLimit) {
           return {
             pass: false,
-            worstIndex: 2,
+            worstIndex: lastIndex,
             reason:
               "All variants use a comparison marker; prefer at least one variant without comparison-marker template",
             details: {
@@ -595,7 +625,7 @@ export function checkDistinctness(
     if (nonNull.length >= 2 && new Set(nonNull).size < nonNull.length) {
       return {
         pass: false,
-        worstIndex: 2,
+        worstIndex: lastIndex,
         reason: `Multiple variants use the same comparison marker (${nonNull.join(
           ", "
         )})`,
@@ -615,7 +645,7 @@ export function checkDistinctness(
         // If 2+ variants use walk-verbs, fail
         return {
           pass: false,
-          worstIndex: 2,
+          worstIndex: lastIndex,
           reason: `Multiple variants use walk-verb bucket (${nonNullWalkVerbs.join(
             ", "
           )}); require motion verb divergence`,
@@ -636,8 +666,8 @@ export function checkDistinctness(
   // use character-level checks to prevent near-duplicates
   if (avgContentTokenCount <= 6) {
     // Check 1: Character-level similarity (trigram Jaccard)
-    for (let i = 0; i < 3; i++) {
-      for (let j = i + 1; j < 3; j++) {
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
         const text1 = variants[i].text.toLowerCase().replace(/[^\w\s]/g, "");
         const text2 = variants[j].text.toLowerCase().replace(/[^\w\s]/g, "");
         
@@ -728,8 +758,8 @@ export function checkDistinctness(
     };
     
     // Check if any pair lacks structural differences
-    for (let i = 0; i < 3; i++) {
-      for (let j = i + 1; j < 3; j++) {
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
         if (!hasStructuralDifference(variants[i].text, variants[j].text)) {
           // If they also have high character similarity, fail
           const text1 = variants[i].text.toLowerCase().replace(/[^\w\s]/g, "");
@@ -781,15 +811,10 @@ export function checkDistinctness(
     // 1. Prefer regenerating the variant with most high-overlap pairs
     // 2. Tie-breaker: prefer C, then B, then A
 
-    const overlapCounts = [0, 0, 0];
+    const overlapCounts = variants.map(() => 0);
 
     // Count high-overlap pairs for each variant
-    const pairs = [
-      [0, 1],
-      [0, 2],
-      [1, 2],
-    ] as const;
-    pairs.forEach(([a, b], pairIdx) => {
+    variantPairs(n).forEach(([a, b], pairIdx) => {
       if (jaccardScores[pairIdx] > lengthAwareThreshold) {
         overlapCounts[a]++;
         overlapCounts[b]++;
@@ -804,7 +829,7 @@ export function checkDistinctness(
       // Multiple variants have high overlap - use priority order
       // Find all variants with maxCount overlaps
       const candidatesWithMaxCount: number[] = [];
-      for (let i = 0; i < 3; i++) {
+      for (let i = 0; i < n; i++) {
         if (overlapCounts[i] === maxCount) {
           candidatesWithMaxCount.push(i);
         }
@@ -937,8 +962,8 @@ function buildContrastiveConstraints(features: {
   const mustDo: string[] = [];
   const doNotUse: string[] = [];
 
-  // If both kept variants use comparison markers, regen MUST avoid them
-  if (features.comparisonMarkers.length === 2) {
+  // If two kept variants use comparison markers, regen MUST avoid them
+  if (features.comparisonMarkers.length >= 2) {
     doNotUse.push(
       "Comparison markers (like/as/comme/como/as if) - other variants already use them"
     );
@@ -947,30 +972,27 @@ function buildContrastiveConstraints(features: {
     );
   }
 
-  // If both kept variants start with same subject type, regen MUST differ
-  if (
-    features.subjectOpeners.length === 2 &&
-    features.subjectOpeners[0] === features.subjectOpeners[1]
-  ) {
+  // If two kept variants start with same subject type, regen MUST differ
+  const repeatedSubject = features.subjectOpeners.find(
+    (s, i) => features.subjectOpeners.indexOf(s) !== i
+  );
+  if (repeatedSubject !== undefined) {
     doNotUse.push(
-      `Subject opener "${features.subjectOpeners[0]}" - other variants already use this pattern`
+      `Subject opener "${repeatedSubject}" - other variants already use this pattern`
     );
-    if (
-      features.subjectOpeners[0] === "I" ||
-      features.subjectOpeners[0] === "je"
-    ) {
+    if (repeatedSubject === "I" || repeatedSubject === "je") {
       mustDo.push(
         "Use a different subject (you/we, or omit subject, or use impersonal construction)"
       );
-    } else if (features.subjectOpeners[0] === "gerund") {
+    } else if (repeatedSubject === "gerund") {
       mustDo.push(
         "Avoid gerund opener; start with subject or prepositional phrase"
       );
     }
   }
 
-  // If both kept variants use walk-verbs, regen MUST use different motion framing
-  if (features.walkVerbs.length === 2) {
+  // If two kept variants use walk-verbs, regen MUST use different motion framing
+  if (features.walkVerbs.length >= 2) {
     doNotUse.push(
       `Walk-verb bucket (${features.walkVerbs.join(
         ", "
@@ -993,8 +1015,8 @@ function buildContrastiveConstraints(features: {
  * HARDENING: Added `model` parameter to ensure regeneration uses the same model
  * as the original generation (user's selected model from guideAnswers).
  *
- * @param originalVariants - The three variants from the first generation
- * @param failedIndex - Index of the variant to regenerate (0, 1, or 2)
+ * @param originalVariants - The variants from the first generation
+ * @param failedIndex - Index of the variant to regenerate (0 = A, 1 = B, …)
  * @param recipe - The recipe that should guide this variant
  * @param context - Line context (source text, languages, etc.)
  * @param model - Optional: model to use for regeneration (defaults to TRANSLATOR_MODEL)
@@ -1006,11 +1028,10 @@ export async function regenerateVariant(
   context: LineContext,
   model?: string
 ): Promise<TranslationVariant> {
-  const labels = ["A", "B", "C"] as const;
-  const failedLabel = labels[failedIndex];
+  const failedLabel = variantLabelAt(failedIndex);
   const otherVariants = originalVariants.filter((_, i) => i !== failedIndex);
 
-  // Extract overused features from the two kept variants
+  // Extract overused features from the kept variants
   const features = extractOverusedFeatures(otherVariants);
   const constraints = buildContrastiveConstraints(features);
 
@@ -1038,7 +1059,7 @@ CRITICAL RULES:
 ═══════════════════════════════════════════════════════════════
 CONTRASTIVE CONSTRAINTS (MANDATORY)
 ═══════════════════════════════════════════════════════════════
-The other two variants overuse certain structural patterns. You MUST diverge.
+The other variants overuse certain structural patterns. You MUST diverge.
 
 ${
   constraints.doNotUse.length > 0
@@ -1094,7 +1115,10 @@ OUTPUT FORMAT (JSON only):
     const isGpt5 = modelToUse.startsWith("gpt-5");
 
     const completion = isGpt5
-      ? await openai.chat.completions.create({
+      ? await getClientForModel(
+        modelToUse,
+        "diversity_regen"
+      ).chat.completions.create({
           model: modelToUse,
           response_format: { type: "json_object" },
           messages: [
@@ -1102,7 +1126,10 @@ OUTPUT FORMAT (JSON only):
             { role: "user", content: userPrompt },
           ],
         })
-      : await openai.chat.completions.create({
+      : await getClientForModel(
+        modelToUse,
+        "diversity_regen"
+      ).chat.completions.create({
           model: modelToUse,
           temperature: 0.9, // Higher temperature for more diversity
           response_format: { type: "json_object" },
@@ -12,6 +12,8 @@
  * 4. Terminal intent preservation (question marks, exclamation marks)
  */
 
+import type { VariantLabel } from "./variantCount";
+
 export interface FidelityGateResult {
   pass: boolean;
   reason?: string;
@@ -280,7 +282,7 @@ function checkTerminalIntentPreservation(
  */
 export function checkFidelity(
   sourceText: string,
-  variants: Array<{ label: "A" | "B" | "C"; text: string }>
+  variants: Array<{ label: VariantLabel; text: string }>
 ): FidelityGateResult {
   // Extract from source
   const sourceNumbers = extractNumbers(sourceText);
@@ -0,0 +1,76 @@
+/**
+ * Tests for the glossary gate: required renderings, do-not-translate terms
+ * and forbidden words, plus the prompt block and per-line selection.
+ *
+ * Run with: npx vitest run src/lib/ai/glossaryGate.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import type { GlossaryEntry } from "@/types/glossary";
+import {
+  checkGlossary,
+  containsTerm,
+  formatGlossaryPromptBlock,
+  selectGlossaryForLine,
+} from "./glossaryGate";
+
+const glossary: GlossaryEntry[] = [
+  { id: "1", kind: "required", sourceTerm: "alma", targetTerm: "soul" },
+  { id: "2", kind: "do_not_translate", sourceTerm: "Malvinas", targetTerm: "" },
+  { id: "3", kind: "forbidden", sourceTerm: "", targetTerm: "spirit" },
+  { id: "4", kind: "required", sourceTerm: "mar", targetTerm: "sea" },
+];
+
+const source = "Mi alma, como las Malvinas, espera.";
+
+describe("glossary gate", () => {
+  it("matches whole terms regardless of case and punctuation", () => {
+    expect(containsTerm("My Soul, waiting", "soul")).toBe(true);
+    expect(containsTerm("soulful waiting", "soul")).toBe(false);
+    expect(containsTerm("el mar azul", "mar azul")).toBe(true);
+    expect(containsTerm("我的灵魂在等待", "灵魂")).toBe(true);
+  });
+
+  it("selects the entries a line triggers plus all forbidden words", () => {
+    expect(selectGlossaryForLine(glossary, source).map((e) => e.id)).toEqual([
+      "1",
+      "2",
+      "3",
+    ]);
+  });
+
+  it("passes variants that honor the glossary", () => {
+    const result = checkGlossary(source, [
+      { label: "A", text: "My soul, like the Malvinas, waits." },
+      { label: "B", text: "The soul waits as the Malvinas do." },
+      { label: "C", text: "We wait, soul and Malvinas both." },
+    ], glossary);
+    expect(result).toEqual({ pass: true, violations: [] });
+  });
+
+  it("reports violations and picks the worst variant", () => {
+    const result = checkGlossary(source, [
+      { label: "A", text: "My soul, like the Malvinas, waits." },
+      { label: "B", text: "My spirit, like the Falklands, waits." },
+      { label: "C", text: "The spirit of the Malvinas waits." },
+    ], glossary);
+
+    expect(result.pass).toBe(false);
+    expect(result.worstIndex).toBe(1);
+    expect(result.violations.map((v) => `${v.variant}:${v.kind}`)).toEqual([
+      "B:required",
+      "B:do_not_translate",
+      "B:forbidden",
+      "C:required",
+      "C:forbidden",
+    ]);
+    expect(result.reason).toContain("Variant B");
+  });
+
+  it("formats only the sections that have entries", () => {
+    expect(formatGlossaryPromptBlock([])).toBe("");
+    const block = formatGlossaryPromptBlock(glossary.slice(0, 1));
+    expect(block).toContain('"alma" → "soul"');
+    expect(block).not.toContain("NEVER use");
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Glossary Gate: Project Terminology Enforcement
+ *
+ * Runs next to the Fidelity Gate. Checks each variant against the project
+ * glossary and reports the variant with the most violations so the regen
+ * path can rebuild it.
+ *
+ * Checks:
+ * 1. Required renderings (source term present → target term used)
+ * 2. Do-not-translate terms (source term present → kept verbatim)
+ * 3. Forbidden words (never used, whatever the source says)
+ *
+ * Also builds the glossary block injected into recipe and variant prompts.
+ */
+
+import type { GlossaryEntry, GlossaryTermKind } from "@/types/glossary";
+import { normalizeForContainment } from "./textNormalize";
+import type { VariantLabel } from "./variantCount";
+
+export interface GlossaryViolation {
+  variant: VariantLabel;
+  kind: GlossaryTermKind;
+  term: string;
+  reason: string;
+}
+
+export interface GlossaryGateResult {
+  pass: boolean;
+  reason?: string;
+  worstIndex?: number;
+  violations: GlossaryViolation[];
+}
+
+/** Scripts written without spaces, where terms are matched as substrings. */
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+/**
+ * Whole-word, case- and punctuation-insensitive term match.
+ */
+export function containsTerm(text: string, term: string): boolean {
+  const needle = normalizeForContainment(term);
+  if (!needle) return false;
+  const haystack = normalizeForContainment(text);
+  if (UNSPACED_SCRIPT.test(needle)) return haystack.includes(needle);
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+/**
+ * The entries that constrain one source line: required and do-not-translate
+ * terms whose source term occurs in it, plus every forbidden word.
+ */
+export function selectGlossaryForLine(
+  glossary: GlossaryEntry[],
+  sourceText: string
+): GlossaryEntry[] {
+  return glossary.filter((entry) =>
+    entry.kind === "forbidden"
+      ? !!entry.targetTerm.trim()
+      : containsTerm(sourceText, entry.sourceTerm)
+  );
+}
+
+/**
+ * Prompt block for a set of glossary entries ("" when there are none).
+ */
+export function formatGlossaryPromptBlock(entries: GlossaryEntry[]): string {
+  const required = entries.filter((e) => e.kind === "required");
+  const keep = entries.filter((e) => e.kind === "do_not_translate");
+  const forbidden = entries.filter((e) => e.kind === "forbidden");
+  if (required.length + keep.length + forbidden.length === 0) return "";
+
+  const note = (e: GlossaryEntry) => (e.note?.trim() ? ` (${e.note.trim()})` : "");
+  const lines: string[] = [
+    "═══════════════════════════════════════════════════════════════",
+    "PROJECT GLOSSARY (MANDATORY FOR EVERY VARIANT)",
+    "═══════════════════════════════════════════════════════════════",
+  ];
+  if (required.length > 0) {
+    lines.push("Translate these terms exactly as given:");
+    lines.push(...required.map((e) => `- "${e.sourceTerm}" → "${e.targetTerm}"${note(e)}`));
+  }
+  if (keep.length > 0) {
+    lines.push("Keep these terms untranslated, exactly as written:");
+    lines.push(...keep.map((e) => `- "${e.sourceTerm}"${note(e)}`));
+  }
+  if (forbidden.length > 0) {
+    lines.push("NEVER use these words:");
+    lines.push(...forbidden.map((e) => `- "${e.targetTerm}"${note(e)}`));
+  }
+  return lines.join("\n");
+}
+
+function checkVariant(
+  sourceText: string,
+  variant: { label: VariantLabel; text: string },
+  glossary: GlossaryEntry[]
+): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+
+  for (const entry of glossary) {
+    if (entry.kind === "forbidden") {
+      if (entry.targetTerm.trim() && containsTerm(variant.text, entry.targetTerm)) {
+        violations.push({
+          variant: variant.label,
+          kind: entry.kind,
+          term: entry.targetTerm,
+          reason: `uses forbidden "${entry.targetTerm}"`,
+        });
+      }
+      continue;
+    }
+
+    if (!containsTerm(sourceText, entry.sourceTerm)) continue;
+
+    if (entry.kind === "required" && !containsTerm(variant.text, entry.targetTerm)) {
+      violations.push({
+        variant: variant.label,
+        kind: entry.kind,
+        term: entry.sourceTerm,
+        reason: `"${entry.sourceTerm}" not rendered as "${entry.targetTerm}"`,
+      });
+    }
+    if (entry.kind === "do_not_translate" && !containsTerm(variant.text, entry.sourceTerm)) {
+      violations.push({
+        variant: variant.label,
+        kind: entry.kind,
+        term: entry.sourceTerm,
+        reason: `"${entry.sourceTerm}" was translated`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check one variant against the glossary; returns its violation reasons.
+ * Used by regen to reject candidates.
+ */
+export function checkGlossaryCandidate(
+  sourceText: string,
+  text: string,
+  label: VariantLabel,
+  glossary: GlossaryEntry[]
+): string[] {
+  return checkVariant(sourceText, { label, text }, glossary).map((v) => v.reason);
+}
+
+/**
+ * Run Glossary Gate validation on all variants
+ */
+export function checkGlossary(
+  sourceText: string,
+  variants: Array<{ label: VariantLabel; text: string }>,
+  glossary: GlossaryEntry[]
+): GlossaryGateResult {
+  const perVariant = variants.map((variant) =>
+    checkVariant(sourceText, variant, glossary)
+  );
+  const violations = perVariant.flat();
+  if (violations.length === 0) {
+    return { pass: true, violations };
+  }
+
+  // Regenerate the variant with the most violations (first on ties)
+  let worstIndex = 0;
+  perVariant.forEach((v, i) => {
+    if (v.length > perVariant[worstIndex].length) worstIndex = i;
+  });
+
+  return {
+    pass: false,
+    reason: `glossary: Variant ${variants[worstIndex].label} ${perVariant[worstIndex]
+      .map((v) => v.reason)
+      .join("; ")}`,
+    worstIndex,
+    violations,
+  };
+}
@@ -1,52 +1,67 @@
-import OpenAI from "openai";
+/**
+ * Model access façade. Every chat-completions / Responses call resolves its
+ * client here, through the provider registry (OpenAI, DeepSeek, local
+ * OpenAI-compatible server, mock fixtures; see ./providers/registry).
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type OpenAI from "openai";
+import { meterClient } from "@/lib/usage/metering";
+import { resolveLLMProvider } from "./providers/registry";
+import type { LLMProviderId } from "./providers/types";
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-});
+// Scoped client override for offline runs (e.g. the golden-set eval runner
+// with a fake model). Only calls made inside withModelClient() see it.
+const scopedClient = new AsyncLocalStorage<OpenAI>();
 
-export function getOpenAI() {
-  if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY missing");
-  return openai;
+/**
+ * Run `fn` with every call made through getClientForModel() or
+ * responsesCall() answered by `client` instead of the provider.
+ */
+export function withModelClient<T>(client: OpenAI, fn: () => Promise<T>): Promise<T> {
+  return scopedClient.run(client, fn);
 }
 
-// DeepSeek is OpenAI-SDK compatible (same SDK, different baseURL + key).
-// Constructed lazily so a missing DEEPSEEK_API_KEY never throws at import for
-// OpenAI-only deployments; non-deepseek models keep using the `openai` singleton.
-const DEEPSEEK_BASE_URL = "https://api.deepseek.com";
-let deepseekClient: OpenAI | null = null;
-
-function getDeepSeekClient(): OpenAI {
-  if (!process.env.DEEPSEEK_API_KEY) throw new Error("DEEPSEEK_API_KEY missing");
-  if (!deepseekClient) {
-    deepseekClient = new OpenAI({
-      apiKey: process.env.DEEPSEEK_API_KEY,
-      baseURL: DEEPSEEK_BASE_URL,
-    });
-  }
-  return deepseekClient;
+/**
+ * Client for `model` from the provider that serves it (a client scoped with
+ * withModelClient() takes precedence). `stage` is the call-site label used
+ * for prompt audits; the mock provider picks its fixture by it.
+ *
+ * Provider clients are metered (see @/lib/usage/metering): each call passes
+ * the monthly budget gate and is recorded in the cost ledger. Scoped and mock
+ * clients are not, since they never reach a paid API.
+ */
+export function getClientForModel(model: string, stage?: string): OpenAI {
+  const scoped = scopedClient.getStore();
+  if (scoped) return scoped;
+  const provider = resolveLLMProvider(model);
+  const client = provider.client(stage);
+  return provider.id === "mock" ? client : meterClient(client, provider.id, stage);
+}
+
+/**
+ * Provider id for `model`, for audit rows and logs.
+ */
+export function providerIdForModel(model: string): LLMProviderId {
+  return resolveLLMProvider(model).id;
 }
 
 /**
- * Provider-routing resolver for the Method 2 chat-completions path. Returns a
- * DeepSeek-configured client for `deepseek*` model ids and the existing OpenAI
- * singleton for everything else, so non-deepseek requests are byte-for-byte
- * unchanged.
+ * Whether the provider serving `model` has its key / base URL configured.
  */
-export function getClientForModel(model: string): OpenAI {
-  return model.startsWith("deepseek") ? getDeepSeekClient() : openai;
+export function isModelProviderConfigured(model: string): boolean {
+  return !!scopedClient.getStore() || resolveLLMProvider(model).isConfigured();
 }
 
 /**
- * DeepSeek-only request-body extras for the Method 2 chat-completions path.
- * DeepSeek disables its thinking/reasoning mode via a top-level `thinking` field
- * on the request body (the OpenAI Node SDK has no `extra_body`, so call sites
- * spread this in and cast the params object). Returns `{}` for non-deepseek
- * models, so OpenAI request bodies are byte-for-byte unchanged.
+ * Provider-specific request-body extras for chat-completions calls (e.g.
+ * DeepSeek's `thinking: { type: "disabled" }`). Call sites spread this in and
+ * cast the params object; returns `{}` for OpenAI, so OpenAI request bodies
+ * are byte-for-byte unchanged.
  */
-export function deepSeekRequestExtras(
-  model: string
-): { thinking: { type: "disabled" } } | Record<string, never> {
-  return model.startsWith("deepseek") ? { thinking: { type: "disabled" } } : {};
+export function providerRequestExtras(model: string): Record<string, unknown> {
+  if (scopedClient.getStore()) return {};
+  return resolveLLMProvider(model).requestExtras(model);
 }
 
 export type AuditContext = {
@@ -83,6 +98,57 @@ function isNonGenerative(model: string): boolean {
 
 // dev-only debug export removed (unused)
 
+type ChatMessage = { role: "user" | "system"; content: string };
+
+/**
+ * Responses API call through the provider serving `model`. Providers without
+ * the Responses API (DeepSeek, local servers, scoped eval clients) get the
+ * same prompt as a chat completion, returned with `output_text` so callers
+ * read both shapes the same way.
+ */
+async function createResponse(
+  model: string,
+  args: Record<string, unknown>,
+  stage?: string
+): Promise<unknown> {
+  const client = getClientForModel(model, stage);
+  if (!scopedClient.getStore() && resolveLLMProvider(model).supportsResponses) {
+    return client.responses.create(
+      args as unknown as Parameters<OpenAI["responses"]["create"]>[0]
+    );
+  }
+
+  const { instructions, input, ...rest } = args;
+  const messages: ChatMessage[] = [
+    ...(typeof instructions === "string"
+      ? [{ role: "system" as const, content: instructions }]
+      : []),
+    ...(typeof input === "string"
+      ? [{ role: "user" as const, content: input }]
+      : (input as ChatMessage[])),
+  ];
+  const completion = (await client.chat.completions.create({
+    ...rest,
+    ...providerRequestExtras(model),
+    model,
+    messages,
+  } as unknown as Parameters<OpenAI["chat"]["completions"]["create"]>[0])) as OpenAI.Chat.Completions.ChatCompletion;
+
+  const text = completion.choices[0]?.message?.content ?? "";
+  return {
+    id: completion.id,
+    model,
+    output_text: text,
+    output: [
+      {
+        type: "message",
+        role: "assistant",
+        content: [{ type: "output_text", text }],
+      },
+    ],
+  };
+}
+
 export async function responsesCall({
   model,
   system,
@@ -107,9 +173,7 @@ export async function responsesCall({
 
   const start = Date.now();
   try {
-    const result = await openai.responses.create(
-      args as unknown as Parameters<typeof openai.responses.create>[0]
-    );
+    const result = await createResponse(model, args, auditContext?.stage);
 
     // Log audit asynchronously (fire and forget)
     if (auditContext?.createdBy || auditContext?.stage) {
@@ -144,9 +208,7 @@ export async function responsesCall({
       if (process.env.NODE_ENV !== "production") {
         console.warn("[responsesCall:fallback:no-temperature]", { model });
       }
-      const result = await openai.responses.create(
-        retryArgs as unknown as Parameters<typeof openai.responses.create>[0]
-      );
+      const result = await createResponse(model, retryArgs, auditContext?.stage);
 
       // Log audit asynchronously (fire and forget)
       if (auditContext?.createdBy || auditContext?.stage) {
@@ -223,7 +285,7 @@ async function logAuditAsync({
       projectId: auditContext.projectId ?? null,
       threadId: auditContext.threadId ?? null,
       stage: auditContext.stage || "unknown",
-      provider: auditContext.provider || "openai",
+      provider: auditContext.provider || providerIdForModel(model),
       model,
       params: {
         duration_ms: duration,
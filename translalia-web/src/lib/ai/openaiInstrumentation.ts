@@ -5,7 +5,23 @@
  * for performance investigation.
  */
 
-type CallType = "recipe" | "main-gen" | "align" | "regen";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { llmCallDuration } from "@/lib/telemetry/metrics";
+import { recordTokenUsage } from "@/lib/telemetry/metricsCollector";
+
+export type CallType = "recipe" | "main-gen" | "align" | "regen";
+
+/**
+ * Token totals for the calls of one type made inside collectCallUsage()
+ */
+export interface CallUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type CallUsageByType = Partial<Record<CallType, CallUsageTotals>>;
 
 interface InFlightCall {
   callType: CallType;
@@ -18,6 +34,8 @@ interface InFlightCall {
 
 // Global in-flight tracking
 let inflightCount = 0;
+// Per-operation usage totals (e.g. one line translation), see collectCallUsage()
+const usageScope = new AsyncLocalStorage<CallUsageByType>();
 let maxInflightSeen = 0;
 const inflightCalls = new Map<string, InFlightCall>();
 
@@ -144,6 +162,43 @@ export function trackCallEnd(
   }
 
   console.log(`[OAI_CALL] ${JSON.stringify(logEntry)}`);
+
+  llmCallDuration.observe(
+    { call_type: call.callType, status: result.status },
+    result.latencyMs / 1000
+  );
+  if (result.status === "ok") {
+    recordTokenUsage(
+      call.callType,
+      result.promptTokens ?? 0,
+      result.completionTokens ?? 0
+    );
+  }
+
+  const usage = usageScope.getStore();
+  if (usage && result.status === "ok") {
+    const totals = (usage[call.callType] ??= {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+    });
+    totals.calls += 1;
+    totals.promptTokens += result.promptTokens ?? 0;
+    totals.completionTokens += result.completionTokens ?? 0;
+    totals.totalTokens += result.totalTokens ?? 0;
+  }
+}
+
+/**
+ * Run `fn` while summing token usage of every tracked call it makes. `usage`
+ * is filled in place, so `fn` can read the totals before it returns.
+ */
+export function collectCallUsage<T>(
+  usage: CallUsageByType,
+  fn: () => Promise<T>
+): Promise<T> {
+  return usageScope.run(usage, fn);
 }
 
 /**
@@ -0,0 +1,30 @@
+import OpenAI from "openai";
+import type { LLMProvider } from "./types";
+
+// DeepSeek is OpenAI-SDK compatible (same SDK, different baseURL + key).
+const DEEPSEEK_BASE_URL = "https://api.deepseek.com";
+let client: OpenAI | null = null;
+
+/**
+ * DeepSeek, for `deepseek*` model ids. Chat completions only.
+ */
+export const deepseekProvider: LLMProvider = {
+  id: "deepseek",
+  supportsResponses: false,
+  handlesModel: (model) => model.startsWith("deepseek"),
+  isConfigured: () => !!process.env.DEEPSEEK_API_KEY,
+  client() {
+    if (!process.env.DEEPSEEK_API_KEY) throw new Error("DEEPSEEK_API_KEY missing");
+    if (!client) {
+      client = new OpenAI({
+        apiKey: process.env.DEEPSEEK_API_KEY,
+        baseURL: DEEPSEEK_BASE_URL,
+      });
+    }
+    return client;
+  },
+  // DeepSeek disables its thinking/reasoning mode via a top-level `thinking`
+  // field on the request body (the OpenAI Node SDK has no `extra_body`, so
+  // call sites spread this in and cast the params object).
+  requestExtras: () => ({ thinking: { type: "disabled" } }),
+};
@@ -0,0 +1,58 @@
+import OpenAI from "openai";
+import type { LLMProvider } from "./types";
+
+const LOCAL_PREFIX = "local:";
+let client: OpenAI | null = null;
+
+/**
+ * Model id sent to the local server: LOCAL_LLM_MODEL if set (so the app's
+ * gpt-* defaults can run unchanged), else the requested id minus `local:`.
+ */
+export function localModelName(model: string): string {
+  return (
+    process.env.LOCAL_LLM_MODEL?.trim() ||
+    (model.startsWith(LOCAL_PREFIX) ? model.slice(LOCAL_PREFIX.length) : model)
+  );
+}
+
+function getInnerClient(): OpenAI {
+  const baseURL = process.env.LOCAL_LLM_BASE_URL?.trim();
+  if (!baseURL) throw new Error("LOCAL_LLM_BASE_URL missing");
+  if (!client) {
+    client = new OpenAI({
+      // Most local servers (Ollama, llama.cpp, vLLM) ignore the key.
+      apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+      baseURL,
+    });
+  }
+  return client;
+}
+
+/**
+ * OpenAI-compatible local server (Ollama, llama.cpp, vLLM, LM Studio), for
+ * `local:<model>` ids or every model when LLM_PROVIDER=local. Chat
+ * completions only; the model id is rewritten by localModelName().
+ */
+export const localProvider: LLMProvider = {
+  id: "local",
+  supportsResponses: false,
+  handlesModel: (model) => model.startsWith(LOCAL_PREFIX),
+  isConfigured: () => !!process.env.LOCAL_LLM_BASE_URL?.trim(),
+  client() {
+    const inner = getInnerClient();
+    const create: OpenAI["chat"]["completions"]["create"] = ((
+      params: Parameters<OpenAI["chat"]["completions"]["create"]>[0],
+      options?: Parameters<OpenAI["chat"]["completions"]["create"]>[1]
+    ) =>
+      inner.chat.completions.create(
+        { ...params, model: localModelName(params.model) },
+        options
+      )) as OpenAI["chat"]["completions"]["create"];
+
+    return {
+      baseURL: inner.baseURL,
+      chat: { completions: { create } },
+    } as unknown as OpenAI;
+  },
+  requestExtras: () => ({}),
+};
@@ -0,0 +1,209 @@
+/**
+ * Mock Fixtures - deterministic responses for the offline mock provider
+ *
+ * Fixtures are keyed by call-site stage (the same labels used for prompt
+ * audits). Each returns the body the call site parses: a JSON object for
+ * JSON-mode calls, plain text otherwise. Output depends only on the request,
+ * so the workshop → notebook → journey flow is reproducible offline.
+ *
+ * Calls without a stage fall back to prompt sniffing: a quoted source line
+ * gets a body every line-translation parser accepts (Method 1 `translations`,
+ * Method 2 `variants`/`text`), anything else an empty object or a short note.
+ */
+
+export interface MockRequest {
+  stage?: string;
+  model: string;
+  system: string;
+  user: string;
+  /** True when the caller asked for JSON (json_object or json_schema). */
+  json: boolean;
+}
+
+export type MockFixture = (req: MockRequest) => unknown;
+
+const LABELS = ["A", "B", "C"] as const;
+
+/** Placeholder recipes; the Method 2 pipeline falls back to its defaults. */
+export const MOCK_RECIPES = LABELS.map((label) => ({ label }));
+
+// ============================================================================
+// Prompt Helpers
+// ============================================================================
+
+const SOURCE_LINE_PATTERNS = [
+  /SOURCE LINE(?: TO TRANSLATE)?\s*:?\s*\n?\s*"([^"\n]+)"/,
+  /\(TO TRANSLATE\)\s*:\s*"([^"\n]+)"/,
+  /(?:line|text)\s*:\s*"([^"\n]+)"/i,
+];
+
+/** The line being translated, or the first quoted string as a fallback. */
+export function findQuotedLine(prompt: string): string | null {
+  for (const pattern of SOURCE_LINE_PATTERNS) {
+    const match = prompt.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return prompt.match(/"([^"\n]{2,})"/)?.[1]?.trim() ?? null;
+}
+
+function mockVariant(label: string, source: string): string {
+  return `[mock ${label}] ${source}`;
+}
+
+/** Variant labels the prompt's output example asks for; A/B/C when it has none. */
+function requestedLabels(prompt: string): string[] {
+  const labels = Array.from(
+    new Set([...prompt.matchAll(/"label":\s*"([A-F])"/g)].map((m) => m[1]))
+  );
+  return labels.length > 0 ? labels : [...LABELS];
+}
+
+/** Variant label the prompt asks to regenerate, if it is a regeneration. */
+export function regenerationLabel(prompt: string): string | undefined {
+  return prompt.match(/regenerating variant ([A-F])/i)?.[1]?.toUpperCase();
+}
+
+/**
+ * Body every line-translation parser accepts: labelled `variants` and the
+ * regenerated `text` (Method 2), and `translations` with word alignments
+ * (Method 1).
+ */
+export function lineBodyFromTexts(
+  source: string,
+  labels: readonly string[],
+  texts: string[],
+  regenText: string
+) {
+  return {
+    variants: labels.map((label, i) => ({ label, text: texts[i] })),
+    text: regenText,
+    translations: texts.map((text, i) => ({
+      variant: i + 1,
+      fullText: text,
+      words: text.split(/\s+/).map((word, position) => ({
+        original: source,
+        translation: word,
+        partOfSpeech: "other",
+        position,
+      })),
+      metadata: {
+        literalness: [0.8, 0.5, 0.2][i % 3],
+        characterCount: text.length,
+      },
+    })),
+  };
+}
+
+function lineBody(source: string, prompt: string) {
+  const regenLabel = regenerationLabel(prompt);
+  const labels = requestedLabels(prompt);
+  const texts = labels.map((label) => mockVariant(label, source));
+  return lineBodyFromTexts(
+    source,
+    labels,
+    texts,
+    regenLabel ? mockVariant(`${regenLabel}′`, source) : texts[0]
+  );
+}
+
+function sourceOf(req: MockRequest): string {
+  return findQuotedLine(`${req.user}\n${req.system}`) ?? "mock line";
+}
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const MOCK_FEEDBACK =
+  "You have moved through this poem with patience and curiosity. Your notes " +
+  "show that you weigh sound against sense line by line, and that you are " +
+  "willing to let a literal reading go when the image asks for it. Keep " +
+  "trusting that instinct. As you continue, read your draft aloud next to the " +
+  "source and notice where the rhythm changes; those are the places where " +
+  "your choices matter most and where your translator's voice is emerging.";
+
+const fixtures = new Map<string, MockFixture>([
+  // Method 1 (workshop line translation)
+  ["workshop-translate-line", (req) => lineBody(sourceOf(req), req.user)],
+  // Method 2 (recipes pipeline)
+  ["main_gen", (req) => lineBody(sourceOf(req), `${req.system}\n${req.user}`)],
+  ["regen", (req) => lineBody(sourceOf(req), `${req.system}\n${req.user}`)],
+  ["recipes", () => ({ recipes: MOCK_RECIPES })],
+  [
+    "notebook:prismatic",
+    (req) => ({
+      variants: requestedLabels(`${req.system}\n${req.user}`).map((label) => ({
+        label,
+        text: mockVariant(label, sourceOf(req)),
+      })),
+    }),
+  ],
+  [
+    "ai-assist",
+    (req) => ({
+      suggestion: mockVariant("assist", sourceOf(req)),
+      confidence: 80,
+      reasoning: "Mock suggestion built from the selected words.",
+      alternatives: [],
+    }),
+  ],
+  [
+    "ai-assist-step-c",
+    () => ({
+      aims: "Keep the poem's imagery while finding a natural voice.",
+      suggestions: [
+        {
+          title: "Read the draft aloud",
+          description: "Check that the rhythm carries across lines.",
+          lineReferences: [0],
+        },
+      ],
+      confidence: 0.8,
+    }),
+  ],
+  [
+    "journey-reflection",
+    () => ({
+      reflection: "A steady journey through the poem, line by line.",
+      insights: ["You revisited lines after reading them aloud."],
+      strengths: ["Attention to imagery."],
+      challenges: ["Balancing rhythm and meaning."],
+      recommendations: ["Compare your draft with the source aloud."],
+    }),
+  ],
+  ["journey-feedback", () => MOCK_FEEDBACK],
+]);
+
+/**
+ * Register or replace the fixture for a stage (tests and local scenarios).
+ */
+export function registerMockFixture(stage: string, fixture: MockFixture): void {
+  fixtures.set(stage, fixture);
+}
+
+/**
+ * Deterministic response body for a mock request, as the string the model
+ * would have returned.
+ */
+export function resolveMockResponse(req: MockRequest): string {
+  const fixture = req.stage ? fixtures.get(req.stage) : undefined;
+  let body: unknown;
+
+  if (fixture) {
+    body = fixture(req);
+  } else {
+    const prompt = `${req.system}\n${req.user}`;
+    const line = findQuotedLine(req.user);
+    if (line) {
+      body = lineBody(line, prompt);
+    } else if (/recipe/i.test(prompt)) {
+      body = fixtures.get("recipes")!(req);
+    }
+  }
+
+  if (typeof body === "string") return body;
+  if (body === null || body === undefined) {
+    return req.json ? "{}" : `Mock response (${req.stage ?? "unstaged"}).`;
+  }
+  return JSON.stringify(body);
+}
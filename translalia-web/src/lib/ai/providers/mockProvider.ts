@@ -0,0 +1,138 @@
+import type OpenAI from "openai";
+import type { LLMProvider } from "./types";
+import { resolveMockResponse, type MockRequest } from "./mockFixtures";
+
+type ChatParams = {
+  model?: string;
+  n?: number;
+  response_format?: { type?: string };
+  messages?: Array<{ role: string; content?: unknown }>;
+};
+
+type ResponsesParams = {
+  model?: string;
+  instructions?: string;
+  input?: string | Array<{ role: string; content?: unknown }>;
+  response_format?: { type?: string };
+};
+
+function contentText(content: unknown): string {
+  return typeof content === "string" ? content : "";
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Build the offline client for one stage. Answers chat completions and the
+ * Responses API from mock fixtures (or `respond`, e.g. the eval golden-set
+ * responder), with OpenAI-shaped results and estimated token usage.
+ */
+export function createMockClient(
+  stage?: string,
+  respond: (req: MockRequest) => string = resolveMockResponse
+): OpenAI {
+  let calls = 0;
+
+  const chatCreate = async (params: ChatParams) => {
+    calls += 1;
+    const messages = params.messages ?? [];
+    const req: MockRequest = {
+      stage,
+      model: params.model ?? "mock",
+      system: messages
+        .filter((m) => m.role === "system")
+        .map((m) => contentText(m.content))
+        .join("\n"),
+      user: messages
+        .filter((m) => m.role !== "system")
+        .map((m) => contentText(m.content))
+        .join("\n"),
+      json: !!params.response_format?.type?.startsWith("json"),
+    };
+    const content = respond(req);
+    const promptTokens = estimateTokens(req.system + req.user);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      id: `mock-${stage ?? "chat"}-${calls}`,
+      object: "chat.completion",
+      created: 0,
+      model: req.model,
+      choices: Array.from({ length: Math.max(1, params.n ?? 1) }, (_, index) => ({
+        index,
+        message: { role: "assistant", content, refusal: null },
+        finish_reason: "stop",
+        logprobs: null,
+      })),
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  };
+
+  const responsesCreate = async (params: ResponsesParams) => {
+    calls += 1;
+    const input = params.input ?? "";
+    const req: MockRequest = {
+      stage,
+      model: params.model ?? "mock",
+      system:
+        params.instructions ??
+        (Array.isArray(input)
+          ? input
+              .filter((m) => m.role === "system")
+              .map((m) => contentText(m.content))
+              .join("\n")
+          : ""),
+      user: Array.isArray(input)
+        ? input
+            .filter((m) => m.role !== "system")
+            .map((m) => contentText(m.content))
+            .join("\n")
+        : input,
+      json: !!params.response_format?.type?.startsWith("json"),
+    };
+    const text = respond(req);
+
+    return {
+      id: `mock-resp-${stage ?? "responses"}-${calls}`,
+      object: "response",
+      model: req.model,
+      output_text: text,
+      output: [
+        {
+          type: "message",
+          role: "assistant",
+          content: [{ type: "output_text", text }],
+        },
+      ],
+      usage: {
+        input_tokens: estimateTokens(req.system + req.user),
+        output_tokens: estimateTokens(text),
+      },
+    };
+  };
+
+  return {
+    baseURL: "mock://fixtures",
+    chat: { completions: { create: chatCreate } },
+    responses: { create: responsesCreate },
+  } as unknown as OpenAI;
+}
+
+/**
+ * Deterministic fixture provider, for `mock*` model ids or every model when
+ * LLM_PROVIDER=mock. Needs no network or keys.
+ */
+export const mockProvider: LLMProvider = {
+  id: "mock",
+  supportsResponses: true,
+  handlesModel: (model) => model.startsWith("mock"),
+  isConfigured: () => true,
+  client: (stage) => createMockClient(stage),
+  requestExtras: () => ({}),
+};
@@ -0,0 +1,23 @@
+import OpenAI from "openai";
+import type { LLMProvider } from "./types";
+
+let client: OpenAI | null = null;
+
+/**
+ * OpenAI (default provider). Serves every model no other provider claims.
+ * Constructed lazily so importing the AI modules never requires the key.
+ */
+export const openaiProvider: LLMProvider = {
+  id: "openai",
+  supportsResponses: true,
+  handlesModel: () => true,
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  client() {
+    if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY missing");
+    if (!client) {
+      client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return client;
+  },
+  requestExtras: () => ({}),
+};
@@ -0,0 +1,107 @@
+/**
+ * Tests for LLM provider routing and the offline mock provider: model ids and
+ * LLM_PROVIDER pick the backend, and mock answers are deterministic and in
+ * the shape each call site parses.
+ *
+ * Run with: npx vitest run src/lib/ai/providers/registry.test.ts
+ */
+
+import { afterEach, describe, it, expect } from "vitest";
+import { resolveLLMProvider } from "./registry";
+import { localModelName } from "./localProvider";
+import { registerMockFixture } from "./mockFixtures";
+import { getClientForModel, providerRequestExtras, responsesCall } from "../openai";
+
+const ENV_KEYS = ["LLM_PROVIDER", "LOCAL_LLM_MODEL"] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+async function chat(stage: string, user: string, json = true) {
+  const completion = await getClientForModel("gpt-4o", stage).chat.completions.create({
+    model: "gpt-4o",
+    ...(json ? { response_format: { type: "json_object" as const } } : {}),
+    messages: [
+      { role: "system", content: "You are a poetry translator." },
+      { role: "user", content: user },
+    ],
+  });
+  return completion.choices[0]?.message?.content ?? "";
+}
+
+describe("resolveLLMProvider", () => {
+  it("routes by model id, defaulting to OpenAI", () => {
+    delete process.env.LLM_PROVIDER;
+    expect(resolveLLMProvider("gpt-4o").id).toBe("openai");
+    expect(resolveLLMProvider("deepseek-chat").id).toBe("deepseek");
+    expect(resolveLLMProvider("local:llama3.1").id).toBe("local");
+    expect(resolveLLMProvider("mock").id).toBe("mock");
+  });
+
+  it("lets LLM_PROVIDER force one backend for every model", () => {
+    process.env.LLM_PROVIDER = "mock";
+    expect(resolveLLMProvider("gpt-4o").id).toBe("mock");
+    expect(resolveLLMProvider("deepseek-chat").id).toBe("mock");
+
+    process.env.LLM_PROVIDER = "nope";
+    expect(() => resolveLLMProvider("gpt-4o")).toThrow(/Unknown LLM provider/);
+  });
+
+  it("keeps provider request extras per backend", () => {
+    delete process.env.LLM_PROVIDER;
+    expect(providerRequestExtras("gpt-4o")).toEqual({});
+    expect(providerRequestExtras("deepseek-chat")).toEqual({
+      thinking: { type: "disabled" },
+    });
+  });
+
+  it("maps local model ids", () => {
+    delete process.env.LOCAL_LLM_MODEL;
+    expect(localModelName("local:qwen2.5")).toBe("qwen2.5");
+    process.env.LOCAL_LLM_MODEL = "llama3.1";
+    expect(localModelName("gpt-4o")).toBe("llama3.1");
+  });
+});
+
+describe("mock provider", () => {
+  it("answers line translations deterministically", async () => {
+    process.env.LLM_PROVIDER = "mock";
+    const prompt = 'SOURCE LINE: "Caminante, no hay camino"';
+
+    const first = JSON.parse(await chat("main_gen", prompt));
+    const second = JSON.parse(await chat("main_gen", prompt));
+
+    expect(first).toEqual(second);
+    expect(first.variants.map((v: { label: string }) => v.label)).toEqual(["A", "B", "C"]);
+    expect(first.variants[0].text).toContain("Caminante, no hay camino");
+  });
+
+  it("serves stage fixtures and registered overrides", async () => {
+    process.env.LLM_PROVIDER = "mock";
+    const reflection = JSON.parse(await chat("journey-reflection", "Progress: 2/4"));
+    expect(reflection.insights.length).toBeGreaterThan(0);
+
+    const feedback = await chat("journey-feedback", "Give feedback", false);
+    expect(feedback.split(/\s+/).length).toBeGreaterThanOrEqual(50);
+
+    registerMockFixture("test:custom", (req) => ({ echo: req.user }));
+    expect(JSON.parse(await chat("test:custom", "hello"))).toEqual({ echo: "hello" });
+  });
+
+  it("answers responsesCall with output_text", async () => {
+    process.env.LLM_PROVIDER = "mock";
+    const result = (await responsesCall({
+      model: "gpt-4o",
+      system: "Identify features.",
+      user: "No quoted line here.",
+      response_format: { type: "json_object" },
+    })) as { output_text: string };
+
+    expect(result.output_text).toBe("{}");
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * LLM Provider Registry
+ *
+ * Resolves which provider serves a model:
+ * 1. LLM_PROVIDER (openai | deepseek | local | mock) forces one provider for
+ *    every call, e.g. LLM_PROVIDER=mock for fully offline runs.
+ * 2. Otherwise the first non-default provider whose handlesModel() matches
+ *    (`deepseek*`, `local:*`, `mock*`).
+ * 3. Otherwise OpenAI.
+ */
+
+import { deepseekProvider } from "./deepseekProvider";
+import { localProvider } from "./localProvider";
+import { mockProvider } from "./mockProvider";
+import { openaiProvider } from "./openaiProvider";
+import type { LLMProvider, LLMProviderId } from "./types";
+
+const DEFAULT_PROVIDER_ID: LLMProviderId = "openai";
+
+const providers = new Map<LLMProviderId, LLMProvider>();
+
+/**
+ * Register (or replace) a provider backend.
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+registerLLMProvider(openaiProvider);
+registerLLMProvider(deepseekProvider);
+registerLLMProvider(localProvider);
+registerLLMProvider(mockProvider);
+
+export function listLLMProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getLLMProvider(id: LLMProviderId): LLMProvider {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown LLM provider "${id}"`);
+  return provider;
+}
+
+/** The provider forced by LLM_PROVIDER, if any. */
+function forcedProvider(): LLMProvider | null {
+  const id = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!id) return null;
+  return getLLMProvider(id as LLMProviderId);
+}
+
+/**
+ * The provider that serves `model`.
+ */
+export function resolveLLMProvider(model: string): LLMProvider {
+  const forced = forcedProvider();
+  if (forced) return forced;
+
+  for (const provider of providers.values()) {
+    if (provider.id !== DEFAULT_PROVIDER_ID && provider.handlesModel(model)) {
+      return provider;
+    }
+  }
+  return getLLMProvider(DEFAULT_PROVIDER_ID);
+}
@@ -0,0 +1,29 @@
+/**
+ * LLM Provider Types
+ *
+ * Every backend exposes an OpenAI-SDK compatible client, so call sites keep
+ * using `chat.completions.create` (and `responses.create` where supported)
+ * whichever provider serves the model.
+ */
+
+import type OpenAI from "openai";
+
+export type LLMProviderId = "openai" | "deepseek" | "local" | "mock";
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  /** Model-id routing: true if this provider serves `model` by default. */
+  handlesModel(model: string): boolean;
+  /** Whether the credentials/base URL this provider needs are present. */
+  isConfigured(): boolean;
+  /**
+   * OpenAI-SDK compatible client. `stage` is the call-site label also used for
+   * prompt audits (e.g. "journey-reflection"); the mock provider uses it to
+   * pick a fixture, real providers ignore it.
+   */
+  client(stage?: string): OpenAI;
+  /** False if `client().responses` is unavailable (responsesCall then uses chat completions). */
+  supportsResponses: boolean;
+  /** Provider-specific request-body fields spread into chat-completions params. */
+  requestExtras(model: string): Record<string, unknown>;
+}
@@ -8,7 +8,7 @@
 
 import { z } from "zod";
 import type OpenAI from "openai";
-import { openai, getClientForModel, deepSeekRequestExtras } from "./openai";
+import { getClientForModel, providerRequestExtras } from "./openai";
 import { buildSamplingParams } from "./buildSamplingParams";
 import {
   chatCompletionsWithRetry,
@@ -43,7 +43,18 @@ import {
   type OpenerType,
 } from "./structureSignature";
 import { normalizeForContainment, tokenize } from "./textNormalize";
-import { SIMPLIFIED_VARIANT_DESCRIPTIONS } from "./simplifiedPrompts";
+import { simplifiedVariantDescription } from "./simplifiedPrompts";
+import {
+  variantLabelAt,
+  variantLabels,
+  type VariantLabel,
+} from "./variantCount";
+import {
+  checkGlossaryCandidate,
+  formatGlossaryPromptBlock,
+  selectGlossaryForLine,
+} from "./glossaryGate";
+import type { GlossaryEntry } from "@/types/glossary";
 
 // =============================================================================
 // Types
@@ -69,6 +80,8 @@ export interface RegenContext {
   prevLine?: string;
   nextLine?: string;
   stancePlanSubjectForm?: string;
+  /** Project glossary; candidates that break it are rejected */
+  glossary?: GlossaryEntry[];
 }
 
 export interface FixedVariant {
@@ -98,11 +111,12 @@ export function validateCandidate(
   candidate: RegenCandidate,
   anchors: Anchor[] | undefined,
   targetLanguage: string,
-  variantLabel: "A" | "B" | "C",
+  variantLabel: VariantLabel,
   mode: TranslationRangeMode,
   stancePlanSubjectForm?: string,
   desiredOpenerType?: OpenerType,
-  fixedVariants?: FixedVariant[]
+  fixedVariants?: FixedVariant[],
+  glossary?: { sourceText: string; entries: GlossaryEntry[] }
 ): { pass: boolean; reasons: string[] } {
   const reasons: string[] = [];
 
@@ -210,6 +224,18 @@ export function validateCandidate(
     }
   }
 
+  // Project glossary (required renderings, do-not-translate, forbidden words)
+  if (glossary && glossary.entries.length > 0) {
+    for (const reason of checkGlossaryCandidate(
+      glossary.sourceText,
+      candidate.text,
+      variantLabel,
+      glossary.entries
+    )) {
+      reasons.push(`glossary: ${reason}`);
+    }
+  }
+
   return { pass: reasons.length === 0, reasons };
 }
 
@@ -368,7 +394,7 @@ export function selectBestCandidate(
  */
 export async function regenerateVariantWithSalvage(
   worstIndex: number,
-  fixedVariants: Array<{ label: "A" | "B" | "C"; text: string }>,
+  fixedVariants: Array<{ label: VariantLabel; text: string }>,
   recipe: VariantRecipe,
   recipes: VariantRecipesBundle,
   context: RegenContext,
@@ -412,7 +438,7 @@ export async function regenerateVariantWithSalvage(
   // defaultK: focused=1, adventurous=3, balanced=4
   const K = isGpt5 ? gpt5K : defaultK;
   
-  const label = ["A", "B", "C"][worstIndex] as "A" | "B" | "C";
+  const label = variantLabelAt(worstIndex);
 
   // Build fixed variants with structural info
   const fixedVariantsWithStructure: FixedVariant[] = fixedVariants
@@ -448,6 +474,9 @@ export async function regenerateVariantWithSalvage(
     fixedVariants: fixedVariantsWithStructure,
     gateReason,
     desiredOpenerType,
+    glossary: context.glossary
+      ? selectGlossaryForLine(context.glossary, context.lineText)
+      : undefined,
   });
 
   if (process.env.DEBUG_GATE === "1" || process.env.DEBUG_REGEN === "1") {
@@ -516,13 +545,16 @@ export async function regenerateVariantWithSalvage(
       
       let completion;
       try {
-        completion = await getClientForModel(modelToUse).chat.completions.create({
+        completion = await getClientForModel(
+          modelToUse,
+          "regen"
+        ).chat.completions.create({
           model: modelToUse,
           ...buildSamplingParams(modelToUse, { temperature: 0.9 }), // Higher for diversity
           n: K,
           response_format: { type: "json_object" },
           ...getTokenLimitParam(modelToUse, regenMaxOutputTokens),
-          ...deepSeekRequestExtras(modelToUse),
+          ...providerRequestExtras(modelToUse),
           messages: [
             {
               role: "system",
@@ -645,13 +677,13 @@ export async function regenerateVariantWithSalvage(
             // ISS-017: Pass instrumentation for OpenAI call tracking
             // ISS-018: Pass metadata for raw output logging
             completion = await chatCompletionsWithRetry(
-              getClientForModel(modelToUse),
+              getClientForModel(modelToUse, "regen"),
               {
                 model: modelToUse,
                 ...buildSamplingParams(modelToUse, { temperature: 0.9 }),
                 response_format: { type: "json_object" },
                 ...getTokenLimitParam(modelToUse, regenMaxOutputTokens),
-                ...deepSeekRequestExtras(modelToUse),
+                ...providerRequestExtras(modelToUse),
                 messages: [
                   {
                     role: "system",
@@ -785,11 +817,11 @@ export async function regenerateVariantWithSalvage(
           }
           
           try {
-            const completion = await chatCompletionsWithRetry(getClientForModel(modelToUse), {
+            const completion = await chatCompletionsWithRetry(getClientForModel(modelToUse, "regen"), {
               model: modelToUse,
               response_format: { type: "json_object" },
               ...getTokenLimitParam(modelToUse, regenMaxOutputTokens),
-              ...deepSeekRequestExtras(modelToUse),
+              ...providerRequestExtras(modelToUse),
               messages: [
                 {
                   role: "system",
@@ -1011,6 +1043,9 @@ export async function regenerateVariantWithSalvage(
 
   // Stage 1: Validate candidates against hard constraints
   const stancePlanSubjectForm = context.stancePlanSubjectForm;
+  const glossaryCheck = context.glossary
+    ? { sourceText: context.lineText, entries: context.glossary }
+    : undefined;
 
   const validCandidates = candidates.filter((c) => {
     const validation = validateCandidate(
@@ -1021,7 +1056,8 @@ export async function regenerateVariantWithSalvage(
       context.mode,
       stancePlanSubjectForm,
       desiredOpenerType,
-      fixedVariantsWithStructure
+      fixedVariantsWithStructure,
+      glossaryCheck
     );
     return validation.pass;
   });
@@ -1051,7 +1087,8 @@ export async function regenerateVariantWithSalvage(
         context.mode,
         stancePlanSubjectForm,
         desiredOpenerType,
-        fixedVariantsWithStructure
+        fixedVariantsWithStructure,
+        glossaryCheck
       );
       return { candidate: c, failCount: validation.reasons.length };
     });
@@ -1218,13 +1255,14 @@ interface RegenPromptParams {
   mode: TranslationRangeMode;
   prevLine?: string;
   nextLine?: string;
-  label: "A" | "B" | "C";
+  label: VariantLabel;
   recipe: VariantRecipe;
   recipes: VariantRecipesBundle;
   anchors: Anchor[] | undefined;
   fixedVariants: FixedVariant[];
   gateReason: string;
   desiredOpenerType?: OpenerType;
+  glossary?: GlossaryEntry[];
 }
 
 /**
@@ -1331,10 +1369,12 @@ function buildRegenPrompt(params: RegenPromptParams): string {
     fixedVariants,
     gateReason,
     desiredOpenerType,
+    glossary,
   } = params;
+  const glossarySection = formatGlossaryPromptBlock(glossary ?? []);
 
   // ─── SIMPLIFIED PROMPTS (default since v6, client direction from Matthew) ───
-  // Uses SIMPLIFIED_VARIANT_DESCRIPTIONS instead of archetype directives/lens.
+  // Uses simplified variant descriptions instead of archetype directives/lens.
   // Preserves anti-copy rules and contrastive constraints.
   // The old archetype regen prompt (below) is preserved for rollback
   // via USE_SIMPLIFIED_PROMPTS=0.
@@ -1481,7 +1521,7 @@ ${fixedVariants
   .map(
     (v, i) =>
       `- Variant ${
-        ["A", "B", "C"].filter((_, idx) => idx !== label.charCodeAt(0) - 65)[i]
+        variantLabels(fixedVariants.length + 1).filter((l) => l !== label)[i]
       }: "${v.text}"\n  (opener: ${v.openerType}, signature: ${v.signature})`
   )
   .join("\n")}
@@ -1498,6 +1538,7 @@ ${structuralTargets}
 ${semanticAnchorsSection}
 
 ${archetypeRules}
+${glossarySection}
 
 OUTPUT FORMAT (JSON only, no markdown):
 {
@@ -1527,7 +1568,7 @@ Return ONLY valid JSON. No markdown, no explanations.`;
  *  - Semantic anchors section
  *
  * Replaces:
- *  - recipe.directive → SIMPLIFIED_VARIANT_DESCRIPTIONS[mode][label]
+ *  - recipe.directive → simplifiedVariantDescription(mode, label)
  */
 function buildSimplifiedRegenPromptForSalvage(params: RegenPromptParams): string {
   const {
@@ -1542,7 +1583,9 @@ function buildSimplifiedRegenPromptForSalvage(params: RegenPromptParams): string
     fixedVariants,
     gateReason,
     desiredOpenerType,
+    glossary,
   } = params;
+  const glossarySection = formatGlossaryPromptBlock(glossary ?? []);
 
   // Parse gate reason into targeted constraints (same as archetype path)
   const { constraints, mustAvoid } = parseGateReason(gateReason, lineText);
@@ -1563,9 +1606,8 @@ function buildSimplifiedRegenPromptForSalvage(params: RegenPromptParams): string
 
   // Get simplified variant description (replaces recipe.directive + archetype)
   const modeKey = mode as "focused" | "balanced" | "adventurous";
-  const descriptions = SIMPLIFIED_VARIANT_DESCRIPTIONS[modeKey];
   const variantDescription =
-    (descriptions && descriptions[label]) || recipe.directive;
+    simplifiedVariantDescription(modeKey, label) || recipe.directive;
 
   // Structural targets (same as archetype path)
   const structuralTargets = desiredOpenerType
@@ -1620,7 +1662,7 @@ ${fixedVariants
   .map(
     (v, i) =>
       `- Variant ${
-        ["A", "B", "C"].filter((_, idx) => idx !== label.charCodeAt(0) - 65)[i]
+        variantLabels(fixedVariants.length + 1).filter((l) => l !== label)[i]
       }: "${v.text}"\n  (opener: ${v.openerType}, signature: ${v.signature})`
   )
   .join("\n")}
@@ -1634,6 +1676,7 @@ ANTI-COPY RULES (MANDATORY)
 - DO NOT start with the same first 2 tokens as any existing variant
 - MUST be STRUCTURALLY DIFFERENT (not just synonym swaps)
 ${structuralTargets}
+${glossarySection}
 
 OUTPUT FORMAT (JSON only, no markdown):
 {
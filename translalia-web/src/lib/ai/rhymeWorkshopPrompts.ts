@@ -8,10 +8,12 @@
  */
 
 import type {
-  RhymeResult,
   RhymeDictionaryData,
+  RhymeSuggestion,
+  RhymeWorkshopResponse,
 } from "@/types/rhymeWorkshop";
-import type { LineAnalysis } from "@/lib/rhyme/soundAnalysis";
+import { extractLineEnding, type LineAnalysis } from "@/lib/rhyme/soundAnalysis";
+import { getRhymeQuality, getRhymeSound } from "@/lib/rhyme/rhymeService";
 
 // ============================================================================
 // System Prompts
@@ -58,7 +60,7 @@ When suggesting alliteration, assonance, or consonance:
 RHYTHM INSTRUCTION:
 When addressing rhythm:
 1. Count syllables explicitly for source AND current translation
-2. Show stress patterns using da-DUM notation
+2. Show stress patterns using da-DUM notation (or the line analysis's own rhythm notation for languages measured by syllable weight or tone)
 3. Provide tighter/looser alternatives with syllable counts
 4. Explain what is gained/lost with each option`;
 
@@ -147,9 +149,14 @@ LINES THAT SHOULD RHYME WITH LINE ${lineIndex + 1}: ${rhymeTargetLines.map((l) =
 RHYME DICTIONARY DATA (use these as starting points):
 `;
     for (const rhymeResult of rhymeDictionaryData.lineEndingRhymes) {
-      if (rhymeResult.perfectRhymes.length > 0 || rhymeResult.nearRhymes.length > 0) {
+      if (
+        rhymeResult.perfectRhymes.length > 0 ||
+        rhymeResult.slantRhymes.length > 0 ||
+        rhymeResult.nearRhymes.length > 0
+      ) {
         prompt += `Word: "${rhymeResult.word}"
   - Perfect rhymes: ${rhymeResult.perfectRhymes.slice(0, 8).join(", ") || "none found"}
+  - Slant rhymes: ${rhymeResult.slantRhymes.slice(0, 6).join(", ") || "none found"}
   - Near rhymes: ${rhymeResult.nearRhymes.slice(0, 6).join(", ") || "none found"}
 `;
       }
@@ -160,9 +167,10 @@ RHYME DICTIONARY DATA (use these as starting points):
     prompt += `
 SOURCE LINE ANALYSIS:
 - Syllables: ${sourceLineAnalysis.syllableCount}
-- Stress pattern: ${sourceLineAnalysis.stressPattern}
+- Rhythm (${sourceLineAnalysis.rhythmLabel}): ${sourceLineAnalysis.stressPattern}
 ${sourceLineAnalysis.alliteration.length > 0 ? `- Alliteration: ${sourceLineAnalysis.alliteration.map((a) => `'${a.consonant}' in [${a.words.join(", ")}]`).join("; ")}` : ""}
 ${sourceLineAnalysis.assonance.length > 0 ? `- Assonance: ${sourceLineAnalysis.assonance.map((a) => `'${a.vowel}' in [${a.words.join(", ")}]`).join("; ")}` : ""}
+${sourceLineAnalysis.consonance.length > 0 ? `- Consonance: ${sourceLineAnalysis.consonance.map((c) => `'${c.consonant}' in [${c.words.join(", ")}]`).join("; ")}` : ""}
 `;
   }
 
@@ -170,9 +178,10 @@ ${sourceLineAnalysis.assonance.length > 0 ? `- Assonance: ${sourceLineAnalysis.a
     prompt += `
 CURRENT TRANSLATION ANALYSIS:
 - Syllables: ${currentLineAnalysis.syllableCount}
-- Stress pattern: ${currentLineAnalysis.stressPattern}
+- Rhythm (${currentLineAnalysis.rhythmLabel}): ${currentLineAnalysis.stressPattern}
 ${currentLineAnalysis.alliteration.length > 0 ? `- Alliteration: ${currentLineAnalysis.alliteration.map((a) => `'${a.consonant}' in [${a.words.join(", ")}]`).join("; ")}` : ""}
 ${currentLineAnalysis.assonance.length > 0 ? `- Assonance: ${currentLineAnalysis.assonance.map((a) => `'${a.vowel}' in [${a.words.join(", ")}]`).join("; ")}` : ""}
+${currentLineAnalysis.consonance.length > 0 ? `- Consonance: ${currentLineAnalysis.consonance.map((c) => `'${c.consonant}' in [${c.words.join(", ")}]`).join("; ")}` : ""}
 `;
   }
 
@@ -375,30 +384,74 @@ export const RHYME_WORKSHOP_JSON_SCHEMA = {
 // Fallback Response Generator
 // ============================================================================
 
+/**
+ * Build rhyme suggestions from the offline rhyme dictionary alone, so the
+ * workshop still offers candidate words when the LLM is unavailable
+ */
+function buildFallbackRhymeSuggestions(
+  params: RhymeWorkshopPromptParams
+): RhymeSuggestion[] {
+  const {
+    lineIndex,
+    currentTranslation,
+    fullTranslation,
+    targetLanguage,
+    rhymeDictionaryData,
+    rhymeTargetLines,
+  } = params;
+  if (!rhymeDictionaryData || !rhymeTargetLines || rhymeTargetLines.length === 0) return [];
+
+  const translationLines = fullTranslation.split("\n").filter((l) => l.trim());
+  const currentEnding = extractLineEnding(currentTranslation, targetLanguage);
+  const suggestions: RhymeSuggestion[] = [];
+
+  for (const targetLine of rhymeTargetLines) {
+    const targetText = translationLines[targetLine];
+    if (!targetText) continue;
+    const targetEnding = extractLineEnding(targetText, targetLanguage);
+    if (!targetEnding || getRhymeQuality(currentEnding, targetEnding).quality === "perfect") {
+      continue;
+    }
+
+    const rhymes = rhymeDictionaryData.lineEndingRhymes.find((r) => r.word === targetEnding);
+    if (!rhymes) continue;
+    const candidateWords = [...rhymes.perfectRhymes.slice(0, 8), ...rhymes.slantRhymes.slice(0, 4)];
+    if (candidateWords.length === 0) continue;
+
+    const targetSound = getRhymeSound(targetEnding);
+    const hasPerfect = rhymes.perfectRhymes.length > 0;
+    suggestions.push({
+      type: hasPerfect ? "perfect_rhyme" : "slant_rhyme",
+      targetLines: [lineIndex, targetLine],
+      targetSound,
+      instruction: `Line ${targetLine + 1} ends with "${targetEnding}". To rhyme with it, end line ${lineIndex + 1} with a word that has the "${targetSound}" sound.`,
+      currentLines: { line1: currentTranslation, line2: targetText },
+      candidateWords,
+      semanticallyRelevant: {},
+      suggestedRewrites: [],
+      recommendation: hasPerfect
+        ? "Pick a candidate that keeps the meaning of the source line, then rebuild the line so it lands on that word."
+        : "No perfect rhyme is close by. A slant rhyme keeps the echo without forcing the meaning.",
+    });
+  }
+
+  return suggestions;
+}
+
 /**
  * Generate a basic fallback response when LLM fails
+ *
+ * Rhyme candidates still come from the offline rhyme dictionary when the
+ * route provided it.
  */
 export function generateFallbackRhymeWorkshopResponse(
   params: RhymeWorkshopPromptParams
-): {
-  rhymeWorkshop: never[];
-  soundWorkshop: never[];
-  rhythmWorkshop: {
-    lineIndex: number;
-    analysis: {
-      source: { text: string; syllables: number; stress: string };
-      current: { text: string; syllables: number; stress: string };
-    };
-    issue: string;
-    alternatives: never[];
-    recommendation: string;
-  }[];
-} {
+): RhymeWorkshopResponse {
   const { lineIndex, sourceLine, currentTranslation, sourceLineAnalysis, currentLineAnalysis } =
     params;
 
   return {
-    rhymeWorkshop: [],
+    rhymeWorkshop: buildFallbackRhymeSuggestions(params),
     soundWorkshop: [],
     rhythmWorkshop: [
       {
@@ -2,7 +2,8 @@
  * Phase 4: Diversity Scorecard for Method 2 Testing
  *
  * Provides poem-level quantitative metrics to track diversity improvements:
- * - Opener distinctness percentage
+ * - Opener distinctness percentage (across A/B/C; extra variants repeat those
+ *   archetypes and are only counted in similarity)
  * - Variant C stance compliance (avoids forbidden "I")
  * - Average pairwise similarity
  * - Regeneration rate
@@ -14,6 +15,12 @@ import { tokenize, jaccardSimilarity } from "./diversityGate";
 import { pickStopwords } from "./stopwords";
 import type { TranslationRangeMode, VariantRecipesBundle } from "./variantRecipes";
 import type { LineAudit } from "./audit";
+import {
+  CORE_VARIANT_COUNT,
+  variantLabelAt,
+  variantPairKey,
+  variantPairs,
+} from "./variantCount";
 
 // =============================================================================
 // Types
@@ -22,14 +29,14 @@ import type { LineAudit } from "./audit";
 export interface LineScore {
   lineIndex: number;
   openerDistinct: boolean;
-  openerTypes: { a: string; b: string; c: string };
+  openerTypes: Record<string, OpenerType>; // keyed by lowercase label
 
   cAvoidsI: boolean; // based on stance plan + text opener tokens
   cExpectedSubjectForm?: string;
   cUsedForbiddenI: boolean; // true if starts with I/I'm etc when forbidden
 
-  similarities: { ab: number; ac: number; bc: number; avgPairwise: number };
-  regen: { performed: boolean; worstIndex?: 0 | 1 | 2; strategy?: string };
+  similarities: { pairs: Record<string, number>; avgPairwise: number }; // pairs keyed "ab", "ac", …
+  regen: { performed: boolean; worstIndex?: number; strategy?: string };
 }
 
 export interface PoemScorecard {
@@ -102,60 +109,57 @@ function detectSimpleLanguage(langHint?: string): string {
  */
 export function computeLineScore(params: {
   lineIndex: number;
-  aText: string;
-  bText: string;
-  cText: string;
+  variantTexts: string[]; // A, B, C, … in label order
   targetLanguageHint?: string;
   cExpectedSubjectForm?: string;
   regen?: { performed: boolean; worstIndex?: number; strategy?: string };
 }): LineScore {
-  const { lineIndex, aText, bText, cText, targetLanguageHint, cExpectedSubjectForm, regen } =
+  const { lineIndex, variantTexts, targetLanguageHint, cExpectedSubjectForm, regen } =
     params;
 
-  // Opener type distinctness
-  const openerA = openerType(aText, targetLanguageHint);
-  const openerB = openerType(bText, targetLanguageHint);
-  const openerC = openerType(cText, targetLanguageHint);
-
-  const openerDistinct =
-    openerA !== openerB && openerB !== openerC && openerA !== openerC;
+  // Opener type distinctness (core archetypes only)
+  const openers = variantTexts.map((text) => openerType(text, targetLanguageHint));
+  const coreOpeners = openers.slice(0, CORE_VARIANT_COUNT);
+  const openerDistinct = new Set(coreOpeners).size === coreOpeners.length;
 
   // Variant C stance compliance
+  const cText = variantTexts[2];
   const cUsedForbiddenI =
-    cExpectedSubjectForm && cExpectedSubjectForm !== "i"
+    cText !== undefined && cExpectedSubjectForm && cExpectedSubjectForm !== "i"
       ? startsWithPronounI(cText, targetLanguageHint)
       : false;
 
   const cAvoidsI = !cUsedForbiddenI;
 
-  // Pairwise similarities
+  // Pairwise similarities, with stopwords removed
   const stopwords = pickStopwords(targetLanguageHint);
-  const tokensA = tokenize(aText);
-  const tokensB = tokenize(bText);
-  const tokensC = tokenize(cText);
-
-  // Remove stopwords for similarity calculation
-  const contentA = new Set([...tokensA].filter((t) => !stopwords.has(t)));
-  const contentB = new Set([...tokensB].filter((t) => !stopwords.has(t)));
-  const contentC = new Set([...tokensC].filter((t) => !stopwords.has(t)));
+  const contents = variantTexts.map(
+    (text) => new Set([...tokenize(text)].filter((t) => !stopwords.has(t)))
+  );
 
-  const ab = jaccardSimilarity(contentA, contentB);
-  const ac = jaccardSimilarity(contentA, contentC);
-  const bc = jaccardSimilarity(contentB, contentC);
-  const avgPairwise = (ab + ac + bc) / 3;
+  const pairs: Record<string, number> = {};
+  for (const [i, j] of variantPairs(variantTexts.length)) {
+    pairs[variantPairKey(i, j)] = jaccardSimilarity(contents[i], contents[j]);
+  }
+  const pairScores = Object.values(pairs);
+  const avgPairwise =
+    pairScores.length > 0
+      ? pairScores.reduce((sum, v) => sum + v, 0) / pairScores.length
+      : 0;
 
   return {
     lineIndex,
     openerDistinct,
-    openerTypes: { a: openerA, b: openerB, c: openerC },
+    openerTypes: Object.fromEntries(
+      openers.map((o, i) => [variantLabelAt(i).toLowerCase(), o])
+    ),
     cAvoidsI,
     cExpectedSubjectForm,
     cUsedForbiddenI,
-    similarities: { ab, ac, bc, avgPairwise },
+    similarities: { pairs, avgPairwise },
     regen: {
       performed: regen?.performed ?? false,
-      worstIndex:
-        regen?.worstIndex !== undefined ? (regen.worstIndex as 0 | 1 | 2) : undefined,
+      worstIndex: regen?.worstIndex,
       strategy: regen?.strategy,
     },
   };
@@ -171,9 +175,7 @@ export function computeLineScore(params: {
 export function computePoemScorecard(params: {
   lines: Array<{
     lineIndex: number;
-    aText: string;
-    bText: string;
-    cText: string;
+    variantTexts: string[];
     regen?: { performed: boolean; worstIndex?: number; strategy?: string };
   }>;
   mode: TranslationRangeMode;
@@ -192,9 +194,7 @@ export function computePoemScorecard(params: {
   const lineScores = lines.map((line) =>
     computeLineScore({
       lineIndex: line.lineIndex,
-      aText: line.aText,
-      bText: line.bText,
-      cText: line.cText,
+      variantTexts: line.variantTexts,
       targetLanguageHint,
       cExpectedSubjectForm,
       regen: line.regen,
@@ -12,6 +12,15 @@
 
 import type { TranslatorPersonality } from "./translatorPersonality";
 import type { TranslationRangeMode } from "./variantRecipes";
+import type { GlossaryEntry } from "@/types/glossary";
+import { formatGlossaryPromptBlock } from "./glossaryGate";
+import {
+  DEFAULT_VARIANT_COUNT,
+  resolveVariantCount,
+  variantCountWord,
+  variantLabels,
+  type VariantLabel,
+} from "./variantCount";
 
 // =============================================================================
 // 1A: Mode-Specific Variant Instructions (Matthew's exact text)
@@ -40,6 +49,36 @@ export const SIMPLIFIED_VARIANT_INSTRUCTIONS: Record<
 #3 should respond more freely, opening up imaginative possibilities that have not been recognised in #1 or #2.`,
 } as const;
 
+/**
+ * Instructions for variants beyond #3, per mode. Our wording, not the
+ * client's: it only extends the pattern of the last instruction.
+ */
+const EXTRA_VARIANT_INSTRUCTION: Record<TranslationRangeMode, string> = {
+  focused:
+    "should be another alternative close translation using different words. Please make sure that every significant word in this translation is different from the earlier translations.",
+  balanced:
+    "should re-write the poem to bring out further signifying possibilities that have not been recognised in the earlier translations.",
+  adventurous:
+    "should respond freely again, opening up imaginative possibilities that have not been recognised in the earlier translations.",
+};
+
+/**
+ * Variant instructions for a thread's variant count. Three variants get the
+ * client's text unchanged; fewer keep its first lines, more append an
+ * instruction per extra variant.
+ */
+export function buildSimplifiedVariantInstructions(
+  mode: TranslationRangeMode,
+  variantCount: number = DEFAULT_VARIANT_COUNT
+): string {
+  const n = resolveVariantCount(variantCount);
+  const lines = SIMPLIFIED_VARIANT_INSTRUCTIONS[mode].split("\n").slice(0, n);
+  for (let i = lines.length; i < n; i++) {
+    lines.push(`#${i + 1} ${EXTRA_VARIANT_INSTRUCTION[mode]}`);
+  }
+  return lines.join("\n");
+}
+
 // =============================================================================
 // 1B: Simplified Variant Descriptions for Regen
 // =============================================================================
@@ -70,6 +109,22 @@ export const SIMPLIFIED_VARIANT_DESCRIPTIONS: Record<
   },
 } as const;
 
+const EXTRA_VARIANT_DESCRIPTION: Record<TranslationRangeMode, string> = {
+  focused: "Another alternative close translation using different words from the earlier variants",
+  balanced: "A rewrite that brings out further possibilities not recognised in the earlier variants",
+  adventurous: "A free response that opens up possibilities not recognised in the earlier variants",
+};
+
+/** Role description of any variant label, including those beyond C. */
+export function simplifiedVariantDescription(
+  mode: TranslationRangeMode,
+  label: VariantLabel
+): string {
+  return label === "A" || label === "B" || label === "C"
+    ? SIMPLIFIED_VARIANT_DESCRIPTIONS[mode][label]
+    : EXTRA_VARIANT_DESCRIPTION[mode];
+}
+
 // =============================================================================
 // 1C: Simplified System Prompt Builder
 // =============================================================================
@@ -79,11 +134,16 @@ export const SIMPLIFIED_VARIANT_DESCRIPTIONS: Record<
  * Replaces the archetype-heavy system prompt (5-step self-check, archetype
  * enforcement, metadata field bans) with minimal output constraints.
  */
-export function buildSimplifiedSystemPrompt(): string {
+export function buildSimplifiedSystemPrompt(
+  variantCount: number = DEFAULT_VARIANT_COUNT
+): string {
+  const example = variantLabels(variantCount)
+    .map((label) => `{ "label": "${label}", "text": "..." }`)
+    .join(", ");
   return [
     "You are a poetry translator assisting in an educational exercise.",
     "Respond ONLY with valid JSON in this exact format:",
-    '{ "variants": [{ "label": "A", "text": "..." }, { "label": "B", "text": "..." }, { "label": "C", "text": "..." }] }',
+    `{ "variants": [${example}] }`,
     "Do not include any explanation, commentary, or additional fields.",
     "Each variant text should contain only the translated line(s), no labels or prefixes.",
   ].join("\n");
@@ -105,13 +165,22 @@ export function buildSimplifiedUserPrompt(params: {
   personality: TranslatorPersonality;
   currentTranslation?: string;
   context?: string;
+  /** Glossary entries that apply to this line (see selectGlossaryForLine) */
+  glossary?: GlossaryEntry[];
+  /** Number of variants to request (default three) */
+  variantCount?: number;
 }): string {
-  const { sourceText, mode, personality, currentTranslation, context } = params;
+  const { sourceText, mode, personality, currentTranslation, context, glossary } =
+    params;
+  const variantCount = resolveVariantCount(params.variantCount);
+  const countWord = variantCountWord(variantCount);
   const sections: string[] = [];
 
   // 1. Core task framing (Matthew's preamble)
   sections.push(
-    "This is a poetry translation exercise. I would like you to provide me with three alternatives for the following poem."
+    `This is a poetry translation exercise. I would like you to provide me with ${
+      variantCount === 1 ? "one translation" : `${countWord} alternatives`
+    } for the following poem.`
   );
 
   // 2. Language context (from TranslatorPersonality: domain maps to zone, purpose maps to intent)
@@ -154,11 +223,19 @@ export function buildSimplifiedUserPrompt(params: {
   }
 
   // 7. Mode-specific variant instructions (Matthew's exact text)
-  sections.push(`\n${SIMPLIFIED_VARIANT_INSTRUCTIONS[mode]}`);
+  sections.push(`\n${buildSimplifiedVariantInstructions(mode, variantCount)}`);
+
+  // 8. Project glossary (required renderings, kept and forbidden terms)
+  const glossaryBlock = formatGlossaryPromptBlock(glossary ?? []);
+  if (glossaryBlock) {
+    sections.push(`\n${glossaryBlock}`);
+  }
 
-  // 8. Output format reminder
+  // 9. Output format reminder
   sections.push(
-    "\nRespond with ONLY the JSON object containing the three variants. No commentary."
+    `\nRespond with ONLY the JSON object containing the ${
+      variantCount === 1 ? "variant" : `${countWord} variants`
+    }. No commentary.`
   );
 
   return sections.join("\n");
@@ -189,7 +266,7 @@ export function buildSimplifiedUserPrompt(params: {
  * This function matches that contract.
  */
 export function buildSimplifiedRegenPrompt(params: {
-  label: "A" | "B" | "C";
+  label: VariantLabel;
   mode: TranslationRangeMode;
   lineText: string;
   sourceLanguage: string;
@@ -211,7 +288,7 @@ export function buildSimplifiedRegenPrompt(params: {
     nextLine,
   } = params;
 
-  const variantDescription = SIMPLIFIED_VARIANT_DESCRIPTIONS[mode][label];
+  const variantDescription = simplifiedVariantDescription(mode, label);
 
   return `You are regenerating variant ${label} for a poetry translation line.
 
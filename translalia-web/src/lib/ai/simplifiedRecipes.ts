@@ -16,7 +16,8 @@ import {
   type TranslationRangeMode,
   VariantRecipesBundleSchema,
 } from "./variantRecipes";
-import { SIMPLIFIED_VARIANT_DESCRIPTIONS } from "./simplifiedPrompts";
+import { simplifiedVariantDescription } from "./simplifiedPrompts";
+import { variantLabels, type VariantLabel } from "./variantCount";
 
 /**
  * New recipe schema version. When wired in (Phase 3), this will invalidate
@@ -36,7 +37,7 @@ export const SIMPLIFIED_RECIPE_SCHEMA_VERSION = "v6";
  * The simplified prompts don't use them.
  *
  * Required fields (verified against variantRecipes.ts Zod schemas):
- * - label: "A" | "B" | "C"                          (z.enum)
+ * - label: "A" | "B" | "C" | …                      (z.enum)
  * - directive: variant description string ≤200 chars (z.string().transform)
  * - mode: passed through                            (TranslationRangeModeSchema)
  * - createdAt: number (Date.now())                  (z.number())
@@ -50,28 +51,26 @@ export function buildStaticRecipeBundle(params: {
   threadId: string;
   mode: TranslationRangeMode;
   contextHash: string;
+  /** Number of variants (default three) */
+  variantCount?: number;
 }): VariantRecipesBundle {
   const { threadId, mode, contextHash } = params;
 
-  const makeRecipe = (label: "A" | "B" | "C"): VariantRecipe => ({
+  const makeRecipe = (label: VariantLabel): VariantRecipe => ({
     label,
-    directive: SIMPLIFIED_VARIANT_DESCRIPTIONS[mode][label],
+    directive: simplifiedVariantDescription(mode, label),
     mode,
     // archetype, lens, unusualnessBudget intentionally omitted —
     // these are archetype-machinery fields not used by simplified prompts.
     // The Zod schema accepts recipes without them (Phase 2).
   });
 
-  // VariantRecipesBundleSchema.recipes is z.tuple of exactly 3 VariantRecipeSchemas
+  // One recipe per label, in order (default A, B, C)
   const bundle = {
     threadId,
     mode,
     contextHash,
-    recipes: [makeRecipe("A"), makeRecipe("B"), makeRecipe("C")] as [
-      VariantRecipe,
-      VariantRecipe,
-      VariantRecipe,
-    ],
+    recipes: variantLabels(params.variantCount ?? 3).map(makeRecipe),
     createdAt: Date.now(),
     modelUsed: "static",
   };
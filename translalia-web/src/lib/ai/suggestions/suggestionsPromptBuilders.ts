@@ -1,8 +1,16 @@
 import { buildTranslatorPersonality } from "@/lib/ai/translatorPersonality";
 import { tokenize } from "@/lib/ai/textNormalize";
-import type {
-  LineSuggestionsRequest,
-  TokenSuggestionsRequest,
+import {
+  CORE_VARIANT_COUNT,
+  VARIANT_LABELS,
+  variantLabelAt,
+  type VariantLabel,
+} from "@/lib/ai/variantCount";
+import {
+  variantTextList,
+  type LineSuggestionsRequest,
+  type TokenSuggestionsRequest,
+  type VariantFullTexts,
 } from "./suggestionsSchemas";
 
 const MAX_EXAMPLE_TOKENS = 20;
@@ -11,17 +19,34 @@ const MAX_FORBIDDEN_TOKENS = 40;
 
 function collectAnchorTexts(params: {
   targetLineDraft?: string | null;
-  variantFullTexts?: { A?: string | null; B?: string | null; C?: string | null } | null;
+  variantFullTexts?: VariantFullTexts | null;
 }): string[] {
   const anchors: string[] = [];
   if (params.targetLineDraft?.trim()) anchors.push(params.targetLineDraft.trim());
-  const variants = params.variantFullTexts;
-  if (variants?.A?.trim()) anchors.push(variants.A.trim());
-  if (variants?.B?.trim()) anchors.push(variants.B.trim());
-  if (variants?.C?.trim()) anchors.push(variants.C.trim());
+  for (const text of variantTextList(params.variantFullTexts)) {
+    if (text.trim()) anchors.push(text.trim());
+  }
   return anchors;
 }
 
+/**
+ * Labels the variant anchors list: always A, B and C, plus any further
+ * variant the thread generated
+ */
+function anchorVariantLabels(
+  variantFullTexts?: VariantFullTexts | null
+): VariantLabel[] {
+  return VARIANT_LABELS.filter(
+    (label, i) => i < CORE_VARIANT_COUNT || variantFullTexts?.[label]?.trim()
+  );
+}
+
+function fitsWithOptions(variantFullTexts?: VariantFullTexts | null): string {
+  return [...anchorVariantLabels(variantFullTexts), "any"]
+    .map((label) => `"${label}"`)
+    .join(" | ");
+}
+
 function extractSnippet(text: string): string {
   const tokens = text.split(/\s+/).filter(Boolean);
   if (tokens.length === 0) return "";
@@ -57,48 +82,34 @@ function buildForbiddenTokenList(anchors: string[]): string {
 
 function buildAnchorSection(anchors: {
   targetLineDraft?: string | null;
-  variantFullTexts?: { A?: string | null; B?: string | null; C?: string | null } | null;
-  selectedVariant?: 1 | 2 | 3 | null;
+  variantFullTexts?: VariantFullTexts | null;
+  selectedVariant?: number | null;
 }): string {
-  const selected =
-    anchors.selectedVariant === 1
-      ? "A"
-      : anchors.selectedVariant === 2
-      ? "B"
-      : anchors.selectedVariant === 3
-      ? "C"
-      : "none";
+  const selected = anchors.selectedVariant
+    ? variantLabelAt(anchors.selectedVariant - 1)
+    : "none";
+  const variantLines = anchorVariantLabels(anchors.variantFullTexts).map(
+    (label) =>
+      `- Variant ${label}: "${anchors.variantFullTexts?.[label] || ""}"`
+  );
   return `
 TARGET-LANGUAGE ANCHORS (use these to stay in the target language)
 - Draft: "${anchors.targetLineDraft || ""}"
-- Variant A: "${anchors.variantFullTexts?.A || ""}"
-- Variant B: "${anchors.variantFullTexts?.B || ""}"
-- Variant C: "${anchors.variantFullTexts?.C || ""}"
+${variantLines.join("\n")}
 - Selected variant: ${selected}
 `.trim();
 }
 
 function pickPrimaryTargetLine(params: {
   targetLineDraft?: string | null;
-  variantFullTexts?: { A?: string | null; B?: string | null; C?: string | null } | null;
-  selectedVariant?: 1 | 2 | 3 | null;
+  variantFullTexts?: VariantFullTexts | null;
+  selectedVariant?: number | null;
 }): string {
-  const variants = params.variantFullTexts;
-  const bySelection =
-    params.selectedVariant === 1
-      ? variants?.A
-      : params.selectedVariant === 2
-      ? variants?.B
-      : params.selectedVariant === 3
-      ? variants?.C
-      : null;
-  const candidates = [
-    bySelection,
-    params.targetLineDraft,
-    variants?.A,
-    variants?.B,
-    variants?.C,
-  ];
+  const variants = variantTextList(params.variantFullTexts);
+  const bySelection = params.selectedVariant
+    ? variants[params.selectedVariant - 1]
+    : null;
+  const candidates = [bySelection, params.targetLineDraft, ...variants];
   for (const candidate of candidates) {
     if (candidate && candidate.trim()) return candidate.trim();
   }
@@ -220,7 +231,9 @@ Constraints:
 - Suggestions must fit the local line context and translator personality.
 - Suggestions must be 1-3 words max.
 - Use: replace | insert | opening | closing (pick the best use per suggestion).
-- "fitsWith" tags which draft/variant the idea harmonizes with ("A" | "B" | "C" | "any").
+- "fitsWith" tags which draft/variant the idea harmonizes with (${fitsWithOptions(
+    request.variantFullTexts
+  )}).
 
 Output JSON only:
 {
@@ -323,7 +336,7 @@ ${rangeGuidance}
 
 TASK:
 Generate 7-9 token suggestions that could replace or complement the focus token.
-Tag each suggestion with fitsWith ("A" | "B" | "C" | "any").
+Tag each suggestion with fitsWith (${fitsWithOptions(request.variantFullTexts)}).
 
 Constraints:
 - Suggestions must be 1-3 words max.
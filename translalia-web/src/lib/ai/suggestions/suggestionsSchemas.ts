@@ -1,4 +1,8 @@
 import { z } from "zod";
+import {
+  MAX_VARIANT_COUNT,
+  VARIANT_LABELS,
+} from "@/lib/ai/variantCount";
 
 export const SuggestionUseSchema = z.enum([
   "replace",
@@ -7,7 +11,22 @@ export const SuggestionUseSchema = z.enum([
   "closing",
 ]);
 
-export const FitsWithSchema = z.enum(["A", "B", "C", "any"]);
+export const FitsWithSchema = z.enum([...VARIANT_LABELS, "any"]);
+
+const VariantTextSchema = z.string().optional().nullable();
+
+// Full text of each generated variant, keyed by label (A, B, C, …)
+export const VariantFullTextsSchema = z.object({
+  A: VariantTextSchema,
+  B: VariantTextSchema,
+  C: VariantTextSchema,
+  D: VariantTextSchema,
+  E: VariantTextSchema,
+  F: VariantTextSchema,
+});
+
+// 1-based variant number (1 = A)
+export const VariantNumberSchema = z.number().int().min(1).max(MAX_VARIANT_COUNT);
 
 export const WordSuggestionSchema = z.object({
   word: z.string().min(1),
@@ -38,18 +57,10 @@ export const LineSuggestionsRequestSchema = z.object({
   userGuidance: z.string().optional().nullable(),
   targetLanguage: z.string().min(1),
   targetLineDraft: z.string().optional().nullable(),
-  variantFullTexts: z
-    .object({
-      A: z.string().optional().nullable(),
-      B: z.string().optional().nullable(),
-      C: z.string().optional().nullable(),
-    })
-    .optional()
-    .nullable(),
-  selectedVariant: z
-    .union([z.literal(1), z.literal(2), z.literal(3)])
+  variantFullTexts: VariantFullTextsSchema
     .optional()
     .nullable(),
+  selectedVariant: VariantNumberSchema.optional().nullable(),
 });
 
 export const TokenSuggestionsRequestSchema = z.object({
@@ -73,32 +84,27 @@ export const TokenSuggestionsRequestSchema = z.object({
     .nullable(),
   targetLanguage: z.string().min(1),
   targetLineDraft: z.string().optional().nullable(),
-  variantFullTexts: z
-    .object({
-      A: z.string().optional().nullable(),
-      B: z.string().optional().nullable(),
-      C: z.string().optional().nullable(),
-    })
-    .optional()
-    .nullable(),
-  selectedVariant: z
-    .union([z.literal(1), z.literal(2), z.literal(3)])
+  variantFullTexts: VariantFullTextsSchema
     .optional()
     .nullable(),
+  selectedVariant: VariantNumberSchema.optional().nullable(),
   focus: z.object({
     word: z.string().min(1),
     originalWord: z.string().optional().nullable(),
     partOfSpeech: z.string().optional().nullable(),
     position: z.number().int().min(0).optional().nullable(),
     sourceType: z.enum(["variant", "source"]),
-    variantId: z
-      .union([z.literal(1), z.literal(2), z.literal(3)])
-      .optional()
-      .nullable(),
+    variantId: VariantNumberSchema.optional().nullable(),
   }),
 });
 
 export type WordSuggestion = z.infer<typeof WordSuggestionSchema>;
+export type VariantFullTexts = z.infer<typeof VariantFullTextsSchema>;
 export type SuggestionsResponse = z.infer<typeof SuggestionsResponseSchema>;
 export type LineSuggestionsRequest = z.infer<typeof LineSuggestionsRequestSchema>;
 export type TokenSuggestionsRequest = z.infer<typeof TokenSuggestionsRequestSchema>;
+
+/** Variant texts in label order, "" where a variant is missing. */
+export function variantTextList(texts?: VariantFullTexts | null): string[] {
+  return VARIANT_LABELS.map((label) => texts?.[label] ?? "");
+}
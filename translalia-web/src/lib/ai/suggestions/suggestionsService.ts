@@ -1,15 +1,16 @@
-import { openai } from "@/lib/ai/openai";
+import { getClientForModel } from "@/lib/ai/openai";
+import { SUGGESTION_MODEL } from "@/lib/models";
 import {
   SuggestionsResponseSchema,
   type WordSuggestion,
   type LineSuggestionsRequest,
   type TokenSuggestionsRequest,
+  variantTextList,
 } from "./suggestionsSchemas";
 import { buildLineSuggestionsPrompt, buildTokenSuggestionsPrompt } from "./suggestionsPromptBuilders";
 import { buildAnchorTokenSet, runSuggestionsGate } from "./suggestionsGate";
 
-const SUGGESTION_MODEL = "gpt-4o-mini";
-const REPAIR_MODEL = "gpt-4o-mini";
+const REPAIR_MODEL = SUGGESTION_MODEL;
 
 export interface SuggestionsServiceResult {
   ok: boolean;
@@ -51,7 +52,10 @@ async function callModel(
   model: string,
   temperature: number
 ) {
-  const completion = await openai.chat.completions.create({
+  const completion = await getClientForModel(
+    model,
+    "workshop:word-suggestions"
+  ).chat.completions.create({
     model,
     temperature,
     response_format: { type: "json_object" },
@@ -75,9 +79,7 @@ export async function generateLineSuggestions(params: {
 
   const anchors = [
     request.targetLineDraft ?? "",
-    request.variantFullTexts?.A ?? "",
-    request.variantFullTexts?.B ?? "",
-    request.variantFullTexts?.C ?? "",
+    ...variantTextList(request.variantFullTexts),
   ].filter((t) => t.trim().length > 0);
   const anchorTokens = buildAnchorTokenSet(anchors);
 
@@ -189,9 +191,7 @@ export async function generateTokenSuggestions(params: {
 
   const anchors = [
     request.targetLineDraft ?? "",
-    request.variantFullTexts?.A ?? "",
-    request.variantFullTexts?.B ?? "",
-    request.variantFullTexts?.C ?? "",
+    ...variantTextList(request.variantFullTexts),
   ].filter((t) => t.trim().length > 0);
   const anchorTokens = buildAnchorTokenSet(anchors);
 
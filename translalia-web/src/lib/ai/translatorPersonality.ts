@@ -20,9 +20,9 @@ export interface TranslatorPersonality {
   literalness: number;
   /** @deprecated - Legacy field, not used in Method 2 prompts */
   register: string[];
-  /** @deprecated - Legacy field, not used in Method 2 prompts */
+  /** @deprecated - Legacy field; use the project glossary (project_glossary_terms) */
   sacred_terms: string[];
-  /** @deprecated - Legacy field, not used in Method 2 prompts */
+  /** @deprecated - Legacy field; use the project glossary (project_glossary_terms) */
   forbidden_terms: string[];
   /** @deprecated - Legacy field, not used in Method 2 prompts */
   approach_summary: string;
@@ -0,0 +1,111 @@
+/**
+ * Tests for configurable variant counts: label/pair helpers, recipe bundle
+ * expansion and the diversity gate on fewer and more than three variants.
+ *
+ * Run with: npx vitest run src/lib/ai/variantCount.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  resolveVariantCount,
+  variantLabels,
+  variantPairKey,
+  variantPairs,
+} from "./variantCount";
+import { expandRecipesBundle, type VariantRecipesBundle } from "./variantRecipes";
+import { checkDistinctness } from "./diversityGate";
+import { buildStaticRecipeBundle } from "./simplifiedRecipes";
+
+describe("variant count helpers", () => {
+  it("clamps counts into 1–6 and defaults to three", () => {
+    expect(resolveVariantCount(undefined)).toBe(3);
+    expect(resolveVariantCount(null)).toBe(3);
+    expect(resolveVariantCount(0)).toBe(1);
+    expect(resolveVariantCount(9)).toBe(6);
+    expect(resolveVariantCount(4.4)).toBe(4);
+  });
+
+  it("labels variants and pairs them in AB / AC / BC order", () => {
+    expect(variantLabels(5)).toEqual(["A", "B", "C", "D", "E"]);
+    expect(variantPairs(3)).toEqual([
+      [0, 1],
+      [0, 2],
+      [1, 2],
+    ]);
+    expect(variantPairs(4)).toHaveLength(6);
+    expect(variantPairKey(1, 3)).toBe("bd");
+  });
+});
+
+describe("recipe bundle expansion", () => {
+  const bundle: VariantRecipesBundle = {
+    threadId: "thread-1",
+    mode: "balanced",
+    contextHash: "hash",
+    createdAt: 0,
+    modelUsed: "test",
+    recipes: ["A", "B", "C"].map((label) => ({
+      label: label as "A" | "B" | "C",
+      directive: `Directive ${label}`,
+      lens: {
+        imagery: "preserve",
+        voice: "preserve",
+        sound: "preserve",
+        syntax: "preserve",
+        cultural: "preserve",
+      },
+      unusualnessBudget: "low",
+      mode: "balanced",
+    })),
+  };
+
+  it("keeps the first recipes when fewer variants are requested", () => {
+    const expanded = expandRecipesBundle(bundle, 2);
+    expect(expanded.recipes.map((r) => r.label)).toEqual(["A", "B"]);
+  });
+
+  it("adds further takes on the core recipes beyond C", () => {
+    const expanded = expandRecipesBundle(bundle, 5);
+    expect(expanded.recipes.map((r) => r.label)).toEqual(["A", "B", "C", "D", "E"]);
+    expect(expanded.recipes[3].directive).toContain("distinct from Variant A");
+    expect(expanded.recipes[4].directive).toContain("distinct from Variant B");
+  });
+
+  it("builds static simplified recipes for the requested count", () => {
+    const recipes = buildStaticRecipeBundle({
+      threadId: "thread-1",
+      mode: "balanced",
+      contextHash: "hash",
+      variantCount: 4,
+    }).recipes;
+    expect(recipes.map((r) => r.label)).toEqual(["A", "B", "C", "D"]);
+    expect(recipes.every((r) => r.directive.length > 0)).toBe(true);
+  });
+});
+
+describe("diversity gate with other variant counts", () => {
+  const options = { targetLanguage: "English", mode: "balanced" as const };
+
+  it("passes a single variant", () => {
+    const result = checkDistinctness(
+      [{ label: "A", text: "The river keeps its name" }],
+      options
+    );
+    expect(result.pass).toBe(true);
+  });
+
+  it("flags the near-duplicate among five variants", () => {
+    const result = checkDistinctness(
+      [
+        { label: "A", text: "The river keeps its quiet name tonight" },
+        { label: "B", text: "Beneath cold stars a current hums alone" },
+        { label: "C", text: "My grandmother's kettle sings of water" },
+        { label: "D", text: "Salt wind forgets the harbor bells" },
+        { label: "E", text: "The river keeps its quiet name tonight" },
+      ],
+      options
+    );
+    expect(result.pass).toBe(false);
+    expect(result.worstIndex).toBe(4);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Variant Count: how many prismatic variants a line gets
+ *
+ * Each thread picks N in the guide (`guideAnswers.variantCount`). Variants are
+ * labelled A, B, C, … and numbered 1..N in API responses. The first three keep
+ * their archetypes (essence cut, prismatic reimagining, world & voice
+ * transposition); variants beyond C are further takes on those archetypes.
+ *
+ * Pure module: safe to import from client components.
+ */
+
+export const VARIANT_LABELS = ["A", "B", "C", "D", "E", "F"] as const;
+
+export type VariantLabel = (typeof VARIANT_LABELS)[number];
+
+export const MIN_VARIANT_COUNT = 1;
+export const MAX_VARIANT_COUNT = VARIANT_LABELS.length;
+export const DEFAULT_VARIANT_COUNT = 3;
+
+/** Number of variants that carry a distinct archetype (A, B, C). */
+export const CORE_VARIANT_COUNT = 3;
+
+const COUNT_WORDS = ["one", "two", "three", "four", "five", "six"] as const;
+
+/**
+ * Clamp a stored or requested count into the supported range.
+ * Missing or invalid values fall back to the default of three.
+ */
+export function resolveVariantCount(n?: number | null): number {
+  if (typeof n !== "number" || !Number.isFinite(n)) return DEFAULT_VARIANT_COUNT;
+  return Math.min(MAX_VARIANT_COUNT, Math.max(MIN_VARIANT_COUNT, Math.round(n)));
+}
+
+/** Labels of the first `n` variants: variantLabels(3) → ["A", "B", "C"]. */
+export function variantLabels(n: number): VariantLabel[] {
+  return VARIANT_LABELS.slice(0, resolveVariantCount(n));
+}
+
+/** Label of the variant at a 0-based index. */
+export function variantLabelAt(index: number): VariantLabel {
+  return VARIANT_LABELS[index] ?? VARIANT_LABELS[VARIANT_LABELS.length - 1];
+}
+
+/** 0-based index of a label, or -1 when it is not a variant label. */
+export function variantIndexOf(label: string): number {
+  return (VARIANT_LABELS as readonly string[]).indexOf(label.toUpperCase());
+}
+
+/**
+ * Every unordered pair of variant indices, in (0,1), (0,2), (1,2), … order.
+ * For three variants this is the AB / AC / BC order used throughout the gate.
+ */
+export function variantPairs(n: number): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) pairs.push([i, j]);
+  }
+  return pairs;
+}
+
+/** Key of a pair in similarity records: (0, 2) → "ac". */
+export function variantPairKey(i: number, j: number): string {
+  return `${variantLabelAt(i)}${variantLabelAt(j)}`.toLowerCase();
+}
+
+/** English count word for prompts: 3 → "three". */
+export function variantCountWord(n: number): string {
+  return COUNT_WORDS[resolveVariantCount(n) - 1];
+}
@@ -8,7 +8,9 @@
  * - Archetype: Fixed artistic identity (essence_cut / prismatic_reimagining / world_voice_transposition)
  * - Lens: Configuration for translation perspective (imagery, voice, sound, syntax, cultural)
  * - Recipe: A reusable viewpoint definition (archetype, label, lens, directive, unusualnessBudget)
- * - Bundle: Collection of 3 recipes with metadata (mode, contextHash, createdAt)
+ * - Bundle: Collection of recipes with metadata (mode, contextHash, createdAt).
+ *   The cached bundle holds the three archetypes A, B, C; getOrCreateVariantRecipes
+ *   trims or extends it to the thread's variant count (see variantCount.ts).
  *
  * Schema version: v2 introduces archetypes for distinct artistic variants
  */
@@ -26,6 +28,16 @@ export const RECIPE_SCHEMA_VERSION = "v6";
 import { z } from "zod";
 import { stableHash } from "./cache";
 import type { GuideAnswers } from "@/store/guideSlice";
+import type { GlossaryEntry } from "@/types/glossary";
+import { loadGlossaryForThread } from "@/lib/glossary/store";
+import { formatGlossaryPromptBlock } from "./glossaryGate";
+import {
+  CORE_VARIANT_COUNT,
+  MAX_VARIANT_COUNT,
+  VARIANT_LABELS,
+  resolveVariantCount,
+  type VariantLabel,
+} from "./variantCount";
 
 // =============================================================================
 // Zod Schemas
@@ -87,6 +99,15 @@ export const LABEL_TO_ARCHETYPE: Record<"A" | "B" | "C", Archetype> = {
   C: "world_voice_transposition",
 };
 
+/**
+ * Archetype for any variant label. Labels beyond C cycle through the three
+ * archetypes (D → essence_cut, E → prismatic_reimagining, …).
+ */
+export function archetypeForLabel(label: VariantLabel): Archetype {
+  const index = VARIANT_LABELS.indexOf(label) % CORE_VARIANT_COUNT;
+  return LABEL_TO_ARCHETYPE[VARIANT_LABELS[index] as "A" | "B" | "C"];
+}
+
 /**
  * Phase 1: Stance plan for Variant C (poem-level, stable across all lines in a thread+mode)
  */
@@ -111,7 +132,7 @@ export const StancePlanSchema = z.object({
 export type StancePlan = z.infer<typeof StancePlanSchema>;
 
 /**
- * A single variant recipe - defines one of the A/B/C viewpoints.
+ * A single variant recipe - defines one of the A/B/C/… viewpoints.
  *
  * Fields marked .optional() are archetype-machinery fields that were required
  * in the v5 recipe system (Essence Cut / Prismatic Reimagining / World & Voice
@@ -122,8 +143,8 @@ export type StancePlan = z.infer<typeof StancePlanSchema>;
  * continue to parse successfully. New v6 static recipes may omit them.
  */
 export const VariantRecipeSchema = z.object({
-  /** Variant label (A, B, or C) */
-  label: z.enum(["A", "B", "C"]),
+  /** Variant label (A, B, C, …) */
+  label: z.enum(VARIANT_LABELS),
   /** Archetype - fixed artistic identity (optional as of v6) */
   archetype: ArchetypeSchema.optional(),
   /** Lens configuration for this variant (optional as of v6) */
@@ -140,7 +161,7 @@ export const VariantRecipeSchema = z.object({
 export type VariantRecipe = z.infer<typeof VariantRecipeSchema>;
 
 /**
- * Bundle of 3 recipes with metadata
+ * Bundle of recipes with metadata
  * Stored in chat_threads.state.variant_recipes_v2 (with v1 fallback for reads)
  */
 export const VariantRecipesBundleSchema = z.object({
@@ -150,12 +171,8 @@ export const VariantRecipesBundleSchema = z.object({
   mode: TranslationRangeModeSchema,
   /** SHA-256 hash of relevant context (for cache invalidation) */
   contextHash: z.string(),
-  /** The three recipes (A, B, C) */
-  recipes: z.tuple([
-    VariantRecipeSchema,
-    VariantRecipeSchema,
-    VariantRecipeSchema,
-  ]),
+  /** One recipe per variant, in label order (A, B, C, …) */
+  recipes: z.array(VariantRecipeSchema).min(1).max(MAX_VARIANT_COUNT),
   /** Timestamp when recipes were generated */
   createdAt: z.number(),
   /** Model used to generate recipes */
@@ -216,12 +233,14 @@ export function extractRecipeCacheInfo(
  * - translationZone
  * - Source/target language pair
  * - Poem text (via poemHash)
+ * - Project glossary (only hashed when non-empty, so existing caches stay valid)
  */
 export function computeRecipeContextHash(
   guideAnswers: GuideAnswers,
   sourceLanguage: string,
   targetLanguage: string,
-  poemHash?: string
+  poemHash?: string,
+  glossary?: GlossaryEntry[]
 ): string {
   const relevant = {
     schemaVersion: RECIPE_SCHEMA_VERSION, // Invalidate cache when schema changes
@@ -231,6 +250,11 @@ export function computeRecipeContextHash(
     srcLang: sourceLanguage,
     tgtLang: targetLanguage,
     poemHash: poemHash ?? "",
+    ...(glossary && glossary.length > 0
+      ? {
+          glossary: glossary.map((e) => [e.kind, e.sourceTerm, e.targetTerm]),
+        }
+      : {}),
   };
   return stableHash(relevant);
 }
@@ -472,7 +496,8 @@ LENS OPTIONS:
  * Builds the user prompt for recipe generation (v2 - archetype-aware)
  *
  * HARDENING (Method 2): Simplified to core personality fields only.
- * Legacy fields (stance, vibes, mustKeep, noGo) are removed from prompts.
+ * Legacy fields (stance, vibes, mustKeep, noGo) are removed from prompts;
+ * the project glossary replaces mustKeep/noGo.
  */
 export function buildRecipeGenerationUserPrompt(
   guideAnswers: GuideAnswers,
@@ -480,6 +505,8 @@ export function buildRecipeGenerationUserPrompt(
     fullPoem: string;
     sourceLanguage: string;
     targetLanguage: string;
+    /** Project glossary; loaded for the thread when omitted */
+    glossary?: GlossaryEntry[];
   },
   mode: TranslationRangeMode
 ): string {
@@ -490,6 +517,7 @@ export function buildRecipeGenerationUserPrompt(
     (poemContext.fullPoem.length > 500 ? "..." : "");
 
   // REMOVED: mustKeep, noGo, vibes (legacy fields, not used in Method 2)
+  const glossaryBlock = formatGlossaryPromptBlock(poemContext.glossary ?? []);
 
   // Get archetype-specific lens constraints
   const constraintsA = getArchetypeLensConstraints("essence_cut", mode);
@@ -521,7 +549,14 @@ POEM PREVIEW:
 """
 ${poemPreview}
 """
-
+${
+  glossaryBlock
+    ? `
+${glossaryBlock}
+Recipe directives must leave room for these terms in every variant.
+`
+    : ""
+}
 ═══════════════════════════════════════════════════════════════
 MODE: ${mode.toUpperCase()}
 ═══════════════════════════════════════════════════════════════
@@ -647,7 +682,7 @@ export function validateRecipes(
       // v6 simplified recipe — skip archetype/lens validation
       continue;
     }
-    const expectedArchetype = LABEL_TO_ARCHETYPE[recipe.label];
+    const expectedArchetype = archetypeForLabel(recipe.label);
     if (recipe.archetype !== expectedArchetype) {
       issues.push(
         `Recipe ${recipe.label} has archetype '${recipe.archetype}' but should have '${expectedArchetype}'`
@@ -812,6 +847,8 @@ async function generateRecipesLLM(
     fullPoem: string;
     sourceLanguage: string;
     targetLanguage: string;
+    /** Project glossary; loaded for the thread when omitted */
+    glossary?: GlossaryEntry[];
   },
   mode: TranslationRangeMode,
   contextHash: string,
@@ -842,7 +879,7 @@ async function generateRecipesLLM(
     }
     
     const completion = isGpt5
-      ? await getClientForModel(modelToUse).chat.completions.create({
+      ? await getClientForModel(modelToUse, "recipes").chat.completions.create({
           model: modelToUse,
           response_format: { type: "json_object" },
           messages: [
@@ -850,7 +887,7 @@ async function generateRecipesLLM(
             { role: "user", content: userPrompt },
           ],
         })
-      : await getClientForModel(modelToUse).chat.completions.create({
+      : await getClientForModel(modelToUse, "recipes").chat.completions.create({
           model: modelToUse,
           temperature,
           response_format: { type: "json_object" },
@@ -1133,13 +1170,51 @@ export function generateDeterministicStancePlan(
   };
 }
 
+/**
+ * Trim or extend a bundle of the three archetype recipes to `count` variants.
+ *
+ * Counts up to three keep the first recipes (A; A, B; A, B, C). Labels beyond
+ * C reuse the archetype and lens of A, B, C in turn with a directive asking
+ * for another take; they carry no stance plan, which stays specific to C.
+ */
+export function expandRecipesBundle(
+  bundle: VariantRecipesBundle,
+  count: number
+): VariantRecipesBundle {
+  const n = resolveVariantCount(count);
+  if (bundle.recipes.length === n) return bundle;
+
+  const recipes: VariantRecipe[] = [];
+  for (let i = 0; i < n; i++) {
+    const existing = bundle.recipes[i];
+    if (existing) {
+      recipes.push(existing);
+      continue;
+    }
+    const base = bundle.recipes[i % CORE_VARIANT_COUNT] ?? bundle.recipes[0];
+    const label = VARIANT_LABELS[i];
+    recipes.push({
+      ...base,
+      label,
+      archetype: base.archetype ? archetypeForLabel(label) : undefined,
+      directive: `${base.directive} (another take, distinct from Variant ${base.label})`.slice(
+        0,
+        200
+      ),
+      stance_plan: undefined,
+    });
+  }
+
+  return { ...bundle, recipes };
+}
+
 /**
  * Get or create variant recipes for a thread.
  *
- * This is the main entry point for recipe generation. It:
- * 1. Checks cache (both mode AND contextHash must match)
- * 2. Uses atomic lock to prevent duplicate generation
- * 3. Uses JSONB patch for safe state updates
+ * Returns one recipe per variant, using the thread's variant count
+ * (`guideAnswers.variantCount`, default three). The archetype recipes are
+ * cached per thread + mode as A/B/C and expanded on the way out, so changing
+ * the count never triggers a new generation.
  *
  * @param threadId - The thread to get/create recipes for
  * @param guideAnswers - User's translation preferences
@@ -1153,10 +1228,14 @@ export async function getOrCreateVariantRecipes(
     fullPoem: string;
     sourceLanguage: string;
     targetLanguage: string;
+    /** Project glossary; loaded for the thread when omitted */
+    glossary?: GlossaryEntry[];
   },
   mode: TranslationRangeMode,
   instrumentation?: TickInstrumentation
 ): Promise<VariantRecipesBundle> {
+  const variantCount = resolveVariantCount(guideAnswers.variantCount);
+
   // ─── SIMPLIFIED PROMPTS (default since v6, client direction from Matthew) ───
   // Static recipes: no LLM call, no cache, no lock. Instant return.
   // The old archetype-based LLM recipe generation (below) is preserved for
@@ -1170,7 +1249,12 @@ export async function getOrCreateVariantRecipes(
       poemHash
     );
     const { buildStaticRecipeBundle } = await import('./simplifiedRecipes');
-    const staticBundle = buildStaticRecipeBundle({ threadId, mode, contextHash });
+    const staticBundle = buildStaticRecipeBundle({
+      threadId,
+      mode,
+      contextHash,
+      variantCount,
+    });
 
     if (process.env.DEBUG_RECIPES === "1") {
       console.log(
@@ -1182,13 +1266,52 @@ export async function getOrCreateVariantRecipes(
   }
   // ─── End simplified prompts bypass ───
 
+  const bundle = await getOrCreateArchetypeRecipes(
+    threadId,
+    guideAnswers,
+    poemContext,
+    mode,
+    instrumentation
+  );
+  return expandRecipesBundle(bundle, variantCount);
+}
+
+/**
+ * Get or create the three archetype recipes (A, B, C) for a thread.
+ *
+ * 1. Checks cache (both mode AND contextHash must match)
+ * 2. Uses atomic lock to prevent duplicate generation
+ * 3. Uses JSONB patch for safe state updates
+ */
+async function getOrCreateArchetypeRecipes(
+  threadId: string,
+  guideAnswers: GuideAnswers,
+  poemContext: {
+    fullPoem: string;
+    sourceLanguage: string;
+    targetLanguage: string;
+    glossary?: GlossaryEntry[];
+  },
+  mode: TranslationRangeMode,
+  instrumentation?: TickInstrumentation
+): Promise<VariantRecipesBundle> {
+
+  // Glossary terms shape the recipes, so they are part of the context
+  if (!poemContext.glossary) {
+    poemContext = {
+      ...poemContext,
+      glossary: await loadGlossaryForThread(threadId),
+    };
+  }
+
   // Compute context hash for cache invalidation
   const poemHash = stableHash(poemContext.fullPoem);
   const contextHash = computeRecipeContextHash(
     guideAnswers,
     poemContext.sourceLanguage,
     poemContext.targetLanguage,
-    poemHash
+    poemHash,
+    poemContext.glossary
   );
 
   // Check memory cache first (fast path)
@@ -10,6 +10,10 @@ import {
   buildSimplifiedSystemPrompt,
   buildSimplifiedUserPrompt,
 } from "./simplifiedPrompts";
+import { formatGlossaryPromptBlock } from "./glossaryGate";
+import { variantCountWord } from "./variantCount";
+import type { GlossaryEntry } from "@/types/glossary";
+import type { SectionContext } from "@/lib/poem/sections";
 
 const LINE_CLOSENESS_DESCRIPTIONS = {
   close: "Stay as close as possible to the literal meaning",
@@ -367,6 +371,8 @@ export function buildLineTranslationPrompt(params: {
   fullPoem: string;
   stanzaIndex?: number;
   position?: { isFirst: boolean; isLast: boolean; isOnly: boolean };
+  /** Long-form works: the current section and an outline replace the full poem */
+  sectionContext?: SectionContext | null;
   guideAnswers: GuideAnswers;
   sourceLanguage: string;
   targetLanguage: string;
@@ -379,6 +385,7 @@ export function buildLineTranslationPrompt(params: {
     fullPoem,
     stanzaIndex,
     position = { isFirst: false, isLast: false, isOnly: false },
+    sectionContext,
     guideAnswers,
     sourceLanguage,
     targetLanguage,
@@ -406,6 +413,7 @@ Any non-JSON content will cause parsing errors.
     fullPoem,
     stanzaIndex,
     position,
+    sectionContext,
     personality,
     sourceLanguage,
     targetLanguage,
@@ -422,6 +430,7 @@ function buildLineTranslationUserPrompt(params: {
   fullPoem: string;
   stanzaIndex?: number;
   position: { isFirst: boolean; isLast: boolean; isOnly: boolean };
+  sectionContext?: SectionContext | null;
   personality: TranslatorPersonality;
   sourceLanguage: string;
   targetLanguage: string;
@@ -434,6 +443,7 @@ function buildLineTranslationUserPrompt(params: {
     fullPoem,
     stanzaIndex,
     position,
+    sectionContext,
     personality,
     sourceLanguage,
     targetLanguage,
@@ -450,6 +460,7 @@ function buildLineTranslationUserPrompt(params: {
       fullPoem,
       stanzaIndex,
       position,
+      sectionContext,
     })
   );
   sections.push(buildVariantDefinitions(personality));
@@ -548,6 +559,7 @@ function buildContextSection(params: {
   fullPoem: string;
   stanzaIndex?: number;
   position: { isFirst: boolean; isLast: boolean; isOnly: boolean };
+  sectionContext?: SectionContext | null;
 }): string {
   const {
     lineText,
@@ -557,6 +569,7 @@ function buildContextSection(params: {
     fullPoem,
     stanzaIndex,
     position,
+    sectionContext,
   } = params;
 
   const lineNumber = lineIndex + 1;
@@ -581,10 +594,19 @@ ${prevLine ? `Previous line: \"${prevLine}\"` : ""}
 Current line (TO TRANSLATE): \"${lineText}\"
 ${nextLine ? `Next line: \"${nextLine}\"` : ""}
 
-Full Poem:
+${
+  sectionContext
+    ? `${sectionContext.summary}
+
+Current Section:
 \"\"\"
-${fullPoem}
+${sectionContext.text}
+\"\"\"`
+    : `Full Poem:
 \"\"\"
+${fullPoem}
+\"\"\"`
+}
 `.trim();
 }
 
@@ -1086,7 +1108,7 @@ export function buildRecipePromptBlock(
     
     return `
 ═══════════════════════════════════════════════════════════════
-VARIANT RECIPES — THREE ARTISTIC APPROACHES
+VARIANT RECIPES — ${variantCountWord(recipes.length).toUpperCase()} ARTISTIC APPROACHES
 ═══════════════════════════════════════════════════════════════
 
 MODE: ${effectiveMode.toUpperCase()}
@@ -1096,7 +1118,7 @@ ${compressedRecipes}
 Lens configs:
 ${recipes.map((r) => `${r.label}: imagery=${r.lens?.imagery ?? "retain"}, voice=${r.lens?.voice ?? "retain"}, syntax=${r.lens?.syntax ?? "retain"}`).join("\n")}
 
-DIVERGENCE: Ensure A/B/C are meaningfully different in tone/style (not just wording).${comparisonRule}
+DIVERGENCE: Ensure ${recipes.map((r) => r.label).join("/")} are meaningfully different in tone/style (not just wording).${comparisonRule}
 
 ANCHORS: Follow ANCHOR RULES from system instructions above. Do not restate anchor instructions here.
 `.trim();
@@ -1174,7 +1196,7 @@ ${archetypeRules.map((rule) => `  • ${rule}`).join("\n")}`;
   // Full recipe format (original)
   return `
 ═══════════════════════════════════════════════════════════════
-VARIANT RECIPES — THREE ARTISTIC APPROACHES
+VARIANT RECIPES — ${variantCountWord(recipes.length).toUpperCase()} ARTISTIC APPROACHES
 ═══════════════════════════════════════════════════════════════
 
 These are NOT paraphrases of each other. Each variant represents a different
@@ -1221,33 +1243,54 @@ export function buildRecipeAwarePrismaticPrompt(params: {
   personality: TranslatorPersonality;
   currentTranslation?: string;
   context?: string;
+  /** Glossary entries that apply to this line (see selectGlossaryForLine) */
+  glossary?: GlossaryEntry[];
 }): { system: string; user: string } {
   // ─── SIMPLIFIED PROMPTS (default since v6, client direction from Matthew) ───
   // Source-text-centered prompts using Matthew's mode-specific variant instructions.
   // The old archetype-heavy prompt builder (below) is preserved for rollback
   // via USE_SIMPLIFIED_PROMPTS=0.
   if (process.env.USE_SIMPLIFIED_PROMPTS === "1") {
-    const { sourceText, recipes, personality, currentTranslation, context } =
-      params;
+    const {
+      sourceText,
+      recipes,
+      personality,
+      currentTranslation,
+      context,
+      glossary,
+    } = params;
     return {
-      system: buildSimplifiedSystemPrompt(),
+      system: buildSimplifiedSystemPrompt(recipes.recipes.length),
       user: buildSimplifiedUserPrompt({
         sourceText,
         mode: recipes.mode,
         personality,
         currentTranslation,
         context,
+        glossary,
+        variantCount: recipes.recipes.length,
       }),
     };
   }
   // ─── End simplified prompts branch ───
 
-  const { sourceText, recipes, personality, currentTranslation, context } =
+  const { sourceText, recipes, personality, currentTranslation, context, glossary } =
     params;
+  const labels = recipes.recipes.map((r) => r.label);
+  const outputExample = labels
+    .map(
+      (label) => `    {
+      "label": "${label}",
+      "text": "translation"
+    }`
+    )
+    .join(",\n");
 
   const systemPrompt = `You are a translation variant generator following specific recipes.
 
-Generate 3 distinct translation variants (A, B, C) for a single line of poetry.
+Generate ${labels.length} distinct translation variant${
+    labels.length === 1 ? "" : "s"
+  } (${labels.join(", ")}) for a single line of poetry.
 Each variant MUST follow its assigned recipe exactly.
 
 IMPORTANT RULES:
@@ -1258,7 +1301,7 @@ IMPORTANT RULES:
 - Follow recipe directives and archetype requirements (B shifts imagery, C shifts voice/stance)
 
 SILENT SELF-CHECK (do NOT mention this in output):
-1) Draft all 3 variants following their recipe directives.
+1) Draft all ${labels.length} variants following their recipe directives.
 2) If any two share the same opening structure or comparison template, rewrite one until they differ.
 3) Check comparison strategy constraints based on mode.
 4) Ensure semantic meaning is preserved but with lexical diversity.
@@ -1267,18 +1310,7 @@ SILENT SELF-CHECK (do NOT mention this in output):
 Output format (Strict schema - no extra fields allowed):
 {
   "variants": [
-    {
-      "label": "A",
-      "text": "translation"
-    },
-    {
-      "label": "B",
-      "text": "translation"
-    },
-    {
-      "label": "C",
-      "text": "translation"
-    }
+${outputExample}
   ]
 }
 
@@ -1340,6 +1372,12 @@ ${context}
     );
   }
 
+  // Project glossary: mandatory terminology for this line
+  const glossaryBlock = formatGlossaryPromptBlock(glossary ?? []);
+  if (glossaryBlock) {
+    userPromptParts.push(glossaryBlock);
+  }
+
   // Source line section
   userPromptParts.push(
     `
@@ -1385,10 +1423,13 @@ If the mode is balanced or adventurous, c_subject_form_used MUST NOT be "i".`}`
 ═══════════════════════════════════════════════════════════════
 TASK
 ═══════════════════════════════════════════════════════════════
-Generate 3 variants following the recipes above.
-- Variant A: Follow Recipe A (${recipes.recipes[0].directive.slice(0, 50)}...)
-- Variant B: Follow Recipe B (${recipes.recipes[1].directive.slice(0, 50)}...)
-- Variant C: Follow Recipe C (${recipes.recipes[2].directive.slice(0, 50)}...)
+Generate ${labels.length} variant${labels.length === 1 ? "" : "s"} following the recipes above.
+${recipes.recipes
+  .map(
+    (r) =>
+      `- Variant ${r.label}: Follow Recipe ${r.label} (${r.directive.slice(0, 50)}...)`
+  )
+  .join("\n")}
 ${stancePlanText}
 
 CRITICAL: Return ONLY valid JSON with the structure shown in system instructions.
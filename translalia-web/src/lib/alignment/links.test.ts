@@ -0,0 +1,157 @@
+/**
+ * Tests for word alignment links: reading model alignments, editing links,
+ * grouping them back into phrases and carrying them over to edited lines.
+ *
+ * Run with: npx vitest run src/lib/alignment/links.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import type { AlignedWord } from "@/types/lineTranslation";
+import {
+  alignmentForEdit,
+  confidenceLevel,
+  linksToWords,
+  remapAlignment,
+  toggleLink,
+  tokenizeLine,
+  wordsToLinks,
+} from "./links";
+
+const SOURCE = tokenizeLine("The cat sat on the mat");
+const TARGET = tokenizeLine("El gato se sentó en la alfombra");
+
+const MODEL_WORDS: AlignedWord[] = [
+  { original: "The", translation: "El", partOfSpeech: "article", position: 0 },
+  { original: "cat", translation: "gato", partOfSpeech: "noun", position: 1 },
+  { original: "sat", translation: "se sentó", partOfSpeech: "verb", position: 2 },
+  { original: "on", translation: "en", partOfSpeech: "preposition", position: 3 },
+  { original: "the", translation: "la", partOfSpeech: "article", position: 4 },
+  { original: "mat", translation: "alfombra", partOfSpeech: "noun", position: 5 },
+];
+
+describe("wordsToLinks", () => {
+  it("locates model phrases in the line when indices are missing", () => {
+    const links = wordsToLinks(MODEL_WORDS, SOURCE, TARGET);
+    expect(links.filter((l) => l.source === 2).map((l) => l.target)).toEqual([2, 3]);
+    expect(links.find((l) => l.source === 4)?.target).toBe(5);
+    expect(links.every((l) => l.confidence === 0.7 && !l.manual)).toBe(true);
+  });
+
+  it("marks phrases it cannot find whole as low confidence", () => {
+    const [link] = wordsToLinks(
+      [{ original: "cat", translation: "gatito", partOfSpeech: "noun", position: 1 }],
+      SOURCE,
+      TARGET
+    );
+    expect(link).toBeUndefined();
+    const partial = wordsToLinks(
+      [{ original: "cat", translation: "gato negro", partOfSpeech: "noun", position: 1 }],
+      SOURCE,
+      TARGET
+    );
+    expect(partial).toEqual([{ source: 1, target: 1, confidence: 0.4, manual: false }]);
+  });
+});
+
+describe("linksToWords", () => {
+  it("groups connected links into many-to-many phrases", () => {
+    const links = [
+      { source: 2, target: 2, confidence: 0.9, manual: false },
+      { source: 2, target: 3, confidence: 0.6, manual: false },
+      { source: 3, target: 3, confidence: 1, manual: true },
+      { source: 1, target: 1, confidence: 0.8, manual: false },
+    ];
+    const words = linksToWords(links, SOURCE, TARGET, MODEL_WORDS);
+    expect(words).toEqual([
+      {
+        original: "cat",
+        translation: "gato",
+        partOfSpeech: "noun",
+        position: 1,
+        sourceIndices: [1],
+        targetIndices: [1],
+        confidence: 0.8,
+        manual: false,
+      },
+      {
+        original: "sat on",
+        translation: "se sentó",
+        partOfSpeech: "verb",
+        position: 2,
+        sourceIndices: [2, 3],
+        targetIndices: [2, 3],
+        confidence: 1,
+        manual: true,
+      },
+    ]);
+  });
+
+  it("round-trips through links once indices are stored", () => {
+    const words = linksToWords(wordsToLinks(MODEL_WORDS, SOURCE, TARGET), SOURCE, TARGET);
+    expect(linksToWords(wordsToLinks(words, SOURCE, TARGET), SOURCE, TARGET)).toEqual(words);
+  });
+});
+
+describe("toggleLink", () => {
+  it("adds a manual link or removes an existing one", () => {
+    const added = toggleLink([], 0, 0);
+    expect(added).toEqual([{ source: 0, target: 0, confidence: 1, manual: true }]);
+    expect(toggleLink(added, 0, 0)).toEqual([]);
+  });
+});
+
+describe("remapAlignment", () => {
+  it("keeps links of unchanged words and hands reworded ones on with less confidence", () => {
+    const words = remapAlignment(
+      MODEL_WORDS,
+      "The cat sat on the mat",
+      "El gato se sentó en la alfombra",
+      "El gato se sentó sobre la estera"
+    );
+    const byOriginal = Object.fromEntries(words.map((w) => [w.original, w]));
+    expect(byOriginal.cat.translation).toBe("gato");
+    expect(byOriginal.cat.confidence).toBe(0.7);
+    expect(byOriginal.on.translation).toBe("sobre");
+    expect(byOriginal.on.confidence).toBeCloseTo(0.35);
+    expect(byOriginal.mat.translation).toBe("estera");
+  });
+
+  it("drops links to deleted words", () => {
+    const words = remapAlignment(
+      MODEL_WORDS,
+      "The cat sat on the mat",
+      "El gato se sentó en la alfombra",
+      "El gato se sentó"
+    );
+    expect(words.map((w) => w.original)).toEqual(["The", "cat", "sat"]);
+  });
+});
+
+describe("alignmentForEdit", () => {
+  it("carries over the alignment of the closest candidate", () => {
+    const manual = linksToWords(
+      toggleLink([], 5, 5),
+      SOURCE,
+      tokenizeLine("El gato duerme en la alfombra")
+    );
+    const words = alignmentForEdit("The cat sat on the mat", "El gato duerme en la estera", [
+      { text: "El gato se sentó en la alfombra", words: MODEL_WORDS },
+      { text: "El gato duerme en la alfombra", words: manual },
+    ]);
+    expect(words).toHaveLength(1);
+    expect(words[0]).toMatchObject({ original: "mat", translation: "estera", manual: false });
+  });
+
+  it("is empty without an aligned candidate", () => {
+    expect(alignmentForEdit("The cat", "El gato", [{ text: "El gato", words: [] }])).toEqual([]);
+  });
+});
+
+describe("confidenceLevel", () => {
+  it("buckets confidence for colouring", () => {
+    expect(confidenceLevel(0.9)).toBe("high");
+    expect(confidenceLevel(0.5)).toBe("medium");
+    expect(confidenceLevel(0.2)).toBe("low");
+    expect(confidenceLevel(0.2, true)).toBe("manual");
+  });
+});
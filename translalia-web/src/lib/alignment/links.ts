@@ -0,0 +1,344 @@
+/**
+ * Word Alignment Links
+ *
+ * An alignment is stored as `AlignedWord[]` (one entry per linked phrase),
+ * but edited as a set of token-to-token links: each link joins one
+ * whitespace token of the source line to one token of the translation.
+ * Links that share a token form one phrase, so any many-to-many alignment
+ * round-trips through `wordsToLinks` / `linksToWords`.
+ *
+ * Pure module: used by the alignment editor and by the save routes, which
+ * carry a line's alignment over to the user's edited text.
+ */
+
+import type { AlignedWord } from "@/types/lineTranslation";
+
+export interface AlignmentLink {
+  source: number;
+  target: number;
+  /** 0–1; 1 for links the user drew */
+  confidence: number;
+  manual: boolean;
+}
+
+export type ConfidenceLevel = "manual" | "high" | "medium" | "low";
+
+// Confidence given to model links that carry none, by how well their text
+// was found in the line
+const LOCATED_CONFIDENCE = 0.7;
+const PARTLY_LOCATED_CONFIDENCE = 0.4;
+
+// Links carried over to reworded tokens keep this share of their confidence
+const REWORDED_FACTOR = 0.5;
+const REWRITTEN_FACTOR = 0.3;
+
+export function tokenizeLine(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+function normalizeToken(token: string): string {
+  return token.toLocaleLowerCase().replace(/[\p{P}\p{S}]/gu, "");
+}
+
+/** Colour bucket for a link or phrase in the editor. */
+export function confidenceLevel(confidence: number | undefined, manual?: boolean): ConfidenceLevel {
+  if (manual) return "manual";
+  const value = confidence ?? LOCATED_CONFIDENCE;
+  if (value >= 0.75) return "high";
+  if (value >= 0.45) return "medium";
+  return "low";
+}
+
+/**
+ * Indices of `phrase`'s tokens in `tokens`: the first run that matches the
+ * whole phrase (preferring runs at or after `from` with no `used` tokens),
+ * else the tokens that match one by one.
+ */
+function locatePhrase(
+  phrase: string,
+  tokens: string[],
+  used: Set<number>,
+  from = 0
+): { indices: number[]; exact: boolean } {
+  const wanted = tokenizeLine(phrase).map(normalizeToken).filter(Boolean);
+  if (wanted.length === 0) return { indices: [], exact: false };
+  const normalized = tokens.map(normalizeToken);
+
+  const runMatches = (start: number) =>
+    wanted.every((word, offset) => normalized[start + offset] === word);
+  const starts = Array.from({ length: Math.max(0, tokens.length - wanted.length + 1) }, (_, i) => i);
+  const ordered = [
+    ...starts.filter((i) => i >= from),
+    ...starts.filter((i) => i < from),
+  ];
+  const free = ordered.find(
+    (start) => runMatches(start) && wanted.every((_, offset) => !used.has(start + offset))
+  );
+  const start = free ?? ordered.find(runMatches);
+  if (start !== undefined) {
+    return { indices: wanted.map((_, offset) => start + offset), exact: true };
+  }
+
+  const indices: number[] = [];
+  for (const word of wanted) {
+    const index = normalized.findIndex((token, i) => token === word && !indices.includes(i));
+    if (index !== -1) indices.push(index);
+  }
+  return { indices, exact: false };
+}
+
+function addLink(links: Map<string, AlignmentLink>, link: AlignmentLink) {
+  const key = `${link.source}:${link.target}`;
+  const existing = links.get(key);
+  links.set(
+    key,
+    existing
+      ? {
+          ...existing,
+          confidence: Math.max(existing.confidence, link.confidence),
+          manual: existing.manual || link.manual,
+        }
+      : link
+  );
+}
+
+/**
+ * Token links of a stored alignment. Entries without token indices (model
+ * output) are located by their text; their confidence falls back to how
+ * well that worked.
+ */
+export function wordsToLinks(
+  words: AlignedWord[],
+  sourceTokens: string[],
+  targetTokens: string[]
+): AlignmentLink[] {
+  const links = new Map<string, AlignmentLink>();
+  const usedSource = new Set<number>();
+  const usedTarget = new Set<number>();
+  let targetCursor = 0;
+
+  for (const word of words) {
+    let sources = word.sourceIndices;
+    let targets = word.targetIndices;
+    let exact = true;
+
+    if (!sources) {
+      const located = locatePhrase(word.original, sourceTokens, usedSource, word.position);
+      sources = located.indices.length
+        ? located.indices
+        : word.position < sourceTokens.length
+          ? [word.position]
+          : [];
+      exact &&= located.exact;
+    }
+    if (!targets) {
+      const located = locatePhrase(word.translation, targetTokens, usedTarget, targetCursor);
+      targets = located.indices;
+      exact &&= located.exact;
+    }
+
+    sources = sources.filter((i) => i >= 0 && i < sourceTokens.length);
+    targets = targets.filter((i) => i >= 0 && i < targetTokens.length);
+    sources.forEach((i) => usedSource.add(i));
+    targets.forEach((i) => usedTarget.add(i));
+    if (targets.length) targetCursor = Math.max(...targets) + 1;
+
+    const confidence =
+      word.confidence ?? (exact ? LOCATED_CONFIDENCE : PARTLY_LOCATED_CONFIDENCE);
+    for (const source of sources) {
+      for (const target of targets) {
+        addLink(links, { source, target, confidence, manual: word.manual === true });
+      }
+    }
+  }
+
+  return [...links.values()];
+}
+
+/**
+ * One `AlignedWord` per group of connected links, in source order. Parts of
+ * speech are kept from `previous` entries covering the same source tokens.
+ */
+export function linksToWords(
+  links: AlignmentLink[],
+  sourceTokens: string[],
+  targetTokens: string[],
+  previous: AlignedWord[] = []
+): AlignedWord[] {
+  // Union-find over source tokens (s) and target tokens (t)
+  const parent = new Map<string, string>();
+  const find = (node: string): string => {
+    const up = parent.get(node) ?? node;
+    if (up === node) return node;
+    const root = find(up);
+    parent.set(node, root);
+    return root;
+  };
+  for (const link of links) {
+    parent.set(find(`s${link.source}`), find(`t${link.target}`));
+  }
+
+  const groups = new Map<string, AlignmentLink[]>();
+  for (const link of links) {
+    const root = find(`s${link.source}`);
+    groups.set(root, [...(groups.get(root) ?? []), link]);
+  }
+
+  const partOfSpeech = (sources: number[]) =>
+    previous.find((word) =>
+      (word.sourceIndices ?? [word.position]).some((i) => sources.includes(i))
+    )?.partOfSpeech ?? "neutral";
+
+  const words = [...groups.values()].map((group): AlignedWord => {
+    const sources = [...new Set(group.map((l) => l.source))].sort((a, b) => a - b);
+    const targets = [...new Set(group.map((l) => l.target))].sort((a, b) => a - b);
+    const manual = group.some((l) => l.manual);
+    return {
+      original: sources.map((i) => sourceTokens[i]).join(" "),
+      translation: targets.map((i) => targetTokens[i]).join(" "),
+      partOfSpeech: partOfSpeech(sources),
+      position: sources[0],
+      sourceIndices: sources,
+      targetIndices: targets,
+      confidence: manual ? 1 : Math.min(...group.map((l) => l.confidence)),
+      manual,
+    };
+  });
+
+  return words.sort(
+    (a, b) => a.position - b.position || a.targetIndices![0] - b.targetIndices![0]
+  );
+}
+
+/** Add a user link between two tokens, or remove it when it exists. */
+export function toggleLink(links: AlignmentLink[], source: number, target: number): AlignmentLink[] {
+  const exists = links.some((l) => l.source === source && l.target === target);
+  if (exists) {
+    return links.filter((l) => !(l.source === source && l.target === target));
+  }
+  return [...links, { source, target, confidence: 1, manual: true }];
+}
+
+/** Drop every link of one source token. */
+export function unlinkSource(links: AlignmentLink[], source: number): AlignmentLink[] {
+  return links.filter((l) => l.source !== source);
+}
+
+/**
+ * Old → new token index for tokens kept in order between two versions of a
+ * line (longest common subsequence of normalized tokens).
+ */
+function matchTokens(before: string[], after: string[]): Array<number | null> {
+  const a = before.map(normalizeToken);
+  const b = after.map(normalizeToken);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const mapping: Array<number | null> = new Array(a.length).fill(null);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      mapping[i] = j;
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Carry an alignment over to an edited translation of the same source line.
+ * Kept tokens keep their links. A reworded stretch inherits the links of the
+ * stretch it replaced: one to one when both have the same number of tokens,
+ * otherwise every new token takes all of them. Inherited links are not
+ * manual and lose confidence, so the editor flags them for review.
+ */
+export function remapAlignment(
+  words: AlignedWord[],
+  sourceText: string,
+  previousTranslation: string,
+  nextTranslation: string
+): AlignedWord[] {
+  const sourceTokens = tokenizeLine(sourceText);
+  const before = tokenizeLine(previousTranslation);
+  const after = tokenizeLine(nextTranslation);
+  const links = wordsToLinks(words, sourceTokens, before);
+  const mapping = matchTokens(before, after);
+
+  // Stretches of replaced tokens between kept ones: [oldStart, oldEnd) → [newStart, newEnd)
+  const targetMap = new Map<number, Array<{ index: number; factor: number }>>();
+  let oldStart = 0;
+  let newStart = 0;
+  for (let i = 0; i <= before.length; i++) {
+    const kept = i < before.length ? mapping[i] : after.length;
+    if (kept === null) continue;
+
+    const oldCount = i - oldStart;
+    const newCount = kept - newStart;
+    if (oldCount > 0 && newCount > 0) {
+      for (let k = 0; k < oldCount; k++) {
+        const targets =
+          oldCount === newCount
+            ? [{ index: newStart + k, factor: REWORDED_FACTOR }]
+            : Array.from({ length: newCount }, (_, n) => ({
+                index: newStart + n,
+                factor: REWRITTEN_FACTOR,
+              }));
+        targetMap.set(oldStart + k, targets);
+      }
+    }
+    if (i < before.length) targetMap.set(i, [{ index: kept, factor: 1 }]);
+    oldStart = i + 1;
+    newStart = kept + 1;
+  }
+
+  const remapped = new Map<string, AlignmentLink>();
+  for (const link of links) {
+    for (const { index, factor } of targetMap.get(link.target) ?? []) {
+      addLink(remapped, {
+        source: link.source,
+        target: index,
+        confidence: factor === 1 ? link.confidence : link.confidence * factor,
+        manual: factor === 1 && link.manual,
+      });
+    }
+  }
+
+  return linksToWords([...remapped.values()], sourceTokens, after, words);
+}
+
+/**
+ * Alignment for a newly saved translation, carried over from whichever
+ * aligned candidate (the previously saved text, the line's variants) shares
+ * the most tokens with it. Empty when no candidate has an alignment.
+ */
+export function alignmentForEdit(
+  sourceText: string,
+  nextTranslation: string,
+  candidates: Array<{ text: string; words: AlignedWord[] }>
+): AlignedWord[] {
+  const after = tokenizeLine(nextTranslation);
+  let best: { text: string; words: AlignedWord[] } | null = null;
+  let bestShared = -1;
+  for (const candidate of candidates) {
+    if (candidate.words.length === 0) continue;
+    const shared = matchTokens(tokenizeLine(candidate.text), after).filter(
+      (index) => index !== null
+    ).length;
+    if (shared > bestShared) {
+      best = candidate;
+      bestShared = shared;
+    }
+  }
+  return best ? remapAlignment(best.words, sourceText, best.text, nextTranslation) : [];
+}
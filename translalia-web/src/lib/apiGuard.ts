@@ -5,6 +5,10 @@ import {
   type SupabaseClient,
 } from "@supabase/supabase-js";
 import { supabaseServer } from "@/lib/supabaseServer";
+import { getThreadAccess, type ThreadAccess } from "@/lib/collab/access";
+import { getClassRole, getSubmissionByThread } from "@/lib/classroom/store";
+import { isSubmissionLocked } from "@/lib/classroom/workflow";
+import type { ClassRole, Submission } from "@/types/classroom";
 
 type GuardOk = { user: { id: string }; sb: SupabaseClient };
 type GuardFail = { res: NextResponse };
@@ -57,3 +61,53 @@ export async function requireUser(
     ),
   };
 }
+
+function guardError(status: number, code: string, message: string): GuardFail {
+  return { res: NextResponse.json({ error: { code, message } }, { status }) };
+}
+
+/**
+ * Thread write access: the owner or a collaborator, and not while the thread
+ * is a submitted (or reviewed) assignment. Teachers can read their students'
+ * threads but never pass this check.
+ */
+export async function requireThreadWrite(
+  sb: SupabaseClient,
+  threadId: string,
+  userId: string
+): Promise<{ access: ThreadAccess; submission: Submission | null } | GuardFail> {
+  const access = await getThreadAccess(sb, threadId, userId);
+  if (!access) {
+    return guardError(404, "THREAD_NOT_FOUND", "Thread not found");
+  }
+
+  const submission = await getSubmissionByThread(sb, threadId);
+  if (submission && isSubmissionLocked(submission.status)) {
+    return guardError(
+      423,
+      "SUBMISSION_LOCKED",
+      "This translation has been submitted and is locked until it is returned"
+    );
+  }
+  return { access, submission };
+}
+
+/**
+ * Class access: "member" admits teachers and students, "teacher" only
+ * teachers. Non-members get 404 so class ids are not probeable.
+ */
+export async function requireClassRole(
+  sb: SupabaseClient,
+  classId: string,
+  userId: string,
+  required: "member" | "teacher"
+): Promise<{ role: ClassRole } | GuardFail> {
+  const role = await getClassRole(sb, classId, userId);
+  if (!role) {
+    return guardError(404, "CLASS_NOT_FOUND", "Class not found");
+  }
+  if (required === "teacher" && role !== "teacher") {
+    return guardError(403, "FORBIDDEN", "Only teachers can do this");
+  }
+  return { role };
+}
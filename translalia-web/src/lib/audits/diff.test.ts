@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { PromptAuditRecord } from "@/types/audits";
+import {
+  diffAudits,
+  diffFields,
+  diffLines,
+  flattenFields,
+  hasChanges,
+} from "./diff";
+
+describe("diffLines", () => {
+  it("returns a single equal block for identical text", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([{ op: "equal", text: "a\nb" }]);
+    expect(hasChanges(diffLines("a\nb", "a\nb"))).toBe(false);
+  });
+
+  it("marks changed lines as remove then add around the common ones", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+      { op: "equal", text: "a" },
+      { op: "remove", text: "b" },
+      { op: "add", text: "x" },
+      { op: "equal", text: "c" },
+    ]);
+  });
+
+  it("merges runs and handles empty sides", () => {
+    expect(diffLines("", "a\nb")).toEqual([{ op: "add", text: "a\nb" }]);
+    expect(diffLines("a\nb", "")).toEqual([{ op: "remove", text: "a\nb" }]);
+    expect(diffLines("", "")).toEqual([]);
+  });
+
+  it("keeps the longest common subsequence", () => {
+    const ops = diffLines("x\na\nb\nc", "a\nb\nc\ny");
+    expect(ops).toEqual([
+      { op: "remove", text: "x" },
+      { op: "equal", text: "a\nb\nc" },
+      { op: "add", text: "y" },
+    ]);
+  });
+
+  it("treats CRLF like LF", () => {
+    expect(hasChanges(diffLines("a\r\nb", "a\nb"))).toBe(false);
+  });
+});
+
+describe("flattenFields", () => {
+  it("flattens nested objects to dotted paths and keeps arrays whole", () => {
+    const flat = flattenFields({ gate: { pass: true, similarity: { ab: 0.4 } }, tags: [1, 2] });
+    expect([...flat.entries()]).toEqual([
+      ["gate.pass", true],
+      ["gate.similarity.ab", 0.4],
+      ["tags", [1, 2]],
+    ]);
+  });
+});
+
+describe("diffFields", () => {
+  it("lists differing paths sorted, treating missing as null", () => {
+    expect(
+      diffFields(
+        { model: "gpt-4o", gate: { pass: true, reason: null }, extra: null },
+        { model: "gpt-5", gate: { pass: false }, other: 1 }
+      )
+    ).toEqual([
+      { path: "gate.pass", a: true, b: false },
+      { path: "model", a: "gpt-4o", b: "gpt-5" },
+      { path: "other", a: null, b: 1 },
+    ]);
+  });
+
+  it("skips ignored paths and their children", () => {
+    expect(
+      diffFields(
+        { id: "a", createdAt: "x", params: { requestId: "1", lineIndex: 2 } },
+        { id: "b", createdAt: "y", params: { requestId: "2", lineIndex: 2 } },
+        ["id", "createdAt", "params"]
+      )
+    ).toEqual([]);
+  });
+
+  it("compares arrays by value", () => {
+    expect(diffFields({ f: ["a", "b"] }, { f: ["a", "b"] })).toEqual([]);
+    expect(diffFields({ f: ["a"] }, { f: ["b"] })).toHaveLength(1);
+  });
+});
+
+describe("diffAudits", () => {
+  const base: PromptAuditRecord = {
+    kind: "prompt",
+    id: "a",
+    createdAt: "2026-10-01T00:00:00Z",
+    stage: "line-verification-internal",
+    model: "gpt-5",
+    threadId: "t1",
+    projectId: null,
+    params: { lineIndex: 0, requestId: "r1", grade: { overall_score: 7 } },
+    promptSystem: "You are an evaluator.\nReturn JSON.",
+    promptUser: "Line: hello",
+    responseExcerpt: "{}",
+    redactions: [],
+    replayable: true,
+  };
+
+  it("diffs prompt texts and fields but not per-run noise", () => {
+    const other: PromptAuditRecord = {
+      ...base,
+      id: "b",
+      createdAt: "2026-10-02T00:00:00Z",
+      params: { lineIndex: 0, requestId: "r2", grade: { overall_score: 5 } },
+      promptSystem: "You are a strict evaluator.\nReturn JSON.",
+    };
+    const diff = diffAudits(base, other);
+    expect(diff.fields).toEqual([
+      { path: "params.grade.overall_score", a: 7, b: 5 },
+    ]);
+    expect(diff.text.system[0]).toEqual({
+      op: "remove",
+      text: "You are an evaluator.",
+    });
+    expect(hasChanges(diff.text.user)).toBe(false);
+  });
+});
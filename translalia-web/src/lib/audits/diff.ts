@@ -0,0 +1,122 @@
+/**
+ * Audit explorer diffs.
+ *
+ * Masked prompts are compared line by line (longest common subsequence), and
+ * audit records field by field over their flattened scalar paths. Pure
+ * functions only; loading lives in store.ts.
+ */
+
+import type {
+  AuditDiff,
+  AuditRecord,
+  FieldDiff,
+  TextDiffOp,
+} from "@/types/audits";
+import type { DiffSegment } from "@/types/revisions";
+import { diffTokens, lineTokens } from "@/lib/utils/textDiff";
+
+/** Its square caps the LCS table; larger prompt pairs are compared as one changed block */
+const MAX_DIFF_LINES = 2000;
+
+const OPS: Record<DiffSegment["type"], TextDiffOp["op"]> = {
+  equal: "equal",
+  delete: "remove",
+  insert: "add",
+};
+
+/** Line diff of `a` → `b`; consecutive lines with the same op are merged. */
+export function diffLines(a: string, b: string): TextDiffOp[] {
+  return diffTokens(a, b, {
+    tokenize: lineTokens,
+    separator: "\n",
+    maxCells: MAX_DIFF_LINES * MAX_DIFF_LINES,
+  }).map(({ type, text }) => ({ op: OPS[type], text }));
+}
+
+/** True when the diff has any added or removed line. */
+export function hasChanges(ops: TextDiffOp[]): boolean {
+  return ops.some((op) => op.op !== "equal");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten nested objects to dotted paths (`gate.similarity.ab`). Arrays are
+ * kept whole: their elements have no stable identity worth diffing apart.
+ */
+export function flattenFields(
+  value: Record<string, unknown>,
+  prefix = ""
+): Map<string, unknown> {
+  const out = new Map<string, unknown>();
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child)) {
+      for (const [p, v] of flattenFields(child, path)) out.set(p, v);
+    } else {
+      out.set(path, child);
+    }
+  }
+  return out;
+}
+
+/**
+ * Paths whose values differ between `a` and `b`, sorted. Missing and null
+ * count as the same; `ignore` lists paths (or path prefixes) to skip.
+ */
+export function diffFields(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+  ignore: string[] = []
+): FieldDiff[] {
+  const left = flattenFields(a);
+  const right = flattenFields(b);
+  const skip = (path: string) =>
+    ignore.some((p) => path === p || path.startsWith(`${p}.`));
+
+  const diffs: FieldDiff[] = [];
+  for (const path of new Set([...left.keys(), ...right.keys()])) {
+    if (skip(path)) continue;
+    const va = left.get(path) ?? null;
+    const vb = right.get(path) ?? null;
+    if (JSON.stringify(va) !== JSON.stringify(vb)) {
+      diffs.push({ path, a: va, b: vb });
+    }
+  }
+  return diffs.sort((x, y) => x.path.localeCompare(y.path));
+}
+
+/** Per-run noise that would show up in every diff */
+const IGNORED_AUDIT_FIELDS = [
+  "id",
+  "createdAt",
+  "promptSystem",
+  "promptUser",
+  "responseExcerpt",
+  "params.requestId",
+  "params.timestamp",
+  "params.duration",
+];
+
+/** Diff two audits of the same kind: masked prompt texts plus other fields. */
+export function diffAudits(a: AuditRecord, b: AuditRecord): AuditDiff {
+  const text: AuditDiff["text"] = {};
+  if (a.kind === "prompt" && b.kind === "prompt") {
+    text.system = diffLines(a.promptSystem, b.promptSystem);
+    text.user = diffLines(a.promptUser, b.promptUser);
+    text.response = diffLines(a.responseExcerpt ?? "", b.responseExcerpt ?? "");
+  }
+  return {
+    kind: a.kind,
+    a,
+    b,
+    text,
+    fields: diffFields(
+      a as unknown as Record<string, unknown>,
+      b as unknown as Record<string, unknown>,
+      IGNORED_AUDIT_FIELDS
+    ),
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Audit explorer - replay
+ *
+ * Re-runs a stored audit through today's prompt builders so prompt or
+ * pipeline changes can be judged on real inputs:
+ * - Track A grades rebuild their prompt from the stored promptParams, diff it
+ *   against the stored (masked) prompt and grade again.
+ * - Method 2 line audits re-translate the line from the thread's poem and
+ *   guide answers on a scratch thread id, so the replay shares no recipes
+ *   and writes no audit or trace onto the real thread.
+ * Other prompt audits keep only a masked, truncated prompt and cannot be
+ * rebuilt.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getClientForModel } from "@/lib/ai/openai";
+import { VERIFICATION_MODEL } from "@/lib/models";
+import {
+  buildVerificationPrompt,
+  type VerificationPromptParams,
+} from "@/lib/ai/verificationPrompts";
+import { maskPrompts } from "@/server/audit/mask";
+import { translateLineWithRecipesInternal } from "@/lib/translation/method2/translateLineWithRecipesInternal";
+import { loadThreadContext } from "@/lib/workshop/runTranslationTick";
+import { loadGlossaryForThread } from "@/lib/glossary/store";
+import type { TranslationRangeMode } from "@/lib/ai/variantRecipes";
+import type {
+  AuditRecord,
+  AuditReplayResult,
+  LineAuditRecord,
+  PromptAuditRecord,
+} from "@/types/audits";
+import type { TrackAGrade } from "@/types/verification";
+import type { LineTrace } from "@/types/lineTrace";
+import { diffLines } from "./diff";
+
+export class AuditNotReplayableError extends Error {
+  readonly code = "NOT_REPLAYABLE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditNotReplayableError";
+  }
+}
+
+function parseGrade(content: string | null | undefined): Partial<TrackAGrade> {
+  try {
+    return JSON.parse(content || "{}") as Partial<TrackAGrade>;
+  } catch {
+    return {};
+  }
+}
+
+async function replayGrade(audit: PromptAuditRecord): Promise<AuditReplayResult> {
+  if (!audit.replayable) {
+    throw new AuditNotReplayableError(
+      "Only Track A grades keep the inputs needed to rebuild their prompt"
+    );
+  }
+
+  const promptParams = audit.params.promptParams as VerificationPromptParams;
+  const stored = audit.params.grade as Partial<TrackAGrade>;
+  const prompt = buildVerificationPrompt(promptParams);
+  const masked = maskPrompts(prompt.system, prompt.user);
+  const maskedUser =
+    typeof masked.promptUserMasked === "string"
+      ? masked.promptUserMasked
+      : JSON.stringify(masked.promptUserMasked);
+
+  // Same request as /api/verification/grade-line
+  const response = await getClientForModel(
+    VERIFICATION_MODEL,
+    "line-verification-internal"
+  ).chat.completions.create({
+    model: VERIFICATION_MODEL,
+    messages: [
+      { role: "system", content: prompt.system },
+      { role: "user", content: prompt.user },
+    ],
+    response_format: { type: "json_object" },
+    temperature: 0.3,
+  });
+  const grade = parseGrade(response.choices[0]?.message.content);
+
+  return {
+    kind: "prompt",
+    stage: "line-verification-internal",
+    model: VERIFICATION_MODEL,
+    promptDiff: {
+      system: diffLines(audit.promptSystem, masked.promptSystemMasked),
+      user: diffLines(audit.promptUser, maskedUser),
+    },
+    original: {
+      overall: stored.overall_score ?? null,
+      scores: stored.scores ?? {},
+    },
+    replay: {
+      overall: grade.overall_score ?? null,
+      scores: grade.scores ?? {},
+    },
+  };
+}
+
+/** Final variants of the trace recorded by the audited run, if any. */
+async function loadAuditedVariants(
+  sb: SupabaseClient,
+  audit: LineAuditRecord
+): Promise<string[] | null> {
+  const { data, error } = await sb
+    .from("line_traces")
+    .select("trace")
+    .eq("thread_id", audit.threadId)
+    .eq("line_index", audit.lineIndex)
+    .order("created_at", { ascending: false })
+    .limit(20);
+  if (error) {
+    console.warn("[audits/replay] Failed to load line traces:", error.message);
+    return null;
+  }
+
+  // A run's trace and audit share the audit timestamp
+  const auditedAt = Date.parse(audit.createdAt);
+  const trace = ((data ?? []) as Array<{ trace: LineTrace }>)
+    .map((row) => row.trace)
+    .find((t) => t.method !== "method-1" && Date.parse(t.ts) === auditedAt);
+  return trace?.variants.final ?? null;
+}
+
+async function replayLine(
+  sb: SupabaseClient,
+  audit: LineAuditRecord,
+  authorizedEmail: string | null
+): Promise<AuditReplayResult> {
+  if (audit.lineIndex === null) {
+    throw new AuditNotReplayableError("Audit has no line index to replay");
+  }
+
+  const context = await loadThreadContext(audit.threadId, { authorizedEmail });
+  const lines = context.stanzaResult.stanzas.flatMap((s) => s.lines);
+  const lineText = lines[audit.lineIndex];
+  if (!lineText) {
+    throw new AuditNotReplayableError(
+      "The audited line is no longer in the thread's poem"
+    );
+  }
+
+  const targetLang = context.guideAnswers.targetLanguage?.lang?.trim();
+  const targetVariety = context.guideAnswers.targetLanguage?.variety?.trim();
+  const targetLanguage = targetLang
+    ? `${targetLang}${targetVariety ? ` (${targetVariety})` : ""}`
+    : "the target language";
+
+  const [result, originalVariants] = await Promise.all([
+    translateLineWithRecipesInternal({
+      threadId: randomUUID(),
+      lineIndex: audit.lineIndex,
+      lineText,
+      fullPoem: context.rawPoem,
+      stanzaIndex: audit.stanzaIndex ?? undefined,
+      prevLine: lines[audit.lineIndex - 1],
+      nextLine: lines[audit.lineIndex + 1],
+      // Same mode as the audited run, whatever the thread uses now
+      guideAnswers: {
+        ...context.guideAnswers,
+        translationRangeMode: audit.mode as TranslationRangeMode,
+      },
+      sourceLanguage: context.sourceLanguage,
+      targetLanguage,
+      model: audit.model,
+      // The scratch thread has no project, so pass the real one's glossary
+      glossary: await loadGlossaryForThread(audit.threadId),
+    }),
+    loadAuditedVariants(sb, audit),
+  ]);
+
+  const variants = result.translations.map((t) => t.fullText);
+  return {
+    kind: "line",
+    model: audit.model,
+    lineText,
+    original: {
+      gatePass: audit.gatePass,
+      gateReason: audit.gateReason,
+      regenPerformed: audit.regenPerformed,
+      variants: originalVariants,
+    },
+    replay: {
+      variants,
+      qualityMetadata: result.qualityMetadata ?? null,
+    },
+    variantDiffs: originalVariants
+      ? variants.map((v, i) => diffLines(originalVariants[i] ?? "", v))
+      : null,
+  };
+}
+
+/**
+ * Re-run `audit` against the current builders. Throws
+ * AuditNotReplayableError when the audit did not keep enough input.
+ */
+export async function replayAudit(
+  sb: SupabaseClient,
+  audit: AuditRecord,
+  opts: { authorizedEmail?: string | null } = {}
+): Promise<AuditReplayResult> {
+  return audit.kind === "prompt"
+    ? replayGrade(audit)
+    : replayLine(sb, audit, opts.authorizedEmail ?? null);
+}
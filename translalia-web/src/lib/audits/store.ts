@@ -0,0 +1,241 @@
+/**
+ * Audit explorer - persistence
+ *
+ * Reads `prompt_audits` (scoped by created_by) and `translation_audits`
+ * (through the search_translation_audits RPC, which keeps rows to the
+ * caller's threads). Every call takes the caller's Supabase client.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AuditFilters,
+  AuditKind,
+  AuditListResponse,
+  AuditRecord,
+  LineAuditRecord,
+  PromptAuditRecord,
+} from "@/types/audits";
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+interface PromptAuditRow {
+  id: string;
+  created_by: string;
+  project_id: string | null;
+  thread_id: string | null;
+  stage: string;
+  model: string;
+  params: Record<string, unknown> | null;
+  prompt_system: string | null;
+  prompt_user: { masked?: string } | string | null;
+  response_excerpt: string | null;
+  redactions: string[] | null;
+  created_at: string;
+}
+
+interface LineAuditRow {
+  id: string;
+  thread_id: string;
+  line_index: number | null;
+  stanza_index: number | null;
+  mode: string;
+  model: string;
+  recipe_cache_hit: string | null;
+  phase1_pass: boolean | null;
+  phase1_failed: string[] | null;
+  gate_pass: boolean;
+  gate_reason: string | null;
+  gate_failed_constraints: string[] | null;
+  gate_similarity: Record<string, number> | null;
+  regen_performed: boolean | null;
+  regen_reason: string | null;
+  regen_strategy: "single" | "salvage" | null;
+  regen_variant_label: string | null;
+  created_at: string;
+}
+
+const PROMPT_COLUMNS =
+  "id, created_by, project_id, thread_id, stage, model, params, prompt_system, prompt_user, response_excerpt, redactions, created_at";
+
+/**
+ * Track A grades keep their full prompt inputs in params, so the current
+ * builder can rebuild them. Every other stage stores only the masked,
+ * truncated prompt.
+ */
+export function isReplayablePromptAudit(params: Record<string, unknown>): boolean {
+  return (
+    typeof params.promptParams === "object" &&
+    params.promptParams !== null &&
+    typeof params.grade === "object" &&
+    params.grade !== null
+  );
+}
+
+function toPromptRecord(row: PromptAuditRow): PromptAuditRecord {
+  const params = row.params ?? {};
+  const requestedStage = params.requested_stage;
+  return {
+    kind: "prompt",
+    id: row.id,
+    createdAt: row.created_at,
+    stage: typeof requestedStage === "string" ? requestedStage : row.stage,
+    model: row.model,
+    threadId: row.thread_id,
+    projectId: row.project_id,
+    params,
+    promptSystem: row.prompt_system ?? "",
+    promptUser:
+      typeof row.prompt_user === "string"
+        ? row.prompt_user
+        : typeof row.prompt_user?.masked === "string"
+          ? row.prompt_user.masked
+          : JSON.stringify(row.prompt_user ?? {}, null, 2),
+    responseExcerpt: row.response_excerpt,
+    redactions: row.redactions ?? [],
+    replayable: isReplayablePromptAudit(params),
+  };
+}
+
+function toLineRecord(row: LineAuditRow): LineAuditRecord {
+  return {
+    kind: "line",
+    id: row.id,
+    createdAt: row.created_at,
+    threadId: row.thread_id,
+    lineIndex: row.line_index,
+    stanzaIndex: row.stanza_index,
+    mode: row.mode,
+    model: row.model,
+    recipeCacheHit: row.recipe_cache_hit,
+    phase1Pass: row.phase1_pass,
+    phase1Failed: row.phase1_failed,
+    gatePass: row.gate_pass,
+    gateReason: row.gate_reason,
+    gateFailedConstraints: row.gate_failed_constraints,
+    gateSimilarity: row.gate_similarity,
+    regenPerformed: row.regen_performed ?? false,
+    regenReason: row.regen_reason,
+    regenStrategy: row.regen_strategy,
+    regenVariantLabel: row.regen_variant_label,
+    // Replays need the poem and a line index to re-run the line
+    replayable: row.line_index !== null,
+  };
+}
+
+/** Drop characters that would break out of a PostgREST or() filter. */
+function filterLiteral(value: string): string {
+  return value.replace(/[,()*%\\"]/g, " ").trim();
+}
+
+async function listPromptAudits(
+  sb: SupabaseClient,
+  userId: string,
+  filters: AuditFilters,
+  limit: number
+): Promise<PromptAuditRecord[]> {
+  let query = sb
+    .from("prompt_audits")
+    .select(PROMPT_COLUMNS)
+    .eq("created_by", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (filters.stage) {
+    // The stored stage may be a normalized one; the caller's is in params
+    const stage = filterLiteral(filters.stage);
+    query = query.or(`stage.eq.${stage},params->>requested_stage.eq.${stage}`);
+  }
+  if (filters.model) query = query.eq("model", filters.model);
+  if (filters.threadId) query = query.eq("thread_id", filters.threadId);
+  if (filters.before) query = query.lt("created_at", filters.before);
+  const q = filters.q ? filterLiteral(filters.q) : "";
+  if (q) {
+    query = query.or(`prompt_system.ilike.*${q}*,response_excerpt.ilike.*${q}*`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`[audits] Failed to load prompt audits: ${error.message}`);
+  }
+  return ((data ?? []) as PromptAuditRow[]).map(toPromptRecord);
+}
+
+async function searchLineAudits(
+  sb: SupabaseClient,
+  args: {
+    threadId?: string;
+    model?: string;
+    gateReason?: string;
+    regenStrategy?: string;
+    auditId?: string;
+    before?: string;
+    limit: number;
+  }
+): Promise<LineAuditRecord[]> {
+  const { data, error } = await sb.rpc("search_translation_audits", {
+    p_thread_id: args.threadId ?? null,
+    p_model: args.model ?? null,
+    p_gate_reason: args.gateReason ?? null,
+    p_regen_strategy: args.regenStrategy ?? null,
+    p_audit_id: args.auditId ?? null,
+    p_before: args.before ?? null,
+    p_limit: args.limit,
+  });
+  if (error) {
+    throw new Error(`[audits] Failed to load line audits: ${error.message}`);
+  }
+  return ((data ?? []) as LineAuditRow[]).map(toLineRecord);
+}
+
+/**
+ * One page of the caller's audits, newest first. Filters that do not apply
+ * to the kind (gate reason on prompt audits, q on line audits) are ignored.
+ */
+export async function listAudits(
+  sb: SupabaseClient,
+  userId: string,
+  filters: AuditFilters
+): Promise<AuditListResponse> {
+  const limit = filters.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+  const audits: AuditRecord[] =
+    filters.kind === "prompt"
+      ? await listPromptAudits(sb, userId, filters, limit)
+      : await searchLineAudits(sb, {
+          threadId: filters.threadId,
+          model: filters.model,
+          gateReason: filters.gateReason,
+          regenStrategy: filters.regenStrategy,
+          before: filters.before,
+          limit,
+        });
+
+  return {
+    audits,
+    nextBefore:
+      audits.length === limit ? audits[audits.length - 1].createdAt : null,
+  };
+}
+
+/** One of the caller's audits, or null when it does not exist or is not theirs. */
+export async function loadAudit(
+  sb: SupabaseClient,
+  userId: string,
+  kind: AuditKind,
+  auditId: string
+): Promise<AuditRecord | null> {
+  if (kind === "line") {
+    const [audit] = await searchLineAudits(sb, { auditId, limit: 1 });
+    return audit ?? null;
+  }
+
+  const { data, error } = await sb
+    .from("prompt_audits")
+    .select(PROMPT_COLUMNS)
+    .eq("id", auditId)
+    .eq("created_by", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`[audits] Failed to load prompt audit: ${error.message}`);
+  }
+  return data ? toPromptRecord(data as PromptAuditRow) : null;
+}
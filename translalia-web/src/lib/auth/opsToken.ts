@@ -0,0 +1,38 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+function hasValidToken(req: NextRequest, expected: string): boolean {
+  const auth = req.headers.get("authorization") ?? "";
+  const token = auth.startsWith("Bearer ") ? auth.slice(7) : "";
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Guard for operator endpoints (metrics scrape, queue admin) that are called
+ * by tools rather than signed-in users.
+ *
+ * With `token` set, requires `Authorization: Bearer <token>` (401 otherwise).
+ * Without it, the endpoint is only available outside production (or with
+ * DEBUG_API_ENABLED=1) and answers 404 there. Returns null when allowed.
+ */
+export function requireOpsToken(
+  req: NextRequest,
+  token: string | undefined
+): NextResponse | null {
+  if (token) {
+    return hasValidToken(req, token)
+      ? null
+      : NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const explicitlyEnabled = process.env.DEBUG_API_ENABLED === "1";
+  const productionLike =
+    process.env.NODE_ENV === "production" ||
+    process.env.VERCEL_ENV === "production";
+  if (productionLike && !explicitlyEnabled) {
+    return NextResponse.json({ error: "Not available" }, { status: 404 });
+  }
+  return null;
+}
@@ -0,0 +1,84 @@
+/**
+ * Tests for cache backend selection, the memory backend's lock semantics
+ * and cache key families.
+ *
+ * Run with: npx vitest run src/lib/cache/backend.test.ts
+ */
+
+import { describe, expect, it } from "vitest";
+import { resolveCacheBackendName } from "./backend";
+import { createMemoryBackend } from "./memoryBackend";
+import { cacheKeyFamily, getCacheStats, recordCacheLookup, resetCacheStats } from "./stats";
+
+describe("resolveCacheBackendName", () => {
+  it("uses memory in development unless a backend is chosen", () => {
+    expect(resolveCacheBackendName({ NODE_ENV: "development", REDIS_URL: "redis://x" })).toBe("memory");
+    expect(resolveCacheBackendName({ NODE_ENV: "development", CACHE_BACKEND: "SQLite" })).toBe("sqlite");
+  });
+
+  it("picks the first configured shared backend in production", () => {
+    expect(
+      resolveCacheBackendName({
+        NODE_ENV: "production",
+        UPSTASH_REDIS_REST_URL: "https://x",
+        UPSTASH_REDIS_REST_TOKEN: "t",
+        REDIS_URL: "redis://x",
+      })
+    ).toBe("upstash");
+    expect(resolveCacheBackendName({ NODE_ENV: "production", REDIS_URL: "redis://x" })).toBe("redis");
+    expect(resolveCacheBackendName({ USE_REDIS_LOCK: "true", CACHE_SQLITE_PATH: "/tmp/c.db" })).toBe("sqlite");
+  });
+
+  it("refuses to run without a shared backend when one is required", () => {
+    expect(() => resolveCacheBackendName({ NODE_ENV: "production" })).toThrow(/shared cache backend/);
+    expect(() => resolveCacheBackendName({ USE_REDIS_LOCK: "true" })).toThrow(/USE_REDIS_LOCK/);
+    expect(resolveCacheBackendName({ NODE_ENV: "production", CACHE_BACKEND: "memory" })).toBe("memory");
+  });
+
+  it("rejects unknown backends", () => {
+    expect(() => resolveCacheBackendName({ CACHE_BACKEND: "memcached" })).toThrow(/not supported/);
+  });
+});
+
+describe("memory backend", () => {
+  it("acquires a lock once and releases it only with its token", async () => {
+    const backend = createMemoryBackend();
+    expect(await backend.set("lock", "a", 60, { nx: true })).toBe(true);
+    expect(await backend.set("lock", "b", 60, { nx: true })).toBe(false);
+    expect(await backend.deleteIfEquals("lock", "b")).toBe(false);
+    expect(await backend.expireIfEquals("lock", "b", 60)).toBe(-1);
+    expect(await backend.expireIfEquals("lock", "a", 60)).toBe(1);
+    expect(await backend.deleteIfEquals("lock", "a")).toBe(true);
+    expect(await backend.expireIfEquals("lock", "a", 60)).toBe(0);
+  });
+
+  it("expires entries after their TTL", async () => {
+    const backend = createMemoryBackend();
+    await backend.set("k", { n: 1 }, 0);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(await backend.get("k")).toBeNull();
+    expect(await backend.set("k", "again", 60, { nx: true })).toBe(true);
+  });
+});
+
+describe("cache stats", () => {
+  it("groups keys by their leading word segments", () => {
+    expect(cacheKeyFamily("suggestions:line:3f2a-11:0")).toBe("suggestions:line");
+    expect(cacheKeyFamily("recipes:6b1e0c2d-aaaa:balanced:ab12")).toBe("recipes");
+    expect(cacheKeyFamily("ai-assist-step-c:6b1e0c2d")).toBe("ai-assist-step-c");
+    expect(cacheKeyFamily("42:x")).toBe("other");
+  });
+
+  it("counts hits and misses per family", () => {
+    resetCacheStats();
+    recordCacheLookup("recipes:1:a", true);
+    recordCacheLookup("recipes:2:a", false);
+    recordCacheLookup("recipes:3:a", true);
+    recordCacheLookup("context:1:0:0", false);
+
+    expect(getCacheStats().families).toEqual([
+      { family: "recipes", hits: 2, misses: 1, hitRate: 2 / 3 },
+      { family: "context", hits: 0, misses: 1, hitRate: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Cache / Lock Backend
+ *
+ * `cacheGet` / `cacheSet` / `cacheDelete` and `lockHelper` (lib/ai/cache.ts)
+ * run on one of these backends:
+ *
+ * - `upstash`: Upstash Redis over REST (UPSTASH_REDIS_REST_URL / _TOKEN)
+ * - `redis`:   any Redis over TCP (REDIS_URL, e.g. redis://:pass@host:6379/0)
+ * - `sqlite`:  a local SQLite file (CACHE_SQLITE_PATH; needs Node 22.5+ for
+ *              node:sqlite, newer than the Node 20 the app otherwise targets)
+ * - `memory`:  an in-process Map, for development and single-process hosts
+ *
+ * CACHE_BACKEND picks one explicitly. Otherwise development uses memory,
+ * and production (or USE_REDIS_LOCK=true) uses the first configured shared
+ * backend in the order above — and refuses to start without one, since
+ * in-memory locks are not safe across processes.
+ *
+ * Only the cache and locks use these backends. The translation queue, fair
+ * scheduler, dead-letter queue, progress events and collaboration relay still
+ * need Upstash (`getUpstashRedis`); without it they run in memory in
+ * development and refuse to start in production.
+ */
+
+export type CacheBackendName = "upstash" | "redis" | "sqlite" | "memory";
+
+export const CACHE_BACKEND_NAMES: CacheBackendName[] = ["upstash", "redis", "sqlite", "memory"];
+
+/** Result of `expireIfEquals`: extended, key missing, or held by another token */
+export type ExpireResult = 1 | 0 | -1;
+
+/**
+ * Values go in and come out as JSON-compatible JS values; backends that
+ * store text serialize them.
+ */
+export interface CacheBackend {
+  readonly name: CacheBackendName;
+  get(key: string): Promise<unknown>;
+  /** Returns false only when `nx` is set and the key already exists */
+  set(key: string, value: unknown, ttlSec: number, opts?: { nx?: boolean }): Promise<boolean>;
+  del(key: string): Promise<void>;
+  /** Delete the key only while it still holds `token` (lock release) */
+  deleteIfEquals(key: string, token: string): Promise<boolean>;
+  /** Reset the TTL only while the key still holds `token` (lock heartbeat) */
+  expireIfEquals(key: string, token: string, ttlSec: number): Promise<ExpireResult>;
+}
+
+type Env = Record<string, string | undefined>;
+
+function isSharedRequired(env: Env): boolean {
+  return env.NODE_ENV === "production" || env.USE_REDIS_LOCK === "true";
+}
+
+/**
+ * Backend for the given environment. Throws when CACHE_BACKEND is invalid,
+ * or when a shared backend is required but none is configured.
+ */
+export function resolveCacheBackendName(env: Env = process.env): CacheBackendName {
+  const explicit = env.CACHE_BACKEND?.trim().toLowerCase();
+  if (explicit) {
+    if (!CACHE_BACKEND_NAMES.includes(explicit as CacheBackendName)) {
+      throw new Error(
+        `CACHE_BACKEND="${env.CACHE_BACKEND}" is not supported. ` +
+          `Use one of: ${CACHE_BACKEND_NAMES.join(", ")}.`
+      );
+    }
+    return explicit as CacheBackendName;
+  }
+
+  if (!isSharedRequired(env)) return "memory";
+
+  if (env.UPSTASH_REDIS_REST_URL && env.UPSTASH_REDIS_REST_TOKEN) return "upstash";
+  if (env.REDIS_URL) return "redis";
+  if (env.CACHE_SQLITE_PATH) return "sqlite";
+
+  throw new Error(
+    (env.USE_REDIS_LOCK === "true"
+      ? "USE_REDIS_LOCK=true is set but no shared cache backend is configured. "
+      : "A shared cache backend is required in production for atomic locking. ") +
+      "Set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN, REDIS_URL, or CACHE_SQLITE_PATH " +
+      "(or CACHE_BACKEND=memory for a single-process deployment). " +
+      "In-memory locks are not safe for multi-process/serverless environments."
+  );
+}
+
+let backendPromise: Promise<CacheBackend> | null = null;
+
+async function createBackend(name: CacheBackendName): Promise<CacheBackend> {
+  switch (name) {
+    case "upstash": {
+      const { createUpstashBackend } = await import("./upstashBackend");
+      return createUpstashBackend();
+    }
+    case "redis": {
+      const { createRedisBackend } = await import("./redisBackend");
+      return createRedisBackend(process.env.REDIS_URL ?? "redis://127.0.0.1:6379");
+    }
+    case "sqlite": {
+      const { createSqliteBackend } = await import("./sqliteBackend");
+      return createSqliteBackend(process.env.CACHE_SQLITE_PATH ?? ".cache/translalia-cache.sqlite");
+    }
+    case "memory": {
+      const { getMemoryBackend } = await import("./memoryBackend");
+      if (isSharedRequired(process.env)) {
+        console.warn(
+          "[cache] CACHE_BACKEND=memory: cache and locks are per-process (single-process deployments only)"
+        );
+      }
+      return getMemoryBackend();
+    }
+  }
+}
+
+/**
+ * The configured backend (created once per process). A failed creation is
+ * not cached, so the next call retries.
+ */
+export function getCacheBackend(): Promise<CacheBackend> {
+  if (!backendPromise) {
+    let name: CacheBackendName;
+    try {
+      name = resolveCacheBackendName();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    backendPromise = createBackend(name).catch((error) => {
+      backendPromise = null;
+      throw error;
+    });
+  }
+  return backendPromise;
+}
+
+/** Drop the cached backend; the next call re-reads the environment (tests). */
+export function resetCacheBackend(): void {
+  backendPromise = null;
+}
@@ -0,0 +1,59 @@
+import type { CacheBackend } from "./backend";
+
+/**
+ * In-process backend. Not shared between processes or serverless instances
+ * (each has its own memory, wiped after a short idle period), so it is the
+ * development default and an explicit opt-in elsewhere.
+ */
+export function createMemoryBackend(): CacheBackend {
+  const entries = new Map<string, { expires: number; value: unknown }>();
+
+  const read = (key: string): unknown => {
+    const item = entries.get(key);
+    if (!item) return null;
+    if (Date.now() > item.expires) {
+      entries.delete(key);
+      return null;
+    }
+    return item.value;
+  };
+
+  const write = (key: string, value: unknown, ttlSec: number) => {
+    entries.set(key, { expires: Date.now() + ttlSec * 1000, value });
+  };
+
+  return {
+    name: "memory",
+    async get(key) {
+      return read(key);
+    },
+    async set(key, value, ttlSec, opts) {
+      if (opts?.nx && read(key) !== null) return false;
+      write(key, value, ttlSec);
+      return true;
+    },
+    async del(key) {
+      entries.delete(key);
+    },
+    async deleteIfEquals(key, token) {
+      if (read(key) !== token) return false;
+      entries.delete(key);
+      return true;
+    },
+    async expireIfEquals(key, token, ttlSec) {
+      const current = read(key);
+      if (current === null) return 0;
+      if (current !== token) return -1;
+      write(key, token, ttlSec);
+      return 1;
+    },
+  };
+}
+
+let memoryBackend: CacheBackend | null = null;
+
+/** Process-wide memory backend, also the fallback when a shared backend errors. */
+export function getMemoryBackend(): CacheBackend {
+  memoryBackend ??= createMemoryBackend();
+  return memoryBackend;
+}
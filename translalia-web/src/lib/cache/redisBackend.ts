@@ -0,0 +1,180 @@
+import net from "node:net";
+import tls from "node:tls";
+import type { CacheBackend, ExpireResult } from "./backend";
+import { encodeCommand, RespError, RespParser, type RespValue } from "./resp";
+
+const COMMAND_TIMEOUT_MS = 5000;
+
+interface Pending {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Minimal pipelined Redis client over TCP (or TLS for rediss:// URLs).
+ * Connects lazily, authenticates and selects the database from the URL,
+ * and reconnects on the next command after the socket closes.
+ */
+export class RedisTcpClient {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private readonly pending: Pending[] = [];
+  private readonly url: URL;
+
+  constructor(url: string) {
+    this.url = new URL(url);
+    if (this.url.protocol !== "redis:" && this.url.protocol !== "rediss:") {
+      throw new Error(`REDIS_URL must start with redis:// or rediss:// (got ${this.url.protocol})`);
+    }
+  }
+
+  async command(...args: Array<string | number>): Promise<RespValue> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  close(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies arrive in order, so a lost reply desyncs the connection
+        this.fail(socket, new Error(`[cache:redis] ${args[0]} timed out`));
+      }, COMMAND_TIMEOUT_MS);
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    const port = Number(this.url.port || 6379);
+    const host = this.url.hostname || "127.0.0.1";
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket =
+        this.url.protocol === "rediss:"
+          ? tls.connect({ host, port, servername: host })
+          : net.createConnection({ host, port });
+      const parser = new RespParser();
+
+      socket.once(this.url.protocol === "rediss:" ? "secureConnect" : "connect", async () => {
+        try {
+          const username = decodeURIComponent(this.url.username);
+          const password = decodeURIComponent(this.url.password);
+          if (password) {
+            await this.expectOk(socket, username ? ["AUTH", username, password] : ["AUTH", password]);
+          }
+          const db = this.url.pathname.replace(/^\//, "");
+          if (db && db !== "0") await this.expectOk(socket, ["SELECT", db]);
+          this.socket = socket;
+          resolve(socket);
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        } finally {
+          this.connecting = null;
+        }
+      });
+      socket.on("data", (chunk: Buffer) => {
+        let replies: RespValue[];
+        try {
+          replies = parser.push(chunk);
+        } catch (error) {
+          this.fail(socket, error as Error);
+          return;
+        }
+        for (const reply of replies) {
+          const next = this.pending.shift();
+          if (!next) continue;
+          clearTimeout(next.timer);
+          if (reply instanceof RespError) next.reject(reply);
+          else next.resolve(reply);
+        }
+      });
+      socket.on("error", (error) => {
+        this.connecting = null;
+        reject(error);
+        this.fail(socket, error);
+      });
+      socket.on("close", () => {
+        if (this.socket === socket) this.socket = null;
+        this.fail(socket, new Error("[cache:redis] Connection closed"));
+      });
+    });
+    return this.connecting;
+  }
+
+  private async expectOk(socket: net.Socket, args: string[]): Promise<void> {
+    const reply = await this.send(socket, args);
+    if (reply !== "OK") throw new Error(`[cache:redis] ${args[0]} failed`);
+  }
+
+  /** Reject everything in flight and drop the connection. */
+  private fail(socket: net.Socket, error: Error): void {
+    if (this.socket === socket) this.socket = null;
+    socket.destroy();
+    for (const pending of this.pending.splice(0)) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+  }
+}
+
+const DELETE_IF_EQUALS = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+  else
+    return 0
+  end
+`;
+
+const EXPIRE_IF_EQUALS = `
+  local current = redis.call("get", KEYS[1])
+  if not current then
+    return 0
+  elseif current == ARGV[1] then
+    return redis.call("expire", KEYS[1], ARGV[2])
+  else
+    return -1
+  end
+`;
+
+/** Values are stored as JSON text, so lock tokens are compared as JSON too. */
+export function createRedisBackend(url: string): CacheBackend {
+  const redis = new RedisTcpClient(url);
+
+  return {
+    name: "redis",
+    async get(key) {
+      const value = await redis.command("GET", key);
+      return typeof value === "string" ? JSON.parse(value) : null;
+    },
+    async set(key, value, ttlSec, opts) {
+      const args: Array<string | number> = ["SET", key, JSON.stringify(value), "EX", ttlSec];
+      if (opts?.nx) args.push("NX");
+      return (await redis.command(...args)) === "OK";
+    },
+    async del(key) {
+      await redis.command("DEL", key);
+    },
+    async deleteIfEquals(key, token) {
+      return (await redis.command("EVAL", DELETE_IF_EQUALS, 1, key, JSON.stringify(token))) === 1;
+    },
+    async expireIfEquals(key, token, ttlSec) {
+      return (await redis.command(
+        "EVAL",
+        EXPIRE_IF_EQUALS,
+        1,
+        key,
+        JSON.stringify(token),
+        ttlSec
+      )) as ExpireResult;
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for RESP2 encoding/parsing and the TCP Redis client, against a fake
+ * server speaking the protocol on a local port.
+ *
+ * Run with: npx vitest run src/lib/cache/resp.test.ts
+ */
+
+import net from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { encodeCommand, RespError, RespParser } from "./resp";
+import { RedisTcpClient } from "./redisBackend";
+
+describe("encodeCommand", () => {
+  it("encodes arguments as bulk strings with byte lengths", () => {
+    expect(encodeCommand(["SET", "k", "héllo", "EX", 5]).toString()).toBe(
+      "*5\r\n$3\r\nSET\r\n$1\r\nk\r\n$6\r\nhéllo\r\n$2\r\nEX\r\n$1\r\n5\r\n"
+    );
+  });
+});
+
+describe("RespParser", () => {
+  it("parses every reply type", () => {
+    const parser = new RespParser();
+    const replies = parser.push(
+      Buffer.from("+OK\r\n-ERR bad\r\n:42\r\n$-1\r\n$5\r\nhello\r\n*2\r\n:1\r\n$1\r\nx\r\n")
+    );
+    expect(replies[0]).toBe("OK");
+    expect(replies[1]).toBeInstanceOf(RespError);
+    expect((replies[1] as RespError).message).toBe("ERR bad");
+    expect(replies.slice(2)).toEqual([42, null, "hello", [1, "x"]]);
+  });
+
+  it("waits for replies split across chunks", () => {
+    const parser = new RespParser();
+    expect(parser.push(Buffer.from("$11\r\nhello "))).toEqual([]);
+    expect(parser.push(Buffer.from("world\r\n*1\r\n"))).toEqual(["hello world"]);
+    expect(parser.push(Buffer.from(":7\r\n"))).toEqual([[7]]);
+  });
+});
+
+describe("RedisTcpClient", () => {
+  let server: net.Server | null = null;
+  let client: RedisTcpClient | null = null;
+
+  afterEach(async () => {
+    client?.close();
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+    client = null;
+  });
+
+  /** Fake server: records commands and answers each with `reply(args)`. */
+  async function startServer(reply: (args: string[]) => string): Promise<{ port: number; seen: string[][] }> {
+    const seen: string[][] = [];
+    server = net.createServer((socket) => {
+      const parser = new RespParser();
+      socket.on("data", (chunk) => {
+        for (const command of parser.push(chunk)) {
+          const args = command as string[];
+          seen.push(args);
+          socket.write(reply(args));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+    return { port: (server!.address() as net.AddressInfo).port, seen };
+  }
+
+  it("authenticates, selects the database and pipelines commands in order", async () => {
+    const { port, seen } = await startServer((args) =>
+      args[0] === "GET" ? `$${args[1].length}\r\n${args[1]}\r\n` : "+OK\r\n"
+    );
+    client = new RedisTcpClient(`redis://:secret@127.0.0.1:${port}/2`);
+
+    const results = await Promise.all([client.command("GET", "a"), client.command("GET", "bb")]);
+
+    expect(results).toEqual(["a", "bb"]);
+    expect(seen.slice(0, 2)).toEqual([["AUTH", "secret"], ["SELECT", "2"]]);
+  });
+
+  it("rejects with the server's error reply", async () => {
+    const { port } = await startServer(() => "-WRONGTYPE nope\r\n");
+    client = new RedisTcpClient(`redis://127.0.0.1:${port}`);
+
+    await expect(client.command("GET", "a")).rejects.toThrow("WRONGTYPE nope");
+  });
+});
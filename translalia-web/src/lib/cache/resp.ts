@@ -0,0 +1,89 @@
+/**
+ * RESP2 (Redis serialization protocol) encoding and incremental parsing for
+ * the TCP Redis backend. Only the reply types Redis 6/7 send to RESP2
+ * clients are handled: simple strings, errors, integers, bulk strings and
+ * arrays.
+ */
+
+export type RespValue = string | number | null | RespError | RespValue[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RespError";
+  }
+}
+
+/** Encode one command as a RESP array of bulk strings. */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(""));
+}
+
+const INCOMPLETE = Symbol("incomplete");
+
+/**
+ * Feed socket chunks with `push()`; every complete reply is returned in
+ * order, partial replies wait for the next chunk.
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): RespValue[] {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const replies: RespValue[] = [];
+    for (;;) {
+      const result = this.read(0);
+      if (result === INCOMPLETE) break;
+      replies.push(result.value);
+      this.buffer = this.buffer.subarray(result.end);
+      if (this.buffer.length === 0) break;
+    }
+    return replies;
+  }
+
+  private read(offset: number): { value: RespValue; end: number } | typeof INCOMPLETE {
+    const lineEnd = this.buffer.indexOf("\r\n", offset);
+    if (lineEnd === -1) return INCOMPLETE;
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString("utf8", offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case "+":
+        return { value: line, end: next };
+      case "-":
+        return { value: new RespError(line), end: next };
+      case ":":
+        return { value: Number(line), end: next };
+      case "$": {
+        const length = Number(line);
+        if (length === -1) return { value: null, end: next };
+        if (this.buffer.length < next + length + 2) return INCOMPLETE;
+        return {
+          value: this.buffer.toString("utf8", next, next + length),
+          end: next + length + 2,
+        };
+      }
+      case "*": {
+        const count = Number(line);
+        if (count === -1) return { value: null, end: next };
+        const items: RespValue[] = [];
+        let end = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.read(end);
+          if (item === INCOMPLETE) return INCOMPLETE;
+          items.push(item.value);
+          end = item.end;
+        }
+        return { value: items, end };
+      }
+      default:
+        throw new RespError(`Unexpected RESP type byte: ${JSON.stringify(type)}`);
+    }
+  }
+}
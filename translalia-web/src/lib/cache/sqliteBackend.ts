@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { CacheBackend } from "./backend";
+
+/** The parts of node:sqlite (Node 22.5+) the backend uses */
+interface SqliteStatement {
+  run(...params: Array<string | number>): { changes: number | bigint };
+  get(...params: Array<string | number>): Record<string, unknown> | undefined;
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+}
+
+interface SqliteModule {
+  DatabaseSync: new (location: string) => SqliteDatabase;
+}
+
+// Expired rows are swept after this many writes
+const SWEEP_EVERY_WRITES = 500;
+
+async function loadSqlite(): Promise<SqliteModule> {
+  // Loaded at runtime: node:sqlite only exists on Node 22.5+
+  const specifier = "node:sqlite";
+  try {
+    return (await import(/* webpackIgnore: true */ specifier)) as SqliteModule;
+  } catch (error) {
+    throw new Error(
+      `CACHE_BACKEND=sqlite needs Node.js 22.5 or later (node:sqlite); running ${process.version}. ` +
+        `Cause: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * SQLite-file backend for self-hosted single-machine deployments. Processes
+ * on the same machine share the file, and every operation is a single
+ * statement, so locks stay atomic across them (WAL mode, busy timeout).
+ */
+export async function createSqliteBackend(file: string): Promise<CacheBackend> {
+  const { DatabaseSync } = await loadSqlite();
+  if (file !== ":memory:") fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+
+  const db = new DatabaseSync(file);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA busy_timeout = 5000;
+    CREATE TABLE IF NOT EXISTS cache_entries (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    );
+  `);
+
+  const selectLive = db.prepare(
+    "SELECT value FROM cache_entries WHERE key = ? AND expires_at > ?"
+  );
+  const upsert = db.prepare(
+    `INSERT INTO cache_entries (key, value, expires_at) VALUES (?, ?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`
+  );
+  // Only replaces an expired row
+  const insertIfAbsent = db.prepare(
+    `INSERT INTO cache_entries (key, value, expires_at) VALUES (?, ?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at
+     WHERE cache_entries.expires_at <= ?`
+  );
+  const remove = db.prepare("DELETE FROM cache_entries WHERE key = ?");
+  const removeIfEquals = db.prepare(
+    "DELETE FROM cache_entries WHERE key = ? AND value = ? AND expires_at > ?"
+  );
+  const expireIfEquals = db.prepare(
+    "UPDATE cache_entries SET expires_at = ? WHERE key = ? AND value = ? AND expires_at > ?"
+  );
+  const sweep = db.prepare("DELETE FROM cache_entries WHERE expires_at <= ?");
+
+  let writes = 0;
+  const afterWrite = () => {
+    writes += 1;
+    if (writes % SWEEP_EVERY_WRITES === 0) sweep.run(Date.now());
+  };
+
+  return {
+    name: "sqlite",
+    async get(key) {
+      const row = selectLive.get(key, Date.now());
+      return row ? JSON.parse(String(row.value)) : null;
+    },
+    async set(key, value, ttlSec, opts) {
+      const now = Date.now();
+      const expires = now + ttlSec * 1000;
+      const json = JSON.stringify(value);
+      const result = opts?.nx
+        ? insertIfAbsent.run(key, json, expires, now)
+        : upsert.run(key, json, expires);
+      afterWrite();
+      return Number(result.changes) > 0;
+    },
+    async del(key) {
+      remove.run(key);
+    },
+    async deleteIfEquals(key, token) {
+      return Number(removeIfEquals.run(key, JSON.stringify(token), Date.now()).changes) > 0;
+    },
+    async expireIfEquals(key, token, ttlSec) {
+      const now = Date.now();
+      const updated = expireIfEquals.run(now + ttlSec * 1000, key, JSON.stringify(token), now);
+      if (Number(updated.changes) > 0) return 1;
+      return selectLive.get(key, now) ? -1 : 0;
+    },
+  };
+}
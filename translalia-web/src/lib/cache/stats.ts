@@ -0,0 +1,72 @@
+import { recordCacheHit, recordCacheMiss } from "@/lib/telemetry/metricsCollector";
+
+/**
+ * Cache hit/miss counters per key family, since process start. Lookups also
+ * feed the aggregated metrics window (`recordCacheHit` / `recordCacheMiss`),
+ * which is flushed and reset periodically; these totals are not.
+ */
+
+export interface CacheFamilyStats {
+  family: string;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0 when unused */
+  hitRate: number;
+}
+
+export interface CacheStats {
+  since: string;
+  families: CacheFamilyStats[];
+}
+
+let since = Date.now();
+const counters = new Map<string, { hits: number; misses: number }>();
+
+// Leading segments that name a family: lowercase words, not ids or hashes
+const FAMILY_SEGMENT = /^[a-z][a-z-]*$/;
+const MAX_FAMILY_SEGMENTS = 2;
+
+/**
+ * Family of a cache key: its leading word segments, e.g.
+ * `suggestions:line:<threadId>:…` → `suggestions:line`,
+ * `recipes:<threadId>:…` → `recipes`.
+ */
+export function cacheKeyFamily(key: string): string {
+  const segments = key.split(":");
+  const family: string[] = [];
+  for (const segment of segments.slice(0, MAX_FAMILY_SEGMENTS)) {
+    if (!FAMILY_SEGMENT.test(segment)) break;
+    family.push(segment);
+  }
+  return family.length ? family.join(":") : "other";
+}
+
+export function recordCacheLookup(key: string, hit: boolean): void {
+  const family = cacheKeyFamily(key);
+  const counter = counters.get(family) ?? { hits: 0, misses: 0 };
+  if (hit) {
+    counter.hits += 1;
+    recordCacheHit(family);
+  } else {
+    counter.misses += 1;
+    recordCacheMiss(family);
+  }
+  counters.set(family, counter);
+}
+
+/** Totals per family, busiest first. */
+export function getCacheStats(): CacheStats {
+  const families = [...counters.entries()].map(([family, { hits, misses }]) => ({
+    family,
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+  }));
+  families.sort((a, b) => b.hits + b.misses - (a.hits + a.misses) || a.family.localeCompare(b.family));
+  return { since: new Date(since).toISOString(), families };
+}
+
+export function resetCacheStats(): void {
+  counters.clear();
+  since = Date.now();
+}
@@ -0,0 +1,108 @@
+import type { CacheBackend, ExpireResult } from "./backend";
+
+/** The parts of the @upstash/redis client the backend uses */
+interface UpstashClient {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, opts: { ex: number; nx?: boolean }): Promise<string | null>;
+  del(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+}
+
+let client: UpstashClient | null = null;
+
+/**
+ * Upstash REST client (lazy singleton), or null when UPSTASH_REDIS_REST_URL /
+ * UPSTASH_REDIS_REST_TOKEN are not set. Shared with the queues and relays
+ * that use Upstash directly (see `getUpstashRedis`).
+ */
+export async function getUpstashClient(): Promise<UpstashClient | null> {
+  if (client) return client;
+  if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
+    return null;
+  }
+  const { Redis } = await import("@upstash/redis");
+  client = new Redis({
+    url: process.env.UPSTASH_REDIS_REST_URL,
+    token: process.env.UPSTASH_REDIS_REST_TOKEN,
+  }) as unknown as UpstashClient;
+  return client;
+}
+
+// Only act while the key still holds our token
+const DELETE_IF_EQUALS = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+  else
+    return 0
+  end
+`;
+
+const EXPIRE_IF_EQUALS = `
+  local current = redis.call("get", KEYS[1])
+  if not current then
+    return 0
+  elseif current == ARGV[1] then
+    return redis.call("expire", KEYS[1], ARGV[2])
+  else
+    return -1
+  end
+`;
+
+/**
+ * Upstash serializes values to JSON itself. Lock tokens are plain strings,
+ * which it stores as-is, so the Lua scripts compare them directly.
+ */
+export async function createUpstashBackend(): Promise<CacheBackend> {
+  const redis = await getUpstashClient();
+  if (!redis) {
+    throw new Error(
+      "CACHE_BACKEND=upstash requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN"
+    );
+  }
+
+  return {
+    name: "upstash",
+    async get(key) {
+      const value = await redis.get(key);
+      if (typeof value !== "string") return value ?? null;
+      // Older entries may hold JSON text
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    },
+    async set(key, value, ttlSec, opts) {
+      const result = await redis.set(key, value, { ex: ttlSec, ...(opts?.nx ? { nx: true } : {}) });
+      return !opts?.nx || result === "OK";
+    },
+    async del(key) {
+      await redis.del(key);
+    },
+    async deleteIfEquals(key, token) {
+      try {
+        return Number(await redis.eval(DELETE_IF_EQUALS, [key], [token])) === 1;
+      } catch {
+        // Check-then-delete when eval is unavailable (not atomic)
+        if ((await redis.get(key)) !== token) return false;
+        await redis.del(key);
+        return true;
+      }
+    },
+    async expireIfEquals(key, token, ttlSec) {
+      try {
+        return Number(
+          await redis.eval(EXPIRE_IF_EQUALS, [key], [token, String(ttlSec)])
+        ) as ExpireResult;
+      } catch (error) {
+        console.warn("[cache:upstash] Lua eval failed, using fallback:", error);
+        const current = await redis.get(key);
+        if (current === null) return 0;
+        if (current !== token) return -1;
+        await redis.expire(key, ttlSec);
+        return 1;
+      }
+    },
+  };
+}
@@ -0,0 +1,588 @@
+/**
+ * Classroom - persistence
+ *
+ * Reads and writes `classes`, `class_members`, `assignments`,
+ * `assignment_submissions` and `submission_comments`. Every call takes the
+ * caller's Supabase client so RLS limits students to their own work and
+ * teachers to their classes.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Assignment,
+  AssignmentGuideDefaults,
+  ClassMember,
+  ClassRole,
+  ClassSummary,
+  Submission,
+  SubmissionComment,
+  SubmissionStatus,
+} from "@/types/classroom";
+import {
+  generateJoinCode,
+  guideDefaultsToColumns,
+  isSubmissionLocked,
+} from "./workflow";
+
+interface ClassRow {
+  id: string;
+  name: string;
+  join_code: string;
+  created_at: string;
+}
+
+interface AssignmentRow {
+  id: string;
+  class_id: string;
+  title: string;
+  instructions: string | null;
+  source_poem: string;
+  guide_defaults: Partial<AssignmentGuideDefaults> | null;
+  due_at: string | null;
+  created_at: string;
+}
+
+interface SubmissionRow {
+  id: string;
+  assignment_id: string;
+  student_id: string;
+  thread_id: string;
+  status: SubmissionStatus;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  feedback: string | null;
+  created_at: string;
+}
+
+interface CommentRow {
+  id: string;
+  submission_id: string;
+  line_index: number | null;
+  body: string;
+  author_id: string;
+  created_at: string;
+}
+
+interface RosterRow {
+  user_id: string;
+  role: ClassRole;
+  display_name: string | null;
+  email: string | null;
+  joined_at: string;
+}
+
+const CLASS_COLUMNS = "id, name, join_code, created_at";
+const ASSIGNMENT_COLUMNS =
+  "id, class_id, title, instructions, source_poem, guide_defaults, due_at, created_at";
+const SUBMISSION_COLUMNS =
+  "id, assignment_id, student_id, thread_id, status, submitted_at, reviewed_at, feedback, created_at";
+const COMMENT_COLUMNS = "id, submission_id, line_index, body, author_id, created_at";
+const JOIN_CODE_ATTEMPTS = 3;
+
+function rowToClass(row: ClassRow, role: ClassRole): ClassSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    role,
+    joinCode: role === "teacher" ? row.join_code : null,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToAssignment(row: AssignmentRow): Assignment {
+  return {
+    id: row.id,
+    classId: row.class_id,
+    title: row.title,
+    instructions: row.instructions,
+    sourcePoem: row.source_poem,
+    guideDefaults: row.guide_defaults ?? {},
+    dueAt: row.due_at,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToSubmission(row: SubmissionRow): Submission {
+  return {
+    id: row.id,
+    assignmentId: row.assignment_id,
+    studentId: row.student_id,
+    threadId: row.thread_id,
+    status: row.status,
+    submittedAt: row.submitted_at,
+    reviewedAt: row.reviewed_at,
+    feedback: row.feedback,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToComment(row: CommentRow): SubmissionComment {
+  return {
+    id: row.id,
+    submissionId: row.submission_id,
+    lineIndex: row.line_index,
+    body: row.body,
+    authorId: row.author_id,
+    createdAt: row.created_at,
+  };
+}
+
+// =============================================================================
+// Classes
+// =============================================================================
+
+/**
+ * Classes the user teaches or attends, newest first.
+ */
+export async function listClasses(
+  sb: SupabaseClient,
+  userId: string
+): Promise<ClassSummary[]> {
+  const { data: memberships, error } = await sb
+    .from("class_members")
+    .select("class_id, role")
+    .eq("user_id", userId);
+  if (error) {
+    throw new Error(`[classroom] Failed to list memberships: ${error.message}`);
+  }
+
+  const roles = new Map(
+    ((memberships ?? []) as Array<{ class_id: string; role: ClassRole }>).map((m) => [
+      m.class_id,
+      m.role,
+    ])
+  );
+  if (roles.size === 0) return [];
+
+  const { data, error: classError } = await sb
+    .from("classes")
+    .select(CLASS_COLUMNS)
+    .in("id", [...roles.keys()])
+    .order("created_at", { ascending: false });
+  if (classError) {
+    throw new Error(`[classroom] Failed to list classes: ${classError.message}`);
+  }
+
+  return ((data ?? []) as ClassRow[]).map((row) =>
+    rowToClass(row, roles.get(row.id) ?? "student")
+  );
+}
+
+/**
+ * Create a class with a fresh join code; the creator becomes its teacher.
+ */
+export async function createClass(
+  sb: SupabaseClient,
+  userId: string,
+  name: string
+): Promise<ClassSummary> {
+  for (let attempt = 1; attempt <= JOIN_CODE_ATTEMPTS; attempt++) {
+    const { data, error } = await sb
+      .from("classes")
+      .insert({ name, join_code: generateJoinCode(), created_by: userId })
+      .select(CLASS_COLUMNS)
+      .single();
+
+    // Join code already taken: try another
+    if (error?.code === "23505" && attempt < JOIN_CODE_ATTEMPTS) continue;
+    if (error || !data) {
+      throw new Error(`[classroom] Failed to create class: ${error?.message}`);
+    }
+
+    const { error: memberError } = await sb
+      .from("class_members")
+      .insert({ class_id: data.id, user_id: userId, role: "teacher" });
+    if (memberError) {
+      await sb.from("classes").delete().eq("id", data.id);
+      throw new Error(`[classroom] Failed to add the teacher: ${memberError.message}`);
+    }
+    return rowToClass(data as ClassRow, "teacher");
+  }
+  throw new Error("[classroom] Failed to create class: no free join code");
+}
+
+/**
+ * Join a class by code. Returns the class id, or null for an unknown code.
+ */
+export async function joinClass(
+  sb: SupabaseClient,
+  joinCode: string
+): Promise<string | null> {
+  const { data, error } = await sb.rpc("join_class", { p_join_code: joinCode });
+  if (error) {
+    throw new Error(`[classroom] Failed to join class: ${error.message}`);
+  }
+  return (data as string | null) ?? null;
+}
+
+/**
+ * The user's role in a class, or null when they are not a member.
+ */
+export async function getClassRole(
+  sb: SupabaseClient,
+  classId: string,
+  userId: string
+): Promise<ClassRole | null> {
+  const { data, error } = await sb
+    .from("class_members")
+    .select("role")
+    .eq("class_id", classId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`[classroom] Failed to load membership: ${error.message}`);
+  }
+  return (data?.role as ClassRole | undefined) ?? null;
+}
+
+export async function getClass(
+  sb: SupabaseClient,
+  classId: string,
+  role: ClassRole
+): Promise<ClassSummary | null> {
+  const { data, error } = await sb
+    .from("classes")
+    .select(CLASS_COLUMNS)
+    .eq("id", classId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`[classroom] Failed to load class: ${error.message}`);
+  }
+  return data ? rowToClass(data as ClassRow, role) : null;
+}
+
+/**
+ * Members of a class with display names, teachers first.
+ */
+export async function listClassMembers(
+  sb: SupabaseClient,
+  classId: string
+): Promise<ClassMember[]> {
+  const { data, error } = await sb.rpc("class_roster", { p_class_id: classId });
+  if (error) {
+    throw new Error(`[classroom] Failed to load roster: ${error.message}`);
+  }
+  return ((data ?? []) as RosterRow[]).map((row) => ({
+    userId: row.user_id,
+    role: row.role,
+    displayName: row.display_name,
+    email: row.email,
+    joinedAt: row.joined_at,
+  }));
+}
+
+// =============================================================================
+// Assignments
+// =============================================================================
+
+export async function listAssignments(
+  sb: SupabaseClient,
+  classId: string
+): Promise<Assignment[]> {
+  const { data, error } = await sb
+    .from("assignments")
+    .select(ASSIGNMENT_COLUMNS)
+    .eq("class_id", classId)
+    .order("created_at", { ascending: false });
+  if (error) {
+    throw new Error(`[classroom] Failed to list assignments: ${error.message}`);
+  }
+  return ((data ?? []) as AssignmentRow[]).map(rowToAssignment);
+}
+
+export async function getAssignment(
+  sb: SupabaseClient,
+  assignmentId: string
+): Promise<Assignment | null> {
+  const { data, error } = await sb
+    .from("assignments")
+    .select(ASSIGNMENT_COLUMNS)
+    .eq("id", assignmentId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`[classroom] Failed to load assignment: ${error.message}`);
+  }
+  return data ? rowToAssignment(data as AssignmentRow) : null;
+}
+
+export interface NewAssignment {
+  classId: string;
+  userId: string;
+  title: string;
+  instructions?: string | null;
+  sourcePoem: string;
+  guideDefaults?: Partial<AssignmentGuideDefaults>;
+  dueAt?: string | null;
+}
+
+export async function createAssignment(
+  sb: SupabaseClient,
+  params: NewAssignment
+): Promise<Assignment> {
+  const { data, error } = await sb
+    .from("assignments")
+    .insert({
+      class_id: params.classId,
+      title: params.title,
+      instructions: params.instructions ?? null,
+      source_poem: params.sourcePoem,
+      guide_defaults: params.guideDefaults ?? {},
+      due_at: params.dueAt ?? null,
+      created_by: params.userId,
+    })
+    .select(ASSIGNMENT_COLUMNS)
+    .single();
+  if (error || !data) {
+    throw new Error(`[classroom] Failed to create assignment: ${error?.message}`);
+  }
+  return rowToAssignment(data as AssignmentRow);
+}
+
+// =============================================================================
+// Submissions
+// =============================================================================
+
+/**
+ * Submissions of the given assignments (as far as RLS shows them), optionally
+ * only one student's.
+ */
+export async function listSubmissions(
+  sb: SupabaseClient,
+  assignmentIds: string[],
+  studentId?: string
+): Promise<Submission[]> {
+  if (assignmentIds.length === 0) return [];
+  let query = sb
+    .from("assignment_submissions")
+    .select(SUBMISSION_COLUMNS)
+    .in("assignment_id", assignmentIds);
+  if (studentId) query = query.eq("student_id", studentId);
+
+  const { data, error } = await query.order("created_at", { ascending: true });
+  if (error) {
+    throw new Error(`[classroom] Failed to list submissions: ${error.message}`);
+  }
+  return ((data ?? []) as SubmissionRow[]).map(rowToSubmission);
+}
+
+export async function getSubmission(
+  sb: SupabaseClient,
+  submissionId: string
+): Promise<Submission | null> {
+  const { data, error } = await sb
+    .from("assignment_submissions")
+    .select(SUBMISSION_COLUMNS)
+    .eq("id", submissionId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`[classroom] Failed to load submission: ${error.message}`);
+  }
+  return data ? rowToSubmission(data as SubmissionRow) : null;
+}
+
+/**
+ * The submission a thread belongs to, or null for an ordinary thread.
+ */
+export async function getSubmissionByThread(
+  sb: SupabaseClient,
+  threadId: string
+): Promise<Submission | null> {
+  const { data, error } = await sb
+    .from("assignment_submissions")
+    .select(SUBMISSION_COLUMNS)
+    .eq("thread_id", threadId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`[classroom] Failed to load submission: ${error.message}`);
+  }
+  return data ? rowToSubmission(data as SubmissionRow) : null;
+}
+
+/**
+ * True when the thread belongs to a submitted or reviewed submission. For
+ * writers that do not go through requireThreadWrite (server actions, shared
+ * state helpers).
+ */
+export async function isThreadLocked(
+  sb: SupabaseClient,
+  threadId: string
+): Promise<boolean> {
+  const submission = await getSubmissionByThread(sb, threadId);
+  return !!submission && isSubmissionLocked(submission.status);
+}
+
+/**
+ * Give a student their own thread for an assignment: the poem and guide
+ * defaults are copied into a new thread in the student's project for the
+ * class (created on first use). Returns the existing submission when the
+ * student already started.
+ */
+export async function startSubmission(
+  sb: SupabaseClient,
+  params: { assignment: Assignment; className: string; studentId: string }
+): Promise<{ submission: Submission; projectId: string }> {
+  const { assignment, className, studentId } = params;
+
+  const [existing] = await listSubmissions(sb, [assignment.id], studentId);
+  if (existing) {
+    const { data: thread, error } = await sb
+      .from("chat_threads")
+      .select("project_id")
+      .eq("id", existing.threadId)
+      .single();
+    if (error || !thread) {
+      throw new Error(`[classroom] Failed to load submission thread: ${error?.message}`);
+    }
+    return { submission: existing, projectId: thread.project_id as string };
+  }
+
+  const { data: project, error: projectError } = await sb
+    .from("projects")
+    .select("id")
+    .eq("owner_id", studentId)
+    .eq("class_id", assignment.classId)
+    .limit(1)
+    .maybeSingle();
+  if (projectError) {
+    throw new Error(`[classroom] Failed to load class project: ${projectError.message}`);
+  }
+
+  let projectId = project?.id as string | undefined;
+  if (!projectId) {
+    const { data: created, error } = await sb
+      .from("projects")
+      .insert({
+        title: className.slice(0, 120),
+        owner_id: studentId,
+        class_id: assignment.classId,
+      })
+      .select("id")
+      .single();
+    if (error || !created) {
+      throw new Error(`[classroom] Failed to create class project: ${error?.message}`);
+    }
+    projectId = created.id as string;
+  }
+
+  const { data: thread, error: threadError } = await sb
+    .from("chat_threads")
+    .insert({
+      project_id: projectId,
+      title: assignment.title,
+      created_by: studentId,
+      raw_poem: assignment.sourcePoem,
+      ...guideDefaultsToColumns(assignment.guideDefaults),
+    })
+    .select("id")
+    .single();
+  if (threadError || !thread) {
+    throw new Error(`[classroom] Failed to create thread: ${threadError?.message}`);
+  }
+
+  const { data, error } = await sb
+    .from("assignment_submissions")
+    .insert({
+      assignment_id: assignment.id,
+      student_id: studentId,
+      thread_id: thread.id,
+    })
+    .select(SUBMISSION_COLUMNS)
+    .single();
+  if (error || !data) {
+    await sb.from("chat_threads").delete().eq("id", thread.id);
+    throw new Error(`[classroom] Failed to create submission: ${error?.message}`);
+  }
+  return { submission: rowToSubmission(data as SubmissionRow), projectId };
+}
+
+export async function updateSubmission(
+  sb: SupabaseClient,
+  submissionId: string,
+  patch: {
+    status: SubmissionStatus;
+    feedback?: string | null;
+  }
+): Promise<Submission> {
+  const now = new Date().toISOString();
+  const { data, error } = await sb
+    .from("assignment_submissions")
+    .update({
+      status: patch.status,
+      ...(patch.status === "submitted" ? { submitted_at: now } : {}),
+      ...(patch.status === "reviewed" || patch.status === "returned"
+        ? { reviewed_at: now }
+        : {}),
+      ...(patch.feedback !== undefined ? { feedback: patch.feedback } : {}),
+    })
+    .eq("id", submissionId)
+    .select(SUBMISSION_COLUMNS)
+    .single();
+  if (error || !data) {
+    throw new Error(`[classroom] Failed to update submission: ${error?.message}`);
+  }
+  return rowToSubmission(data as SubmissionRow);
+}
+
+// =============================================================================
+// Review comments
+// =============================================================================
+
+export async function listSubmissionComments(
+  sb: SupabaseClient,
+  submissionId: string
+): Promise<SubmissionComment[]> {
+  const { data, error } = await sb
+    .from("submission_comments")
+    .select(COMMENT_COLUMNS)
+    .eq("submission_id", submissionId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw new Error(`[classroom] Failed to list comments: ${error.message}`);
+  }
+  return ((data ?? []) as CommentRow[]).map(rowToComment);
+}
+
+export async function addSubmissionComment(
+  sb: SupabaseClient,
+  params: {
+    submissionId: string;
+    authorId: string;
+    lineIndex: number | null;
+    body: string;
+  }
+): Promise<SubmissionComment> {
+  const { data, error } = await sb
+    .from("submission_comments")
+    .insert({
+      submission_id: params.submissionId,
+      author_id: params.authorId,
+      line_index: params.lineIndex,
+      body: params.body,
+    })
+    .select(COMMENT_COLUMNS)
+    .single();
+  if (error || !data) {
+    throw new Error(`[classroom] Failed to add comment: ${error?.message}`);
+  }
+  return rowToComment(data as CommentRow);
+}
+
+/**
+ * Delete a review comment. Returns false when nothing was deleted.
+ */
+export async function deleteSubmissionComment(
+  sb: SupabaseClient,
+  submissionId: string,
+  commentId: string
+): Promise<boolean> {
+  const { data, error } = await sb
+    .from("submission_comments")
+    .delete()
+    .eq("submission_id", submissionId)
+    .eq("id", commentId)
+    .select("id");
+  if (error) {
+    throw new Error(`[classroom] Failed to delete comment: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
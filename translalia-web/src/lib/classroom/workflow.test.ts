@@ -0,0 +1,121 @@
+/**
+ * Tests for the classroom workflow: who may move a submission between
+ * states, which states lock the notebook, join codes and guide defaults.
+ *
+ * Run with: npx vitest run src/lib/classroom/workflow.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  AssignmentGuideDefaultsSchema,
+  JOIN_CODE_LENGTH,
+  generateJoinCode,
+  guideDefaultsToColumns,
+  isSubmissionLocked,
+  splitPoemLines,
+  submittedLines,
+  transitionSubmission,
+} from "./workflow";
+
+describe("transitionSubmission", () => {
+  it("lets a student submit work in progress or returned work", () => {
+    expect(transitionSubmission("in_progress", "submit", "student")).toEqual({
+      ok: true,
+      status: "submitted",
+    });
+    expect(transitionSubmission("returned", "submit", "student")).toEqual({
+      ok: true,
+      status: "submitted",
+    });
+  });
+
+  it("lets only the teacher return or review a submission", () => {
+    expect(transitionSubmission("submitted", "review", "teacher")).toEqual({
+      ok: true,
+      status: "reviewed",
+    });
+    expect(transitionSubmission("reviewed", "return", "teacher")).toEqual({
+      ok: true,
+      status: "returned",
+    });
+    expect(transitionSubmission("submitted", "review", "student")).toEqual({
+      ok: false,
+      code: "FORBIDDEN",
+    });
+    expect(transitionSubmission("in_progress", "submit", "teacher")).toEqual({
+      ok: false,
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("rejects transitions from the wrong state", () => {
+    expect(transitionSubmission("submitted", "submit", "student")).toEqual({
+      ok: false,
+      code: "INVALID_TRANSITION",
+    });
+    expect(transitionSubmission("in_progress", "review", "teacher")).toEqual({
+      ok: false,
+      code: "INVALID_TRANSITION",
+    });
+  });
+});
+
+describe("isSubmissionLocked", () => {
+  it("locks submitted and reviewed work only", () => {
+    expect(isSubmissionLocked("submitted")).toBe(true);
+    expect(isSubmissionLocked("reviewed")).toBe(true);
+    expect(isSubmissionLocked("in_progress")).toBe(false);
+    expect(isSubmissionLocked("returned")).toBe(false);
+  });
+});
+
+describe("generateJoinCode", () => {
+  it("builds codes from unambiguous characters", () => {
+    const code = generateJoinCode();
+    expect(code).toHaveLength(JOIN_CODE_LENGTH);
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]+$/);
+    expect(generateJoinCode(() => 0)).toBe("AAAAAA");
+  });
+});
+
+describe("guide defaults", () => {
+  it("maps set answers to thread columns and leaves the rest out", () => {
+    expect(
+      guideDefaultsToColumns({
+        translationIntent: "Keep the ballad meter",
+        translationMemory: false,
+        variantCount: 9,
+      })
+    ).toEqual({
+      translation_intent: "Keep the ballad meter",
+      translation_memory_enabled: false,
+      variant_count: 6,
+    });
+  });
+
+  it("rejects answers that are not guide defaults", () => {
+    expect(AssignmentGuideDefaultsSchema.safeParse({ variantCount: 2 }).success).toBe(true);
+    expect(AssignmentGuideDefaultsSchema.safeParse({ poem: "x" }).success).toBe(false);
+  });
+});
+
+describe("splitPoemLines", () => {
+  it("drops blank lines and trims", () => {
+    expect(splitPoemLines(" first \n\nsecond\n")).toEqual(["first", "second"]);
+    expect(splitPoemLines(null)).toEqual([]);
+  });
+});
+
+describe("submittedLines", () => {
+  it("lines up saved translations with the source lines", () => {
+    const state = {
+      workshop_lines: [{ translated: "uno" }, null, { translated: "  " }, { translated: "four" }],
+    };
+    expect(submittedLines(state, 3)).toEqual(["uno", null, null]);
+    expect(submittedLines({ workshop_lines: { 1: { translated: "dos" } } }, 2)).toEqual([
+      null,
+      "dos",
+    ]);
+    expect(submittedLines(null, 1)).toEqual([null]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Classroom Workflow - submission states, join codes and guide defaults
+ *
+ * A submission moves in_progress → submitted (student) → returned or
+ * reviewed (teacher); a returned submission can be submitted again. While it
+ * is submitted or reviewed the student's notebook is locked.
+ *
+ * Pure module: safe to import from client components.
+ */
+
+import { z } from "zod";
+import {
+  MAX_VARIANT_COUNT,
+  MIN_VARIANT_COUNT,
+  resolveVariantCount,
+} from "@/lib/ai/variantCount";
+import type {
+  AssignmentGuideDefaults,
+  ClassRole,
+  SubmissionStatus,
+} from "@/types/classroom";
+
+export type SubmissionAction = "submit" | "return" | "review";
+
+export type TransitionResult =
+  | { ok: true; status: SubmissionStatus }
+  | { ok: false; code: "FORBIDDEN" | "INVALID_TRANSITION" };
+
+const TRANSITIONS: Record<
+  SubmissionAction,
+  { role: ClassRole; from: SubmissionStatus[]; to: SubmissionStatus }
+> = {
+  submit: { role: "student", from: ["in_progress", "returned"], to: "submitted" },
+  return: { role: "teacher", from: ["submitted", "reviewed"], to: "returned" },
+  review: { role: "teacher", from: ["submitted"], to: "reviewed" },
+};
+
+const LOCKED_STATUSES: ReadonlySet<SubmissionStatus> = new Set([
+  "submitted",
+  "reviewed",
+]);
+
+/** True when the student can no longer edit the submission's thread. */
+export function isSubmissionLocked(status: SubmissionStatus): boolean {
+  return LOCKED_STATUSES.has(status);
+}
+
+/**
+ * Next status when `role` applies `action` to a submission in `status`.
+ */
+export function transitionSubmission(
+  status: SubmissionStatus,
+  action: SubmissionAction,
+  role: ClassRole
+): TransitionResult {
+  const rule = TRANSITIONS[action];
+  if (rule.role !== role) return { ok: false, code: "FORBIDDEN" };
+  if (!rule.from.includes(status)) return { ok: false, code: "INVALID_TRANSITION" };
+  return { ok: true, status: rule.to };
+}
+
+// Letters and digits that are hard to confuse when read aloud or copied
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const JOIN_CODE_LENGTH = 6;
+
+/** Random class join code, e.g. "K7QMPA". */
+export function generateJoinCode(random: () => number = Math.random): string {
+  let code = "";
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[Math.floor(random() * JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export const AssignmentGuideDefaultsSchema = z
+  .object({
+    translationIntent: z.string().max(2000).nullable(),
+    translationZone: z.string().max(2000).nullable(),
+    sourceLanguageVariety: z.string().max(200).nullable(),
+    translationModel: z.enum([
+      "gpt-4o",
+      "gpt-4o-mini",
+      "gpt-4-turbo",
+      "gpt-5",
+      "gpt-5-mini",
+      "deepseek-v4-flash",
+    ]),
+    translationMethod: z.enum(["method-1", "method-2"]),
+    translationMemory: z.boolean(),
+    variantCount: z.number().int().min(MIN_VARIANT_COUNT).max(MAX_VARIANT_COUNT),
+  })
+  .partial()
+  .strict();
+
+/**
+ * chat_threads columns for a student's new thread, as updateGuideState writes
+ * them. Unset defaults are left to the column defaults.
+ */
+export function guideDefaultsToColumns(
+  defaults: Partial<AssignmentGuideDefaults>
+): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+  if (defaults.translationIntent !== undefined) {
+    columns.translation_intent = defaults.translationIntent;
+  }
+  if (defaults.translationZone !== undefined) {
+    columns.translation_zone = defaults.translationZone;
+  }
+  if (defaults.sourceLanguageVariety !== undefined) {
+    columns.source_language_variety = defaults.sourceLanguageVariety;
+  }
+  if (defaults.translationModel !== undefined) {
+    columns.translation_model = defaults.translationModel;
+  }
+  if (defaults.translationMethod !== undefined) {
+    columns.translation_method = defaults.translationMethod;
+  }
+  if (defaults.translationMemory !== undefined) {
+    columns.translation_memory_enabled = defaults.translationMemory !== false;
+  }
+  if (defaults.variantCount !== undefined) {
+    columns.variant_count = resolveVariantCount(defaults.variantCount);
+  }
+  return columns;
+}
+
+/** Non-empty poem lines, as the notebook splits raw_poem. */
+export function splitPoemLines(rawPoem: string | null | undefined): string[] {
+  return (rawPoem ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Saved translation per source line from chat_threads.state.workshop_lines
+ * (an array, or an index-keyed object in older threads); null where the
+ * student has not saved the line.
+ */
+export function submittedLines(state: unknown, lineCount: number): Array<string | null> {
+  const workshopLines = (state as Record<string, unknown> | null)?.workshop_lines;
+  const lines: Array<string | null> = Array.from({ length: lineCount }, () => null);
+  if (!workshopLines || typeof workshopLines !== "object") return lines;
+
+  for (const [key, line] of Object.entries(workshopLines)) {
+    const index = Number(key);
+    const translated = (line as { translated?: unknown } | null)?.translated;
+    if (index < lineCount && typeof translated === "string" && translated.trim()) {
+      lines[index] = translated;
+    }
+  }
+  return lines;
+}
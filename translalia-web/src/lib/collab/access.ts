@@ -0,0 +1,64 @@
+/**
+ * Thread access for co-editing
+ *
+ * A thread is editable by its owner (chat_threads.created_by) and by the
+ * users in thread_collaborators. Routes that save notebook content use this
+ * instead of comparing created_by themselves.
+ */
+
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import type { ThreadRole } from "@/types/collaboration";
+import type { CollabUser } from "./relay";
+
+export interface ThreadAccess {
+  threadId: string;
+  ownerId: string;
+  role: ThreadRole;
+}
+
+/**
+ * The caller's role on a thread, or null when they cannot edit it (or it does
+ * not exist). `sb` must be the caller's client: RLS hides other threads.
+ */
+export async function getThreadAccess(
+  sb: SupabaseClient,
+  threadId: string,
+  userId: string
+): Promise<ThreadAccess | null> {
+  const { data: thread } = await sb
+    .from("chat_threads")
+    .select("id, created_by")
+    .eq("id", threadId)
+    .maybeSingle();
+
+  if (!thread) return null;
+  if (thread.created_by === userId) {
+    return { threadId, ownerId: thread.created_by, role: "owner" };
+  }
+
+  const { data: collaborator } = await sb
+    .from("thread_collaborators")
+    .select("user_id")
+    .eq("thread_id", threadId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return collaborator
+    ? { threadId, ownerId: thread.created_by, role: "collaborator" }
+    : null;
+}
+
+/**
+ * Name shown to other collaborators: profile name from the auth metadata,
+ * else the local part of the email.
+ */
+export function collabUser(user: User): CollabUser {
+  const meta = (user.user_metadata ?? {}) as Record<string, unknown>;
+  const fromMeta = [meta.display_name, meta.full_name, meta.name].find(
+    (value): value is string => typeof value === "string" && value.trim().length > 0
+  );
+  return {
+    userId: user.id,
+    name: fromMeta?.trim() || user.email?.split("@")[0] || "Collaborator",
+  };
+}
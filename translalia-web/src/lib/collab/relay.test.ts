@@ -0,0 +1,108 @@
+/**
+ * Tests for the collaboration relay (in-memory fallback): line locks are
+ * exclusive until released or expired, events are read back after a
+ * sequence number, and leaving drops presence and locks.
+ *
+ * Run with: npx vitest run src/lib/collab/relay.test.ts
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  LOCK_TTL_MS,
+  acquireLineLock,
+  findForeignLock,
+  leaveThread,
+  publishCollabEvents,
+  readCollabSnapshot,
+  releaseLineLock,
+  touchPresence,
+} from "./relay";
+
+const ana = { userId: "user-ana", name: "Ana" };
+const ben = { userId: "user-ben", name: "Ben" };
+
+let threadCounter = 0;
+function newThread(): string {
+  threadCounter += 1;
+  return `thread-${threadCounter}`;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("line locks", () => {
+  it("gives a free line to the first user and refuses others", async () => {
+    const threadId = newThread();
+
+    expect((await acquireLineLock(threadId, ana, 2)).ok).toBe(true);
+    const second = await acquireLineLock(threadId, ben, 2);
+
+    expect(second.ok).toBe(false);
+    expect(!second.ok && second.holder.name).toBe("Ana");
+    expect(await findForeignLock(threadId, ben.userId, 2)).toMatchObject({ userId: "user-ana" });
+    expect(await findForeignLock(threadId, ana.userId, 2)).toBeNull();
+  });
+
+  it("lets the holder renew and frees the line on release", async () => {
+    const threadId = newThread();
+    await acquireLineLock(threadId, ana, 0);
+
+    expect((await acquireLineLock(threadId, ana, 0)).ok).toBe(true);
+    await releaseLineLock(threadId, ben.userId, 0);
+    expect((await acquireLineLock(threadId, ben, 0)).ok).toBe(false);
+
+    await releaseLineLock(threadId, ana.userId, 0);
+    expect((await acquireLineLock(threadId, ben, 0)).ok).toBe(true);
+  });
+
+  it("lets someone else take a lock that was not renewed", async () => {
+    vi.useFakeTimers();
+    const threadId = newThread();
+    await acquireLineLock(threadId, ana, 1);
+
+    vi.advanceTimersByTime(LOCK_TTL_MS + 1);
+
+    expect((await acquireLineLock(threadId, ben, 1)).ok).toBe(true);
+    expect((await readCollabSnapshot(threadId, 0)).locks).toEqual([
+      expect.objectContaining({ lineIndex: 1, userId: "user-ben" }),
+    ]);
+  });
+});
+
+describe("readCollabSnapshot", () => {
+  it("returns events after the given sequence in order", async () => {
+    const threadId = newThread();
+    await publishCollabEvents(threadId, ana, [
+      { type: "draft", lineIndex: 0, text: "la" },
+      { type: "line_saved", lineIndex: 0, text: "la luna" },
+    ]);
+    await publishCollabEvents(threadId, ben, [
+      { type: "note_saved", lineIndex: null, content: "tone: quiet" },
+    ]);
+
+    const all = await readCollabSnapshot(threadId, 0);
+    expect(all.seq).toBe(3);
+    expect(all.events.map((e) => [e.seq, e.type, e.name])).toEqual([
+      [1, "draft", "Ana"],
+      [2, "line_saved", "Ana"],
+      [3, "note_saved", "Ben"],
+    ]);
+
+    const later = await readCollabSnapshot(threadId, 2);
+    expect(later.events.map((e) => e.seq)).toEqual([3]);
+  });
+
+  it("drops presence and locks of a user who leaves", async () => {
+    const threadId = newThread();
+    await touchPresence(threadId, ana, 3);
+    await touchPresence(threadId, ben, null);
+    await acquireLineLock(threadId, ana, 3);
+
+    await leaveThread(threadId, ana.userId);
+
+    const snapshot = await readCollabSnapshot(threadId, 0);
+    expect(snapshot.presence.map((p) => p.userId)).toEqual(["user-ben"]);
+    expect(snapshot.locks).toEqual([]);
+  });
+});
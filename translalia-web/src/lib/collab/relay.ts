@@ -0,0 +1,335 @@
+/**
+ * Collaboration Relay - presence, line locks and events per thread
+ *
+ * Clients with a thread's notebook open poll /api/threads/[threadId]/collab
+ * (heartbeats, lock requests, drafts) and read back a snapshot. Saves publish
+ * `line_saved` / `note_saved` from the routes that wrote them.
+ *
+ * Uses Redis (hashes for presence and locks, a capped list plus a sequence
+ * counter for events) so all instances see the same state; falls back to
+ * memory in dev. Presence and locks expire when their holder stops renewing
+ * them, so a closed tab frees its line.
+ */
+
+import { getUpstashRedis } from "@/lib/ai/cache";
+import type {
+  CollabEvent,
+  CollabLineLock,
+  CollabMessage,
+  CollabPresence,
+  CollabSnapshot,
+} from "@/types/collaboration";
+
+const KEY_PREFIX = "collab";
+const MAX_EVENTS = 200;
+const KEYS_TTL_SEC = 60 * 60;
+/** Presence without a heartbeat for this long is dropped. */
+export const PRESENCE_TTL_MS = 30_000;
+/** Locks not renewed for this long can be taken by someone else. */
+export const LOCK_TTL_MS = 30_000;
+
+interface RedisRelay {
+  incrby: (key: string, increment: number) => Promise<number>;
+  get: (key: string) => Promise<string | number | null>;
+  rpush: (key: string, ...values: string[]) => Promise<number>;
+  ltrim: (key: string, start: number, stop: number) => Promise<string>;
+  lrange: (key: string, start: number, stop: number) => Promise<unknown[]>;
+  expire: (key: string, seconds: number) => Promise<number>;
+  hget: (key: string, field: string) => Promise<unknown>;
+  hset: (key: string, values: Record<string, string>) => Promise<number>;
+  hsetnx: (key: string, field: string, value: string) => Promise<number>;
+  hgetall: (key: string) => Promise<Record<string, unknown> | null>;
+  hdel: (key: string, ...fields: string[]) => Promise<number>;
+}
+
+export interface CollabUser {
+  userId: string;
+  name: string;
+}
+
+export type LockResult =
+  | { ok: true; lock: CollabLineLock }
+  | { ok: false; holder: CollabLineLock };
+
+// =============================================================================
+// In-Memory Fallback (DEV ONLY)
+// =============================================================================
+
+interface MemThread {
+  seq: number;
+  events: CollabMessage[];
+  presence: Map<string, CollabPresence>;
+  locks: Map<number, CollabLineLock>;
+}
+
+const memThreads = new Map<string, MemThread>();
+
+function memThread(threadId: string): MemThread {
+  let thread = memThreads.get(threadId);
+  if (!thread) {
+    thread = { seq: 0, events: [], presence: new Map(), locks: new Map() };
+    memThreads.set(threadId, thread);
+  }
+  return thread;
+}
+
+async function getRedis(): Promise<RedisRelay | null> {
+  try {
+    return (await getUpstashRedis()) as RedisRelay | null;
+  } catch {
+    return null;
+  }
+}
+
+function parseJson<T>(raw: unknown): T | null {
+  // Upstash auto-deserializes JSON values
+  if (raw === null || raw === undefined) return null;
+  if (typeof raw === "object") return raw as T;
+  try {
+    return JSON.parse(String(raw)) as T;
+  } catch {
+    return null;
+  }
+}
+
+function keys(threadId: string) {
+  return {
+    seq: `${KEY_PREFIX}:${threadId}:seq`,
+    events: `${KEY_PREFIX}:${threadId}:events`,
+    presence: `${KEY_PREFIX}:${threadId}:presence`,
+    locks: `${KEY_PREFIX}:${threadId}:locks`,
+  };
+}
+
+function isLive(at: number, ttlMs: number, now: number): boolean {
+  return now - at < ttlMs;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Append events from one user. Never throws: other clients still see saved
+ * lines on their next refetch.
+ */
+export async function publishCollabEvents(
+  threadId: string,
+  user: CollabUser,
+  events: CollabEvent[]
+): Promise<void> {
+  if (events.length === 0) return;
+  const at = Date.now();
+
+  try {
+    const redis = await getRedis();
+    if (!redis) {
+      const thread = memThread(threadId);
+      for (const event of events) {
+        thread.seq += 1;
+        thread.events.push({ ...event, seq: thread.seq, ...user, at });
+      }
+      thread.events = thread.events.slice(-MAX_EVENTS);
+      return;
+    }
+
+    const k = keys(threadId);
+    const lastSeq = await redis.incrby(k.seq, events.length);
+    const firstSeq = lastSeq - events.length + 1;
+    await redis.rpush(
+      k.events,
+      ...events.map((event, i) =>
+        JSON.stringify({ ...event, seq: firstSeq + i, ...user, at })
+      )
+    );
+    await redis.ltrim(k.events, -MAX_EVENTS, -1);
+    await redis.expire(k.events, KEYS_TTL_SEC);
+    await redis.expire(k.seq, KEYS_TTL_SEC);
+  } catch (error) {
+    console.warn(
+      `[collabRelay] Failed to publish ${events.length} event(s) for ${threadId}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * Record that `user` has the notebook open, on `lineIndex`.
+ */
+export async function touchPresence(
+  threadId: string,
+  user: CollabUser,
+  lineIndex: number | null
+): Promise<void> {
+  const presence: CollabPresence = { ...user, lineIndex, at: Date.now() };
+  const redis = await getRedis();
+  if (!redis) {
+    memThread(threadId).presence.set(user.userId, presence);
+    return;
+  }
+  const k = keys(threadId);
+  await redis.hset(k.presence, { [user.userId]: JSON.stringify(presence) });
+  await redis.expire(k.presence, KEYS_TTL_SEC);
+}
+
+/**
+ * Drop `user` from presence and release their locks (tab closed).
+ */
+export async function leaveThread(threadId: string, userId: string): Promise<void> {
+  const redis = await getRedis();
+  const locks = await listLocks(threadId);
+  const mine = locks.filter((lock) => lock.userId === userId);
+
+  if (!redis) {
+    const thread = memThread(threadId);
+    thread.presence.delete(userId);
+    for (const lock of mine) thread.locks.delete(lock.lineIndex);
+    return;
+  }
+  const k = keys(threadId);
+  await redis.hdel(k.presence, userId);
+  if (mine.length > 0) {
+    await redis.hdel(k.locks, ...mine.map((lock) => String(lock.lineIndex)));
+  }
+}
+
+/**
+ * Take or renew the lock on a line. Fails with the current holder when
+ * someone else holds a live lock.
+ */
+export async function acquireLineLock(
+  threadId: string,
+  user: CollabUser,
+  lineIndex: number
+): Promise<LockResult> {
+  const now = Date.now();
+  const lock: CollabLineLock = { lineIndex, ...user, at: now };
+  const redis = await getRedis();
+
+  if (!redis) {
+    const locks = memThread(threadId).locks;
+    const current = locks.get(lineIndex);
+    if (current && current.userId !== user.userId && isLive(current.at, LOCK_TTL_MS, now)) {
+      return { ok: false, holder: current };
+    }
+    locks.set(lineIndex, lock);
+    return { ok: true, lock };
+  }
+
+  const k = keys(threadId);
+  const field = String(lineIndex);
+  const current = parseJson<CollabLineLock>(await redis.hget(k.locks, field));
+  if (current && current.userId !== user.userId && isLive(current.at, LOCK_TTL_MS, now)) {
+    return { ok: false, holder: current };
+  }
+
+  if (!current) {
+    // Two users racing for a free line: only the first hsetnx wins
+    const created = await redis.hsetnx(k.locks, field, JSON.stringify(lock));
+    if (!created) {
+      const winner = parseJson<CollabLineLock>(await redis.hget(k.locks, field));
+      if (winner && winner.userId !== user.userId) {
+        return { ok: false, holder: winner };
+      }
+    }
+  } else {
+    await redis.hset(k.locks, { [field]: JSON.stringify(lock) });
+  }
+  await redis.expire(k.locks, KEYS_TTL_SEC);
+  return { ok: true, lock };
+}
+
+/**
+ * Release a line lock if `userId` holds it.
+ */
+export async function releaseLineLock(
+  threadId: string,
+  userId: string,
+  lineIndex: number
+): Promise<void> {
+  const redis = await getRedis();
+  if (!redis) {
+    const locks = memThread(threadId).locks;
+    if (locks.get(lineIndex)?.userId === userId) locks.delete(lineIndex);
+    return;
+  }
+  const k = keys(threadId);
+  const current = parseJson<CollabLineLock>(await redis.hget(k.locks, String(lineIndex)));
+  if (current?.userId === userId) {
+    await redis.hdel(k.locks, String(lineIndex));
+  }
+}
+
+/**
+ * Live locks of a thread, by line.
+ */
+export async function listLocks(threadId: string): Promise<CollabLineLock[]> {
+  const now = Date.now();
+  const redis = await getRedis();
+  const all = redis
+    ? Object.values((await redis.hgetall(keys(threadId).locks)) ?? {})
+        .map((raw) => parseJson<CollabLineLock>(raw))
+        .filter((lock): lock is CollabLineLock => lock !== null)
+    : [...memThread(threadId).locks.values()];
+
+  return all
+    .filter((lock) => isLive(lock.at, LOCK_TTL_MS, now))
+    .sort((a, b) => a.lineIndex - b.lineIndex);
+}
+
+/**
+ * Presence, locks and the events after `afterSeq` (oldest first).
+ */
+export async function readCollabSnapshot(
+  threadId: string,
+  afterSeq: number
+): Promise<CollabSnapshot> {
+  const now = Date.now();
+  const redis = await getRedis();
+
+  let seq: number;
+  let events: CollabMessage[];
+  let presence: CollabPresence[];
+
+  if (!redis) {
+    const thread = memThread(threadId);
+    seq = thread.seq;
+    events = thread.events;
+    presence = [...thread.presence.values()];
+  } else {
+    const k = keys(threadId);
+    const rawSeq = await redis.get(k.seq);
+    seq = rawSeq === null ? 0 : Number(rawSeq);
+    events = (await redis.lrange(k.events, 0, -1))
+      .map((raw) => parseJson<CollabMessage>(raw))
+      .filter((e): e is CollabMessage => e !== null);
+    presence = Object.values((await redis.hgetall(k.presence)) ?? {})
+      .map((raw) => parseJson<CollabPresence>(raw))
+      .filter((p): p is CollabPresence => p !== null);
+  }
+
+  return {
+    seq,
+    events: events.filter((e) => e.seq > afterSeq).sort((a, b) => a.seq - b.seq),
+    presence: presence
+      .filter((p) => isLive(p.at, PRESENCE_TTL_MS, now))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    locks: await listLocks(threadId),
+  };
+}
+
+/**
+ * Live lock on `lineIndex` held by someone other than `userId`, if any.
+ * Save routes refuse to write a line another collaborator is editing.
+ */
+export async function findForeignLock(
+  threadId: string,
+  userId: string,
+  lineIndex: number
+): Promise<CollabLineLock | null> {
+  const locks = await listLocks(threadId);
+  return (
+    locks.find((lock) => lock.lineIndex === lineIndex && lock.userId !== userId) ??
+    null
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * Export Document - format-neutral model of a diary entry
+ *
+ * The Markdown, DOCX and EPUB exporters all render this model, so every
+ * format carries the same sections (translation, translation insights,
+ * journey summary, notes & reflections) in the same order, with every label
+ * taken from DiaryExportLabels. Empty sections are left out.
+ */
+
+import type { DiaryEntry, DiaryExportLabels } from "@/lib/diary/types";
+import {
+  languageDirection,
+  type TextDirection,
+} from "@/lib/i18n/textDirection";
+import {
+  getLineDirections,
+  getLineNoteEntries,
+  getValidLines,
+  hasJourneyContent,
+  hasNotesAndReflection,
+  hasThreadNote,
+  hasTranslationInsightsData,
+  slugifyTitle,
+} from "@/lib/diary/exportEntry";
+
+export type ExportFormat = "md" | "docx" | "epub";
+
+export type ExportListItem = {
+  /** Bold lead-in, e.g. a suggestion title or "Line 3". */
+  title?: string;
+  text: string;
+};
+
+export type ExportBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: ExportListItem[] }
+  | {
+      type: "lines";
+      originalLabel: string;
+      translatedLabel: string;
+      /** Column directions; a row whose own letters disagree overrides them */
+      originalDir: TextDirection;
+      translatedDir: TextDirection;
+      rows: Array<{ number: number; original: string; translated: string }>;
+    };
+
+export type ExportSection = {
+  id: "translation" | "translationInsights" | "journeySummary" | "notesAndReflection";
+  title: string;
+  blocks: ExportBlock[];
+};
+
+export type ExportDocument = {
+  title: string;
+  /** Document language (BCP 47), used by EPUB and DOCX metadata. */
+  locale: string;
+  /** Direction of labels and headings (from `locale`); poem text has its own. */
+  dir: TextDirection;
+  /** Header lines under the title: date and line count, generation time. */
+  meta: string[];
+  sections: ExportSection[];
+};
+
+export type ExportOptions = {
+  locale?: string;
+  /** Fixed "generated on" time (tests); defaults to now. */
+  generatedAt?: Date;
+};
+
+function lineRefs(labels: DiaryExportLabels, refs?: number[]): string {
+  return refs?.length
+    ? ` (${labels.lineReferences} ${refs.map((n) => n + 1).join(", ")})`
+    : "";
+}
+
+function translationSection(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels
+): ExportSection | null {
+  const lines = getValidLines(entry);
+  if (lines.length === 0) return null;
+  const dirs = getLineDirections(entry);
+  return {
+    id: "translation",
+    title: labels.translation,
+    blocks: [
+      {
+        type: "lines",
+        originalLabel: labels.originalText,
+        translatedLabel: labels.translatedText,
+        originalDir: dirs.original,
+        translatedDir: dirs.translated,
+        rows: lines.map((line, idx) => ({
+          number: idx + 1,
+          original: line.original,
+          translated: line.translated,
+        })),
+      },
+    ],
+  };
+}
+
+function insightsSection(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels
+): ExportSection | null {
+  const ti = entry.translationInsights;
+  if (!ti || !hasTranslationInsightsData(ti)) return null;
+
+  const blocks: ExportBlock[] = [];
+  if (ti.aims?.trim()) {
+    blocks.push({ type: "heading", text: labels.yourTranslationAims });
+    blocks.push({ type: "paragraph", text: ti.aims.trim() });
+  }
+  if (ti.suggestions?.length) {
+    blocks.push({ type: "heading", text: labels.suggestions });
+    blocks.push({
+      type: "list",
+      ordered: true,
+      items: ti.suggestions.map((s) => ({
+        title: s.title,
+        text: `${s.description}${lineRefs(labels, s.lineReferences)}`,
+      })),
+    });
+  }
+  return { id: "translationInsights", title: labels.translationInsights, blocks };
+}
+
+function journeySection(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels
+): ExportSection | null {
+  if (!hasJourneyContent(entry)) return null;
+
+  const blocks: ExportBlock[] = [];
+  if (entry.reflection_text?.trim()) {
+    blocks.push({ type: "paragraph", text: entry.reflection_text.trim() });
+  }
+  const lists: Array<[string, string[] | null]> = [
+    [labels.insights, entry.insights],
+    [labels.strengths, entry.strengths],
+    [labels.challenges, entry.challenges],
+    [labels.recommendations, entry.recommendations],
+  ];
+  for (const [title, items] of lists) {
+    if (!items?.length) continue;
+    blocks.push({ type: "heading", text: title });
+    blocks.push({
+      type: "list",
+      ordered: false,
+      items: items.map((text) => ({ text })),
+    });
+  }
+  return { id: "journeySummary", title: labels.journeySummary, blocks };
+}
+
+function notesSection(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels
+): ExportSection | null {
+  if (!hasNotesAndReflection(entry)) return null;
+
+  const blocks: ExportBlock[] = [];
+  if (hasThreadNote(entry)) {
+    blocks.push({ type: "heading", text: labels.threadNote });
+    blocks.push({
+      type: "paragraph",
+      text: entry.notebook_notes!.thread_note!.trim(),
+    });
+  }
+  const lineNotes = getLineNoteEntries(entry);
+  if (lineNotes.length > 0) {
+    blocks.push({ type: "heading", text: labels.lineNotes });
+    blocks.push({
+      type: "list",
+      ordered: false,
+      items: lineNotes.map(({ lineIndex, note }) => ({
+        title: `${labels.line} ${lineIndex + 1}`,
+        text: note,
+      })),
+    });
+  }
+  if (entry.expressYourView?.trim()) {
+    blocks.push({ type: "heading", text: labels.expressYourView });
+    blocks.push({ type: "paragraph", text: entry.expressYourView.trim() });
+  }
+  return { id: "notesAndReflection", title: labels.notesAndReflection, blocks };
+}
+
+/**
+ * Build the format-neutral export model for one diary entry.
+ */
+export function buildExportDocument(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels,
+  options: ExportOptions = {}
+): ExportDocument {
+  const locale = options.locale ?? "en-US";
+  const generatedAt = options.generatedAt ?? new Date();
+  const lineCount = getValidLines(entry).length;
+  const date = new Date(entry.thread_created_at).toLocaleDateString(locale, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  const sections = [
+    translationSection(entry, labels),
+    insightsSection(entry, labels),
+    journeySection(entry, labels),
+    notesSection(entry, labels),
+  ].filter((s): s is ExportSection => s !== null);
+
+  return {
+    title: entry.title?.trim() || labels.untitledPoem,
+    locale,
+    dir: languageDirection(locale) ?? "ltr",
+    meta: [
+      `${date} · ${lineCount} ${labels.lineCount}`,
+      `${labels.generatedOn}: ${generatedAt.toLocaleString(locale)}`,
+    ],
+    sections,
+  };
+}
+
+/**
+ * Download file name shared by every export format, e.g.
+ * `diary-caminante-2026-01-05.docx`.
+ */
+export function exportFileName(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels,
+  extension: string
+): string {
+  const slug = slugifyTitle(entry.title || labels.untitledPoem);
+  const date = new Date(entry.thread_created_at).toISOString().slice(0, 10);
+  return `diary-${slug}-${date}.${extension}`;
+}
@@ -0,0 +1,211 @@
+/**
+ * DOCX export for diary entries.
+ *
+ * Writes a minimal WordprocessingML package by hand (no docx dependency):
+ * the translation is a facing-page table (line number, original,
+ * translation) whose header row repeats on every page; other sections use
+ * built-in heading styles, prose paragraphs and prefixed list paragraphs.
+ */
+
+import type { DiaryEntry, DiaryExportLabels } from "@/lib/diary/types";
+import { escapeHtml } from "@/lib/diary/exportEntry";
+import { lineDirection, type TextDirection } from "@/lib/i18n/textDirection";
+import {
+  buildExportDocument,
+  type ExportBlock,
+  type ExportOptions,
+} from "@/lib/diary/exportDocument";
+import { createZip } from "@/lib/diary/zip";
+
+export const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const W_NS =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const xml = escapeHtml;
+
+// ============================================================================
+// Runs and Paragraphs
+// ============================================================================
+
+/** Text run; newlines become line breaks. */
+function run(text: string, props = ""): string {
+  const rPr = props ? `<w:rPr>${props}</w:rPr>` : "";
+  const body = text
+    .split(/\r?\n/)
+    .map((part) => `<w:t xml:space="preserve">${xml(part)}</w:t>`)
+    .join("<w:br/>");
+  return `<w:r>${rPr}${body}</w:r>`;
+}
+
+function paragraph(runs: string, style?: string, extraPPr = ""): string {
+  const pStyle = style ? `<w:pStyle w:val="${style}"/>` : "";
+  const pPr = pStyle || extraPPr ? `<w:pPr>${pStyle}${extraPPr}</w:pPr>` : "";
+  return `<w:p>${pPr}${runs}</w:p>`;
+}
+
+/**
+ * Paragraph (`w:bidi`) and run (`w:rtl`) properties for right-to-left text.
+ * The schema puts `w:bidi` before `w:ind` and `w:rtl` after `w:b`/`w:i`.
+ */
+function bidiProps(dir: TextDirection): { pPr: string; rPr: string } {
+  return dir === "rtl" ? { pPr: "<w:bidi/>", rPr: "<w:rtl/>" } : { pPr: "", rPr: "" };
+}
+
+/** Paragraph of user text, right-to-left when its letters are. */
+function textParagraph(text: string, fallback: TextDirection, props = ""): string {
+  const bidi = bidiProps(lineDirection(text, fallback));
+  return paragraph(run(text, props + bidi.rPr), undefined, bidi.pPr);
+}
+
+function tableCell(content: string, widthTwips: number, header = false): string {
+  const shading = header ? '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>' : "";
+  return `<w:tc><w:tcPr><w:tcW w:w="${widthTwips}" w:type="dxa"/>${shading}</w:tcPr>${content}</w:tc>`;
+}
+
+// Letter/A4 text width is ~9000 twips; line numbers get a narrow column.
+const NUMBER_COL = 600;
+const TEXT_COL = 4200;
+
+function linesTable(
+  block: Extract<ExportBlock, { type: "lines" }>,
+  dir: TextDirection
+): string {
+  const headerRow =
+    '<w:tr><w:trPr><w:tblHeader/></w:trPr>' +
+    tableCell(paragraph(run("#", "<w:b/>")), NUMBER_COL, true) +
+    tableCell(textParagraph(block.originalLabel, dir, "<w:b/>"), TEXT_COL, true) +
+    tableCell(textParagraph(block.translatedLabel, dir, "<w:b/>"), TEXT_COL, true) +
+    "</w:tr>";
+
+  const rows = block.rows
+    .map(
+      (row) =>
+        '<w:tr><w:trPr><w:cantSplit/></w:trPr>' +
+        tableCell(paragraph(run(String(row.number), '<w:color w:val="999999"/>')), NUMBER_COL) +
+        tableCell(textParagraph(row.original, block.originalDir, "<w:i/><w:iCs/>"), TEXT_COL) +
+        tableCell(textParagraph(row.translated, block.translatedDir), TEXT_COL) +
+        "</w:tr>"
+    )
+    .join("");
+
+  return (
+    "<w:tbl><w:tblPr>" +
+    '<w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/>' +
+    "</w:tblPr><w:tblGrid>" +
+    `<w:gridCol w:w="${NUMBER_COL}"/><w:gridCol w:w="${TEXT_COL}"/><w:gridCol w:w="${TEXT_COL}"/>` +
+    `</w:tblGrid>${headerRow}${rows}</w:tbl>`
+  );
+}
+
+/** Heading in the document direction (labels follow the UI locale). */
+function heading(text: string, style: string, dir: TextDirection): string {
+  const bidi = bidiProps(dir);
+  return paragraph(run(text, bidi.rPr), style, bidi.pPr);
+}
+
+function renderBlock(block: ExportBlock, dir: TextDirection): string {
+  switch (block.type) {
+    case "heading":
+      return heading(block.text, "Heading2", dir);
+    case "paragraph":
+      return textParagraph(block.text, dir);
+    case "list":
+      return block.items
+        .map((item, i) => {
+          const bidi = bidiProps(lineDirection(item.text, dir));
+          const bullet = block.ordered ? `${i + 1}. ` : "• ";
+          const title = item.title ? run(`${item.title}: `, "<w:b/>" + bidi.rPr) : "";
+          return paragraph(
+            run(bullet, bidi.rPr) + title + run(item.text, bidi.rPr),
+            undefined,
+            `${bidi.pPr}<w:ind w:left="360" w:hanging="360"/>`
+          );
+        })
+        .join("");
+    case "lines":
+      // Empty paragraph after the table keeps following headings apart.
+      return linesTable(block, dir) + paragraph("");
+  }
+}
+
+// ============================================================================
+// Package Parts
+// ============================================================================
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+function stylesXml(locale: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${W_NS}>
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia" w:cs="Georgia"/><w:sz w:val="22"/><w:lang w:val="${xml(locale)}"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="120"/></w:pPr><w:rPr><w:sz w:val="40"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="666666"/><w:sz w:val="18"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:caps/><w:color w:val="444444"/><w:sz w:val="24"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:color w:val="555555"/><w:sz w:val="22"/></w:rPr></w:style>
+  <w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:color="D9D9D9"/><w:bottom w:val="single" w:sz="4" w:color="D9D9D9"/><w:insideH w:val="single" w:sz="4" w:color="D9D9D9"/></w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+}
+
+function coreXml(title: string, locale: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <dc:title>${xml(title)}</dc:title>
+  <dc:language>${xml(locale)}</dc:language>
+</cp:coreProperties>`;
+}
+
+/**
+ * Render a diary entry as a .docx file.
+ */
+export function buildEntryDocx(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels,
+  options?: ExportOptions
+): Uint8Array {
+  const doc = buildExportDocument(entry, labels, options);
+
+  const body = [
+    heading(doc.title, "Title", lineDirection(doc.title, doc.dir)),
+    ...doc.meta.map((line) => heading(line, "Subtitle", doc.dir)),
+    ...doc.sections.flatMap((section) => [
+      heading(section.title, "Heading1", doc.dir),
+      ...section.blocks.map((block) => renderBlock(block, doc.dir)),
+    ]),
+  ].join("");
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W_NS}><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip([
+    { name: "[Content_Types].xml", data: CONTENT_TYPES },
+    { name: "_rels/.rels", data: ROOT_RELS },
+    { name: "docProps/core.xml", data: coreXml(doc.title, doc.locale) },
+    { name: "word/_rels/document.xml.rels", data: DOCUMENT_RELS },
+    { name: "word/styles.xml", data: stylesXml(doc.locale) },
+    { name: "word/document.xml", data: documentXml },
+  ]);
+}
@@ -2,6 +2,12 @@ import type {
   DiaryEntry,
   DiaryExportLabels,
 } from "@/lib/diary/types";
+import {
+  isolateBidi,
+  lineDirection,
+  resolveTextDirection,
+  type TextDirection,
+} from "@/lib/i18n/textDirection";
 
 function escapeHtml(text: string): string {
   return text
@@ -30,6 +36,20 @@ function getValidLines(entry: DiaryEntry) {
   );
 }
 
+/**
+ * Direction of the original and translated columns, from their letters (the
+ * UI locale says nothing about the poem's languages).
+ */
+function getLineDirections(
+  entry: DiaryEntry
+): { original: TextDirection; translated: TextDirection } {
+  const lines = getValidLines(entry);
+  return {
+    original: resolveTextDirection(lines.map((line) => line.original).join("\n")),
+    translated: resolveTextDirection(lines.map((line) => line.translated).join("\n")),
+  };
+}
+
 function hasThreadNote(entry: DiaryEntry): boolean {
   return !!entry.notebook_notes?.thread_note?.trim();
 }
@@ -104,9 +124,9 @@ function buildTranslationSectionTxt(
   parts.push(`${labels.translation}\n${"=".repeat(60)}\n`);
 
   lines.forEach((line, idx) => {
-    parts.push(`Line ${idx + 1}`);
-    parts.push(`${labels.originalText}: ${line.original}`);
-    parts.push(`${labels.translatedText}: ${line.translated}`);
+    parts.push(`${labels.line} ${idx + 1}`);
+    parts.push(`${labels.originalText}: ${isolateBidi(line.original)}`);
+    parts.push(`${labels.translatedText}: ${isolateBidi(line.translated)}`);
     parts.push("");
   });
 
@@ -129,7 +149,7 @@ function buildNotesAndReflectionSectionTxt(
   if (lineNoteEntries.length > 0) {
     parts.push(`${labels.lineNotes}:`);
     lineNoteEntries.forEach(({ lineIndex, note }) => {
-      parts.push(`  Line ${lineIndex + 1}: ${note}`);
+      parts.push(`  ${labels.line} ${lineIndex + 1}: ${isolateBidi(note)}`);
     });
     parts.push("");
   }
@@ -163,7 +183,7 @@ function buildInsightsSectionTxt(
         parts.push(`   ${s.description}`);
         if (s.lineReferences?.length) {
           parts.push(
-            `   Lines: ${s.lineReferences.map((n) => n + 1).join(", ")}`
+            `   ${labels.lineReferences}: ${s.lineReferences.map((n) => n + 1).join(", ")}`
           );
         }
       });
@@ -233,29 +253,71 @@ export function exportEntryAsTxt(
   const slug = slugifyTitle(entry.title || labels.untitledPoem);
   const date = new Date(entry.thread_created_at).toISOString().slice(0, 10);
   const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+  downloadBlob(blob, `diary-${slug}-${date}.txt`);
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = `diary-${slug}-${date}.txt`;
+  a.download = fileName;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Markdown, DOCX and EPUB are rendered server-side (POST /api/diary/export)
+ * from the stored thread; this posts its id and the labels and downloads the
+ * returned file.
+ */
+export async function downloadEntryExport(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels,
+  format: "md" | "docx" | "epub",
+  options: { locale?: string; accessToken?: string } = {}
+): Promise<void> {
+  const res = await fetch("/api/diary/export", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(options.accessToken
+        ? { Authorization: `Bearer ${options.accessToken}` }
+        : {}),
+    },
+    credentials: "include",
+    body: JSON.stringify({
+      format,
+      locale: options.locale,
+      threadId: entry.thread_id,
+      labels,
+    }),
+  });
+  if (!res.ok) {
+    throw new Error(`Export failed (${res.status})`);
+  }
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const fileName =
+    /filename="([^"]+)"/.exec(disposition)?.[1] ??
+    `diary-${slugifyTitle(entry.title || labels.untitledPoem)}.${format}`;
+  downloadBlob(await res.blob(), fileName);
+}
+
 function buildTranslationSectionHtml(
   entry: DiaryEntry,
   labels: DiaryExportLabels
 ): string {
   const lines = getValidLines(entry);
+  const dirs = getLineDirections(entry);
 
   const rows = lines
     .map(
       (line, idx) => `
         <div class="comparison-row">
           <div class="line-number">${idx + 1}</div>
-          <div class="source">${escapeHtml(line.original)}</div>
-          <div class="translation">${escapeHtml(line.translated)}</div>
+          <div class="source" dir="${lineDirection(line.original, dirs.original)}">${escapeHtml(line.original)}</div>
+          <div class="translation" dir="${lineDirection(line.translated, dirs.translated)}">${escapeHtml(line.translated)}</div>
         </div>
       `
     )
@@ -284,14 +346,14 @@ function buildNotesAndReflectionSectionHtml(
   if (hasThreadNote(entry)) {
     inner += `
       <h3>${escapeHtml(labels.threadNote)}</h3>
-      <p class="prose">${escapeHtml(entry.notebook_notes!.thread_note!)}</p>
+      <p class="prose" dir="auto">${escapeHtml(entry.notebook_notes!.thread_note!)}</p>
     `;
   }
 
   if (lineNoteEntries.length > 0) {
     inner += `<h3>${escapeHtml(labels.lineNotes)}</h3><ul>`;
     lineNoteEntries.forEach(({ lineIndex, note }) => {
-      inner += `<li><strong>Line ${lineIndex + 1}:</strong> ${escapeHtml(note)}</li>`;
+      inner += `<li><strong>${escapeHtml(labels.line)} ${lineIndex + 1}:</strong> <bdi>${escapeHtml(note)}</bdi></li>`;
     });
     inner += `</ul>`;
   }
@@ -299,7 +361,7 @@ function buildNotesAndReflectionSectionHtml(
   if (entry.expressYourView?.trim()) {
     inner += `
       <h3>${escapeHtml(labels.expressYourView)}</h3>
-      <p class="prose whitespace">${escapeHtml(entry.expressYourView)}</p>
+      <p class="prose whitespace" dir="auto">${escapeHtml(entry.expressYourView)}</p>
     `;
   }
 
@@ -326,7 +388,7 @@ function buildInsightsSectionHtml(
       inner += `<h3>${escapeHtml(labels.suggestions)}</h3><ol>`;
       ti.suggestions.forEach((s) => {
         const lines = s.lineReferences?.length
-          ? ` <span class="muted">(Lines ${s.lineReferences.map((n) => n + 1).join(", ")})</span>`
+          ? ` <span class="muted">(${escapeHtml(labels.lineReferences)} ${s.lineReferences.map((n) => n + 1).join(", ")})</span>`
           : "";
         inner += `<li><strong>${escapeHtml(s.title)}</strong>${lines}<br/>${escapeHtml(s.description)}</li>`;
       });
@@ -350,7 +412,7 @@ function buildJourneySectionHtml(
 
   if (hasJourneyContent(entry)) {
     if (entry.reflection_text) {
-      inner += `<p class="prose">${escapeHtml(entry.reflection_text)}</p>`;
+      inner += `<p class="prose" dir="auto">${escapeHtml(entry.reflection_text)}</p>`;
     }
 
     const listBlock = (title: string, items: string[] | null) => {
@@ -535,7 +597,10 @@ export function exportEntryAsPdf(
 }
 
 export {
+  escapeHtml,
+  slugifyTitle,
   getValidLines,
+  getLineDirections,
   getLineNoteEntries,
   hasThreadNote,
   hasLineNotes,
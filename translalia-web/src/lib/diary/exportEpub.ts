@@ -0,0 +1,194 @@
+/**
+ * Bilingual EPUB 3 export for diary entries.
+ *
+ * One XHTML chapter per section plus a title page and navigation document.
+ * The translation chapter pairs each original line with its translation in
+ * a two-column table, so e-readers show source and translation side by side.
+ */
+
+import type { DiaryEntry, DiaryExportLabels } from "@/lib/diary/types";
+import { lineDirection, type TextDirection } from "@/lib/i18n/textDirection";
+import { escapeHtml } from "@/lib/diary/exportEntry";
+import {
+  buildExportDocument,
+  type ExportBlock,
+  type ExportOptions,
+  type ExportSection,
+} from "@/lib/diary/exportDocument";
+import { createZip } from "@/lib/diary/zip";
+
+export const EPUB_MIME_TYPE = "application/epub+zip";
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+const STYLESHEET = `body { font-family: Georgia, serif; line-height: 1.6; margin: 1em; }
+h1 { font-size: 1.6em; font-weight: normal; margin: 0 0 0.5em; }
+h2 { font-size: 1em; text-transform: uppercase; letter-spacing: 0.08em; border-bottom: 2px solid #ddd; padding-bottom: 0.3em; }
+h3 { font-size: 0.95em; margin: 1em 0 0.4em; }
+.meta { color: #666; font-size: 0.9em; }
+table.facing { width: 100%; border-collapse: collapse; }
+table.facing th { font-size: 0.75em; text-transform: uppercase; color: #666; text-align: start; border-bottom: 2px solid #333; }
+table.facing td { vertical-align: top; padding: 0.4em 0.5em 0.4em 0; border-bottom: 1px solid #eee; }
+td.num { color: #999; font-size: 0.8em; width: 2em; }
+td.original { font-style: italic; color: #555; width: 48%; }
+p.prose { white-space: pre-wrap; }
+`;
+
+const h = escapeHtml;
+
+function xhtmlPage(
+  title: string,
+  lang: string,
+  dir: TextDirection,
+  body: string
+): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${h(lang)}" xml:lang="${h(lang)}" dir="${dir}">
+<head>
+  <meta charset="utf-8"/>
+  <title>${h(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function renderBlock(block: ExportBlock): string {
+  switch (block.type) {
+    case "heading":
+      return `<h3>${h(block.text)}</h3>`;
+    case "paragraph":
+      return `<p class="prose" dir="auto">${h(block.text)}</p>`;
+    case "list": {
+      const tag = block.ordered ? "ol" : "ul";
+      const items = block.items
+        .map(
+          (item) =>
+            `<li>${item.title ? `<strong>${h(item.title)}:</strong> ` : ""}<bdi>${h(item.text)}</bdi></li>`
+        )
+        .join("");
+      return `<${tag}>${items}</${tag}>`;
+    }
+    case "lines": {
+      const rows = block.rows
+        .map(
+          (row) =>
+            `<tr><td class="num">${row.number}</td><td class="original" dir="${lineDirection(row.original, block.originalDir)}">${h(row.original)}</td><td class="translated" dir="${lineDirection(row.translated, block.translatedDir)}">${h(row.translated)}</td></tr>`
+        )
+        .join("\n");
+      return `<table class="facing">
+<thead><tr><th></th><th>${h(block.originalLabel)}</th><th>${h(block.translatedLabel)}</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+    }
+  }
+}
+
+function chapterFile(section: ExportSection): string {
+  return `${section.id}.xhtml`;
+}
+
+/** EPUB requires dcterms:modified as CCYY-MM-DDThh:mm:ssZ. */
+function epubTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 19)}Z`;
+}
+
+/**
+ * Render a diary entry as a bilingual .epub file.
+ */
+export function buildEntryEpub(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels,
+  options: ExportOptions = {}
+): Uint8Array {
+  const generatedAt = options.generatedAt ?? new Date();
+  const doc = buildExportDocument(entry, labels, { ...options, generatedAt });
+  const lang = doc.locale;
+
+  const titlePage = xhtmlPage(
+    doc.title,
+    lang,
+    doc.dir,
+    `<h1>${h(doc.title)}</h1>\n${doc.meta
+      .map((line) => `<p class="meta">${h(line)}</p>`)
+      .join("\n")}`
+  );
+
+  const chapters = doc.sections.map((section) => ({
+    file: chapterFile(section),
+    html: xhtmlPage(
+      section.title,
+      lang,
+      doc.dir,
+      `<section epub:type="chapter">\n<h2>${h(section.title)}</h2>\n${section.blocks
+        .map(renderBlock)
+        .join("\n")}\n</section>`
+    ),
+  }));
+
+  const nav = xhtmlPage(
+    labels.title,
+    lang,
+    doc.dir,
+    `<nav epub:type="toc" id="toc">
+<h2>${h(doc.title)}</h2>
+<ol>
+${doc.sections
+  .map((s) => `<li><a href="${chapterFile(s)}">${h(s.title)}</a></li>`)
+  .join("\n")}
+</ol>
+</nav>`
+  );
+
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="css" href="style.css" media-type="text/css"/>',
+    '<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>',
+    ...doc.sections.map(
+      (s) =>
+        `<item id="${s.id}" href="${chapterFile(s)}" media-type="application/xhtml+xml"/>`
+    ),
+  ].join("\n    ");
+
+  const spine = [
+    '<itemref idref="title"/>',
+    ...doc.sections.map((s) => `<itemref idref="${s.id}"/>`),
+  ].join("\n    ");
+
+  const contentOpf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${h(lang)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:translalia:diary:${h(entry.thread_id)}</dc:identifier>
+    <dc:title>${h(doc.title)}</dc:title>
+    <dc:language>${h(lang)}</dc:language>
+    <meta property="dcterms:modified">${epubTimestamp(generatedAt)}</meta>
+  </metadata>
+  <manifest>
+    ${manifest}
+  </manifest>
+  <spine page-progression-direction="${doc.dir}">
+    ${spine}
+  </spine>
+</package>`;
+
+  return createZip([
+    // mimetype must come first and be stored uncompressed
+    { name: "mimetype", data: EPUB_MIME_TYPE },
+    { name: "META-INF/container.xml", data: CONTAINER_XML },
+    { name: "OEBPS/content.opf", data: contentOpf },
+    { name: "OEBPS/nav.xhtml", data: nav },
+    { name: "OEBPS/style.css", data: STYLESHEET },
+    { name: "OEBPS/title.xhtml", data: titlePage },
+    ...chapters.map((c) => ({ name: `OEBPS/${c.file}`, data: c.html })),
+  ]);
+}
@@ -0,0 +1,74 @@
+/**
+ * Markdown export for diary entries. The translation is a three-column table
+ * (line number, original, translation); other sections are headings, prose
+ * and lists.
+ */
+
+import type { DiaryEntry, DiaryExportLabels } from "@/lib/diary/types";
+import { isolateBidi } from "@/lib/i18n/textDirection";
+import {
+  buildExportDocument,
+  type ExportBlock,
+  type ExportOptions,
+} from "@/lib/diary/exportDocument";
+
+/** Escape Markdown control characters in user text. */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]#<>|])/g, "\\$1");
+}
+
+/**
+ * Table cells cannot hold newlines. Right-to-left text is isolated so it does
+ * not reorder the pipes and cells around it.
+ */
+function cell(text: string): string {
+  return isolateBidi(escapeMarkdown(text).replace(/\r?\n/g, "<br>"));
+}
+
+function renderBlock(block: ExportBlock): string {
+  switch (block.type) {
+    case "heading":
+      return `### ${escapeMarkdown(block.text)}`;
+    case "paragraph":
+      return escapeMarkdown(block.text);
+    case "list":
+      return block.items
+        .map((item, i) => {
+          const bullet = block.ordered ? `${i + 1}.` : "-";
+          const title = item.title ? `**${escapeMarkdown(item.title)}**: ` : "";
+          return `${bullet} ${title}${isolateBidi(escapeMarkdown(item.text))}`;
+        })
+        .join("\n");
+    case "lines":
+      return [
+        `| # | ${cell(block.originalLabel)} | ${cell(block.translatedLabel)} |`,
+        "| ---: | --- | --- |",
+        ...block.rows.map(
+          (row) =>
+            `| ${row.number} | ${cell(row.original)} | ${cell(row.translated)} |`
+        ),
+      ].join("\n");
+  }
+}
+
+/**
+ * Render a diary entry as a Markdown document.
+ */
+export function buildEntryMarkdown(
+  entry: DiaryEntry,
+  labels: DiaryExportLabels,
+  options?: ExportOptions
+): string {
+  const doc = buildExportDocument(entry, labels, options);
+  const parts = [
+    `# ${escapeMarkdown(doc.title)}`,
+    doc.meta.map((line) => `_${escapeMarkdown(line)}_`).join("  \n"),
+  ];
+
+  for (const section of doc.sections) {
+    parts.push(`## ${escapeMarkdown(section.title)}`);
+    parts.push(...section.blocks.map(renderBlock));
+  }
+
+  return `${parts.join("\n\n")}\n`;
+}
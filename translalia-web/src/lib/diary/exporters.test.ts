@@ -0,0 +1,176 @@
+/**
+ * Tests for the Markdown, DOCX and EPUB diary exporters: every format keeps
+ * the same sections and labels, and the ZIP-based formats are valid packages.
+ *
+ * Run with: npx vitest run src/lib/diary/exporters.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import type { DiaryEntry, DiaryExportLabels } from "./types";
+import { buildEntryMarkdown } from "./exportMarkdown";
+import { buildEntryDocx } from "./exportDocx";
+import { buildEntryEpub } from "./exportEpub";
+import { exportFileName } from "./exportDocument";
+
+const labels: DiaryExportLabels = {
+  title: "Diary",
+  heading: "Completed poems",
+  originalText: "Original",
+  translatedText: "Translation",
+  translation: "Translation",
+  notes: "Notes",
+  threadNote: "Poem note",
+  lineNote: "Line note",
+  lineNotes: "Line notes",
+  translationInsights: "Translation insights",
+  yourTranslationAims: "Your aims",
+  suggestions: "Suggestions",
+  journeySummary: "Journey summary",
+  insights: "Insights",
+  strengths: "Strengths",
+  challenges: "Challenges",
+  recommendations: "Recommendations",
+  expressYourView: "Your view",
+  originalTextFull: "Full original text",
+  notesAndReflection: "Notes & reflection",
+  generatedOn: "Generated on",
+  lineCount: "lines",
+  untitledPoem: "Untitled",
+  line: "Verso",
+  lineReferences: "Versos",
+};
+
+const entry: DiaryEntry = {
+  thread_id: "11111111-1111-4111-8111-111111111111",
+  title: "Caminante",
+  thread_created_at: "2026-01-05T10:00:00.000Z",
+  raw_poem: "Caminante, no hay camino\nse hace camino al andar",
+  workshop_lines: [
+    { original: "Caminante, no hay camino", translated: "Walker, there is no road" },
+    null,
+    { original: "se hace camino al andar", translated: "the road is made <by> walking" },
+  ],
+  notebook_notes: { thread_note: "Keep it plain.", line_notes: { 2: "Verb choice" } },
+  expressYourView: null,
+  translationInsights: {
+    aims: "Stay close to the rhythm.",
+    suggestions: [
+      { title: "Echo", description: "Repeat road.", lineReferences: [0, 1] },
+    ],
+  },
+  journey_summary_created_at: null,
+  reflection_text: null,
+  insights: null,
+  strengths: null,
+  challenges: null,
+  recommendations: null,
+};
+
+const options = { locale: "en-US", generatedAt: new Date("2026-02-01T12:00:00Z") };
+
+/** Read a stored (uncompressed) ZIP into name -> text, in archive order. */
+function readZip(bytes: Uint8Array): Array<{ name: string; method: number; text: string }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const files: Array<{ name: string; method: number; text: string }> = [];
+  let pos = 0;
+  while (view.getUint32(pos, true) === 0x04034b50) {
+    const method = view.getUint16(pos + 8, true);
+    const size = view.getUint32(pos + 18, true);
+    const nameLen = view.getUint16(pos + 26, true);
+    const extraLen = view.getUint16(pos + 28, true);
+    const nameStart = pos + 30;
+    const dataStart = nameStart + nameLen + extraLen;
+    files.push({
+      name: decoder.decode(bytes.subarray(nameStart, nameStart + nameLen)),
+      method,
+      text: decoder.decode(bytes.subarray(dataStart, dataStart + size)),
+    });
+    pos = dataStart + size;
+  }
+  return files;
+}
+
+describe("diary exporters", () => {
+  it("renders Markdown with a facing table and localized labels", () => {
+    const md = buildEntryMarkdown(entry, labels, options);
+
+    expect(md).toContain("# Caminante");
+    expect(md).toContain("| # | Original | Translation |");
+    expect(md).toContain("| 2 | se hace camino al andar | the road is made \\<by\\> walking |");
+    expect(md).toContain("## Translation insights");
+    expect(md).toContain("**Echo**: Repeat road. (Versos 1, 2)");
+    expect(md).toContain("**Verso 3**: Verb choice");
+    expect(md).not.toContain("## Journey summary");
+  });
+
+  it("builds a DOCX package with the facing-page table", () => {
+    const files = readZip(buildEntryDocx(entry, labels, options));
+    const names = files.map((f) => f.name);
+
+    expect(names).toContain("[Content_Types].xml");
+    const documentXml = files.find((f) => f.name === "word/document.xml")!.text;
+    expect(documentXml).toContain("<w:tbl>");
+    expect(documentXml).toContain("<w:tblHeader/>");
+    expect(documentXml).toContain("the road is made &lt;by&gt; walking");
+    expect(documentXml).toContain("Verso 3: ");
+  });
+
+  it("builds an EPUB with mimetype first and one chapter per section", () => {
+    const files = readZip(buildEntryEpub(entry, labels, options));
+
+    expect(files[0]).toEqual({
+      name: "mimetype",
+      method: 0,
+      text: "application/epub+zip",
+    });
+    const opf = files.find((f) => f.name === "OEBPS/content.opf")!.text;
+    expect(opf).toContain("<dc:language>en-US</dc:language>");
+    expect(opf).toContain('<meta property="dcterms:modified">2026-02-01T12:00:00Z</meta>');
+    expect(files.map((f) => f.name)).toEqual(
+      expect.arrayContaining([
+        "OEBPS/translation.xhtml",
+        "OEBPS/translationInsights.xhtml",
+        "OEBPS/notesAndReflection.xhtml",
+      ])
+    );
+    const chapter = files.find((f) => f.name === "OEBPS/translation.xhtml")!.text;
+    expect(chapter).toContain('<td class="original" dir="ltr">Caminante, no hay camino</td>');
+  });
+
+  it("marks right-to-left lines in every format", () => {
+    const arabic: DiaryEntry = {
+      ...entry,
+      workshop_lines: [
+        { original: "أيها السائر، لا طريق", translated: "Walker, there is no road" },
+        { original: "Machado، ١٩١٢", translated: "Machado, 1912" },
+      ],
+      notebook_notes: { line_notes: { 0: "السائر = walker" } },
+    };
+
+    const md = buildEntryMarkdown(arabic, labels, options);
+    expect(md).toContain("| 1 | \u2068أيها السائر، لا طريق\u2069 | Walker, there is no road |");
+    expect(md).toContain("**Verso 1**: \u2068السائر = walker\u2069");
+
+    const documentXml = readZip(buildEntryDocx(arabic, labels, options)).find(
+      (f) => f.name === "word/document.xml"
+    )!.text;
+    expect(documentXml).toContain(
+      '<w:p><w:pPr><w:bidi/></w:pPr><w:r><w:rPr><w:i/><w:iCs/><w:rtl/></w:rPr><w:t xml:space="preserve">أيها السائر، لا طريق</w:t>'
+    );
+    // A Latin-only line in the RTL column keeps its own direction
+    expect(documentXml).toContain(
+      '<w:p><w:r><w:rPr><w:i/><w:iCs/></w:rPr><w:t xml:space="preserve">Machado، ١٩١٢</w:t>'
+    );
+
+    const chapter = readZip(buildEntryEpub(arabic, labels, options)).find(
+      (f) => f.name === "OEBPS/translation.xhtml"
+    )!.text;
+    expect(chapter).toContain('<td class="original" dir="rtl">أيها السائر، لا طريق</td>');
+    expect(chapter).toContain('<td class="translated" dir="ltr">Walker, there is no road</td>');
+  });
+
+  it("names files after the title and thread date", () => {
+    expect(exportFileName(entry, labels, "epub")).toBe("diary-caminante-2026-01-05.epub");
+  });
+});
@@ -69,4 +69,8 @@ export type DiaryExportLabels = {
   generatedOn: string;
   lineCount: string;
   untitledPoem: string;
+  /** "Line" as in "Line 3". */
+  line: string;
+  /** Prefix for a suggestion's line references, as in "Lines: 1, 3". */
+  lineReferences: string;
 };
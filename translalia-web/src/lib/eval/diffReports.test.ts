@@ -0,0 +1,117 @@
+/**
+ * Tests for golden-set eval scoring and report diffs: the golden mock client
+ * replays golden references, and a worse run is flagged as a regression.
+ *
+ * Run with: npx vitest run src/lib/eval/diffReports.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { loadGoldenSet, type GoldenPoem } from "./goldenSet";
+import { createGoldenMockClient } from "./goldenMockClient";
+import { poemMetrics, scoreLine, scorePoem, summarizeMetrics } from "./scoring";
+import { diffEvalReports } from "./diffReports";
+import type { EvalPoemResult, EvalReport } from "./types";
+
+const goldenSet = loadGoldenSet("v1");
+const machado = goldenSet.poems.find((p) => p.id === "machado-caminante")!;
+
+function buildReport(runId: string, poem: GoldenPoem, variantsFor: (i: number) => string[]): EvalReport {
+  const lines = poem.lines.map((line, lineIndex) =>
+    scoreLine({
+      lineIndex,
+      line,
+      poem,
+      variants: variantsFor(lineIndex),
+      regenPerformed: false,
+      durationMs: 0,
+    })
+  );
+  const scorecard = scorePoem(poem, lines);
+  const result: EvalPoemResult = {
+    poemId: poem.id,
+    title: poem.title,
+    sourceLanguage: poem.sourceLanguage,
+    targetLanguage: poem.targetLanguage,
+    mode: poem.mode,
+    lines,
+    scorecard,
+    metrics: poemMetrics(lines, scorecard),
+  };
+  return {
+    runId,
+    goldenSetVersion: goldenSet.version,
+    method: "method-2",
+    model: "fake",
+    clientKind: "fake",
+    startedAt: "2026-01-01T00:00:00.000Z",
+    finishedAt: "2026-01-01T00:00:00.000Z",
+    durationMs: 0,
+    poems: [result],
+    summary: summarizeMetrics([result.metrics]),
+  };
+}
+
+const goldenVariants = (i: number) => [machado.lines[i].reference, ...machado.lines[i].alternates];
+
+describe("goldenMockClient", () => {
+  it("answers with the golden variants of the quoted line, not its neighbours", async () => {
+    const client = createGoldenMockClient(goldenSet);
+    const completion = await client.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "user",
+          content: `Previous line: "${machado.lines[1].source}"\nSOURCE LINE: "${machado.lines[2].source}"`,
+        },
+      ],
+    });
+    const body = JSON.parse(completion.choices[0].message.content ?? "{}");
+    expect(body.variants.map((v: { text: string }) => v.text)).toEqual(goldenVariants(2));
+  });
+
+  it("rejects prompts that quote no golden line", async () => {
+    const client = createGoldenMockClient(goldenSet);
+    await expect(
+      client.chat.completions.create({
+        model: "gpt-4o",
+        messages: [{ role: "user", content: 'Translate "something else"' }],
+      })
+    ).rejects.toThrow(/golden-set line/);
+  });
+});
+
+describe("diffEvalReports", () => {
+  it("reports no changes between identical runs", () => {
+    const diff = diffEvalReports(buildReport("a", machado, goldenVariants), buildReport("b", machado, goldenVariants));
+    expect(diff.comparable).toBe(true);
+    expect(diff.regressed).toBe(false);
+    expect(diff.metricChanges).toEqual([]);
+    expect(diff.lineChanges).toEqual([]);
+  });
+
+  it("flags a run that drops negation as a fidelity regression", () => {
+    const previous = buildReport("a", machado, goldenVariants);
+    const current = buildReport("b", machado, (i) =>
+      i === 2
+        ? ["traveler, there is a road,", "wanderer, a path is waiting,", "walker, there is a way,"]
+        : goldenVariants(i)
+    );
+
+    const diff = diffEvalReports(previous, current);
+    expect(diff.regressed).toBe(true);
+    expect(diff.lineChanges).toEqual([
+      expect.objectContaining({ poemId: "machado-caminante", lineIndex: 2, newFailures: ["fidelity"] }),
+    ]);
+    expect(diff.metricChanges).toContainEqual(
+      expect.objectContaining({ metric: "fidelityPassRate", poemId: null, regressed: true })
+    );
+  });
+
+  it("never flags runs of different methods as regressions", () => {
+    const previous = { ...buildReport("a", machado, goldenVariants), method: "method-1" as const };
+    const current = buildReport("b", machado, () => ["", "", ""]);
+    const diff = diffEvalReports(previous, current);
+    expect(diff.comparable).toBe(false);
+    expect(diff.regressed).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Eval Report Diff - compare a run with the previous one to flag regressions
+ *
+ * A metric regresses when it moves in its bad direction by more than the
+ * tolerance; a line regresses when a gate that passed before fails now.
+ */
+
+import type {
+  EvalLineChange,
+  EvalLineResult,
+  EvalMetricChange,
+  EvalMetricName,
+  EvalMetrics,
+  EvalReport,
+  EvalReportDiff,
+} from "./types";
+
+/** Metrics where a lower value is better; all others are higher-is-better */
+const LOWER_IS_BETTER: ReadonlySet<EvalMetricName> = new Set([
+  "errorRate",
+  "avgPairwiseSimilarity",
+  "regenRate",
+]);
+
+const METRIC_NAMES: EvalMetricName[] = [
+  "errorRate",
+  "fidelityPassRate",
+  "distinctnessPassRate",
+  "openerDistinctPct",
+  "avgPairwiseSimilarity",
+  "regenRate",
+  "referenceOverlap",
+];
+
+/** Changes smaller than this are noise (rates are 0-1) */
+export const DEFAULT_REGRESSION_TOLERANCE = 0.02;
+
+function compareMetrics(
+  previous: EvalMetrics,
+  current: EvalMetrics,
+  poemId: string | null,
+  tolerance: number
+): EvalMetricChange[] {
+  return METRIC_NAMES.flatMap((metric) => {
+    const delta = current[metric] - previous[metric];
+    if (delta === 0) return [];
+    const worse = LOWER_IS_BETTER.has(metric) ? delta : -delta;
+    return [
+      {
+        metric,
+        poemId,
+        previous: previous[metric],
+        current: current[metric],
+        delta,
+        regressed: worse > tolerance,
+      },
+    ];
+  });
+}
+
+function compareLine(
+  poemId: string,
+  previous: EvalLineResult,
+  current: EvalLineResult
+): EvalLineChange | null {
+  const newFailures: EvalLineChange["newFailures"] = [];
+  if (!previous.error && current.error) newFailures.push("error");
+  if (previous.fidelity.pass && !current.fidelity.pass) newFailures.push("fidelity");
+  if (previous.distinctness.pass && !current.distinctness.pass) newFailures.push("distinctness");
+
+  const variantsChanged =
+    previous.variants.length !== current.variants.length ||
+    previous.variants.some((text, i) => text !== current.variants[i]);
+  if (!variantsChanged && newFailures.length === 0) return null;
+
+  return {
+    poemId,
+    lineIndex: current.lineIndex,
+    previousVariants: previous.variants,
+    currentVariants: current.variants,
+    newFailures,
+  };
+}
+
+/**
+ * Diff two eval reports. Runs against different golden sets or methods are
+ * marked not comparable and never flagged as regressions.
+ */
+export function diffEvalReports(
+  previous: EvalReport,
+  current: EvalReport,
+  opts?: { tolerance?: number }
+): EvalReportDiff {
+  const tolerance = opts?.tolerance ?? DEFAULT_REGRESSION_TOLERANCE;
+  const comparable =
+    previous.goldenSetVersion === current.goldenSetVersion && previous.method === current.method;
+
+  const previousPoems = new Map(previous.poems.map((poem) => [poem.poemId, poem]));
+  const currentIds = new Set(current.poems.map((poem) => poem.poemId));
+
+  const metricChanges = compareMetrics(previous.summary, current.summary, null, tolerance);
+  const lineChanges: EvalLineChange[] = [];
+
+  for (const poem of current.poems) {
+    const before = previousPoems.get(poem.poemId);
+    if (!before) continue;
+    metricChanges.push(...compareMetrics(before.metrics, poem.metrics, poem.poemId, tolerance));
+
+    const beforeLines = new Map(before.lines.map((line) => [line.lineIndex, line]));
+    for (const line of poem.lines) {
+      const beforeLine = beforeLines.get(line.lineIndex);
+      const change = beforeLine ? compareLine(poem.poemId, beforeLine, line) : null;
+      if (change) lineChanges.push(change);
+    }
+  }
+
+  const regressed =
+    comparable &&
+    (metricChanges.some((change) => change.regressed) ||
+      lineChanges.some((change) => change.newFailures.length > 0));
+
+  return {
+    previousRunId: previous.runId,
+    currentRunId: current.runId,
+    comparable,
+    regressed,
+    metricChanges,
+    lineChanges,
+    addedPoems: current.poems.map((p) => p.poemId).filter((id) => !previousPoems.has(id)),
+    removedPoems: previous.poems.map((p) => p.poemId).filter((id) => !currentIds.has(id)),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Golden Mock Client - offline, deterministic stand-in for eval runs
+ *
+ * The mock provider's client (@/lib/ai/providers/mockProvider), answering
+ * from the golden set instead of the generic mock fixtures, so eval runs cost
+ * nothing and are reproducible. It finds the line being translated as the
+ * first quoted golden source line in the prompt (skipping quoted
+ * previous/next lines) and answers with that line's reference and alternates
+ * as variants A/B/C. Recipe prompts that quote no single line get the mock
+ * placeholder recipes (the pipeline then uses its default recipes).
+ *
+ * Score changes under this client therefore come from prompt handling,
+ * parsing, gates and scoring, not from model output.
+ */
+
+import type OpenAI from "openai";
+import { createMockClient } from "@/lib/ai/providers/mockProvider";
+import {
+  MOCK_RECIPES,
+  lineBodyFromTexts,
+  regenerationLabel,
+  resolveMockResponse,
+  type MockRequest,
+} from "@/lib/ai/providers/mockFixtures";
+import type { GoldenLine, GoldenSet } from "./goldenSet";
+
+const LABELS = ["A", "B", "C"] as const;
+
+const CONTEXT_QUOTE = /(previous line|next line|current translation[^:\n]*):\s*$/i;
+
+/**
+ * The line being translated: line prompts quote it (`SOURCE LINE: "..."`,
+ * `Current line (TO TRANSLATE): "..."`), and may also quote neighbouring
+ * lines for context
+ */
+function findSourceLine(prompt: string, known: Map<string, GoldenLine>): GoldenLine | null {
+  for (const match of prompt.matchAll(/"([^"\n]+)"/g)) {
+    const before = prompt.slice(Math.max(0, (match.index ?? 0) - 60), match.index);
+    if (CONTEXT_QUOTE.test(before)) continue;
+    const line = known.get(match[1].trim());
+    if (line) return line;
+  }
+  return null;
+}
+
+function goldenBody(line: GoldenLine, prompt: string) {
+  const texts = [line.reference, ...line.alternates];
+  const labels: string[] = texts.map((_, i) => LABELS[i % LABELS.length]);
+  const regenIndex = labels.indexOf(regenerationLabel(prompt) ?? "A");
+
+  return {
+    ...lineBodyFromTexts(line.source, labels, texts, texts[Math.max(0, regenIndex)]),
+    recipes: MOCK_RECIPES,
+  };
+}
+
+/**
+ * Create a chat-completions client that replays golden references. Pass it
+ * to withModelClient() to scope it to an eval run.
+ */
+export function createGoldenMockClient(goldenSet: GoldenSet): OpenAI {
+  const linesBySource = new Map<string, GoldenLine>();
+  for (const poem of goldenSet.poems) {
+    for (const line of poem.lines) {
+      linesBySource.set(line.source.trim(), line);
+    }
+  }
+
+  return createMockClient("eval", (req: MockRequest) => {
+    const prompt = `${req.system}\n${req.user}`;
+    const line = findSourceLine(prompt, linesBySource);
+    if (line) return JSON.stringify(goldenBody(line, prompt));
+    if (/recipe/i.test(prompt)) return resolveMockResponse({ ...req, stage: "recipes" });
+    throw new Error("Golden mock client: prompt does not quote a golden-set line");
+  });
+}
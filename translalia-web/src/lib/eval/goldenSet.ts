@@ -0,0 +1,76 @@
+/**
+ * Golden Set - versioned poems with reference translations for evaluation
+ *
+ * A golden set is frozen once published: changing a poem or reference changes
+ * every score, so edits go into a new version and reports record the version
+ * they ran against. Each line carries a reference translation plus two
+ * accepted alternates, which the golden mock client replays as the A/B/C
+ * variants for offline runs.
+ */
+
+import { z } from "zod";
+import { GOLDEN_SET_V1 } from "./goldenSets/v1";
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const GoldenLineSchema = z.object({
+  source: z.string().min(1),
+  reference: z.string().min(1),
+  /** Two further accepted translations, distinct from the reference */
+  alternates: z.tuple([z.string().min(1), z.string().min(1)]),
+});
+
+export const GoldenPoemSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  author: z.string().optional(),
+  sourceLanguage: z.string().min(1),
+  targetLanguage: z.string().min(1),
+  mode: z.enum(["focused", "balanced", "adventurous"]).default("balanced"),
+  translationIntent: z.string().optional(),
+  lines: z.array(GoldenLineSchema).min(1),
+});
+
+export const GoldenSetSchema = z.object({
+  version: z.string().regex(/^v\d+$/),
+  description: z.string(),
+  poems: z.array(GoldenPoemSchema).min(1),
+});
+
+export type GoldenLine = z.infer<typeof GoldenLineSchema>;
+export type GoldenPoem = z.infer<typeof GoldenPoemSchema>;
+export type GoldenSet = z.infer<typeof GoldenSetSchema>;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const GOLDEN_SETS: Record<string, unknown> = {
+  v1: GOLDEN_SET_V1,
+};
+
+export const LATEST_GOLDEN_SET_VERSION = "v1";
+
+export function listGoldenSetVersions(): string[] {
+  return Object.keys(GOLDEN_SETS);
+}
+
+/**
+ * Load and validate a golden set. Throws if the version is unknown.
+ */
+export function loadGoldenSet(version: string = LATEST_GOLDEN_SET_VERSION): GoldenSet {
+  const raw = GOLDEN_SETS[version];
+  if (!raw) {
+    throw new Error(`Unknown golden set version: ${version}`);
+  }
+  return GoldenSetSchema.parse(raw);
+}
+
+/**
+ * Source text of a poem, one line per golden line
+ */
+export function goldenPoemText(poem: GoldenPoem): string {
+  return poem.lines.map((line) => line.source).join("\n");
+}
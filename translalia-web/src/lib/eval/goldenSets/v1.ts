@@ -0,0 +1,153 @@
+/**
+ * Golden set v1 - short public-domain poems across four language pairs
+ *
+ * Frozen: add a v2 instead of editing this file.
+ */
+
+export const GOLDEN_SET_V1 = {
+  version: "v1",
+  description:
+    "Four short public-domain poems (es→en, en→es, zh→en, de→en) covering negation, line-final punctuation, capitalized common nouns and very short lines.",
+  poems: [
+    {
+      id: "machado-caminante",
+      title: "Caminante, no hay camino (excerpt)",
+      author: "Antonio Machado",
+      sourceLanguage: "Spanish",
+      targetLanguage: "English",
+      mode: "balanced",
+      lines: [
+        {
+          source: "Caminante, son tus huellas",
+          reference: "Traveler, your footprints are",
+          alternates: ["Wanderer, it is your footsteps that make", "Walker, the tracks you leave are"],
+        },
+        {
+          source: "el camino y nada más;",
+          reference: "the road, and nothing more;",
+          alternates: ["the path and nothing else;", "the only way there is;"],
+        },
+        {
+          source: "caminante, no hay camino,",
+          reference: "traveler, there is no road,",
+          alternates: ["wanderer, no path is waiting,", "walker, there is no way,"],
+        },
+        {
+          source: "se hace camino al andar.",
+          reference: "the road is made by walking.",
+          alternates: ["you make the path as you go.", "walking is what makes the way."],
+        },
+      ],
+    },
+    {
+      id: "dickinson-hope",
+      title: "“Hope” is the thing with feathers (first stanza)",
+      author: "Emily Dickinson",
+      sourceLanguage: "English",
+      targetLanguage: "Spanish",
+      mode: "balanced",
+      lines: [
+        {
+          source: "Hope is the thing with feathers",
+          reference: "La esperanza es esa cosa con plumas",
+          alternates: ["La esperanza es un ser con plumas", "Tiene plumas la esperanza"],
+        },
+        {
+          source: "That perches in the soul,",
+          reference: "que se posa en el alma,",
+          alternates: ["que anida dentro del alma,", "posada sobre el alma,"],
+        },
+        {
+          source: "And sings the tune without the words,",
+          reference: "y canta la melodía sin palabras,",
+          alternates: ["y entona la canción sin letra,", "y sin palabras canta su tonada,"],
+        },
+        {
+          source: "And never stops at all,",
+          reference: "y nunca se detiene,",
+          alternates: ["y no se calla jamás,", "y no cesa nunca,"],
+        },
+      ],
+    },
+    {
+      id: "li-bai-quiet-night",
+      title: "静夜思 (Quiet Night Thoughts)",
+      author: "Li Bai",
+      sourceLanguage: "Chinese",
+      targetLanguage: "English",
+      mode: "balanced",
+      lines: [
+        {
+          source: "床前明月光，",
+          reference: "Before my bed, the bright moonlight,",
+          alternates: ["Moonlight shines bright in front of my bed,", "Bright moonlight pools beside my bed,"],
+        },
+        {
+          source: "疑是地上霜。",
+          reference: "I wonder if it is frost upon the ground.",
+          alternates: ["It looks like frost lying on the floor.", "As if the ground were white with frost."],
+        },
+        {
+          source: "举头望明月，",
+          reference: "I lift my head to watch the bright moon,",
+          alternates: ["Raising my eyes, I gaze at the moon,", "Looking up, I see the shining moon,"],
+        },
+        {
+          source: "低头思故乡。",
+          reference: "I lower my head and think of home.",
+          alternates: ["Bowing my head, I long for my hometown.", "Head bent, I miss the place I was born."],
+        },
+      ],
+    },
+    {
+      id: "goethe-wandrers-nachtlied",
+      title: "Wandrers Nachtlied II",
+      author: "Johann Wolfgang von Goethe",
+      sourceLanguage: "German",
+      targetLanguage: "English",
+      mode: "focused",
+      lines: [
+        {
+          source: "Über allen Gipfeln",
+          reference: "Over all the hilltops",
+          alternates: ["Above every summit", "Over all the peaks"],
+        },
+        {
+          source: "Ist Ruh,",
+          reference: "is peace,",
+          alternates: ["there is rest,", "lies stillness,"],
+        },
+        {
+          source: "In allen Wipfeln",
+          reference: "in all the treetops",
+          alternates: ["in every treetop", "among the treetops"],
+        },
+        {
+          source: "Spürest du",
+          reference: "you feel",
+          alternates: ["you sense", "can you feel"],
+        },
+        {
+          source: "Kaum einen Hauch;",
+          reference: "hardly a breath;",
+          alternates: ["scarcely a breath;", "barely a breeze;"],
+        },
+        {
+          source: "Die Vögelein schweigen im Walde.",
+          reference: "The little birds are silent in the woods.",
+          alternates: ["The small birds hush in the forest.", "In the woods the little birds fall silent."],
+        },
+        {
+          source: "Warte nur, balde",
+          reference: "Just wait, soon",
+          alternates: ["Only wait, soon", "Wait awhile, and soon"],
+        },
+        {
+          source: "Ruhest du auch.",
+          reference: "you too will rest.",
+          alternates: ["you will rest as well.", "you also shall rest."],
+        },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,181 @@
+/**
+ * Golden-Set Eval Runner - translate every golden line and score the result
+ *
+ * Runs poems through the same internal pipeline the app uses (Method 1 or
+ * Method 2), optionally against a scoped model client such as the fake, and
+ * assembles an EvalReport. Line failures are recorded, not thrown, so one bad
+ * line never hides the rest of the run.
+ */
+
+import { randomUUID } from "node:crypto";
+import type OpenAI from "openai";
+import { withModelClient } from "@/lib/ai/openai";
+import { TRANSLATOR_MODEL } from "@/lib/models";
+import type { GuideAnswers } from "@/store/guideSlice";
+import { translateLineInternal } from "@/lib/workshop/translateLineInternal";
+import { translateLineWithRecipesInternal } from "@/lib/translation/method2/translateLineWithRecipesInternal";
+import { goldenPoemText, type GoldenPoem, type GoldenSet } from "./goldenSet";
+import { erroredLine, poemMetrics, scoreLine, scorePoem, summarizeMetrics } from "./scoring";
+import type {
+  EvalClientKind,
+  EvalLineResult,
+  EvalMethod,
+  EvalPoemResult,
+  EvalReport,
+} from "./types";
+
+export interface RunGoldenSetEvalOptions {
+  goldenSet: GoldenSet;
+  method: EvalMethod;
+  model?: string;
+  /** Model client to answer every call; omit to use the configured provider */
+  client?: OpenAI;
+  clientKind: EvalClientKind;
+  /** Restrict the run to these poems */
+  poemIds?: string[];
+}
+
+// ============================================================================
+// Line / Poem Execution
+// ============================================================================
+
+async function translateGoldenLine(params: {
+  method: EvalMethod;
+  model: string;
+  threadId: string;
+  poem: GoldenPoem;
+  lineIndex: number;
+  guideAnswers: GuideAnswers;
+}): Promise<{ variants: string[]; regenPerformed: boolean }> {
+  const { method, model, threadId, poem, lineIndex, guideAnswers } = params;
+  const shared = {
+    threadId,
+    lineIndex,
+    lineText: poem.lines[lineIndex].source,
+    fullPoem: goldenPoemText(poem),
+    prevLine: poem.lines[lineIndex - 1]?.source,
+    nextLine: poem.lines[lineIndex + 1]?.source,
+    stanzaIndex: 0,
+    guideAnswers,
+    sourceLanguage: poem.sourceLanguage,
+    targetLanguage: poem.targetLanguage,
+  };
+
+  if (method === "method-1") {
+    // Bypass the line cache so every run exercises the prompt
+    const result = await translateLineInternal({
+      ...shared,
+      modelOverride: model,
+      forceRefresh: true,
+    });
+    return {
+      variants: result.translations.map((t) => t.fullText),
+      regenPerformed: false,
+    };
+  }
+
+  // Golden poems are scored without the thread's project glossary
+  const result = await translateLineWithRecipesInternal({
+    ...shared,
+    model,
+    glossary: [],
+  });
+  return {
+    variants: result.translations.map((t) => t.fullText),
+    regenPerformed: result.qualityMetadata?.regenPerformed ?? false,
+  };
+}
+
+async function evaluatePoem(
+  poem: GoldenPoem,
+  method: EvalMethod,
+  model: string
+): Promise<EvalPoemResult> {
+  // Fresh thread per poem so recipes are never shared across runs
+  const threadId = randomUUID();
+  const guideAnswers: GuideAnswers = {
+    translationRangeMode: poem.mode,
+    translationIntent: poem.translationIntent ?? null,
+    translationMethod: method,
+  };
+
+  const lines: EvalLineResult[] = [];
+  for (let lineIndex = 0; lineIndex < poem.lines.length; lineIndex++) {
+    const line = poem.lines[lineIndex];
+    const started = Date.now();
+    try {
+      const { variants, regenPerformed } = await translateGoldenLine({
+        method,
+        model,
+        threadId,
+        poem,
+        lineIndex,
+        guideAnswers,
+      });
+      lines.push(
+        scoreLine({
+          lineIndex,
+          line,
+          poem,
+          variants,
+          regenPerformed,
+          durationMs: Date.now() - started,
+        })
+      );
+    } catch (error) {
+      console.warn(`[eval] ${poem.id} line ${lineIndex} failed:`, error);
+      lines.push(erroredLine({ lineIndex, line, durationMs: Date.now() - started, error }));
+    }
+  }
+
+  const scorecard = scorePoem(poem, lines);
+  return {
+    poemId: poem.id,
+    title: poem.title,
+    sourceLanguage: poem.sourceLanguage,
+    targetLanguage: poem.targetLanguage,
+    mode: poem.mode,
+    lines,
+    scorecard,
+    metrics: poemMetrics(lines, scorecard),
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Run a golden set through the translation pipeline and score it
+ */
+export async function runGoldenSetEval(options: RunGoldenSetEvalOptions): Promise<EvalReport> {
+  const { goldenSet, method, client, clientKind, poemIds } = options;
+  const model = options.model ?? TRANSLATOR_MODEL;
+  const poems = poemIds
+    ? goldenSet.poems.filter((poem) => poemIds.includes(poem.id))
+    : goldenSet.poems;
+
+  const startedAt = new Date();
+  const run = async () => {
+    const results: EvalPoemResult[] = [];
+    for (const poem of poems) {
+      results.push(await evaluatePoem(poem, method, model));
+    }
+    return results;
+  };
+  const results = client ? await withModelClient(client, run) : await run();
+  const finishedAt = new Date();
+
+  return {
+    runId: randomUUID(),
+    goldenSetVersion: goldenSet.version,
+    method,
+    model,
+    clientKind,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    poems: results,
+    summary: summarizeMetrics(results.map((poem) => poem.metrics)),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Eval Scoring - gate checks and aggregate metrics for golden-set runs
+ *
+ * Lines are scored with the same checks the pipeline runs in production
+ * (checkFidelity, checkDistinctness) plus overlap with the golden reference;
+ * poems with computePoemScorecard.
+ */
+
+import { computePoemScorecard, type PoemScorecard } from "@/lib/ai/scorecard";
+import { checkFidelity } from "@/lib/ai/fidelityGate";
+import { checkDistinctness, jaccardSimilarity, tokenize } from "@/lib/ai/diversityGate";
+import { pickStopwords } from "@/lib/ai/stopwords";
+import { variantLabelAt } from "@/lib/ai/variantCount";
+import type { GoldenLine, GoldenPoem } from "./goldenSet";
+import type { EvalLineResult, EvalMetrics } from "./types";
+
+// ============================================================================
+// Line Scoring
+// ============================================================================
+
+function contentTokens(text: string, stopwords: Set<string>): Set<string> {
+  return new Set([...tokenize(text)].filter((t) => !stopwords.has(t)));
+}
+
+/**
+ * Best content-token overlap of any variant with the reference translation
+ */
+export function referenceOverlap(
+  variants: string[],
+  reference: string,
+  targetLanguage?: string
+): number {
+  const stopwords = pickStopwords(targetLanguage);
+  const referenceTokens = contentTokens(reference, stopwords);
+  return variants.reduce(
+    (best, variant) =>
+      Math.max(best, jaccardSimilarity(contentTokens(variant, stopwords), referenceTokens)),
+    0
+  );
+}
+
+/**
+ * Score one translated line against its golden entry
+ */
+export function scoreLine(params: {
+  lineIndex: number;
+  line: GoldenLine;
+  poem: GoldenPoem;
+  variants: string[];
+  regenPerformed: boolean;
+  durationMs: number;
+}): EvalLineResult {
+  const { lineIndex, line, poem, variants, regenPerformed, durationMs } = params;
+  const labeled = variants.map((text, i) => ({ label: variantLabelAt(i), text }));
+
+  const fidelity = checkFidelity(line.source, labeled);
+  const distinctness = checkDistinctness(labeled, {
+    targetLanguage: poem.targetLanguage,
+    mode: poem.mode,
+    sourceText: line.source,
+  });
+
+  return {
+    lineIndex,
+    source: line.source,
+    reference: line.reference,
+    variants,
+    fidelity: { pass: fidelity.pass, reason: fidelity.reason },
+    distinctness: { pass: distinctness.pass, reason: distinctness.reason },
+    referenceOverlap: referenceOverlap(variants, line.reference, poem.targetLanguage),
+    regenPerformed,
+    durationMs,
+  };
+}
+
+/**
+ * Result for a line whose translation threw
+ */
+export function erroredLine(params: {
+  lineIndex: number;
+  line: GoldenLine;
+  durationMs: number;
+  error: unknown;
+}): EvalLineResult {
+  const { lineIndex, line, durationMs, error } = params;
+  return {
+    lineIndex,
+    source: line.source,
+    reference: line.reference,
+    variants: [],
+    fidelity: { pass: false, reason: "error" },
+    distinctness: { pass: false, reason: "error" },
+    referenceOverlap: 0,
+    regenPerformed: false,
+    durationMs,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+// ============================================================================
+// Poem / Run Metrics
+// ============================================================================
+
+/**
+ * Poem scorecard over the lines that produced variants
+ */
+export function scorePoem(poem: GoldenPoem, lines: EvalLineResult[]): PoemScorecard {
+  return computePoemScorecard({
+    lines: lines
+      .filter((l) => l.variants.length > 0)
+      .map((l) => ({
+        lineIndex: l.lineIndex,
+        variantTexts: l.variants,
+        regen: { performed: l.regenPerformed },
+      })),
+    mode: poem.mode,
+    targetLanguageHint: poem.targetLanguage,
+  });
+}
+
+function rate(lines: EvalLineResult[], predicate: (line: EvalLineResult) => boolean): number {
+  return lines.length > 0 ? lines.filter(predicate).length / lines.length : 0;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Metrics for one poem. Errored lines count as gate failures.
+ */
+export function poemMetrics(lines: EvalLineResult[], scorecard: PoemScorecard): EvalMetrics {
+  return {
+    lineCount: lines.length,
+    errorRate: rate(lines, (l) => l.error !== undefined),
+    fidelityPassRate: rate(lines, (l) => l.fidelity.pass),
+    distinctnessPassRate: rate(lines, (l) => l.distinctness.pass),
+    openerDistinctPct: scorecard.openerDistinctPct,
+    avgPairwiseSimilarity: scorecard.avgPairwiseSimilarity,
+    regenRate: rate(lines, (l) => l.regenPerformed),
+    referenceOverlap: mean(lines.map((l) => l.referenceOverlap)),
+  };
+}
+
+/**
+ * Run summary: line-weighted average of poem metrics
+ */
+export function summarizeMetrics(poems: EvalMetrics[]): EvalMetrics {
+  const lineCount = poems.reduce((sum, p) => sum + p.lineCount, 0);
+  const weighted = (pick: (m: EvalMetrics) => number) =>
+    lineCount > 0 ? poems.reduce((sum, p) => sum + pick(p) * p.lineCount, 0) / lineCount : 0;
+
+  return {
+    lineCount,
+    errorRate: weighted((m) => m.errorRate),
+    fidelityPassRate: weighted((m) => m.fidelityPassRate),
+    distinctnessPassRate: weighted((m) => m.distinctnessPassRate),
+    openerDistinctPct: weighted((m) => m.openerDistinctPct),
+    avgPairwiseSimilarity: weighted((m) => m.avgPairwiseSimilarity),
+    regenRate: weighted((m) => m.regenRate),
+    referenceOverlap: weighted((m) => m.referenceOverlap),
+  };
+}
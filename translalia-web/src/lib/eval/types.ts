@@ -0,0 +1,115 @@
+/**
+ * Types for golden-set evaluation runs, reports and report diffs
+ */
+
+import type { PoemScorecard } from "@/lib/ai/scorecard";
+
+// ============================================================================
+// Run Configuration
+// ============================================================================
+
+export type EvalMethod = "method-1" | "method-2";
+
+/**
+ * Which model client answered the run: the configured provider, or the
+ * offline fake that replays golden references
+ */
+export type EvalClientKind = "live" | "fake";
+
+// ============================================================================
+// Per-Line / Per-Poem Results
+// ============================================================================
+
+export interface EvalLineResult {
+  lineIndex: number;
+  source: string;
+  reference: string;
+  /** A/B/C variant texts; empty when the line errored */
+  variants: string[];
+  fidelity: { pass: boolean; reason?: string };
+  distinctness: { pass: boolean; reason?: string };
+  /** Best content-token Jaccard overlap of any variant with the reference */
+  referenceOverlap: number;
+  regenPerformed: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface EvalPoemResult {
+  poemId: string;
+  title: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  mode: "focused" | "balanced" | "adventurous";
+  lines: EvalLineResult[];
+  scorecard: PoemScorecard;
+  metrics: EvalMetrics;
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/**
+ * Aggregate metrics for a poem or a whole run. Rates are 0-1.
+ */
+export interface EvalMetrics {
+  lineCount: number;
+  errorRate: number;
+  fidelityPassRate: number;
+  distinctnessPassRate: number;
+  openerDistinctPct: number;
+  avgPairwiseSimilarity: number;
+  regenRate: number;
+  referenceOverlap: number;
+}
+
+export type EvalMetricName = Exclude<keyof EvalMetrics, "lineCount">;
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+export interface EvalReport {
+  runId: string;
+  goldenSetVersion: string;
+  method: EvalMethod;
+  model: string;
+  clientKind: EvalClientKind;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  poems: EvalPoemResult[];
+  summary: EvalMetrics;
+}
+
+export interface EvalMetricChange {
+  metric: EvalMetricName;
+  /** Poem id, or null for the run summary */
+  poemId: string | null;
+  previous: number;
+  current: number;
+  delta: number;
+  regressed: boolean;
+}
+
+export interface EvalLineChange {
+  poemId: string;
+  lineIndex: number;
+  previousVariants: string[];
+  currentVariants: string[];
+  /** Gates that passed before and fail now */
+  newFailures: Array<"fidelity" | "distinctness" | "error">;
+}
+
+export interface EvalReportDiff {
+  previousRunId: string;
+  currentRunId: string;
+  /** False when the runs used different golden sets or methods */
+  comparable: boolean;
+  regressed: boolean;
+  metricChanges: EvalMetricChange[];
+  lineChanges: EvalLineChange[];
+  addedPoems: string[];
+  removedPoems: string[];
+}
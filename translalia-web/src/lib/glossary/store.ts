@@ -0,0 +1,137 @@
+/**
+ * Project Glossary - persistence
+ *
+ * Reads and writes `project_glossary_terms`. The API routes pass the caller's
+ * Supabase client (RLS limits access to the project owner); the translation
+ * pipeline loads a thread's glossary with the server client, which is the
+ * service role in background workers.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { GlossaryEntry, GlossaryTermKind } from "@/types/glossary";
+
+interface GlossaryRow {
+  id: string;
+  kind: GlossaryTermKind;
+  source_term: string;
+  target_term: string;
+  note: string | null;
+}
+
+const COLUMNS = "id, kind, source_term, target_term, note";
+
+function rowToEntry(row: GlossaryRow): GlossaryEntry {
+  return {
+    id: row.id,
+    kind: row.kind,
+    sourceTerm: row.source_term,
+    targetTerm: row.target_term,
+    note: row.note,
+  };
+}
+
+/**
+ * All glossary entries of a project, oldest first.
+ */
+export async function listProjectGlossary(
+  sb: SupabaseClient,
+  projectId: string
+): Promise<GlossaryEntry[]> {
+  const { data, error } = await sb
+    .from("project_glossary_terms")
+    .select(COLUMNS)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`[glossary] Failed to load project glossary: ${error.message}`);
+  }
+  return ((data ?? []) as GlossaryRow[]).map(rowToEntry);
+}
+
+/**
+ * Add an entry; terms are trimmed and unused sides stored empty.
+ */
+export async function addProjectGlossaryEntry(
+  sb: SupabaseClient,
+  params: {
+    projectId: string;
+    userId: string;
+    kind: GlossaryTermKind;
+    sourceTerm?: string;
+    targetTerm?: string;
+    note?: string | null;
+  }
+): Promise<GlossaryEntry> {
+  const { data, error } = await sb
+    .from("project_glossary_terms")
+    .insert({
+      project_id: params.projectId,
+      created_by: params.userId,
+      kind: params.kind,
+      source_term:
+        params.kind === "forbidden" ? "" : (params.sourceTerm ?? "").trim(),
+      target_term:
+        params.kind === "do_not_translate" ? "" : (params.targetTerm ?? "").trim(),
+      note: params.note?.trim() || null,
+    })
+    .select(COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(
+      `[glossary] Failed to add glossary entry: ${error?.message ?? "no row returned"}`
+    );
+  }
+  return rowToEntry(data as GlossaryRow);
+}
+
+/**
+ * Remove an entry from a project. Returns false when nothing was deleted.
+ */
+export async function deleteProjectGlossaryEntry(
+  sb: SupabaseClient,
+  projectId: string,
+  entryId: string
+): Promise<boolean> {
+  const { data, error } = await sb
+    .from("project_glossary_terms")
+    .delete()
+    .eq("project_id", projectId)
+    .eq("id", entryId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`[glossary] Failed to delete glossary entry: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
+
+/**
+ * The glossary of the project a thread belongs to. Never throws: a missing
+ * glossary only means generation runs unconstrained.
+ */
+export async function loadGlossaryForThread(
+  threadId: string
+): Promise<GlossaryEntry[]> {
+  try {
+    // Dynamic import to avoid circular dependencies
+    const { supabaseServer } = await import("@/lib/supabaseServer");
+    const sb = await supabaseServer();
+
+    const { data: thread, error } = await sb
+      .from("chat_threads")
+      .select("project_id")
+      .eq("id", threadId)
+      .maybeSingle();
+
+    if (error || !thread?.project_id) return [];
+    return await listProjectGlossary(sb, thread.project_id as string);
+  } catch (error) {
+    console.warn(
+      `[glossary] Failed to load glossary for thread ${threadId}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+    return [];
+  }
+}
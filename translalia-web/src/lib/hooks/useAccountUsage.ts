@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import type { UsageSummary } from "@/types/usage";
+
+export type AccountUsageResponse = UsageSummary & { ok: true; month: string };
+
+/**
+ * Hook to fetch the signed-in user's AI spend and budget for a month
+ * (`YYYY-MM`, default the current month).
+ */
+export function useAccountUsage(month?: string | null) {
+  return useQuery<AccountUsageResponse>({
+    queryKey: ["account-usage", month ?? "current"],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (month) params.set("month", month);
+
+      const response = await fetch(`/api/account/usage?${params}`, {
+        cache: "no-store",
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(
+          typeof error.error === "string" ? error.error : "Failed to fetch usage"
+        );
+      }
+
+      return response.json();
+    },
+    staleTime: 30000,
+  });
+}
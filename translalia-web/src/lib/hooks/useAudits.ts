@@ -0,0 +1,67 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type {
+  AuditDiff,
+  AuditFilters,
+  AuditKind,
+  AuditListResponse,
+  AuditReplayResult,
+} from "@/types/audits";
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const error = await response.json().catch(() => ({}));
+  return new Error(error.error?.message || fallback);
+}
+
+/** One page of the caller's audits for the explorer. */
+export function useAudits(filters: AuditFilters) {
+  const queryParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== "") queryParams.set(key, String(value));
+  }
+
+  return useQuery({
+    queryKey: ["audits", filters],
+    queryFn: async () => {
+      const response = await fetch(`/api/audits?${queryParams.toString()}`);
+      if (!response.ok) {
+        throw await readError(response, "Failed to fetch audits");
+      }
+      return response.json() as Promise<AuditListResponse>;
+    },
+    staleTime: 30000,
+  });
+}
+
+/** Diff of two audits; runs once both ids are picked. */
+export function useAuditDiff(kind: AuditKind, a: string | null, b: string | null) {
+  return useQuery({
+    queryKey: ["audit-diff", kind, a, b],
+    queryFn: async () => {
+      const response = await fetch(`/api/audits/diff?kind=${kind}&a=${a}&b=${b}`);
+      if (!response.ok) {
+        throw await readError(response, "Failed to diff audits");
+      }
+      return response.json() as Promise<AuditDiff>;
+    },
+    enabled: !!a && !!b && a !== b,
+    staleTime: Infinity,
+  });
+}
+
+/** Re-run an audit against the current prompt builders (costs a model call). */
+export function useReplayAudit() {
+  return useMutation({
+    mutationFn: async (params: { kind: AuditKind; auditId: string }) => {
+      const response = await fetch(`/api/audits/${params.auditId}/replay`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind: params.kind }),
+      });
+      if (!response.ok) {
+        throw await readError(response, "Replay failed");
+      }
+      const data = (await response.json()) as { result: AuditReplayResult };
+      return data.result;
+    },
+  });
+}
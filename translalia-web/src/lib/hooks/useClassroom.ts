@@ -0,0 +1,308 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type {
+  Assignment,
+  AssignmentGuideDefaults,
+  AssignmentSubmissionsResponse,
+  ClassDetailResponse,
+  ClassesResponse,
+  ClassSummary,
+  Submission,
+  SubmissionComment,
+  SubmissionReview,
+  ThreadSubmissionResponse,
+} from "@/types/classroom";
+import type { SubmissionAction } from "@/lib/classroom/workflow";
+
+/**
+ * fetch() that throws the API's `error.message` (or `fallback`) on failure.
+ */
+async function requestJson<T>(
+  url: string,
+  fallback: string,
+  init?: { method: string; body?: unknown }
+): Promise<T> {
+  const response = await fetch(url, {
+    cache: "no-store",
+    ...(init
+      ? {
+          method: init.method,
+          headers: { "Content-Type": "application/json" },
+          body: init.body === undefined ? undefined : JSON.stringify(init.body),
+        }
+      : {}),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || fallback);
+  }
+
+  return response.json();
+}
+
+// =============================================================================
+// Classes
+// =============================================================================
+
+/**
+ * Hook to list the classes the user teaches or attends
+ */
+export function useClasses() {
+  return useQuery<ClassesResponse>({
+    queryKey: ["classes"],
+    queryFn: () => requestJson("/api/classes", "Failed to fetch classes"),
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Hook to fetch a class with its roster and assignments
+ */
+export function useClassDetail(classId: string | null | undefined) {
+  return useQuery<ClassDetailResponse>({
+    queryKey: ["class", classId],
+    queryFn: () => {
+      if (!classId) {
+        throw new Error("Class ID is required");
+      }
+      return requestJson(
+        `/api/classes/${encodeURIComponent(classId)}`,
+        "Failed to fetch class"
+      );
+    },
+    enabled: !!classId,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Hook to create a class (the caller becomes its teacher)
+ */
+export function useCreateClass() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (name: string) =>
+      requestJson<{ class: ClassSummary }>("/api/classes", "Failed to create class", {
+        method: "POST",
+        body: { name },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["classes"] });
+    },
+  });
+}
+
+/**
+ * Hook to join a class with its join code
+ */
+export function useJoinClass() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string) =>
+      requestJson<{ classId: string }>("/api/classes/join", "Failed to join class", {
+        method: "POST",
+        body: { code },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["classes"] });
+    },
+  });
+}
+
+// =============================================================================
+// Assignments
+// =============================================================================
+
+export interface NewAssignmentParams {
+  title: string;
+  sourcePoem: string;
+  instructions?: string | null;
+  guideDefaults?: Partial<AssignmentGuideDefaults>;
+  dueAt?: string | null;
+}
+
+/**
+ * Hook to post an assignment to a class (teachers only)
+ */
+export function useCreateAssignment(classId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: NewAssignmentParams) => {
+      if (!classId) {
+        throw new Error("Class ID is required");
+      }
+      return requestJson<{ assignment: Assignment }>(
+        `/api/classes/${encodeURIComponent(classId)}/assignments`,
+        "Failed to create assignment",
+        { method: "POST", body: params }
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["class", classId] });
+    },
+  });
+}
+
+/**
+ * Hook to start (or reopen) an assignment as a student. Resolves with the
+ * thread to open.
+ */
+export function useStartAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (assignmentId: string) =>
+      requestJson<{ submission: Submission; projectId: string; threadId: string }>(
+        `/api/assignments/${encodeURIComponent(assignmentId)}/start`,
+        "Failed to start assignment",
+        { method: "POST" }
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["class"] });
+    },
+  });
+}
+
+/**
+ * Hook to list the submissions of an assignment (teachers only)
+ */
+export function useAssignmentSubmissions(assignmentId: string | null | undefined) {
+  return useQuery<AssignmentSubmissionsResponse>({
+    queryKey: ["assignment-submissions", assignmentId],
+    queryFn: () => {
+      if (!assignmentId) {
+        throw new Error("Assignment ID is required");
+      }
+      return requestJson(
+        `/api/assignments/${encodeURIComponent(assignmentId)}/submissions`,
+        "Failed to fetch submissions"
+      );
+    },
+    enabled: !!assignmentId,
+    staleTime: 15000,
+  });
+}
+
+// =============================================================================
+// Submissions
+// =============================================================================
+
+/**
+ * Hook to fetch what the teacher reviews for a submission
+ */
+export function useSubmissionReview(submissionId: string | null | undefined) {
+  return useQuery<SubmissionReview>({
+    queryKey: ["submission", submissionId],
+    queryFn: () => {
+      if (!submissionId) {
+        throw new Error("Submission ID is required");
+      }
+      return requestJson(
+        `/api/submissions/${encodeURIComponent(submissionId)}`,
+        "Failed to fetch submission"
+      );
+    },
+    enabled: !!submissionId,
+  });
+}
+
+/**
+ * Hook to fetch the assignment submission a thread belongs to, if any
+ */
+export function useThreadSubmission(threadId: string | null | undefined) {
+  return useQuery<ThreadSubmissionResponse>({
+    queryKey: ["thread-submission", threadId],
+    queryFn: () => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+      return requestJson(
+        `/api/threads/${encodeURIComponent(threadId)}/submission`,
+        "Failed to fetch submission"
+      );
+    },
+    enabled: !!threadId,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Hook to submit, return or mark a submission reviewed
+ */
+export function useSubmissionAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: {
+      submissionId: string;
+      action: SubmissionAction;
+      feedback?: string | null;
+    }) =>
+      requestJson<{ submission: Submission }>(
+        `/api/submissions/${encodeURIComponent(params.submissionId)}`,
+        "Failed to update submission",
+        {
+          method: "PATCH",
+          body: { action: params.action, feedback: params.feedback },
+        }
+      ),
+    onSuccess: ({ submission }) => {
+      queryClient.invalidateQueries({ queryKey: ["submission", submission.id] });
+      queryClient.invalidateQueries({
+        queryKey: ["thread-submission", submission.threadId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["assignment-submissions", submission.assignmentId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["class"] });
+    },
+  });
+}
+
+/**
+ * Hooks to add and delete a teacher's review comments
+ */
+export function useAddSubmissionComment(submissionId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: { lineIndex: number | null; body: string }) => {
+      if (!submissionId) {
+        throw new Error("Submission ID is required");
+      }
+      return requestJson<{ comment: SubmissionComment }>(
+        `/api/submissions/${encodeURIComponent(submissionId)}/comments`,
+        "Failed to add comment",
+        { method: "POST", body: params }
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["submission", submissionId] });
+    },
+  });
+}
+
+export function useDeleteSubmissionComment(submissionId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (commentId: string) => {
+      if (!submissionId) {
+        throw new Error("Submission ID is required");
+      }
+      return requestJson<{ ok: true }>(
+        `/api/submissions/${encodeURIComponent(submissionId)}/comments`,
+        "Failed to delete comment",
+        { method: "DELETE", body: { id: commentId } }
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["submission", submissionId] });
+    },
+  });
+}
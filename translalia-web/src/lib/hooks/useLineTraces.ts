@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import type { LineTracesResponse } from "@/types/lineTrace";
+
+/**
+ * Fetch recorded pipeline traces for one line of a thread (newest first).
+ * Used by the Translation Tuning view to replay real runs.
+ */
+export function useLineTraces(threadId: string | null, lineIndex: number) {
+  return useQuery<LineTracesResponse>({
+    queryKey: ["line-traces", threadId, lineIndex],
+    queryFn: async () => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/workshop/line-traces?threadId=${encodeURIComponent(
+          threadId
+        )}&lineIndex=${lineIndex}`
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to fetch line traces");
+      }
+
+      return response.json();
+    },
+    enabled: !!threadId,
+    staleTime: 30000,
+  });
+}
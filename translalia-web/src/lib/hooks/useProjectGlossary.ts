@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  GlossaryEntry,
+  GlossaryTermKind,
+  ProjectGlossaryResponse,
+} from "@/types/glossary";
+
+/**
+ * Hook to fetch the glossary of a workspace (project)
+ */
+export function useProjectGlossary(projectId: string | null | undefined) {
+  return useQuery<ProjectGlossaryResponse>({
+    queryKey: ["project-glossary", projectId],
+    queryFn: async () => {
+      if (!projectId) {
+        throw new Error("Project ID is required");
+      }
+
+      const response = await fetch(
+        `/api/projects/${encodeURIComponent(projectId)}/glossary`,
+        { cache: "no-store" }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to fetch glossary");
+      }
+
+      return response.json();
+    },
+    enabled: !!projectId,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Hook to add a glossary entry
+ */
+export function useAddGlossaryEntry(projectId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entry: {
+      kind: GlossaryTermKind;
+      sourceTerm?: string;
+      targetTerm?: string;
+      note?: string | null;
+    }): Promise<{ entry: GlossaryEntry }> => {
+      if (!projectId) {
+        throw new Error("Project ID is required");
+      }
+
+      const response = await fetch(
+        `/api/projects/${encodeURIComponent(projectId)}/glossary`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(entry),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to add glossary entry");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["project-glossary", projectId],
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a glossary entry
+ */
+export function useDeleteGlossaryEntry(projectId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!projectId) {
+        throw new Error("Project ID is required");
+      }
+
+      const response = await fetch(
+        `/api/projects/${encodeURIComponent(projectId)}/glossary`,
+        {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(
+          error.error?.message || "Failed to delete glossary entry"
+        );
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["project-glossary", projectId],
+      });
+    },
+  });
+}
@@ -0,0 +1,192 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  LineRevisionsResponse,
+  TranslationBranch,
+  TranslationBranchesResponse,
+} from "@/types/revisions";
+
+/**
+ * Hook to fetch saved revisions of a thread, newest first.
+ * `lineIndex` limits it to one line; `branchId` reads a branch instead of the
+ * main translation.
+ */
+export function useLineRevisions(
+  threadId: string | null | undefined,
+  options: { lineIndex?: number | null; branchId?: string | null; enabled?: boolean } = {}
+) {
+  const { lineIndex, branchId, enabled = true } = options;
+
+  return useQuery<LineRevisionsResponse>({
+    queryKey: ["line-revisions", threadId, branchId ?? "main", lineIndex ?? "all"],
+    queryFn: async () => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const params = new URLSearchParams();
+      if (typeof lineIndex === "number") params.set("lineIndex", String(lineIndex));
+      if (branchId) params.set("branchId", branchId);
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/revisions?${params}`,
+        { cache: "no-store" }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to fetch revisions");
+      }
+
+      return response.json();
+    },
+    enabled: !!threadId && enabled,
+    staleTime: 10000,
+  });
+}
+
+/**
+ * Hook to fetch the branches (alternative translations) of a thread
+ */
+export function useTranslationBranches(threadId: string | null | undefined) {
+  return useQuery<TranslationBranchesResponse>({
+    queryKey: ["translation-branches", threadId],
+    queryFn: async () => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/branches`,
+        { cache: "no-store" }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to fetch branches");
+      }
+
+      return response.json();
+    },
+    enabled: !!threadId,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Hook to fork a branch from the main translation or another branch
+ */
+export function useForkBranch(threadId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      name: string;
+      fromBranchId?: string;
+    }): Promise<{ branch: TranslationBranch }> => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/branches`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(params),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to fork translation");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["translation-branches", threadId],
+      });
+    },
+  });
+}
+
+/**
+ * Hook to save one line of a branch (an edit or a restored revision)
+ */
+export function useUpdateBranchLine(threadId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      branchId,
+      ...line
+    }: {
+      branchId: string;
+      lineIndex: number;
+      text: string;
+      origin?: "manual_edit" | "restore";
+      restoredFrom?: string;
+    }) => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/branches/${encodeURIComponent(branchId)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(line),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to save branch line");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["translation-branches", threadId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["line-revisions", threadId],
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a branch
+ */
+export function useDeleteBranch(threadId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (branchId: string) => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/branches/${encodeURIComponent(branchId)}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to delete branch");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["translation-branches", threadId],
+      });
+    },
+  });
+}
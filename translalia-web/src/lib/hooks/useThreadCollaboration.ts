@@ -0,0 +1,354 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useSupabaseUser } from "@/hooks/useSupabaseUser";
+import { useNotebookStore } from "@/store/notebookSlice";
+import { useWorkshopStore } from "@/store/workshopSlice";
+import type {
+  CollabLineLock,
+  CollabMessage,
+  CollabPresence,
+  CollabSnapshot,
+  ThreadParticipantsResponse,
+} from "@/types/collaboration";
+
+/**
+ * Client side of /api/threads/[threadId]/collab. While the notebook is open
+ * it polls for other collaborators' presence, line locks and events, and
+ * applies their drafts, saved lines and notes to the local stores. Own events
+ * are ignored (they are already applied locally).
+ */
+
+const POLL_MS = 1500;
+/** Below the server's presence and lock TTL (30s) so neither lapses. */
+const HEARTBEAT_MS = 10000;
+const DRAFT_DEBOUNCE_MS = 400;
+
+type CollabAction =
+  | { type: "heartbeat"; lineIndex: number | null }
+  | { type: "lock"; lineIndex: number }
+  | { type: "unlock"; lineIndex: number }
+  | { type: "draft"; lineIndex: number; text: string }
+  | { type: "leave" };
+
+function postAction(threadId: string, action: CollabAction, keepalive = false) {
+  return fetch(`/api/threads/${encodeURIComponent(threadId)}/collab`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(action),
+    keepalive,
+  });
+}
+
+export interface ThreadCollaboration {
+  /** Other users with the notebook open */
+  others: CollabPresence[];
+  /** Lock held by someone else on the line, if any */
+  lockedByOther: (lineIndex: number) => CollabLineLock | null;
+  /** Take the line for editing; false when someone else holds it */
+  lockLine: (lineIndex: number) => Promise<boolean>;
+  unlockLine: (lineIndex: number) => void;
+  /** Share unsaved text of a line the caller has locked (debounced) */
+  broadcastDraft: (lineIndex: number, text: string) => void;
+}
+
+export function useThreadCollaboration(
+  threadId: string | null | undefined,
+  options: { currentLineIndex?: number | null; enabled?: boolean } = {}
+): ThreadCollaboration {
+  const { currentLineIndex = null, enabled = true } = options;
+  const { user } = useSupabaseUser();
+  const userId = user?.id ?? null;
+  const queryClient = useQueryClient();
+  const active = enabled && !!threadId && !!userId;
+
+  const [presence, setPresence] = React.useState<CollabPresence[]>([]);
+  const [locks, setLocks] = React.useState<CollabLineLock[]>([]);
+  const seqRef = React.useRef<number | null>(null);
+  const heldRef = React.useRef<Set<number>>(new Set());
+  const draftTimersRef = React.useRef<Record<number, ReturnType<typeof setTimeout>>>({});
+  const lineRef = React.useRef<number | null>(currentLineIndex);
+  lineRef.current = currentLineIndex;
+
+  const applyEvents = React.useCallback(
+    (events: CollabMessage[]) => {
+      const workshop = useWorkshopStore.getState();
+      const notebook = useNotebookStore.getState();
+      let linesSaved = false;
+
+      for (const event of events) {
+        if (event.userId === userId) continue;
+        switch (event.type) {
+          case "draft":
+            workshop.setDraft(event.lineIndex, event.text);
+            break;
+          case "line_saved":
+            workshop.setCompletedLine(event.lineIndex, event.text);
+            linesSaved = true;
+            break;
+          case "note_saved":
+            if (event.lineIndex === null) {
+              notebook.setThreadNote(event.content);
+            } else {
+              notebook.setLineNote(event.lineIndex, event.content);
+            }
+            break;
+        }
+      }
+
+      if (linesSaved) {
+        queryClient.invalidateQueries({ queryKey: ["line-revisions", threadId] });
+      }
+    },
+    [queryClient, threadId, userId]
+  );
+
+  // Poll presence, locks and events
+  React.useEffect(() => {
+    if (!active || !threadId) return;
+    let cancelled = false;
+    seqRef.current = null;
+
+    const poll = async () => {
+      try {
+        const after = seqRef.current ?? 0;
+        const res = await fetch(
+          `/api/threads/${encodeURIComponent(threadId)}/collab?after=${after}`,
+          { cache: "no-store" }
+        );
+        if (!res.ok || cancelled) return;
+        const snapshot: CollabSnapshot = await res.json();
+        if (cancelled) return;
+
+        // The first poll only picks up the sequence: the loaded thread state
+        // already contains everything published before we opened it
+        if (seqRef.current !== null) applyEvents(snapshot.events);
+        seqRef.current = snapshot.seq;
+        setPresence(snapshot.presence);
+        setLocks(snapshot.locks);
+      } catch (e) {
+        console.warn("[useThreadCollaboration] poll failed:", e);
+      }
+    };
+
+    void poll();
+    const interval = setInterval(poll, POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [active, threadId, applyEvents]);
+
+  // Heartbeat: presence on the current line, and renew held locks
+  React.useEffect(() => {
+    if (!active || !threadId) return;
+
+    const beat = () => {
+      void postAction(threadId, { type: "heartbeat", lineIndex: lineRef.current }).catch(
+        () => undefined
+      );
+      heldRef.current.forEach((lineIndex) => {
+        void postAction(threadId, { type: "lock", lineIndex }).catch(() => undefined);
+      });
+    };
+
+    const interval = setInterval(beat, HEARTBEAT_MS);
+    const held = heldRef.current;
+    const draftTimers = draftTimersRef.current;
+    return () => {
+      clearInterval(interval);
+      Object.values(draftTimers).forEach(clearTimeout);
+      held.clear();
+      void postAction(threadId, { type: "leave" }, true).catch(() => undefined);
+    };
+  }, [active, threadId]);
+
+  // Announce presence on open, and move it with the selected line without
+  // waiting for the next beat
+  React.useEffect(() => {
+    if (!active || !threadId) return;
+    void postAction(threadId, { type: "heartbeat", lineIndex: currentLineIndex }).catch(
+      () => undefined
+    );
+  }, [active, threadId, currentLineIndex]);
+
+  const lockedByOther = React.useCallback(
+    (lineIndex: number) =>
+      locks.find((lock) => lock.lineIndex === lineIndex && lock.userId !== userId) ??
+      null,
+    [locks, userId]
+  );
+
+  const lockLine = React.useCallback(
+    async (lineIndex: number) => {
+      if (!active || !threadId) return true;
+      try {
+        const res = await postAction(threadId, { type: "lock", lineIndex });
+        if (res.status === 409) {
+          const body = await res.json().catch(() => null);
+          const holder = body?.error?.holder as CollabLineLock | undefined;
+          if (holder) {
+            setLocks((prev) => [
+              ...prev.filter((lock) => lock.lineIndex !== lineIndex),
+              holder,
+            ]);
+          }
+          return false;
+        }
+        if (res.ok) heldRef.current.add(lineIndex);
+        return true;
+      } catch {
+        // Relay unreachable: edit anyway, the save route still checks locks
+        return true;
+      }
+    },
+    [active, threadId]
+  );
+
+  const unlockLine = React.useCallback(
+    (lineIndex: number) => {
+      if (!active || !threadId || !heldRef.current.has(lineIndex)) return;
+      heldRef.current.delete(lineIndex);
+      void postAction(threadId, { type: "unlock", lineIndex }).catch(() => undefined);
+    },
+    [active, threadId]
+  );
+
+  const broadcastDraft = React.useCallback(
+    (lineIndex: number, text: string) => {
+      if (!active || !threadId || !heldRef.current.has(lineIndex)) return;
+      const timers = draftTimersRef.current;
+      if (timers[lineIndex]) clearTimeout(timers[lineIndex]);
+      timers[lineIndex] = setTimeout(() => {
+        delete timers[lineIndex];
+        void postAction(threadId, { type: "draft", lineIndex, text }).catch(
+          () => undefined
+        );
+      }, DRAFT_DEBOUNCE_MS);
+    },
+    [active, threadId]
+  );
+
+  const others = React.useMemo(
+    () => presence.filter((p) => p.userId !== userId),
+    [presence, userId]
+  );
+
+  return { others, lockedByOther, lockLine, unlockLine, broadcastDraft };
+}
+
+/**
+ * Hook to fetch the owner and collaborators of a thread
+ */
+export function useThreadParticipants(threadId: string | null | undefined) {
+  return useQuery<ThreadParticipantsResponse>({
+    queryKey: ["thread-participants", threadId],
+    queryFn: async () => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/collaborators`,
+        { cache: "no-store" }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to fetch collaborators");
+      }
+
+      return response.json();
+    },
+    enabled: !!threadId,
+    staleTime: 60000,
+  });
+}
+
+/**
+ * Display name per user id for a shared thread, or null while the thread has
+ * no collaborators (attribution is only shown when someone else can edit).
+ */
+export function useParticipantNames(
+  threadId: string | null | undefined
+): Record<string, string> | null {
+  const { data } = useThreadParticipants(threadId);
+  return React.useMemo(() => {
+    const participants = data?.participants ?? [];
+    if (participants.length < 2) return null;
+    return Object.fromEntries(
+      participants.map((p) => [
+        p.userId,
+        p.displayName?.trim() || p.email?.split("@")[0] || "Collaborator",
+      ])
+    );
+  }, [data]);
+}
+
+/**
+ * Hook to add a collaborator by email (thread owner only)
+ */
+export function useAddCollaborator(threadId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (email: string) => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/collaborators`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to add collaborator");
+      }
+
+      return response.json() as Promise<{ userId: string }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["thread-participants", threadId] });
+    },
+  });
+}
+
+/**
+ * Hook to remove a collaborator (or leave the thread with your own id)
+ */
+export function useRemoveCollaborator(threadId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/collaborators`,
+        {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ userId }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to remove collaborator");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["thread-participants", threadId] });
+    },
+  });
+}
@@ -1,6 +1,14 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 import { supabase } from "@/lib/supabaseClient";
+import {
+  useTranslationProgressStream,
+  type TranslationStreamMessage,
+} from "@/lib/hooks/useTranslationProgressStream";
+import {
+  applyProgressEvent,
+  summarizeTranslationJob,
+} from "@/lib/workshop/translationProgress";
 import type {
   TranslationJobProgressSummary,
   TranslationJobState,
@@ -32,6 +40,11 @@ interface UseTranslationJobOptions {
   pollIntervalMs?: number;
   advanceOnPoll?: boolean;
   enabled?: boolean;
+  /**
+   * Subscribe to /api/workshop/translation-events and only poll while the
+   * stream is unavailable. Defaults to true.
+   */
+  stream?: boolean;
 }
 
 const FAST_POLL_MS = 1500;
@@ -91,6 +104,29 @@ export function useInitializeTranslations() {
   });
 }
 
+/**
+ * Fold a stream message into a cached translation-status response.
+ */
+function patchStatusResponse(
+  prev: TranslationStatusResponse | undefined,
+  message: TranslationStreamMessage
+): TranslationStatusResponse | undefined {
+  if (message.type === "snapshot") {
+    return {
+      ...prev,
+      ok: true,
+      tick: prev?.tick ?? null,
+      job: message.job,
+      progress: message.progress,
+    };
+  }
+  if (message.type !== "progress" || !prev?.job) return prev;
+
+  const job = applyProgressEvent(prev.job, message.event);
+  if (job === prev.job) return prev;
+  return { ...prev, job, progress: summarizeTranslationJob(job) };
+}
+
 export function useTranslationJob(
   threadId: string | undefined,
   options: UseTranslationJobOptions = {}
@@ -99,10 +135,28 @@ export function useTranslationJob(
     advanceOnPoll = false,
     enabled = true,
     pollIntervalMs,
+    stream = true,
   } = options;
+  const queryClient = useQueryClient();
+  const queryKey = ["translation-job", threadId, advanceOnPoll];
+
+  const cached = queryClient.getQueryData<TranslationStatusResponse>(queryKey);
+  const finished =
+    cached?.job?.status === "completed" || cached?.job?.status === "failed";
+
+  const { connected } = useTranslationProgressStream(threadId, {
+    enabled: Boolean(threadId) && enabled && stream && !finished,
+    advance: advanceOnPoll,
+    onMessage: (message) => {
+      queryClient.setQueriesData<TranslationStatusResponse>(
+        { queryKey: ["translation-job", threadId] },
+        (prev) => patchStatusResponse(prev, message)
+      );
+    },
+  });
 
   return useQuery({
-    queryKey: ["translation-job", threadId, advanceOnPoll],
+    queryKey,
     queryFn: async (): Promise<TranslationStatusResponse> => {
       if (!threadId) {
         throw new Error("threadId is required");
@@ -127,6 +181,11 @@ export function useTranslationJob(
         return false;
       }
 
+      // The event stream pushes updates; poll only while it is down.
+      if (connected) {
+        return false;
+      }
+
       // If caller specified a fixed interval, use it.
       if (pollIntervalMs !== undefined) {
         return pollIntervalMs;
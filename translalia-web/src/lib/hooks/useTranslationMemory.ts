@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import type { TranslationMemoryMatchesResponse } from "@/types/translationMemory";
+
+/**
+ * Fuzzy matches from the user's translation memory (their other threads)
+ * for each source segment, in the same order as `segments`.
+ */
+export function useTranslationMemoryMatches(
+  threadId: string | null | undefined,
+  segments: string[],
+  options: { enabled?: boolean } = {}
+) {
+  const { enabled = true } = options;
+  const hasText = segments.some((segment) => segment.trim().length > 0);
+
+  return useQuery<TranslationMemoryMatchesResponse>({
+    queryKey: ["translation-memory", threadId, segments],
+    queryFn: async () => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch("/api/translation-memory/matches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ threadId, segments }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(
+          error.error?.message || "Failed to fetch translation memory matches"
+        );
+      }
+
+      return response.json();
+    },
+    enabled: enabled && !!threadId && hasText,
+    staleTime: 60000,
+  });
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import * as React from "react";
+
+import { supabase } from "@/lib/supabaseClient";
+import { applyProgressEventToSummary } from "@/lib/workshop/translationProgress";
+import type {
+  TranslationJobProgressSummary,
+  TranslationJobState,
+  TranslationProgressMessage,
+} from "@/types/translationJob";
+
+/**
+ * Client side of /api/workshop/translation-events. One connection per thread
+ * is shared by every subscriber: hooks that *open* the stream (useTranslationJob)
+ * keep it alive, passive subscribers (progress panels) only listen. When the
+ * stream is down, `connected` is false and callers fall back to polling.
+ */
+
+export type TranslationStreamMessage =
+  | {
+      type: "snapshot";
+      job: TranslationJobState | null;
+      progress: TranslationJobProgressSummary | null;
+    }
+  | { type: "progress"; event: TranslationProgressMessage }
+  | { type: "done" };
+
+type MessageListener = (message: TranslationStreamMessage) => void;
+type StatusListener = (connected: boolean) => void;
+
+interface ThreadStream {
+  listeners: Set<MessageListener>;
+  statusListeners: Set<StatusListener>;
+  openers: number;
+  advance: boolean;
+  connected: boolean;
+  /** The running connection loop; aborted when the last opener leaves. */
+  run: AbortController | null;
+}
+
+/** Consecutive failed connects before giving up and leaving it to polling. */
+const MAX_FAILURES = 3;
+const MAX_BACKOFF_MS = 30000;
+
+const streams = new Map<string, ThreadStream>();
+
+function getStream(threadId: string): ThreadStream {
+  let stream = streams.get(threadId);
+  if (!stream) {
+    stream = {
+      listeners: new Set(),
+      statusListeners: new Set(),
+      openers: 0,
+      advance: false,
+      connected: false,
+      run: null,
+    };
+    streams.set(threadId, stream);
+  }
+  return stream;
+}
+
+function releaseStream(threadId: string, stream: ThreadStream) {
+  if (stream.openers === 0) stream.run?.abort();
+  if (
+    stream.openers === 0 &&
+    stream.listeners.size === 0 &&
+    stream.statusListeners.size === 0
+  ) {
+    streams.delete(threadId);
+  }
+}
+
+function setConnected(stream: ThreadStream, connected: boolean) {
+  if (stream.connected === connected) return;
+  stream.connected = connected;
+  stream.statusListeners.forEach((listener) => listener(connected));
+}
+
+/**
+ * Read a `text/event-stream` body, calling `onEvent` per complete event.
+ * Comment lines (heartbeats) and ids are skipped.
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) onEvent(event, data.join("\n"));
+    }
+  }
+}
+
+async function runStream(threadId: string, stream: ThreadStream) {
+  const run = new AbortController();
+  stream.run = run;
+  let failures = 0;
+  let finished = false;
+
+  while (!run.signal.aborted && !finished && failures < MAX_FAILURES) {
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData?.session?.access_token;
+      const params = new URLSearchParams({
+        threadId,
+        advance: stream.advance ? "true" : "false",
+      });
+      const response = await fetch(
+        `/api/workshop/translation-events?${params.toString()}`,
+        {
+          cache: "no-store",
+          headers: {
+            Accept: "text/event-stream",
+            ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+          },
+          signal: run.signal,
+        }
+      );
+      if (!response.ok || !response.body) {
+        throw new Error(`Stream request failed with status ${response.status}`);
+      }
+
+      failures = 0;
+      setConnected(stream, true);
+      await readEventStream(response.body, (event, data) => {
+        let message: TranslationStreamMessage;
+        if (event === "snapshot") {
+          message = { type: "snapshot", ...JSON.parse(data) };
+        } else if (event === "progress") {
+          message = { type: "progress", event: JSON.parse(data) };
+        } else if (event === "done") {
+          finished = true;
+          message = { type: "done" };
+        } else {
+          return;
+        }
+        stream.listeners.forEach((listener) => listener(message));
+      });
+    } catch (error) {
+      if (run.signal.aborted) break;
+      failures += 1;
+      console.warn(
+        `[translation-events] stream error (${failures}/${MAX_FAILURES}):`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    if (stream.run === run) setConnected(stream, false);
+    if (!run.signal.aborted && !finished && failures < MAX_FAILURES) {
+      // Clean closes (server time limit) reconnect at once; errors back off.
+      await new Promise((resolve) =>
+        setTimeout(resolve, failures ? Math.min(1000 * 2 ** failures, MAX_BACKOFF_MS) : 0)
+      );
+    }
+  }
+
+  if (stream.run === run) {
+    setConnected(stream, false);
+    stream.run = null;
+  }
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+interface UseTranslationProgressStreamOptions {
+  enabled?: boolean;
+  /** Let the stream advance the job (kick ticks), like advancing polls. */
+  advance?: boolean;
+  onMessage?: MessageListener;
+}
+
+/**
+ * Open (or join) the progress stream for a thread while `enabled`.
+ * Returns whether it is currently connected.
+ */
+export function useTranslationProgressStream(
+  threadId: string | undefined,
+  options: UseTranslationProgressStreamOptions = {}
+): { connected: boolean } {
+  const { enabled = true, advance = false, onMessage } = options;
+  const [connected, setConnectedState] = React.useState(false);
+  const onMessageRef = React.useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  React.useEffect(() => {
+    if (!threadId || !enabled || typeof window === "undefined") return;
+
+    const stream = getStream(threadId);
+    const listener: MessageListener = (message) => onMessageRef.current?.(message);
+    stream.listeners.add(listener);
+    stream.statusListeners.add(setConnectedState);
+    stream.openers += 1;
+    stream.advance = stream.advance || advance;
+    setConnectedState(stream.connected);
+    if (!stream.run || stream.run.signal.aborted) void runStream(threadId, stream);
+
+    return () => {
+      stream.listeners.delete(listener);
+      stream.statusListeners.delete(setConnectedState);
+      stream.openers -= 1;
+      setConnectedState(false);
+      releaseStream(threadId, stream);
+    };
+  }, [threadId, enabled, advance]);
+
+  return { connected };
+}
+
+/**
+ * Keep a progress summary current from the thread's stream without opening
+ * one. Falls back to the `summary` prop, which also resets the live copy
+ * whenever the caller passes a newer one (e.g. from a poll).
+ */
+export function useLiveTranslationSummary(
+  threadId: string | undefined,
+  summary: TranslationJobProgressSummary | null
+): TranslationJobProgressSummary | null {
+  const [live, setLive] = React.useState(summary);
+
+  React.useEffect(() => {
+    setLive(summary);
+  }, [summary]);
+
+  React.useEffect(() => {
+    if (!threadId || typeof window === "undefined") return;
+
+    const stream = getStream(threadId);
+    const listener: MessageListener = (message) => {
+      if (message.type === "snapshot") setLive(message.progress);
+      if (message.type === "progress") {
+        setLive((current) =>
+          current ? applyProgressEventToSummary(current, message.event) : current
+        );
+      }
+    };
+    stream.listeners.add(listener);
+    return () => {
+      stream.listeners.delete(listener);
+      releaseStream(threadId, stream);
+    };
+  }, [threadId]);
+
+  return live;
+}
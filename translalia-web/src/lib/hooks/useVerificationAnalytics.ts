@@ -1,4 +1,9 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type {
+  CalibrationQueueItem,
+  CalibrationReport,
+  HumanDimensionScores,
+} from "@/types/verification";
 
 interface AnalyticsParams {
   projectId?: string;
@@ -85,3 +90,101 @@ export function useGradeDetail(auditId: string | undefined) {
     staleTime: Infinity, // Grades don't change
   });
 }
+
+/**
+ * Track A calibration report; null when the caller is not a calibration
+ * reviewer (CALIBRATION_REVIEWER_EMAILS).
+ */
+export function useCalibrationReport() {
+  return useQuery({
+    queryKey: ["verification-calibration"],
+    queryFn: async () => {
+      const response = await fetch("/api/verification/calibration");
+
+      if (response.status === 403) return null;
+      if (!response.ok) {
+        throw new Error("Failed to fetch calibration report");
+      }
+
+      return response.json() as Promise<CalibrationReport>;
+    },
+    staleTime: 60000,
+  });
+}
+
+/** Lines waiting for the caller's blind grade. */
+export function useCalibrationQueue(limit = 10) {
+  return useQuery({
+    queryKey: ["verification-calibration-queue", limit],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/verification/calibration/queue?limit=${limit}`,
+        { cache: "no-store" }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch calibration queue");
+      }
+
+      return response.json() as Promise<{
+        items: CalibrationQueueItem[];
+        remaining: number;
+      }>;
+    },
+  });
+}
+
+export function useSubmitCalibrationRating() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rating: {
+      itemId: string;
+      scores: HumanDimensionScores;
+      notes?: string;
+    }) => {
+      const response = await fetch("/api/verification/calibration/ratings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(rating),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error?.message || "Failed to save rating");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["verification-calibration-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["verification-calibration"] });
+    },
+  });
+}
+
+/** Sample more graded lines into the calibration set. */
+export function useSampleCalibrationItems() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { size?: number; since?: string } = {}) => {
+      const response = await fetch("/api/verification/calibration", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error?.message || "Failed to sample lines");
+      }
+
+      return response.json() as Promise<{ success: true; added: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["verification-calibration-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["verification-calibration"] });
+    },
+  });
+}
@@ -0,0 +1,169 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  CompareGranularity,
+  CompareLens,
+  TranslationVersion,
+  TranslationVersionsResponse,
+  VersionCompareResult,
+} from "@/types/versions";
+
+interface CompareParams {
+  projectId: string;
+  leftId: string;
+  rightId: string;
+  granularity: CompareGranularity;
+  lens?: CompareLens;
+  notes?: string;
+}
+
+async function fetchCompare(
+  threadId: string,
+  params: CompareParams
+): Promise<VersionCompareResult> {
+  const response = await fetch(
+    `/api/threads/${encodeURIComponent(threadId)}/versions/compare`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || "Failed to compare versions");
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook to fetch the saved versions of a thread, newest first
+ */
+export function useTranslationVersions(threadId: string | null | undefined) {
+  return useQuery<TranslationVersionsResponse>({
+    queryKey: ["translation-versions", threadId],
+    queryFn: async () => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/versions`,
+        { cache: "no-store" }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to fetch versions");
+      }
+
+      return response.json();
+    },
+    enabled: !!threadId,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Hook to save the current translation as a named version
+ */
+export function useSaveVersion(threadId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      projectId: string;
+      title: string;
+      lines: string[];
+      summary?: string;
+      tags?: string[];
+    }): Promise<{ version: TranslationVersion }> => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/versions`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(params),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to save version");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["translation-versions", threadId],
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a saved version
+ */
+export function useDeleteVersion(threadId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (versionId: string) => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+
+      const response = await fetch(
+        `/api/threads/${encodeURIComponent(threadId)}/versions/${encodeURIComponent(versionId)}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to delete version");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["translation-versions", threadId],
+      });
+    },
+  });
+}
+
+/**
+ * Hook to diff two versions (no model call); runs once both are picked
+ */
+export function useCompareVersions(
+  threadId: string | null | undefined,
+  params: Omit<CompareParams, "lens" | "notes"> | null
+) {
+  return useQuery<VersionCompareResult>({
+    queryKey: ["version-compare", threadId, params],
+    queryFn: () => fetchCompare(threadId!, params!),
+    enabled: !!threadId && !!params && params.leftId !== params.rightId,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Hook to request AI commentary on a compare under a lens (costs a model call)
+ */
+export function useVersionCommentary(threadId: string | null | undefined) {
+  return useMutation({
+    mutationFn: async (params: CompareParams & { lens: CompareLens }) => {
+      if (!threadId) {
+        throw new Error("Thread ID is required");
+      }
+      return fetchCompare(threadId, params);
+    },
+  });
+}
@@ -4,17 +4,49 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { WorkshopLine } from "@/app/api/workshop/save-line/route";
 import { createBrowserClient } from "@/lib/supabaseBrowser";
 
-import type { LineTranslationResponse } from "@/types/lineTranslation";
+import type { AlignedWord, LineTranslationResponse } from "@/types/lineTranslation";
+import type { SaveOrigin } from "@/types/revisions";
+
+/**
+ * Save routes answer with `{ error: string }`, except thread guard failures
+ * (e.g. a submitted assignment) which use `{ error: { code, message } }`.
+ */
+function saveErrorMessage(
+  body: { error?: string | { message?: string } },
+  status: number
+): string {
+  const error = body.error;
+  return (typeof error === "string" ? error : error?.message) || `HTTP ${status}`;
+}
 
 interface SaveLineParams {
   threadId: string;
   lineIndex: number;
   originalLine?: string;
-  // Line translation with selected variant
-  variant: 1 | 2 | 3;
+  // Line translation with selected variant (1-based)
+  variant: number;
   lineTranslation: LineTranslationResponse;
 }
 
+interface SaveManualLineParams {
+  threadId: string;
+  lineIndex: number;
+  originalLine: string;
+  translatedLine: string;
+  // Recorded in the line's revision history (server default: "manual_edit")
+  origin?: SaveOrigin;
+  // Revision being restored when origin is "restore"
+  restoredFrom?: string;
+}
+
+interface SaveAlignmentParams {
+  threadId: string;
+  lineIndex: number;
+  /** Generated variant to correct; null for the saved translation */
+  variant: number | null;
+  words: AlignedWord[];
+}
+
 interface SaveLineResponse {
   ok: boolean;
   translatedLine: string;
@@ -53,7 +85,7 @@ export function useSaveLine() {
         const error = await res
           .json()
           .catch(() => ({ error: "Unknown error" }));
-        throw new Error(error.error || `HTTP ${res.status}`);
+        throw new Error(saveErrorMessage(error, res.status));
       }
 
       return res.json() as Promise<SaveLineResponse>;
@@ -63,6 +95,9 @@ export function useSaveLine() {
       queryClient.invalidateQueries({
         queryKey: ["workshop-state", variables.threadId],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["line-revisions", variables.threadId],
+      });
     },
   });
 }
@@ -139,33 +174,18 @@ export function useSaveManualLine() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({
-      threadId,
-      lineIndex,
-      originalLine,
-      translatedLine,
-    }: {
-      threadId: string;
-      lineIndex: number;
-      originalLine: string;
-      translatedLine: string;
-    }) => {
+    mutationFn: async (params: SaveManualLineParams) => {
       const res = await fetch("/api/workshop/save-manual-line", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          threadId,
-          lineIndex,
-          originalLine,
-          translatedLine,
-        }),
+        body: JSON.stringify(params),
       });
 
       if (!res.ok) {
         const error = await res
           .json()
           .catch(() => ({ error: "Unknown error" }));
-        throw new Error(error.error || `HTTP ${res.status}`);
+        throw new Error(saveErrorMessage(error, res.status));
       }
 
       return res.json() as Promise<{
@@ -179,6 +199,9 @@ export function useSaveManualLine() {
       queryClient.invalidateQueries({
         queryKey: ["workshop-state", variables.threadId],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["line-revisions", variables.threadId],
+      });
     },
   });
 }
@@ -190,33 +213,18 @@ export function useSaveManualLine() {
  */
 export function useSaveManualLineWithoutInvalidation() {
   return useMutation({
-    mutationFn: async ({
-      threadId,
-      lineIndex,
-      originalLine,
-      translatedLine,
-    }: {
-      threadId: string;
-      lineIndex: number;
-      originalLine: string;
-      translatedLine: string;
-    }) => {
+    mutationFn: async (params: SaveManualLineParams) => {
       const res = await fetch("/api/workshop/save-manual-line", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          threadId,
-          lineIndex,
-          originalLine,
-          translatedLine,
-        }),
+        body: JSON.stringify(params),
       });
 
       if (!res.ok) {
         const error = await res
           .json()
           .catch(() => ({ error: "Unknown error" }));
-        throw new Error(error.error || `HTTP ${res.status}`);
+        throw new Error(saveErrorMessage(error, res.status));
       }
 
       return res.json() as Promise<{
@@ -228,3 +236,44 @@ export function useSaveManualLineWithoutInvalidation() {
     // NO onSuccess callback - caller controls when to invalidate
   });
 }
+
+/**
+ * Hook to save a corrected word alignment for a variant or a saved line
+ */
+export function useSaveAlignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: SaveAlignmentParams) => {
+      const res = await fetch("/api/workshop/alignment", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      });
+
+      if (!res.ok) {
+        const error = await res
+          .json()
+          .catch(() => ({ error: "Unknown error" }));
+        throw new Error(saveErrorMessage(error, res.status));
+      }
+
+      return res.json() as Promise<{
+        ok: boolean;
+        lineIndex: number;
+        variant: number | null;
+        words: AlignedWord[];
+      }>;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["workshop-state", variables.threadId],
+      });
+      if (variables.variant !== null) {
+        queryClient.invalidateQueries({
+          queryKey: ["translation-job", variables.threadId],
+        });
+      }
+    },
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Tests for text direction and script detection.
+ *
+ * Run with: npx vitest run src/lib/i18n/textDirection.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  detectDirection,
+  detectScript,
+  isolateBidi,
+  languageDirection,
+  lineDirection,
+  resolveTextDirection,
+} from "./textDirection";
+
+describe("detectScript", () => {
+  it("returns the script with the most letters", () => {
+    expect(detectScript("Caminante, no hay camino")).toBe("latin");
+    expect(detectScript("שיר השירים")).toBe("hebrew");
+    expect(detectScript("دل میں ایک لہر سی اٹھی")).toBe("arabic");
+    expect(detectScript("静夜思 by Li Bai")).toBe("latin");
+    expect(detectScript("床前明月光")).toBe("han");
+  });
+
+  it("returns null without letters", () => {
+    expect(detectScript("1912 — ١٩١٢ …")).toBeNull();
+  });
+});
+
+describe("detectDirection", () => {
+  it("follows the majority of letters, not the first one", () => {
+    expect(detectDirection("Rumi گفت که عشق آتش است")).toBe("rtl");
+    expect(detectDirection("The word عشق means love")).toBe("ltr");
+  });
+
+  it("ignores digits and punctuation", () => {
+    expect(detectDirection("١٢٣ ... 456")).toBeNull();
+  });
+});
+
+describe("languageDirection", () => {
+  it("reads BCP 47 tags and script subtags", () => {
+    expect(languageDirection("ar")).toBe("rtl");
+    expect(languageDirection("fa-IR")).toBe("rtl");
+    expect(languageDirection("es-AR")).toBeNull();
+    expect(languageDirection("az-Arab")).toBe("rtl");
+    expect(languageDirection("ku-Latn")).toBe("ltr");
+  });
+
+  it("reads English and native language names", () => {
+    expect(languageDirection("Persian (Dari)")).toBe("rtl");
+    expect(languageDirection("Hebrew script")).toBe("rtl");
+    expect(languageDirection("עברית")).toBe("rtl");
+    expect(languageDirection("Arabic (Latin script)")).toBe("ltr");
+    expect(languageDirection("English")).toBeNull();
+  });
+});
+
+describe("resolveTextDirection / lineDirection", () => {
+  it("prefers the text, then hints, then the fallback", () => {
+    expect(resolveTextDirection("سلام", ["English"])).toBe("rtl");
+    expect(resolveTextDirection("", [null, "Urdu"])).toBe("rtl");
+    expect(resolveTextDirection("", ["English"], "rtl")).toBe("rtl");
+    expect(resolveTextDirection(null)).toBe("ltr");
+  });
+
+  it("lets number-only lines follow the poem", () => {
+    expect(lineDirection("١٩١٢", "rtl")).toBe("rtl");
+    expect(lineDirection("Machado", "rtl")).toBe("ltr");
+  });
+});
+
+describe("isolateBidi", () => {
+  it("isolates text with right-to-left letters once", () => {
+    const isolated = isolateBidi("عشق (love)");
+    expect(isolated).toBe("\u2068عشق (love)\u2069");
+    expect(isolateBidi(isolated)).toBe(isolated);
+  });
+
+  it("leaves left-to-right text unchanged", () => {
+    expect(isolateBidi("the road")).toBe("the road");
+  });
+});
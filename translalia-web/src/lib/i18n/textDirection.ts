@@ -0,0 +1,209 @@
+/**
+ * Text direction and script detection (pure, client-safe)
+ *
+ * The UI locale only decides the direction of the app chrome. Poem text and
+ * translations get their own direction: from the letters they contain, or
+ * from the target language / script the user chose when there is no text yet.
+ * Lines are rendered with their own `dir` (which isolates them, so a Latin
+ * line inside an Arabic poem, or the reverse, keeps its punctuation in place).
+ */
+
+export type TextDirection = "ltr" | "rtl";
+
+export type WritingScript =
+  | "latin"
+  | "greek"
+  | "cyrillic"
+  | "armenian"
+  | "georgian"
+  | "hebrew"
+  | "arabic"
+  | "syriac"
+  | "thaana"
+  | "nko"
+  | "ethiopic"
+  | "devanagari"
+  | "bengali"
+  | "gurmukhi"
+  | "gujarati"
+  | "tamil"
+  | "telugu"
+  | "kannada"
+  | "malayalam"
+  | "sinhala"
+  | "thai"
+  | "hangul"
+  | "kana"
+  | "han"
+  | "other";
+
+/** Inclusive code point ranges per script, in code point order */
+const SCRIPT_RANGES: Array<[number, number, WritingScript]> = [
+  [0x0041, 0x024f, "latin"],
+  [0x0370, 0x03ff, "greek"],
+  [0x0400, 0x052f, "cyrillic"],
+  [0x0530, 0x058f, "armenian"],
+  [0x0590, 0x05ff, "hebrew"],
+  [0x0600, 0x06ff, "arabic"],
+  [0x0700, 0x074f, "syriac"],
+  [0x0750, 0x077f, "arabic"],
+  [0x0780, 0x07bf, "thaana"],
+  [0x07c0, 0x07ff, "nko"],
+  [0x0860, 0x086f, "syriac"],
+  [0x0870, 0x08ff, "arabic"],
+  [0x0900, 0x097f, "devanagari"],
+  [0x0980, 0x09ff, "bengali"],
+  [0x0a00, 0x0a7f, "gurmukhi"],
+  [0x0a80, 0x0aff, "gujarati"],
+  [0x0b80, 0x0bff, "tamil"],
+  [0x0c00, 0x0c7f, "telugu"],
+  [0x0c80, 0x0cff, "kannada"],
+  [0x0d00, 0x0d7f, "malayalam"],
+  [0x0d80, 0x0dff, "sinhala"],
+  [0x0e00, 0x0e7f, "thai"],
+  [0x10a0, 0x10ff, "georgian"],
+  [0x1100, 0x11ff, "hangul"],
+  [0x1200, 0x139f, "ethiopic"],
+  [0x1e00, 0x1eff, "latin"],
+  [0x1f00, 0x1fff, "greek"],
+  [0x3040, 0x30ff, "kana"],
+  [0x3130, 0x318f, "hangul"],
+  [0x3400, 0x4dbf, "han"],
+  [0x4e00, 0x9fff, "han"],
+  [0xac00, 0xd7af, "hangul"],
+  [0xf900, 0xfaff, "han"],
+  [0xfb1d, 0xfb4f, "hebrew"],
+  [0xfb50, 0xfdff, "arabic"],
+  [0xfe70, 0xfeff, "arabic"],
+  [0x20000, 0x2fa1f, "han"],
+];
+
+const RTL_SCRIPTS = new Set<WritingScript>(["hebrew", "arabic", "syriac", "thaana", "nko"]);
+
+// Built at runtime: the \p{...} escapes need an ES2018 regex engine, not an
+// ES2018 compile target.
+const LETTER = new RegExp("\\p{L}", "u");
+
+/** First strong isolate / pop directional isolate */
+const FSI = "\u2068";
+const PDI = "\u2069";
+
+function scriptOf(codePoint: number): WritingScript {
+  for (const [from, to, script] of SCRIPT_RANGES) {
+    if (codePoint < from) break;
+    if (codePoint <= to) return script;
+  }
+  return "other";
+}
+
+/** Letter count per script; digits, punctuation and spaces are not counted */
+function countScripts(text: string): Map<WritingScript, number> {
+  const counts = new Map<WritingScript, number>();
+  for (const ch of text) {
+    if (!LETTER.test(ch)) continue;
+    const script = scriptOf(ch.codePointAt(0)!);
+    counts.set(script, (counts.get(script) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Script with the most letters in `text`, or null when it has no letters.
+ */
+export function detectScript(text: string): WritingScript | null {
+  let best: WritingScript | null = null;
+  let bestCount = 0;
+  for (const [script, count] of countScripts(text)) {
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Direction of most of the letters in `text`, or null when it has no
+ * letters. Unlike `dir="auto"` (first strong character) a Persian line that
+ * opens with a Latin name is still right-to-left.
+ */
+export function detectDirection(text: string): TextDirection | null {
+  let rtl = 0;
+  let ltr = 0;
+  for (const [script, count] of countScripts(text)) {
+    if (RTL_SCRIPTS.has(script)) rtl += count;
+    else ltr += count;
+  }
+  if (rtl === 0 && ltr === 0) return null;
+  return rtl > ltr ? "rtl" : "ltr";
+}
+
+const RTL_LANGUAGE_CODES = new Set([
+  "ar", "arc", "azb", "bal", "ckb", "dv", "fa", "glk", "he", "iw", "ks",
+  "lrc", "mzn", "prs", "ps", "sd", "syr", "ug", "ur", "yi",
+]);
+const RTL_SCRIPT_SUBTAGS = new Set(["arab", "hebr", "syrc", "thaa", "nkoo"]);
+const RTL_LANGUAGE_NAMES =
+  /\b(arabic|hebrew|persian|farsi|dari|urdu|pashto|pushto|sindhi|uyghur|uighur|yiddish|dhivehi|divehi|maldivian|sorani|syriac|aramaic|kashmiri|balochi|thaana|n'?ko)\b/i;
+/** Romanized or non-RTL script named explicitly, e.g. "Arabic (Latin script)" */
+const LTR_SCRIPT_NAMES = /\b(latin|roman|romani[sz]ed|arabizi|translit\w*|cyrillic)\b/i;
+
+/**
+ * Direction of a language or script given as a BCP 47 tag ("fa", "az-Arab"),
+ * an English name ("Persian", "Arabic (Egyptian)", "Hebrew script") or a
+ * native name ("العربية"). Null when it cannot tell.
+ */
+export function languageDirection(language: string | null | undefined): TextDirection | null {
+  const value = language?.trim();
+  if (!value) return null;
+
+  const tag = /^([a-z]{2,3})(?:[-_]([a-z]{4}))?(?:[-_][a-z0-9]{2,8})*$/i.exec(value);
+  if (tag) {
+    const script = tag[2]?.toLowerCase();
+    if (script) return RTL_SCRIPT_SUBTAGS.has(script) ? "rtl" : "ltr";
+    if (RTL_LANGUAGE_CODES.has(tag[1].toLowerCase())) return "rtl";
+  }
+
+  if (LTR_SCRIPT_NAMES.test(value)) return "ltr";
+  if (RTL_LANGUAGE_NAMES.test(value)) return "rtl";
+  return detectDirection(value) === "rtl" ? "rtl" : null;
+}
+
+/**
+ * Direction for a body of text: its letters first, then the hints (language
+ * or script names, most specific first), then `fallback`.
+ */
+export function resolveTextDirection(
+  text: string | null | undefined,
+  hints: Array<string | null | undefined> = [],
+  fallback: TextDirection = "ltr"
+): TextDirection {
+  const detected = text ? detectDirection(text) : null;
+  if (detected) return detected;
+  for (const hint of hints) {
+    const dir = languageDirection(hint);
+    if (dir) return dir;
+  }
+  return fallback;
+}
+
+/**
+ * Direction of one line: its own letters, else the direction of the text it
+ * belongs to (blank and number-only lines follow the poem).
+ */
+export function lineDirection(line: string | null | undefined, fallback: TextDirection): TextDirection {
+  return (line && detectDirection(line)) || fallback;
+}
+
+/**
+ * Wrap text that contains right-to-left letters in a first-strong isolate,
+ * for plain-text output (TXT, Markdown) where no `dir` attribute exists.
+ * Left-to-right text is returned unchanged.
+ */
+export function isolateBidi(text: string): string {
+  if (!text || text.startsWith(FSI)) return text;
+  for (const script of countScripts(text).keys()) {
+    if (RTL_SCRIPTS.has(script)) return `${FSI}${text}${PDI}`;
+  }
+  return text;
+}
@@ -17,3 +17,9 @@ export const EMBEDDINGS_MODEL =
 export const VERIFICATION_MODEL =
   process.env.VERIFICATION_MODEL?.trim() || "gpt-5";
 export const CONTEXT_MODEL = process.env.CONTEXT_MODEL?.trim() || "gpt-5-mini";
+
+// Small models for word suggestions (and their language repair) and alignment
+export const SUGGESTION_MODEL =
+  process.env.SUGGESTION_MODEL?.trim() || "gpt-4o-mini";
+export const ALIGNMENT_MODEL =
+  process.env.ALIGNMENT_MODEL?.trim() || "gpt-4o-mini";
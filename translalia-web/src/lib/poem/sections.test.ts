@@ -0,0 +1,192 @@
+/**
+ * Tests for long-form section detection, the stanzas built from it and the
+ * cross-section context given to line prompts.
+ *
+ * Run with: npx vitest run src/lib/poem/sections.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  detectSections,
+  getSectionContext,
+  isLongFormSplit,
+  normalizeSectionOutline,
+  splitLongFormPoem,
+} from "./sections";
+
+/** `count` numbered lines; every fourth ends a sentence. */
+function verse(prefix: string, count: number): string[] {
+  return Array.from(
+    { length: count },
+    (_, i) => `${prefix} line ${i + 1}${i % 4 === 3 ? "." : ","}`
+  );
+}
+
+function flatLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+describe("detectSections", () => {
+  it("starts a section at each heading and separator", () => {
+    const text = [
+      "Canto I",
+      ...verse("a", 6),
+      "",
+      "Canto II",
+      "",
+      ...verse("b", 5),
+      "* * *",
+      ...verse("c", 3),
+    ].join("\n");
+
+    const sections = detectSections(text);
+    expect(sections.map((s) => s.title)).toEqual(["Canto I", "Canto II", null]);
+    expect(sections.map((s) => s.lineCount)).toEqual([7, 6, 4]);
+    expect(sections.map((s) => s.firstLine)).toEqual([0, 7, 13]);
+    expect(sections[1].lines[0]).toBe("Canto II");
+    expect(sections[2].lines[0]).toBe("* * *");
+  });
+
+  it("treats lone numerals as headings but not lowercase words", () => {
+    const text = ["I", ...verse("a", 4), "II.", ...verse("b", 4), "vivid"].join("\n");
+    const sections = detectSections(text);
+    expect(sections.map((s) => s.title)).toEqual(["I", "II."]);
+    expect(sections[1].lines).toContain("vivid");
+  });
+
+  it("needs a numeral or number word after a heading word", () => {
+    const text = [
+      "Song sung",
+      ...verse("a", 3),
+      "Book One",
+      ...verse("b", 3),
+      "Canto mild",
+      "Canto XIV",
+      ...verse("c", 3),
+      "Parte segunda",
+      ...verse("d", 3),
+    ].join("\n");
+
+    const sections = detectSections(text);
+    expect(sections.map((s) => s.title)).toEqual([null, "Book One", "Canto XIV", "Parte segunda"]);
+    expect(sections[1].lines).toContain("Canto mild");
+  });
+
+  it("groups whole stanzas by size when there are no headings", () => {
+    const stanzas = Array.from({ length: 12 }, (_, i) => verse(`s${i}`, 8).join("\n"));
+    const sections = detectSections(stanzas.join("\n\n"));
+
+    // 40-line target: five 8-line stanzas per section
+    expect(sections.map((s) => s.lineCount)).toEqual([40, 40, 16]);
+    expect(sections.every((s) => s.title === null)).toBe(true);
+  });
+
+  it("cuts a single long stanza into section-sized pieces", () => {
+    const sections = detectSections(verse("x", 100).join("\n"));
+    expect(sections.map((s) => s.lineCount)).toEqual([40, 40, 20]);
+  });
+});
+
+describe("splitLongFormPoem", () => {
+  it("chunks each section and keeps every line in order", () => {
+    const text = [
+      "Part 1",
+      ...verse("a", 9),
+      "",
+      "Part 2",
+      ...verse("b", 13),
+    ].join("\n");
+    const result = splitLongFormPoem(text);
+
+    expect(result.stanzas.flatMap((s) => s.lines)).toEqual(flatLines(text));
+    expect(result.stanzas.map((s) => s.number)).toEqual(
+      result.stanzas.map((_, i) => i + 1)
+    );
+    expect(result.sections).toHaveLength(2);
+
+    // No chunk straddles a section boundary
+    const [first, second] = result.sections!;
+    expect(second.firstChunk).toBe(first.chunkCount);
+    expect(result.stanzas[second.firstChunk].lines[0]).toBe("Part 2");
+    expect(normalizeSectionOutline(result.sections, result.stanzas)).toEqual(
+      result.sections
+    );
+  });
+});
+
+describe("normalizeSectionOutline", () => {
+  const { stanzas, sections } = splitLongFormPoem(
+    ["Canto I", ...verse("a", 8), "Canto II", ...verse("b", 8)].join("\n")
+  );
+
+  it("rejects outlines that do not cover the stanzas", () => {
+    expect(normalizeSectionOutline(sections, stanzas.slice(1))).toBeNull();
+    expect(normalizeSectionOutline(sections!.slice(1), stanzas)).toBeNull();
+    expect(
+      normalizeSectionOutline(
+        sections!.map((s) => ({ ...s, lineCount: s.lineCount + 1 })),
+        stanzas
+      )
+    ).toBeNull();
+    expect(normalizeSectionOutline("sections", stanzas)).toBeNull();
+  });
+});
+
+describe("isLongFormSplit", () => {
+  const text = ["Canto I", ...verse("a", 8), "Canto II", ...verse("b", 8)].join("\n");
+
+  it("accepts the long-form split of the poem", () => {
+    expect(isLongFormSplit(text, splitLongFormPoem(text).stanzas)).toBe(true);
+  });
+
+  it("rejects stanzas that were not split from the poem", () => {
+    const { stanzas } = splitLongFormPoem(text);
+    const fourLine = Array.from({ length: 5 }, (_, i) => ({
+      lines: flatLines(text).slice(i * 4, i * 4 + 4),
+    }));
+    expect(isLongFormSplit(text, fourLine)).toBe(false);
+    expect(isLongFormSplit(text, stanzas.slice(1))).toBe(false);
+    expect(isLongFormSplit(`${text}\nextra line`, stanzas)).toBe(false);
+  });
+});
+
+describe("getSectionContext", () => {
+  it("returns the section text and an outline for long-form poems", () => {
+    const poem = splitLongFormPoem(
+      ["Canto I", ...verse("a", 8), "Canto II", ...verse("b", 8)].join("\n")
+    );
+    const chunk = poem.sections![1].firstChunk;
+    const context = getSectionContext(poem, chunk)!;
+
+    expect(context.section.title).toBe("Canto II");
+    expect(context.text.split("\n")[0]).toBe("Canto II");
+    expect(context.summary).toContain(
+      'section 2 of 2 ("Canto II"), lines 10–18'
+    );
+    expect(context.summary).toContain('1. Canto I (lines 1–9): "Canto I" … "a line 8."');
+    expect(context.summary).toContain("← current section");
+  });
+
+  it("elides distant sections in very long works", () => {
+    const text = Array.from({ length: 30 }, (_, i) =>
+      [`Sonnet ${i + 1}`, ...verse(`s${i}`, 4)].join("\n")
+    ).join("\n\n");
+    const poem = splitLongFormPoem(text);
+    const context = getSectionContext(poem, poem.sections![15].firstChunk)!;
+
+    expect(context.summary).toContain("1. Sonnet 1 ");
+    expect(context.summary).toContain("30. Sonnet 30 ");
+    expect(context.summary).toContain("11. Sonnet 11 ");
+    expect(context.summary).not.toContain("10. Sonnet 10 ");
+    expect(context.summary.match(/^…$/gm)).toHaveLength(2);
+  });
+
+  it("is null for poems without sections", () => {
+    expect(
+      getSectionContext({ stanzas: [{ lines: ["one", "two"] }] }, 0)
+    ).toBeNull();
+  });
+});
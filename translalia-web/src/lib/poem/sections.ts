@@ -0,0 +1,352 @@
+/**
+ * Long-form poems: narrative poems, cantos and sonnet sequences.
+ *
+ * A long-form work is split into sections, at headings ("Canto II", "Sonnet
+ * 18", a lone numeral) or "* * *" breaks, or by size at stanza breaks when it
+ * has none. Each section is chunked with detectChunksLocal(), and the chunks
+ * of all sections become the poem's stanzas in order, so the translation job,
+ * line numbering and progress stay flat. The section outline travels with the
+ * stanzas (`sections`), for section navigation and for the cross-section
+ * context that line prompts get instead of the full text.
+ */
+
+import { detectChunksLocal, type Chunk } from "./chunkDetection";
+import type { SimplePoemStanzas } from "@/lib/utils/stanzaUtils";
+
+/** Character limit of the poem input in long-form mode */
+export const LONG_FORM_CHAR_LIMIT = 60000;
+
+/** Sections of a work without headings are built up to this many lines */
+const SECTION_TARGET_LINES = 40;
+/** Headed sections longer than this are split at stanza breaks */
+const SECTION_MAX_LINES = 80;
+/** Sections listed on each side of the current one in a long outline */
+const OUTLINE_NEIGHBOURS = 5;
+const OUTLINE_EXCERPT_CHARS = 60;
+
+export interface PoemSectionOutline {
+  /** 0-based section index */
+  index: number;
+  /** Heading line that opened the section, if any */
+  title: string | null;
+  /** First chunk (index into the poem's stanzas) */
+  firstChunk: number;
+  chunkCount: number;
+  /** First line, in the flattened non-empty line space of the workshop */
+  firstLine: number;
+  lineCount: number;
+}
+
+export interface PoemSection extends PoemSectionOutline {
+  lines: string[];
+  chunks: Chunk[];
+}
+
+/** Where a chunk sits in a long-form work, for line prompts. */
+export interface SectionContext {
+  section: PoemSectionOutline;
+  totalSections: number;
+  /** The section's own text */
+  text: string;
+  /** Position in the work and an outline of all sections */
+  summary: string;
+}
+
+const HEADING_WORDS =
+  "canto|chant|gesang|book|libro|livre|part|parte|partie|section|chapter|cap[ií]tulo|sonnet|soneto|sonetto|song|elegy|eleg[ií]a|poem";
+// Cardinals and ordinals, in the languages of HEADING_WORDS ("Book One", "Canto Primo")
+const NUMBER_WORDS =
+  "one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|" +
+  "first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|eleventh|twelfth|" +
+  "uno|una|dos|tres|cuatro|cinco|seis|siete|ocho|nueve|diez|" +
+  "primero|primera|segundo|segunda|tercero|tercera|cuarto|cuarta|quinto|quinta|" +
+  "sexto|sexta|s[eé]ptimo|s[eé]ptima|octavo|octava|noveno|novena|d[eé]cimo|d[eé]cima|" +
+  "un|une|deux|trois|quatre|cinq|sept|huit|neuf|dix|premier|premi[eè]re|seconde|" +
+  "deuxi[eè]me|troisi[eè]me|quatri[eè]me|cinqui[eè]me|sixi[eè]me|septi[eè]me|" +
+  "huiti[eè]me|neuvi[eè]me|dixi[eè]me|" +
+  "eins|zwei|drei|vier|f[uü]nf|sechs|sieben|acht|neun|zehn|" +
+  "erste|erster|erstes|zweite|zweiter|dritte|dritter|vierte|vierter|f[uü]nfte|f[uü]nfter|" +
+  "due|tre|quattro|cinque|sei|sette|otto|nove|dieci|" +
+  "primo|prima|terzo|terza|sesto|settimo|ottavo|nono|decimo|" +
+  "um|dois|duas|tr[eê]s|oito|dez|primeiro|primeira|terceiro|terceira";
+// Well-formed numerals up to 3999, so "Song did" or "Canto mild" are not headings
+const ROMAN = "(?=[ivxlcdm])m{0,3}(?:cm|cd|d?c{0,3})(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3})";
+const NAMED_HEADING = new RegExp(
+  `^(?:${HEADING_WORDS})(?:\\s+(?:\\d{1,3}|${ROMAN}|${NUMBER_WORDS}))?[.:]?$`,
+  "iu"
+);
+// Uppercase only: lowercase "mix" or "civil" are words, not numerals
+const NUMBER_HEADING = new RegExp(`^(?:${ROMAN.toUpperCase()}|\\d{1,3})[.:]?$`);
+const SEPARATOR = /^(?:(?:[*•·~#=_\-–—]\s*){3,}|§+)$/;
+
+/** Line that opens a new section; headings also name it. */
+function sectionBreak(line: string): { title: string | null } | null {
+  if (SEPARATOR.test(line)) return { title: null };
+  if (line.length <= 40 && (NAMED_HEADING.test(line) || NUMBER_HEADING.test(line))) {
+    return { title: line };
+  }
+  return null;
+}
+
+interface Block {
+  lines: string[];
+  /** Set when the block opens with a heading or separator */
+  opensSection: boolean;
+  title: string | null;
+}
+
+/** Stanzas (runs of non-empty lines); a section break always starts one. */
+function splitBlocks(poemText: string): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  for (const rawLine of poemText.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) {
+      current = null;
+      continue;
+    }
+    const brk = sectionBreak(line);
+    if (brk || !current) {
+      current = { lines: [], opensSection: !!brk, title: brk?.title ?? null };
+      blocks.push(current);
+    }
+    current.lines.push(line);
+  }
+  return blocks;
+}
+
+/**
+ * Split a poem into sections, each with its own chunks. Chunk and line
+ * offsets continue across sections, matching the flattened stanzas.
+ */
+export function detectSections(poemText: string): PoemSection[] {
+  const blocks = splitBlocks(poemText);
+  const headed = blocks.some((block) => block.opensSection);
+  const limit = headed ? SECTION_MAX_LINES : SECTION_TARGET_LINES;
+
+  // Stanzas longer than a section are cut into section-sized pieces
+  const pieces = blocks.flatMap((block) => {
+    if (block.lines.length <= limit) return [block];
+    const result: Block[] = [];
+    for (let i = 0; i < block.lines.length; i += limit) {
+      result.push({
+        lines: block.lines.slice(i, i + limit),
+        opensSection: i === 0 && block.opensSection,
+        title: i === 0 ? block.title : null,
+      });
+    }
+    return result;
+  });
+
+  const groups: Block[][] = [];
+  let size = 0;
+  for (const piece of pieces) {
+    const current = groups[groups.length - 1];
+    if (!current || piece.opensSection || size + piece.lines.length > limit) {
+      groups.push([piece]);
+      size = piece.lines.length;
+    } else {
+      current.push(piece);
+      size += piece.lines.length;
+    }
+  }
+
+  const sections: PoemSection[] = [];
+  let firstChunk = 0;
+  let firstLine = 0;
+  for (const group of groups) {
+    const lines = group.flatMap((block) => block.lines);
+    const chunks = detectChunksLocal(lines.join("\n")).chunks;
+    sections.push({
+      index: sections.length,
+      title: group[0].title,
+      firstChunk,
+      chunkCount: chunks.length,
+      firstLine,
+      lineCount: lines.length,
+      lines,
+      chunks,
+    });
+    firstChunk += chunks.length;
+    firstLine += lines.length;
+  }
+  return sections;
+}
+
+/**
+ * Long-form counterpart of splitPoemIntoStanzas(): the chunks of every
+ * section, numbered across the work, with the section outline.
+ */
+export function splitLongFormPoem(poemText: string): SimplePoemStanzas {
+  const sections = detectSections(poemText);
+  const stanzas = sections
+    .flatMap((section) => section.chunks)
+    .map((chunk, i) => ({ number: i + 1, lines: chunk.lines, text: chunk.text }));
+
+  return {
+    stanzas,
+    totalStanzas: stanzas.length,
+    sections: sections.map(
+      ({ index, title, firstChunk, chunkCount, firstLine, lineCount }) => ({
+        index,
+        title,
+        firstChunk,
+        chunkCount,
+        firstLine,
+        lineCount,
+      })
+    ),
+  };
+}
+
+/**
+ * The outline if it covers `stanzas` in order with no gaps, else null (stale
+ * or tampered client state). Titles are trimmed and capped.
+ */
+export function normalizeSectionOutline(
+  sections: unknown,
+  stanzas: Array<{ lines: string[] }>
+): PoemSectionOutline[] | null {
+  if (!Array.isArray(sections) || sections.length === 0) return null;
+
+  const result: PoemSectionOutline[] = [];
+  let firstChunk = 0;
+  let firstLine = 0;
+  for (const raw of sections as Array<Partial<PoemSectionOutline> | null>) {
+    const chunkCount = raw?.chunkCount;
+    if (
+      raw?.firstChunk !== firstChunk ||
+      raw.firstLine !== firstLine ||
+      !Number.isInteger(chunkCount) ||
+      chunkCount! < 1 ||
+      firstChunk + chunkCount! > stanzas.length
+    ) {
+      return null;
+    }
+    const lineCount = stanzas
+      .slice(firstChunk, firstChunk + chunkCount!)
+      .reduce((sum, stanza) => sum + stanza.lines.length, 0);
+    if (raw.lineCount !== lineCount) return null;
+
+    const title = typeof raw.title === "string" ? raw.title.trim().slice(0, 200) : "";
+    result.push({
+      index: result.length,
+      title: title || null,
+      firstChunk,
+      chunkCount: chunkCount!,
+      firstLine,
+      lineCount,
+    });
+    firstChunk += chunkCount!;
+    firstLine += lineCount;
+  }
+  return firstChunk === stanzas.length ? result : null;
+}
+
+/**
+ * Whether `stanzas` are the long-form split of `poemText`, recomputed here
+ * rather than trusted from the client's outline. Server-side limits that
+ * favour long-form works check this on the stored poem.
+ */
+export function isLongFormSplit(
+  poemText: string,
+  stanzas: Array<{ lines: string[] }>
+): boolean {
+  if (!poemText || poemText.length > LONG_FORM_CHAR_LIMIT) return false;
+  const expected = splitLongFormPoem(poemText).stanzas;
+  return (
+    expected.length === stanzas.length &&
+    expected.every(
+      (stanza, i) =>
+        stanza.lines.length === stanzas[i].lines?.length &&
+        stanza.lines.every((line, j) => line === stanzas[i].lines[j])
+    )
+  );
+}
+
+/** Section containing a chunk (stanza index), if the poem is long-form. */
+export function findSectionForChunk(
+  sections: PoemSectionOutline[] | null | undefined,
+  chunkIndex: number
+): PoemSectionOutline | null {
+  return (
+    sections?.find(
+      (s) => chunkIndex >= s.firstChunk && chunkIndex < s.firstChunk + s.chunkCount
+    ) ?? null
+  );
+}
+
+function excerpt(line: string | undefined): string {
+  const text = line ?? "";
+  return text.length > OUTLINE_EXCERPT_CHARS
+    ? `${text.slice(0, OUTLINE_EXCERPT_CHARS - 1)}…`
+    : text;
+}
+
+/**
+ * Cross-section context for a chunk of a long-form work: the section's text
+ * and a summary of where it sits, with the first and last line of every
+ * section (only the neighbours of the current one in very long works). Null
+ * for poems with fewer than two sections, which prompts see in full.
+ */
+export function getSectionContext(
+  poem:
+    | { stanzas: Array<{ lines: string[] }>; sections?: PoemSectionOutline[] | null }
+    | null
+    | undefined,
+  chunkIndex: number | undefined
+): SectionContext | null {
+  const sections = poem?.sections;
+  if (!poem || !sections || sections.length < 2 || chunkIndex === undefined) {
+    return null;
+  }
+  const section = findSectionForChunk(sections, chunkIndex);
+  if (!section) return null;
+
+  const linesOf = (s: PoemSectionOutline) =>
+    poem.stanzas
+      .slice(s.firstChunk, s.firstChunk + s.chunkCount)
+      .flatMap((stanza) => stanza.lines);
+  const range = (s: PoemSectionOutline) =>
+    `lines ${s.firstLine + 1}–${s.firstLine + s.lineCount}`;
+
+  const totalLines = sections.reduce((sum, s) => sum + s.lineCount, 0);
+  const showAll = sections.length <= 2 * OUTLINE_NEIGHBOURS + 3;
+  const outline: string[] = [];
+  let skipped = false;
+  for (const s of sections) {
+    const shown =
+      showAll ||
+      s.index === 0 ||
+      s.index === sections.length - 1 ||
+      Math.abs(s.index - section.index) <= OUTLINE_NEIGHBOURS;
+    if (!shown) {
+      if (!skipped) outline.push("…");
+      skipped = true;
+      continue;
+    }
+    skipped = false;
+    const lines = linesOf(s);
+    outline.push(
+      `${s.index + 1}. ${s.title ? `${s.title} ` : ""}(${range(s)}): ` +
+        `"${excerpt(lines[0])}" … "${excerpt(lines[lines.length - 1])}"` +
+        (s.index === section.index ? " ← current section" : "")
+    );
+  }
+
+  const summary = [
+    `Long-form work: ${sections.length} sections, ${totalLines} lines. ` +
+      `This line is in section ${section.index + 1} of ${sections.length}` +
+      `${section.title ? ` ("${section.title}")` : ""}, ${range(section)}.`,
+    "Outline (first and last line of each section):",
+    ...outline,
+  ].join("\n");
+
+  return {
+    section,
+    totalSections: sections.length,
+    text: linesOf(section).join("\n"),
+    summary,
+  };
+}
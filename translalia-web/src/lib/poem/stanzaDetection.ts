@@ -2,6 +2,8 @@
  * Stanza detection utilities for poem segmentation
  */
 
+import type { PoemSectionOutline } from "./sections";
+
 export interface Stanza {
   number: number;
   text: string;
@@ -15,6 +17,7 @@ export interface StanzaDetectionResult {
   totalStanzas: number;
   detectionMethod: "local" | "ai" | "fallback";
   reasoning?: string; // Optional reasoning from AI detection
+  sections?: PoemSectionOutline[]; // Long-form poems only (see ./sections)
 }
 
 /**
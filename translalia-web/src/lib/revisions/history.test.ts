@@ -0,0 +1,68 @@
+/**
+ * Tests for revision history helpers: word diffs and poem reconstruction.
+ *
+ * Run with: npx vitest run src/lib/revisions/history.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import type { LineRevision } from "@/types/revisions";
+import { diffWords, linesAt } from "./history";
+
+function revision(
+  lineIndex: number,
+  text: string,
+  createdAt: string
+): LineRevision {
+  return {
+    id: `${lineIndex}-${createdAt}`,
+    branchId: null,
+    lineIndex,
+    text,
+    origin: "manual_edit",
+    variant: null,
+    restoredFrom: null,
+    createdBy: "user-1",
+    createdAt,
+  };
+}
+
+describe("diffWords", () => {
+  it("returns a single equal segment for identical text", () => {
+    expect(diffWords("the quiet river", "the  quiet river ")).toEqual([
+      { type: "equal", text: "the quiet river" },
+    ]);
+  });
+
+  it("marks replaced, removed and added words", () => {
+    expect(diffWords("the quiet river sleeps", "the silver river sleeps tonight")).toEqual([
+      { type: "equal", text: "the" },
+      { type: "delete", text: "quiet" },
+      { type: "insert", text: "silver" },
+      { type: "equal", text: "river sleeps" },
+      { type: "insert", text: "tonight" },
+    ]);
+  });
+
+  it("handles empty sides", () => {
+    expect(diffWords("", "new line")).toEqual([{ type: "insert", text: "new line" }]);
+    expect(diffWords("old line", "")).toEqual([{ type: "delete", text: "old line" }]);
+  });
+});
+
+describe("linesAt", () => {
+  const revisions = [
+    revision(0, "first draft", "2026-10-01T10:00:00.000Z"),
+    revision(0, "second draft", "2026-10-02T10:00:00.000Z"),
+    revision(1, "another line", "2026-10-03T10:00:00.000Z"),
+  ];
+
+  it("takes the newest revision of each line", () => {
+    expect(linesAt(revisions)).toEqual({ 0: "second draft", 1: "another line" });
+  });
+
+  it("reconstructs the poem at an earlier moment", () => {
+    expect(linesAt(revisions, "2026-10-01T12:00:00.000Z")).toEqual({
+      0: "first draft",
+    });
+  });
+});
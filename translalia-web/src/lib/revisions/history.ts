@@ -0,0 +1,42 @@
+/**
+ * Revision history helpers (pure, client-safe)
+ *
+ * Word-level diffs between two revisions and reconstruction of a poem's text
+ * from its line revisions.
+ */
+
+import type { DiffSegment, LineRevision } from "@/types/revisions";
+import { diffTokens, wordTokens } from "@/lib/utils/textDiff";
+
+/**
+ * Word-level diff from `before` to `after` (longest common subsequence).
+ * Segments are in reading order; "delete" segments come before the "insert"
+ * segments that replace them.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  return diffTokens(before, after, { tokenize: wordTokens, separator: " " });
+}
+
+/**
+ * Text of each line as of `at` (ISO timestamp, default now): the newest
+ * revision of every line created at or before that moment.
+ */
+export function linesAt(
+  revisions: LineRevision[],
+  at?: string
+): Record<number, string> {
+  const cutoff = at ? Date.parse(at) : Infinity;
+  const newest: Record<number, LineRevision> = {};
+
+  for (const revision of revisions) {
+    if (Date.parse(revision.createdAt) > cutoff) continue;
+    const current = newest[revision.lineIndex];
+    if (!current || revision.createdAt > current.createdAt) {
+      newest[revision.lineIndex] = revision;
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(newest).map(([lineIndex, revision]) => [lineIndex, revision.text])
+  );
+}
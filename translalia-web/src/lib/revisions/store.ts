@@ -0,0 +1,291 @@
+/**
+ * Revision History - persistence
+ *
+ * Reads and writes `line_revisions` and `translation_branches`. Every call
+ * takes the caller's Supabase client so RLS limits access to the thread owner
+ * and its collaborators.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  LineRevision,
+  LineRevisionOrigin,
+  TranslationBranch,
+} from "@/types/revisions";
+import { linesAt } from "./history";
+
+interface RevisionRow {
+  id: string;
+  branch_id: string | null;
+  line_index: number;
+  text: string;
+  origin: LineRevisionOrigin;
+  variant: number | null;
+  restored_from: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+interface BranchRow {
+  id: string;
+  name: string;
+  forked_from_branch_id: string | null;
+  created_at: string;
+}
+
+const REVISION_COLUMNS =
+  "id, branch_id, line_index, text, origin, variant, restored_from, created_by, created_at";
+const BRANCH_COLUMNS = "id, name, forked_from_branch_id, created_at";
+const MAX_REVISIONS = 500;
+
+function rowToRevision(row: RevisionRow): LineRevision {
+  return {
+    id: row.id,
+    branchId: row.branch_id,
+    lineIndex: row.line_index,
+    text: row.text,
+    origin: row.origin,
+    variant: row.variant,
+    restoredFrom: row.restored_from,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+export interface LineRevisionEntry {
+  threadId: string;
+  userId: string;
+  /** null or omitted for the main translation */
+  branchId?: string | null;
+  lineIndex: number;
+  text: string;
+  origin: LineRevisionOrigin;
+  variant?: number | null;
+  restoredFrom?: string | null;
+}
+
+/**
+ * Record a saved line. Saving the text the line already has is a no-op, so
+ * repeated auto-saves do not pile up identical revisions. Never throws (for
+ * the main translation the line itself is already saved); returns false when
+ * the revision could not be written.
+ */
+export async function recordLineRevision(
+  sb: SupabaseClient,
+  entry: LineRevisionEntry
+): Promise<boolean> {
+  const text = entry.text.trim();
+  if (!text) return true;
+  const branchId = entry.branchId ?? null;
+
+  try {
+    let latest = sb
+      .from("line_revisions")
+      .select("text")
+      .eq("thread_id", entry.threadId)
+      .eq("line_index", entry.lineIndex);
+    latest = branchId ? latest.eq("branch_id", branchId) : latest.is("branch_id", null);
+    const { data: previous } = await latest
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (previous?.text === text && entry.origin !== "restore") return true;
+
+    const { error } = await sb.from("line_revisions").insert({
+      thread_id: entry.threadId,
+      branch_id: branchId,
+      line_index: entry.lineIndex,
+      text,
+      origin: entry.origin,
+      variant: entry.variant ?? null,
+      restored_from: entry.restoredFrom ?? null,
+      created_by: entry.userId,
+    });
+    if (error) {
+      console.warn("[revisions] Failed to record revision:", error.message);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.warn(
+      "[revisions] Failed to record revision:",
+      error instanceof Error ? error.message : String(error)
+    );
+    return false;
+  }
+}
+
+/**
+ * Revisions of a thread's main translation or one branch, newest first.
+ * Pass `lineIndex` for one line's history, omit it for the whole poem.
+ */
+export async function listLineRevisions(
+  sb: SupabaseClient,
+  threadId: string,
+  options: { branchId?: string | null; lineIndex?: number } = {}
+): Promise<LineRevision[]> {
+  let query = sb.from("line_revisions").select(REVISION_COLUMNS).eq("thread_id", threadId);
+  query = options.branchId
+    ? query.eq("branch_id", options.branchId)
+    : query.is("branch_id", null);
+  if (options.lineIndex !== undefined) {
+    query = query.eq("line_index", options.lineIndex);
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(MAX_REVISIONS);
+
+  if (error) {
+    throw new Error(`[revisions] Failed to load revisions: ${error.message}`);
+  }
+  return ((data ?? []) as RevisionRow[]).map(rowToRevision);
+}
+
+/**
+ * Branches of a thread, oldest first, each with its current lines.
+ */
+export async function listTranslationBranches(
+  sb: SupabaseClient,
+  threadId: string
+): Promise<TranslationBranch[]> {
+  const { data: branches, error } = await sb
+    .from("translation_branches")
+    .select(BRANCH_COLUMNS)
+    .eq("thread_id", threadId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`[revisions] Failed to load branches: ${error.message}`);
+  }
+  const rows = (branches ?? []) as BranchRow[];
+  if (rows.length === 0) return [];
+
+  const { data: revisions, error: revisionsError } = await sb
+    .from("line_revisions")
+    .select(REVISION_COLUMNS)
+    .eq("thread_id", threadId)
+    .in(
+      "branch_id",
+      rows.map((row) => row.id)
+    );
+
+  if (revisionsError) {
+    throw new Error(
+      `[revisions] Failed to load branch lines: ${revisionsError.message}`
+    );
+  }
+  const all = ((revisions ?? []) as RevisionRow[]).map(rowToRevision);
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    forkedFromBranchId: row.forked_from_branch_id,
+    createdAt: row.created_at,
+    lines: linesAt(all.filter((revision) => revision.branchId === row.id)),
+  }));
+}
+
+/**
+ * Fork a branch: create it and copy `lines` (the current text of the main
+ * translation or of `forkedFromBranchId`) as its first revisions.
+ */
+export async function createTranslationBranch(
+  sb: SupabaseClient,
+  params: {
+    threadId: string;
+    userId: string;
+    name: string;
+    forkedFromBranchId?: string | null;
+    lines: Record<number, string>;
+  }
+): Promise<TranslationBranch> {
+  const { data, error } = await sb
+    .from("translation_branches")
+    .insert({
+      thread_id: params.threadId,
+      name: params.name.trim(),
+      forked_from_branch_id: params.forkedFromBranchId ?? null,
+      created_by: params.userId,
+    })
+    .select(BRANCH_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(
+      `[revisions] Failed to create branch: ${error?.message ?? "no row returned"}`
+    );
+  }
+  const branch = data as BranchRow;
+
+  const lines = Object.entries(params.lines)
+    .map(([lineIndex, text]) => ({ lineIndex: Number(lineIndex), text: text.trim() }))
+    .filter((line) => Number.isInteger(line.lineIndex) && line.text.length > 0);
+
+  if (lines.length > 0) {
+    const { error: linesError } = await sb.from("line_revisions").insert(
+      lines.map((line) => ({
+        thread_id: params.threadId,
+        branch_id: branch.id,
+        line_index: line.lineIndex,
+        text: line.text,
+        origin: "fork" as const,
+        created_by: params.userId,
+      }))
+    );
+    if (linesError) {
+      throw new Error(`[revisions] Failed to copy branch lines: ${linesError.message}`);
+    }
+  }
+
+  return {
+    id: branch.id,
+    name: branch.name,
+    forkedFromBranchId: branch.forked_from_branch_id,
+    createdAt: branch.created_at,
+    lines: Object.fromEntries(lines.map((line) => [line.lineIndex, line.text])),
+  };
+}
+
+/**
+ * True when the branch exists in the thread (and the caller can see it).
+ */
+export async function branchExists(
+  sb: SupabaseClient,
+  threadId: string,
+  branchId: string
+): Promise<boolean> {
+  const { data, error } = await sb
+    .from("translation_branches")
+    .select("id")
+    .eq("thread_id", threadId)
+    .eq("id", branchId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`[revisions] Failed to load branch: ${error.message}`);
+  }
+  return !!data;
+}
+
+/**
+ * Delete a branch and its revisions. Returns false when nothing was deleted.
+ */
+export async function deleteTranslationBranch(
+  sb: SupabaseClient,
+  threadId: string,
+  branchId: string
+): Promise<boolean> {
+  const { data, error } = await sb
+    .from("translation_branches")
+    .delete()
+    .eq("thread_id", threadId)
+    .eq("id", branchId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`[revisions] Failed to delete branch: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,240 @@
+/**
+ * Grapheme-to-Phoneme fallback for English
+ *
+ * Rule-based spelling-to-ARPAbet conversion for words the pronouncing
+ * dictionary does not know (neologisms, archaic spellings, names). It is tuned
+ * for the end of a word, which is what rhyme matching depends on, and is not
+ * meant to be a general-purpose pronunciation model.
+ */
+
+import type { Phones } from "./phonemes";
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+interface GraphemeRule {
+  graphemes: string;
+  phones: string[];
+  /** Only match at the start of the word */
+  start?: boolean;
+  /** Only match at the end of the word */
+  end?: boolean;
+  /** Next letter must match */
+  before?: RegExp;
+}
+
+// Ordered longest/most specific first; the first matching rule wins.
+const RULES: GraphemeRule[] = [
+  { graphemes: "tion", phones: ["SH", "AH", "N"] },
+  { graphemes: "sion", phones: ["ZH", "AH", "N"] },
+  { graphemes: "ture", phones: ["CH", "ER"], end: true },
+  { graphemes: "eigh", phones: ["EY"] },
+  { graphemes: "augh", phones: ["AO"] },
+  { graphemes: "ough", phones: ["AO"] },
+  { graphemes: "ire", phones: ["AY", "ER"], end: true },
+  { graphemes: "are", phones: ["EH", "R"], end: true },
+  { graphemes: "ore", phones: ["AO", "R"], end: true },
+  { graphemes: "air", phones: ["EH", "R"] },
+  { graphemes: "ear", phones: ["IH", "R"] },
+  { graphemes: "eer", phones: ["IH", "R"] },
+  { graphemes: "ous", phones: ["AH", "S"], end: true },
+  { graphemes: "igh", phones: ["AY"] },
+  { graphemes: "tch", phones: ["CH"] },
+  { graphemes: "dge", phones: ["JH"] },
+  { graphemes: "kn", phones: ["N"], start: true },
+  { graphemes: "wr", phones: ["R"], start: true },
+  { graphemes: "gn", phones: ["N"], start: true },
+  { graphemes: "ps", phones: ["S"], start: true },
+  { graphemes: "ck", phones: ["K"] },
+  { graphemes: "ch", phones: ["CH"] },
+  { graphemes: "sh", phones: ["SH"] },
+  { graphemes: "th", phones: ["TH"] },
+  { graphemes: "ph", phones: ["F"] },
+  { graphemes: "wh", phones: ["W"] },
+  { graphemes: "gh", phones: [] },
+  { graphemes: "ng", phones: ["NG"] },
+  { graphemes: "qu", phones: ["K", "W"] },
+  { graphemes: "ee", phones: ["IY"] },
+  { graphemes: "ea", phones: ["IY"] },
+  { graphemes: "oo", phones: ["UW"] },
+  { graphemes: "ou", phones: ["AW"] },
+  { graphemes: "ow", phones: ["OW"], end: true },
+  { graphemes: "ow", phones: ["AW"] },
+  { graphemes: "oi", phones: ["OY"] },
+  { graphemes: "oy", phones: ["OY"] },
+  { graphemes: "ai", phones: ["EY"] },
+  { graphemes: "ay", phones: ["EY"] },
+  { graphemes: "au", phones: ["AO"] },
+  { graphemes: "aw", phones: ["AO"] },
+  { graphemes: "ei", phones: ["EY"] },
+  { graphemes: "ey", phones: ["IY"], end: true },
+  { graphemes: "ey", phones: ["EY"] },
+  { graphemes: "ie", phones: ["IY"] },
+  { graphemes: "oa", phones: ["OW"] },
+  { graphemes: "ue", phones: ["UW"] },
+  { graphemes: "ew", phones: ["UW"] },
+  { graphemes: "ui", phones: ["UW"] },
+  { graphemes: "ar", phones: ["AA", "R"] },
+  { graphemes: "or", phones: ["AO", "R"] },
+  { graphemes: "er", phones: ["ER"] },
+  { graphemes: "ir", phones: ["ER"] },
+  { graphemes: "ur", phones: ["ER"] },
+  { graphemes: "le", phones: ["AH", "L"], end: true },
+  { graphemes: "c", phones: ["S"], before: /[eiy]/ },
+  { graphemes: "g", phones: ["JH"], before: /[eiy]/ },
+  { graphemes: "n", phones: ["NG"], before: /[kg]/ },
+  { graphemes: "x", phones: ["K", "S"] },
+  { graphemes: "y", phones: ["Y"], start: true },
+];
+
+const SINGLE_CONSONANTS: Record<string, string> = {
+  b: "B",
+  c: "K",
+  d: "D",
+  f: "F",
+  g: "G",
+  h: "HH",
+  j: "JH",
+  k: "K",
+  l: "L",
+  m: "M",
+  n: "N",
+  p: "P",
+  q: "K",
+  r: "R",
+  s: "S",
+  t: "T",
+  v: "V",
+  w: "W",
+  z: "Z",
+};
+
+const SHORT_VOWELS: Record<string, string> = { a: "AE", e: "EH", i: "IH", o: "AA", u: "AH" };
+const LONG_VOWELS: Record<string, string> = { a: "EY", e: "IY", i: "AY", o: "OW", u: "UW" };
+
+const VOWEL_PHONES = new Set([
+  "IY", "IH", "EY", "EH", "AE", "AH", "ER", "AA", "AO", "OW", "UH", "UW", "AY", "AW", "OY",
+]);
+
+const STRESS_BEFORE_SUFFIX = /(tion|sion|ic|ical|ity|ian|ial|ious)$/;
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function collapseDoubles(word: string): string {
+  return word.replace(/([bdfgklmnprstvz])\1/g, "$1");
+}
+
+function matchRule(word: string, index: number): GraphemeRule | null {
+  for (const rule of RULES) {
+    if (!word.startsWith(rule.graphemes, index)) continue;
+    const nextIndex = index + rule.graphemes.length;
+    if (rule.start && index !== 0) continue;
+    if (rule.end && nextIndex !== word.length) continue;
+    if (rule.before && !rule.before.test(word[nextIndex] ?? "")) continue;
+    return rule;
+  }
+  return null;
+}
+
+/**
+ * Convert a spelled English word into unstressed ARPAbet phones
+ */
+function spellToPhones(rawWord: string): string[] {
+  let word = collapseDoubles(rawWord);
+  const phones: string[] = [];
+
+  // Inflectional endings are handled after the stem so the stem's silent e
+  // and vowel length come out right ("hoped" -> hope + d).
+  let suffix: string[] = [];
+  if (/[^e]ed$/.test(word) && /[aeiouy]/.test(word.slice(0, -2))) {
+    const stemEnd = word[word.length - 3];
+    suffix = /[td]/.test(stemEnd) ? ["IH", "D"] : /[pkfsxc]/.test(stemEnd) ? ["T"] : ["D"];
+    word = word.slice(0, -2);
+    if (/[^aeiouy]$/.test(word) && /[aeiouy][^aeiouy]$/.test(word)) word += "e";
+  } else if (/(s|x|z|ch|sh)es$/.test(word)) {
+    suffix = ["IH", "Z"];
+    word = word.slice(0, -2);
+  } else if (/[^su]s$/.test(word) && word.length > 3) {
+    suffix = /[pktf]$/.test(word.slice(0, -1)) ? ["S"] : ["Z"];
+    word = word.slice(0, -1);
+  }
+
+  // Magic e: a single vowel + single consonant + final e is long, e is silent
+  const magicEIndex = word.length > 2 && /[aeiou][^aeiouyrw]e$/.test(word) ? word.length - 3 : -1;
+  const silentFinalE =
+    magicEIndex >= 0 ||
+    (word.length > 2 && /[^aeiouy]e$/.test(word) && /[aeiouy]/.test(word.slice(0, -2)));
+
+  let i = 0;
+  while (i < word.length) {
+    const letter = word[i];
+
+    if (silentFinalE && i === word.length - 1 && letter === "e") break;
+
+    const rule = matchRule(word, i);
+    if (rule) {
+      phones.push(...rule.phones);
+      i += rule.graphemes.length;
+      continue;
+    }
+
+    if (letter in SHORT_VOWELS) {
+      phones.push(i === magicEIndex ? LONG_VOWELS[letter] : SHORT_VOWELS[letter]);
+    } else if (letter === "y") {
+      const isFinal = i === word.length - 1;
+      const hasOtherVowel = /[aeiou]/.test(word);
+      phones.push(isFinal ? (hasOtherVowel ? "IY" : "AY") : "IH");
+    } else if (letter === "h") {
+      if (/[aeiouy]/.test(word[i + 1] ?? "")) phones.push("HH");
+    } else if (letter === "s") {
+      const between = /[aeiouy]/.test(word[i - 1] ?? "") && /[aeiouy]/.test(word[i + 1] ?? "");
+      phones.push(between ? "Z" : "S");
+    } else if (letter in SINGLE_CONSONANTS) {
+      phones.push(SINGLE_CONSONANTS[letter]);
+    }
+    i += 1;
+  }
+
+  return [...phones, ...suffix];
+}
+
+/**
+ * Assign stress digits: primary stress on the first vowel, or on the vowel
+ * before a stress-attracting suffix (-tion, -ic, -ity...). Unstressed short
+ * vowels are reduced to schwa.
+ */
+function assignStress(word: string, phones: string[]): Phones {
+  const vowelPositions = phones
+    .map((phone, index) => (VOWEL_PHONES.has(phone) ? index : -1))
+    .filter((index) => index >= 0);
+
+  if (vowelPositions.length === 0) return phones;
+
+  let stressedVowel = 0;
+  if (vowelPositions.length > 1 && STRESS_BEFORE_SUFFIX.test(word)) {
+    const suffixVowels = (word.match(STRESS_BEFORE_SUFFIX)?.[0].match(/[aeiou]+/g) ?? []).length;
+    stressedVowel = Math.max(0, vowelPositions.length - suffixVowels - 1);
+  }
+
+  return phones.map((phone, index) => {
+    const vowelNumber = vowelPositions.indexOf(index);
+    if (vowelNumber < 0) return phone;
+    if (vowelNumber === stressedVowel) return `${phone}1`;
+    if (["AE", "EH", "AA", "AO", "AH"].includes(phone)) return "AH0";
+    return `${phone}0`;
+  });
+}
+
+/**
+ * Guess the pronunciation of an English word from its spelling
+ *
+ * Returns an empty array when the word has no letters.
+ */
+export function graphemeToPhoneme(word: string): Phones {
+  const normalized = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!normalized) return [];
+  return assignStress(normalized, spellToPhones(normalized));
+}
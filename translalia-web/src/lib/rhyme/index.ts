@@ -6,15 +6,34 @@
  */
 
 export {
+  lookupRhymes,
   fetchRhymes,
   fetchRhymesForWords,
   fetchRhymesForLineEndings,
   getRhymeSound,
   doWordsRhyme,
+  getRhymeQuality,
   findRhymePairs,
   clearRhymeCache,
 } from "./rhymeService";
 
+export {
+  scoreRhyme,
+  findRhymeCandidates,
+  type RhymeMatch,
+  type FindRhymesOptions,
+} from "./rhymeEngine";
+
+export {
+  getPronunciation,
+  getPronunciations,
+  isInDictionary,
+  type Pronunciation,
+  type PronunciationSource,
+} from "./pronunciationDictionary";
+
+export { graphemeToPhoneme } from "./g2p";
+
 export {
   countWordSyllables,
   countSyllables,
@@ -27,8 +46,22 @@ export {
   compareRhythm,
   extractLineEnding,
   extractLineEndings,
+  getLanguageRhymeSound,
   type AlliterationMatch,
   type AssonanceMatch,
   type ConsonanceMatch,
   type LineAnalysis,
 } from "./soundAnalysis";
+
+export {
+  getSoundAnalyzer,
+  registerSoundAnalyzer,
+  detectScript,
+  matchSoundLanguage,
+  resolveSoundLanguage,
+  getRhythmLabel,
+  getSoundPatternLabels,
+  type SoundAnalyzer,
+  type SoundLanguageCode,
+  type WritingScript,
+} from "./languages";
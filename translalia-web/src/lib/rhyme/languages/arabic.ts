@@ -0,0 +1,284 @@
+/**
+ * Arabic Sound Analyzer
+ *
+ * - Vocalized text (with harakat) is counted exactly: every short vowel or
+ *   tanwin mark starts a syllable, and a long vowel letter after it lengthens
+ *   that syllable
+ * - Unvocalized text is estimated from consonant and long-vowel letters
+ * - Rhythm is shown as syllable weight (L = light CV, G = heavy CVV/CVC), the
+ *   unit of ʿarūḍ meters; unknown weights in unvocalized text show as "x"
+ * - Rhyme follows the rawī: the last consonant of the word, with any long
+ *   vowel before it
+ * - The definite article and one-letter proclitics are ignored for
+ *   alliteration ("والقمر" alliterates on ق)
+ */
+
+import { groupBySound, splitWords, stripPunctuation } from "./shared";
+import type {
+  AlliterationMatch,
+  AssonanceMatch,
+  ConsonanceMatch,
+  SoundAnalyzer,
+} from "./types";
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+const FATHA = "َ";
+const DAMMA = "ُ";
+const KASRA = "ِ";
+const SUKUN = "ْ";
+const TANWIN = /[ً-ٍ]/;
+const SHORT_VOWEL = /[َ-ِ]/;
+const HARAKAT = /[ً-ْ]/g;
+
+const LONG_VOWEL_LETTERS = new Set(["ا", "و", "ي", "ى"]);
+const LONG_VOWEL_LABELS: Record<string, string> = { "ا": "ā", "ى": "ā", "و": "ū", "ي": "ī" };
+const SHORT_VOWEL_LABELS: Record<string, string> = { [FATHA]: "a", [DAMMA]: "u", [KASRA]: "i" };
+
+function normalize(word: string): string {
+  return stripPunctuation(word)
+    .replace(/[،؛؟]/g, "")
+    .replace(/ـ/g, "") // tatweel
+    .replace(/[أإآٱ]/g, "ا");
+}
+
+function stripHarakat(word: string): string {
+  return word.replace(HARAKAT, "").replace(/ّ/g, ""); // shadda
+}
+
+function isVocalized(word: string): boolean {
+  return /[ً-ِ]/.test(word);
+}
+
+/**
+ * Remove one-letter proclitics (و ف ب ك ل) and the article ال
+ */
+function stripPrefixes(bare: string): string {
+  let word = bare;
+  if (word.length > 3 && "وفبكل".includes(word[0]) && word.slice(1, 3) === "ال") {
+    word = word.slice(1);
+  }
+  if (word.length > 3 && word.startsWith("لل")) return word.slice(2);
+  if (word.length > 3 && word.startsWith("ال")) return word.slice(2);
+  return word;
+}
+
+// ============================================================================
+// Syllables
+// ============================================================================
+
+type Weight = "L" | "G" | "x";
+
+interface Unit {
+  letter: string;
+  mark: "short" | "tanwin" | "sukun" | "none";
+  shadda: boolean;
+}
+
+/**
+ * Split a vocalized word into letters with their marks
+ */
+function toUnits(word: string): Unit[] {
+  const units: Unit[] = [];
+  for (const char of word) {
+    const current = units[units.length - 1];
+    if (char === "ّ") {
+      if (current) current.shadda = true;
+    } else if (SHORT_VOWEL.test(char) || TANWIN.test(char) || char === SUKUN) {
+      if (current) {
+        current.mark = SHORT_VOWEL.test(char) ? "short" : TANWIN.test(char) ? "tanwin" : "sukun";
+      }
+    } else {
+      units.push({ letter: char, mark: "none", shadda: false });
+    }
+  }
+  return units;
+}
+
+function isLengthener(unit: Unit | undefined, index: number): boolean {
+  return !!unit && index > 0 && unit.mark === "none" && LONG_VOWEL_LETTERS.has(unit.letter);
+}
+
+/**
+ * Syllable weights of a vocalized word: a short vowel opens a light syllable,
+ * which becomes heavy when a long vowel letter, a sukun consonant or a
+ * geminate (shadda) follows. Tanwin syllables are heavy (closed by n), and an
+ * unmarked consonant before a long vowel letter implies its short vowel.
+ */
+function vocalizedWeights(word: string): Weight[] {
+  const units = toUnits(word);
+  const weights: Weight[] = [];
+  const closeLast = () => {
+    if (weights.length > 0 && weights[weights.length - 1] === "L") {
+      weights[weights.length - 1] = "G";
+    }
+  };
+
+  for (let i = 0; i < units.length; i++) {
+    const unit = units[i];
+    if (isLengthener(unit, i) && units[i - 1].mark === "short") {
+      closeLast();
+      continue;
+    }
+    if (unit.shadda) closeLast();
+
+    if (unit.mark === "short") {
+      weights.push("L");
+    } else if (unit.mark === "tanwin") {
+      weights.push("G");
+    } else if (unit.mark === "sukun") {
+      closeLast();
+    } else if (isLengthener(units[i + 1], i + 1)) {
+      weights.push("G");
+      i += 1;
+    } else if (weights.length > 0) {
+      closeLast(); // unmarked coda consonant
+    } else {
+      weights.push("x");
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Estimated weights of an unvocalized word: a consonant before a long vowel
+ * letter forms a heavy syllable; the remaining consonants form roughly one
+ * syllable per one and a half letters
+ */
+function estimatedWeights(bare: string): Weight[] {
+  const chars = [...bare];
+  let longVowels = 0;
+  let consonants = 0;
+  chars.forEach((char, index) => {
+    const isLongVowel = LONG_VOWEL_LETTERS.has(char) && index > 0;
+    if (isLongVowel) longVowels += 1;
+    else consonants += 1;
+  });
+  const remaining = Math.max(0, consonants - longVowels);
+  const short = Math.max(longVowels > 0 ? 0 : 1, Math.floor(remaining / 1.5));
+  return [...new Array(longVowels).fill("G"), ...new Array(short).fill("x")];
+}
+
+function getWeights(raw: string): Weight[] {
+  const word = normalize(raw);
+  if (!word) return [];
+  return isVocalized(word) ? vocalizedWeights(word) : estimatedWeights(stripHarakat(word));
+}
+
+function countWordSyllables(word: string): number {
+  return getWeights(word).length;
+}
+
+function countSyllables(text: string): number {
+  return splitWords(text).reduce((total, word) => total + countWordSyllables(word), 0);
+}
+
+function getStressPattern(text: string): string {
+  return splitWords(text)
+    .map((word) => getWeights(word).join("-"))
+    .filter(Boolean)
+    .join(" ");
+}
+
+function getSimpleStressPattern(text: string): string {
+  return splitWords(text)
+    .flatMap(getWeights)
+    .map((w) => (w === "G" ? "—" : w === "L" ? "u" : "x"))
+    .join(" ");
+}
+
+// ============================================================================
+// Sound Patterns
+// ============================================================================
+
+function getInitialConsonant(raw: string): string | null {
+  const bare = stripPrefixes(stripHarakat(normalize(raw)));
+  const first = bare[0];
+  if (!first || first === "ا") return null;
+  return first;
+}
+
+function getMainVowel(raw: string): string | null {
+  const word = normalize(raw);
+  const bare = stripPrefixes(stripHarakat(word));
+  for (let i = 1; i < bare.length; i++) {
+    if (LONG_VOWEL_LETTERS.has(bare[i])) return LONG_VOWEL_LABELS[bare[i]];
+  }
+  const mark = word.match(SHORT_VOWEL)?.[0];
+  return mark ? SHORT_VOWEL_LABELS[mark] : null;
+}
+
+/**
+ * The rawī: last consonant, skipping a trailing long vowel (alif of
+ * prolongation, ى) — ة is heard as h in pause
+ */
+function getRawi(raw: string): { letter: string; index: number; bare: string } | null {
+  const bare = stripHarakat(normalize(raw));
+  for (let i = bare.length - 1; i >= 0; i--) {
+    const letter = bare[i];
+    if (i === bare.length - 1 && (letter === "ا" || letter === "ى") && i > 0) continue;
+    return { letter: letter === "ة" ? "ه" : letter, index: i, bare };
+  }
+  return null;
+}
+
+function detectAlliteration(text: string): AlliterationMatch[] {
+  return groupBySound(splitWords(text), getInitialConsonant).map(({ key, words, positions }) => ({
+    consonant: key,
+    words,
+    positions,
+  }));
+}
+
+function detectAssonance(text: string): AssonanceMatch[] {
+  return groupBySound(splitWords(text), getMainVowel).map(({ key, words, positions }) => ({
+    vowel: key,
+    words,
+    positions,
+  }));
+}
+
+function detectConsonance(text: string): ConsonanceMatch[] {
+  return groupBySound(splitWords(text), (word) => getRawi(word)?.letter ?? null).map(
+    ({ key, words, positions }) => ({ consonant: key, words, positions })
+  );
+}
+
+function extractLineEnding(line: string): string {
+  const words = splitWords(line);
+  return stripHarakat(normalize(words[words.length - 1] || ""));
+}
+
+/**
+ * Rhyme sound: the rawī with a long vowel right before it (ردف), e.g.
+ * "سلام" -> "-ام", "القمر" -> "-ر"
+ */
+function getRhymeSound(word: string): string {
+  const rawi = getRawi(word);
+  if (!rawi) return "-";
+  const start = rawi.index > 0 && LONG_VOWEL_LETTERS.has(rawi.bare[rawi.index - 1])
+    ? rawi.index - 1
+    : rawi.index;
+  return `-${rawi.bare.slice(start)}`;
+}
+
+// ============================================================================
+// Analyzer
+// ============================================================================
+
+export const arabicAnalyzer: SoundAnalyzer = {
+  language: "ar",
+  tokenize: splitWords,
+  countWordSyllables,
+  countSyllables,
+  getStressPattern,
+  getSimpleStressPattern,
+  detectAlliteration,
+  detectAssonance,
+  detectConsonance,
+  extractLineEnding,
+  getRhymeSound,
+};
@@ -0,0 +1,171 @@
+/**
+ * Chinese (Mandarin) Sound Analyzer
+ *
+ * Every Han character is one syllable, so positions refer to characters.
+ * Pronunciation comes from pinyin-pro (context-aware for polyphonic
+ * characters):
+ * - rhythm is the tonal pattern: tones 1/2 are 平 (level), 3/4 are 仄 (oblique)
+ * - alliteration is 双声 (shared initials), assonance is 叠韵 (shared rhyme
+ *   class), consonance is a shared nasal coda (-n / -ng)
+ * - rhyme is the final without its medial ("光 guang" and "霜 shuang" -> "-ang")
+ */
+
+import { pinyin } from "pinyin-pro";
+import { groupBySound } from "./shared";
+import type {
+  AlliterationMatch,
+  AssonanceMatch,
+  ConsonanceMatch,
+  SoundAnalyzer,
+} from "./types";
+
+// ============================================================================
+// Pinyin
+// ============================================================================
+
+const HAN = /\p{Script=Han}/u;
+
+interface HanSyllable {
+  char: string;
+  /** Tone-marked pinyin, e.g. "guāng" */
+  pinyin: string;
+  initial: string;
+  final: string;
+  /** 1-4, or 0 for the neutral tone */
+  tone: number;
+}
+
+function hanCharacters(text: string): string[] {
+  return [...text].filter((char) => HAN.test(char));
+}
+
+/**
+ * Read a run of text as syllables. The whole run is passed to pinyin-pro at
+ * once so polyphonic characters resolve from their context (e.g. 长 in 长城).
+ */
+function readSyllables(text: string): HanSyllable[] {
+  const chars = hanCharacters(text);
+  if (chars.length === 0) return [];
+  const joined = chars.join("");
+  const options = { type: "array", nonZh: "removed" } as const;
+  const marked = pinyin(joined, { ...options });
+  const initials = pinyin(joined, { ...options, pattern: "initial" });
+  const finals = pinyin(joined, { ...options, pattern: "final", toneType: "none" });
+  const tones = pinyin(joined, { ...options, pattern: "num" });
+
+  return chars.map((char, index) => ({
+    char,
+    pinyin: marked[index] ?? "",
+    initial: initials[index] ?? "",
+    final: finals[index] ?? "",
+    tone: Number(tones[index]) || 0,
+  }));
+}
+
+/**
+ * Rhyme class (韵): the final without a medial glide ("uang" -> "ang",
+ * "ian" -> "an"); "ui" and "iu" keep their glide as the main vowel
+ */
+function getRhymeClass(final: string): string {
+  return final.replace(/^[iuüv](?=[aeoê])/, "");
+}
+
+function isLevelTone(tone: number): boolean {
+  return tone === 1 || tone === 2;
+}
+
+// ============================================================================
+// Syllables and Tones
+// ============================================================================
+
+function countWordSyllables(word: string): number {
+  return hanCharacters(word).length;
+}
+
+function countSyllables(text: string): number {
+  return hanCharacters(text).length;
+}
+
+/**
+ * Tone-marked pinyin for the line: "床前明月光" -> "chuáng qián míng yuè guāng"
+ */
+function getStressPattern(text: string): string {
+  return readSyllables(text)
+    .map((s) => s.pinyin)
+    .join(" ");
+}
+
+/**
+ * 平仄 pattern: "床前明月光" -> "平 平 平 仄 平"; neutral tones show as "·"
+ */
+function getSimpleStressPattern(text: string): string {
+  return readSyllables(text)
+    .map((s) => (s.tone === 0 ? "·" : isLevelTone(s.tone) ? "平" : "仄"))
+    .join(" ");
+}
+
+// ============================================================================
+// Sound Patterns
+// ============================================================================
+
+function groupSyllables(
+  text: string,
+  getKey: (syllable: HanSyllable) => string | null
+) {
+  const syllables = readSyllables(text);
+  return groupBySound(
+    syllables.map((s) => s.char),
+    (_, index) => getKey(syllables[index])
+  );
+}
+
+function detectAlliteration(text: string): AlliterationMatch[] {
+  // y- and w- spell a glide, not an initial consonant
+  return groupSyllables(text, (s) =>
+    s.initial && s.initial !== "y" && s.initial !== "w" ? s.initial : null
+  ).map(({ key, words, positions }) => ({ consonant: key, words, positions }));
+}
+
+function detectAssonance(text: string): AssonanceMatch[] {
+  return groupSyllables(text, (s) => (s.final ? getRhymeClass(s.final) : null)).map(
+    ({ key, words, positions }) => ({ vowel: key, words, positions })
+  );
+}
+
+function detectConsonance(text: string): ConsonanceMatch[] {
+  return groupSyllables(text, (s) => s.final.match(/ng?$/)?.[0] ?? null).map(
+    ({ key, words, positions }) => ({ consonant: key, words, positions })
+  );
+}
+
+/**
+ * The last Han character of the line (Chinese rhyme is per syllable)
+ */
+function extractLineEnding(line: string): string {
+  const chars = hanCharacters(line);
+  return chars[chars.length - 1] ?? "";
+}
+
+function getRhymeSound(word: string): string {
+  const syllables = readSyllables(word);
+  const last = syllables[syllables.length - 1];
+  return last ? `-${getRhymeClass(last.final)}` : "-";
+}
+
+// ============================================================================
+// Analyzer
+// ============================================================================
+
+export const chineseAnalyzer: SoundAnalyzer = {
+  language: "zh",
+  tokenize: hanCharacters,
+  countWordSyllables,
+  countSyllables,
+  getStressPattern,
+  getSimpleStressPattern,
+  detectAlliteration,
+  detectAssonance,
+  detectConsonance,
+  extractLineEnding,
+  getRhymeSound,
+};
@@ -0,0 +1,54 @@
+/**
+ * Sound Analyzer Registry
+ *
+ * Picks the sound analyzer for a thread's target language. Languages without
+ * a dedicated analyzer fall back to the analyzer for the text's script, then
+ * English. New languages register an analyzer here.
+ */
+
+import { arabicAnalyzer } from "./arabic";
+import { chineseAnalyzer } from "./chinese";
+import { englishAnalyzer } from "./english";
+import { hindiAnalyzer, malayalamAnalyzer, tamilAnalyzer, teluguAnalyzer } from "./indic";
+import { resolveSoundLanguage } from "./resolveLanguage";
+import { spanishAnalyzer } from "./spanish";
+import type { SoundAnalyzer, SoundLanguageCode } from "./types";
+
+const analyzers = new Map<SoundLanguageCode, SoundAnalyzer>(
+  [
+    englishAnalyzer,
+    spanishAnalyzer,
+    hindiAnalyzer,
+    tamilAnalyzer,
+    malayalamAnalyzer,
+    teluguAnalyzer,
+    arabicAnalyzer,
+    chineseAnalyzer,
+  ].map((analyzer) => [analyzer.language, analyzer])
+);
+
+/**
+ * Register (or replace) the analyzer for a language
+ */
+export function registerSoundAnalyzer(analyzer: SoundAnalyzer): void {
+  analyzers.set(analyzer.language, analyzer);
+}
+
+/**
+ * Get the analyzer for a language name or code ("Spanish", "hi", "中文").
+ * When the language is missing or unknown, the script of `sampleText` decides.
+ */
+export function getSoundAnalyzer(language?: string | null, sampleText?: string): SoundAnalyzer {
+  return analyzers.get(resolveSoundLanguage(language, sampleText)) ?? englishAnalyzer;
+}
+
+export { detectScript, matchSoundLanguage, resolveSoundLanguage } from "./resolveLanguage";
+export { getRhythmLabel, getSoundPatternLabels } from "./patternLabels";
+export type {
+  AlliterationMatch,
+  AssonanceMatch,
+  ConsonanceMatch,
+  SoundAnalyzer,
+  SoundLanguageCode,
+  WritingScript,
+} from "./types";
@@ -0,0 +1,302 @@
+/**
+ * Indic Sound Analyzer (Devanagari, Tamil, Malayalam, Telugu)
+ *
+ * The Brahmi-derived Unicode blocks share one layout, so a single analyzer
+ * works on aksharas for all of them by offset within the block:
+ * - a consonant not followed by a virama is a syllable (with its inherent or
+ *   written vowel); an independent vowel is a syllable
+ * - Hindi drops the inherent schwa word-finally and in V C[a] C V contexts
+ *   ("कमल" = ka-mal, "धड़कन" = dhaṛ-kan)
+ * - rhythm is shown as syllable weight: L = laghu/kuril (light),
+ *   G = guru/nedil (heavy: long vowel, or closed by a following conjunct,
+ *   anusvara or visarga)
+ */
+
+import { groupBySound, splitWords, stripPunctuation } from "./shared";
+import type {
+  AlliterationMatch,
+  AssonanceMatch,
+  ConsonanceMatch,
+  SoundAnalyzer,
+  SoundLanguageCode,
+} from "./types";
+
+// ============================================================================
+// Script Layout
+// ============================================================================
+
+const SCRIPT_BLOCKS: Partial<Record<SoundLanguageCode, number>> = {
+  hi: 0x0900,
+  ta: 0x0b80,
+  ml: 0x0d00,
+  te: 0x0c00,
+};
+
+// Offsets within a block
+const CANDRABINDU = 0x01;
+const ANUSVARA = 0x02;
+const VISARGA = 0x03;
+const NUKTA = 0x3c;
+const VIRAMA = 0x4d;
+
+/** Romanized labels for vowel offsets (independent vowel offset) */
+const VOWEL_LABELS: Record<number, string> = {
+  0x05: "a",
+  0x06: "ā",
+  0x07: "i",
+  0x08: "ī",
+  0x09: "u",
+  0x0a: "ū",
+  0x0b: "ṛ",
+  0x0c: "ḷ",
+  0x0d: "e",
+  0x0e: "e",
+  0x0f: "ē",
+  0x10: "ai",
+  0x11: "o",
+  0x12: "o",
+  0x13: "ō",
+  0x14: "au",
+  0x60: "ṝ",
+};
+
+/** Independent-vowel offsets that are long */
+const LONG_VOWELS = new Set([0x06, 0x08, 0x0a, 0x0f, 0x10, 0x13, 0x14, 0x60]);
+
+/** Dependent vowel signs map onto independent vowels by a fixed shift */
+const SIGN_TO_VOWEL_SHIFT = 0x38;
+
+function signToVowel(sign: number): number {
+  if (sign === 0x62) return 0x0c;
+  if (sign === 0x63) return 0x61;
+  return sign - SIGN_TO_VOWEL_SHIFT;
+}
+
+type CharKind = "consonant" | "vowel" | "sign" | "virama" | "modifier" | "nukta" | "chillu" | "other";
+
+function classify(char: string, base: number): { kind: CharKind; offset: number } {
+  const offset = (char.codePointAt(0) ?? 0) - base;
+  if (offset < 0 || offset > 0x7f) return { kind: "other", offset };
+  // Malayalam chillu letters are consonants without a vowel
+  if (base === SCRIPT_BLOCKS.ml && offset >= 0x7a) return { kind: "chillu", offset };
+  if (offset === VIRAMA) return { kind: "virama", offset };
+  if (offset === NUKTA) return { kind: "nukta", offset };
+  if (offset === CANDRABINDU || offset === ANUSVARA || offset === VISARGA) {
+    return { kind: "modifier", offset };
+  }
+  if ((offset >= 0x05 && offset <= 0x14) || offset === 0x60 || offset === 0x61) {
+    return { kind: "vowel", offset };
+  }
+  if ((offset >= 0x15 && offset <= 0x39) || (offset >= 0x58 && offset <= 0x5f)) {
+    return { kind: "consonant", offset };
+  }
+  if ((offset >= 0x3e && offset <= 0x4c) || offset === 0x62 || offset === 0x63) {
+    return { kind: "sign", offset };
+  }
+  return { kind: "other", offset };
+}
+
+// ============================================================================
+// Aksharas
+// ============================================================================
+
+interface Syllable {
+  /** Consonant characters (with nukta) preceding the vowel */
+  consonants: string[];
+  /** Independent-vowel offset of the vowel; 0x05 for the inherent schwa */
+  vowel: number;
+  /** Vowel is the inherent schwa (no sign written) */
+  inherent: boolean;
+  /** Followed by anusvara/visarga, or closed by a dead consonant */
+  closed: boolean;
+}
+
+interface IndicWord {
+  text: string;
+  syllables: Syllable[];
+  /** Last written consonant, including dead (virama) consonants */
+  finalConsonant: string | null;
+}
+
+function parseWord(raw: string, language: SoundLanguageCode): IndicWord {
+  const base = SCRIPT_BLOCKS[language] ?? SCRIPT_BLOCKS.hi!;
+  const text = stripPunctuation(raw).replace(/[।॥]/g, "");
+  const chars = [...text];
+  const syllables: Syllable[] = [];
+  let pendingConsonants: string[] = [];
+  let finalConsonant: string | null = null;
+
+  for (let i = 0; i < chars.length; i++) {
+    const { kind, offset } = classify(chars[i], base);
+    const next = chars[i + 1] ? classify(chars[i + 1], base) : null;
+
+    if (kind === "consonant") {
+      let consonant = chars[i];
+      if (next?.kind === "nukta") {
+        consonant += chars[i + 1];
+        i += 1;
+      }
+      finalConsonant = consonant;
+      const after = chars[i + 1] ? classify(chars[i + 1], base) : null;
+      if (after?.kind === "virama") {
+        // Dead consonant: part of a cluster, or closes the previous syllable
+        i += 1;
+        const isWordFinal = i === chars.length - 1;
+        if (isWordFinal && syllables.length > 0) {
+          syllables[syllables.length - 1].closed = true;
+        } else {
+          pendingConsonants.push(consonant);
+        }
+        continue;
+      }
+      const sign = after?.kind === "sign" ? after.offset : null;
+      if (sign !== null) i += 1;
+      if (pendingConsonants.length > 0 && syllables.length > 0) {
+        // A conjunct makes the previous syllable heavy
+        syllables[syllables.length - 1].closed = true;
+      }
+      syllables.push({
+        consonants: [...pendingConsonants, consonant],
+        vowel: sign !== null ? signToVowel(sign) : 0x05,
+        inherent: sign === null,
+        closed: false,
+      });
+      pendingConsonants = [];
+    } else if (kind === "vowel") {
+      syllables.push({ consonants: [], vowel: offset, inherent: false, closed: false });
+      pendingConsonants = [];
+    } else if (kind === "chillu") {
+      finalConsonant = chars[i];
+      if (syllables.length > 0) syllables[syllables.length - 1].closed = true;
+    } else if (kind === "modifier" && syllables.length > 0) {
+      if (offset !== CANDRABINDU) syllables[syllables.length - 1].closed = true;
+    }
+  }
+
+  return {
+    text,
+    syllables: language === "hi" ? deleteSchwas(syllables) : syllables,
+    finalConsonant,
+  };
+}
+
+/**
+ * Hindi schwa deletion: drop the word-final inherent schwa, then any inherent
+ * schwa in a V C[a] C V context. A dropped schwa closes the syllable before it.
+ */
+function deleteSchwas(syllables: Syllable[]): Syllable[] {
+  if (syllables.length < 2) return syllables;
+  const deleted = new Set<number>();
+
+  const last = syllables.length - 1;
+  if (syllables[last].inherent && syllables[last].consonants.length > 0) {
+    deleted.add(last);
+  }
+
+  for (let i = syllables.length - 2; i >= 1; i--) {
+    if (deleted.has(i + 1) || deleted.has(i - 1)) continue;
+    const s = syllables[i];
+    const isMedialSchwa = s.inherent && s.consonants.length === 1;
+    if (isMedialSchwa && syllables[i + 1].consonants.length > 0 && !syllables[i - 1].closed) {
+      deleted.add(i);
+      i -= 1; // Never delete two schwas in a row
+    }
+  }
+
+  const kept: Syllable[] = [];
+  syllables.forEach((syllable, index) => {
+    if (deleted.has(index)) {
+      if (kept.length > 0) kept[kept.length - 1].closed = true;
+    } else {
+      kept.push({ ...syllable });
+    }
+  });
+  return kept;
+}
+
+function isHeavy(syllable: Syllable): boolean {
+  return LONG_VOWELS.has(syllable.vowel) || syllable.closed;
+}
+
+// ============================================================================
+// Analyzer Factory
+// ============================================================================
+
+function createIndicAnalyzer(language: SoundLanguageCode): SoundAnalyzer {
+  const parse = (word: string) => parseWord(word, language);
+  const parseLine = (text: string) =>
+    splitWords(text)
+      .map(parse)
+      .filter((w) => w.syllables.length > 0);
+
+  const countWordSyllables = (word: string) => parse(word).syllables.length;
+
+  const countSyllables = (text: string) =>
+    parseLine(text).reduce((total, word) => total + word.syllables.length, 0);
+
+  const getStressPattern = (text: string) =>
+    parseLine(text)
+      .map((word) => word.syllables.map((s) => (isHeavy(s) ? "G" : "L")).join("-"))
+      .join(" ");
+
+  const getSimpleStressPattern = (text: string) =>
+    parseLine(text)
+      .flatMap((word) => word.syllables.map((s) => (isHeavy(s) ? "ऽ" : "।")))
+      .join(" ");
+
+  const detectAlliteration = (text: string): AlliterationMatch[] =>
+    groupBySound(splitWords(text), (token) => parse(token).syllables[0]?.consonants[0] ?? null).map(
+      ({ key, words, positions }) => ({ consonant: key, words, positions })
+    );
+
+  const detectAssonance = (text: string): AssonanceMatch[] =>
+    groupBySound(splitWords(text), (token) => {
+      const syllables = parse(token).syllables;
+      // The first written (non-schwa) vowel is the most audible one
+      const vowel = syllables.find((s) => !s.inherent) ?? syllables[0];
+      return vowel ? VOWEL_LABELS[vowel.vowel] ?? null : null;
+    }).map(({ key, words, positions }) => ({ vowel: key, words, positions }));
+
+  const detectConsonance = (text: string): ConsonanceMatch[] =>
+    groupBySound(splitWords(text), (token) => parse(token).finalConsonant).map(
+      ({ key, words, positions }) => ({ consonant: key, words, positions })
+    );
+
+  const extractLineEnding = (line: string) => {
+    const words = splitWords(line);
+    return stripPunctuation(words[words.length - 1] || "").replace(/[।॥]/g, "");
+  };
+
+  /**
+   * Tukant/antyaprāsa: the last syllable's vowel plus anything after it,
+   * written in the word's own script
+   */
+  const getRhymeSound = (word: string) => {
+    const parsed = parse(word);
+    const last = parsed.syllables[parsed.syllables.length - 1];
+    if (!last) return `-${parsed.text}`;
+    const chars = [...parsed.text];
+    const anchor = last.consonants[last.consonants.length - 1];
+    const start = anchor ? chars.lastIndexOf(anchor[0]) : chars.length - 1;
+    return `-${chars.slice(Math.max(0, start)).join("")}`;
+  };
+
+  return {
+    language,
+    tokenize: splitWords,
+    countWordSyllables,
+    countSyllables,
+    getStressPattern,
+    getSimpleStressPattern,
+    detectAlliteration,
+    detectAssonance,
+    detectConsonance,
+    extractLineEnding,
+    getRhymeSound,
+  };
+}
+
+export const hindiAnalyzer = createIndicAnalyzer("hi");
+export const tamilAnalyzer = createIndicAnalyzer("ta");
+export const malayalamAnalyzer = createIndicAnalyzer("ml");
+export const teluguAnalyzer = createIndicAnalyzer("te");
@@ -0,0 +1,106 @@
+/**
+ * Per-language names for sound patterns and rhythm notation
+ *
+ * The pattern types are shared across analyzers, but each poetic tradition
+ * names and hears them differently (Chinese 双声/叠韵, Hindi anuprās). Kept
+ * dependency-free so client components can import it.
+ */
+
+import type { SoundLanguageCode } from "./types";
+
+type SoundPatternType = "alliteration" | "assonance" | "consonance";
+
+export interface SoundPatternLabel {
+  label: string;
+  description: string;
+}
+
+const DEFAULT_LABELS: Record<SoundPatternType, SoundPatternLabel> = {
+  alliteration: {
+    label: "Alliteration",
+    description: "Repeated consonant sounds at the beginning of words",
+  },
+  assonance: {
+    label: "Assonance",
+    description: "Repeated vowel sounds within words",
+  },
+  consonance: {
+    label: "Consonance",
+    description: "Repeated consonant sounds at the end of words",
+  },
+};
+
+const LANGUAGE_LABELS: Partial<
+  Record<SoundLanguageCode, Partial<Record<SoundPatternType, SoundPatternLabel>>>
+> = {
+  es: {
+    assonance: {
+      label: "Assonance",
+      description: "Repeated stressed vowels, the basis of Spanish assonant rhyme",
+    },
+  },
+  hi: {
+    alliteration: {
+      label: "Alliteration (anuprās)",
+      description: "Repeated consonants at the start of words",
+    },
+  },
+  ta: {
+    alliteration: {
+      label: "Alliteration (mōnai)",
+      description: "Repeated sounds at the start of words",
+    },
+  },
+  ar: {
+    alliteration: {
+      label: "Alliteration",
+      description: "Repeated root consonants at the start of words (after al- and prefixes)",
+    },
+    consonance: {
+      label: "Consonance (rawī)",
+      description: "Repeated final consonants, the letter Arabic rhyme is built on",
+    },
+  },
+  zh: {
+    alliteration: {
+      label: "Shared initials (双声)",
+      description: "Characters that begin with the same initial consonant",
+    },
+    assonance: {
+      label: "Shared rhymes (叠韵)",
+      description: "Characters with the same final (rhyme class)",
+    },
+    consonance: {
+      label: "Nasal endings",
+      description: "Characters that end in the same nasal (-n or -ng)",
+    },
+  },
+};
+
+const RHYTHM_LABELS: Record<SoundLanguageCode, string> = {
+  en: "stress pattern",
+  es: "metrical stress (with synalepha)",
+  hi: "syllable weight (laghu/guru)",
+  ta: "syllable weight (kuril/nedil)",
+  ml: "syllable weight (laghu/guru)",
+  te: "syllable weight (laghu/guru)",
+  ar: "syllable weight (light/heavy)",
+  zh: "tones (平仄)",
+};
+
+/**
+ * Label and description of a sound pattern type in a language's tradition
+ */
+export function getSoundPatternLabels(
+  type: SoundPatternType,
+  language: SoundLanguageCode = "en"
+): SoundPatternLabel {
+  return LANGUAGE_LABELS[language]?.[type] ?? DEFAULT_LABELS[type];
+}
+
+/**
+ * What the rhythm notation of a language measures
+ */
+export function getRhythmLabel(language: SoundLanguageCode = "en"): string {
+  return RHYTHM_LABELS[language];
+}
@@ -0,0 +1,81 @@
+/**
+ * Resolve which sound analyzer applies to a language name or a text sample
+ *
+ * Thread target languages are free text ("Spanish", "Español (Rioplatense)",
+ * "Hindi", "zh-CN"), so names and ISO codes are both accepted. When the name
+ * is unknown the script of the text decides. Kept dependency-free so client
+ * components can import it.
+ */
+
+import type { SoundLanguageCode, WritingScript } from "./types";
+
+const LANGUAGE_NAMES: Array<{ code: SoundLanguageCode; pattern: RegExp }> = [
+  { code: "es", pattern: /\b(spanish|castellano)\b|espa[ñn]ol|^es(-|_|$)/i },
+  { code: "hi", pattern: /\bhindi\b|हिन्दी|हिंदी|^hi(-|_|$)/i },
+  { code: "ta", pattern: /\btamil\b|தமிழ்|^ta(-|_|$)/i },
+  { code: "ml", pattern: /\bmalayalam\b|മലയാളം|^ml(-|_|$)/i },
+  { code: "te", pattern: /\btelugu\b|తెలుగు|^te(-|_|$)/i },
+  { code: "ar", pattern: /\barabic\b|العربية|^ar(-|_|$)/i },
+  { code: "zh", pattern: /\b(chinese|mandarin|putonghua)\b|中文|汉语|漢語|普通话|^zh(-|_|$)/i },
+  { code: "en", pattern: /\benglish\b|^en(-|_|$)/i },
+];
+
+const SCRIPT_LANGUAGES: Record<WritingScript, SoundLanguageCode> = {
+  latin: "en",
+  devanagari: "hi",
+  tamil: "ta",
+  malayalam: "ml",
+  telugu: "te",
+  arabic: "ar",
+  han: "zh",
+};
+
+const SCRIPT_PATTERNS: Array<{ script: WritingScript; pattern: RegExp }> = [
+  { script: "devanagari", pattern: /[ऀ-ॿ]/g },
+  { script: "tamil", pattern: /[஀-௿]/g },
+  { script: "malayalam", pattern: /[ഀ-ൿ]/g },
+  { script: "telugu", pattern: /[ఀ-౿]/g },
+  { script: "arabic", pattern: /[؀-ۿݐ-ݿ]/g },
+  { script: "han", pattern: /\p{Script=Han}/gu },
+  { script: "latin", pattern: /[A-Za-zÀ-ɏ]/g },
+];
+
+/**
+ * Detect the dominant writing script of a text, or null if it has no letters
+ */
+export function detectScript(text: string): WritingScript | null {
+  let best: WritingScript | null = null;
+  let bestCount = 0;
+  for (const { script, pattern } of SCRIPT_PATTERNS) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Map a language name or code to a sound analyzer language, or null if the
+ * name is not recognised
+ */
+export function matchSoundLanguage(language?: string | null): SoundLanguageCode | null {
+  const name = language?.trim();
+  if (!name) return null;
+  return LANGUAGE_NAMES.find(({ pattern }) => pattern.test(name))?.code ?? null;
+}
+
+/**
+ * Resolve the analyzer language from a language name, falling back to the
+ * script of a text sample, then English
+ */
+export function resolveSoundLanguage(
+  language?: string | null,
+  sampleText?: string
+): SoundLanguageCode {
+  const byName = matchSoundLanguage(language);
+  if (byName) return byName;
+  const script = sampleText ? detectScript(sampleText) : null;
+  return script ? SCRIPT_LANGUAGES[script] : "en";
+}
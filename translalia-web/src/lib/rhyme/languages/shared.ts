@@ -0,0 +1,61 @@
+/**
+ * Helpers shared by the per-language sound analyzers
+ */
+
+export interface SoundGroup {
+  key: string;
+  words: string[];
+  positions: number[];
+}
+
+/**
+ * Group tokens by a sound key and keep only groups with 2+ members
+ * (a single occurrence is not a pattern)
+ */
+export function groupBySound(
+  tokens: string[],
+  getKey: (token: string, index: number) => string | null
+): SoundGroup[] {
+  const groups = new Map<string, { words: string[]; positions: number[] }>();
+
+  tokens.forEach((token, index) => {
+    const key = getKey(token, index);
+    if (!key) return;
+    if (!groups.has(key)) {
+      groups.set(key, { words: [], positions: [] });
+    }
+    const group = groups.get(key)!;
+    group.words.push(token);
+    group.positions.push(index);
+  });
+
+  const results: SoundGroup[] = [];
+  for (const [key, group] of groups) {
+    if (group.words.length >= 2) {
+      results.push({ key, ...group });
+    }
+  }
+  return results;
+}
+
+/**
+ * Split on whitespace, dropping empty tokens
+ */
+export function splitWords(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Strip leading/trailing punctuation (Latin, Arabic, Devanagari danda, CJK)
+ */
+export function stripPunctuation(word: string): string {
+  return word.replace(/^[\p{P}\p{S}]+|[\p{P}\p{S}]+$/gu, "");
+}
+
+/**
+ * Last word of a line without trailing punctuation, lowercased
+ */
+export function lastWord(line: string): string {
+  const words = splitWords(line);
+  return stripPunctuation(words[words.length - 1] || "").toLowerCase();
+}
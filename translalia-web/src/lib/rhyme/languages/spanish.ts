@@ -0,0 +1,307 @@
+/**
+ * Spanish Sound Analyzer
+ *
+ * Orthographic syllabification (diphthongs, triphthongs and hiatus), stress
+ * from written accents and the default stress rules, and metrical line counts
+ * with synalepha and the final-stress adjustment of Spanish prosody:
+ * - "Puedo escribir los versos más tristes esta noche" -> 14 (alejandrino)
+ * - agudo line ending: +1 syllable, esdrújulo: -1 syllable
+ */
+
+import { groupBySound, lastWord, splitWords, stripPunctuation } from "./shared";
+import type {
+  AlliterationMatch,
+  AssonanceMatch,
+  ConsonanceMatch,
+  SoundAnalyzer,
+} from "./types";
+
+// ============================================================================
+// Syllabification
+// ============================================================================
+
+const VOWELS = "aeiouáéíóúü";
+const STRONG_VOWELS = "aeoáéíóú"; // accented i/u break a diphthong (hiatus)
+const ACCENTED_VOWELS = "áéíóú";
+
+const UNSTRESSED_WORDS = new Set([
+  "el", "la", "los", "las", "lo", "le", "les", "un", "una", "unos", "unas",
+  "de", "del", "al", "a", "en", "con", "por", "para", "sin", "y", "e", "o", "u", "ni",
+  "que", "si", "mi", "mis", "tu", "tus", "su", "sus", "me", "te", "se", "nos", "os",
+  "pero", "como", "cuando", "donde",
+]);
+
+interface Nucleus {
+  /** Index of the first vowel letter */
+  start: number;
+  text: string;
+}
+
+interface SpanishWord {
+  text: string;
+  nuclei: Nucleus[];
+  stressIndex: number;
+  /** Function words carry no stress in the line */
+  stressed: boolean;
+  startsWithVowel: boolean;
+  endsWithVowel: boolean;
+}
+
+function normalizeWord(word: string): string {
+  return stripPunctuation(word).toLowerCase();
+}
+
+function isVowelAt(word: string, index: number): boolean {
+  const letter = word[index];
+  if (letter === "y") {
+    // y is a vowel only at the end of a word after a vowel ("rey", "hoy") or alone
+    return index === word.length - 1 && (word.length === 1 || VOWELS.includes(word[index - 1] ?? ""));
+  }
+  if (!VOWELS.includes(letter)) return false;
+  // Silent u in que/qui/gue/gui
+  if (letter === "u") {
+    const prev = word[index - 1];
+    const next = word[index + 1] ?? "";
+    if (prev === "q") return false;
+    if (prev === "g" && "eéií".includes(next)) return false;
+  }
+  return true;
+}
+
+function isStrong(letter: string): boolean {
+  return STRONG_VOWELS.includes(letter);
+}
+
+/**
+ * Find the vowel nuclei of a word: adjacent vowels form one nucleus unless
+ * two strong vowels meet (hiatus)
+ */
+function findNuclei(word: string): Nucleus[] {
+  const nuclei: Nucleus[] = [];
+  let current: Nucleus | null = null;
+
+  for (let i = 0; i < word.length; i++) {
+    if (!isVowelAt(word, i)) {
+      current = null;
+      continue;
+    }
+    const letter = word[i];
+    const prev = current ? current.text[current.text.length - 1] : null;
+    if (current && prev && !(isStrong(prev) && isStrong(letter))) {
+      current.text += letter;
+    } else {
+      current = { start: i, text: letter };
+      nuclei.push(current);
+    }
+  }
+
+  return nuclei;
+}
+
+function findStressIndex(word: string, nuclei: Nucleus[]): number {
+  if (nuclei.length <= 1) return 0;
+  const accented = nuclei.findIndex((n) => [...n.text].some((l) => ACCENTED_VOWELS.includes(l)));
+  if (accented >= 0) return accented;
+  // Words ending in a vowel, n or s are stressed on the penultimate syllable
+  return /[aeiouns]$/.test(word) ? nuclei.length - 2 : nuclei.length - 1;
+}
+
+function analyzeWord(raw: string): SpanishWord | null {
+  const text = normalizeWord(raw);
+  const nuclei = findNuclei(text);
+  if (nuclei.length === 0) return null;
+
+  const firstLetter = text.replace(/^h/, "")[0] ?? "";
+  return {
+    text,
+    nuclei,
+    stressIndex: findStressIndex(text, nuclei),
+    stressed: !UNSTRESSED_WORDS.has(text),
+    startsWithVowel: VOWELS.includes(firstLetter) || text === "y",
+    endsWithVowel: isVowelAt(text, text.length - 1),
+  };
+}
+
+// ============================================================================
+// Metrical Line Analysis
+// ============================================================================
+
+interface MetricalSyllable {
+  stressed: boolean;
+  wordIndex: number;
+}
+
+/**
+ * Metrical syllables of a line with synalepha applied: a word-final vowel
+ * fuses with a word-initial vowel (or h + vowel) of the next word, unless that
+ * next vowel carries the word's stress.
+ */
+function getMetricalSyllables(words: SpanishWord[]): MetricalSyllable[] {
+  const syllables: MetricalSyllable[] = [];
+
+  words.forEach((word, wordIndex) => {
+    const prevWord = words[wordIndex - 1];
+    word.nuclei.forEach((_, nucleusIndex) => {
+      const stressed = word.stressed && nucleusIndex === word.stressIndex;
+      const fuses =
+        nucleusIndex === 0 &&
+        prevWord?.endsWithVowel &&
+        word.startsWithVowel &&
+        !(stressed && word.nuclei.length > 1) &&
+        syllables.length > 0;
+
+      if (fuses) {
+        syllables[syllables.length - 1].stressed ||= stressed;
+      } else {
+        syllables.push({ stressed, wordIndex });
+      }
+    });
+  });
+
+  return syllables;
+}
+
+function parseLine(text: string): SpanishWord[] {
+  return splitWords(text)
+    .map(analyzeWord)
+    .filter((w): w is SpanishWord => w !== null);
+}
+
+/**
+ * Metrical syllable count: synalepha plus the final-stress rule
+ * (agudo +1, llano ±0, esdrújulo -1)
+ */
+function countSyllables(text: string): number {
+  const words = parseLine(text);
+  if (words.length === 0) return 0;
+
+  let count = getMetricalSyllables(words).length;
+  const last = words[words.length - 1];
+  const fromEnd = last.nuclei.length - 1 - last.stressIndex;
+  if (fromEnd === 0) count += 1;
+  else if (fromEnd >= 2) count -= 1;
+  return Math.max(1, count);
+}
+
+function countWordSyllables(word: string): number {
+  return analyzeWord(word)?.nuclei.length ?? 0;
+}
+
+/**
+ * Stress pattern over metrical syllables, grouped by word. A syllable fused by
+ * synalepha stays with the first word: "Puedo escribir" -> "DUM-da da-DUM"
+ */
+function getStressPattern(text: string): string {
+  const words = parseLine(text);
+  const byWord = new Map<number, string[]>();
+  for (const syllable of getMetricalSyllables(words)) {
+    const parts = byWord.get(syllable.wordIndex) ?? [];
+    parts.push(syllable.stressed ? "DUM" : "da");
+    byWord.set(syllable.wordIndex, parts);
+  }
+  return [...byWord.values()].map((parts) => parts.join("-")).join(" ");
+}
+
+function getSimpleStressPattern(text: string): string {
+  return parseLine(text)
+    .map((word) => (word.stressed ? "/" : "x"))
+    .join(" ");
+}
+
+// ============================================================================
+// Sound Patterns
+// ============================================================================
+
+const INITIAL_SOUNDS: Array<{ pattern: RegExp; sound: string }> = [
+  { pattern: /^ch/, sound: "ch" },
+  { pattern: /^ll/, sound: "y" },
+  { pattern: /^rr?/, sound: "r" },
+  { pattern: /^qu/, sound: "k" },
+  { pattern: /^gu[eéií]/, sound: "g" },
+  { pattern: /^c[eéií]/, sound: "s" },
+  { pattern: /^g[eéií]/, sound: "j" },
+  { pattern: /^[ck]/, sound: "k" },
+  { pattern: /^z/, sound: "s" },
+  { pattern: /^[bv]/, sound: "b" },
+  { pattern: /^y(?=[aeiouáéíóú])/, sound: "y" },
+  { pattern: /^([dfjlmnñpstwx])/, sound: "" },
+  { pattern: /^g/, sound: "g" },
+];
+
+function getInitialSound(word: string): string | null {
+  const text = normalizeWord(word);
+  if (!text || text.startsWith("h")) return null; // h is silent
+  for (const { pattern, sound } of INITIAL_SOUNDS) {
+    const match = text.match(pattern);
+    if (match) return sound || match[1];
+  }
+  return null;
+}
+
+function baseVowel(letter: string): string {
+  return letter.normalize("NFD").replace(/[̀-ͯ]/g, "");
+}
+
+/**
+ * The vowel that carries the stress: the strong (or accented) vowel of the
+ * stressed nucleus
+ */
+function getStressedVowelPosition(word: SpanishWord): number {
+  const nucleus = word.nuclei[word.stressIndex];
+  const letters = [...nucleus.text];
+  const accented = letters.findIndex((l) => ACCENTED_VOWELS.includes(l));
+  const offset = accented >= 0 ? accented : Math.max(0, letters.findIndex(isStrong));
+  return nucleus.start + offset;
+}
+
+function detectAlliteration(text: string): AlliterationMatch[] {
+  return groupBySound(splitWords(text), getInitialSound).map(({ key, words, positions }) => ({
+    consonant: key,
+    words,
+    positions,
+  }));
+}
+
+function detectAssonance(text: string): AssonanceMatch[] {
+  return groupBySound(splitWords(text), (token) => {
+    const word = analyzeWord(token);
+    if (!word) return null;
+    return baseVowel(word.text[getStressedVowelPosition(word)]);
+  }).map(({ key, words, positions }) => ({ vowel: key, words, positions }));
+}
+
+function detectConsonance(text: string): ConsonanceMatch[] {
+  return groupBySound(splitWords(text), (token) => {
+    const word = normalizeWord(token);
+    const match = word.match(/([bcdfgjklmnñprstvxz])$/);
+    if (!match) return null;
+    return match[1] === "z" ? "s" : match[1];
+  }).map(({ key, words, positions }) => ({ consonant: key, words, positions }));
+}
+
+/**
+ * Rhyme sound from the stressed vowel on ("canción" -> "-ón", "cielo" -> "-elo")
+ */
+function getRhymeSound(word: string): string {
+  const analyzed = analyzeWord(word);
+  if (!analyzed) return `-${normalizeWord(word)}`;
+  return `-${analyzed.text.slice(getStressedVowelPosition(analyzed))}`;
+}
+
+// ============================================================================
+// Analyzer
+// ============================================================================
+
+export const spanishAnalyzer: SoundAnalyzer = {
+  language: "es",
+  tokenize: splitWords,
+  countWordSyllables,
+  countSyllables,
+  getStressPattern,
+  getSimpleStressPattern,
+  detectAlliteration,
+  detectAssonance,
+  detectConsonance,
+  extractLineEnding: lastWord,
+  getRhymeSound,
+};
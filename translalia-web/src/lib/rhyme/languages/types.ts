@@ -0,0 +1,78 @@
+/**
+ * Types for per-language sound analyzers
+ *
+ * Each analyzer implements the same surface (syllables, rhythm, alliteration,
+ * assonance, consonance, line endings) with rules that suit its language and
+ * script. The match types are shared so callers never branch on language.
+ */
+
+// ============================================================================
+// Languages
+// ============================================================================
+
+export type SoundLanguageCode = "en" | "es" | "hi" | "ta" | "ml" | "te" | "ar" | "zh";
+
+export type WritingScript = "latin" | "devanagari" | "tamil" | "malayalam" | "telugu" | "arabic" | "han";
+
+// ============================================================================
+// Pattern Matches
+// ============================================================================
+
+export interface AlliterationMatch {
+  /** The repeated consonant sound */
+  consonant: string;
+  /** Words that share this sound */
+  words: string[];
+  /** Positions of words in the line */
+  positions: number[];
+}
+
+export interface AssonanceMatch {
+  /** The repeated vowel sound */
+  vowel: string;
+  /** Words that share this sound */
+  words: string[];
+  /** Positions of words in the line */
+  positions: number[];
+}
+
+export interface ConsonanceMatch {
+  /** The repeated consonant (at word endings) */
+  consonant: string;
+  /** Words that share this ending consonant */
+  words: string[];
+  /** Positions of words in the line */
+  positions: number[];
+}
+
+// ============================================================================
+// Analyzer
+// ============================================================================
+
+export interface SoundAnalyzer {
+  language: SoundLanguageCode;
+  /**
+   * Split a line into the units positions refer to (words, or characters for
+   * Chinese)
+   */
+  tokenize(text: string): string[];
+  countWordSyllables(word: string): number;
+  /**
+   * Syllables in a line as a poet would count them. May differ from the sum
+   * of word counts (e.g. Spanish synalepha).
+   */
+  countSyllables(text: string): number;
+  /** Detailed rhythm notation (stress, syllable weight or tones) */
+  getStressPattern(text: string): string;
+  /** Compact rhythm notation, one symbol per unit */
+  getSimpleStressPattern(text: string): string;
+  detectAlliteration(text: string): AlliterationMatch[];
+  detectAssonance(text: string): AssonanceMatch[];
+  detectConsonance(text: string): ConsonanceMatch[];
+  extractLineEnding(line: string): string;
+  /**
+   * The part of a word that must match for a rhyme in this language
+   * (e.g. "-ight" in English, "-ón" in Spanish, the final "ang" in Chinese)
+   */
+  getRhymeSound(word: string): string;
+}
@@ -0,0 +1,211 @@
+/**
+ * Phonemes - ARPAbet helpers for the offline rhyme engine
+ *
+ * Pronunciations are arrays of ARPAbet symbols as used by the CMU
+ * Pronouncing Dictionary (e.g. "night" -> ["N", "AY1", "T"]). Vowels carry a
+ * stress digit: 1 = primary, 2 = secondary, 0 = unstressed.
+ */
+
+// ============================================================================
+// Inventory
+// ============================================================================
+
+export type Phones = string[];
+
+interface VowelFeatures {
+  /** 0 = low, 1 = mid, 2 = high */
+  height: number;
+  /** 0 = front, 1 = central, 2 = back */
+  backness: number;
+  tense: boolean;
+  rounded: boolean;
+  rhotic: boolean;
+  /** Direction of the offglide for diphthongs */
+  glide: "front" | "back" | null;
+}
+
+interface ConsonantFeatures {
+  manner: "stop" | "fricative" | "affricate" | "nasal" | "liquid" | "glide";
+  place: "labial" | "dental" | "alveolar" | "postalveolar" | "palatal" | "velar" | "glottal";
+  voiced: boolean;
+}
+
+const vowel = (
+  height: number,
+  backness: number,
+  { tense = false, rounded = false, rhotic = false, glide = null }: Partial<VowelFeatures> = {}
+): VowelFeatures => ({ height, backness, tense, rounded, rhotic, glide });
+
+const VOWELS: Record<string, VowelFeatures> = {
+  IY: vowel(2, 0, { tense: true }),
+  IH: vowel(2, 0),
+  EY: vowel(1, 0, { tense: true, glide: "front" }),
+  EH: vowel(1, 0),
+  AE: vowel(0, 0),
+  AH: vowel(1, 1),
+  ER: vowel(1, 1, { rhotic: true }),
+  AA: vowel(0, 2, { tense: true }),
+  AO: vowel(0, 2, { tense: true, rounded: true }),
+  OW: vowel(1, 2, { tense: true, rounded: true, glide: "back" }),
+  UH: vowel(2, 2, { rounded: true }),
+  UW: vowel(2, 2, { tense: true, rounded: true }),
+  AY: vowel(0, 1, { tense: true, glide: "front" }),
+  AW: vowel(0, 1, { tense: true, glide: "back" }),
+  OY: vowel(1, 2, { tense: true, rounded: true, glide: "front" }),
+};
+
+const CONSONANTS: Record<string, ConsonantFeatures> = {
+  P: { manner: "stop", place: "labial", voiced: false },
+  B: { manner: "stop", place: "labial", voiced: true },
+  T: { manner: "stop", place: "alveolar", voiced: false },
+  D: { manner: "stop", place: "alveolar", voiced: true },
+  K: { manner: "stop", place: "velar", voiced: false },
+  G: { manner: "stop", place: "velar", voiced: true },
+  F: { manner: "fricative", place: "labial", voiced: false },
+  V: { manner: "fricative", place: "labial", voiced: true },
+  TH: { manner: "fricative", place: "dental", voiced: false },
+  DH: { manner: "fricative", place: "dental", voiced: true },
+  S: { manner: "fricative", place: "alveolar", voiced: false },
+  Z: { manner: "fricative", place: "alveolar", voiced: true },
+  SH: { manner: "fricative", place: "postalveolar", voiced: false },
+  ZH: { manner: "fricative", place: "postalveolar", voiced: true },
+  HH: { manner: "fricative", place: "glottal", voiced: false },
+  CH: { manner: "affricate", place: "postalveolar", voiced: false },
+  JH: { manner: "affricate", place: "postalveolar", voiced: true },
+  M: { manner: "nasal", place: "labial", voiced: true },
+  N: { manner: "nasal", place: "alveolar", voiced: true },
+  NG: { manner: "nasal", place: "velar", voiced: true },
+  L: { manner: "liquid", place: "alveolar", voiced: true },
+  R: { manner: "liquid", place: "alveolar", voiced: true },
+  W: { manner: "glide", place: "labial", voiced: true },
+  Y: { manner: "glide", place: "palatal", voiced: true },
+};
+
+// ============================================================================
+// Basic Helpers
+// ============================================================================
+
+/**
+ * Parse a CMU-style pronunciation string ("N AY1 T") into phones
+ */
+export function parsePhones(pronunciation: string): Phones {
+  return pronunciation.trim().split(/\s+/).filter(Boolean);
+}
+
+export function stripStress(phone: string): string {
+  return phone.replace(/[0-2]$/, "");
+}
+
+export function isVowel(phone: string): boolean {
+  return stripStress(phone) in VOWELS;
+}
+
+export function getStress(phone: string): number | null {
+  const match = phone.match(/([0-2])$/);
+  return match ? Number(match[1]) : null;
+}
+
+export function countPhoneSyllables(phones: Phones): number {
+  return phones.filter(isVowel).length;
+}
+
+/**
+ * Index of the vowel that carries the rhyme: the last primary-stressed vowel,
+ * falling back to the last secondary-stressed vowel, then the last vowel.
+ */
+export function findRhymeVowelIndex(phones: Phones): number {
+  for (const stress of [1, 2]) {
+    for (let i = phones.length - 1; i >= 0; i--) {
+      if (isVowel(phones[i]) && getStress(phones[i]) === stress) return i;
+    }
+  }
+  for (let i = phones.length - 1; i >= 0; i--) {
+    if (isVowel(phones[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * The rhyming part of a pronunciation (stressed vowel onward, stress removed)
+ * e.g. "N EY1 SH AH0 N" -> ["EY", "SH", "AH", "N"]
+ */
+export function getRhymingPart(phones: Phones): Phones {
+  const index = findRhymeVowelIndex(phones);
+  if (index < 0) return phones.map(stripStress);
+  return phones.slice(index).map(stripStress);
+}
+
+// ============================================================================
+// Similarity
+// ============================================================================
+
+/**
+ * Similarity between two phones in [0, 1]
+ *
+ * Vowels compare by height, backness, tenseness, rounding, r-colouring and
+ * offglide; consonants by manner, place and voicing.
+ * A vowel never resembles a consonant.
+ */
+export function phoneSimilarity(a: string, b: string): number {
+  const pa = stripStress(a);
+  const pb = stripStress(b);
+  if (pa === pb) return 1;
+
+  const va = VOWELS[pa];
+  const vb = VOWELS[pb];
+  if (va && vb) {
+    const distance =
+      Math.abs(va.height - vb.height) +
+      Math.abs(va.backness - vb.backness) +
+      (va.tense !== vb.tense ? 0.5 : 0) +
+      (va.rounded !== vb.rounded ? 0.5 : 0) +
+      (va.rhotic !== vb.rhotic ? 1.5 : 0) +
+      (va.glide !== vb.glide ? 1 : 0);
+    // Only identical vowels count as a full match
+    return Math.min(0.9, Math.max(0, 1 - distance / 4));
+  }
+
+  const ca = CONSONANTS[pa];
+  const cb = CONSONANTS[pb];
+  if (ca && cb) {
+    let score = 0;
+    if (ca.manner === cb.manner) score += 0.45;
+    if (ca.place === cb.place) score += 0.3;
+    if (ca.voiced === cb.voiced) score += 0.1;
+    return score;
+  }
+
+  return 0;
+}
+
+/**
+ * Similarity between two phone sequences in [0, 1], aligned from the end
+ *
+ * Weighted edit distance where substitution cost is 1 - phoneSimilarity.
+ * Aligning from the end favours matching final consonants, which is what the
+ * ear hears in a line ending.
+ */
+export function sequenceSimilarity(a: Phones, b: Phones): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const ra = [...a].reverse();
+  const rb = [...b].reverse();
+
+  const rows = ra.length + 1;
+  const cols = rb.length + 1;
+  const dist: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+  for (let i = 0; i < rows; i++) dist[i][0] = i;
+  for (let j = 0; j < cols; j++) dist[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = 1 - phoneSimilarity(ra[i - 1], rb[j - 1]);
+      dist[i][j] = Math.min(
+        dist[i - 1][j] + 1,
+        dist[i][j - 1] + 1,
+        dist[i - 1][j - 1] + substitution
+      );
+    }
+  }
+
+  return Math.max(0, 1 - dist[ra.length][rb.length] / Math.max(ra.length, rb.length));
+}
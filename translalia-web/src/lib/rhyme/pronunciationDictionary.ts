@@ -0,0 +1,99 @@
+/**
+ * Pronunciation Dictionary - bundled CMU Pronouncing Dictionary lookups
+ *
+ * Resolves English words to ARPAbet pronunciations without any network
+ * access. Words missing from the dictionary fall back to the rule-based
+ * grapheme-to-phoneme converter in ./g2p.
+ *
+ * Word frequencies (SUBTLEX-US) are used to rank rhyme candidates so common
+ * words surface before obscure dictionary entries.
+ */
+
+import { dictionary } from "cmu-pronouncing-dictionary";
+import frequencies from "subtlex-word-frequencies";
+import { graphemeToPhoneme } from "./g2p";
+import { parsePhones, type Phones } from "./phonemes";
+
+export type PronunciationSource = "dictionary" | "g2p";
+
+export interface Pronunciation {
+  phones: Phones;
+  source: PronunciationSource;
+}
+
+/** CMU stores alternates as "word(1)", "word(2)", ... */
+const MAX_ALTERNATES = 4;
+
+let frequencyRanks: Map<string, number> | null = null;
+
+/**
+ * Normalize a word for lookup: lowercase, strip surrounding punctuation and
+ * typographic apostrophes
+ */
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .trim()
+    .replace(/[‘’]/g, "'")
+    .replace(/^[^a-z']+|[^a-z']+$/g, "");
+}
+
+/**
+ * Get all known pronunciations of a word (dictionary first, then G2P)
+ */
+export function getPronunciations(word: string): Pronunciation[] {
+  const normalized = normalizeWord(word);
+  if (!normalized) return [];
+
+  const results: Pronunciation[] = [];
+  const primary = dictionary[normalized];
+  if (primary) {
+    results.push({ phones: parsePhones(primary), source: "dictionary" });
+    for (let i = 1; i <= MAX_ALTERNATES; i++) {
+      const alternate = dictionary[`${normalized}(${i})`];
+      if (!alternate) break;
+      results.push({ phones: parsePhones(alternate), source: "dictionary" });
+    }
+    return results;
+  }
+
+  const guessed = graphemeToPhoneme(normalized);
+  return guessed.length > 0 ? [{ phones: guessed, source: "g2p" }] : [];
+}
+
+/**
+ * Get the most likely pronunciation of a word, or null if it has no letters
+ */
+export function getPronunciation(word: string): Pronunciation | null {
+  return getPronunciations(word)[0] ?? null;
+}
+
+export function isInDictionary(word: string): boolean {
+  return normalizeWord(word) in dictionary;
+}
+
+/**
+ * Frequency rank of a word in spoken English (0 = most common).
+ * Returns Infinity for words outside the frequency list.
+ */
+export function getFrequencyRank(word: string): number {
+  if (!frequencyRanks) {
+    frequencyRanks = new Map();
+    frequencies.forEach((entry, index) => {
+      const key = entry.word.toLowerCase();
+      if (!frequencyRanks!.has(key)) frequencyRanks!.set(key, index);
+    });
+  }
+  return frequencyRanks.get(normalizeWord(word)) ?? Infinity;
+}
+
+/**
+ * Iterate dictionary headwords (alternates excluded) with their pronunciations
+ */
+export function* dictionaryEntries(): Generator<[string, Phones[]]> {
+  for (const key of Object.keys(dictionary)) {
+    if (key.includes("(")) continue;
+    const pronunciations = getPronunciations(key).map((p) => p.phones);
+    yield [key, pronunciations];
+  }
+}
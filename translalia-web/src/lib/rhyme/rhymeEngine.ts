@@ -0,0 +1,234 @@
+/**
+ * Rhyme Engine - offline phonetic rhyme matching and scoring
+ *
+ * Compares the rhyming parts of ARPAbet pronunciations (stressed vowel
+ * onward) to classify word pairs as perfect, slant or near rhymes, and
+ * searches the bundled dictionary for candidates.
+ *
+ * The candidate index is built lazily on first lookup and kept for the life
+ * of the process.
+ */
+
+import type { RhymeCandidate, RhymeQuality } from "@/types/rhymeWorkshop";
+import {
+  countPhoneSyllables,
+  getRhymingPart,
+  phoneSimilarity,
+  sequenceSimilarity,
+  stripStress,
+  type Phones,
+} from "./phonemes";
+import {
+  dictionaryEntries,
+  getFrequencyRank,
+  getPronunciations,
+  normalizeWord,
+} from "./pronunciationDictionary";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Only the N most frequent words are offered as candidates */
+const CANDIDATE_VOCABULARY_SIZE = 40000;
+
+/** Vowel buckets searched for slant/near rhymes */
+const MIN_VOWEL_SIMILARITY = 0.75;
+
+const NEAR_RHYME_MIN_SCORE = 0.7;
+
+const QUALITY_ORDER: Record<RhymeQuality, number> = { perfect: 0, slant: 1, near: 2 };
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+export interface RhymeMatch {
+  /** null when the words do not rhyme, "identical" for same pronunciation */
+  quality: RhymeQuality | "identical" | null;
+  score: number;
+}
+
+/**
+ * Score the rhyme between two pronunciations
+ */
+export function scorePhoneRhyme(a: Phones, b: Phones): RhymeMatch {
+  const fullA = a.map(stripStress).join(" ");
+  const fullB = b.map(stripStress).join(" ");
+  if (fullA === fullB) return { quality: "identical", score: 1 };
+
+  const tailA = getRhymingPart(a);
+  const tailB = getRhymingPart(b);
+  if (tailA.length === 0 || tailB.length === 0) return { quality: null, score: 0 };
+
+  if (tailA.join(" ") === tailB.join(" ")) return { quality: "perfect", score: 1 };
+
+  const vowelScore = phoneSimilarity(tailA[0], tailB[0]);
+  const codaScore = sequenceSimilarity(tailA.slice(1), tailB.slice(1));
+  // Never report a non-identical tail as a perfect 1.0
+  const score = Math.min(0.95, 0.5 * vowelScore + 0.5 * codaScore);
+
+  const sameSyllableCount = countPhoneSyllables(tailA) === countPhoneSyllables(tailB);
+  if (sameSyllableCount && (vowelScore === 1 || codaScore === 1)) {
+    return { quality: "slant", score };
+  }
+  if (score >= NEAR_RHYME_MIN_SCORE) {
+    return { quality: "near", score };
+  }
+  return { quality: null, score };
+}
+
+/**
+ * Score the rhyme between two words, using the best-matching pronunciations
+ */
+export function scoreRhyme(word1: string, word2: string): RhymeMatch {
+  let best: RhymeMatch = { quality: null, score: 0 };
+  for (const a of getPronunciations(word1)) {
+    for (const b of getPronunciations(word2)) {
+      const match = scorePhoneRhyme(a.phones, b.phones);
+      if (isBetterMatch(match, best)) best = match;
+    }
+  }
+  return best;
+}
+
+function isBetterMatch(candidate: RhymeMatch, current: RhymeMatch): boolean {
+  const rank = (m: RhymeMatch) =>
+    m.quality === "identical" ? -1 : m.quality ? QUALITY_ORDER[m.quality] : 3;
+  const diff = rank(candidate) - rank(current);
+  return diff < 0 || (diff === 0 && candidate.score > current.score);
+}
+
+// ============================================================================
+// Candidate Index
+// ============================================================================
+
+interface IndexedWord {
+  word: string;
+  phones: Phones;
+  tail: Phones;
+  rank: number;
+}
+
+interface RhymeIndex {
+  byTail: Map<string, IndexedWord[]>;
+  byVowel: Map<string, IndexedWord[]>;
+  byCoda: Map<string, IndexedWord[]>;
+}
+
+let rhymeIndex: RhymeIndex | null = null;
+
+function addTo(map: Map<string, IndexedWord[]>, key: string, entry: IndexedWord) {
+  const bucket = map.get(key);
+  if (bucket) bucket.push(entry);
+  else map.set(key, [entry]);
+}
+
+function getRhymeIndex(): RhymeIndex {
+  if (rhymeIndex) return rhymeIndex;
+
+  const index: RhymeIndex = { byTail: new Map(), byVowel: new Map(), byCoda: new Map() };
+  for (const [word, pronunciations] of dictionaryEntries()) {
+    if (!/^[a-z]{2,}$/.test(word)) continue;
+    const rank = getFrequencyRank(word);
+    if (rank >= CANDIDATE_VOCABULARY_SIZE) continue;
+
+    for (const phones of pronunciations) {
+      const tail = getRhymingPart(phones);
+      if (tail.length === 0) continue;
+      const entry: IndexedWord = { word, phones, tail, rank };
+      addTo(index.byTail, tail.join(" "), entry);
+      addTo(index.byVowel, tail[0], entry);
+      addTo(index.byCoda, tail.slice(1).join(" "), entry);
+    }
+  }
+
+  rhymeIndex = index;
+  return index;
+}
+
+// ============================================================================
+// Candidate Search
+// ============================================================================
+
+export interface FindRhymesOptions {
+  /** Maximum candidates returned per quality level */
+  maxPerQuality?: number;
+}
+
+/**
+ * Words that merely extend the query ("night" -> "midnight") are poor rhymes
+ */
+function isCompoundOf(a: string, b: string): boolean {
+  return a.endsWith(b) || b.endsWith(a);
+}
+
+/**
+ * Find rhyme candidates for a word, best first within each quality level
+ */
+export function findRhymeCandidates(
+  word: string,
+  options: FindRhymesOptions = {}
+): RhymeCandidate[] {
+  const { maxPerQuality = 10 } = options;
+  const normalized = normalizeWord(word);
+  const pronunciations = getPronunciations(normalized);
+  if (pronunciations.length === 0) return [];
+
+  const index = getRhymeIndex();
+  const best = new Map<string, { match: RhymeMatch; entry: IndexedWord }>();
+
+  for (const { phones } of pronunciations) {
+    const tail = getRhymingPart(phones);
+    if (tail.length === 0) continue;
+
+    const pool: IndexedWord[] = [
+      ...(index.byTail.get(tail.join(" ")) ?? []),
+      ...(index.byCoda.get(tail.slice(1).join(" ")) ?? []),
+    ];
+    for (const [vowel, bucket] of index.byVowel) {
+      if (phoneSimilarity(vowel, tail[0]) >= MIN_VOWEL_SIMILARITY) pool.push(...bucket);
+    }
+
+    for (const entry of pool) {
+      if (entry.word === normalized || isCompoundOf(entry.word, normalized)) continue;
+      const match = scorePhoneRhyme(phones, entry.phones);
+      if (!match.quality || match.quality === "identical") continue;
+      const existing = best.get(entry.word);
+      if (!existing || isBetterMatch(match, existing.match)) {
+        best.set(entry.word, { match, entry });
+      }
+    }
+  }
+
+  const ranked = [...best.values()].sort((a, b) => {
+    const qa = QUALITY_ORDER[a.match.quality as RhymeQuality];
+    const qb = QUALITY_ORDER[b.match.quality as RhymeQuality];
+    if (qa !== qb) return qa - qb;
+    if (a.match.score !== b.match.score) return b.match.score - a.match.score;
+    return a.entry.rank - b.entry.rank;
+  });
+
+  const perQuality: Record<RhymeQuality, number> = { perfect: 0, slant: 0, near: 0 };
+  const results: RhymeCandidate[] = [];
+  for (const { match, entry } of ranked) {
+    const quality = match.quality as RhymeQuality;
+    if (perQuality[quality] >= maxPerQuality) continue;
+    perQuality[quality] += 1;
+    results.push({
+      word: entry.word,
+      quality,
+      score: Math.round(match.score * 100) / 100,
+      syllables: countPhoneSyllables(entry.phones),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Clear the candidate index (useful for testing)
+ */
+export function resetRhymeIndex(): void {
+  rhymeIndex = null;
+}
@@ -0,0 +1,76 @@
+/**
+ * Tests for the offline rhyme engine: dictionary lookups, G2P fallback,
+ * rhyme-quality classification and spelled rhyme-sound labels.
+ *
+ * Run with: npx vitest run src/lib/rhyme/rhymeService.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  lookupRhymes,
+  getRhymeSound,
+  getRhymeQuality,
+  doWordsRhyme,
+} from "./rhymeService";
+import { graphemeToPhoneme } from "./g2p";
+
+describe("rhymeService - candidate lookup", () => {
+  it("finds common perfect rhymes without network access", () => {
+    const result = lookupRhymes("night");
+    expect(result.perfectRhymes).toEqual(expect.arrayContaining(["light", "fight"]));
+    expect(result.perfectRhymes).not.toContain("night");
+    expect(result.pronunciationGuessed).toBe(false);
+  });
+
+  it("skips compounds that merely extend the word", () => {
+    expect(lookupRhymes("night").perfectRhymes).not.toContain("midnight");
+  });
+
+  it("scores candidates and orders perfect before slant before near", () => {
+    const { candidates } = lookupRhymes("moon");
+    const order = { perfect: 0, slant: 1, near: 2 };
+    for (let i = 1; i < candidates.length; i++) {
+      expect(order[candidates[i].quality]).toBeGreaterThanOrEqual(
+        order[candidates[i - 1].quality]
+      );
+    }
+    expect(candidates.find((c) => c.quality === "perfect")?.score).toBe(1);
+    expect(candidates.every((c) => c.quality === "perfect" || c.score < 1)).toBe(true);
+  });
+
+  it("falls back to spelling for unknown words", () => {
+    const result = lookupRhymes("glimmerous");
+    expect(result.pronunciationGuessed).toBe(true);
+    expect(result.candidates.length).toBeGreaterThan(0);
+  });
+});
+
+describe("rhymeService - rhyme quality", () => {
+  it("classifies perfect, slant and non-rhymes", () => {
+    expect(doWordsRhyme("night", "light")).toBe(true);
+    expect(getRhymeQuality("lake", "fate").quality).toBe("slant");
+    expect(getRhymeQuality("moon", "on").quality).toBe("slant");
+    expect(getRhymeQuality("night", "table").quality).toBeNull();
+  });
+
+  it("does not count a word as rhyming with itself", () => {
+    expect(getRhymeQuality("night", "knight").quality).toBeNull();
+  });
+});
+
+describe("rhymeService - rhyme sound labels", () => {
+  it("spells the whole rhyming part", () => {
+    expect(getRhymeSound("night")).toBe("-ight");
+    expect(getRhymeSound("nation")).toBe("-ation");
+    expect(getRhymeSound("time")).toBe("-ime");
+    expect(getRhymeSound("hoped")).toBe("-oped");
+  });
+});
+
+describe("g2p - grapheme-to-phoneme fallback", () => {
+  it("handles magic e and common digraphs", () => {
+    expect(graphemeToPhoneme("blorf")).toEqual(["B", "L", "AO1", "R", "F"]);
+    expect(graphemeToPhoneme("brightly")).toEqual(["B", "R", "AY1", "T", "L", "IY0"]);
+    expect(graphemeToPhoneme("mape")).toEqual(["M", "EY1", "P"]);
+  });
+});
@@ -1,15 +1,20 @@
 /**
- * Rhyme Service - Datamuse API integration with caching
+ * Rhyme Service - offline rhyme lookups with caching
  *
- * Provides rhyme lookups using the Datamuse API:
- * - Perfect rhymes (rel_rhy)
- * - Near/slant rhymes (rel_nry)
- * - Approximate rhymes (rel_nry with scoring)
+ * Provides rhyme lookups from the bundled pronunciation dictionary (with a
+ * grapheme-to-phoneme fallback for unknown words):
+ * - Perfect rhymes (identical stressed vowel and ending)
+ * - Slant rhymes (assonance or consonance on the ending)
+ * - Near rhymes (similar sounds, scored)
  *
- * Includes in-memory caching to avoid repeated API calls.
+ * Includes in-memory caching so repeated line endings are only scored once.
+ * No network access is required.
  */
 
-import type { RhymeResult, RhymeDictionaryData } from "@/types/rhymeWorkshop";
+import type { RhymeResult, RhymeDictionaryData, RhymeQuality } from "@/types/rhymeWorkshop";
+import { countPhoneSyllables, getRhymingPart } from "./phonemes";
+import { getPronunciation, normalizeWord } from "./pronunciationDictionary";
+import { findRhymeCandidates, scoreRhyme } from "./rhymeEngine";
 
 // ============================================================================
 // Cache Configuration
@@ -17,6 +22,7 @@ import type { RhymeResult, RhymeDictionaryData } from "@/types/rhymeWorkshop";
 
 const CACHE_TTL_MS = 1000 * 60 * 60; // 1 hour
 const MAX_CACHE_SIZE = 1000;
+const MAX_RESULTS_PER_QUALITY = 10;
 
 interface CacheEntry {
   data: RhymeResult;
@@ -46,79 +52,13 @@ function pruneCache(): void {
 }
 
 // ============================================================================
-// Datamuse API
-// ============================================================================
-
-const DATAMUSE_BASE_URL = "https://api.datamuse.com/words";
-
-interface DatamuseWord {
-  word: string;
-  score: number;
-  numSyllables?: number;
-}
-
-/**
- * Fetch perfect rhymes for a word from Datamuse API
- */
-async function fetchPerfectRhymes(
-  word: string,
-  maxResults: number = 10
-): Promise<string[]> {
-  try {
-    const url = `${DATAMUSE_BASE_URL}?rel_rhy=${encodeURIComponent(word)}&max=${maxResults}`;
-    const response = await fetch(url, {
-      headers: { Accept: "application/json" },
-      next: { revalidate: 3600 }, // Cache for 1 hour in Next.js
-    });
-
-    if (!response.ok) {
-      console.warn(`[rhymeService] Datamuse API error: ${response.status}`);
-      return [];
-    }
-
-    const data: DatamuseWord[] = await response.json();
-    return data.map((item) => item.word);
-  } catch (error) {
-    console.error("[rhymeService] Failed to fetch perfect rhymes:", error);
-    return [];
-  }
-}
-
-/**
- * Fetch near/slant rhymes for a word from Datamuse API
- */
-async function fetchNearRhymes(
-  word: string,
-  maxResults: number = 10
-): Promise<string[]> {
-  try {
-    const url = `${DATAMUSE_BASE_URL}?rel_nry=${encodeURIComponent(word)}&max=${maxResults}`;
-    const response = await fetch(url, {
-      headers: { Accept: "application/json" },
-      next: { revalidate: 3600 },
-    });
-
-    if (!response.ok) {
-      console.warn(`[rhymeService] Datamuse API error: ${response.status}`);
-      return [];
-    }
-
-    const data: DatamuseWord[] = await response.json();
-    return data.map((item) => item.word);
-  } catch (error) {
-    console.error("[rhymeService] Failed to fetch near rhymes:", error);
-    return [];
-  }
-}
-
-// ============================================================================
-// Public API
+// Lookup
 // ============================================================================
 
 /**
- * Fetch rhymes for a single word (with caching)
+ * Look up rhymes for a single word (with caching)
  */
-export async function fetchRhymes(word: string): Promise<RhymeResult> {
+export function lookupRhymes(word: string): RhymeResult {
   const cacheKey = getCacheKey(word);
 
   // Check cache first
@@ -127,16 +67,17 @@ export async function fetchRhymes(word: string): Promise<RhymeResult> {
     return cached.data;
   }
 
-  // Fetch from API (parallel requests)
-  const [perfectRhymes, nearRhymes] = await Promise.all([
-    fetchPerfectRhymes(word),
-    fetchNearRhymes(word),
-  ]);
+  const candidates = findRhymeCandidates(word, { maxPerQuality: MAX_RESULTS_PER_QUALITY });
+  const wordsOf = (quality: RhymeQuality) =>
+    candidates.filter((c) => c.quality === quality).map((c) => c.word);
 
   const result: RhymeResult = {
     word: word.toLowerCase().trim(),
-    perfectRhymes,
-    nearRhymes,
+    perfectRhymes: wordsOf("perfect"),
+    slantRhymes: wordsOf("slant"),
+    nearRhymes: wordsOf("near"),
+    candidates,
+    pronunciationGuessed: getPronunciation(word)?.source === "g2p",
   };
 
   // Store in cache
@@ -150,6 +91,19 @@ export async function fetchRhymes(word: string): Promise<RhymeResult> {
   return result;
 }
 
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fetch rhymes for a single word
+ *
+ * Kept async so callers don't depend on the lookup being local.
+ */
+export async function fetchRhymes(word: string): Promise<RhymeResult> {
+  return lookupRhymes(word);
+}
+
 /**
  * Fetch rhymes for multiple words in parallel
  */
@@ -179,75 +133,59 @@ export async function fetchRhymesForLineEndings(
 }
 
 /**
- * Get rhyme sound/ending for a word
- * Extracts common rhyme patterns like "-ight", "-tion", "-ness"
+ * Get rhyme sound/ending for a word, spelled the way the word spells it
+ * e.g. "night" -> "-ight", "nation" -> "-ation", "time" -> "-ime"
+ *
+ * The number of syllables is taken from the word's pronunciation (stressed
+ * vowel onward), so the label always covers the whole rhyming part.
  */
 export function getRhymeSound(word: string): string {
-  const normalized = word.toLowerCase().trim().replace(/[.,!?;:'"]+$/, "");
-
-  // Common rhyme endings (ordered by specificity)
-  const patterns = [
-    // 4+ chars
-    { pattern: /tion$/, sound: "-tion" },
-    { pattern: /ness$/, sound: "-ness" },
-    { pattern: /ment$/, sound: "-ment" },
-    { pattern: /ight$/, sound: "-ight" },
-    { pattern: /ough$/, sound: "-ough" },
-    { pattern: /ound$/, sound: "-ound" },
-    { pattern: /ould$/, sound: "-ould" },
-    { pattern: /ance$/, sound: "-ance" },
-    { pattern: /ence$/, sound: "-ence" },
-    // 3 chars
-    { pattern: /ing$/, sound: "-ing" },
-    { pattern: /ess$/, sound: "-ess" },
-    { pattern: /ful$/, sound: "-ful" },
-    { pattern: /ous$/, sound: "-ous" },
-    { pattern: /ive$/, sound: "-ive" },
-    { pattern: /ate$/, sound: "-ate" },
-    { pattern: /ine$/, sound: "-ine" },
-    { pattern: /ove$/, sound: "-ove" },
-    { pattern: /ade$/, sound: "-ade" },
-    { pattern: /ide$/, sound: "-ide" },
-    { pattern: /ose$/, sound: "-ose" },
-    { pattern: /aze$/, sound: "-aze" },
-    { pattern: /ize$/, sound: "-ize" },
-    { pattern: /ear$/, sound: "-ear" },
-    { pattern: /air$/, sound: "-air" },
-    { pattern: /are$/, sound: "-are" },
-    { pattern: /ore$/, sound: "-ore" },
-    { pattern: /our$/, sound: "-our" },
-    { pattern: /ure$/, sound: "-ure" },
-    { pattern: /eer$/, sound: "-eer" },
-    { pattern: /ow$/, sound: "-ow" },
-    { pattern: /ay$/, sound: "-ay" },
-    { pattern: /ey$/, sound: "-ey" },
-    { pattern: /ee$/, sound: "-ee" },
-    { pattern: /oo$/, sound: "-oo" },
-  ];
-
-  for (const { pattern, sound } of patterns) {
-    if (pattern.test(normalized)) {
-      return sound;
-    }
+  const normalized = normalizeWord(word).replace(/[^a-z]/g, "");
+  if (!normalized) return "-";
+
+  const pronunciation = getPronunciation(normalized);
+  const phones = pronunciation?.phones ?? [];
+  const rhymeSyllables = Math.max(1, countPhoneSyllables(getRhymingPart(phones)));
+
+  // Spelled vowel groups; a word-initial consonant y doesn't start a syllable
+  const groupStarts: number[] = [];
+  for (const match of normalized.matchAll(/[aeiouy]+/g)) {
+    let start = match.index ?? 0;
+    if (start === 0 && match[0] === "y") continue;
+    if (start === 0 && match[0].startsWith("y")) start += 1;
+    groupStarts.push(start);
   }
 
-  // Fallback: use last 3 characters
-  if (normalized.length >= 3) {
-    return `-${normalized.slice(-3)}`;
-  }
-  if (normalized.length >= 2) {
-    return `-${normalized.slice(-2)}`;
+  // Drop silent e's ("time", "hoped") until spelling and sound agree
+  const spokenSyllables = countPhoneSyllables(phones);
+  while (groupStarts.length > Math.max(1, spokenSyllables)) {
+    const last = groupStarts[groupStarts.length - 1];
+    if (normalized[last] !== "e" || /[aeiouy]/.test(normalized[last + 1] ?? "")) break;
+    groupStarts.pop();
   }
-  return `-${normalized}`;
+
+  if (groupStarts.length === 0) return `-${normalized}`;
+  const start = groupStarts[Math.max(0, groupStarts.length - rhymeSyllables)];
+  return `-${normalized.slice(start)}`;
 }
 
 /**
  * Check if two words rhyme (perfect rhyme)
  */
 export function doWordsRhyme(word1: string, word2: string): boolean {
-  const sound1 = getRhymeSound(word1);
-  const sound2 = getRhymeSound(word2);
-  return sound1 === sound2;
+  return scoreRhyme(word1, word2).quality === "perfect";
+}
+
+/**
+ * Classify the rhyme between two words with a rhyme-quality score in [0, 1]
+ */
+export function getRhymeQuality(
+  word1: string,
+  word2: string
+): { quality: RhymeQuality | null; score: number } {
+  const match = scoreRhyme(word1, word2);
+  if (match.quality === "identical") return { quality: null, score: 0 };
+  return { quality: match.quality, score: Math.round(match.score * 100) / 100 };
 }
 
 /**
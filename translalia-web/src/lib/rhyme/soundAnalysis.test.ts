@@ -0,0 +1,98 @@
+/**
+ * Tests for per-language sound analysis: analyzer selection and the
+ * syllable, rhythm and rhyme rules of each language.
+ *
+ * Run with: npx vitest run src/lib/rhyme/soundAnalysis.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  analyzeLineSound,
+  compareRhythm,
+  countSyllables,
+  extractLineEnding,
+  getLanguageRhymeSound,
+} from "./soundAnalysis";
+import { resolveSoundLanguage } from "./languages";
+
+describe("soundAnalysis - analyzer selection", () => {
+  it("resolves free-text language names, codes and scripts", () => {
+    expect(resolveSoundLanguage("Español (Rioplatense)")).toBe("es");
+    expect(resolveSoundLanguage("zh-CN")).toBe("zh");
+    expect(resolveSoundLanguage("Hindi")).toBe("hi");
+    expect(resolveSoundLanguage(undefined, "யாதும் ஊரே")).toBe("ta");
+    expect(resolveSoundLanguage("Klingon", "qaStaH nuq")).toBe("en");
+  });
+
+  it("keeps English analysis when no language is given", () => {
+    const analysis = analyzeLineSound("The silver moon sings softly to the sea");
+    expect(analysis.language).toBe("en");
+    expect(analysis.alliteration.map((a) => a.consonant)).toContain("s");
+  });
+});
+
+describe("soundAnalysis - Spanish", () => {
+  it("counts metrical syllables with synalepha", () => {
+    expect(countSyllables("Puedo escribir los versos más tristes esta noche", "Spanish")).toBe(14);
+  });
+
+  it("takes the rhyme sound from the stressed vowel", () => {
+    expect(getLanguageRhymeSound("canción", "es")).toBe("-ón");
+    expect(getLanguageRhymeSound("cielo", "es")).toBe("-elo");
+  });
+});
+
+describe("soundAnalysis - Indic scripts", () => {
+  it("counts Hindi aksharas with schwa deletion", () => {
+    expect(countSyllables("कमल", "hi")).toBe(2);
+    expect(analyzeLineSound("कमल के फूल खिले", "Hindi").stressPattern).toBe("L-G G G L-G");
+  });
+
+  it("reads Tamil long vowels and final consonants as heavy", () => {
+    const analysis = analyzeLineSound("யாதும் ஊரே யாவரும் கேளிர்", "Tamil");
+    expect(analysis.stressPattern).toBe("G-G G-G G-L-G G-G");
+    expect(analysis.alliteration[0]?.words).toEqual(["யாதும்", "யாவரும்"]);
+  });
+});
+
+describe("soundAnalysis - Arabic", () => {
+  it("derives syllable weights from harakat", () => {
+    const analysis = analyzeLineSound("قِفا نَبْكِ مِنْ ذِكْرى حَبيبٍ ومَنْزِلِ", "Arabic");
+    expect(analysis.syllableCount).toBe(14);
+    expect(analysis.stressPattern.startsWith("L-G G-L G G-G L-G-G")).toBe(true);
+  });
+
+  it("alliterates past the article and proclitics", () => {
+    const analysis = analyzeLineSound("والقمر في السماء والقلب", "ar");
+    expect(analysis.alliteration[0]?.consonant).toBe("ق");
+  });
+});
+
+describe("soundAnalysis - Chinese", () => {
+  const line = "床前明月光，疑是地上霜。";
+
+  it("counts characters and reads tones", () => {
+    const analysis = analyzeLineSound(line, "Chinese");
+    expect(analysis.syllableCount).toBe(10);
+    expect(analysis.stressPattern.split(" ")[0]).toBe("chuáng");
+  });
+
+  it("groups characters by rhyme class and rhymes on the final", () => {
+    const analysis = analyzeLineSound(line, "zh");
+    const ang = analysis.assonance.find((a) => a.vowel === "ang");
+    expect(ang?.words).toEqual(["床", "光", "上", "霜"]);
+    expect(extractLineEnding(line, "zh")).toBe("霜");
+    expect(getLanguageRhymeSound("光", "zh")).toBe(getLanguageRhymeSound("霜", "zh"));
+  });
+});
+
+describe("soundAnalysis - compareRhythm", () => {
+  it("counts each line by its own language", () => {
+    const result = compareRhythm("床前明月光", "Puedo escribir los versos", {
+      line1: "zh",
+      line2: "es",
+    });
+    expect(result.line1Syllables).toBe(5);
+    expect(result.line2Syllables).toBe(7);
+  });
+});
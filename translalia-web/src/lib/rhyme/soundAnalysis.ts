@@ -7,436 +7,97 @@
  * - Alliteration detection
  * - Assonance detection
  * - Consonance detection
+ *
+ * Every function takes an optional language (name or code, e.g. the thread's
+ * target language) and delegates to that language's analyzer in
+ * `./languages`. Without a language, the script of the text decides, so
+ * English text keeps the English heuristics.
  */
 
+import {
+  getRhythmLabel,
+  getSoundAnalyzer,
+  type AlliterationMatch,
+  type AssonanceMatch,
+  type ConsonanceMatch,
+  type SoundLanguageCode,
+} from "./languages";
+
 // ============================================================================
 // Types
 // ============================================================================
 
-export interface AlliterationMatch {
-  /** The repeated consonant sound */
-  consonant: string;
-  /** Words that share this sound */
-  words: string[];
-  /** Positions of words in the line */
-  positions: number[];
-}
-
-export interface AssonanceMatch {
-  /** The repeated vowel sound */
-  vowel: string;
-  /** Words that share this sound */
-  words: string[];
-  /** Positions of words in the line */
-  positions: number[];
-}
-
-export interface ConsonanceMatch {
-  /** The repeated consonant (at word endings) */
-  consonant: string;
-  /** Words that share this ending consonant */
-  words: string[];
-  /** Positions of words in the line */
-  positions: number[];
-}
+export type { AlliterationMatch, AssonanceMatch, ConsonanceMatch, SoundLanguageCode };
 
 export interface LineAnalysis {
   text: string;
+  /** Analyzer language the line was analyzed with */
+  language: SoundLanguageCode;
   syllableCount: number;
   stressPattern: string;
+  /** What stressPattern measures (stress, syllable weight, tones) */
+  rhythmLabel: string;
   alliteration: AlliterationMatch[];
   assonance: AssonanceMatch[];
   consonance: ConsonanceMatch[];
 }
 
 // ============================================================================
-// Syllable Counting
+// Syllables and Stress
 // ============================================================================
 
 /**
- * Count syllables in a word using heuristics
- *
- * This is a simplified English syllable counter. For production,
- * consider using the 'syllable' npm package for better accuracy.
- */
-export function countWordSyllables(word: string): number {
-  const normalized = word.toLowerCase().replace(/[^a-z]/g, "");
-
-  if (normalized.length === 0) return 0;
-  if (normalized.length <= 2) return 1;
-
-  // Special cases
-  const silentE = /[aeiou][^aeiou]e$/;
-  const doubleVowels = /[aeiou]{2,}/g;
-
-  let syllables = 0;
-
-  // Count vowel groups
-  const vowelGroups = normalized.match(/[aeiouy]+/g) || [];
-  syllables = vowelGroups.length;
-
-  // Subtract for silent e at the end (unless it's the only vowel)
-  if (silentE.test(normalized) && syllables > 1) {
-    syllables--;
-  }
-
-  // Subtract for common double vowels that are single sounds
-  const doubleMatches = normalized.match(doubleVowels) || [];
-  for (const match of doubleMatches) {
-    // These double vowels are typically one syllable
-    if (
-      ["ai", "au", "ay", "ea", "ee", "ei", "ey", "ie", "oa", "oo", "ou", "ow", "oy", "ue", "ui"].includes(
-        match
-      )
-    ) {
-      syllables--;
-    }
-  }
-
-  // Add for -le endings (table, apple)
-  if (/[^aeiou]le$/.test(normalized)) {
-    syllables++;
-  }
-
-  // Subtract for -ed endings that don't add a syllable
-  if (/[^td]ed$/.test(normalized)) {
-    syllables--;
-  }
-
-  // Minimum of 1 syllable
-  return Math.max(1, syllables);
-}
-
-/**
- * Count total syllables in a line of text
+ * Count syllables in a word
  */
-export function countSyllables(text: string): number {
-  const words = text.trim().split(/\s+/).filter(Boolean);
-  return words.reduce((total, word) => total + countWordSyllables(word), 0);
+export function countWordSyllables(word: string, language?: string): number {
+  return getSoundAnalyzer(language, word).countWordSyllables(word);
 }
 
-// ============================================================================
-// Stress Pattern Detection
-// ============================================================================
-
 /**
- * Simple rules for determining if a word is likely stressed
- * This is a heuristic - accurate stress requires a pronunciation dictionary
+ * Count syllables in a line as the language's prosody counts them
  */
-function isStressedWord(word: string): boolean {
-  const lower = word.toLowerCase().replace(/[^a-z]/g, "");
-
-  // Unstressed function words
-  const unstressedWords = new Set([
-    "a",
-    "an",
-    "the",
-    "and",
-    "or",
-    "but",
-    "of",
-    "to",
-    "in",
-    "on",
-    "at",
-    "by",
-    "for",
-    "with",
-    "as",
-    "is",
-    "are",
-    "was",
-    "were",
-    "be",
-    "been",
-    "am",
-    "has",
-    "have",
-    "had",
-    "do",
-    "does",
-    "did",
-    "will",
-    "would",
-    "could",
-    "should",
-    "can",
-    "may",
-    "might",
-    "must",
-    "it",
-    "its",
-    "he",
-    "she",
-    "they",
-    "we",
-    "you",
-    "i",
-    "my",
-    "your",
-    "his",
-    "her",
-    "their",
-    "our",
-    "this",
-    "that",
-    "these",
-    "those",
-    "which",
-    "who",
-    "whom",
-    "what",
-    "when",
-    "where",
-    "how",
-    "why",
-    "if",
-    "so",
-    "than",
-    "then",
-  ]);
-
-  return !unstressedWords.has(lower) && lower.length > 0;
+export function countSyllables(text: string, language?: string): number {
+  return getSoundAnalyzer(language, text).countSyllables(text);
 }
 
 /**
- * Get stress pattern for a line of text
- * Returns pattern like "da-DUM da-DUM" (da = unstressed, DUM = stressed)
+ * Get the rhythm notation for a line (stress in English and Spanish,
+ * syllable weight in Indic languages and Arabic, tones in Chinese)
  */
-export function getStressPattern(text: string): string {
-  const words = text.trim().split(/\s+/).filter(Boolean);
-
-  const pattern = words
-    .map((word) => {
-      const syllables = countWordSyllables(word);
-      const stressed = isStressedWord(word);
-
-      if (syllables === 1) {
-        return stressed ? "DUM" : "da";
-      }
-
-      // For multi-syllable words, create alternating pattern
-      // (this is a simplification - real stress patterns vary)
-      const parts: string[] = [];
-      for (let i = 0; i < syllables; i++) {
-        // First syllable stressed for most English words
-        parts.push(i === 0 && stressed ? "DUM" : "da");
-      }
-      return parts.join("-");
-    })
-    .join(" ");
-
-  return pattern;
+export function getStressPattern(text: string, language?: string): string {
+  return getSoundAnalyzer(language, text).getStressPattern(text);
 }
 
 /**
- * Get a simplified stress pattern notation
- * Returns pattern like "/ x / x" (/ = stressed, x = unstressed)
+ * Get a compact rhythm notation, one symbol per unit
  */
-export function getSimpleStressPattern(text: string): string {
-  const words = text.trim().split(/\s+/).filter(Boolean);
-
-  return words
-    .map((word) => {
-      const stressed = isStressedWord(word);
-      return stressed ? "/" : "x";
-    })
-    .join(" ");
+export function getSimpleStressPattern(text: string, language?: string): string {
+  return getSoundAnalyzer(language, text).getSimpleStressPattern(text);
 }
 
 // ============================================================================
-// Alliteration Detection
+// Sound Patterns
 // ============================================================================
 
 /**
- * Detect alliteration (repeated initial consonant sounds) in text
+ * Detect alliteration (repeated initial sounds)
  */
-export function detectAlliteration(text: string): AlliterationMatch[] {
-  const words = text.trim().split(/\s+/).filter(Boolean);
-  const consonantGroups = new Map<string, { words: string[]; positions: number[] }>();
-
-  // Consonant clusters that create alliteration
-  const consonantPatterns = [
-    /^(sh|ch|th|wh|ph|sch|str|spr|scr|spl|squ|thr|chr)/i,
-    /^([bcdfghjklmnpqrstvwxyz])/i,
-  ];
-
-  words.forEach((word, index) => {
-    const cleaned = word.replace(/[^a-z]/gi, "").toLowerCase();
-    if (!cleaned) return;
-
-    // Check if word starts with a vowel (no alliteration for vowels in this context)
-    if (/^[aeiou]/i.test(cleaned)) return;
-
-    let consonant = "";
-    for (const pattern of consonantPatterns) {
-      const match = cleaned.match(pattern);
-      if (match) {
-        consonant = match[1].toLowerCase();
-        break;
-      }
-    }
-
-    if (consonant) {
-      if (!consonantGroups.has(consonant)) {
-        consonantGroups.set(consonant, { words: [], positions: [] });
-      }
-      const group = consonantGroups.get(consonant)!;
-      group.words.push(word);
-      group.positions.push(index);
-    }
-  });
-
-  // Only return groups with 2+ words (actual alliteration)
-  const results: AlliterationMatch[] = [];
-  for (const [consonant, group] of consonantGroups) {
-    if (group.words.length >= 2) {
-      results.push({
-        consonant,
-        words: group.words,
-        positions: group.positions,
-      });
-    }
-  }
-
-  return results;
+export function detectAlliteration(text: string, language?: string): AlliterationMatch[] {
+  return getSoundAnalyzer(language, text).detectAlliteration(text);
 }
 
-// ============================================================================
-// Assonance Detection
-// ============================================================================
-
 /**
- * Get the primary vowel sound from a word
+ * Detect assonance (repeated vowel sounds)
  */
-function getPrimaryVowelSound(word: string): string | null {
-  const cleaned = word.replace(/[^a-z]/gi, "").toLowerCase();
-
-  // Common vowel sound patterns (ordered by specificity)
-  const vowelPatterns = [
-    { pattern: /oo/, sound: "oo" },
-    { pattern: /ee/, sound: "ee" },
-    { pattern: /ea/, sound: "ee" },
-    { pattern: /ai/, sound: "ay" },
-    { pattern: /ay/, sound: "ay" },
-    { pattern: /ei/, sound: "ay" },
-    { pattern: /ey/, sound: "ay" },
-    { pattern: /oa/, sound: "oh" },
-    { pattern: /ow/, sound: "oh" },
-    { pattern: /ou/, sound: "ow" },
-    { pattern: /oi/, sound: "oy" },
-    { pattern: /oy/, sound: "oy" },
-    { pattern: /au/, sound: "aw" },
-    { pattern: /aw/, sound: "aw" },
-    { pattern: /ie/, sound: "ee" },
-    { pattern: /[aeiou]/, sound: null }, // Will extract single vowel
-  ];
-
-  for (const { pattern, sound } of vowelPatterns) {
-    if (pattern.test(cleaned)) {
-      if (sound) return sound;
-      // Extract single vowel
-      const match = cleaned.match(/[aeiou]/);
-      return match ? match[0] : null;
-    }
-  }
-
-  return null;
+export function detectAssonance(text: string, language?: string): AssonanceMatch[] {
+  return getSoundAnalyzer(language, text).detectAssonance(text);
 }
 
 /**
- * Detect assonance (repeated vowel sounds) in text
+ * Detect consonance (repeated consonant sounds at word endings)
  */
-export function detectAssonance(text: string): AssonanceMatch[] {
-  const words = text.trim().split(/\s+/).filter(Boolean);
-  const vowelGroups = new Map<string, { words: string[]; positions: number[] }>();
-
-  words.forEach((word, index) => {
-    const vowelSound = getPrimaryVowelSound(word);
-    if (!vowelSound) return;
-
-    if (!vowelGroups.has(vowelSound)) {
-      vowelGroups.set(vowelSound, { words: [], positions: [] });
-    }
-    const group = vowelGroups.get(vowelSound)!;
-    group.words.push(word);
-    group.positions.push(index);
-  });
-
-  // Only return groups with 2+ words
-  const results: AssonanceMatch[] = [];
-  for (const [vowel, group] of vowelGroups) {
-    if (group.words.length >= 2) {
-      results.push({
-        vowel,
-        words: group.words,
-        positions: group.positions,
-      });
-    }
-  }
-
-  return results;
-}
-
-// ============================================================================
-// Consonance Detection
-// ============================================================================
-
-/**
- * Get the ending consonant sound from a word
- */
-function getEndingConsonant(word: string): string | null {
-  const cleaned = word.replace(/[^a-z]/gi, "").toLowerCase();
-  if (!cleaned) return null;
-
-  // Check for ending consonant clusters
-  const clusters = [
-    /(?:ng|nk|nt|nd|mp|mb|sk|sp|st|ft|pt|ct|ck|sh|ch|th|ph)$/,
-    /([bcdfghjklmnpqrstvwxz])$/,
-  ];
-
-  for (const pattern of clusters) {
-    const match = cleaned.match(pattern);
-    if (match) {
-      return match[1] || match[0];
-    }
-  }
-
-  return null;
-}
-
-/**
- * Detect consonance (repeated ending consonant sounds) in text
- */
-export function detectConsonance(text: string): ConsonanceMatch[] {
-  const words = text.trim().split(/\s+/).filter(Boolean);
-  const consonantGroups = new Map<string, { words: string[]; positions: number[] }>();
-
-  words.forEach((word, index) => {
-    const consonant = getEndingConsonant(word);
-    if (!consonant) return;
-
-    if (!consonantGroups.has(consonant)) {
-      consonantGroups.set(consonant, { words: [], positions: [] });
-    }
-    const group = consonantGroups.get(consonant)!;
-    group.words.push(word);
-    group.positions.push(index);
-  });
-
-  // Only return groups with 2+ words
-  const results: ConsonanceMatch[] = [];
-  for (const [consonant, group] of consonantGroups) {
-    if (group.words.length >= 2) {
-      results.push({
-        consonant,
-        words: group.words,
-        positions: group.positions,
-      });
-    }
-  }
-
-  return results;
+export function detectConsonance(text: string, language?: string): ConsonanceMatch[] {
+  return getSoundAnalyzer(language, text).detectConsonance(text);
 }
 
 // ============================================================================
@@ -446,31 +107,36 @@ export function detectConsonance(text: string): ConsonanceMatch[] {
 /**
  * Perform complete sound analysis on a line of text
  */
-export function analyzeLineSound(text: string): LineAnalysis {
+export function analyzeLineSound(text: string, language?: string): LineAnalysis {
+  const analyzer = getSoundAnalyzer(language, text);
   return {
     text,
-    syllableCount: countSyllables(text),
-    stressPattern: getStressPattern(text),
-    alliteration: detectAlliteration(text),
-    assonance: detectAssonance(text),
-    consonance: detectConsonance(text),
+    language: analyzer.language,
+    syllableCount: analyzer.countSyllables(text),
+    stressPattern: analyzer.getStressPattern(text),
+    rhythmLabel: getRhythmLabel(analyzer.language),
+    alliteration: analyzer.detectAlliteration(text),
+    assonance: analyzer.detectAssonance(text),
+    consonance: analyzer.detectConsonance(text),
   };
 }
 
 /**
- * Compare two lines for rhythmic similarity
+ * Compare two lines for rhythmic similarity. The lines may be in different
+ * languages (source vs. translation); each is counted by its own rules.
  */
 export function compareRhythm(
   line1: string,
-  line2: string
+  line2: string,
+  languages: { line1?: string; line2?: string } = {}
 ): {
   syllableDiff: number;
   line1Syllables: number;
   line2Syllables: number;
   rhythmMatch: "exact" | "close" | "different";
 } {
-  const s1 = countSyllables(line1);
-  const s2 = countSyllables(line2);
+  const s1 = countSyllables(line1, languages.line1);
+  const s2 = countSyllables(line2, languages.line2);
   const diff = Math.abs(s1 - s2);
 
   let rhythmMatch: "exact" | "close" | "different";
@@ -491,17 +157,23 @@ export function compareRhythm(
 }
 
 /**
- * Extract the last word from a line (for rhyme analysis)
+ * Extract the last word from a line (for rhyme analysis); for Chinese, the
+ * last character
  */
-export function extractLineEnding(line: string): string {
-  const words = line.trim().split(/\s+/);
-  const lastWord = words[words.length - 1] || "";
-  return lastWord.replace(/[.,!?;:'"]+$/, "").toLowerCase();
+export function extractLineEnding(line: string, language?: string): string {
+  return getSoundAnalyzer(language, line).extractLineEnding(line);
 }
 
 /**
  * Extract line endings from multiple lines
  */
-export function extractLineEndings(lines: string[]): string[] {
-  return lines.map(extractLineEnding);
+export function extractLineEndings(lines: string[], language?: string): string[] {
+  return lines.map((line) => extractLineEnding(line, language));
+}
+
+/**
+ * Get the part of a word that must match for a rhyme in its language
+ */
+export function getLanguageRhymeSound(word: string, language?: string): string {
+  return getSoundAnalyzer(language, word).getRhymeSound(word);
 }
@@ -10,6 +10,10 @@ export const routes = {
   project: (projectId: string) => `/workspaces/${projectId}`,
   projectWithThread: (projectId: string, threadId: string) =>
     `/workspaces/${projectId}/threads/${encodeURIComponent(threadId)}`,
+  classes: () => "/classes",
+  classDetail: (classId: string) => `/classes/${encodeURIComponent(classId)}`,
+  submissionReview: (classId: string, submissionId: string) =>
+    `/classes/${encodeURIComponent(classId)}/submissions/${encodeURIComponent(submissionId)}`,
   // lightweight compare via query; use a dedicated page later if you prefer
   compare: (projectId: string, leftId: string, rightId: string) =>
     `/workspace/${projectId}?compare=${leftId}:${rightId}`,
@@ -0,0 +1,156 @@
+/**
+ * Application metrics, registered in the shared registry and scraped at
+ * /api/metrics. Hot paths record through `metricsCollector`, verification
+ * through `recordMetric()` and Method 2 translations through
+ * `recordLineAudit()`.
+ *
+ * Label values are kept to small fixed sets (route classes, call types,
+ * constraint names) so series counts stay bounded.
+ */
+
+import type { LineAudit } from "@/lib/ai/audit";
+import { counter, gauge, histogram } from "./registry";
+
+const LATENCY_BUCKETS_SEC = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+const TOKEN_BUCKETS = [50, 100, 250, 500, 1000, 2000, 4000, 8000, 16000, 32000];
+
+export const routeDuration = histogram(
+  "translalia_route_duration_seconds",
+  "API route latency by route class",
+  ["route", "outcome"],
+  LATENCY_BUCKETS_SEC
+);
+
+export const llmCallDuration = histogram(
+  "translalia_llm_call_duration_seconds",
+  "Latency of individual LLM calls by call type",
+  ["call_type", "status"],
+  LATENCY_BUCKETS_SEC
+);
+
+export const llmTokens = histogram(
+  "translalia_llm_tokens",
+  "Tokens per LLM call by call type and kind (prompt or completion)",
+  ["call_type", "kind"],
+  TOKEN_BUCKETS
+);
+
+export const llmCost = counter(
+  "translalia_llm_cost_usd",
+  "Estimated LLM spend in USD by route and model (see src/lib/usage/pricing.ts)",
+  ["route", "model"]
+);
+
+export const queueDepth = gauge(
+  "translalia_translation_queue_depth",
+  "Messages waiting in the translation queue (queue=main) and dead-letter queue (queue=dlq)",
+  ["queue"]
+);
+
+export const queueActiveJobs = gauge(
+  "translalia_translation_queue_active_jobs",
+  "Threads in the translation queue's active set"
+);
+
+export const queueOldestAge = gauge(
+  "translalia_translation_queue_oldest_age_seconds",
+  "Age of the oldest waiting translation queue message"
+);
+
+export const queueReenqueues = counter(
+  "translalia_translation_reenqueues",
+  "Translation jobs re-enqueued for retry"
+);
+
+export const queueDeadLetters = counter(
+  "translalia_translation_dead_letters",
+  "Translation jobs moved to the dead-letter queue after exhausting retries"
+);
+
+export const tickLockSkips = counter(
+  "translalia_translation_tick_lock_skips",
+  "Translation ticks skipped because another tick held the thread's lock"
+);
+
+export const cacheLookups = counter(
+  "translalia_cache_lookups",
+  "Cache lookups by key family and result (hit or miss)",
+  ["family", "result"]
+);
+
+export const verificationDuration = histogram(
+  "translalia_verification_duration_seconds",
+  "Verification operation latency by operation and outcome",
+  ["operation", "outcome"],
+  LATENCY_BUCKETS_SEC
+);
+
+export const verificationErrors = counter(
+  "translalia_verification_errors",
+  "Failed verification operations by operation and error code",
+  ["operation", "code"]
+);
+
+export const lineAudits = counter(
+  "translalia_line_audits",
+  "Method 2 line translations by mode and final diversity gate result",
+  ["mode", "gate"]
+);
+
+export const gateFailures = counter(
+  "translalia_line_gate_failures",
+  "Diversity gate failures by failed constraint",
+  ["constraint"]
+);
+
+export const lineRegenerations = counter(
+  "translalia_line_regenerations",
+  "Variant regenerations by strategy (single or salvage)",
+  ["strategy"]
+);
+
+export const phase1Failures = counter(
+  "translalia_line_phase1_failures",
+  "Phase 1 validation failures by failed check",
+  ["check"]
+);
+
+export const glossaryChecks = counter(
+  "translalia_line_glossary_checks",
+  "Project glossary checks by result (pass or fail)",
+  ["result"]
+);
+
+/**
+ * Stable code for a free-text reason: its leading snake_case word
+ * (`opener_duplicate_c: C opener …` → `opener_duplicate_c`), else "other".
+ */
+export function reasonCode(reason: string | undefined): string {
+  const match = reason?.match(/^([a-z][a-z0-9_]*)(?::|$)/);
+  return match ? match[1] : "other";
+}
+
+/** Count one finished Method 2 line translation. */
+export function recordLineAudit(audit: LineAudit): void {
+  lineAudits.inc({ mode: audit.mode, gate: audit.gate.pass ? "pass" : "fail" });
+
+  if (!audit.gate.pass) {
+    const constraints = audit.gate.failedConstraints?.length
+      ? audit.gate.failedConstraints
+      : [reasonCode(audit.gate.reason)];
+    for (const constraint of constraints) gateFailures.inc({ constraint });
+  }
+
+  if (audit.phase1 && !audit.phase1.pass) {
+    const checks = audit.phase1.failed?.length ? audit.phase1.failed : ["other"];
+    for (const check of checks) phase1Failures.inc({ check });
+  }
+
+  if (audit.glossary) {
+    glossaryChecks.inc({ result: audit.glossary.pass ? "pass" : "fail" });
+  }
+
+  if (audit.regen?.performed) {
+    lineRegenerations.inc({ strategy: audit.regen.strategy ?? "single" });
+  }
+}
@@ -10,8 +10,23 @@
  *
  * Sampling: high-cardinality events are sampled at a configurable rate
  * to keep write volume bounded.
+ *
+ * Every event also updates the scrape registry (`./metrics`), unsampled and
+ * regardless of ENABLE_SCALABILITY_METRICS; that part is in-memory only.
  */
 
+import { withUsageScope } from "@/lib/usage/context";
+import {
+  cacheLookups,
+  llmTokens,
+  queueDeadLetters,
+  queueDepth,
+  queueOldestAge,
+  queueReenqueues,
+  routeDuration,
+  tickLockSkips,
+} from "./metrics";
+
 const ENABLED = process.env.ENABLE_SCALABILITY_METRICS === "1";
 const FLUSH_INTERVAL_MS = parseInt(
   process.env.METRICS_FLUSH_INTERVAL_MS || "60000",
@@ -75,6 +90,10 @@ export function recordRouteLatency(
   latencyMs: number,
   isError: boolean
 ): void {
+  routeDuration.observe(
+    { route: routeClass, outcome: isError ? "error" : "ok" },
+    latencyMs / 1000
+  );
   if (!ENABLED) return;
   if (!shouldSample()) return;
 
@@ -95,6 +114,8 @@ export function recordTokenUsage(
   promptTokens: number,
   completionTokens: number
 ): void {
+  llmTokens.observe({ call_type: routeClass, kind: "prompt" }, promptTokens);
+  llmTokens.observe({ call_type: routeClass, kind: "completion" }, completionTokens);
   if (!ENABLED) return;
 
   const w = getWindow();
@@ -112,6 +133,8 @@ export function recordQueueSnapshot(
   depth: number,
   oldestAgeMs: number
 ): void {
+  queueDepth.set({ queue: "main" }, depth);
+  queueOldestAge.set(undefined, oldestAgeMs / 1000);
   if (!ENABLED) return;
 
   const w = getWindow();
@@ -120,27 +143,57 @@ export function recordQueueSnapshot(
 }
 
 export function recordReenqueue(): void {
+  queueReenqueues.inc();
   if (!ENABLED) return;
   getWindow().queue.reenqueueCount++;
 }
 
 export function recordLockSkip(): void {
+  tickLockSkips.inc();
   if (!ENABLED) return;
   getWindow().queue.lockSkipCount++;
 }
 
+/** Registry only; the aggregation window has no dead-letter bucket. */
+export function recordDeadLetter(): void {
+  queueDeadLetters.inc();
+}
+
 export function recordCacheHit(keyFamily: string): void {
+  cacheLookups.inc({ family: keyFamily, result: "hit" });
   if (!ENABLED) return;
   const w = getWindow();
   w.cacheHits.set(keyFamily, (w.cacheHits.get(keyFamily) || 0) + 1);
 }
 
 export function recordCacheMiss(keyFamily: string): void {
+  cacheLookups.inc({ family: keyFamily, result: "miss" });
   if (!ENABLED) return;
   const w = getWindow();
   w.cacheMisses.set(keyFamily, (w.cacheMisses.get(keyFamily) || 0) + 1);
 }
 
+/**
+ * Time a route handler and record its latency under `routeClass`. Responses
+ * with status >= 500 and thrown errors count as errors; the error is rethrown.
+ * The handler also runs in a usage scope for `routeClass`, so the cost ledger
+ * attributes its AI calls to the route.
+ */
+export async function withRouteMetrics<T extends Response>(
+  routeClass: string,
+  handler: () => Promise<T>
+): Promise<T> {
+  const start = Date.now();
+  try {
+    const res = await withUsageScope({ route: routeClass }, handler);
+    recordRouteLatency(routeClass, Date.now() - start, res.status >= 500);
+    return res;
+  } catch (err) {
+    recordRouteLatency(routeClass, Date.now() - start, true);
+    throw err;
+  }
+}
+
 /**
  * Register a flush callback that will be called with aggregated data.
  * The callback is responsible for persisting to the telemetry sink.
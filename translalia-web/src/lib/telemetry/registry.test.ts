@@ -0,0 +1,136 @@
+/**
+ * Tests for the metrics registry's OpenMetrics/Prometheus exposition and the
+ * LineAudit counters.
+ *
+ * Run with: npx vitest run src/lib/telemetry/registry.test.ts
+ */
+
+import { beforeEach, describe, expect, it } from "vitest";
+import type { LineAudit } from "@/lib/ai/audit";
+import {
+  collectMetrics,
+  counter,
+  gauge,
+  histogram,
+  registerCollector,
+  renderMetrics,
+  resetMetrics,
+} from "./registry";
+import { reasonCode, recordLineAudit } from "./metrics";
+
+/** Sample lines of one metric family from a rendered exposition. */
+function samples(text: string, prefix: string): string[] {
+  return text.split("\n").filter((line) => line.startsWith(prefix));
+}
+
+describe("metrics registry", () => {
+  beforeEach(() => resetMetrics());
+
+  it("renders counters with a _total sample and escaped labels", () => {
+    const requests = counter("test_requests", "Requests\nserved", ["path"]);
+    requests.inc({ path: 'a"b\\c' });
+    requests.inc({ path: 'a"b\\c' }, 2);
+    requests.inc({ path: "x" }, -1); // ignored: counters only go up
+
+    const text = renderMetrics();
+    expect(text).toContain("# HELP test_requests Requests\\nserved\n# TYPE test_requests counter\n");
+    expect(samples(text, "test_requests_total")).toEqual(['test_requests_total{path="a\\"b\\\\c"} 3']);
+    expect(text.endsWith("# EOF\n")).toBe(true);
+  });
+
+  it("renders cumulative histogram buckets with count and sum", () => {
+    const latency = histogram("test_latency_seconds", "Latency", ["route"], [1, 0.1, 0.5]);
+    for (const value of [0.05, 0.3, 0.3, 2]) latency.observe({ route: "r" }, value);
+
+    expect(samples(renderMetrics(), "test_latency_seconds_")).toEqual([
+      'test_latency_seconds_bucket{route="r",le="0.1"} 1',
+      'test_latency_seconds_bucket{route="r",le="0.5"} 3',
+      'test_latency_seconds_bucket{route="r",le="1"} 3',
+      'test_latency_seconds_bucket{route="r",le="+Inf"} 4',
+      'test_latency_seconds_count{route="r"} 4',
+      'test_latency_seconds_sum{route="r"} 2.65',
+    ]);
+  });
+
+  it("uses the Prometheus text format on request", () => {
+    counter("test_jobs", "Jobs").inc();
+    gauge("test_depth", "Depth").set(undefined, 7);
+
+    const text = renderMetrics("prometheus");
+    expect(text).toContain("# TYPE test_jobs_total counter\ntest_jobs_total 1\n");
+    expect(text).toContain("# TYPE test_depth gauge\ntest_depth 7\n");
+    expect(text).not.toContain("# EOF");
+  });
+
+  it("returns the existing metric when a name is registered again", () => {
+    counter("test_dupe", "Dupe").inc();
+    counter("test_dupe", "Dupe").inc();
+    expect(samples(renderMetrics(), "test_dupe_total")).toEqual(["test_dupe_total 2"]);
+    expect(() => gauge("test_dupe", "Dupe")).toThrow(/already registered as a counter/);
+  });
+
+  it("runs collectors before rendering and survives a failing one", async () => {
+    const depth = gauge("test_collected", "Collected");
+    registerCollector(() => {
+      throw new Error("redis down");
+    });
+    registerCollector(async () => depth.set(undefined, 4));
+
+    expect(samples(await collectMetrics(), "test_collected")).toEqual(["test_collected 4"]);
+  });
+});
+
+describe("recordLineAudit", () => {
+  beforeEach(() => resetMetrics());
+
+  function audit(overrides: Partial<LineAudit>): LineAudit {
+    return {
+      ts: new Date().toISOString(),
+      threadId: "t1",
+      mode: "balanced",
+      model: "gpt-4o",
+      recipe: { cacheHit: "miss", schemaVersion: "v5" },
+      gate: { pass: true },
+      ...overrides,
+    };
+  }
+
+  it("counts gate results, failed constraints, phase 1, glossary and regen", () => {
+    recordLineAudit(audit({}));
+    recordLineAudit(
+      audit({
+        gate: { pass: false, reason: "opener_duplicate_c: C opener \"I\" matches A" },
+        phase1: { pass: false, failed: ["stance_mismatch"] },
+        glossary: { pass: false, violations: ["B:forbidden:spirit"] },
+        regen: { performed: true, strategy: "salvage" },
+      })
+    );
+    recordLineAudit(audit({ gate: { pass: false, failedConstraints: ["signature", "overlap"] } }));
+
+    const text = renderMetrics();
+    expect(samples(text, "translalia_line_audits_total")).toEqual([
+      'translalia_line_audits_total{mode="balanced",gate="pass"} 1',
+      'translalia_line_audits_total{mode="balanced",gate="fail"} 2',
+    ]);
+    expect(samples(text, "translalia_line_gate_failures_total")).toEqual([
+      'translalia_line_gate_failures_total{constraint="opener_duplicate_c"} 1',
+      'translalia_line_gate_failures_total{constraint="signature"} 1',
+      'translalia_line_gate_failures_total{constraint="overlap"} 1',
+    ]);
+    expect(samples(text, "translalia_line_phase1_failures_total")).toEqual([
+      'translalia_line_phase1_failures_total{check="stance_mismatch"} 1',
+    ]);
+    expect(samples(text, "translalia_line_glossary_checks_total")).toEqual([
+      'translalia_line_glossary_checks_total{result="fail"} 1',
+    ]);
+    expect(samples(text, "translalia_line_regenerations_total")).toEqual([
+      'translalia_line_regenerations_total{strategy="salvage"} 1',
+    ]);
+  });
+
+  it("reduces free-text reasons to a stable code", () => {
+    expect(reasonCode("signature_match_c: C signature matches A")).toBe("signature_match_c");
+    expect(reasonCode("Expected at least 1 variant, got 0")).toBe("other");
+    expect(reasonCode(undefined)).toBe("other");
+  });
+});
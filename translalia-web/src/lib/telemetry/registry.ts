@@ -0,0 +1,223 @@
+/**
+ * Metrics Registry
+ *
+ * Process-wide counters, gauges and histograms with labels, rendered in the
+ * OpenMetrics text format for scraping (see /api/metrics). Values are
+ * cumulative since process start; the scraper keeps the history.
+ *
+ * Metrics are registered once at module load (`counter()`, `gauge()`,
+ * `histogram()`); registering the same name twice returns the existing metric
+ * so hot-reloaded modules don't throw.
+ */
+
+export type Labels = Record<string, string | number | undefined>;
+
+export type ExpositionFormat = "openmetrics" | "prometheus";
+
+export const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface HistogramSeries {
+  buckets: number[];
+  count: number;
+  sum: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  labelNames: string[];
+  buckets?: number[];
+  // Keyed by serialized label values, in labelNames order
+  series: Map<string, { labels: string[]; value: number; histogram?: HistogramSeries }>;
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels | undefined, value: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels | undefined, value: number): void;
+}
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+const families = new Map<string, MetricFamily>();
+const collectors: Array<() => void | Promise<void>> = [];
+
+function register(
+  name: string,
+  help: string,
+  type: MetricType,
+  labelNames: string[],
+  buckets?: number[]
+): MetricFamily {
+  const existing = families.get(name);
+  if (existing) {
+    if (existing.type !== type) {
+      throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+    }
+    return existing;
+  }
+  if (!METRIC_NAME.test(name)) throw new Error(`Invalid metric name: ${name}`);
+  for (const label of labelNames) {
+    if (!LABEL_NAME.test(label) || label === "le") {
+      throw new Error(`Invalid label name for ${name}: ${label}`);
+    }
+  }
+  const family: MetricFamily = { name, help, type, labelNames, buckets, series: new Map() };
+  families.set(name, family);
+  return family;
+}
+
+function seriesFor(family: MetricFamily, labels: Labels | undefined) {
+  const values = family.labelNames.map((label) => String(labels?.[label] ?? ""));
+  const key = JSON.stringify(values);
+  let series = family.series.get(key);
+  if (!series) {
+    series = { labels: values, value: 0 };
+    if (family.buckets) {
+      series.histogram = { buckets: family.buckets.map(() => 0), count: 0, sum: 0 };
+    }
+    family.series.set(key, series);
+  }
+  return series;
+}
+
+export function counter(name: string, help: string, labelNames: string[] = []): Counter {
+  const family = register(name, help, "counter", labelNames);
+  return {
+    inc(labels, value = 1) {
+      if (!(value >= 0)) return; // counters only go up; also drops NaN
+      seriesFor(family, labels).value += value;
+    },
+  };
+}
+
+export function gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+  const family = register(name, help, "gauge", labelNames);
+  return {
+    set(labels, value) {
+      if (!Number.isFinite(value)) return;
+      seriesFor(family, labels).value = value;
+    },
+  };
+}
+
+/** `buckets` are upper bounds, ascending; the +Inf bucket is implicit. */
+export function histogram(
+  name: string,
+  help: string,
+  labelNames: string[],
+  buckets: number[]
+): Histogram {
+  const sorted = [...buckets].sort((a, b) => a - b);
+  const family = register(name, help, "histogram", labelNames, sorted);
+  return {
+    observe(labels, value) {
+      if (!Number.isFinite(value)) return;
+      const series = seriesFor(family, labels).histogram!;
+      // Buckets are stored non-cumulative and summed at render time
+      const index = family.buckets!.findIndex((bound) => value <= bound);
+      if (index >= 0) series.buckets[index] += 1;
+      series.count += 1;
+      series.sum += value;
+    },
+  };
+}
+
+/**
+ * Register a callback run before every scrape, for gauges that are cheaper to
+ * read on demand than to keep updated (e.g. queue lengths in Redis).
+ */
+export function registerCollector(collect: () => void | Promise<void>): void {
+  collectors.push(collect);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatLabels(names: string[], values: string[], extra?: [string, string]): string {
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  if (extra) pairs.push(`${extra[0]}="${escapeLabelValue(extra[1])}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/** Render every registered metric in the given exposition format. */
+export function renderMetrics(format: ExpositionFormat = "openmetrics"): string {
+  const lines: string[] = [];
+
+  for (const family of families.values()) {
+    // OpenMetrics names the counter family without its `_total` suffix
+    const familyName =
+      family.type === "counter" && format === "prometheus"
+        ? `${family.name}_total`
+        : family.name;
+    lines.push(`# HELP ${familyName} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${familyName} ${family.type}`);
+
+    for (const series of family.series.values()) {
+      const labels = formatLabels(family.labelNames, series.labels);
+      if (family.type === "counter") {
+        lines.push(`${family.name}_total${labels} ${formatNumber(series.value)}`);
+      } else if (family.type === "gauge") {
+        lines.push(`${family.name}${labels} ${formatNumber(series.value)}`);
+      } else {
+        const h = series.histogram!;
+        let cumulative = 0;
+        family.buckets!.forEach((bound, i) => {
+          cumulative += h.buckets[i];
+          const le = formatLabels(family.labelNames, series.labels, ["le", formatNumber(bound)]);
+          lines.push(`${family.name}_bucket${le} ${cumulative}`);
+        });
+        const inf = formatLabels(family.labelNames, series.labels, ["le", "+Inf"]);
+        lines.push(`${family.name}_bucket${inf} ${h.count}`);
+        lines.push(`${family.name}_count${labels} ${h.count}`);
+        lines.push(`${family.name}_sum${labels} ${formatNumber(h.sum)}`);
+      }
+    }
+  }
+
+  if (format === "openmetrics") lines.push("# EOF");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Run the registered collectors, then render. A failing collector is logged
+ * and skipped so one unreachable dependency doesn't blank the whole scrape.
+ */
+export async function collectMetrics(format: ExpositionFormat = "openmetrics"): Promise<string> {
+  for (const collect of collectors) {
+    try {
+      await collect();
+    } catch (err) {
+      console.error("[metrics] Collector failed:", err);
+    }
+  }
+  return renderMetrics(format);
+}
+
+/** Clear all recorded values (registrations are kept). For tests. */
+export function resetMetrics(): void {
+  for (const family of families.values()) family.series.clear();
+}
@@ -0,0 +1,221 @@
+/**
+ * Per-line translation traces
+ *
+ * translateLineWithRecipesInternal (Method 2) and translateLineInternal
+ * (Method 1) mark stage boundaries on a LineTraceClock while they run, then
+ * build a LineTrace from their results and persist it to `line_traces`
+ * (fire-and-forget) so the Translation Tuning view can replay the run. The
+ * table keeps the newest runs per line (see the line_traces migration). Set
+ * LINE_TRACES_ENABLED=0 to skip persistence.
+ */
+
+import type { LineAudit } from "@/lib/ai/audit";
+import type { CallUsageByType } from "@/lib/ai/openaiInstrumentation";
+import type { VariantRecipesBundle } from "@/lib/ai/variantRecipes";
+import type { QualityTier } from "@/types/translationJob";
+import type {
+  LineTrace,
+  LineTraceStage,
+  LineTraceStageId,
+  Method1LineTrace,
+  Method2LineTrace,
+} from "@/types/lineTrace";
+
+// =============================================================================
+// Stage Clock
+// =============================================================================
+
+/**
+ * Records stage boundaries relative to the start of a line run. Each mark()
+ * closes the current stage and opens the next one.
+ */
+export class LineTraceClock {
+  private readonly startedAt = Date.now();
+  private stageStartedAt = this.startedAt;
+  private readonly stages: LineTraceStage[] = [];
+
+  mark(id: LineTraceStageId): void {
+    const now = Date.now();
+    this.stages.push({
+      id,
+      startMs: this.stageStartedAt - this.startedAt,
+      durationMs: now - this.stageStartedAt,
+    });
+    this.stageStartedAt = now;
+  }
+
+  snapshot(): { stages: LineTraceStage[]; totalMs: number } {
+    return { stages: [...this.stages], totalMs: Date.now() - this.startedAt };
+  }
+}
+
+// =============================================================================
+// Builder
+// =============================================================================
+
+interface LineTraceContextParams {
+  lineText: string;
+  fullPoem: string;
+  prevLine?: string;
+  nextLine?: string;
+  translationIntent?: string;
+  translationZone?: string;
+}
+
+function traceContext(params: LineTraceContextParams): LineTrace["context"] {
+  return {
+    lineText: params.lineText,
+    prevLine: params.prevLine,
+    nextLine: params.nextLine,
+    poemLineCount: params.fullPoem.split("\n").filter((l) => l.trim()).length,
+    translationIntent: params.translationIntent || undefined,
+    translationZone: params.translationZone || undefined,
+  };
+}
+
+export function buildLineTrace(
+  params: LineTraceContextParams & {
+    audit: LineAudit;
+    clock: LineTraceClock;
+    usage: CallUsageByType;
+    sourceLanguage: string;
+    targetLanguage: string;
+    recipes: VariantRecipesBundle;
+    prompt: LineTrace["prompt"];
+    generation: LineTrace["generation"];
+    fidelity: { pass: boolean; reason?: string };
+    initialVariants: string[];
+    finalVariants: string[];
+    qualityTier: QualityTier;
+  }
+): Method2LineTrace {
+  const { audit, clock, usage } = params;
+  const { stages, totalMs } = clock.snapshot();
+
+  return {
+    version: 1,
+    method: "method-2",
+    threadId: audit.threadId,
+    lineIndex: audit.lineIndex ?? 0,
+    stanzaIndex: audit.stanzaIndex,
+    ts: audit.ts,
+    sourceLanguage: params.sourceLanguage,
+    targetLanguage: params.targetLanguage,
+    context: traceContext(params),
+    audit,
+    recipes: params.recipes.recipes.map((r) => ({
+      label: r.label,
+      archetype: r.archetype,
+      directive: r.directive,
+    })),
+    prompt: params.prompt,
+    generation: params.generation,
+    fidelity: params.fidelity,
+    variants: {
+      initial: params.initialVariants,
+      final: params.finalVariants,
+    },
+    qualityTier: params.qualityTier,
+    usage: {
+      recipe: usage.recipe,
+      "main-gen": usage["main-gen"],
+      regen: usage.regen,
+    },
+    stages,
+    totalMs,
+  };
+}
+
+/**
+ * Method 1 makes a single model call, so its usage is that completion's usage
+ * and its initial and final variants are the same.
+ */
+export function buildMethod1LineTrace(
+  params: LineTraceContextParams & {
+    threadId: string;
+    lineIndex: number;
+    stanzaIndex?: number;
+    clock: LineTraceClock;
+    completionUsage?: {
+      prompt_tokens: number;
+      completion_tokens: number;
+      total_tokens: number;
+    };
+    sourceLanguage: string;
+    targetLanguage: string;
+    model: string;
+    fallbackMode: boolean;
+    validation: Method1LineTrace["validation"];
+    prompt: LineTrace["prompt"];
+    generation: LineTrace["generation"];
+    variants: string[];
+  }
+): Method1LineTrace {
+  const { completionUsage } = params;
+  const { stages, totalMs } = params.clock.snapshot();
+
+  return {
+    version: 1,
+    method: "method-1",
+    threadId: params.threadId,
+    lineIndex: params.lineIndex,
+    stanzaIndex: params.stanzaIndex,
+    ts: new Date().toISOString(),
+    sourceLanguage: params.sourceLanguage,
+    targetLanguage: params.targetLanguage,
+    context: traceContext(params),
+    model: params.model,
+    fallbackMode: params.fallbackMode,
+    validation: params.validation,
+    prompt: params.prompt,
+    generation: params.generation,
+    variants: { initial: params.variants, final: params.variants },
+    usage: completionUsage
+      ? {
+          "main-gen": {
+            calls: 1,
+            promptTokens: completionUsage.prompt_tokens,
+            completionTokens: completionUsage.completion_tokens,
+            totalTokens: completionUsage.total_tokens,
+          },
+        }
+      : {},
+    stages,
+    totalMs,
+  };
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Insert a trace into line_traces. Failures are logged and swallowed so
+ * tracing never breaks a translation.
+ */
+export async function persistLineTrace(trace: LineTrace): Promise<void> {
+  if (process.env.LINE_TRACES_ENABLED === "0") {
+    return;
+  }
+
+  try {
+    // Dynamic import to avoid circular dependencies
+    const { supabaseServer } = await import("@/lib/supabaseServer");
+    const supabase = await supabaseServer();
+
+    const { error } = await supabase.from("line_traces").insert({
+      thread_id: trace.threadId,
+      line_index: trace.lineIndex,
+      trace,
+      created_at: trace.ts,
+    });
+
+    if (error) {
+      console.warn(
+        `[persistLineTrace] Failed to insert trace for thread ${trace.threadId} line ${trace.lineIndex}: ${error.message}`
+      );
+    }
+  } catch (error) {
+    console.warn("[persistLineTrace] Error:", error);
+  }
+}
@@ -6,6 +6,8 @@
  * to enforce strict compliance.
  */
 
+import { variantLabels } from "@/lib/ai/variantCount";
+
 /**
  * JSON Schema for main-gen response format.
  * 
@@ -13,38 +15,41 @@
  * Phase 1 validation (anchors, anchor_realizations, self-report metadata) removed.
  * 
  * This schema matches exactly what the code uses downstream:
- * - variants: required array of exactly 3 variants
- * - Each variant has: label, text only
+ * - variants: required array of exactly `variantCount` variants
+ * - Each variant has: label (A, B, C, …), text only
  * 
  * Note: `translation` field is NOT included (backward compat handled in parser, not schema)
  */
-export const MAIN_GEN_JSON_SCHEMA = {
-  type: "object",
-  additionalProperties: false,
-  properties: {
-    variants: {
-      type: "array",
-      minItems: 3,
-      maxItems: 3,
-      items: {
-        type: "object",
-        additionalProperties: false,
-        required: ["label", "text"],
-        properties: {
-          label: {
-            type: "string",
-            enum: ["A", "B", "C"],
-          },
-          text: {
-            type: "string",
-            minLength: 1,
+export function buildMainGenJsonSchema(variantCount: number) {
+  const labels = variantLabels(variantCount);
+  return {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      variants: {
+        type: "array",
+        minItems: labels.length,
+        maxItems: labels.length,
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["label", "text"],
+          properties: {
+            label: {
+              type: "string",
+              enum: labels,
+            },
+            text: {
+              type: "string",
+              minLength: 1,
+            },
           },
         },
       },
     },
-  },
-  required: ["variants"],
-} as const;
+    required: ["variants"],
+  } as const;
+}
 
 /**
  * Check if strict JSON schema is enabled for a given model.
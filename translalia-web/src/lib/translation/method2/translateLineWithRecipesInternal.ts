@@ -7,13 +7,20 @@
  *
  * Implements the full P6-P8 Recipe-Driven Prismatic Variants pipeline:
  * - Generates variants using sophisticated recipe system with lens configurations
+ *   (one per recipe; the thread's variant count sets how many)
  * - Runs distinctness gate to ensure diversity
+ * - Enforces the project glossary (required renderings, do-not-translate, forbidden words)
  * - Regenerates variants if needed using feature-contrastive constraints
  * - Post-processes to add word-level alignment for Workshop UX compatibility
+ * - Records a per-line trace (stages, tokens, gate/regen) for Translation Tuning
  * - Returns identical structure to /translate-line for seamless integration
  */
 
-import { getClientForModel, deepSeekRequestExtras } from "@/lib/ai/openai";
+import {
+  getClientForModel,
+  providerIdForModel,
+  providerRequestExtras,
+} from "@/lib/ai/openai";
 import { buildSamplingParams } from "@/lib/ai/buildSamplingParams";
 import {
   chatCompletionsWithRetry,
@@ -40,6 +47,7 @@ import {
   makeLineAuditBase,
   attachPhase1Metrics,
   attachGateMetrics,
+  attachGlossaryMetrics,
   attachRegenMetrics,
   auditToLogLine,
   pushAuditToThreadState,
@@ -53,6 +61,17 @@ import {
   type Anchor,
 } from "@/lib/ai/anchorsValidation";
 import { checkFidelity } from "@/lib/ai/fidelityGate";
+import { checkGlossary, selectGlossaryForLine } from "@/lib/ai/glossaryGate";
+import { loadGlossaryForThread } from "@/lib/glossary/store";
+import { recordLineAudit } from "@/lib/telemetry/metrics";
+import {
+  CORE_VARIANT_COUNT,
+  resolveVariantCount,
+  variantLabelAt,
+  type VariantLabel,
+} from "@/lib/ai/variantCount";
+import type { GlossaryEntry } from "@/types/glossary";
+import type { SectionContext } from "@/lib/poem/sections";
 import {
   computeAnchorRealizations,
   compareRealizations,
@@ -66,13 +85,19 @@ import { maskPrompts } from "@/server/audit/mask";
 import { insertPromptAudit } from "@/server/audit/insertPromptAudit";
 import { enqueueAlignmentJob } from "@/lib/workshop/alignmentQueue";
 import type { LineQualityMetadata } from "@/types/translationJob";
-import { trackCallStart, trackCallEnd } from "@/lib/ai/openaiInstrumentation";
+import {
+  trackCallStart,
+  trackCallEnd,
+  collectCallUsage,
+  type CallUsageByType,
+} from "@/lib/ai/openaiInstrumentation";
 import {
   shouldUseStrictSchema,
   shouldFallbackToJsonObject,
   isSchemaUnsupportedError,
-  MAIN_GEN_JSON_SCHEMA,
+  buildMainGenJsonSchema,
 } from "./mainGenSchema";
+import { LineTraceClock, buildLineTrace, persistLineTrace } from "@/lib/translation/lineTrace";
 
 export interface TranslateLineWithRecipesOptions {
   threadId: string;
@@ -86,9 +111,13 @@ export interface TranslateLineWithRecipesOptions {
   sourceLanguage: string;
   targetLanguage: string;
   model?: string;
+  // Project glossary (loaded from the thread's project when omitted)
+  glossary?: GlossaryEntry[];
   // Audit fields (optional, for background translations)
   auditUserId?: string;
   auditProjectId?: string | null;
+  // Long-form works: where the line sits (see lib/poem/sections)
+  sectionContext?: SectionContext | null;
 }
 
 /**
@@ -99,58 +128,67 @@ export interface TranslateLineWithRecipesResponse
   qualityMetadata?: LineQualityMetadata;
 }
 
+/** Nominal literalness of A, B, C; later labels repeat the cycle. */
+const RECIPE_LITERALNESS = [0.8, 0.5, 0.2] as const;
+
 /**
  * Core Method 2 translation pipeline
  */
-export async function translateLineWithRecipesInternal({
-  threadId,
-  lineIndex,
-  lineText,
-  fullPoem,
-  stanzaIndex,
-  prevLine,
-  nextLine,
-  guideAnswers,
-  sourceLanguage,
-  targetLanguage,
-  model: modelOverride,
-  auditUserId,
-  auditProjectId,
-}: TranslateLineWithRecipesOptions): Promise<TranslateLineWithRecipesResponse> {
+export async function translateLineWithRecipesInternal(
+  options: TranslateLineWithRecipesOptions
+): Promise<TranslateLineWithRecipesResponse> {
+  // Token usage of every call made for this line, recorded in the line trace
+  const usage: CallUsageByType = {};
+  return collectCallUsage(usage, () => runRecipePipeline(options, usage));
+}
+
+async function runRecipePipeline(
+  {
+    threadId,
+    lineIndex,
+    lineText,
+    fullPoem,
+    stanzaIndex,
+    prevLine,
+    nextLine,
+    guideAnswers,
+    sourceLanguage,
+    targetLanguage,
+    model: modelOverride,
+    glossary: glossaryOverride,
+    auditUserId,
+    auditProjectId,
+    sectionContext,
+  }: TranslateLineWithRecipesOptions,
+  usage: CallUsageByType
+): Promise<TranslateLineWithRecipesResponse> {
   console.log("[HIT] translateLineWithRecipesInternal");
 
+  const variantCount = resolveVariantCount(guideAnswers.variantCount);
+
   // Handle empty lines
   if (!lineText.trim()) {
     const emptyResponse: LineTranslationResponse = {
       lineOriginal: lineText,
-      translations: [
-        {
-          variant: 1,
-          fullText: "",
-          words: [],
-          metadata: { literalness: 1.0, characterCount: 0 },
-        },
-        {
-          variant: 2,
-          fullText: "",
-          words: [],
-          metadata: { literalness: 1.0, characterCount: 0 },
-        },
-        {
-          variant: 3,
-          fullText: "",
-          words: [],
-          metadata: { literalness: 1.0, characterCount: 0 },
-        },
-      ],
+      translations: Array.from({ length: variantCount }, (_, i) => ({
+        variant: i + 1,
+        fullText: "",
+        words: [],
+        metadata: { literalness: 1.0, characterCount: 0 },
+      })),
       modelUsed: modelOverride ?? TRANSLATOR_MODEL,
     };
     return emptyResponse;
   }
 
+  const traceClock = new LineTraceClock();
+
   // Determine translation range mode
   const mode: TranslationRangeMode =
     guideAnswers.translationRangeMode ?? "balanced";
+  const glossary = glossaryOverride ?? (await loadGlossaryForThread(threadId));
+  const lineGlossary = selectGlossaryForLine(glossary, lineText);
+  traceClock.mark("context");
 
   // Get or create variant recipes (cached per thread + context)
   let recipes: VariantRecipesBundle;
@@ -164,6 +202,7 @@ export async function translateLineWithRecipesInternal({
         fullPoem,
         sourceLanguage,
         targetLanguage,
+        glossary,
       },
       mode
     );
@@ -199,6 +238,9 @@ export async function translateLineWithRecipesInternal({
   if (translationIntent) {
     contextParts.push(`Translation Intent: ${translationIntent}`);
   }
+  if (sectionContext) {
+    contextParts.push(sectionContext.summary);
+  }
 
   const contextStr = contextParts.length > 0 ? contextParts.join("\n") : "";
 
@@ -209,6 +251,7 @@ export async function translateLineWithRecipesInternal({
       recipes,
       personality,
       context: contextStr,
+      glossary: lineGlossary,
     });
 
   // ISS-010: Prompt size instrumentation
@@ -234,6 +277,7 @@ export async function translateLineWithRecipesInternal({
   }
 
   const auditMask = maskPrompts(systemPrompt, userPrompt);
+  traceClock.mark("prompt");
 
   // Generate initial variants
   const model =
@@ -281,7 +325,7 @@ export async function translateLineWithRecipesInternal({
       try {
         // ISS-012: Use safe sampling params with retry-on-unsupported-param
         completion = await chatCompletionsWithRetry(
-          getClientForModel(model),
+          getClientForModel(model, "main_gen"),
           {
             model,
             ...buildSamplingParams(model, { temperature: 0.7 }),
@@ -290,11 +334,11 @@ export async function translateLineWithRecipesInternal({
               json_schema: {
                 name: "main_gen_response",
                 strict: true,
-                schema: MAIN_GEN_JSON_SCHEMA,
+                schema: buildMainGenJsonSchema(recipes.recipes.length),
               },
             },
             ...getTokenLimitParam(model, mainGenMaxOutputTokens),
-            ...deepSeekRequestExtras(model),
+            ...providerRequestExtras(model),
             messages: [
               { role: "system", content: systemPrompt },
               { role: "user", content: userPrompt },
@@ -333,13 +377,13 @@ export async function translateLineWithRecipesInternal({
           // ISS-017: Pass instrumentation for OpenAI call tracking
           // ISS-018: Pass metadata for raw output logging
           completion = await chatCompletionsWithRetry(
-            getClientForModel(model),
+            getClientForModel(model, "main_gen"),
             {
               model,
               ...buildSamplingParams(model, { temperature: 0.7 }),
               response_format: { type: "json_object" },
               ...getTokenLimitParam(model, mainGenMaxOutputTokens),
-              ...deepSeekRequestExtras(model),
+              ...providerRequestExtras(model),
               messages: [
                 { role: "system", content: systemPrompt },
                 { role: "user", content: userPrompt },
@@ -371,13 +415,13 @@ export async function translateLineWithRecipesInternal({
       // ISS-017: Pass instrumentation for OpenAI call tracking
       // ISS-018: Pass metadata for raw output logging
       completion = await chatCompletionsWithRetry(
-        getClientForModel(model),
+        getClientForModel(model, "main_gen"),
         {
           model,
           ...buildSamplingParams(model, { temperature: 0.7 }),
           response_format: { type: "json_object" },
           ...getTokenLimitParam(model, mainGenMaxOutputTokens),
-          ...deepSeekRequestExtras(model),
+          ...providerRequestExtras(model),
           messages: [
             { role: "system", content: systemPrompt },
             { role: "user", content: userPrompt },
@@ -478,7 +522,7 @@ export async function translateLineWithRecipesInternal({
       projectId: auditProjectId ?? null,
       threadId,
       stage: "workshop-translate-line-recipes",
-      provider: "openai",
+      provider: providerIdForModel(model),
       model,
       params: {
         lineIndex,
@@ -535,7 +579,9 @@ export async function translateLineWithRecipesInternal({
   const rawVariants = responseObj.variants || [];
   const anchors = responseObj.anchors;
 
-  if (rawVariants.length < 3) {
+  // One variant per recipe (the recipes bundle is sized to the variant count)
+  const expectedVariants = recipes.recipes.length;
+  if (rawVariants.length < expectedVariants) {
     console.error(
       "[translateLineWithRecipesInternal] Insufficient variants:",
       rawVariants.length
@@ -552,8 +598,8 @@ export async function translateLineWithRecipesInternal({
       c_world_shift_summary?: string;
       c_subject_form_used?: string;
     }
-  > = rawVariants.slice(0, 3).map((v, i) => {
-    const label = (v.label || ["A", "B", "C"][i]) as "A" | "B" | "C";
+  > = rawVariants.slice(0, expectedVariants).map((v, i) => {
+    const label = (v.label || variantLabelAt(i)) as VariantLabel;
     const text = v.text ?? v.translation ?? "";
     
     // ISS-014: Compute c_subject_form_used locally from Variant C text
@@ -614,7 +660,7 @@ export async function translateLineWithRecipesInternal({
     const text = variant.text.trim();
     
     // Reject if starts with variant label
-    if (/^(variant\s+[abc]:|variant\s+[abc]\s*[:\-])/i.test(text)) {
+    if (/^(variant\s+[a-f]:|variant\s+[a-f]\s*[:\-])/i.test(text)) {
       throw new Error(`Variant ${variant.label} contains label prefix: "${text.slice(0, 50)}"`);
     }
     
@@ -636,6 +682,9 @@ export async function translateLineWithRecipesInternal({
     }
   }
 
+  const initialVariantTexts = variants.map((v) => v.text);
+  traceClock.mark("generation");
+
   // ========================================================================
   // FIDELITY GATE: Meaning Preservation (cheap, per-variant checks)
   // ========================================================================
@@ -670,6 +719,17 @@ export async function translateLineWithRecipesInternal({
     }
   }
 
+  // ========================================================================
+  // GLOSSARY GATE: Project terminology (blocking — routes to regen)
+  // ========================================================================
+  const glossaryResult = checkGlossary(lineText, variants, lineGlossary);
+
+  if (!glossaryResult.pass) {
+    console.log(
+      `[translateLineWithRecipesInternal] Glossary Gate failed: ${glossaryResult.reason}`
+    );
+  }
+
   // ========================================================================
   // PHASE 1 VALIDATION: Anchors + Self-Report Metadata (skipped if no anchors)
   // ========================================================================
@@ -687,7 +747,7 @@ export async function translateLineWithRecipesInternal({
     if (!anchorsCheck.valid) {
       phase1FailureReason = `anchors_invalid: ${anchorsCheck.reason}`;
       // Prefer regenerating C (most likely to have anchor issues), then B, then A
-      phase1WorstIndex = 2;
+      phase1WorstIndex = Math.min(CORE_VARIANT_COUNT, variants.length) - 1;
 
       if (process.env.DEBUG_GATE === "1" || process.env.DEBUG_PHASE1 === "1") {
         console.log("[DEBUG_PHASE1][anchors.invalid]", {
@@ -841,10 +901,16 @@ export async function translateLineWithRecipesInternal({
   // PHASE 2: Initial validation results
   // ========================================================================
   // Run distinctness gate (mode-scaled) - Phase 2
-  // Only run if Phase 1 passed (to avoid double regeneration)
+  // Only run if Phase 1 and the glossary gate passed (to avoid double regeneration)
   console.time(`[TIMING][line=${lineIndex}] gate`);
   const initialGateResult = phase1FailureReason
     ? { pass: false, worstIndex: phase1WorstIndex, reason: phase1FailureReason }
+    : !glossaryResult.pass
+    ? {
+        pass: false,
+        worstIndex: glossaryResult.worstIndex ?? null,
+        reason: glossaryResult.reason,
+      }
     : checkDistinctness(variants, {
         mode,
         targetLanguage,
@@ -881,7 +947,7 @@ export async function translateLineWithRecipesInternal({
   let actualRegenSampleCount: number | undefined;
   let actualRegenHardPassCount: number | undefined;
   let actualRegenWorstIndex: number | undefined;
-  let actualRegenVariantLabel: "A" | "B" | "C" | undefined;
+  let actualRegenVariantLabel: VariantLabel | undefined;
 
   // Post-regen state (only set if regen happens)
   let postRegen: {
@@ -897,7 +963,7 @@ export async function translateLineWithRecipesInternal({
 
     if (label && recipeForLabel) {
       try {
-        // Build fixed variants array (other two variants that passed)
+        // Build fixed variants array (the other variants, which passed)
         const fixedVariants = variants
           .filter((_, i) => i !== idx)
           .map((v) => ({
@@ -929,6 +995,7 @@ export async function translateLineWithRecipesInternal({
             prevLine,
             nextLine,
             stancePlanSubjectForm,
+            glossary: lineGlossary,
           },
           anchors || [],
           initial.gateResult.reason || "distinctness_check_failed",
@@ -1026,6 +1093,8 @@ export async function translateLineWithRecipesInternal({
     }
   }
 
+  traceClock.mark("gates");
+
   // ========================================================================
   // PHASE 3.5: Finalize results - single source of truth
   // ========================================================================
@@ -1037,15 +1106,18 @@ export async function translateLineWithRecipesInternal({
   const finalVariants = postRegen?.variants ?? initial.variants;
   const finalGateResult = postRegen?.gateResult ?? initial.gateResult;
   const finalPhase1Result = initial.phase1Result; // Phase 1 doesn't change after regen
+  const finalGlossaryResult = postRegen
+    ? checkGlossary(lineText, finalVariants, lineGlossary)
+    : glossaryResult;
 
   // Compute quality tier based on FINAL results
-  // pass: phase1 pass AND final gate pass
+  // pass: phase1 pass AND final gate pass AND glossary respected
   // salvage: phase1 pass BUT final gate failed (even after regen)
   // salvage: phase1 failed BUT translations are usable (relaxed validation)
   let qualityTier: "pass" | "salvage" | "failed";
   if (finalPhase1Result?.pass) {
     // Phase 1 passed
-    if (finalGateResult.pass) {
+    if (finalGateResult.pass && finalGlossaryResult.pass) {
       qualityTier = "pass"; // All checks passed
     } else {
       qualityTier = "salvage"; // Phase 1 passed but gate failed (even after regen)
@@ -1089,7 +1161,7 @@ export async function translateLineWithRecipesInternal({
   // });
 
   // Create empty alignments for now (will be filled by background worker)
-  const alignments: AlignedWord[][] = [[], [], []];
+  const alignments: AlignedWord[][] = finalVariants.map(() => []);
 
   // ========================================================================
   // PHASE 4: AUDIT LOGGING + DEBUG OUTPUT
@@ -1116,6 +1188,11 @@ export async function translateLineWithRecipesInternal({
   // Attach gate metrics - use FINAL result only (fixes the bug!)
   attachGateMetrics(audit, finalGateResult);
 
+  // Attach glossary results - only when the project has glossary entries
+  if (glossary.length > 0) {
+    attachGlossaryMetrics(audit, finalGlossaryResult);
+  }
+
   // Attach regen metrics (if regeneration was performed)
   // Use FINAL gate result reason (after recheck if regen happened)
   if (actualRegenPerformed) {
@@ -1131,6 +1208,8 @@ export async function translateLineWithRecipesInternal({
     attachRegenMetrics(audit, regenInfo);
   }
 
+  recordLineAudit(audit);
+
   // Log audit (if DEBUG_AUDIT=1)
   if (process.env.DEBUG_AUDIT === "1") {
     console.log("[AUDIT]", auditToLogLine(audit));
@@ -1146,40 +1225,56 @@ export async function translateLineWithRecipesInternal({
     });
   }
 
+  traceClock.mark("output");
+  persistLineTrace(
+    buildLineTrace({
+      audit,
+      clock: traceClock,
+      usage,
+      lineText,
+      fullPoem,
+      prevLine,
+      nextLine,
+      sourceLanguage,
+      targetLanguage,
+      translationIntent,
+      translationZone,
+      recipes,
+      prompt: {
+        systemChars: systemPrompt.length,
+        userChars: userPrompt.length,
+        userExcerpt:
+          typeof auditMask.promptUserMasked === "string"
+            ? auditMask.promptUserMasked
+            : JSON.stringify(auditMask.promptUserMasked),
+      },
+      generation: {
+        temperature: isGpt5 ? undefined : 0.7,
+        finishReason: completion.choices[0]?.finish_reason ?? undefined,
+        strictSchema: strictSchemaSucceeded,
+      },
+      fidelity: { pass: fidelityResult.pass, reason: fidelityResult.reason },
+      initialVariants: initialVariantTexts,
+      finalVariants: finalVariants.map((v) => v.text),
+      qualityTier,
+    })
+  ).catch(() => undefined);
+
   // Build final response (matching LineTranslationResponse structure)
   // Note: words arrays are empty - alignment will be added by background worker
   // Use FINAL variants (after regen if it happened)
   const result: TranslateLineWithRecipesResponse = {
     lineOriginal: lineText,
-    translations: [
-      {
-        variant: 1,
-        fullText: finalVariants[0]?.text || "",
-        words: alignments[0] || [], // Empty - will be filled by alignment worker
-        metadata: {
-          literalness: 0.8, // Recipe A typically more literal
-          characterCount: finalVariants[0]?.text.length || 0,
-        },
-      },
-      {
-        variant: 2,
-        fullText: finalVariants[1]?.text || "",
-        words: alignments[1] || [], // Empty - will be filled by alignment worker
-        metadata: {
-          literalness: 0.5, // Recipe B typically balanced
-          characterCount: finalVariants[1]?.text.length || 0,
-        },
-      },
-      {
-        variant: 3,
-        fullText: finalVariants[2]?.text || "",
-        words: alignments[2] || [], // Empty - will be filled by alignment worker
-        metadata: {
-          literalness: 0.2, // Recipe C typically more creative
-          characterCount: finalVariants[2]?.text.length || 0,
-        },
+    translations: finalVariants.map((v, i) => ({
+      variant: i + 1,
+      fullText: v.text || "",
+      words: alignments[i] || [], // Empty - will be filled by alignment worker
+      metadata: {
+        // Recipe A typically more literal, C more creative
+        literalness: RECIPE_LITERALNESS[i % RECIPE_LITERALNESS.length],
+        characterCount: v.text.length || 0,
       },
-    ],
+    })),
     modelUsed: model,
     qualityMetadata, // Include quality metadata in response (uses FINAL results)
   };
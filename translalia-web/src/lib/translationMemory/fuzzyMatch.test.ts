@@ -0,0 +1,52 @@
+/**
+ * Tests for translation memory match scoring: exact and near-exact lines get
+ * the classic 100/99 percentages, edits score proportionally, and ranking
+ * keeps the best match per translation.
+ *
+ * Run with: npx vitest run src/lib/translationMemory/fuzzyMatch.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { matchPercent, normalizeSegment, rankMatches } from "./fuzzyMatch";
+
+describe("translation memory fuzzy matching", () => {
+  it("normalizes case, punctuation and spacing", () => {
+    expect(normalizeSegment("  Caminante, no hay  camino…  ")).toBe(
+      "caminante no hay camino"
+    );
+  });
+
+  it("scores identical and near-identical lines as exact matches", () => {
+    expect(matchPercent("Caminante, no hay camino", "Caminante, no hay camino")).toBe(100);
+    expect(matchPercent("caminante no hay camino", "Caminante, no hay camino.")).toBe(99);
+    expect(matchPercent("", "")).toBe(0);
+  });
+
+  it("scores edits by character similarity, below exact", () => {
+    const percent = matchPercent(
+      "se hace camino al andar",
+      "se hace el camino al andar"
+    );
+    expect(percent).toBeGreaterThan(80);
+    expect(percent).toBeLessThan(99);
+    expect(matchPercent("se hace camino al andar", "golpe a golpe")).toBeLessThan(40);
+  });
+
+  it("ranks matches, dropping weak ones and duplicate translations", () => {
+    const ranked = rankMatches(
+      "Caminante, no hay camino",
+      [
+        { sourceText: "Caminante no hay camino", targetText: "Wanderer, there is no road" },
+        { sourceText: "Caminante, no hay camino", targetText: "Wanderer, there is no road" },
+        { sourceText: "Caminantes, no hay caminos", targetText: "Walkers, there are no roads" },
+        { sourceText: "verso por verso", targetText: "line by line" },
+      ],
+      { minPercent: 70, limit: 3 }
+    );
+
+    expect(ranked.map((m) => [m.targetText, m.matchPercent])).toEqual([
+      ["Wanderer, there is no road", 100],
+      ["Walkers, there are no roads", 92],
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Translation Memory - fuzzy match scoring
+ *
+ * Classic TM percentages: 100 for an identical source line, 99 when only case,
+ * punctuation or spacing differ, otherwise character edit similarity of the
+ * normalized lines (capped at 98 so only real matches read as exact).
+ */
+
+/** Default cut-off below which matches are not suggested. */
+export const DEFAULT_MIN_MATCH_PERCENT = 70;
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace. Also what
+ * `translation_memory.source_norm` stores for trigram lookups.
+ */
+export function normalizeSegment(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  let prev = Array.from({ length: right.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= left.length; i += 1) {
+    const curr = [i];
+    for (let j = 1; j <= right.length; j += 1) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1)
+      );
+    }
+    prev = curr;
+  }
+  return prev[right.length];
+}
+
+/**
+ * Match percentage (0-100) between a new source line and a remembered one.
+ */
+export function matchPercent(source: string, remembered: string): number {
+  if (source.trim() === remembered.trim() && source.trim() !== "") return 100;
+
+  const a = normalizeSegment(source);
+  const b = normalizeSegment(remembered);
+  if (!a || !b) return 0;
+  if (a === b) return 99;
+
+  const longest = Math.max(Array.from(a).length, Array.from(b).length);
+  const similarity = 1 - levenshtein(a, b) / longest;
+  return Math.min(98, Math.max(0, Math.floor(similarity * 100)));
+}
+
+/**
+ * Score candidates against `source`, drop those under `minPercent`, keep the
+ * best-scoring entry per distinct translation and return the top `limit`.
+ */
+export function rankMatches<T extends { sourceText: string; targetText: string }>(
+  source: string,
+  candidates: T[],
+  { minPercent = DEFAULT_MIN_MATCH_PERCENT, limit = 3 } = {}
+): Array<T & { matchPercent: number }> {
+  const best = new Map<string, T & { matchPercent: number }>();
+
+  for (const candidate of candidates) {
+    const percent = matchPercent(source, candidate.sourceText);
+    if (percent < minPercent) continue;
+
+    const key = candidate.targetText.trim();
+    const existing = best.get(key);
+    if (!existing || percent > existing.matchPercent) {
+      best.set(key, { ...candidate, matchPercent: percent });
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.matchPercent - a.matchPercent)
+    .slice(0, limit);
+}
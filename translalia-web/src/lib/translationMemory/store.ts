@@ -0,0 +1,124 @@
+/**
+ * Translation Memory - persistence
+ *
+ * Records saved lines into `translation_memory` and looks up fuzzy matches
+ * through the `translation_memory_search` RPC (trigram prefilter, scored by
+ * fuzzyMatch.ts). Both take the caller's Supabase client so RLS scopes every
+ * read and write to that user.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  TranslationMemoryMatch,
+  TranslationMemoryOrigin,
+} from "@/types/translationMemory";
+import {
+  DEFAULT_MIN_MATCH_PERCENT,
+  normalizeSegment,
+  rankMatches,
+} from "./fuzzyMatch";
+
+/** Trigram similarity floor for candidates before percentage scoring. */
+const CANDIDATE_MIN_SIMILARITY = 0.3;
+const CANDIDATES_PER_SEGMENT = 10;
+
+interface SearchRow {
+  id: string;
+  thread_id: string | null;
+  thread_title: string | null;
+  line_index: number | null;
+  source_text: string;
+  target_text: string;
+  origin: TranslationMemoryOrigin;
+  updated_at: string;
+}
+
+export interface TranslationMemoryEntry {
+  userId: string;
+  threadId: string;
+  lineIndex: number;
+  sourceText: string;
+  targetText: string;
+  origin: TranslationMemoryOrigin;
+}
+
+/**
+ * Remember a saved line, replacing any earlier save of the same line.
+ * Never throws: the line itself is already saved.
+ */
+export async function recordTranslationMemory(
+  sb: SupabaseClient,
+  entry: TranslationMemoryEntry
+): Promise<void> {
+  const sourceNorm = normalizeSegment(entry.sourceText);
+  if (!sourceNorm || !entry.targetText.trim()) return;
+
+  const { error } = await sb.from("translation_memory").upsert(
+    {
+      user_id: entry.userId,
+      thread_id: entry.threadId,
+      line_index: entry.lineIndex,
+      source_text: entry.sourceText.trim(),
+      source_norm: sourceNorm,
+      target_text: entry.targetText.trim(),
+      origin: entry.origin,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id,thread_id,line_index" }
+  );
+
+  if (error) {
+    console.warn("[translationMemory] Failed to record line:", error.message);
+  }
+}
+
+/**
+ * Fuzzy matches for each segment (same order), excluding lines saved in
+ * `excludeThreadId`.
+ */
+export async function findTranslationMemoryMatches(
+  sb: SupabaseClient,
+  segments: string[],
+  options: { excludeThreadId?: string; minPercent?: number; limit?: number } = {}
+): Promise<TranslationMemoryMatch[][]> {
+  const { minPercent = DEFAULT_MIN_MATCH_PERCENT, limit = 3 } = options;
+  const bySegment = new Map<string, Promise<TranslationMemoryMatch[]>>();
+
+  const lookup = async (segment: string): Promise<TranslationMemoryMatch[]> => {
+    const sourceNorm = normalizeSegment(segment);
+    if (!sourceNorm) return [];
+
+    const { data, error } = await sb.rpc("translation_memory_search", {
+      p_source_norm: sourceNorm,
+      p_exclude_thread: options.excludeThreadId ?? null,
+      p_min_similarity: CANDIDATE_MIN_SIMILARITY,
+      p_limit: CANDIDATES_PER_SEGMENT,
+    });
+    if (error) {
+      throw new Error(`[translationMemory] Search failed: ${error.message}`);
+    }
+
+    const candidates = ((data ?? []) as SearchRow[]).map((row) => ({
+      id: row.id,
+      threadId: row.thread_id,
+      threadTitle: row.thread_title,
+      lineIndex: row.line_index,
+      sourceText: row.source_text,
+      targetText: row.target_text,
+      origin: row.origin,
+      updatedAt: row.updated_at,
+    }));
+    return rankMatches(segment, candidates, { minPercent, limit });
+  };
+
+  return Promise.all(
+    segments.map((segment) => {
+      let pending = bySegment.get(segment);
+      if (!pending) {
+        pending = lookup(segment);
+        bySegment.set(segment, pending);
+      }
+      return pending;
+    })
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * Tests for AI cost accounting: price lookup and cost estimates, budget
+ * defaults and the block/downgrade decision, and metered clients recording
+ * usage against the current scope.
+ *
+ * Run with: npx vitest run src/lib/usage/budget.test.ts
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import type OpenAI from "openai";
+import type { BudgetStatus } from "@/types/usage";
+
+const store = vi.hoisted(() => ({
+  insertUsageEvent: vi.fn(async () => {}),
+  loadBudgetState: vi.fn(async () => ({ spentUsd: 0 })),
+}));
+
+vi.mock("./store", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./store")>()),
+  insertUsageEvent: store.insertUsageEvent,
+  loadBudgetState: store.loadBudgetState,
+}));
+
+import { estimateCostUsd, priceForModel } from "./pricing";
+import {
+  BudgetExceededError,
+  budgetDefaults,
+  decideBudgetModel,
+  requireAiBudget,
+  resetBudgetCache,
+} from "./budget";
+import { withUsageScope } from "./context";
+import { meterClient, usageFromResult } from "./metering";
+
+const ENV_KEYS = [
+  "MODEL_PRICES_JSON",
+  "AI_MONTHLY_BUDGET_USD",
+  "AI_BUDGET_ACTION",
+  "LLM_PROVIDER",
+] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+  resetBudgetCache();
+  store.insertUsageEvent.mockClear();
+  store.loadBudgetState.mockReset();
+  store.loadBudgetState.mockResolvedValue({ spentUsd: 0 });
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+function status(overrides: Partial<BudgetStatus> = {}): BudgetStatus {
+  return {
+    month: "2026-10-01",
+    limitUsd: 10,
+    spentUsd: 12,
+    action: "downgrade",
+    exceeded: true,
+    ...overrides,
+  };
+}
+
+describe("pricing", () => {
+  it("prices dated snapshots by their longest matching prefix", () => {
+    expect(priceForModel("gpt-4o-mini-2024-07-18")).toEqual(priceForModel("gpt-4o-mini"));
+    expect(priceForModel("gpt-4o-2024-08-06")).toEqual(priceForModel("gpt-4o"));
+    expect(priceForModel("deepseek-v4-flash")?.output).toBe(0.42);
+    expect(priceForModel("some-unknown-model")).toBeNull();
+  });
+
+  it("bills cached prompt tokens at the cached rate", () => {
+    const cost = estimateCostUsd("gpt-4o", {
+      promptTokens: 1_000_000,
+      cachedPromptTokens: 400_000,
+      completionTokens: 100_000,
+    });
+    expect(cost).toBeCloseTo(0.6 * 2.5 + 0.4 * 1.25 + 0.1 * 10, 6);
+  });
+
+  it("applies MODEL_PRICES_JSON overrides and costs unpriced models nothing", () => {
+    process.env.MODEL_PRICES_JSON = JSON.stringify({ "house-model": { input: 1, output: 2 } });
+    expect(estimateCostUsd("house-model", { promptTokens: 1_000_000, completionTokens: 1_000_000 })).toBe(3);
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(estimateCostUsd("mystery-1", { promptTokens: 500, completionTokens: 500 })).toBe(0);
+    warn.mockRestore();
+  });
+});
+
+describe("budgetDefaults", () => {
+  it("treats a missing or non-positive limit as unlimited", () => {
+    expect(budgetDefaults({}).limitUsd).toBeNull();
+    expect(budgetDefaults({ AI_MONTHLY_BUDGET_USD: "0" }).limitUsd).toBeNull();
+    expect(budgetDefaults({ AI_MONTHLY_BUDGET_USD: "25.5" }).limitUsd).toBe(25.5);
+  });
+
+  it("blocks unless downgrade is asked for", () => {
+    expect(budgetDefaults({}).action).toBe("block");
+    expect(budgetDefaults({ AI_BUDGET_ACTION: "Downgrade" }).action).toBe("downgrade");
+    expect(budgetDefaults({}).downgradeModel).toBe("gpt-4o-mini");
+  });
+});
+
+describe("decideBudgetModel", () => {
+  it("keeps the requested model within budget", () => {
+    expect(decideBudgetModel(status({ exceeded: false }), "gpt-4o", "gpt-4o-mini")).toEqual({
+      model: "gpt-4o",
+    });
+  });
+
+  it("blocks an exceeded block budget", () => {
+    expect(decideBudgetModel(status({ action: "block" }), "gpt-4o", "gpt-4o-mini")).toBeNull();
+  });
+
+  it("downgrades to a cheaper model of the same provider", () => {
+    expect(decideBudgetModel(status(), "gpt-4o", "gpt-4o-mini")).toEqual({
+      model: "gpt-4o-mini",
+      downgradedFrom: "gpt-4o",
+    });
+  });
+
+  it("keeps a requested model that is already as cheap", () => {
+    expect(decideBudgetModel(status(), "gpt-5-nano", "gpt-4o-mini")).toEqual({
+      model: "gpt-5-nano",
+    });
+  });
+
+  it("blocks when the downgrade model is served by another provider", () => {
+    expect(decideBudgetModel(status(), "gpt-4o", "deepseek-v4-flash")).toBeNull();
+  });
+});
+
+describe("requireAiBudget", () => {
+  it("answers 402 BUDGET_EXCEEDED once a block budget is used up", async () => {
+    process.env.AI_MONTHLY_BUDGET_USD = "5";
+    store.loadBudgetState.mockResolvedValue({ spentUsd: 5.01 });
+
+    const guard = await withUsageScope({ route: "test" }, () =>
+      requireAiBudget({ userId: "user-1" })
+    );
+    expect("res" in guard).toBe(true);
+    if (!("res" in guard)) return;
+    expect(guard.res.status).toBe(402);
+    expect(await guard.res.json()).toMatchObject({ ok: false, code: "BUDGET_EXCEEDED" });
+  });
+
+  it("uses the user's override over the env default", async () => {
+    process.env.AI_MONTHLY_BUDGET_USD = "5";
+    store.loadBudgetState.mockResolvedValue({
+      spentUsd: 50,
+      override: { limitUsd: null, action: "block" },
+    });
+
+    const guard = await withUsageScope({ route: "test" }, () =>
+      requireAiBudget({ userId: "user-1" })
+    );
+    expect(guard).toEqual({ budget: expect.objectContaining({ limitUsd: null, exceeded: false }) });
+  });
+
+  it("fails open when the budget cannot be loaded", async () => {
+    process.env.AI_MONTHLY_BUDGET_USD = "5";
+    store.loadBudgetState.mockRejectedValue(new Error("db down"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const guard = await withUsageScope({ route: "test" }, () =>
+      requireAiBudget({ userId: "user-1" })
+    );
+    expect("budget" in guard).toBe(true);
+    warn.mockRestore();
+  });
+});
+
+describe("metering", () => {
+  it("reads chat and Responses usage, including cached tokens", () => {
+    expect(
+      usageFromResult({
+        usage: { prompt_tokens: 100, completion_tokens: 20, prompt_tokens_details: { cached_tokens: 40 } },
+      })
+    ).toEqual({ promptTokens: 100, cachedPromptTokens: 40, completionTokens: 20 });
+    expect(usageFromResult({ usage: { input_tokens: 7, output_tokens: 3 } })).toEqual({
+      promptTokens: 7,
+      cachedPromptTokens: 0,
+      completionTokens: 3,
+    });
+    expect(usageFromResult({ choices: [] })).toBeNull();
+  });
+
+  function fakeClient() {
+    const create = vi.fn(async (body: { model: string }) => ({
+      model: body.model,
+      usage: { prompt_tokens: 1_000_000, completion_tokens: 0 },
+    }));
+    return { create, client: { chat: { completions: { create } } } as unknown as OpenAI };
+  }
+
+  it("records each call against the current scope", async () => {
+    const { client } = fakeClient();
+    const metered = meterClient(client, "openai", "test-stage");
+
+    await withUsageScope({ route: "workshop/translate-line", userId: "user-1", threadId: "t-1" }, () =>
+      metered.chat.completions.create({ model: "gpt-4o", messages: [] })
+    );
+
+    expect(store.insertUsageEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-1",
+        threadId: "t-1",
+        route: "workshop/translate-line",
+        stage: "test-stage",
+        model: "gpt-4o",
+        requestedModel: null,
+        costUsd: 2.5,
+      })
+    );
+  });
+
+  it("swaps the model when over a downgrade budget", async () => {
+    process.env.AI_MONTHLY_BUDGET_USD = "1";
+    process.env.AI_BUDGET_ACTION = "downgrade";
+    store.loadBudgetState.mockResolvedValue({ spentUsd: 2 });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { client, create } = fakeClient();
+
+    await withUsageScope({ route: "test", userId: "user-1" }, () =>
+      meterClient(client, "openai").chat.completions.create({ model: "gpt-4o", messages: [] })
+    );
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ model: "gpt-4o-mini" }), undefined);
+    expect(store.insertUsageEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "gpt-4o-mini", requestedModel: "gpt-4o" })
+    );
+    warn.mockRestore();
+  });
+
+  it("throws BudgetExceededError before calling the provider when blocked", async () => {
+    process.env.AI_MONTHLY_BUDGET_USD = "1";
+    store.loadBudgetState.mockResolvedValue({ spentUsd: 2 });
+    const { client, create } = fakeClient();
+
+    await expect(
+      withUsageScope({ route: "test", userId: "user-1" }, () =>
+        meterClient(client, "openai").chat.completions.create({ model: "gpt-4o", messages: [] })
+      )
+    ).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(create).not.toHaveBeenCalled();
+  });
+});
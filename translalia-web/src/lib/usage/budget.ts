@@ -0,0 +1,193 @@
+/**
+ * Monthly AI budgets.
+ *
+ * A user's limit is their `ai_budgets` row if they have one, else
+ * AI_MONTHLY_BUDGET_USD (unset = unlimited). Once spend reaches the limit,
+ * `block` refuses further AI calls (402 BUDGET_EXCEEDED at the route, a thrown
+ * BudgetExceededError deeper down) and `downgrade` swaps each call to
+ * AI_BUDGET_DOWNGRADE_MODEL when that is cheaper and served by the same
+ * provider, blocking only calls it cannot downgrade.
+ *
+ * Status is cached per user for a minute and bumped locally as calls are
+ * recorded, so checks don't hit the database on every model call. Lookup
+ * failures fail open: a budget outage must not take translation down.
+ */
+
+import { NextResponse } from "next/server";
+import { resolveLLMProvider } from "@/lib/ai/providers/registry";
+import type { BudgetAction, BudgetStatus } from "@/types/usage";
+import { getUsageAttribution, setUsageAttribution, type UsageAttribution } from "./context";
+import { priceForModel, type ModelPrice } from "./pricing";
+import { currentUsageMonth, loadBudgetState } from "./store";
+
+const STATUS_TTL_MS = 60_000;
+const DEFAULT_DOWNGRADE_MODEL = "gpt-4o-mini";
+
+const statusCache = new Map<string, { status: BudgetStatus; fetchedAt: number }>();
+
+export class BudgetExceededError extends Error {
+  readonly code = "BUDGET_EXCEEDED";
+
+  constructor(readonly status: BudgetStatus) {
+    super(
+      `Monthly AI budget exceeded ($${status.spentUsd.toFixed(2)} of $${status.limitUsd?.toFixed(2)})`
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+export function budgetDefaults(env: Record<string, string | undefined> = process.env): {
+  limitUsd: number | null;
+  action: BudgetAction;
+  downgradeModel: string;
+} {
+  const limit = Number.parseFloat(env.AI_MONTHLY_BUDGET_USD ?? "");
+  return {
+    limitUsd: Number.isFinite(limit) && limit > 0 ? limit : null,
+    action: env.AI_BUDGET_ACTION?.trim().toLowerCase() === "downgrade" ? "downgrade" : "block",
+    downgradeModel: env.AI_BUDGET_DOWNGRADE_MODEL?.trim() || DEFAULT_DOWNGRADE_MODEL,
+  };
+}
+
+function withSpend(status: BudgetStatus, spentUsd: number): BudgetStatus {
+  return {
+    ...status,
+    spentUsd,
+    exceeded: status.limitUsd !== null && spentUsd >= status.limitUsd,
+  };
+}
+
+export async function getBudgetStatus(userId: string): Promise<BudgetStatus> {
+  const month = currentUsageMonth();
+  const cached = statusCache.get(userId);
+  if (cached && cached.status.month === month && Date.now() - cached.fetchedAt < STATUS_TTL_MS) {
+    return cached.status;
+  }
+
+  const defaults = budgetDefaults();
+  const base: BudgetStatus = {
+    month,
+    limitUsd: defaults.limitUsd,
+    spentUsd: 0,
+    action: defaults.action,
+    exceeded: false,
+  };
+
+  try {
+    const { spentUsd, override } = await loadBudgetState(userId);
+    const status = withSpend(
+      override ? { ...base, limitUsd: override.limitUsd, action: override.action } : base,
+      spentUsd
+    );
+    statusCache.set(userId, { status, fetchedAt: Date.now() });
+    return status;
+  } catch (error) {
+    console.warn(`[budget] Failed to load budget for ${userId}, allowing calls:`, error);
+    return cached && cached.status.month === month ? cached.status : base;
+  }
+}
+
+/** Add a just-recorded call to the cached status. */
+export function noteSpend(userId: string, costUsd: number): void {
+  const cached = statusCache.get(userId);
+  if (!cached || cached.status.month !== currentUsageMonth()) return;
+  cached.status = withSpend(cached.status, cached.status.spentUsd + costUsd);
+}
+
+export function resetBudgetCache(): void {
+  statusCache.clear();
+}
+
+function blendedPrice(price: ModelPrice): number {
+  return price.input + price.output;
+}
+
+/**
+ * Model to call under `status`: the requested one while within budget, the
+ * downgrade model when over a `downgrade` budget and that is a cheaper model
+ * of the same provider, or null when the call must be blocked. A requested
+ * model already as cheap as the downgrade model is kept.
+ */
+export function decideBudgetModel(
+  status: BudgetStatus,
+  model: string,
+  downgradeModel: string
+): { model: string; downgradedFrom?: string } | null {
+  if (!status.exceeded) return { model };
+  if (status.action !== "downgrade") return null;
+  if (model === downgradeModel) return { model };
+
+  const requestedPrice = priceForModel(model);
+  const downgradePrice = priceForModel(downgradeModel);
+  if (!downgradePrice) return null;
+  if (requestedPrice && blendedPrice(requestedPrice) <= blendedPrice(downgradePrice)) {
+    return { model };
+  }
+  if (resolveLLMProvider(model).id !== resolveLLMProvider(downgradeModel).id) {
+    return null;
+  }
+  return { model: downgradeModel, downgradedFrom: model };
+}
+
+/**
+ * Budget gate for one model call in the current usage scope; calls with no
+ * attributed user are never limited. Throws BudgetExceededError when blocked.
+ */
+export async function modelForBudget(
+  model: string
+): Promise<{ model: string; downgradedFrom?: string }> {
+  const { userId } = getUsageAttribution();
+  if (!userId) return { model };
+
+  const status = await getBudgetStatus(userId);
+  const decision = decideBudgetModel(status, model, budgetDefaults().downgradeModel);
+  if (!decision) throw new BudgetExceededError(status);
+  if (decision.downgradedFrom) {
+    console.warn(
+      `[budget] ${userId} is over budget; downgrading ${decision.downgradedFrom} → ${decision.model}`
+    );
+  }
+  return decision;
+}
+
+/**
+ * Attribute the current scope's AI calls and refuse to start work for a user
+ * whose `block` budget is used up. For background work (the translation
+ * tick); routes use requireAiBudget().
+ */
+export async function assertAiBudget(
+  attribution: Omit<UsageAttribution, "route"> & { userId: string }
+): Promise<BudgetStatus> {
+  setUsageAttribution(attribution);
+  const status = await getBudgetStatus(attribution.userId);
+  if (status.exceeded && status.action === "block") {
+    throw new BudgetExceededError(status);
+  }
+  return status;
+}
+
+/**
+ * Route guard: attribute the request's AI calls to the user (and thread or
+ * project), then 402 BUDGET_EXCEEDED when their `block` budget is used up.
+ */
+export async function requireAiBudget(
+  attribution: Omit<UsageAttribution, "route"> & { userId: string }
+): Promise<{ budget: BudgetStatus } | { res: NextResponse }> {
+  try {
+    return { budget: await assertAiBudget(attribution) };
+  } catch (error) {
+    if (!(error instanceof BudgetExceededError)) throw error;
+    return {
+      res: NextResponse.json(
+        {
+          ok: false,
+          code: error.code,
+          error: "Monthly AI budget exceeded",
+          spentUsd: error.status.spentUsd,
+          limitUsd: error.status.limitUsd,
+        },
+        { status: 402 }
+      ),
+    };
+  }
+}
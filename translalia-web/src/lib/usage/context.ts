@@ -0,0 +1,43 @@
+/**
+ * Usage attribution scope. Route handlers (via withRouteMetrics) and the
+ * translation tick open a scope; the handler then fills in who the calls are
+ * for once it knows (requireAiBudget / assertAiBudget). Every model call made inside reads it
+ * when it is recorded in the cost ledger.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface UsageAttribution {
+  route: string;
+  userId?: string | null;
+  projectId?: string | null;
+  threadId?: string | null;
+}
+
+const scope = new AsyncLocalStorage<UsageAttribution>();
+
+/** Run `fn` in a fresh scope for `route`; nested scopes shadow outer ones. */
+export function withUsageScope<T>(
+  attribution: UsageAttribution,
+  fn: () => Promise<T>
+): Promise<T> {
+  return scope.run({ ...attribution }, fn);
+}
+
+/**
+ * Fill in the user/project/thread of the current scope. Calls outside any
+ * scope are recorded unattributed under route "unscoped".
+ */
+export function setUsageAttribution(
+  attribution: Omit<UsageAttribution, "route">
+): void {
+  const current = scope.getStore();
+  if (!current) return;
+  if (attribution.userId !== undefined) current.userId = attribution.userId;
+  if (attribution.projectId !== undefined) current.projectId = attribution.projectId;
+  if (attribution.threadId !== undefined) current.threadId = attribution.threadId;
+}
+
+export function getUsageAttribution(): UsageAttribution {
+  return scope.getStore() ?? { route: "unscoped" };
+}
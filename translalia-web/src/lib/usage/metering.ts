@@ -0,0 +1,136 @@
+/**
+ * Per-call cost metering. getClientForModel() hands out provider clients
+ * wrapped by meterClient(): every `chat.completions.create` and
+ * `responses.create` passes the budget gate (which may swap the model), and
+ * its reported token usage is priced and recorded against the current usage
+ * scope.
+ */
+
+import type OpenAI from "openai";
+import { llmCost } from "@/lib/telemetry/metrics";
+import { modelForBudget, noteSpend } from "./budget";
+import { getUsageAttribution } from "./context";
+import { estimateCostUsd, type TokenUsage } from "./pricing";
+import { insertUsageEvent } from "./store";
+
+type CreateFn = (body: Record<string, unknown>, options?: unknown) => Promise<unknown>;
+
+/**
+ * Token usage from a chat completion (`prompt_tokens`) or Responses API
+ * result (`input_tokens`); null when the result carries none (e.g. streams).
+ */
+export function usageFromResult(result: unknown): TokenUsage | null {
+  const usage = (result as { usage?: Record<string, unknown> } | null)?.usage;
+  if (!usage || typeof usage !== "object") return null;
+
+  const prompt = Number(usage.prompt_tokens ?? usage.input_tokens ?? 0);
+  const completion = Number(usage.completion_tokens ?? usage.output_tokens ?? 0);
+  const details = (usage.prompt_tokens_details ?? usage.input_tokens_details) as
+    | { cached_tokens?: number }
+    | undefined;
+  return {
+    promptTokens: Number.isFinite(prompt) ? prompt : 0,
+    cachedPromptTokens: Number(details?.cached_tokens ?? 0) || 0,
+    completionTokens: Number.isFinite(completion) ? completion : 0,
+  };
+}
+
+/**
+ * Price one call and record it against the current usage scope. Never
+ * throws; the ledger write is fire-and-forget.
+ */
+export function recordAiUsage(params: {
+  provider: string;
+  model: string;
+  requestedModel?: string;
+  stage?: string;
+  usage: TokenUsage;
+}): void {
+  const attribution = getUsageAttribution();
+  const costUsd = estimateCostUsd(params.model, params.usage);
+
+  llmCost.inc({ route: attribution.route, model: params.model }, costUsd);
+  if (attribution.userId) noteSpend(attribution.userId, costUsd);
+
+  insertUsageEvent({
+    userId: attribution.userId ?? null,
+    projectId: attribution.projectId ?? null,
+    threadId: attribution.threadId ?? null,
+    route: attribution.route,
+    stage: params.stage ?? null,
+    provider: params.provider,
+    model: params.model,
+    requestedModel: params.requestedModel ?? null,
+    promptTokens: params.usage.promptTokens,
+    cachedPromptTokens: params.usage.cachedPromptTokens ?? 0,
+    completionTokens: params.usage.completionTokens,
+    costUsd,
+  }).catch((error) => {
+    console.warn("[metering] Failed to record usage:", error);
+  });
+}
+
+function meterCreate(create: CreateFn, provider: string, stage?: string): CreateFn {
+  return async (body, options) => {
+    const requested = typeof body.model === "string" ? body.model : "";
+    const { model, downgradedFrom } = requested
+      ? await modelForBudget(requested)
+      : { model: requested, downgradedFrom: undefined };
+
+    const result = await create(model === requested ? body : { ...body, model }, options);
+
+    const usage = usageFromResult(result);
+    if (usage) {
+      recordAiUsage({ provider, model, requestedModel: downgradedFrom, stage, usage });
+    }
+    return result;
+  };
+}
+
+/** Proxy `resource` so its `create` goes through `create`. */
+function overrideCreate<T extends object>(resource: T, create: CreateFn): T {
+  return new Proxy(resource, {
+    get(target, prop, receiver) {
+      return prop === "create" ? create : Reflect.get(target, prop, receiver);
+    },
+  });
+}
+
+/**
+ * `client` with metered `chat.completions.create` and `responses.create`.
+ * Everything else passes through untouched.
+ */
+export function meterClient(client: OpenAI, provider: string, stage?: string): OpenAI {
+  const metered = (resource: { create: unknown }) =>
+    overrideCreate(
+      resource,
+      meterCreate(
+        (resource.create as CreateFn).bind(resource) as CreateFn,
+        provider,
+        stage
+      )
+    );
+
+  let chat: OpenAI["chat"] | undefined;
+  let responses: OpenAI["responses"] | undefined;
+
+  return new Proxy(client, {
+    get(target, prop, receiver) {
+      if (prop === "chat") {
+        chat ??= new Proxy(target.chat, {
+          get(chatTarget, chatProp, chatReceiver) {
+            return chatProp === "completions"
+              ? metered(chatTarget.completions)
+              : Reflect.get(chatTarget, chatProp, chatReceiver);
+          },
+        });
+        return chat;
+      }
+      if (prop === "responses" && target.responses) {
+        responses ??= metered(target.responses) as OpenAI["responses"];
+        return responses;
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Model price table for cost accounting, in USD per million tokens.
+ *
+ * Model ids match by longest prefix, so dated snapshots
+ * (`gpt-5-nano-2025-08-07`) price like their family. MODEL_PRICES_JSON
+ * overrides or extends the table without a deploy, e.g.
+ * `{"gpt-4o":{"input":2.5,"output":10}}`.
+ */
+
+export interface ModelPrice {
+  /** USD per 1M prompt tokens */
+  input: number;
+  /** USD per 1M prompt tokens served from the provider's prompt cache */
+  cachedInput?: number;
+  /** USD per 1M completion tokens */
+  output: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  "gpt-5": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5-mini": { input: 0.25, cachedInput: 0.025, output: 2 },
+  "gpt-5-nano": { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "deepseek-v4-flash": { input: 0.28, cachedInput: 0.028, output: 0.42 },
+  // Self-hosted and fixture models cost nothing per token
+  "local:": { input: 0, output: 0 },
+  mock: { input: 0, output: 0 },
+};
+
+export interface TokenUsage {
+  promptTokens: number;
+  /** Part of promptTokens read from the prompt cache */
+  cachedPromptTokens?: number;
+  completionTokens: number;
+}
+
+let cachedTable: { raw: string | undefined; prices: Record<string, ModelPrice> } | null = null;
+const warnedUnpriced = new Set<string>();
+
+function priceTable(): Record<string, ModelPrice> {
+  const raw = process.env.MODEL_PRICES_JSON;
+  if (cachedTable && cachedTable.raw === raw) return cachedTable.prices;
+
+  let overrides: Record<string, ModelPrice> = {};
+  if (raw) {
+    try {
+      overrides = JSON.parse(raw) as Record<string, ModelPrice>;
+    } catch (error) {
+      console.error("[pricing] MODEL_PRICES_JSON is not valid JSON, ignoring:", error);
+    }
+  }
+  cachedTable = { raw, prices: { ...DEFAULT_MODEL_PRICES, ...overrides } };
+  return cachedTable.prices;
+}
+
+/** Price for `model` (longest matching prefix), or null when unpriced. */
+export function priceForModel(model: string): ModelPrice | null {
+  const table = priceTable();
+  const id = model.trim().toLowerCase();
+  if (table[id]) return table[id];
+
+  let best: string | null = null;
+  for (const prefix of Object.keys(table)) {
+    if (id.startsWith(prefix) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return best ? table[best] : null;
+}
+
+/**
+ * Estimated cost of one call in USD. Unpriced models cost 0 and are logged
+ * once, so a new model never blocks a request but does show up in logs.
+ */
+export function estimateCostUsd(model: string, usage: TokenUsage): number {
+  const price = priceForModel(model);
+  if (!price) {
+    if (!warnedUnpriced.has(model)) {
+      warnedUnpriced.add(model);
+      console.warn(`[pricing] No price for model "${model}"; recording cost 0`);
+    }
+    return 0;
+  }
+
+  const cached = Math.min(usage.cachedPromptTokens ?? 0, usage.promptTokens);
+  const uncached = usage.promptTokens - cached;
+  const cost =
+    uncached * price.input +
+    cached * (price.cachedInput ?? price.input) +
+    usage.completionTokens * price.output;
+  return cost / 1_000_000;
+}
@@ -0,0 +1,162 @@
+/**
+ * AI usage - persistence
+ *
+ * Writes the cost ledger through `record_ai_usage` and reads monthly spend,
+ * budget overrides and the usage summary. Ledger writes and budget reads use
+ * the service role when it is configured: a collaborator's request can spend
+ * on the thread owner's budget, which the caller's own session may not see.
+ */
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { getServerClient } from "@/lib/supabaseServer";
+import type {
+  BudgetAction,
+  UsageBreakdownRow,
+  UsageDimension,
+} from "@/types/usage";
+
+export interface UsageEventInput {
+  userId: string | null;
+  projectId: string | null;
+  threadId: string | null;
+  route: string;
+  stage: string | null;
+  provider: string;
+  model: string;
+  requestedModel: string | null;
+  promptTokens: number;
+  cachedPromptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+let serviceClient: SupabaseClient | null = null;
+
+async function usageClient(): Promise<SupabaseClient> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (url && serviceKey) {
+    serviceClient ??= createClient(url, serviceKey);
+    return serviceClient;
+  }
+  return (await getServerClient()) as unknown as SupabaseClient;
+}
+
+/** First day of the current UTC month, YYYY-MM-DD. */
+export function currentUsageMonth(now: Date = new Date()): string {
+  return `${now.toISOString().slice(0, 7)}-01`;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function insertUsageEvent(event: UsageEventInput): Promise<void> {
+  const sb = await usageClient();
+  // Attribution comes from request bodies; drop ids that can't be row ids
+  // rather than lose the whole event
+  const { error } = await sb.rpc("record_ai_usage", {
+    p_user_id: event.userId,
+    p_project_id: event.projectId && UUID.test(event.projectId) ? event.projectId : null,
+    p_thread_id: event.threadId && UUID.test(event.threadId) ? event.threadId : null,
+    p_route: event.route,
+    p_stage: event.stage,
+    p_provider: event.provider,
+    p_model: event.model,
+    p_requested_model: event.requestedModel,
+    p_prompt_tokens: event.promptTokens,
+    p_cached_prompt_tokens: event.cachedPromptTokens,
+    p_completion_tokens: event.completionTokens,
+    p_cost_usd: event.costUsd,
+  });
+  if (error) {
+    throw new Error(`[usage] Failed to record usage: ${error.message}`);
+  }
+}
+
+/**
+ * The user's spend this month and their budget override row, if any
+ * (`override` undefined when there is none, so the env defaults apply).
+ */
+export async function loadBudgetState(userId: string): Promise<{
+  spentUsd: number;
+  override?: { limitUsd: number | null; action: BudgetAction };
+}> {
+  const sb = await usageClient();
+  const [monthly, budget] = await Promise.all([
+    sb
+      .from("ai_usage_monthly")
+      .select("cost_usd")
+      .eq("user_id", userId)
+      .eq("month", currentUsageMonth())
+      .maybeSingle(),
+    sb
+      .from("ai_budgets")
+      .select("monthly_limit_usd, on_exceed")
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ]);
+
+  if (monthly.error) {
+    throw new Error(`[usage] Failed to load monthly spend: ${monthly.error.message}`);
+  }
+  if (budget.error) {
+    throw new Error(`[usage] Failed to load budget: ${budget.error.message}`);
+  }
+
+  const row = budget.data as { monthly_limit_usd: number | string | null; on_exceed: BudgetAction } | null;
+  return {
+    spentUsd: Number((monthly.data as { cost_usd: number | string } | null)?.cost_usd ?? 0),
+    override: row
+      ? {
+          limitUsd: row.monthly_limit_usd == null ? null : Number(row.monthly_limit_usd),
+          action: row.on_exceed,
+        }
+      : undefined,
+  };
+}
+
+interface SummaryRow {
+  dimension: UsageDimension;
+  key: string;
+  label: string | null;
+  calls: number | string;
+  prompt_tokens: number | string;
+  completion_tokens: number | string;
+  cost_usd: number | string;
+}
+
+/**
+ * The caller's spend for `month` (YYYY-MM-01) grouped by route, model,
+ * project, thread and day; most expensive first, days in date order.
+ */
+export async function loadUsageBreakdown(
+  sb: SupabaseClient,
+  month: string
+): Promise<Record<UsageDimension, UsageBreakdownRow[]>> {
+  const { data, error } = await sb.rpc("ai_usage_summary", { p_month: month });
+  if (error) {
+    throw new Error(`[usage] Failed to load usage summary: ${error.message}`);
+  }
+
+  const breakdown: Record<UsageDimension, UsageBreakdownRow[]> = {
+    route: [],
+    model: [],
+    project: [],
+    thread: [],
+    day: [],
+  };
+  for (const row of (data ?? []) as SummaryRow[]) {
+    breakdown[row.dimension]?.push({
+      key: row.key,
+      label: row.label,
+      calls: Number(row.calls),
+      promptTokens: Number(row.prompt_tokens),
+      completionTokens: Number(row.completion_tokens),
+      costUsd: Number(row.cost_usd),
+    });
+  }
+  for (const dimension of ["route", "model", "project", "thread"] as const) {
+    breakdown[dimension].sort((a, b) => b.costUsd - a.costUsd);
+  }
+  breakdown.day.sort((a, b) => a.key.localeCompare(b.key));
+  return breakdown;
+}
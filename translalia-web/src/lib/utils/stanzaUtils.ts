@@ -3,6 +3,8 @@
  * Splits poems into 4-line stanzas with no API calls or database storage
  */
 
+import type { PoemSectionOutline } from "@/lib/poem/sections";
+
 export interface SimpleStanza {
   number: number;
   lines: string[];
@@ -12,6 +14,8 @@ export interface SimpleStanza {
 export interface SimplePoemStanzas {
   stanzas: SimpleStanza[];
   totalStanzas: number;
+  /** Long-form poems only: sections over the stanzas (see lib/poem/sections) */
+  sections?: PoemSectionOutline[];
 }
 
 /**
@@ -0,0 +1,91 @@
+/**
+ * Text diff (pure, client-safe)
+ *
+ * Longest-common-subsequence diff over the tokens of two texts, shared by the
+ * revision history (words), version compare (lines, phrases, characters) and
+ * the audit explorer (prompt lines). Callers pick the tokenizer and how the
+ * tokens of one run are joined back together.
+ */
+
+import type { DiffSegment } from "@/types/revisions";
+
+export interface TextDiffOptions {
+  /** Split a text into diff units */
+  tokenize: (text: string) => string[];
+  /** Put between consecutive tokens of one segment ("" when tokens keep their own whitespace) */
+  separator?: string;
+  /** Above this many LCS cells the texts are returned as one delete and one insert */
+  maxCells?: number;
+}
+
+/** Words, ignoring leading, trailing and repeated whitespace */
+export function wordTokens(text: string): string[] {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/) : [];
+}
+
+/** Lines, with CRLF read as LF; the empty text has none */
+export function lineTokens(text: string): string[] {
+  return text === "" ? [] : text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * Diff from `before` to `after`. Segments are in reading order, adjacent
+ * tokens with the same type are merged, and "delete" segments come before
+ * the "insert" segments that replace them.
+ */
+export function diffTokens(
+  before: string,
+  after: string,
+  { tokenize, separator = "", maxCells = Infinity }: TextDiffOptions
+): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], token: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += `${separator}${token}`;
+    } else {
+      segments.push({ type, text: token });
+    }
+  };
+
+  if (a.length * b.length > maxCells) {
+    const left = a.join(separator);
+    const right = b.join(separator);
+    if (left === right) return left ? [{ type: "equal", text: left }] : [];
+    if (left) segments.push({ type: "delete", text: left });
+    if (right) segments.push({ type: "insert", text: right });
+    return segments;
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  while (i < a.length) push("delete", a[i++]);
+  while (j < b.length) push("insert", b[j++]);
+
+  return segments;
+}
@@ -0,0 +1,117 @@
+/**
+ * Tests for Track A calibration statistics: correlation helpers,
+ * Krippendorff's alpha, per-dimension verdicts and weekly drift.
+ *
+ * Run with: npx vitest run src/lib/verification/calibration.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildCalibrationReport,
+  calibrateDimension,
+  krippendorffAlphaInterval,
+  pearson,
+  spearman,
+  weekStart,
+  type CalibrationSample,
+} from "./calibration";
+
+function sample(
+  id: string,
+  model: number,
+  human: Array<number | null>,
+  gradedAt = "2026-10-14T12:00:00Z"
+): CalibrationSample {
+  return {
+    id,
+    gradedAt,
+    modelScores: { semantic_accuracy: model },
+    ratings: human.map((score, i) => ({
+      reviewerId: `reviewer-${i}`,
+      scores: { semantic_accuracy: score },
+    })),
+  };
+}
+
+describe("correlation", () => {
+  it("computes Pearson and tie-aware Spearman", () => {
+    expect(pearson([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1, 10);
+    expect(pearson([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1, 10);
+    expect(spearman([1, 2, 3, 4], [1, 4, 9, 16])).toBeCloseTo(1, 10);
+    expect(spearman([1, 1, 2, 3], [5, 5, 6, 7])).toBeCloseTo(1, 10);
+  });
+
+  it("is undefined for short or constant series", () => {
+    expect(pearson([1, 2], [1, 2])).toBeNull();
+    expect(pearson([5, 5, 5], [1, 2, 3])).toBeNull();
+  });
+});
+
+describe("krippendorffAlphaInterval", () => {
+  it("is 1 for perfect agreement", () => {
+    expect(krippendorffAlphaInterval([[1, 1], [4, 4], [9, 9]])).toBe(1);
+  });
+
+  it("goes negative for systematic disagreement", () => {
+    expect(krippendorffAlphaInterval([[1, 2], [2, 1]])).toBeCloseTo(-0.5, 10);
+  });
+
+  it("ignores single-rater units and needs two pairable units", () => {
+    expect(krippendorffAlphaInterval([[3, 3], [7]])).toBeNull();
+    expect(krippendorffAlphaInterval([[3, 3], [7, 7], [1]])).toBe(1);
+  });
+});
+
+describe("calibrateDimension", () => {
+  it("trusts a grader that tracks reviewers closely", () => {
+    const samples = Array.from({ length: 12 }, (_, i) =>
+      sample(`s${i}`, i % 10, [i % 10, (i % 10) + (i % 2 ? 0.5 : 0)])
+    );
+    const result = calibrateDimension(samples, "semantic_accuracy");
+    expect(result.items).toBe(12);
+    expect(result.modelPearson).toBeGreaterThan(0.95);
+    expect(result.humanAlpha).toBeGreaterThan(0.9);
+    expect(result.verdict).toBe("trusted");
+  });
+
+  it("flags a grader that scores systematically high", () => {
+    const samples = Array.from({ length: 12 }, (_, i) =>
+      sample(`s${i}`, Math.min(10, (i % 6) + 3), [i % 6])
+    );
+    const result = calibrateDimension(samples, "semantic_accuracy");
+    expect(result.modelBias).toBeGreaterThan(1);
+    expect(result.humanAlpha).toBeNull();
+    expect(result.verdict).toBe("review");
+  });
+
+  it("reports too few items as insufficient and skips N/A scores", () => {
+    const result = calibrateDimension(
+      [sample("a", 8, [7, null]), sample("b", 4, [null]), sample("c", 2, [3])],
+      "semantic_accuracy"
+    );
+    expect(result.items).toBe(2);
+    expect(result.verdict).toBe("insufficient");
+  });
+});
+
+describe("drift", () => {
+  it("buckets by the Monday of the grading week", () => {
+    expect(weekStart("2026-10-18T23:00:00Z")).toBe("2026-10-12");
+    expect(weekStart("2026-10-19T00:00:00Z")).toBe("2026-10-19");
+  });
+
+  it("reports model bias per week, oldest first, for rated items only", () => {
+    const report = buildCalibrationReport([
+      sample("a", 9, [6], "2026-10-20T10:00:00Z"),
+      sample("b", 5, [5], "2026-10-06T10:00:00Z"),
+      sample("c", 7, [], "2026-10-13T10:00:00Z"),
+    ]);
+    expect(report.sampledItems).toBe(3);
+    expect(report.ratedItems).toBe(2);
+    expect(report.reviewers).toBe(1);
+    expect(report.drift.map((p) => [p.period, p.modelBias])).toEqual([
+      ["2026-10-05", 0],
+      ["2026-10-19", 3],
+    ]);
+  });
+});
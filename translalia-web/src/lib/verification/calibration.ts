@@ -0,0 +1,245 @@
+/**
+ * Track A calibration statistics.
+ *
+ * Reviewers blind-grade sampled lines on the same VerificationDimensions as
+ * the grader. Per dimension we report how far reviewers agree with each other
+ * (Krippendorff's alpha, interval metric) and how well the model tracks their
+ * mean (Pearson/Spearman, bias, MAE); the drift series repeats the model
+ * comparison per week of grading so prompt or model changes show up.
+ *
+ * Pure functions only; loading lives in calibrationStore.ts.
+ */
+
+import type {
+  CalibrationDriftPoint,
+  CalibrationReport,
+  DimensionCalibration,
+  HumanDimensionScores,
+  VerificationDimension,
+  VerificationDimensions,
+} from "@/types/verification";
+
+export const VERIFICATION_DIMENSIONS: VerificationDimension[] = [
+  "semantic_accuracy",
+  "cultural_fidelity",
+  "rhythm_prosody",
+  "register_tone",
+  "dialect_preservation",
+  "option_quality",
+];
+
+/** Below this many human-scored items a dimension is "insufficient" */
+export const MIN_CALIBRATION_ITEMS = 10;
+/** Krippendorff's conventional floor for tentative conclusions */
+const MIN_HUMAN_ALPHA = 0.667;
+const MIN_MODEL_CORRELATION = 0.6;
+/** Largest mean model-minus-human gap, in score points, still trusted */
+const MAX_MODEL_BIAS = 1;
+
+export interface CalibrationSample {
+  id: string;
+  modelScores: Partial<VerificationDimensions>;
+  /** When the model graded the line (ISO timestamp) */
+  gradedAt: string;
+  ratings: Array<{ reviewerId: string; scores: Partial<HumanDimensionScores> }>;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function round(value: number | null, digits = 3): number | null {
+  if (value === null || !Number.isFinite(value)) return null;
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function isScore(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/** Pearson correlation; null for fewer than 3 pairs or a constant series. */
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 3) return null;
+  const mx = mean(xs.slice(0, n))!;
+  const my = mean(ys.slice(0, n))!;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  if (sxx === 0 || syy === 0) return null;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+/** 1-based ranks, ties sharing their average rank. */
+function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1][0] === order[start][0]) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k][1]] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+/** Spearman rank correlation (Pearson over tie-averaged ranks). */
+export function spearman(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  return pearson(ranks(xs.slice(0, n)), ranks(ys.slice(0, n)));
+}
+
+/**
+ * Krippendorff's alpha with the interval (squared difference) metric. Each
+ * unit is one item's human scores; units with a single score are not
+ * pairable and are ignored. Null when fewer than two units are pairable or
+ * all scores are identical.
+ */
+export function krippendorffAlphaInterval(units: number[][]): number | null {
+  const pairable = units.filter((u) => u.length >= 2);
+  if (pairable.length < 2) return null;
+
+  // Sum over ordered pairs i≠j of (a_i - a_j)^2 = 2(m·Σa² − (Σa)²)
+  const pairSum = (values: number[]) => {
+    let s = 0;
+    let s2 = 0;
+    for (const v of values) {
+      s += v;
+      s2 += v * v;
+    }
+    return 2 * (values.length * s2 - s * s);
+  };
+
+  const all = pairable.flat();
+  const n = all.length;
+  const observed =
+    pairable.reduce((acc, u) => acc + pairSum(u) / (u.length - 1), 0) / n;
+  const expected = pairSum(all) / (n * (n - 1));
+  if (expected === 0) return null;
+  return 1 - observed / expected;
+}
+
+/** Mean |a − b| over every pair of scores within each unit. */
+function meanPairwiseAbsDiff(units: number[][]): number | null {
+  const diffs: number[] = [];
+  for (const unit of units) {
+    for (let i = 0; i < unit.length; i++) {
+      for (let j = i + 1; j < unit.length; j++) diffs.push(Math.abs(unit[i] - unit[j]));
+    }
+  }
+  return mean(diffs);
+}
+
+interface ModelPair {
+  model: number;
+  human: number;
+}
+
+function humanScores(sample: CalibrationSample, dimension: VerificationDimension): number[] {
+  return sample.ratings.map((r) => r.scores[dimension]).filter(isScore);
+}
+
+function modelPairs(
+  samples: CalibrationSample[],
+  dimensions: VerificationDimension[]
+): ModelPair[] {
+  const pairs: ModelPair[] = [];
+  for (const sample of samples) {
+    for (const dimension of dimensions) {
+      const model = sample.modelScores[dimension];
+      const human = mean(humanScores(sample, dimension));
+      if (isScore(model) && human !== null) pairs.push({ model, human });
+    }
+  }
+  return pairs;
+}
+
+function compareModel(pairs: ModelPair[]) {
+  const model = pairs.map((p) => p.model);
+  const human = pairs.map((p) => p.human);
+  return {
+    modelPearson: round(pearson(model, human)),
+    modelSpearman: round(spearman(model, human)),
+    modelBias: round(mean(pairs.map((p) => p.model - p.human))),
+    modelMeanAbsError: round(mean(pairs.map((p) => Math.abs(p.model - p.human)))),
+  };
+}
+
+export function calibrateDimension(
+  samples: CalibrationSample[],
+  dimension: VerificationDimension
+): DimensionCalibration {
+  const units = samples.map((s) => humanScores(s, dimension)).filter((u) => u.length > 0);
+  const humanAlpha = round(krippendorffAlphaInterval(units));
+  const comparison = compareModel(modelPairs(samples, [dimension]));
+
+  let verdict: DimensionCalibration["verdict"];
+  if (units.length < MIN_CALIBRATION_ITEMS || comparison.modelPearson === null) {
+    verdict = "insufficient";
+  } else if (
+    comparison.modelPearson >= MIN_MODEL_CORRELATION &&
+    Math.abs(comparison.modelBias ?? 0) <= MAX_MODEL_BIAS &&
+    (humanAlpha === null || humanAlpha >= MIN_HUMAN_ALPHA)
+  ) {
+    verdict = "trusted";
+  } else {
+    verdict = "review";
+  }
+
+  return {
+    dimension,
+    items: units.length,
+    humanAlpha,
+    humanMeanAbsDiff: round(meanPairwiseAbsDiff(units)),
+    ...comparison,
+    verdict,
+  };
+}
+
+/** Monday (UTC) of the ISO week containing `iso`, YYYY-MM-DD. */
+export function weekStart(iso: string): string {
+  const date = new Date(iso);
+  const day = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - day);
+  return date.toISOString().slice(0, 10);
+}
+
+export function calibrationDrift(samples: CalibrationSample[]): CalibrationDriftPoint[] {
+  const byWeek = new Map<string, CalibrationSample[]>();
+  for (const sample of samples) {
+    if (!sample.ratings.length || Number.isNaN(Date.parse(sample.gradedAt))) continue;
+    const period = weekStart(sample.gradedAt);
+    byWeek.set(period, [...(byWeek.get(period) ?? []), sample]);
+  }
+
+  return [...byWeek.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, group]) => {
+      const { modelBias, modelMeanAbsError, modelPearson } = compareModel(
+        modelPairs(group, VERIFICATION_DIMENSIONS)
+      );
+      return { period, items: group.length, modelBias, modelMeanAbsError, modelPearson };
+    });
+}
+
+export function buildCalibrationReport(samples: CalibrationSample[]): CalibrationReport {
+  const reviewers = new Set(samples.flatMap((s) => s.ratings.map((r) => r.reviewerId)));
+  return {
+    sampledItems: samples.length,
+    ratedItems: samples.filter((s) => s.ratings.length > 0).length,
+    ratings: samples.reduce((n, s) => n + s.ratings.length, 0),
+    reviewers: reviewers.size,
+    dimensions: VERIFICATION_DIMENSIONS.map((d) => calibrateDimension(samples, d)),
+    drift: calibrationDrift(samples),
+    generatedAt: new Date().toISOString(),
+  };
+}
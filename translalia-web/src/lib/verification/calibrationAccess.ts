@@ -0,0 +1,47 @@
+/**
+ * Who may run Track A calibration: accounts listed in
+ * `CALIBRATION_REVIEWER_EMAILS` (comma-separated). Reviewers see sampled lines
+ * from every user's threads, so the routes check this before touching the
+ * service-role store.
+ */
+
+import { NextResponse } from "next/server";
+import { normalizeEmail } from "@/lib/ai/deepseekAccess";
+import { requireUser } from "@/lib/auth/requireUser";
+
+export function getCalibrationReviewerEmails(): string[] {
+  return (process.env.CALIBRATION_REVIEWER_EMAILS ?? "")
+    .split(",")
+    .map(normalizeEmail)
+    .filter(Boolean);
+}
+
+export function isCalibrationReviewer(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const normalized = normalizeEmail(email);
+  return !!normalized && getCalibrationReviewerEmails().includes(normalized);
+}
+
+/**
+ * Route guard: the signed-in calibration reviewer, or a 401/403 response.
+ */
+export async function requireCalibrationReviewer(): Promise<
+  { user: { id: string; email?: string } } | { res: NextResponse }
+> {
+  const { user, response } = await requireUser();
+  if (!user) return { res: response };
+  if (!isCalibrationReviewer(user.email)) {
+    return {
+      res: NextResponse.json(
+        {
+          error: {
+            code: "FORBIDDEN",
+            message: "Calibration is limited to reviewers",
+          },
+        },
+        { status: 403 }
+      ),
+    };
+  }
+  return { user };
+}
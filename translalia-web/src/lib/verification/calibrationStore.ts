@@ -0,0 +1,259 @@
+/**
+ * Track A calibration - persistence
+ *
+ * Samples Track A grades out of prompt_audits into calibration_items, serves
+ * them blind to reviewers and stores their ratings. Everything runs with the
+ * service role: reviewers work across all users' threads, and the tables have
+ * no RLS policies.
+ */
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type {
+  CalibrationQueueItem,
+  HumanDimensionScores,
+  TrackAGrade,
+} from "@/types/verification";
+import type { CalibrationSample } from "./calibration";
+
+/** How many recent grades a sampling run draws from */
+const SAMPLE_POOL_SIZE = 500;
+/** Most recent items a queue or report reads */
+const MAX_ITEMS_READ = 1000;
+
+let serviceClient: SupabaseClient | null = null;
+
+function calibrationClient(): SupabaseClient {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error(
+      "[calibration] SUPABASE_SERVICE_ROLE_KEY is required for calibration"
+    );
+  }
+  serviceClient ??= createClient(url, serviceKey);
+  return serviceClient;
+}
+
+interface GradeAuditRow {
+  id: string;
+  thread_id: string | null;
+  created_at: string;
+  params: {
+    lineIndex?: number;
+    promptParams?: {
+      sourceLine?: string;
+      translatedLine?: string;
+      sourceLanguage?: string;
+      targetLanguage?: string;
+    };
+    grade?: Partial<TrackAGrade>;
+  } | null;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Draw up to `size` random Track A grades from the most recent ones (graded
+ * after `since`, if given) that are not sampled yet. Returns how many items
+ * were added.
+ */
+export async function sampleCalibrationItems(params: {
+  size: number;
+  since?: string;
+  sampledBy: string;
+}): Promise<number> {
+  const sb = calibrationClient();
+
+  // Grade audits are found by their stored grade: insertPromptAudit files the
+  // 'line-verification-internal' stage under 'workshop-options'
+  let query = sb
+    .from("prompt_audits")
+    .select("id, thread_id, created_at, params")
+    .not("params->grade", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(SAMPLE_POOL_SIZE);
+  if (params.since) query = query.gte("created_at", params.since);
+
+  const { data: audits, error } = await query;
+  if (error) {
+    throw new Error(`[calibration] Failed to load grades: ${error.message}`);
+  }
+
+  const candidates = ((audits ?? []) as GradeAuditRow[]).filter(
+    (a) =>
+      a.params?.grade?.scores &&
+      a.params.promptParams?.sourceLine &&
+      a.params.promptParams.translatedLine
+  );
+  if (candidates.length === 0) return 0;
+
+  const { data: existing, error: existingError } = await sb
+    .from("calibration_items")
+    .select("audit_id")
+    .in(
+      "audit_id",
+      candidates.map((a) => a.id)
+    );
+  if (existingError) {
+    throw new Error(
+      `[calibration] Failed to load sampled items: ${existingError.message}`
+    );
+  }
+  const sampled = new Set((existing ?? []).map((r) => r.audit_id as string));
+
+  const picked = shuffle(candidates.filter((a) => !sampled.has(a.id))).slice(
+    0,
+    params.size
+  );
+  if (picked.length === 0) return 0;
+
+  const { error: insertError } = await sb.from("calibration_items").upsert(
+    picked.map((a) => {
+      const grade = a.params!.grade!;
+      const prompt = a.params!.promptParams!;
+      return {
+        audit_id: a.id,
+        thread_id: a.thread_id,
+        line_index: a.params!.lineIndex ?? 0,
+        source_line: prompt.sourceLine,
+        translated_line: prompt.translatedLine,
+        source_language: prompt.sourceLanguage ?? null,
+        target_language: prompt.targetLanguage ?? null,
+        model_used: grade.model_used ?? null,
+        model_overall: grade.overall_score ?? null,
+        model_scores: grade.scores,
+        graded_at: grade.graded_at ?? a.created_at,
+        sampled_by: params.sampledBy,
+      };
+    }),
+    { onConflict: "audit_id", ignoreDuplicates: true }
+  );
+  if (insertError) {
+    throw new Error(
+      `[calibration] Failed to save sampled items: ${insertError.message}`
+    );
+  }
+  return picked.length;
+}
+
+interface ItemRow {
+  id: string;
+  source_line: string;
+  translated_line: string;
+  source_language: string | null;
+  target_language: string | null;
+  created_at: string;
+  calibration_ratings: Array<{ reviewer_id: string }>;
+}
+
+/**
+ * Items `reviewerId` has not rated yet, least-rated first so items collect
+ * the second rating agreement needs before new ones get a first. Model
+ * scores and other reviewers' ratings are left out: grading is blind.
+ */
+export async function loadCalibrationQueue(
+  reviewerId: string,
+  limit: number
+): Promise<{ items: CalibrationQueueItem[]; remaining: number }> {
+  const sb = calibrationClient();
+  const { data, error } = await sb
+    .from("calibration_items")
+    .select(
+      "id, source_line, translated_line, source_language, target_language, created_at, calibration_ratings(reviewer_id)"
+    )
+    .order("created_at", { ascending: false })
+    .limit(MAX_ITEMS_READ);
+  if (error) {
+    throw new Error(`[calibration] Failed to load queue: ${error.message}`);
+  }
+
+  const open = ((data ?? []) as ItemRow[])
+    .filter((row) =>
+      row.calibration_ratings.every((r) => r.reviewer_id !== reviewerId)
+    )
+    .sort(
+      (a, b) =>
+        a.calibration_ratings.length - b.calibration_ratings.length ||
+        a.created_at.localeCompare(b.created_at)
+    );
+
+  return {
+    items: open.slice(0, limit).map((row) => ({
+      id: row.id,
+      sourceLine: row.source_line,
+      translatedLine: row.translated_line,
+      sourceLanguage: row.source_language ?? "unknown",
+      targetLanguage: row.target_language ?? "unknown",
+    })),
+    remaining: open.length,
+  };
+}
+
+/**
+ * Save (or replace) a reviewer's grade of one item. Returns false when the
+ * item does not exist.
+ */
+export async function saveCalibrationRating(params: {
+  itemId: string;
+  reviewerId: string;
+  scores: HumanDimensionScores;
+  notes?: string | null;
+}): Promise<boolean> {
+  const sb = calibrationClient();
+  const { error } = await sb.from("calibration_ratings").upsert(
+    {
+      item_id: params.itemId,
+      reviewer_id: params.reviewerId,
+      scores: params.scores,
+      notes: params.notes ?? null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "item_id,reviewer_id" }
+  );
+  if (error) {
+    // foreign_key_violation: unknown item
+    if (error.code === "23503") return false;
+    throw new Error(`[calibration] Failed to save rating: ${error.message}`);
+  }
+  return true;
+}
+
+/** The most recent sampled items with their model and human scores. */
+export async function loadCalibrationSamples(): Promise<CalibrationSample[]> {
+  const sb = calibrationClient();
+  const { data, error } = await sb
+    .from("calibration_items")
+    .select("id, model_scores, graded_at, calibration_ratings(reviewer_id, scores)")
+    .order("graded_at", { ascending: false })
+    .limit(MAX_ITEMS_READ);
+  if (error) {
+    throw new Error(`[calibration] Failed to load samples: ${error.message}`);
+  }
+
+  return (
+    (data ?? []) as Array<{
+      id: string;
+      model_scores: CalibrationSample["modelScores"];
+      graded_at: string;
+      calibration_ratings: Array<{
+        reviewer_id: string;
+        scores: Partial<HumanDimensionScores>;
+      }>;
+    }>
+  ).map((row) => ({
+    id: row.id,
+    modelScores: row.model_scores ?? {},
+    gradedAt: row.graded_at,
+    ratings: row.calibration_ratings.map((r) => ({
+      reviewerId: r.reviewer_id,
+      scores: r.scores ?? {},
+    })),
+  }));
+}
@@ -1,8 +1,13 @@
 /**
  * Performance monitoring for verification system
  * Tracks latency, failures, and usage patterns
+ *
+ * Every metric feeds the scrape registry (see /api/metrics); the buffer below
+ * only backs the windowed summary in /api/verification/health.
  */
 
+import { verificationDuration, verificationErrors } from "@/lib/telemetry/metrics";
+
 interface VerificationMetric {
   timestamp: number;
   operation: "grade" | "context";
@@ -13,7 +18,7 @@ interface VerificationMetric {
   metadata?: Record<string, any>;
 }
 
-// In-memory metrics buffer (in production, send to monitoring service)
+// Recent metrics for getMetricsSummary()
 const metricsBuffer: VerificationMetric[] = [];
 const MAX_BUFFER_SIZE = 1000;
 
@@ -37,10 +42,15 @@ export function recordMetric(metric: VerificationMetric) {
     });
   }
 
-  // In production, send to monitoring service
-  if (process.env.NODE_ENV === "production") {
-    // Example: sendToDatadog(metric);
-    // Example: sendToNewRelic(metric);
+  verificationDuration.observe(
+    { operation: metric.operation, outcome: metric.success ? "success" : "error" },
+    metric.duration / 1000
+  );
+  if (!metric.success) {
+    verificationErrors.inc({
+      operation: metric.operation,
+      code: metric.errorCode ?? "unknown",
+    });
   }
 }
 
@@ -0,0 +1,102 @@
+/**
+ * AI commentary on a version compare
+ *
+ * Explains what changed between two saved versions through one lens
+ * (meaning, form, tone or culture). Only changed lines are sent, with the
+ * source poem for reference.
+ */
+
+import { CONTEXT_MODEL } from "@/lib/models";
+import {
+  getClientForModel,
+  providerRequestExtras,
+} from "@/lib/ai/openai";
+import type OpenAI from "openai";
+import type { CompareLens, VersionLineDiff } from "@/types/versions";
+
+/** Most changed lines quoted in the prompt */
+const MAX_PROMPT_LINES = 60;
+
+const LENS_FOCUS: Record<CompareLens, string> = {
+  meaning:
+    "what each change does to the sense of the line: what is gained, lost or shifted relative to the source",
+  form: "rhythm, line length, sound, rhyme, syntax and line breaks",
+  tone: "register, voice, mood and emotional intensity",
+  culture:
+    "cultural references, idioms and how domesticated or foreign the wording feels to a reader of the target language",
+};
+
+export interface CompareCommentaryParams {
+  lens: CompareLens;
+  leftTitle: string;
+  rightTitle: string;
+  lines: VersionLineDiff[];
+  sourcePoem?: string | null;
+  /** The translator's own notes on what to look at */
+  notes?: string;
+  /** Appended to the prompt (e.g. getLanguageInstruction(locale)) */
+  languageInstruction?: string;
+}
+
+export function buildCompareCommentaryPrompt(params: CompareCommentaryParams): {
+  system: string;
+  user: string;
+} {
+  const changed = params.lines.filter((line) => line.status !== "equal");
+  const quoted = changed.slice(0, MAX_PROMPT_LINES).map((line) =>
+    [
+      `Line ${line.lineIndex + 1}:`,
+      `  "${params.leftTitle}": ${line.left || "(not translated)"}`,
+      `  "${params.rightTitle}": ${line.right || "(not translated)"}`,
+    ].join("\n")
+  );
+  if (changed.length > MAX_PROMPT_LINES) {
+    quoted.push(`(${changed.length - MAX_PROMPT_LINES} more changed lines omitted)`);
+  }
+
+  const system = [
+    "You are a literary translation mentor comparing two drafts of the same poem translation.",
+    `Focus only on ${params.lens}: ${LENS_FOCUS[params.lens]}.`,
+    "Describe what the revision changed and whether it serves the poem; point to specific lines.",
+    "Do not rewrite the translation. Answer in at most 200 words of plain prose.",
+  ].join(" ");
+
+  const user = [
+    params.sourcePoem?.trim() ? `Source poem:\n${params.sourcePoem.trim()}` : null,
+    `Earlier version: "${params.leftTitle}". Later version: "${params.rightTitle}".`,
+    quoted.length ? `Changed lines:\n${quoted.join("\n")}` : "No lines changed.",
+    params.notes?.trim() ? `Translator's notes: ${params.notes.trim()}` : null,
+    params.languageInstruction || null,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return { system, user };
+}
+
+/**
+ * Commentary text, or null when there is nothing to comment on (no changed
+ * lines). Throws when the model call fails.
+ */
+export async function generateCompareCommentary(
+  params: CompareCommentaryParams
+): Promise<string | null> {
+  if (!params.lines.some((line) => line.status !== "equal")) return null;
+
+  const prompt = buildCompareCommentaryPrompt(params);
+  const completion = (await getClientForModel(
+    CONTEXT_MODEL,
+    "version-compare"
+  ).chat.completions.create({
+    ...providerRequestExtras(CONTEXT_MODEL),
+    model: CONTEXT_MODEL,
+    messages: [
+      { role: "system", content: prompt.system },
+      { role: "user", content: prompt.user },
+    ],
+  } as unknown as Parameters<
+    OpenAI["chat"]["completions"]["create"]
+  >[0])) as OpenAI.Chat.Completions.ChatCompletion;
+
+  return completion.choices[0]?.message?.content?.trim() || null;
+}
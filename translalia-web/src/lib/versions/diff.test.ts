@@ -0,0 +1,81 @@
+/**
+ * Tests for version compare helpers: tokenizing, diffs and line alignment.
+ *
+ * Run with: npx vitest run src/lib/versions/diff.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { compareVersionLines, diffText, tokenize } from "./diff";
+
+describe("tokenize", () => {
+  it("splits phrases at punctuation and keeps the text intact", () => {
+    const tokens = tokenize("The river sleeps, the moon wakes; night falls.", "phrase");
+    expect(tokens).toEqual(["The river sleeps, ", "the moon wakes; ", "night falls."]);
+    expect(tokens.join("")).toBe("The river sleeps, the moon wakes; night falls.");
+  });
+
+  it("splits phrases at Arabic and CJK punctuation", () => {
+    expect(tokenize("النهر نائم، والقمر يصحو", "phrase")).toEqual([
+      "النهر نائم، ",
+      "والقمر يصحو",
+    ]);
+    expect(tokenize("河水睡了，月亮醒了。", "phrase")).toEqual(["河水睡了，", "月亮醒了。"]);
+  });
+
+  it("splits characters by code point", () => {
+    expect(tokenize("a😀b", "char")).toEqual(["a", "😀", "b"]);
+  });
+
+  it("returns no tokens for a blank line", () => {
+    expect(tokenize("   ", "phrase")).toEqual([]);
+  });
+});
+
+describe("diffText", () => {
+  it("replaces only the changed phrase", () => {
+    expect(
+      diffText("The river sleeps, the moon wakes", "The river sleeps, the sun rises", "phrase")
+    ).toEqual([
+      { type: "equal", text: "The river sleeps, " },
+      { type: "delete", text: "the moon wakes" },
+      { type: "insert", text: "the sun rises" },
+    ]);
+  });
+
+  it("diffs characters and merges adjacent runs", () => {
+    expect(diffText("colour", "color", "char")).toEqual([
+      { type: "equal", text: "colo" },
+      { type: "delete", text: "u" },
+      { type: "equal", text: "r" },
+    ]);
+  });
+
+  it("treats a line diff as whole-line replacement", () => {
+    expect(diffText("old line", "new line", "line")).toEqual([
+      { type: "delete", text: "old line" },
+      { type: "insert", text: "new line" },
+    ]);
+  });
+});
+
+describe("compareVersionLines", () => {
+  it("classifies lines and counts them", () => {
+    const { lines, stats } = compareVersionLines(
+      ["same line", "old wording", "dropped", ""],
+      ["same line ", "new wording", "", "fresh", "extra"],
+      "phrase"
+    );
+
+    expect(lines.map((line) => line.status)).toEqual([
+      "equal",
+      "changed",
+      "removed",
+      "added",
+      "added",
+    ]);
+    expect(stats).toEqual({ equal: 1, changed: 1, added: 2, removed: 1 });
+    expect(lines[0].segments).toEqual([{ type: "equal", text: "same line" }]);
+    expect(lines[2].segments).toEqual([{ type: "delete", text: "dropped" }]);
+    expect(lines[4]).toMatchObject({ lineIndex: 4, left: "", right: "extra" });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Version compare helpers (pure, client-safe)
+ *
+ * Diffs two saved versions line by line (lines are aligned by index, like
+ * the source poem) at line, phrase or character granularity.
+ */
+
+import type { DiffSegment } from "@/types/revisions";
+import { diffTokens } from "@/lib/utils/textDiff";
+import type {
+  CompareGranularity,
+  VersionLineDiff,
+  VersionLineStatus,
+} from "@/types/versions";
+
+/** Phrase boundaries: Latin, Arabic and CJK punctuation plus dashes */
+const PUNCTUATION = ",;:.!?…—–،؛؟。，、；：！？";
+const PHRASE_PATTERN = new RegExp(
+  `[^${PUNCTUATION}]+[${PUNCTUATION}]*\\s*|[${PUNCTUATION}]+\\s*`,
+  "gu"
+);
+/** Above this many LCS cells a changed line is shown as replaced whole */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Split a line into diff units. Tokens keep their trailing whitespace and
+ * punctuation, so joining them gives back the line.
+ */
+export function tokenize(text: string, granularity: CompareGranularity): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (granularity === "char") return Array.from(trimmed);
+  if (granularity === "phrase") return trimmed.match(PHRASE_PATTERN) ?? [trimmed];
+  return [trimmed];
+}
+
+/**
+ * Diff from `before` to `after` at `granularity` (longest common
+ * subsequence). "delete" segments come before the "insert" segments that
+ * replace them.
+ */
+export function diffText(
+  before: string,
+  after: string,
+  granularity: CompareGranularity
+): DiffSegment[] {
+  return diffTokens(before, after, {
+    tokenize: (text) => tokenize(text, granularity),
+    maxCells: MAX_DIFF_CELLS,
+  });
+}
+
+/**
+ * Compare two versions' lines. The result has one entry per line of the
+ * longer version, plus a count per status.
+ */
+export function compareVersionLines(
+  left: string[],
+  right: string[],
+  granularity: CompareGranularity
+): { lines: VersionLineDiff[]; stats: Record<VersionLineStatus, number> } {
+  const stats: Record<VersionLineStatus, number> = {
+    equal: 0,
+    changed: 0,
+    added: 0,
+    removed: 0,
+  };
+  const lines: VersionLineDiff[] = [];
+
+  for (let lineIndex = 0; lineIndex < Math.max(left.length, right.length); lineIndex++) {
+    const l = (left[lineIndex] ?? "").trim();
+    const r = (right[lineIndex] ?? "").trim();
+
+    let status: VersionLineStatus;
+    if (l === r) status = "equal";
+    else if (!l) status = "added";
+    else if (!r) status = "removed";
+    else status = "changed";
+
+    stats[status]++;
+    lines.push({
+      lineIndex,
+      left: l,
+      right: r,
+      status,
+      segments: status === "changed" ? diffText(l, r, granularity) : diffText(l, r, "line"),
+    });
+  }
+
+  return { lines, stats };
+}
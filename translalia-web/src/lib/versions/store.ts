@@ -0,0 +1,155 @@
+/**
+ * Saved Versions - persistence
+ *
+ * Reads and writes `translation_versions`. Every call takes the caller's
+ * Supabase client so RLS limits access to the thread owner and its
+ * collaborators.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  TranslationVersion,
+  TranslationVersionSummary,
+} from "@/types/versions";
+
+interface VersionRow {
+  id: string;
+  thread_id: string;
+  project_id: string;
+  title: string;
+  lines: string[];
+  tags: string[] | null;
+  summary: string | null;
+  meta: Record<string, unknown> | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const VERSION_COLUMNS =
+  "id, thread_id, project_id, title, lines, tags, summary, meta, created_by, created_at";
+const MAX_VERSIONS = 200;
+
+function rowToVersion(row: VersionRow): TranslationVersion {
+  return {
+    id: row.id,
+    threadId: row.thread_id,
+    projectId: row.project_id,
+    title: row.title,
+    lines: row.lines ?? [],
+    tags: row.tags ?? [],
+    summary: row.summary,
+    meta: row.meta ?? {},
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+export function summarizeVersion(version: TranslationVersion): TranslationVersionSummary {
+  const { lines, ...rest } = version;
+  return { ...rest, lineCount: lines.length };
+}
+
+/**
+ * Versions of a thread, newest first, without their lines.
+ */
+export async function listTranslationVersions(
+  sb: SupabaseClient,
+  threadId: string
+): Promise<TranslationVersionSummary[]> {
+  const { data, error } = await sb
+    .from("translation_versions")
+    .select(VERSION_COLUMNS)
+    .eq("thread_id", threadId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_VERSIONS);
+
+  if (error) {
+    throw new Error(`[versions] Failed to load versions: ${error.message}`);
+  }
+  return ((data ?? []) as VersionRow[]).map((row) =>
+    summarizeVersion(rowToVersion(row))
+  );
+}
+
+/**
+ * Versions of a thread by id, with their lines. Ids that do not exist in the
+ * thread are missing from the result.
+ */
+export async function getTranslationVersions(
+  sb: SupabaseClient,
+  threadId: string,
+  ids: string[]
+): Promise<Map<string, TranslationVersion>> {
+  const { data, error } = await sb
+    .from("translation_versions")
+    .select(VERSION_COLUMNS)
+    .eq("thread_id", threadId)
+    .in("id", ids);
+
+  if (error) {
+    throw new Error(`[versions] Failed to load versions: ${error.message}`);
+  }
+  return new Map(
+    ((data ?? []) as VersionRow[]).map((row) => [row.id, rowToVersion(row)])
+  );
+}
+
+/**
+ * Save a snapshot of the translation's lines.
+ */
+export async function createTranslationVersion(
+  sb: SupabaseClient,
+  params: {
+    threadId: string;
+    projectId: string;
+    userId: string;
+    title: string;
+    lines: string[];
+    tags?: string[];
+    summary?: string;
+    meta?: Record<string, unknown>;
+  }
+): Promise<TranslationVersion> {
+  const { data, error } = await sb
+    .from("translation_versions")
+    .insert({
+      thread_id: params.threadId,
+      project_id: params.projectId,
+      title: params.title.trim(),
+      lines: params.lines.map((line) => line.replace(/[\r\n]+/g, " ").trim()),
+      tags: params.tags ?? [],
+      summary: params.summary?.trim() || null,
+      meta: params.meta ?? {},
+      created_by: params.userId,
+    })
+    .select(VERSION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(
+      `[versions] Failed to save version: ${error?.message ?? "no row returned"}`
+    );
+  }
+  return rowToVersion(data as VersionRow);
+}
+
+/**
+ * Delete a version. Returns false when nothing was deleted.
+ */
+export async function deleteTranslationVersion(
+  sb: SupabaseClient,
+  threadId: string,
+  versionId: string
+): Promise<boolean> {
+  const { data, error } = await sb
+    .from("translation_versions")
+    .delete()
+    .eq("thread_id", threadId)
+    .eq("id", versionId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`[versions] Failed to delete version: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
@@ -17,6 +17,7 @@ import type {
   TranslatedLine,
 } from "@/types/translationJob";
 import type { StanzaDetectionResult } from "@/lib/poem/stanzaDetection";
+import { getSectionContext } from "@/lib/poem/sections";
 import type { GuideAnswers } from "@/store/guideSlice";
 import { translateLineInternal } from "@/lib/workshop/translateLineInternal";
 import { translateLineWithRecipesInternal } from "@/lib/translation/method2/translateLineWithRecipesInternal";
@@ -175,6 +176,7 @@ async function retryLine(
       : "the target language";
     const selectedModel = guideAnswers.translationModel;
     const translationMethod = guideAnswers.translationMethod ?? "method-2";
+    const sectionContext = getSectionContext(stanzaResult, stanzaIndex);
 
     // Retry the translation
     let lineTranslation;
@@ -193,6 +195,7 @@ async function retryLine(
         model: selectedModel,
         auditUserId,
         auditProjectId,
+        sectionContext,
       });
     } else {
       lineTranslation = await translateLineInternal({
@@ -207,6 +210,7 @@ async function retryLine(
         sourceLanguage,
         targetLanguage,
         modelOverride: selectedModel,
+        sectionContext,
         audit:
           auditUserId !== undefined
             ? {
@@ -0,0 +1,262 @@
+/**
+ * Tests for the translation DLQ: entries are listed with the thread's latest
+ * chunk errors, replayed through enqueueTranslationJob or purged by thread
+ * or failure class, and auto-replay only picks up entries dead-lettered
+ * before their failure class was marked as fixed.
+ *
+ * Run with: npx vitest run src/lib/workshop/deadLetterQueue.test.ts
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { redis, getTranslationJob } = vi.hoisted(() => {
+  const lists = new Map<string, string[]>();
+  const sets = new Map<string, Set<string>>();
+  const hashes = new Map<string, Map<string, string>>();
+  // Upstash auto-deserializes JSON values on read
+  const decode = (value: string): unknown => {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  };
+  const list = (key: string) => lists.get(key) ?? lists.set(key, []).get(key)!;
+
+  return {
+    getTranslationJob: vi.fn(),
+    redis: {
+      reset() {
+        lists.clear();
+        sets.clear();
+        hashes.clear();
+      },
+      raw: (key: string) => [...list(key)],
+      llen: async (key: string) => list(key).length,
+      lpush: async (key: string, ...values: string[]) => {
+        list(key).unshift(...values.reverse());
+        return list(key).length;
+      },
+      lrange: async (key: string, start: number, stop: number) =>
+        list(key)
+          .slice(start, stop < 0 ? undefined : stop + 1)
+          .map(decode),
+      lrem: async (key: string, count: number, value: string) => {
+        const items = list(key);
+        const index = items.indexOf(value);
+        if (index < 0) return 0;
+        items.splice(index, 1);
+        return 1;
+      },
+      sadd: async (key: string, member: string) => {
+        const set = sets.get(key) ?? sets.set(key, new Set()).get(key)!;
+        if (set.has(member)) return 0;
+        set.add(member);
+        return 1;
+      },
+      srem: async (key: string, member: string) =>
+        sets.get(key)?.delete(member) ? 1 : 0,
+      hset: async (key: string, values: Record<string, string>) => {
+        const hash = hashes.get(key) ?? hashes.set(key, new Map()).get(key)!;
+        for (const [f, v] of Object.entries(values)) hash.set(f, v);
+        return Object.keys(values).length;
+      },
+      hgetall: async (key: string) => {
+        const hash = hashes.get(key);
+        if (!hash?.size) return null;
+        return Object.fromEntries([...hash].map(([f, v]) => [f, decode(v)]));
+      },
+      hdel: async (key: string, ...fields: string[]) =>
+        fields.filter((f) => hashes.get(key)?.delete(f)).length,
+    },
+  };
+});
+
+vi.mock("@/lib/ai/cache", () => ({ getUpstashRedis: async () => redis }));
+vi.mock("./jobState", () => ({ getTranslationJob }));
+
+import {
+  addAutoReplayRule,
+  listDeadLetters,
+  purgeDeadLetters,
+  replayDeadLetters,
+  runDeadLetterAutoReplay,
+} from "./deadLetterQueue";
+import { DLQ_KEY, reenqueueWithRetry } from "./translationQueue";
+
+const QUEUE_KEY = "translation:queue";
+
+async function deadLetter(
+  threadId: string,
+  failureClass: string | undefined,
+  deadLetteredAt = Date.now() - 60_000
+) {
+  await redis.lpush(
+    DLQ_KEY,
+    JSON.stringify({
+      threadId,
+      attempt: 6,
+      enqueuedAt: deadLetteredAt - 1000,
+      failureClass,
+      traceId: `trace-${threadId}`,
+      userId: "user-1",
+      deadLetteredAt,
+    })
+  );
+}
+
+function queuedThreads(): string[] {
+  return redis.raw(QUEUE_KEY).map((v) => JSON.parse(v).threadId);
+}
+
+function dlqThreads(): string[] {
+  return redis.raw(DLQ_KEY).map((v) => {
+    try {
+      return JSON.parse(v).threadId;
+    } catch {
+      return v;
+    }
+  });
+}
+
+beforeEach(() => {
+  redis.reset();
+  getTranslationJob.mockReset();
+  getTranslationJob.mockResolvedValue(null);
+});
+
+describe("reenqueueWithRetry", () => {
+  it("moves a message past its last attempt to the DLQ with a timestamp", async () => {
+    const result = await reenqueueWithRetry({
+      threadId: "t1",
+      attempt: 5,
+      enqueuedAt: Date.now(),
+      failureClass: "TypeError",
+    });
+
+    expect(result).toEqual({ reenqueued: false, dlq: true });
+    const [entry] = (await listDeadLetters()).entries;
+    expect(entry.message).toMatchObject({ threadId: "t1", attempt: 6, failureClass: "TypeError" });
+    expect(entry.message.deadLetteredAt).toBeGreaterThan(0);
+  });
+});
+
+describe("listDeadLetters", () => {
+  it("lists newest first with the thread's latest chunk errors", async () => {
+    await deadLetter("t1", "TypeError");
+    await deadLetter("t2", "RateLimitError");
+    getTranslationJob.mockImplementation(async (threadId: string) =>
+      threadId === "t1"
+        ? {
+            status: "processing",
+            chunks: {
+              0: {
+                chunkIndex: 0,
+                error_history: [
+                  { timestamp: 1, error: "old", code: "UNKNOWN", retryable: true },
+                  { timestamp: 3, error: "newest", code: "UNKNOWN", retryable: true },
+                ],
+              },
+              1: {
+                chunkIndex: 1,
+                error_history: [
+                  { timestamp: 2, error: "middle", code: "RATE_LIMIT", retryable: true },
+                ],
+              },
+            },
+          }
+        : null
+    );
+
+    const { depth, entries } = await listDeadLetters();
+
+    expect(depth).toBe(2);
+    expect(entries.map((e) => e.message.threadId)).toEqual(["t2", "t1"]);
+    expect(entries[1].jobStatus).toBe("processing");
+    expect(entries[1].lastErrors.map((e) => [e.chunkIndex, e.error])).toEqual([
+      [0, "newest"],
+      [1, "middle"],
+      [0, "old"],
+    ]);
+    expect(entries[0]).toMatchObject({ jobStatus: null, lastErrors: [] });
+  });
+
+  it("filters by failure class, with legacy entries under 'unknown'", async () => {
+    await deadLetter("t1", "TypeError");
+    await redis.lpush(DLQ_KEY, "legacy-thread");
+
+    const { entries } = await listDeadLetters({ failureClass: "unknown" });
+    expect(entries.map((e) => e.message.threadId)).toEqual(["legacy-thread"]);
+  });
+});
+
+describe("replayDeadLetters", () => {
+  it("re-enqueues selected threads at attempt 1 and removes their entries", async () => {
+    await deadLetter("t1", "TypeError");
+    await deadLetter("t2", "TypeError");
+    await redis.lpush(DLQ_KEY, "legacy-thread");
+
+    const result = await replayDeadLetters({ threadIds: ["t1", "legacy-thread"] });
+
+    expect(result).toEqual({ replayed: ["legacy-thread", "t1"], skipped: [] });
+    expect(dlqThreads()).toEqual(["t2"]);
+    expect(queuedThreads().sort()).toEqual(["legacy-thread", "t1"]);
+    const queued = JSON.parse(redis.raw(QUEUE_KEY).find((v) => v.includes('"t1"'))!);
+    expect(queued).toMatchObject({ attempt: 1, traceId: "trace-t1", userId: "user-1" });
+  });
+
+  it("keeps entries the queue has no room for", async () => {
+    await deadLetter("t1", "TypeError");
+    for (let i = 0; i < 100; i++) {
+      await redis.lpush(QUEUE_KEY, JSON.stringify({ threadId: `q${i}`, attempt: 1 }));
+    }
+
+    const result = await replayDeadLetters({ failureClass: "TypeError" });
+
+    expect(result).toEqual({
+      replayed: [],
+      skipped: [{ threadId: "t1", reason: "queue_full" }],
+    });
+    expect(dlqThreads()).toEqual(["t1"]);
+  });
+
+  it("does nothing for an empty selector", async () => {
+    await deadLetter("t1", "TypeError");
+    expect(await replayDeadLetters({})).toEqual({ replayed: [], skipped: [] });
+    expect(await purgeDeadLetters({})).toBe(0);
+    expect(dlqThreads()).toEqual(["t1"]);
+  });
+});
+
+describe("purgeDeadLetters", () => {
+  it("removes entries by failure class without enqueueing them", async () => {
+    await deadLetter("t1", "TypeError");
+    await deadLetter("t2", "RateLimitError");
+    await deadLetter("t3", "TypeError");
+
+    expect(await purgeDeadLetters({ failureClass: "TypeError" })).toBe(2);
+    expect(dlqThreads()).toEqual(["t2"]);
+    expect(queuedThreads()).toEqual([]);
+  });
+});
+
+describe("runDeadLetterAutoReplay", () => {
+  it("is a no-op without rules", async () => {
+    await deadLetter("t1", "TypeError");
+    expect(await runDeadLetterAutoReplay()).toEqual({ replayed: [], skipped: [] });
+    expect(dlqThreads()).toEqual(["t1"]);
+  });
+
+  it("replays only entries of a fixed class dead-lettered before the fix", async () => {
+    const now = Date.now();
+    await deadLetter("before", "TypeError", now - 60_000);
+    await deadLetter("other-class", "RateLimitError", now - 60_000);
+    await addAutoReplayRule("TypeError", "ops");
+    await deadLetter("after", "TypeError", now + 60_000);
+
+    const result = await runDeadLetterAutoReplay();
+
+    expect(result.replayed).toEqual(["before"]);
+    expect(dlqThreads()).toEqual(["after", "other-class"]);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Translation Dead-Letter Queue
+ *
+ * reenqueueWithRetry() moves messages that failed MAX_RETRY_ATTEMPTS times
+ * to `translation:dlq`. This module lets operators inspect those entries
+ * (with the thread's recent chunk errors), replay them through
+ * enqueueTranslationJob() or purge them, from /api/workshop/translation-dlq
+ * or `npm run dlq:translations`.
+ *
+ * Auto-replay rules mark a failure class as fixed: the worker's periodic
+ * sweep (runDeadLetterAutoReplay) replays entries of that class that were
+ * dead-lettered before the rule was added. Entries that fail again after the
+ * fix land back in the DLQ with a later timestamp and stay there, so a fix
+ * that did not work cannot loop.
+ */
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { getUpstashRedis } from "@/lib/ai/cache";
+import { getTranslationJob, readTranslationJob } from "./jobState";
+import {
+  DLQ_KEY,
+  enqueueTranslationJob,
+  parseQueueMessage,
+  type StructuredQueueMessage,
+} from "./translationQueue";
+import type { TranslationChunkState } from "@/types/translationJob";
+
+const AUTO_REPLAY_KEY = `${DLQ_KEY}:auto-replay`;
+/** Most entries read from the DLQ in one call */
+const MAX_DLQ_READ = 1000;
+/** Chunk errors returned per entry, newest first */
+const ERROR_HISTORY_LIMIT = 5;
+
+let serviceClient: SupabaseClient | null = null;
+
+/**
+ * A thread's job for the DLQ listing. The admin route is authorised by the
+ * ops token, not a user session, so under RLS the cookie client sees no job
+ * rows: read them with the service role when it is configured.
+ */
+async function loadJob(threadId: string) {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (url && serviceKey) {
+    serviceClient ??= createClient(url, serviceKey);
+    return readTranslationJob(threadId, serviceClient);
+  }
+  return getTranslationJob(threadId);
+}
+
+/** Failure class of entries dead-lettered without one (legacy messages) */
+export const UNKNOWN_FAILURE_CLASS = "unknown";
+
+interface DeadLetterRedis {
+  llen: (key: string) => Promise<number>;
+  lrange: (key: string, start: number, stop: number) => Promise<unknown[]>;
+  lrem: (key: string, count: number, value: string) => Promise<number>;
+  hset: (key: string, values: Record<string, string>) => Promise<number>;
+  hgetall: (key: string) => Promise<Record<string, unknown> | null>;
+  hdel: (key: string, ...fields: string[]) => Promise<number>;
+}
+
+export type ChunkErrorRecord = NonNullable<
+  TranslationChunkState["error_history"]
+>[number] & { chunkIndex: number };
+
+export interface DeadLetterEntry {
+  message: StructuredQueueMessage;
+  /** Exact list value; removing the entry needs it verbatim */
+  raw: string;
+}
+
+export interface DeadLetterEntryDetail extends DeadLetterEntry {
+  jobStatus: string | null;
+  /** The thread's most recent chunk errors, newest first */
+  lastErrors: ChunkErrorRecord[];
+}
+
+/** Which entries an operation applies to; an empty selector matches none. */
+export interface DeadLetterSelector {
+  threadIds?: string[];
+  failureClass?: string;
+  all?: boolean;
+}
+
+export interface AutoReplayRule {
+  failureClass: string;
+  /** Entries dead-lettered before this (epoch ms) are replayed */
+  markedAt: number;
+  markedBy: string | null;
+}
+
+export interface DeadLetterReplayResult {
+  replayed: string[];
+  /** Entries left in the DLQ, e.g. because the queue was full */
+  skipped: Array<{ threadId: string; reason: string }>;
+}
+
+async function getRedis(): Promise<DeadLetterRedis> {
+  const redis = (await getUpstashRedis()) as DeadLetterRedis | null;
+  if (!redis) {
+    throw new Error("Redis is required to manage the translation DLQ");
+  }
+  return redis;
+}
+
+export function failureClassOf(message: StructuredQueueMessage): string {
+  return message.failureClass || UNKNOWN_FAILURE_CLASS;
+}
+
+export function matchesSelector(
+  message: StructuredQueueMessage,
+  selector: DeadLetterSelector
+): boolean {
+  if (selector.all) return true;
+  if (!selector.threadIds?.length && !selector.failureClass) return false;
+  if (selector.threadIds?.length && !selector.threadIds.includes(message.threadId)) {
+    return false;
+  }
+  return !selector.failureClass || failureClassOf(message) === selector.failureClass;
+}
+
+/** Whether a rule covers the entry: same class, dead-lettered before the fix. */
+export function isAutoReplayable(
+  message: StructuredQueueMessage,
+  rules: AutoReplayRule[]
+): boolean {
+  const rule = rules.find((r) => r.failureClass === failureClassOf(message));
+  // Entries from before deadLetteredAt was recorded predate any rule
+  return !!rule && (message.deadLetteredAt ?? 0) <= rule.markedAt;
+}
+
+/** DLQ entries, newest first (messages are LPUSHed). */
+export async function readDeadLetters(): Promise<DeadLetterEntry[]> {
+  const redis = await getRedis();
+  const values = await redis.lrange(DLQ_KEY, 0, MAX_DLQ_READ - 1);
+  return (values ?? []).map((value) => ({
+    // Upstash auto-deserializes JSON list entries; re-serializing keeps the
+    // key order they were written with
+    raw: typeof value === "string" ? value : JSON.stringify(value),
+    message: parseQueueMessage(value as string | object),
+  }));
+}
+
+export async function getDeadLetterDepth(): Promise<number> {
+  return (await getRedis()).llen(DLQ_KEY);
+}
+
+function recentErrors(
+  chunks: TranslationChunkState[] | undefined
+): ChunkErrorRecord[] {
+  return (chunks ?? [])
+    .flatMap((chunk) =>
+      (chunk.error_history ?? []).map((e) => ({ ...e, chunkIndex: chunk.chunkIndex }))
+    )
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, ERROR_HISTORY_LIMIT);
+}
+
+/**
+ * DLQ entries (optionally one failure class), newest first, with each
+ * thread's job status and latest chunk errors.
+ */
+export async function listDeadLetters(
+  opts: { failureClass?: string; limit?: number } = {}
+): Promise<{ depth: number; entries: DeadLetterEntryDetail[] }> {
+  const all = await readDeadLetters();
+  const entries = all
+    .filter((e) => !opts.failureClass || failureClassOf(e.message) === opts.failureClass)
+    .slice(0, opts.limit ?? 50);
+
+  const jobs = new Map<string, Awaited<ReturnType<typeof loadJob>>>();
+  for (const threadId of new Set(entries.map((e) => e.message.threadId))) {
+    jobs.set(
+      threadId,
+      await loadJob(threadId).catch((error) => {
+        console.warn(`[deadLetterQueue] Failed to load job ${threadId}:`, error);
+        return null;
+      })
+    );
+  }
+
+  return {
+    depth: all.length,
+    entries: entries.map((entry) => {
+      const job = jobs.get(entry.message.threadId);
+      return {
+        ...entry,
+        jobStatus: job?.status ?? null,
+        lastErrors: recentErrors(job ? Object.values(job.chunks ?? {}) : undefined),
+      };
+    }),
+  };
+}
+
+async function replayEntries(
+  redis: DeadLetterRedis,
+  entries: DeadLetterEntry[]
+): Promise<DeadLetterReplayResult> {
+  const result: DeadLetterReplayResult = { replayed: [], skipped: [] };
+  for (const entry of entries) {
+    const { threadId, userId, traceId, model, lines } = entry.message;
+    const enqueue = await enqueueTranslationJob(threadId, {
+      userId,
+      traceId,
+      model,
+      lines,
+    });
+    // already_active: the thread is queued or running again, so the entry
+    // is obsolete either way
+    if (enqueue.enqueued || enqueue.reason === "already_active") {
+      await redis.lrem(DLQ_KEY, 1, entry.raw);
+      result.replayed.push(threadId);
+    } else {
+      result.skipped.push({ threadId, reason: enqueue.reason ?? "not_enqueued" });
+    }
+  }
+  return result;
+}
+
+/** Re-enqueue matching entries (at attempt 1) and drop them from the DLQ. */
+export async function replayDeadLetters(
+  selector: DeadLetterSelector
+): Promise<DeadLetterReplayResult> {
+  const redis = await getRedis();
+  const entries = (await readDeadLetters()).filter((e) =>
+    matchesSelector(e.message, selector)
+  );
+  const result = await replayEntries(redis, entries);
+  console.log(
+    `[deadLetterQueue] Replayed ${result.replayed.length}, skipped ${result.skipped.length}`
+  );
+  return result;
+}
+
+/** Remove matching entries without replaying them. Returns how many. */
+export async function purgeDeadLetters(selector: DeadLetterSelector): Promise<number> {
+  const redis = await getRedis();
+  let removed = 0;
+  for (const entry of await readDeadLetters()) {
+    if (matchesSelector(entry.message, selector)) {
+      removed += await redis.lrem(DLQ_KEY, 1, entry.raw);
+    }
+  }
+  console.log(`[deadLetterQueue] Purged ${removed} entries`);
+  return removed;
+}
+
+export async function listAutoReplayRules(): Promise<AutoReplayRule[]> {
+  const redis = await getRedis();
+  const hash = (await redis.hgetall(AUTO_REPLAY_KEY)) ?? {};
+  return Object.entries(hash)
+    .map(([failureClass, value]) => {
+      const rule = (typeof value === "string" ? JSON.parse(value) : value) as
+        Partial<AutoReplayRule>;
+      return {
+        failureClass,
+        markedAt: rule.markedAt ?? 0,
+        markedBy: rule.markedBy ?? null,
+      };
+    })
+    .sort((a, b) => a.failureClass.localeCompare(b.failureClass));
+}
+
+/** Mark `failureClass` as fixed from now on; replaces an earlier mark. */
+export async function addAutoReplayRule(
+  failureClass: string,
+  markedBy: string | null = null
+): Promise<AutoReplayRule> {
+  const redis = await getRedis();
+  const rule: AutoReplayRule = { failureClass, markedAt: Date.now(), markedBy };
+  await redis.hset(AUTO_REPLAY_KEY, {
+    [failureClass]: JSON.stringify({ markedAt: rule.markedAt, markedBy }),
+  });
+  return rule;
+}
+
+export async function removeAutoReplayRule(failureClass: string): Promise<boolean> {
+  const redis = await getRedis();
+  return (await redis.hdel(AUTO_REPLAY_KEY, failureClass)) > 0;
+}
+
+/**
+ * Replay every entry an auto-replay rule covers. Called periodically by the
+ * translation worker; a no-op without rules.
+ */
+export async function runDeadLetterAutoReplay(): Promise<DeadLetterReplayResult> {
+  const rules = await listAutoReplayRules();
+  if (rules.length === 0) return { replayed: [], skipped: [] };
+
+  const redis = await getRedis();
+  const entries = (await readDeadLetters()).filter((e) =>
+    isAutoReplayable(e.message, rules)
+  );
+  if (entries.length === 0) return { replayed: [], skipped: [] };
+
+  const result = await replayEntries(redis, entries);
+  console.log(
+    `[deadLetterQueue] Auto-replayed ${result.replayed.length} entries ` +
+      `(${rules.map((r) => r.failureClass).join(", ")})`
+  );
+  return result;
+}
@@ -0,0 +1,274 @@
+/**
+ * Tests for the fair translation scheduler: users take weighted turns,
+ * interactive work goes first without starving bulk work, models at their
+ * cap wait, and claims remove the picked message from the Redis queue and
+ * take the turn only once they succeed.
+ *
+ * Run with: npx vitest run src/lib/workshop/fairScheduler.test.ts
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { redis } = vi.hoisted(() => {
+  const lists = new Map<string, string[]>();
+  const sets = new Map<string, Set<string>>();
+  // Upstash auto-deserializes JSON values on read
+  const decode = (value: string): unknown => {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  };
+  const list = (key: string) => lists.get(key) ?? lists.set(key, []).get(key)!;
+  const set = (key: string) => sets.get(key) ?? sets.set(key, new Set()).get(key)!;
+
+  return {
+    redis: {
+      reset() {
+        lists.clear();
+        sets.clear();
+      },
+      raw: (key: string) => [...list(key)],
+      members: (key: string) => [...set(key)],
+      llen: async (key: string) => list(key).length,
+      lpush: async (key: string, ...values: string[]) => {
+        list(key).unshift(...values.reverse());
+        return list(key).length;
+      },
+      lrange: async (key: string, start: number, stop: number) =>
+        list(key)
+          .slice(start, stop < 0 ? undefined : stop + 1)
+          .map(decode),
+      lrem: async (key: string, count: number, value: string) => {
+        const items = list(key);
+        const index = items.indexOf(value);
+        if (index < 0) return 0;
+        items.splice(index, 1);
+        return 1;
+      },
+      sadd: async (key: string, member: string) => {
+        if (set(key).has(member)) return 0;
+        set(key).add(member);
+        return 1;
+      },
+      srem: async (key: string, member: string) => (set(key).delete(member) ? 1 : 0),
+      smembers: async (key: string) => [...set(key)],
+    },
+  };
+});
+
+vi.mock("@/lib/ai/cache", () => ({ getUpstashRedis: async () => redis }));
+
+import {
+  FairScheduler,
+  claimNextTranslationJob,
+  parseWeightList,
+  type SchedulerCandidate,
+} from "./fairScheduler";
+import {
+  INTERACTIVE_KEY,
+  QUEUE_KEY,
+  deactivateTranslationJob,
+  enqueueTranslationJob,
+  type QueuePriority,
+} from "./translationQueue";
+
+function candidate(
+  threadId: string,
+  userId: string,
+  priority: QueuePriority = "bulk",
+  model = "gpt-4o"
+): SchedulerCandidate {
+  return {
+    message: { threadId, userId, model, attempt: 1, enqueuedAt: 0 },
+    priority,
+    raw: threadId,
+  };
+}
+
+/** Run the scheduler over a fixed backlog, committing and removing each pick. */
+function drain(scheduler: FairScheduler, waiting: SchedulerCandidate[]): string[] {
+  const order: string[] = [];
+  const remaining = [...waiting];
+  for (let pick = scheduler.select(remaining); pick; pick = scheduler.select(remaining)) {
+    scheduler.commit(pick);
+    order.push(pick.candidate.message.threadId);
+    remaining.splice(remaining.indexOf(pick.candidate), 1);
+  }
+  return order;
+}
+
+beforeEach(() => {
+  redis.reset();
+});
+
+describe("parseWeightList", () => {
+  it("parses key=n pairs and skips invalid entries", () => {
+    expect(parseWeightList("user-a=3, gpt-4o=2,bad,zero=0,neg=-1,=4")).toEqual({
+      "user-a": 3,
+      "gpt-4o": 2,
+    });
+    expect(parseWeightList(undefined)).toEqual({});
+  });
+});
+
+describe("FairScheduler.select", () => {
+  it("alternates between users instead of draining one user's backlog", () => {
+    const heavy = Array.from({ length: 4 }, (_, i) => candidate(`a${i}`, "alice"));
+    const order = drain(new FairScheduler(), [
+      ...heavy,
+      candidate("b0", "bob"),
+      candidate("c0", "carol"),
+    ]);
+    expect(order).toEqual(["a0", "b0", "c0", "a1", "a2", "a3"]);
+  });
+
+  it("gives weighted users proportionally more turns", () => {
+    const scheduler = new FairScheduler({ userWeights: { alice: 2 } });
+    const waiting = [
+      ...Array.from({ length: 4 }, (_, i) => candidate(`a${i}`, "alice")),
+      ...Array.from({ length: 2 }, (_, i) => candidate(`b${i}`, "bob")),
+    ];
+    expect(drain(scheduler, waiting)).toEqual(["a0", "b0", "a1", "a2", "b1", "a3"]);
+  });
+
+  it("picks interactive work first but lets bulk through after a burst", () => {
+    const scheduler = new FairScheduler({ interactiveBurst: 2 });
+    const waiting = [
+      candidate("bulk", "alice"),
+      ...Array.from({ length: 3 }, (_, i) => candidate(`i${i}`, "bob", "interactive")),
+    ];
+    expect(drain(scheduler, waiting)).toEqual(["i0", "i1", "bulk", "i2"]);
+  });
+
+  it("skips models at their cap until a tick is released", () => {
+    const scheduler = new FairScheduler({ modelCaps: { "gpt-5": 1 } });
+    const first = candidate("t1", "alice", "bulk", "gpt-5");
+    const second = candidate("t2", "bob", "bulk", "gpt-5");
+    const other = candidate("t3", "carol", "bulk", "gpt-4o");
+
+    expect(scheduler.select([first, second, other])?.candidate).toBe(first);
+    scheduler.acquire(first.message);
+    expect(scheduler.select([second, other])?.candidate).toBe(other);
+    expect(scheduler.select([second])).toBeNull();
+    expect(scheduler.inFlightByModel()).toEqual({ "gpt-5": 1 });
+
+    scheduler.release(first.message);
+    expect(scheduler.select([second])?.candidate).toBe(second);
+  });
+
+  it("caps messages without a model under the default model", () => {
+    const scheduler = new FairScheduler({
+      modelCaps: { "gpt-4o": 1 },
+      defaultModel: "gpt-4o",
+    });
+    const legacy: SchedulerCandidate = {
+      message: { threadId: "legacy", attempt: 1, enqueuedAt: 0 },
+      priority: "bulk",
+      raw: "legacy",
+    };
+    scheduler.acquire(candidate("t1", "alice").message);
+    expect(scheduler.select([legacy])).toBeNull();
+  });
+
+  it("keeps the turn until a pick is committed", () => {
+    const scheduler = new FairScheduler({ interactiveBurst: 1 });
+    const waiting = [
+      candidate("a0", "alice"),
+      candidate("b0", "bob"),
+      candidate("i0", "carol", "interactive"),
+    ];
+
+    expect(scheduler.select(waiting)?.candidate.message.threadId).toBe("i0");
+    expect(scheduler.select(waiting)?.candidate.message.threadId).toBe("i0");
+    expect(drain(scheduler, waiting)).toEqual(["i0", "a0", "b0"]);
+  });
+});
+
+describe("claimNextTranslationJob", () => {
+  it("claims fairly across users from the shared queue", async () => {
+    await enqueueTranslationJob("a1", { userId: "alice" });
+    await enqueueTranslationJob("a2", { userId: "alice" });
+    await enqueueTranslationJob("b1", { userId: "bob" });
+
+    const scheduler = new FairScheduler();
+    const claimed: string[] = [];
+    for (let msg = await claimNextTranslationJob(scheduler); msg; ) {
+      claimed.push(msg.threadId);
+      scheduler.release(msg);
+      msg = await claimNextTranslationJob(scheduler);
+    }
+
+    expect(claimed).toEqual(["a1", "b1", "a2"]);
+    expect(redis.raw(QUEUE_KEY)).toEqual([]);
+  });
+
+  it("promotes an already queued thread for one claim", async () => {
+    await enqueueTranslationJob("bulk-1", { userId: "alice" });
+    await enqueueTranslationJob("retry", { userId: "bob" });
+    const promote = await enqueueTranslationJob("retry", {
+      userId: "bob",
+      priority: "interactive",
+    });
+    expect(promote).toEqual({ enqueued: false, reason: "already_active" });
+
+    const msg = await claimNextTranslationJob(new FairScheduler());
+
+    expect(msg?.threadId).toBe("retry");
+    expect(redis.members(INTERACTIVE_KEY)).toEqual([]);
+  });
+
+  it("retries a pick lost to another consumer without using up the turn", async () => {
+    await enqueueTranslationJob("a1", { userId: "alice" });
+    await enqueueTranslationJob("a2", { userId: "alice" });
+    await enqueueTranslationJob("b1", { userId: "bob" });
+    const lrem = vi.spyOn(redis, "lrem").mockResolvedValueOnce(0);
+
+    const scheduler = new FairScheduler();
+    const claimed: string[] = [];
+    for (let msg = await claimNextTranslationJob(scheduler); msg; ) {
+      claimed.push(msg.threadId);
+      scheduler.release(msg);
+      msg = await claimNextTranslationJob(scheduler);
+    }
+
+    expect(claimed).toEqual(["a1", "b1", "a2"]);
+    lrem.mockRestore();
+  });
+
+  it("reads both ends of a long queue instead of the whole list", async () => {
+    // Past the admission depth, as a backlog left by several API instances
+    const message = (threadId: string, userId: string) =>
+      JSON.stringify({ threadId, userId, attempt: 1, enqueuedAt: 0 });
+    for (let i = 0; i < 250; i++) {
+      await redis.lpush(QUEUE_KEY, message(`a${i}`, "alice"));
+    }
+    await redis.lpush(QUEUE_KEY, message("retry", "bob"));
+    await redis.sadd(INTERACTIVE_KEY, "retry");
+    const lrange = vi.spyOn(redis, "lrange");
+
+    const scheduler = new FairScheduler();
+    const first = await claimNextTranslationJob(scheduler);
+    const second = await claimNextTranslationJob(scheduler);
+
+    expect([first?.threadId, second?.threadId]).toEqual(["retry", "a0"]);
+    expect(lrange).not.toHaveBeenCalledWith(QUEUE_KEY, 0, -1);
+    lrange.mockRestore();
+  });
+
+  it("reads legacy raw threadId entries", async () => {
+    await redis.lpush(QUEUE_KEY, "legacy-thread");
+    const msg = await claimNextTranslationJob(new FairScheduler());
+    expect(msg).toMatchObject({ threadId: "legacy-thread", attempt: 1 });
+    expect(redis.raw(QUEUE_KEY)).toEqual([]);
+  });
+});
+
+describe("deactivateTranslationJob", () => {
+  it("drops a pending interactive promotion", async () => {
+    await enqueueTranslationJob("t1", { userId: "alice", priority: "interactive" });
+    await deactivateTranslationJob("t1");
+    expect(redis.members(INTERACTIVE_KEY)).toEqual([]);
+  });
+});
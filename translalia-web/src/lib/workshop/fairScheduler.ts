@@ -0,0 +1,307 @@
+/**
+ * Fair Translation Scheduler
+ *
+ * The translation queue stays a single Redis list (admission control, stats
+ * and the DLQ are unchanged), but the worker no longer pops its tail: it
+ * reads the waiting messages and claims the one this scheduler picks.
+ *
+ * - Priority classes: threads promoted via enqueueTranslationJob's
+ *   `priority: "interactive"` (stanza retries) go before bulk work. After
+ *   `TRANSLATION_INTERACTIVE_BURST` interactive picks in a row, one waiting
+ *   bulk message is picked so bulk work cannot starve.
+ * - Per-user fairness: within a class, users take turns by smooth weighted
+ *   round-robin (`TRANSLATION_USER_WEIGHTS`, default weight 1), oldest
+ *   message first per user. One user with ten long poems gets one tick per
+ *   turn, like everyone else.
+ * - Per-model caps: messages whose model already has
+ *   `TRANSLATION_MODEL_CONCURRENCY` ticks in flight on this worker wait.
+ *
+ * Each pick is one runTranslationTick(); getNextStanzasToProcess() still
+ * chooses the stanzas within the tick, and re-enqueued jobs wait their turn
+ * again. Promotion lasts one tick: re-enqueues are bulk.
+ *
+ * A claim reads the `CLAIM_SCAN_WINDOW` oldest and newest messages, not the
+ * whole list: the oldest are where every user's turn starts, the newest are
+ * where interactive retries land. Messages in between wait until they age
+ * into the window.
+ */
+
+import { getUpstashRedis } from "@/lib/ai/cache";
+import { TRANSLATOR_MODEL } from "@/lib/models";
+import {
+  INTERACTIVE_KEY,
+  QUEUE_KEY,
+  parseQueueMessage,
+  type QueuePriority,
+  type StructuredQueueMessage,
+} from "./translationQueue";
+
+/** Bucket for legacy messages enqueued without a userId */
+const ANONYMOUS_USER = "anonymous";
+/** Claims retried when another consumer removed the picked message first */
+const MAX_CLAIM_ATTEMPTS = 3;
+/** Messages read from each end of the queue per claim */
+const CLAIM_SCAN_WINDOW = 100;
+
+interface SchedulerRedis {
+  llen: (key: string) => Promise<number>;
+  lrange: (key: string, start: number, stop: number) => Promise<unknown[]>;
+  lrem: (key: string, count: number, value: string) => Promise<number>;
+  smembers: (key: string) => Promise<string[]>;
+  srem: (key: string, member: string) => Promise<number>;
+}
+
+export interface FairSchedulerOptions {
+  /** Round-robin weight per user id; unlisted users weigh 1 */
+  userWeights?: Record<string, number>;
+  /** Max in-flight ticks per model; unlisted models are uncapped */
+  modelCaps?: Record<string, number>;
+  /** Interactive picks in a row before a waiting bulk message goes */
+  interactiveBurst?: number;
+  /** Model assumed for messages enqueued without one */
+  defaultModel?: string;
+}
+
+export interface SchedulerCandidate {
+  message: StructuredQueueMessage;
+  priority: QueuePriority;
+  /** Exact list value; claiming the message needs it verbatim */
+  raw: string;
+}
+
+/**
+ * A selected candidate with the scheduler state that picking it leads to.
+ * The state only takes effect on commit(), once the message is claimed.
+ */
+export interface SchedulerPick {
+  candidate: SchedulerCandidate;
+  credits: Record<QueuePriority, Map<string, number>>;
+  interactiveStreak: number;
+}
+
+/**
+ * Parse "key=n,key2=m" (as used by the weight and cap env vars). Entries
+ * without a positive integer are ignored.
+ */
+export function parseWeightList(value: string | undefined): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const entry of (value ?? "").split(",")) {
+    const separator = entry.lastIndexOf("=");
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator).trim();
+    const n = parseInt(entry.slice(separator + 1), 10);
+    if (key && n > 0) result[key] = n;
+  }
+  return result;
+}
+
+/**
+ * Picks the next translation job to tick. Holds the round-robin credits and
+ * per-model in-flight counts, so one instance lives for the worker's lifetime.
+ */
+export class FairScheduler {
+  private userWeights: Record<string, number>;
+  private modelCaps: Record<string, number>;
+  private interactiveBurst: number;
+  private defaultModel: string;
+  /** Smooth WRR current weights per class and user */
+  private credits: Record<QueuePriority, Map<string, number>> = {
+    interactive: new Map(),
+    bulk: new Map(),
+  };
+  private interactiveStreak = 0;
+  private inFlight = new Map<string, number>();
+
+  constructor(options: FairSchedulerOptions = {}) {
+    this.userWeights = options.userWeights ?? {};
+    this.modelCaps = options.modelCaps ?? {};
+    const burst = options.interactiveBurst ?? 4;
+    this.interactiveBurst = Number.isNaN(burst) ? 4 : Math.max(1, burst);
+    this.defaultModel = options.defaultModel ?? TRANSLATOR_MODEL;
+  }
+
+  modelOf(message: StructuredQueueMessage): string {
+    return message.model || this.defaultModel;
+  }
+
+  private userOf(message: StructuredQueueMessage): string {
+    return message.userId || ANONYMOUS_USER;
+  }
+
+  private weightOf(user: string): number {
+    return this.userWeights[user] ?? 1;
+  }
+
+  private underCap(message: StructuredQueueMessage): boolean {
+    const model = this.modelOf(message);
+    const cap = this.modelCaps[model];
+    return cap === undefined || (this.inFlight.get(model) ?? 0) < cap;
+  }
+
+  /**
+   * One weighted round-robin turn among the users waiting in a class, with
+   * the class's credits after the turn (the held credits are not changed).
+   */
+  private pickUser(
+    priority: QueuePriority,
+    candidates: SchedulerCandidate[]
+  ): { candidate: SchedulerCandidate; credits: Map<string, number> } {
+    // First (oldest) candidate per user, in queue order
+    const heads = new Map<string, SchedulerCandidate>();
+    for (const candidate of candidates) {
+      const user = this.userOf(candidate.message);
+      if (!heads.has(user)) heads.set(user, candidate);
+    }
+
+    const credits = new Map(this.credits[priority]);
+    // Users that stopped waiting do not bank credit for later
+    for (const user of credits.keys()) {
+      if (!heads.has(user)) credits.delete(user);
+    }
+
+    let total = 0;
+    let best: { user: string; credit: number } | null = null;
+    for (const user of heads.keys()) {
+      const weight = this.weightOf(user);
+      const credit = (credits.get(user) ?? 0) + weight;
+      credits.set(user, credit);
+      total += weight;
+      // Ties go to the user with the oldest waiting message
+      if (!best || credit > best.credit) best = { user, credit };
+    }
+
+    credits.set(best!.user, best!.credit - total);
+    return { candidate: heads.get(best!.user)!, credits };
+  }
+
+  /**
+   * Pick the next message from the waiting ones (oldest first), or null when
+   * none is waiting or every waiting message's model is at its cap. Nothing
+   * changes until the pick is committed.
+   */
+  select(waiting: SchedulerCandidate[]): SchedulerPick | null {
+    const eligible = waiting.filter((c) => this.underCap(c.message));
+    const interactive = eligible.filter((c) => c.priority === "interactive");
+    const bulk = eligible.filter((c) => c.priority === "bulk");
+
+    const priority: QueuePriority | null =
+      interactive.length > 0 &&
+      (bulk.length === 0 || this.interactiveStreak < this.interactiveBurst)
+        ? "interactive"
+        : bulk.length > 0
+          ? "bulk"
+          : null;
+    if (!priority) return null;
+
+    const { candidate, credits } = this.pickUser(
+      priority,
+      priority === "interactive" ? interactive : bulk
+    );
+    return {
+      candidate,
+      credits: { ...this.credits, [priority]: credits },
+      interactiveStreak:
+        priority === "interactive" ? this.interactiveStreak + 1 : 0,
+    };
+  }
+
+  /** Take the turn of a pick whose message was claimed. */
+  commit(pick: SchedulerPick): void {
+    this.credits = pick.credits;
+    this.interactiveStreak = pick.interactiveStreak;
+  }
+
+  /** Count a claimed message against its model's cap until release(). */
+  acquire(message: StructuredQueueMessage): void {
+    const model = this.modelOf(message);
+    this.inFlight.set(model, (this.inFlight.get(model) ?? 0) + 1);
+  }
+
+  release(message: StructuredQueueMessage): void {
+    const model = this.modelOf(message);
+    const count = (this.inFlight.get(model) ?? 0) - 1;
+    if (count > 0) this.inFlight.set(model, count);
+    else this.inFlight.delete(model);
+  }
+
+  inFlightByModel(): Record<string, number> {
+    return Object.fromEntries(this.inFlight);
+  }
+}
+
+/** Scheduler configured from the TRANSLATION_* env vars. */
+export function createFairScheduler(
+  options: FairSchedulerOptions = {}
+): FairScheduler {
+  return new FairScheduler({
+    userWeights: parseWeightList(process.env.TRANSLATION_USER_WEIGHTS),
+    modelCaps: parseWeightList(process.env.TRANSLATION_MODEL_CONCURRENCY),
+    interactiveBurst: parseInt(process.env.TRANSLATION_INTERACTIVE_BURST || "4", 10),
+    ...options,
+  });
+}
+
+/**
+ * Queue values at both ends of the list, in list order (newest first). The
+ * two windows overlap when the list is shorter than twice the window.
+ */
+async function readQueueEnds(redis: SchedulerRedis): Promise<unknown[]> {
+  const [length, newest, oldest] = await Promise.all([
+    redis.llen(QUEUE_KEY),
+    redis.lrange(QUEUE_KEY, 0, CLAIM_SCAN_WINDOW - 1),
+    redis.lrange(QUEUE_KEY, -CLAIM_SCAN_WINDOW, -1),
+  ]);
+  const overlap = Math.max(
+    0,
+    Math.min(CLAIM_SCAN_WINDOW, length) - Math.max(0, length - CLAIM_SCAN_WINDOW)
+  );
+  return [...(newest ?? []), ...(oldest ?? []).slice(overlap)];
+}
+
+/**
+ * Claim the message the scheduler picks: it is removed from the queue
+ * (LREM, so a concurrent consumer cannot claim it too), the scheduler takes
+ * the turn, its interactive promotion is consumed and it counts against its
+ * model's cap until the caller releases it. A pick lost to another consumer
+ * leaves the turn untouched. Null when nothing is claimable right now.
+ */
+export async function claimNextTranslationJob(
+  scheduler: FairScheduler
+): Promise<StructuredQueueMessage | null> {
+  const redis = (await getUpstashRedis()) as SchedulerRedis | null;
+  if (!redis) return null;
+
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const [values, promoted] = await Promise.all([
+      readQueueEnds(redis),
+      redis.smembers(INTERACTIVE_KEY),
+    ]);
+    if (!values?.length) return null;
+
+    const interactive = new Set(promoted ?? []);
+    // Messages are LPUSHed, so the oldest is at the tail
+    const waiting = [...values].reverse().map((value) => {
+      const message = parseQueueMessage(value as string | object);
+      return {
+        message,
+        priority: interactive.has(message.threadId) ? "interactive" : "bulk",
+        // Upstash auto-deserializes JSON list entries; re-serializing keeps
+        // the key order they were written with
+        raw: typeof value === "string" ? value : JSON.stringify(value),
+      } satisfies SchedulerCandidate;
+    });
+
+    const pick = scheduler.select(waiting);
+    if (!pick) return null;
+
+    const { candidate } = pick;
+    if ((await redis.lrem(QUEUE_KEY, 1, candidate.raw)) === 0) continue;
+    scheduler.commit(pick);
+    if (candidate.priority === "interactive") {
+      await redis.srem(INTERACTIVE_KEY, candidate.message.threadId);
+    }
+    scheduler.acquire(candidate.message);
+    return candidate.message;
+  }
+  return null;
+}
@@ -1,5 +1,19 @@
+/**
+ * Translation Job State - persistence and scheduling helpers for background
+ * translation jobs.
+ *
+ * Jobs live in the translation_jobs / translation_job_chunks /
+ * translation_job_lines tables (see jobTables.ts); writes are row-level and
+ * version-checked. Threads that still carry a chat_threads.state.translation_job
+ * blob are migrated into the tables the first time they are read.
+ *
+ * Every successful write publishes its status transitions to the progress
+ * event log (progressEvents.ts) that backs the translation-events stream.
+ */
+
 import { randomUUID } from "node:crypto";
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { supabaseServer } from "@/lib/supabaseServer";
 import type {
   TranslationJobContext,
@@ -8,14 +22,44 @@ import type {
   TranslationStanzaState,
   TranslationTickResult,
   ProcessingStatus,
+  TranslatedLine,
 } from "@/types/translationJob";
+import type { AlignedWord } from "@/types/lineTranslation";
 import { createRetryTelemetryCollector, noOpRetryTelemetry } from "@/lib/telemetry/retryTelemetry";
 import type { TickInstrumentation } from "./runTranslationTick";
+import { publishProgressEvents } from "./progressEvents";
+import { diffProgressEvents } from "./translationProgress";
+import {
+  diffJobRows,
+  isEmptyChangeSet,
+  jobToRows,
+  rowsToJob,
+  type TranslationChunkRow,
+  type TranslationJobChanges,
+  type TranslationJobRow,
+  type TranslationJobRows,
+  type TranslationLineRow,
+} from "./jobTables";
 
 const DEFAULT_MAX_CONCURRENT = 5;
 const DEFAULT_MAX_STANZAS_PER_TICK = 5; // Increased from 2 to match maxConcurrent for parallel processing
 const DEFAULT_MAX_RETRIES = 3;
 
+const JOBS_TABLE = "translation_jobs";
+
+/** Columns read for a job, with its chunk and line rows embedded. */
+const JOB_SELECT =
+  "job_id, thread_id, version, status, queue, active, max_concurrent, " +
+  "max_chunks_per_tick, full_poem, guide_preferences, meta, " +
+  "translation_job_chunks(chunk_index, version, status, lines_processed, " +
+  "total_lines, retries, max_retries, next_retry_at, error, error_history, " +
+  "meta, updated_at), " +
+  "translation_job_lines(line_number, chunk_index, version, " +
+  "translation_status, alignment_status, line, updated_at)";
+
+/** SQLSTATE raised by translation_job_apply when a row version moved. */
+const CONCURRENT_UPDATE_CODE = "40001";
+
 interface ThreadState {
   translation_job?: TranslationJobState;
   [key: string]: unknown;
@@ -75,6 +119,13 @@ function ensureQueuedCapacity(job: TranslationJobState): void {
   }
 }
 
+// ============================================================================
+// Row Persistence
+// ============================================================================
+
+/**
+ * Legacy read: the pre-table job blob in chat_threads.state.
+ */
 async function fetchThreadState(threadId: string): Promise<ThreadState> {
   const supabase = await supabaseServer();
   const { data, error } = await supabase
@@ -92,79 +143,187 @@ async function fetchThreadState(threadId: string): Promise<ThreadState> {
   return ((data?.state as ThreadState) ?? {}) as ThreadState;
 }
 
+/**
+ * Load the job row with its chunk and line rows in one request, so the
+ * versions all come from the same snapshot.
+ */
+async function fetchJobRows(
+  threadId: string,
+  client?: SupabaseClient
+): Promise<TranslationJobRows | null> {
+  const supabase = client ?? (await supabaseServer());
+  const { data, error } = await supabase
+    .from(JOBS_TABLE)
+    .select(JOB_SELECT)
+    .eq("thread_id", threadId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(
+      `[jobState] Failed to load translation job for ${threadId}: ${error.message}`
+    );
+  }
+  if (!data) return null;
+
+  const {
+    translation_job_chunks: chunks,
+    translation_job_lines: lines,
+    ...job
+  } = data as unknown as TranslationJobRow & {
+    translation_job_chunks: TranslationChunkRow[] | null;
+    translation_job_lines: TranslationLineRow[] | null;
+  };
+  return { job, chunks: chunks ?? [], lines: lines ?? [] };
+}
+
+/**
+ * Replace (or clear, when `job` is null) a thread's job rows in one
+ * transaction, removing `stripStateKeys` from chat_threads.state as well.
+ * Returns the job_id stored for the thread afterwards.
+ */
+async function replaceJobRows(
+  threadId: string,
+  job: TranslationJobState | null,
+  options: { stripStateKeys?: string[]; onlyIfAbsent?: boolean } = {}
+): Promise<string | null> {
+  const rows = job ? jobToRows(threadId, job) : null;
+  const supabase = await supabaseServer();
+  const { data, error } = await supabase.rpc("translation_job_replace", {
+    p_thread_id: threadId,
+    p_job: rows?.job ?? null,
+    p_chunks: rows?.chunks ?? [],
+    p_lines: rows?.lines ?? [],
+    p_strip_state_keys: options.stripStateKeys ?? [],
+    p_only_if_absent: options.onlyIfAbsent ?? false,
+  });
+
+  if (error) {
+    throw new Error(
+      `[jobState] Failed to persist translation job for ${threadId}: ${error.message}`
+    );
+  }
+  return (data as string | null) ?? null;
+}
+
+/**
+ * Load a thread's job rows, importing a legacy state.translation_job blob
+ * into the tables on first read.
+ */
+async function loadJobRows(
+  threadId: string
+): Promise<TranslationJobRows | null> {
+  const rows = await fetchJobRows(threadId);
+  if (rows) return rows;
+
+  const legacy = (await fetchThreadState(threadId)).translation_job;
+  if (!legacy) return null;
+
+  console.log(
+    `[jobState] Migrating translation job ${legacy.jobId} for thread ${threadId} from state blob to tables`
+  );
+  // onlyIfAbsent: a concurrent reader may have migrated it already; the
+  // function then keeps and returns that reader's job.
+  await replaceJobRows(threadId, legacy, {
+    stripStateKeys: ["translation_job"],
+    onlyIfAbsent: true,
+  });
+  return fetchJobRows(threadId);
+}
+
+function toJob(rows: TranslationJobRows): TranslationJobState {
+  const job = rowsToJob(rows);
+  job.processing_status = computeProcessingStatus(job);
+  return job;
+}
+
+/**
+ * Read a thread's job with the given client, e.g. the service role for ops
+ * tooling that has no user session. Read-only: a legacy state blob is not
+ * migrated (returns null).
+ */
+export async function readTranslationJob(
+  threadId: string,
+  client: SupabaseClient
+): Promise<TranslationJobState | null> {
+  const rows = await fetchJobRows(threadId, client);
+  return rows ? toJob(rows) : null;
+}
+
 /**
  * Helper to log state writer activity before write
  */
 function logStateWrite(
   writer: string,
   threadId: string,
-  state: ThreadState,
-  previousVersion?: number,
-  fieldPath?: string[]
+  job: TranslationJobState,
+  changes: TranslationJobChanges,
+  previousVersion: number
 ): void {
-  const translationJob = state.translation_job;
-  const jobVersion = translationJob?.version ?? "none";
-  const chunks = translationJob?.chunks || {};
+  const chunks = job.chunks || {};
   const chunk0Lines = chunks[0]?.lines?.length ?? "none";
   const chunk1Lines = chunks[1]?.lines?.length ?? "none";
-  const activeIndices = translationJob?.active || [];
-  const queueLength = translationJob?.queue?.length ?? "none";
-  const activeLength = activeIndices.length;
-  const activeDisplay = activeLength > 0 ? `[${activeIndices.join(",")}]` : "[]";
-  
-  const versionCheck = previousVersion !== undefined ? "yes" : "no";
-  const writingVersion = translationJob?.version ?? "none";
-  const prevSeenVersion = previousVersion ?? "none";
-  
-  const updatingPart = fieldPath && Array.isArray(fieldPath) && fieldPath.length > 0 ? ` updating=${fieldPath.join(".")}` : "";
-  
+  const activeDisplay = job.active.length > 0 ? `[${job.active.join(",")}]` : "[]";
+  const updating = [
+    changes.job ? "job" : null,
+    changes.chunks.length > 0
+      ? `chunks[${changes.chunks.map((c) => c.chunk_index).join(",")}]`
+      : null,
+    changes.lines.length > 0
+      ? `lines[${changes.lines.map((l) => l.line_number).join(",")}]`
+      : null,
+    changes.deleteLines.length > 0
+      ? `deleteLines[${changes.deleteLines.join(",")}]`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(",");
+
   console.log(
-    `[STATE_WRITE] writer=${writer} threadId=${threadId} jobVersion=${jobVersion} ` +
+    `[STATE_WRITE] writer=${writer} threadId=${threadId} jobVersion=${job.version} ` +
     `chunks[0].lines=${chunk0Lines} chunks[1].lines=${chunk1Lines} ` +
-    `queue.length=${queueLength} active=${activeDisplay}${updatingPart} ` +
-    `versionCheck=${versionCheck} prevSeenVersion=${prevSeenVersion} writingVersion=${writingVersion}`
+    `queue.length=${job.queue.length} active=${activeDisplay} updating=${updating} ` +
+    `prevSeenVersion=${previousVersion}`
   );
 }
 
-async function writeThreadState(
-  threadId: string,
-  state: ThreadState,
-  previousVersion?: number
+/**
+ * Apply a versioned change set. Throws "modified concurrently" when any
+ * row's version moved since it was read; nothing is written in that case.
+ */
+async function applyJobChanges(
+  jobId: string,
+  expectedVersion: number,
+  changes: TranslationJobChanges
 ): Promise<void> {
-  // ✅ LOG: State write activity
-  logStateWrite("writeThreadState", threadId, state, previousVersion);
-  
   const supabase = await supabaseServer();
-  let query = supabase
-    .from("chat_threads")
-    .update({ state })
-    .eq("id", threadId);
+  const { error } = await supabase.rpc("translation_job_apply", {
+    p_job_id: jobId,
+    p_expected_version: expectedVersion,
+    p_job: changes.job,
+    p_chunks: changes.chunks,
+    p_lines: changes.lines,
+    p_delete_lines: changes.deleteLines,
+  });
 
-  if (previousVersion !== undefined) {
-    query = query.eq(
-      "state->translation_job->>version",
-      previousVersion.toString()
-    );
+  if (error?.code === CONCURRENT_UPDATE_CODE) {
+    throw new Error("[jobState] Translation job modified concurrently");
   }
-
-  const { error, data } = await query.select("id");
-
   if (error) {
     throw new Error(
-      `[jobState] Failed to persist translation job for ${threadId}: ${error.message}`
+      `[jobState] Failed to persist translation job ${jobId}: ${error.message}`
     );
   }
-
-  if (previousVersion !== undefined && (!data || data.length === 0)) {
-    throw new Error("[jobState] Translation job modified concurrently");
-  }
 }
 
+// ============================================================================
+// Public API
+// ============================================================================
+
 export async function getTranslationJob(
   threadId: string
 ): Promise<TranslationJobState | null> {
-  const state = await fetchThreadState(threadId);
-  return state.translation_job ?? null;
+  const rows = await loadJobRows(threadId);
+  return rows ? toJob(rows) : null;
 }
 
 /**
@@ -174,14 +333,14 @@ export async function getTranslationJob(
 export async function clearTranslationJob(
   threadId: string
 ): Promise<void> {
-  const state = await fetchThreadState(threadId);
-  if (state.translation_job) {
+  const existing = await fetchJobRows(threadId);
+  if (existing) {
     console.log(
-      `[jobState] Clearing existing translation job for thread ${threadId} (jobId=${state.translation_job.jobId})`
+      `[jobState] Clearing existing translation job for thread ${threadId} (jobId=${existing.job.job_id})`
     );
-    delete state.translation_job;
-    await writeThreadState(threadId, state);
   }
+  // Also drops a legacy blob that was never migrated.
+  await replaceJobRows(threadId, null, { stripStateKeys: ["translation_job"] });
 }
 
 export async function createTranslationJob(
@@ -193,12 +352,14 @@ export async function createTranslationJob(
   }
 ): Promise<TranslationJobState> {
   const { threadId, chunks, stanzas, poem } = context;
-  const state = await fetchThreadState(threadId);
+  const existingRows = await loadJobRows(threadId);
+  let replacing = false;
 
-  if (state.translation_job) {
+  if (existingRows) {
+    const existing = toJob(existingRows);
     // Check if the model/preferences have changed since the job was created.
     // If so, the old job is stale and must be replaced to avoid a freeze.
-    const existingModel = (state.translation_job.guide_preferences as Record<string, unknown> | undefined)?.translationModel;
+    const existingModel = (existing.guide_preferences as Record<string, unknown> | undefined)?.translationModel;
     const requestedModel = options?.guidePreferences?.translationModel;
 
     // Recreate when a model is requested and it either differs from the
@@ -207,14 +368,10 @@ export async function createTranslationJob(
       console.log(
         `[jobState] Model changed (${existingModel ?? "unknown"} → ${requestedModel}). Clearing stale job and recreating.`
       );
-      delete state.translation_job;
-      // Clear workshop_lines atomically in the same writeThreadState call
-      // so stale translations from the old model can't survive via a
-      // concurrent write from the old tick.
-      delete (state as Record<string, unknown>).workshop_lines;
+      replacing = true;
       // Fall through to create a new job below
     } else {
-      return state.translation_job;
+      return existing;
     }
   }
 
@@ -224,10 +381,9 @@ export async function createTranslationJob(
   const queue = chunksToUse.map((_, index) => index);
 
   const chunkStates: Record<number, TranslationChunkState> = {};
-  const stanzaStates: Record<number, TranslationStanzaState> = {};
 
   chunksToUse.forEach((chunk, index) => {
-    const chunkState: TranslationChunkState = {
+    chunkStates[index] = {
       chunkIndex: index,
       status: index === 0 ? "queued" : "pending",
       linesProcessed: 0,
@@ -236,19 +392,6 @@ export async function createTranslationJob(
       maxRetries: DEFAULT_MAX_RETRIES,
       lines: [],
     };
-
-    chunkStates[index] = chunkState;
-
-    // Also create stanza state for backward compatibility
-    stanzaStates[index] = {
-      stanzaIndex: index,
-      status: index === 0 ? "queued" : "pending",
-      linesProcessed: 0,
-      totalLines: chunk.lines.length,
-      retries: 0,
-      maxRetries: DEFAULT_MAX_RETRIES,
-      lines: [],
-    };
   });
 
   const job: TranslationJobState = {
@@ -261,24 +404,37 @@ export async function createTranslationJob(
     maxConcurrent: options?.maxConcurrent ?? DEFAULT_MAX_CONCURRENT,
     maxChunksPerTick:
       options?.maxStanzasPerTick ?? DEFAULT_MAX_STANZAS_PER_TICK,
-    maxStanzasPerTick:
-      options?.maxStanzasPerTick ?? DEFAULT_MAX_STANZAS_PER_TICK,
     queue,
     active: [],
     chunks: chunkStates,
-    stanzas: stanzaStates,
     // Feature 8: Persist full poem and guide preferences
     full_poem: poem,
     guide_preferences: options?.guidePreferences,
     total_chunks: chunksToUse.length,
-    total_stanzas: chunksToUse.length,
   };
 
   ensureQueuedCapacity(job);
-
-  state.translation_job = job;
   job.processing_status = computeProcessingStatus(job);
-  await writeThreadState(threadId, state);
+
+  // Replacing also clears workshop_lines in the same transaction so stale
+  // translations from the old model can't survive via a concurrent write
+  // from the old tick.
+  const storedJobId = await replaceJobRows(threadId, job, {
+    stripStateKeys: replacing
+      ? ["translation_job", "workshop_lines"]
+      : ["translation_job"],
+    onlyIfAbsent: !replacing,
+  });
+
+  if (storedJobId !== job.jobId) {
+    // Another request created the job first; use theirs.
+    const winner = await getTranslationJob(threadId);
+    if (winner) return winner;
+  }
+  // A new jobId tells stream subscribers to reload rather than patch.
+  await publishProgressEvents(threadId, job.jobId, [
+    { type: "job_status", status: job.status },
+  ]);
   return job;
 }
 
@@ -359,9 +515,20 @@ function checkMonotonicity(
   return null;
 }
 
+/**
+ * Read-modify-write a job through its rows.
+ *
+ * Only rows the updater actually changed are written, each guarded by the
+ * version it was read at. `scope: "job"` also writes (and version-bumps) the
+ * job row, so whole-job updaters conflict with each other as before;
+ * `scope: "rows"` leaves the job row alone, so line and chunk updates from
+ * different ticks only conflict when they touch the same chunk or line.
+ */
 async function mutateTranslationJob(
   threadId: string,
   updater: JobUpdater,
+  scope: "job" | "rows",
+  writer: string,
   maxAttempts = 3,
   instrumentation?: TickInstrumentation
 ): Promise<TranslationJobState | null> {
@@ -369,53 +536,45 @@ async function mutateTranslationJob(
   const retryTelemetry = instrumentation?.retries
     ? createRetryTelemetryCollector({ retries: instrumentation.retries })
     : noOpRetryTelemetry;
-  
+
   for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
     const attemptStart = Date.now();
-    const state = await fetchThreadState(threadId);
-    const current = state.translation_job;
+    const rows = await loadJobRows(threadId);
 
-    if (!current) {
+    if (!rows) {
       return null;
     }
 
-    const jobClone: TranslationJobState = structuredClone(current);
-    const updated = updater(jobClone);
+    const current = toJob(rows);
+    const updated = updater(structuredClone(current));
 
     if (!updated) {
       return current;
     }
 
-    // ✅ DIAGNOSTIC: Log lines array state before persistence
-    console.log("[mutateTranslationJob] BEFORE writeThreadState:");
-    console.log(`  job.status=${updated.status}, job.queue=[${updated.queue.join(", ")}], job.active=[${updated.active.join(", ")}]`);
-    Object.entries(updated.chunks || {}).forEach(([idx, chunk]) => {
-      console.log(
-        `  Chunk ${idx}: status=${chunk.status}, linesProcessed=${chunk.linesProcessed}, totalLines=${chunk.totalLines}, lines=${chunk.lines ? `${chunk.lines.length} (defined)` : "undefined"}`
-      );
-    });
-
-    updated.version = current.version + 1;
-    updated.updatedAt = Date.now();
+    if (scope === "job") {
+      updated.version = current.version + 1;
+      updated.updatedAt = Date.now();
+    }
     updated.processing_status = computeProcessingStatus(updated);
-    const nextState: ThreadState = {
-      ...state,
-      translation_job: updated,
-    };
+
+    const changes = diffJobRows(rows, updated, scope === "job");
+    if (isEmptyChangeSet(changes)) {
+      return updated;
+    }
+
+    logStateWrite(writer, threadId, updated, changes, current.version);
 
     try {
-      await writeThreadState(threadId, nextState, current.version);
-
-      // ✅ DIAGNOSTIC: Verify lines array after persistence by re-reading from DB
-      const verified = await fetchThreadState(threadId);
-      const verifiedJob = verified.translation_job;
-      console.log("[mutateTranslationJob] AFTER writeThreadState (verified from DB):");
-      console.log(`  job.status=${verifiedJob?.status ?? "null"}, job.queue=[${verifiedJob?.queue.join(", ") ?? "[]"}], job.active=[${verifiedJob?.active.join(", ") ?? "[]"}]`);
-      Object.entries(verifiedJob?.chunks || {}).forEach(([idx, chunk]) => {
-        console.log(
-          `  Chunk ${idx}: status=${chunk.status}, linesProcessed=${chunk.linesProcessed}, totalLines=${chunk.totalLines}, lines=${chunk.lines ? `${chunk.lines.length} (defined)` : "undefined"}`
-        );
-      });
+      await applyJobChanges(current.jobId, current.version, changes);
+      await publishProgressEvents(
+        threadId,
+        current.jobId,
+        diffProgressEvents(current, updated)
+      );
+
+      const verifiedRows = await fetchJobRows(threadId);
+      const verifiedJob = verifiedRows ? toJob(verifiedRows) : undefined;
 
       // ✅ CRITICAL: Monotonicity check - detect state regressions
       const regressionError = checkMonotonicity(updated, verifiedJob, threadId);
@@ -434,7 +593,8 @@ async function mutateTranslationJob(
         // The reconciliation logic in runTranslationTick should recover
       }
 
-      return updated;
+      // The verified read also carries other writers' row updates.
+      return verifiedJob ?? updated;
     } catch (error: unknown) {
       if (error instanceof Error && error.message.includes("concurrently")) {
         const attemptDuration = Date.now() - attemptStart;
@@ -447,7 +607,7 @@ async function mutateTranslationJob(
           reason: "Concurrent modification",
           elapsedMs: attemptDuration,
         });
-        
+
         console.warn(
           `[mutateTranslationJob] Retry ${attempt + 1}/${maxAttempts} due to concurrent modification`
         );
@@ -466,13 +626,18 @@ export async function updateTranslationJob(
   threadId: string,
   updater: JobUpdater
 ): Promise<TranslationJobState | null> {
-  return mutateTranslationJob(threadId, (job) => {
-    const updated = updater(job);
-    if (updated) {
-      ensureQueuedCapacity(updated);
-    }
-    return updated;
-  });
+  return mutateTranslationJob(
+    threadId,
+    (job) => {
+      const updated = updater(job);
+      if (updated) {
+        ensureQueuedCapacity(updated);
+      }
+      return updated;
+    },
+    "job",
+    "updateTranslationJob"
+  );
 }
 
 export async function updateStanzaStatus(
@@ -480,32 +645,17 @@ export async function updateStanzaStatus(
   stanzaIndex: number,
   update: Partial<TranslationStanzaState>
 ): Promise<TranslationJobState | null> {
-  console.log(
-    `[updateStanzaStatus] ENTRY: stanzaIndex=${stanzaIndex}, update keys:`,
-    Object.keys(update)
-  );
-  console.log(
-    `[updateStanzaStatus] update.lines length:`,
-    update.lines?.length ?? "undefined"
-  );
-
-  return mutateTranslationJob(threadId, (job) => {
-    const chunkOrStanzaStates = job.chunks || job.stanzas || {};
-    const stanza = chunkOrStanzaStates[stanzaIndex];
-    if (!stanza) {
-      console.warn(`[updateStanzaStatus] Stanza ${stanzaIndex} not found!`);
-      return job;
-    }
-
-    console.log(
-      `[updateStanzaStatus] BEFORE: stanza.lines length:`,
-      stanza.lines?.length ?? "undefined"
-    );
+  return mutateTranslationJob(
+    threadId,
+    (job) => {
+      const stanza = job.chunks[stanzaIndex];
+      if (!stanza) {
+        console.warn(`[updateStanzaStatus] Stanza ${stanzaIndex} not found!`);
+        return job;
+      }
 
-    // Update both chunks and stanzas for backward compatibility
-    if (job.chunks) {
       // ✅ FIX: Preserve lines array invariant - ensure it always exists
-      const updated = {
+      job.chunks[stanzaIndex] = {
         ...stanza,
         ...update,
         chunkIndex: stanzaIndex,
@@ -513,29 +663,11 @@ export async function updateStanzaStatus(
         lines: update.lines ?? stanza.lines ?? [],
       } as TranslationChunkState;
 
-      console.log(
-        `[updateStanzaStatus] AFTER chunks merge: lines length:`,
-        updated.lines?.length ?? "undefined"
-      );
-      job.chunks[stanzaIndex] = updated;
-    }
-
-    if (job.stanzas) {
-      const updated = {
-        ...stanza,
-        ...update,
-        stanzaIndex: stanzaIndex,
-      };
-
-      console.log(
-        `[updateStanzaStatus] AFTER stanzas merge: lines length:`,
-        updated.lines?.length ?? "undefined"
-      );
-      job.stanzas[stanzaIndex] = updated;
-    }
-
-    return job;
-  });
+      return job;
+    },
+    "rows",
+    "updateStanzaStatus"
+  );
 }
 
 /**
@@ -547,71 +679,60 @@ export async function updateSingleLine(
   stanzaIndex: number,
   lineData: import("@/types/translationJob").TranslatedLine
 ): Promise<TranslationJobState | null> {
-  return mutateTranslationJob(threadId, (job) => {
-    const chunkOrStanzaStates = job.chunks || job.stanzas || {};
-    const stanza = chunkOrStanzaStates[stanzaIndex];
-    if (!stanza) {
-      console.warn(`[updateSingleLine] Stanza ${stanzaIndex} not found!`);
-      return job;
-    }
+  return mutateTranslationJob(
+    threadId,
+    (job) => {
+      const stanza = job.chunks[stanzaIndex];
+      if (!stanza) {
+        console.warn(`[updateSingleLine] Stanza ${stanzaIndex} not found!`);
+        return job;
+      }
 
-    // Ensure lines array exists
-    const existingLines = stanza.lines || [];
-    
-    // Find existing line by line_number
-    const lineIndex = existingLines.findIndex(
-      (line) => line.line_number === lineData.line_number
-    );
+      // Ensure lines array exists
+      const existingLines = stanza.lines || [];
 
-    // Merge: update existing line or append new one
-    const updatedLines = [...existingLines];
-    if (lineIndex >= 0) {
-      // Update existing line (idempotent - safe for retries)
-      updatedLines[lineIndex] = lineData;
-    } else {
-      // Append new line (out-of-order completion)
-      updatedLines.push(lineData);
-      // Sort by line_number to maintain order (for UI display)
-      updatedLines.sort((a, b) => a.line_number - b.line_number);
-    }
+      // Find existing line by line_number
+      const lineIndex = existingLines.findIndex(
+        (line) => line.line_number === lineData.line_number
+      );
 
-    // ISS-003: Compute linesProcessed from actual completed lines (not sequential index)
-    const linesProcessed = updatedLines.filter(
-      (line) =>
-        line.translationStatus === "translated" ||
-        line.translationStatus === "failed"
-    ).length;
-
-    // Update stanza with merged lines and correct linesProcessed
-    const updatedStanza = {
-      ...stanza,
-      lines: updatedLines,
-      linesProcessed,
-      lastLineTranslated: Math.max(
-        ...updatedLines
-          .filter((l) => l.translationStatus === "translated")
-          .map((l) => l.line_number),
-        stanza.lastLineTranslated ?? -1
-      ),
-    };
+      // Merge: update existing line or append new one
+      const updatedLines = [...existingLines];
+      if (lineIndex >= 0) {
+        // Update existing line (idempotent - safe for retries)
+        updatedLines[lineIndex] = lineData;
+      } else {
+        // Append new line (out-of-order completion)
+        updatedLines.push(lineData);
+        // Sort by line_number to maintain order (for UI display)
+        updatedLines.sort((a, b) => a.line_number - b.line_number);
+      }
+
+      // ISS-003: Compute linesProcessed from actual completed lines (not sequential index)
+      const linesProcessed = updatedLines.filter(
+        (line) =>
+          line.translationStatus === "translated" ||
+          line.translationStatus === "failed"
+      ).length;
 
-    // Update both chunks and stanzas
-    if (job.chunks) {
       job.chunks[stanzaIndex] = {
-        ...updatedStanza,
+        ...stanza,
         chunkIndex: stanzaIndex,
-      } as TranslationChunkState;
-    }
-
-    if (job.stanzas) {
-      job.stanzas[stanzaIndex] = {
-        ...updatedStanza,
-        stanzaIndex: stanzaIndex,
+        lines: updatedLines,
+        linesProcessed,
+        lastLineTranslated: Math.max(
+          ...updatedLines
+            .filter((l) => l.translationStatus === "translated")
+            .map((l) => l.line_number),
+          stanza.lastLineTranslated ?? -1
+        ),
       };
-    }
 
-    return job;
-  });
+      return job;
+    },
+    "rows",
+    "updateSingleLine"
+  );
 }
 
 /**
@@ -635,66 +756,99 @@ export async function updateLineAlignment(
   const finalAlignmentStatus: "aligned" | "failed" =
     alignmentStatus === "ready" ? "aligned" : "failed";
 
-  return mutateTranslationJob(threadId, (job) => {
-    const chunkOrStanzaStates = job.chunks || job.stanzas || {};
-    const stanza = chunkOrStanzaStates[stanzaIndex];
-    if (!stanza || !stanza.lines) {
-      return job;
-    }
-
-    // Find and update the specific line
-    const lineIndexInStanza = stanza.lines.findIndex(
-      (line) => line.line_number === lineIndex
-    );
+  return mutateTranslationJob(
+    threadId,
+    (job) => {
+      const stanza = job.chunks[stanzaIndex];
+      if (!stanza || !stanza.lines) {
+        return job;
+      }
 
-    if (lineIndexInStanza === -1) {
-      console.warn(
-        `[updateLineAlignment] Line ${lineIndex} not found in stanza ${stanzaIndex}`
+      // Find and update the specific line
+      const lineIndexInStanza = stanza.lines.findIndex(
+        (line) => line.line_number === lineIndex
       );
-      return job;
-    }
 
-    // Update the line with alignments
-    const updatedLines = [...stanza.lines];
-    const line = updatedLines[lineIndexInStanza];
-
-    // Update translations with alignments
-    const updatedTranslations = line.translations.map((translation, idx) => ({
-      ...translation,
-      words: alignments[idx] || [],
-    }));
-
-    // Update alignmentStatus (translationStatus doesn't change)
-    updatedLines[lineIndexInStanza] = {
-      ...line,
-      translations: updatedTranslations,
-      alignmentStatus: finalAlignmentStatus,
-      updated_at: Date.now(),
-    };
+      if (lineIndexInStanza === -1) {
+        console.warn(
+          `[updateLineAlignment] Line ${lineIndex} not found in stanza ${stanzaIndex}`
+        );
+        return job;
+      }
 
-    // Update stanza with new lines array
-    const updatedStanza = {
-      ...stanza,
-      lines: updatedLines,
-    };
+      // Update the line with alignments (translationStatus doesn't change);
+      // only this line's row is written.
+      const line = stanza.lines[lineIndexInStanza];
+      stanza.lines[lineIndexInStanza] = {
+        ...line,
+        translations: line.translations.map((translation, idx) => ({
+          ...translation,
+          words: alignments[idx] || [],
+        })),
+        alignmentStatus: finalAlignmentStatus,
+        updated_at: Date.now(),
+      };
 
-    // Update both chunks and stanzas
-    if (job.chunks) {
-      job.chunks[stanzaIndex] = {
-        ...updatedStanza,
-        chunkIndex: stanzaIndex,
-      } as TranslationChunkState;
-    }
+      return job;
+    },
+    "rows",
+    "updateLineAlignment"
+  );
+}
+
+/**
+ * Find a translated line by line_number across the job's chunks.
+ */
+export function findTranslatedLine(
+  job: TranslationJobState,
+  lineNumber: number
+): { chunkIndex: number; line: TranslatedLine } | null {
+  for (const [key, chunk] of Object.entries(job.chunks || {})) {
+    const line = chunk.lines?.find((l) => l.line_number === lineNumber);
+    if (line) return { chunkIndex: Number(key), line };
+  }
+  return null;
+}
+
+/**
+ * Replace one variant's word alignment with a user-corrected one.
+ * Returns the updated line, or null when the line or variant is missing.
+ */
+export async function updateVariantAlignment(
+  threadId: string,
+  lineNumber: number,
+  variant: number,
+  words: AlignedWord[]
+): Promise<TranslatedLine | null> {
+  let updatedLine: TranslatedLine | null = null;
+
+  await mutateTranslationJob(
+    threadId,
+    (job) => {
+      const found = findTranslatedLine(job, lineNumber);
+      if (!found || !found.line.translations.some((t) => t.variant === variant)) {
+        return null;
+      }
 
-    if (job.stanzas) {
-      job.stanzas[stanzaIndex] = {
-        ...updatedStanza,
-        stanzaIndex: stanzaIndex,
+      const chunk = job.chunks[found.chunkIndex];
+      updatedLine = {
+        ...found.line,
+        translations: found.line.translations.map((translation) =>
+          translation.variant === variant ? { ...translation, words } : translation
+        ),
+        alignmentStatus: "aligned",
+        updated_at: Date.now(),
       };
-    }
+      chunk.lines = (chunk.lines ?? []).map((line) =>
+        line.line_number === lineNumber ? updatedLine! : line
+      );
+      return job;
+    },
+    "rows",
+    "updateVariantAlignment"
+  );
 
-    return job;
-  });
+  return updatedLine;
 }
 
 export function getNextStanzasToProcess(job: TranslationJobState): number[] {
@@ -0,0 +1,178 @@
+/**
+ * Tests for translation job row mapping: legacy blobs split into rows and
+ * reassemble unchanged, and mutations produce minimal versioned change sets.
+ *
+ * Run with: npx vitest run src/lib/workshop/jobTables.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import type {
+  TranslatedLine,
+  TranslationJobState,
+} from "@/types/translationJob";
+import { diffJobRows, isEmptyChangeSet, jobToRows, rowsToJob } from "./jobTables";
+
+const THREAD_ID = "thread-1";
+
+function line(lineNumber: number, text: string): TranslatedLine {
+  return {
+    line_number: lineNumber,
+    original_text: text,
+    translations: [],
+    translationStatus: "translated",
+    alignmentStatus: "pending",
+  };
+}
+
+function legacyJob(): TranslationJobState {
+  return {
+    jobId: "job-1",
+    version: 7,
+    status: "processing",
+    createdAt: 1000,
+    updatedAt: 2000,
+    startedAt: 1000,
+    maxConcurrent: 5,
+    maxChunksPerTick: 5,
+    maxStanzasPerTick: 5,
+    queue: [1],
+    active: [0],
+    chunks: {
+      0: {
+        chunkIndex: 0,
+        status: "processing",
+        linesProcessed: 2,
+        totalLines: 2,
+        retries: 1,
+        maxRetries: 3,
+        error_history: [
+          { timestamp: 1500, error: "boom", code: "timeout", retryable: true },
+        ],
+        startedAt: 1100,
+        lines: [line(0, "uno"), line(1, "dos")],
+      },
+      1: {
+        chunkIndex: 1,
+        status: "pending",
+        linesProcessed: 0,
+        totalLines: 1,
+        retries: 0,
+        maxRetries: 3,
+        lines: [],
+      },
+    },
+    stanzas: {},
+    full_poem: "uno\ndos\n\ntres",
+    guide_preferences: { translationModel: "gpt-4o" },
+    total_chunks: 2,
+    lastError: "boom",
+  };
+}
+
+/** Rows as the database returns them: versions set, absent fields null. */
+function storedRows(job: TranslationJobState) {
+  const rows = jobToRows(THREAD_ID, job);
+  return {
+    job: rows.job,
+    chunks: rows.chunks.map((c) => ({ ...c, version: 4 })),
+    lines: rows.lines.map((l) => ({ ...l, version: 2 })),
+  };
+}
+
+describe("jobTables", () => {
+  it("splits a legacy blob into rows and reassembles it", () => {
+    const rows = jobToRows(THREAD_ID, legacyJob());
+
+    expect(rows.job.meta).toEqual({
+      createdAt: 1000,
+      updatedAt: 2000,
+      startedAt: 1000,
+      total_chunks: 2,
+      lastError: "boom",
+    });
+    expect(rows.chunks.map((c) => [c.chunk_index, c.status])).toEqual([
+      [0, "processing"],
+      [1, "pending"],
+    ]);
+    expect(rows.chunks[0].meta).toEqual({ startedAt: 1100 });
+    expect(rows.lines.map((l) => [l.chunk_index, l.line_number])).toEqual([
+      [0, 0],
+      [0, 1],
+    ]);
+
+    const job = rowsToJob(rows);
+    const { stanzas, maxStanzasPerTick, ...expected } = legacyJob();
+    expect(stanzas).toEqual({});
+    expect(maxStanzasPerTick).toBe(5);
+    expect(job).toEqual(expected);
+  });
+
+  it("reads stanza-only legacy jobs as chunks", () => {
+    const legacy = legacyJob();
+    const stanzaOnly = {
+      ...legacy,
+      chunks: undefined,
+      stanzas: { 0: { ...legacy.chunks[0], stanzaIndex: 0, chunkIndex: undefined } },
+    } as unknown as TranslationJobState;
+
+    const job = rowsToJob(jobToRows(THREAD_ID, stanzaOnly));
+    expect(job.chunks[0].chunkIndex).toBe(0);
+    expect(job.chunks[0].lines).toHaveLength(2);
+    expect(job.chunks[0]).not.toHaveProperty("stanzaIndex");
+  });
+
+  it("writes nothing when the updater changes nothing", () => {
+    const rows = storedRows(legacyJob());
+    const changes = diffJobRows(rows, structuredClone(rowsToJob(rows)), false);
+    expect(isEmptyChangeSet(changes)).toBe(true);
+  });
+
+  it("limits a single-line update to its chunk and line rows", () => {
+    const rows = storedRows(legacyJob());
+    const job = structuredClone(rowsToJob(rows));
+    job.chunks[1].lines = [line(2, "tres")];
+    job.chunks[1].linesProcessed = 1;
+
+    const changes = diffJobRows(rows, job, false);
+    expect(changes.job).toBeNull();
+    expect(changes.chunks).toHaveLength(1);
+    expect(changes.chunks[0]).toMatchObject({
+      chunk_index: 1,
+      lines_processed: 1,
+      expected_version: 4,
+    });
+    expect(changes.lines).toEqual([
+      expect.objectContaining({ line_number: 2, chunk_index: 1, expected_version: null }),
+    ]);
+    expect(changes.deleteLines).toEqual([]);
+  });
+
+  it("versions line updates and deletes lines dropped from a chunk", () => {
+    const rows = storedRows(legacyJob());
+    const job = structuredClone(rowsToJob(rows));
+    job.chunks[0].lines = [{ ...line(0, "uno"), alignmentStatus: "aligned" }];
+
+    const changes = diffJobRows(rows, job, false);
+    expect(changes.lines).toEqual([
+      expect.objectContaining({
+        line_number: 0,
+        alignment_status: "aligned",
+        expected_version: 2,
+      }),
+    ]);
+    expect(changes.deleteLines).toEqual([1]);
+  });
+
+  it("always writes the job row for whole-job updates", () => {
+    const rows = storedRows(legacyJob());
+    const changes = diffJobRows(rows, structuredClone(rowsToJob(rows)), true);
+    expect(changes.job).toMatchObject({ job_id: "job-1", queue: [1], active: [0] });
+    expect(changes.chunks).toEqual([]);
+  });
+
+  it("treats the newest chunk or line write as the job's updatedAt", () => {
+    const rows = storedRows(legacyJob());
+    rows.lines[1].updated_at = "2026-01-01T00:00:00.000Z";
+    expect(rowsToJob(rows).updatedAt).toBe(Date.parse("2026-01-01T00:00:00.000Z"));
+  });
+});
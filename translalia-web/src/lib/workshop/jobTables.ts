@@ -0,0 +1,383 @@
+/**
+ * Translation Job Tables - row mapping for normalized job persistence
+ *
+ * TranslationJobState is stored as one `translation_jobs` row, one
+ * `translation_job_chunks` row per chunk and one `translation_job_lines` row
+ * per translated line (see 20261019000300_translation_job_tables.sql). This module
+ * converts between the in-memory job and those rows and computes the
+ * versioned change set for a mutation. It has no database access; jobState.ts
+ * does the reads and writes.
+ */
+
+import type {
+  TranslatedLine,
+  TranslationChunkState,
+  TranslationJobState,
+  TranslationStanzaState,
+} from "@/types/translationJob";
+
+// ============================================================================
+// Row Types
+// ============================================================================
+
+export interface TranslationJobRow {
+  job_id: string;
+  thread_id: string;
+  version: number;
+  status: TranslationJobState["status"];
+  queue: number[];
+  active: number[];
+  max_concurrent: number;
+  max_chunks_per_tick: number;
+  full_poem: string | null;
+  guide_preferences: Record<string, unknown> | null;
+  /** Remaining job fields (timestamps, lastError, costMetadata, ...). */
+  meta: Record<string, unknown>;
+}
+
+export interface TranslationChunkRow {
+  chunk_index: number;
+  version: number;
+  status: TranslationChunkState["status"];
+  lines_processed: number;
+  total_lines: number;
+  retries: number;
+  max_retries: number | null;
+  next_retry_at: number | null;
+  error: string | null;
+  error_history: TranslationChunkState["error_history"] | null;
+  /** Remaining chunk fields (startedAt, error_details, fallback_mode, ...). */
+  meta: Record<string, unknown>;
+  /** Set by the database; read-only. */
+  updated_at?: string;
+}
+
+export interface TranslationLineRow {
+  line_number: number;
+  chunk_index: number;
+  version: number;
+  translation_status: string | null;
+  alignment_status: string | null;
+  line: TranslatedLine;
+  /** Set by the database; read-only. */
+  updated_at?: string;
+}
+
+export interface TranslationJobRows {
+  job: TranslationJobRow;
+  chunks: TranslationChunkRow[];
+  lines: TranslationLineRow[];
+}
+
+/** Versioned change set sent to the translation_job_apply RPC. */
+export interface TranslationJobChanges {
+  /** Job row fields when the job row itself changed (or must be bumped). */
+  job: Omit<TranslationJobRow, "version"> | null;
+  chunks: Array<Omit<TranslationChunkRow, "version"> & { expected_version: number }>;
+  lines: Array<
+    Omit<TranslationLineRow, "version"> & { expected_version: number | null }
+  >;
+  deleteLines: number[];
+}
+
+// Job fields stored in their own columns (or derived on read) rather than meta.
+const JOB_COLUMN_KEYS = new Set<string>([
+  "jobId",
+  "version",
+  "status",
+  "queue",
+  "active",
+  "maxConcurrent",
+  "maxChunksPerTick",
+  "full_poem",
+  "guide_preferences",
+  "chunks",
+  // Derived on read, never stored:
+  "processing_status",
+  // Legacy mirrors of chunk fields:
+  "stanzas",
+  "maxStanzasPerTick",
+  "total_stanzas",
+]);
+
+const CHUNK_COLUMN_KEYS = new Set<string>([
+  "chunkIndex",
+  "stanzaIndex",
+  "status",
+  "linesProcessed",
+  "totalLines",
+  "retries",
+  "maxRetries",
+  "nextRetryAt",
+  "error",
+  "error_history",
+  "lines",
+]);
+
+function omitKeys(
+  value: object,
+  keys: Set<string>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([key, v]) => !keys.has(key) && v !== undefined
+    )
+  );
+}
+
+// ============================================================================
+// Job -> Rows
+// ============================================================================
+
+/**
+ * Chunk states of a job, reading legacy `stanzas`-only jobs as chunks.
+ */
+function chunkStatesOf(
+  job: TranslationJobState
+): Array<[number, TranslationChunkState | TranslationStanzaState]> {
+  const states = job.chunks ?? job.stanzas ?? {};
+  return Object.entries(states)
+    .map(([idx, state]) => [Number(idx), state] as [number, typeof state])
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Split a job into table rows. Versions start at `job.version` for the job
+ * row and 1 for chunks and lines (only meaningful for inserts).
+ */
+export function jobToRows(
+  threadId: string,
+  job: TranslationJobState
+): TranslationJobRows {
+  const chunks: TranslationChunkRow[] = [];
+  const lines: TranslationLineRow[] = [];
+
+  for (const [chunkIndex, state] of chunkStatesOf(job)) {
+    chunks.push({
+      chunk_index: chunkIndex,
+      version: 1,
+      status: state.status,
+      lines_processed: state.linesProcessed ?? 0,
+      total_lines: state.totalLines ?? 0,
+      retries: state.retries ?? 0,
+      max_retries: state.maxRetries ?? null,
+      next_retry_at: state.nextRetryAt ?? null,
+      error: state.error ?? null,
+      error_history: state.error_history ?? null,
+      meta: omitKeys(state, CHUNK_COLUMN_KEYS),
+    });
+
+    for (const line of state.lines ?? []) {
+      lines.push({
+        line_number: line.line_number,
+        chunk_index: chunkIndex,
+        version: 1,
+        translation_status: line.translationStatus ?? null,
+        alignment_status: line.alignmentStatus ?? null,
+        line,
+      });
+    }
+  }
+
+  return {
+    job: {
+      job_id: job.jobId,
+      thread_id: threadId,
+      version: job.version,
+      status: job.status,
+      queue: job.queue ?? [],
+      active: job.active ?? [],
+      max_concurrent: job.maxConcurrent,
+      max_chunks_per_tick: job.maxChunksPerTick ?? job.maxStanzasPerTick ?? 2,
+      full_poem: job.full_poem ?? null,
+      guide_preferences: job.guide_preferences ?? null,
+      meta: omitKeys(job, JOB_COLUMN_KEYS),
+    },
+    chunks,
+    lines,
+  };
+}
+
+// ============================================================================
+// Rows -> Job
+// ============================================================================
+
+/**
+ * Reassemble a job from its rows. `processing_status` is left to the caller
+ * (jobState computes it from the chunks).
+ */
+export function rowsToJob(rows: TranslationJobRows): TranslationJobState {
+  const linesByChunk = new Map<number, TranslatedLine[]>();
+  for (const row of rows.lines) {
+    const list = linesByChunk.get(row.chunk_index) ?? [];
+    list.push(row.line);
+    linesByChunk.set(row.chunk_index, list);
+  }
+
+  const chunks: Record<number, TranslationChunkState> = {};
+  for (const row of rows.chunks) {
+    const chunkLines = (linesByChunk.get(row.chunk_index) ?? []).sort(
+      (a, b) => a.line_number - b.line_number
+    );
+    const chunk: TranslationChunkState = {
+      ...(row.meta as Partial<TranslationChunkState>),
+      chunkIndex: row.chunk_index,
+      status: row.status,
+      linesProcessed: row.lines_processed,
+      totalLines: row.total_lines,
+      retries: row.retries,
+      lines: chunkLines,
+    };
+    if (row.max_retries !== null) chunk.maxRetries = row.max_retries;
+    if (row.next_retry_at !== null) chunk.nextRetryAt = Number(row.next_retry_at);
+    if (row.error !== null) chunk.error = row.error;
+    if (row.error_history !== null) chunk.error_history = row.error_history;
+    chunks[row.chunk_index] = chunk;
+  }
+
+  // Chunk and line writes do not touch the job row, so the job counts as
+  // updated whenever any of its rows was.
+  const updatedAt = [...rows.chunks, ...rows.lines].reduce(
+    (latest, row) =>
+      row.updated_at ? Math.max(latest, Date.parse(row.updated_at)) : latest,
+    Number(rows.job.meta.updatedAt ?? 0)
+  );
+
+  const job: TranslationJobState = {
+    ...(rows.job.meta as Partial<TranslationJobState>),
+    jobId: rows.job.job_id,
+    version: rows.job.version,
+    status: rows.job.status,
+    createdAt: Number(rows.job.meta.createdAt ?? 0),
+    updatedAt,
+    queue: rows.job.queue ?? [],
+    active: rows.job.active ?? [],
+    maxConcurrent: rows.job.max_concurrent,
+    maxChunksPerTick: rows.job.max_chunks_per_tick,
+    chunks,
+  };
+  if (rows.job.full_poem !== null) job.full_poem = rows.job.full_poem;
+  if (rows.job.guide_preferences !== null) {
+    job.guide_preferences = rows.job.guide_preferences;
+  }
+  return job;
+}
+
+// ============================================================================
+// Change Sets
+// ============================================================================
+
+/** JSON with sorted keys, so key order never reads as a change. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .sort()
+      .map(
+        (k) =>
+          `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function withoutVersion<T extends { version: number }>(row: T): Omit<T, "version"> {
+  const { version, ...rest } = row;
+  void version;
+  return rest;
+}
+
+/**
+ * Rows that differ between the job as loaded and the job after an updater
+ * ran, each tagged with the version it was loaded at.
+ *
+ * @param loaded - Rows as read, with their stored versions
+ * @param updated - The mutated job
+ * @param writeJobRow - Write (and version-bump) the job row even if only
+ *   chunks or lines changed; whole-job updaters use this so concurrent
+ *   queue/active changes still conflict.
+ */
+export function diffJobRows(
+  loaded: TranslationJobRows,
+  updated: TranslationJobState,
+  writeJobRow: boolean
+): TranslationJobChanges {
+  // Compare against the loaded rows normalized the same way as `next`
+  // (nulls vs. missing fields), keeping the stored versions.
+  const baseline = jobToRows(loaded.job.thread_id, rowsToJob(loaded));
+  const chunkVersions = new Map(
+    loaded.chunks.map((c) => [c.chunk_index, c.version])
+  );
+  const lineVersions = new Map(
+    loaded.lines.map((l) => [l.line_number, l.version])
+  );
+  const next = jobToRows(loaded.job.thread_id, updated);
+
+  const jobChanged =
+    writeJobRow ||
+    stableStringify(withoutVersion(next.job)) !==
+      stableStringify(withoutVersion(baseline.job));
+
+  const loadedChunks = new Map(baseline.chunks.map((c) => [c.chunk_index, c]));
+  const chunks: TranslationJobChanges["chunks"] = [];
+  for (const chunk of next.chunks) {
+    const before = loadedChunks.get(chunk.chunk_index);
+    if (!before) {
+      throw new Error(
+        `[jobTables] Chunk ${chunk.chunk_index} does not exist in job ${loaded.job.job_id}`
+      );
+    }
+    if (
+      stableStringify(withoutVersion(chunk)) !==
+      stableStringify(withoutVersion(before))
+    ) {
+      chunks.push({
+        ...withoutVersion(chunk),
+        expected_version: chunkVersions.get(chunk.chunk_index) ?? 1,
+      });
+    }
+  }
+
+  const loadedLines = new Map(baseline.lines.map((l) => [l.line_number, l]));
+  const nextLineNumbers = new Set(next.lines.map((l) => l.line_number));
+  const lines: TranslationJobChanges["lines"] = [];
+  for (const line of next.lines) {
+    const before = loadedLines.get(line.line_number);
+    if (
+      !before ||
+      stableStringify(withoutVersion(line)) !==
+        stableStringify(withoutVersion(before))
+    ) {
+      lines.push({
+        ...withoutVersion(line),
+        expected_version: before
+          ? lineVersions.get(line.line_number) ?? 1
+          : null,
+      });
+    }
+  }
+  const deleteLines = baseline.lines
+    .map((l) => l.line_number)
+    .filter((n) => !nextLineNumbers.has(n));
+
+  return {
+    job: jobChanged ? withoutVersion(next.job) : null,
+    chunks,
+    lines,
+    deleteLines,
+  };
+}
+
+/** True when a change set would not write anything. */
+export function isEmptyChangeSet(changes: TranslationJobChanges): boolean {
+  return (
+    !changes.job &&
+    changes.chunks.length === 0 &&
+    changes.lines.length === 0 &&
+    changes.deleteLines.length === 0
+  );
+}
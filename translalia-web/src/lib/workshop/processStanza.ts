@@ -1,4 +1,5 @@
 import type { Stanza } from "@/lib/poem/stanzaDetection";
+import type { SectionContext } from "@/lib/poem/sections";
 import type { GuideAnswers } from "@/store/guideSlice";
 import type { TranslatedLine, ErrorCode } from "@/types/translationJob";
 
@@ -108,6 +109,8 @@ export interface ProcessStanzaParams {
   deadlineMs?: number; // Absolute deadline timestamp (Date.now() + budget)
   // ISS-016/017: Instrumentation for retry telemetry and OpenAI call tracking
   instrumentation?: TickInstrumentation;
+  // Long-form works: section text and outline for the prompts
+  sectionContext?: SectionContext | null;
 }
 
 /**
@@ -163,6 +166,7 @@ export async function processStanza({
   auditProjectId,
   deadlineMs,
   instrumentation,
+  sectionContext,
 }: ProcessStanzaParams): Promise<ProcessStanzaResult> {
   // ISS-005: Time-slicing support
   const timeSlicingEnabled = process.env.ENABLE_TICK_TIME_SLICING !== "0";
@@ -319,6 +323,7 @@ export async function processStanza({
             model: selectedModel,
             auditUserId,
             auditProjectId,
+            sectionContext,
           });
         } else {
           lineTranslation = await translateLineInternal({
@@ -333,6 +338,7 @@ export async function processStanza({
             sourceLanguage,
             targetLanguage,
             modelOverride: selectedModel,
+            sectionContext,
             audit:
               auditUserId !== undefined
                 ? {
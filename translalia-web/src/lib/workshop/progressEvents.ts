@@ -0,0 +1,170 @@
+/**
+ * Translation Progress Events - per-thread event log behind the SSE stream
+ *
+ * jobState publishes the transitions of every successful job write (see
+ * diffProgressEvents), so the background worker and runTranslationTick both
+ * feed the log without extra calls. /api/workshop/translation-events reads it
+ * from a sequence cursor.
+ *
+ * Uses Redis (a capped list plus a sequence counter per thread) so events
+ * cross instances and the worker process; falls back to memory in dev. One
+ * Lua script numbers and appends a batch, so concurrent publishers cannot
+ * append their events out of sequence order.
+ * Publishing never throws: clients still see the change on their next
+ * snapshot or poll.
+ */
+
+import { EventEmitter } from "node:events";
+
+import { getUpstashRedis } from "@/lib/ai/cache";
+import type {
+  TranslationProgressEvent,
+  TranslationProgressMessage,
+} from "@/types/translationJob";
+
+const KEY_PREFIX = "translation:events";
+const MAX_EVENTS = 500;
+const EVENTS_TTL_SEC = 60 * 60;
+
+/**
+ * KEYS: seq counter, event list. ARGV: max events, TTL, then one JSON object
+ * per event, which gets its sequence number spliced in as the first field.
+ */
+const APPEND_EVENTS = `
+  local count = #ARGV - 2
+  local last = redis.call("incrby", KEYS[1], count)
+  for i = 3, #ARGV do
+    local seq = last - count + i - 2
+    redis.call("rpush", KEYS[2], '{"seq":' .. seq .. ',' .. string.sub(ARGV[i], 2))
+  end
+  redis.call("ltrim", KEYS[2], -tonumber(ARGV[1]), -1)
+  redis.call("expire", KEYS[2], ARGV[2])
+  redis.call("expire", KEYS[1], ARGV[2])
+  return last
+`;
+
+interface RedisEventLog {
+  eval: (script: string, keys: string[], args: string[]) => Promise<unknown>;
+  get: (key: string) => Promise<string | number | null>;
+  lrange: (key: string, start: number, stop: number) => Promise<unknown[]>;
+}
+
+// =============================================================================
+// In-Memory Fallback (DEV ONLY)
+// =============================================================================
+
+const memLogs = new Map<string, { seq: number; events: TranslationProgressMessage[] }>();
+const memSignals = new EventEmitter();
+memSignals.setMaxListeners(0);
+
+async function getRedis(): Promise<RedisEventLog | null> {
+  try {
+    return (await getUpstashRedis()) as RedisEventLog | null;
+  } catch {
+    return null;
+  }
+}
+
+function parseMessage(raw: unknown): TranslationProgressMessage | null {
+  // Upstash auto-deserializes JSON list entries
+  if (raw && typeof raw === "object") return raw as TranslationProgressMessage;
+  try {
+    return JSON.parse(String(raw)) as TranslationProgressMessage;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Append events for a thread's job. Never throws.
+ */
+export async function publishProgressEvents(
+  threadId: string,
+  jobId: string,
+  events: TranslationProgressEvent[]
+): Promise<void> {
+  if (events.length === 0) return;
+  const at = Date.now();
+
+  try {
+    const redis = await getRedis();
+    if (!redis) {
+      const log = memLogs.get(threadId) ?? { seq: 0, events: [] };
+      for (const event of events) {
+        log.seq += 1;
+        log.events.push({ ...event, seq: log.seq, jobId, at });
+      }
+      log.events = log.events.slice(-MAX_EVENTS);
+      memLogs.set(threadId, log);
+      memSignals.emit(threadId);
+      return;
+    }
+
+    await redis.eval(
+      APPEND_EVENTS,
+      [`${KEY_PREFIX}:${threadId}:seq`, `${KEY_PREFIX}:${threadId}`],
+      [
+        String(MAX_EVENTS),
+        String(EVENTS_TTL_SEC),
+        ...events.map((event) => JSON.stringify({ ...event, jobId, at })),
+      ]
+    );
+    memSignals.emit(threadId);
+  } catch (error) {
+    console.warn(
+      `[progressEvents] Failed to publish ${events.length} event(s) for ${threadId}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * The latest sequence number for a thread (0 when none was published).
+ */
+export async function getLatestProgressSeq(threadId: string): Promise<number> {
+  const redis = await getRedis();
+  if (!redis) return memLogs.get(threadId)?.seq ?? 0;
+  const seq = await redis.get(`${KEY_PREFIX}:${threadId}:seq`);
+  return seq === null ? 0 : Number(seq);
+}
+
+/**
+ * Events with a sequence number above `afterSeq`, oldest first.
+ */
+export async function readProgressEvents(
+  threadId: string,
+  afterSeq: number
+): Promise<TranslationProgressMessage[]> {
+  const redis = await getRedis();
+  const events = redis
+    ? (await redis.lrange(`${KEY_PREFIX}:${threadId}`, 0, -1))
+        .map(parseMessage)
+        .filter((e): e is TranslationProgressMessage => e !== null)
+    : memLogs.get(threadId)?.events ?? [];
+
+  return events.filter((e) => e.seq > afterSeq).sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Resolve after `timeoutMs`, or earlier when this process publishes for the
+ * thread. Events from other instances (or the worker) arrive on the next
+ * timeout, so callers poll with it.
+ */
+export function waitForProgressEvents(
+  threadId: string,
+  timeoutMs: number
+): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      memSignals.off(threadId, done);
+      resolve();
+    };
+    const timer = setTimeout(done, timeoutMs);
+    memSignals.on(threadId, done);
+  });
+}
@@ -2,6 +2,7 @@ import { createClient } from "@supabase/supabase-js";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { isDeepSeekModel, isDeepSeekAllowed } from "@/lib/ai/deepseekAccess";
 import type { StanzaDetectionResult } from "@/lib/poem/stanzaDetection";
+import { getSectionContext } from "@/lib/poem/sections";
 import type { GuideAnswers } from "@/store/guideSlice";
 import type {
   TranslationJobState,
@@ -25,6 +26,9 @@ import { lockHelper, startLockHeartbeat } from "@/lib/ai/cache";
 import { classifyError } from "@/lib/workshop/processStanza";
 import { ConcurrencyLimiter } from "@/lib/workshop/concurrencyLimiter";
 import { createDiagnostics } from "@/lib/diagnostics";
+import { recordLockSkip } from "@/lib/telemetry/metricsCollector";
+import { assertAiBudget, BudgetExceededError } from "@/lib/usage/budget";
+import { withUsageScope } from "@/lib/usage/context";
 
 export interface RunTranslationTickOptions {
   maxProcessingTimeMs?: number;
@@ -134,7 +138,7 @@ export async function loadThreadContext(
   const { data, error } = await supabase
     .from("chat_threads")
     .select(
-      "state, created_by, project_id, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, raw_poem",
+      "state, created_by, project_id, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, variant_count, raw_poem",
     )
     .eq("id", threadId)
     .single();
@@ -165,6 +169,8 @@ export async function loadThreadContext(
       data.source_language_variety ??
       guideAnswersState.sourceLanguageVariety ??
       null,
+    variantCount:
+      data.variant_count ?? guideAnswersState.variantCount,
   };
 
   // Cost gate: DeepSeek is restricted to allowlisted accounts. This is the
@@ -519,9 +525,24 @@ function assertJobInvariants(job: TranslationJobState, context: string): void {
   }
 }
 
-export async function runTranslationTick(
+/**
+ * One tick of a thread's background translation job. Its model calls are
+ * billed to the thread owner under route "workshop/translation-tick",
+ * whichever request or worker triggered it.
+ */
+export function runTranslationTick(
   threadId: string,
   options: RunTranslationTickOptions = {},
+): Promise<TranslationTickResult | null> {
+  return withUsageScope(
+    { route: "workshop/translation-tick", threadId },
+    () => runTick(threadId, options),
+  );
+}
+
+async function runTick(
+  threadId: string,
+  options: RunTranslationTickOptions,
 ): Promise<TranslationTickResult | null> {
   const diag = createDiagnostics(`translation-tick:${threadId.slice(0, 8)}`);
 
@@ -540,6 +561,7 @@ export async function runTranslationTick(
     // ✅ D) Clear log when lock is not acquired (tick already running)
     diag.mark("tick-lock-failed");
     diag.summary();
+    recordLockSkip();
     console.log(
       `[runTranslationTick] ⏭️  SKIP: Tick already in progress for ${threadId} ` +
         `(lock key: ${tickKey}, TTL: ${TICK_LOCK_TTL}s). ` +
@@ -583,10 +605,48 @@ export async function runTranslationTick(
     const { stanzaResult, rawPoem, guideAnswers, sourceLanguage, createdBy } =
       context;
 
+    // Cost gate: once the owner's `block` budget is used up the job is
+    // marked blocked and left as is (a `downgrade` budget swaps models per
+    // call instead). Callers stop advancing it; a later tick that passes the
+    // gate clears the mark and carries on.
+    try {
+      await assertAiBudget({
+        userId: createdBy,
+        threadId,
+        projectId: context.projectId,
+      });
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error;
+      diag.mark("budget-blocked");
+      diag.summary();
+      console.warn(
+        `[runTranslationTick] Budget exceeded for ${threadId}: ${error.message}`,
+      );
+      const blockedJob = job.blocked
+        ? job
+        : await updateTranslationJob(threadId, (draft) => {
+            draft.blocked = {
+              reason: "budget_exceeded",
+              message: error.message,
+              at: Date.now(),
+            };
+            return draft;
+          });
+      return {
+        job: blockedJob ?? job,
+        startedChunks: [],
+        startedStanzas: [],
+        completedChunks: [],
+        completedStanzas: [],
+        hasWorkRemaining: true,
+      };
+    }
+
     const guidePreferencesSnapshot = cloneGuidePreferences(guideAnswers);
     const totalStanzas = stanzaResult.stanzas.length;
 
     const applyMetadata = (draft: TranslationJobState) => {
+      delete draft.blocked;
       if (draft.full_poem !== rawPoem) {
         draft.full_poem = rawPoem;
       }
@@ -928,6 +988,7 @@ export async function runTranslationTick(
             auditProjectId: context.projectId,
             deadlineMs,
             instrumentation,
+            sectionContext: getSectionContext(stanzaResult, stanzaIndex),
           });
 
           // ISS-005: Track interruption
@@ -0,0 +1,111 @@
+/**
+ * Tests for Method 1 line traces: every model run records a trace with the
+ * completion's token usage and how the answer validated, and cache hits
+ * record none.
+ *
+ * Run with: npx vitest run src/lib/workshop/translateLineInternal.test.ts
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { cache, persistLineTrace, create } = vi.hoisted(() => ({
+  cache: new Map<string, unknown>(),
+  persistLineTrace: vi.fn(async () => undefined),
+  create: vi.fn(),
+}));
+
+vi.mock("@/lib/ai/cache", () => ({
+  cacheGet: async (key: string) => cache.get(key) ?? null,
+  cacheSet: async (key: string, value: unknown) => {
+    cache.set(key, value);
+  },
+}));
+
+vi.mock("@/lib/ai/openai", () => ({
+  getClientForModel: () => ({ chat: { completions: { create } } }),
+  providerIdForModel: () => "openai",
+}));
+
+vi.mock("@/lib/translation/lineTrace", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/translation/lineTrace")>()),
+  persistLineTrace,
+}));
+
+import { translateLineInternal } from "./translateLineInternal";
+
+function variant(n: 1 | 2 | 3, text: string) {
+  return {
+    variant: n,
+    fullText: text,
+    words: [{ original: "noche", translation: "night", partOfSpeech: "noun", position: 0 }],
+    metadata: { literalness: 0.5, characterCount: text.length },
+  };
+}
+
+function answer(translations: unknown[]) {
+  return {
+    choices: [
+      { message: { content: JSON.stringify({ translations }) }, finish_reason: "stop" },
+    ],
+    usage: { prompt_tokens: 120, completion_tokens: 80, total_tokens: 200 },
+  };
+}
+
+const options = {
+  threadId: "thread-1",
+  lineIndex: 2,
+  lineText: "la noche",
+  fullPoem: "el día\nla tarde\nla noche",
+  guideAnswers: {},
+  sourceLanguage: "Spanish",
+  targetLanguage: "English",
+  modelOverride: "gpt-4o",
+};
+
+beforeEach(() => {
+  cache.clear();
+  persistLineTrace.mockClear();
+  create.mockReset();
+});
+
+describe("translateLineInternal traces", () => {
+  it("records a Method 1 trace for a model run", async () => {
+    create.mockResolvedValue(
+      answer([variant(1, "the night"), variant(2, "night falls"), variant(3, "nightfall")])
+    );
+
+    await translateLineInternal(options);
+
+    expect(persistLineTrace).toHaveBeenCalledTimes(1);
+    const [trace] = persistLineTrace.mock.calls[0] as unknown as [Record<string, unknown>];
+    expect(trace).toMatchObject({
+      method: "method-1",
+      threadId: "thread-1",
+      lineIndex: 2,
+      model: "gpt-4o",
+      fallbackMode: false,
+      validation: "valid",
+      variants: { final: ["the night", "night falls", "nightfall"] },
+      usage: { "main-gen": { calls: 1, promptTokens: 120, completionTokens: 80, totalTokens: 200 } },
+      generation: { temperature: 0.7, finishReason: "stop" },
+    });
+    expect((trace.stages as Array<{ id: string }>).map((s) => s.id)).toEqual([
+      "context", "prompt", "generation", "gates", "output",
+    ]);
+  });
+
+  it("marks repaired answers and records none for cache hits", async () => {
+    create.mockResolvedValue(
+      answer([variant(1, "the night"), { fullText: "night falls" }, variant(3, "nightfall")])
+    );
+
+    await translateLineInternal(options);
+    await translateLineInternal(options);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(persistLineTrace).toHaveBeenCalledTimes(1);
+    expect(persistLineTrace.mock.calls[0]).toEqual([
+      expect.objectContaining({ validation: "repaired" }),
+    ]);
+  });
+});
@@ -1,6 +1,6 @@
 import { z } from "zod";
 
-import { openai } from "@/lib/ai/openai";
+import { getClientForModel, providerIdForModel } from "@/lib/ai/openai";
 import { cacheGet, cacheSet } from "@/lib/ai/cache";
 import {
   buildLineTranslationPrompt,
@@ -10,8 +10,14 @@ import {
 import { TRANSLATOR_MODEL } from "@/lib/models";
 import { maskPrompts } from "@/server/audit/mask";
 import { insertPromptAudit } from "@/server/audit/insertPromptAudit";
+import {
+  LineTraceClock,
+  buildMethod1LineTrace,
+  persistLineTrace,
+} from "@/lib/translation/lineTrace";
 import type { GuideAnswers } from "@/store/guideSlice";
 import type { LineTranslationResponse } from "@/types/lineTranslation";
+import type { SectionContext } from "@/lib/poem/sections";
 
 function getOpenAIModelErrorDetails(error: unknown): {
   code?: string;
@@ -116,6 +122,8 @@ export type TranslateLineInternalOptions = {
   modelOverride?: string;
   /** Feature 9 (R): Use simplified translation without alignment */
   fallbackMode?: boolean;
+  /** Long-form works: prompt with the current section instead of the full poem */
+  sectionContext?: SectionContext | null;
 };
 
 export async function translateLineInternal(
@@ -137,6 +145,7 @@ export async function translateLineInternal(
     audit,
     modelOverride,
     fallbackMode = false,
+    sectionContext,
   } = options;
 
   // Include model in cache key so switching models doesn't accidentally reuse a
@@ -153,8 +162,11 @@ export async function translateLineInternal(
     }
   }
 
+  const traceClock = new LineTraceClock();
+
   // Feature 9 (R): Use fallback prompt if alignment failed
   const position = computeLinePosition(fullPoem, lineIndex);
+  traceClock.mark("context");
 
   const prompt = fallbackMode
     ? null
@@ -166,6 +178,7 @@ export async function translateLineInternal(
         fullPoem,
         stanzaIndex,
         position,
+        sectionContext,
         guideAnswers,
         sourceLanguage,
         targetLanguage,
@@ -179,7 +192,7 @@ export async function translateLineInternal(
     ? buildLineTranslationFallbackPrompt({
         lineText,
         lineIndex,
-        fullPoem,
+        fullPoem: sectionContext?.text ?? fullPoem,
         stanzaIndex,
         guideAnswers,
         sourceLanguage,
@@ -194,6 +207,7 @@ export async function translateLineInternal(
   }
 
   const auditMask = maskPrompts(systemPrompt, userPrompt);
+  traceClock.mark("prompt");
 
   let model = modelOverride ?? TRANSLATOR_MODEL;
   let completion;
@@ -202,7 +216,10 @@ export async function translateLineInternal(
 
   try {
     if (isGpt5) {
-      completion = await openai.chat.completions.create({
+      completion = await getClientForModel(
+        model,
+        "workshop-translate-line"
+      ).chat.completions.create({
         model,
         response_format: { type: "json_object" },
         messages: [
@@ -211,7 +228,10 @@ export async function translateLineInternal(
         ],
       });
     } else {
-      completion = await openai.chat.completions.create({
+      completion = await getClientForModel(
+        model,
+        "workshop-translate-line"
+      ).chat.completions.create({
         model,
         temperature: 0.7,
         response_format: { type: "json_object" },
@@ -236,7 +256,10 @@ export async function translateLineInternal(
       code || message || "error"
     );
     model = "gpt-4o-mini";
-    completion = await openai.chat.completions.create({
+    completion = await getClientForModel(
+      model,
+      "workshop-translate-line"
+    ).chat.completions.create({
       model,
       temperature: 0.7,
       response_format: { type: "json_object" },
@@ -248,6 +271,7 @@ export async function translateLineInternal(
   }
 
   const text = completion.choices[0]?.message?.content ?? "{}";
+  traceClock.mark("generation");
 
   if (audit?.createdBy) {
     insertPromptAudit({
@@ -255,7 +279,7 @@ export async function translateLineInternal(
       projectId: audit.projectId ?? null,
       threadId,
       stage: audit.stage ?? "workshop-translate-line",
-      provider: "openai",
+      provider: providerIdForModel(model),
       model,
       params: {
         lineIndex,
@@ -267,6 +291,47 @@ export async function translateLineInternal(
     }).catch(() => undefined);
   }
 
+  const recordTrace = (
+    response: LineTranslationResponse,
+    validation: "valid" | "repaired"
+  ) => {
+    traceClock.mark("output");
+    persistLineTrace(
+      buildMethod1LineTrace({
+        threadId,
+        lineIndex,
+        stanzaIndex,
+        clock: traceClock,
+        completionUsage: completion.usage,
+        lineText,
+        fullPoem,
+        prevLine,
+        nextLine,
+        translationIntent: guideAnswers.translationIntent?.trim(),
+        translationZone: guideAnswers.translationZone?.trim(),
+        sourceLanguage,
+        targetLanguage,
+        model,
+        fallbackMode,
+        validation,
+        prompt: {
+          systemChars: systemPrompt.length,
+          userChars: userPrompt.length,
+          userExcerpt:
+            typeof auditMask.promptUserMasked === "string"
+              ? auditMask.promptUserMasked
+              : JSON.stringify(auditMask.promptUserMasked),
+        },
+        generation: {
+          temperature: model.startsWith("gpt-5") ? undefined : 0.7,
+          finishReason: completion.choices[0]?.finish_reason ?? undefined,
+          strictSchema: false,
+        },
+        variants: response.translations.map((t) => t.fullText),
+      })
+    ).catch(() => undefined);
+  };
+
   let parsed: unknown;
   try {
     parsed = JSON.parse(text);
@@ -288,6 +353,7 @@ export async function translateLineInternal(
     );
 
     const translations = (parsed as { translations?: unknown[] })?.translations;
+    traceClock.mark("gates");
 
     if (!Array.isArray(translations) || translations.length < 3) {
       // Feature 9 (R): If alignment validation fails and not in fallback mode, try fallback
@@ -313,7 +379,7 @@ export async function translateLineInternal(
         metadata?: unknown;
       };
       return {
-        variant: (variant.variant ?? idx + 1) as 1 | 2 | 3,
+        variant: variant.variant ?? idx + 1,
         fullText: variant.fullText || lineText,
         words: Array.isArray(variant.words)
           ? variant.words.map((w, pos) => {
@@ -358,11 +424,14 @@ export async function translateLineInternal(
       modelUsed: model,
     };
 
+    recordTrace(fallbackResponse, "repaired");
     await cacheSet(effectiveCacheKey, fallbackResponse, 3600);
     return fallbackResponse;
   }
 
+  traceClock.mark("gates");
   const result = responseValidation.data;
+  recordTrace(result, "valid");
   await cacheSet(effectiveCacheKey, result, 3600);
   return result;
 }
@@ -0,0 +1,187 @@
+/**
+ * Tests for progress events: job writes become chunk, line, retry and job
+ * transitions, and replaying them on a summary matches summarizing the
+ * updated job.
+ *
+ * Run with: npx vitest run src/lib/workshop/translationProgress.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import type {
+  TranslatedLine,
+  TranslationJobState,
+  TranslationProgressMessage,
+} from "@/types/translationJob";
+import {
+  applyProgressEvent,
+  applyProgressEventToSummary,
+  diffProgressEvents,
+  summarizeSectionProgress,
+  summarizeTranslationJob,
+} from "./translationProgress";
+
+function line(lineNumber: number, text: string): TranslatedLine {
+  return {
+    line_number: lineNumber,
+    original_text: text,
+    translations: [],
+    translationStatus: "translated",
+    alignmentStatus: "pending",
+  };
+}
+
+function job(): TranslationJobState {
+  return {
+    jobId: "job-1",
+    version: 3,
+    status: "processing",
+    createdAt: 1000,
+    updatedAt: 2000,
+    maxConcurrent: 5,
+    queue: [1],
+    active: [0],
+    chunks: {
+      0: {
+        chunkIndex: 0,
+        status: "processing",
+        linesProcessed: 1,
+        totalLines: 2,
+        retries: 0,
+        maxRetries: 3,
+        lines: [line(0, "uno")],
+      },
+      1: {
+        chunkIndex: 1,
+        status: "queued",
+        linesProcessed: 0,
+        totalLines: 1,
+        retries: 0,
+        maxRetries: 3,
+        lines: [],
+      },
+    },
+  };
+}
+
+function messages(
+  before: TranslationJobState,
+  after: TranslationJobState
+): TranslationProgressMessage[] {
+  return diffProgressEvents(before, after).map((event, i) => ({
+    ...event,
+    seq: i + 1,
+    jobId: after.jobId,
+    at: 3000,
+  }));
+}
+
+describe("translation progress events", () => {
+  it("emits nothing for an unchanged job", () => {
+    expect(diffProgressEvents(job(), job())).toEqual([]);
+  });
+
+  it("reports chunk, line and job transitions", () => {
+    const before = job();
+    const after = structuredClone(before);
+    after.chunks[0].lines = [
+      { ...line(0, "uno"), alignmentStatus: "aligned" },
+      line(1, "dos"),
+    ];
+    after.chunks[0].linesProcessed = 2;
+    after.chunks[0].status = "completed";
+    after.status = "completed";
+
+    expect(diffProgressEvents(before, after)).toEqual([
+      expect.objectContaining({ type: "chunk_status", chunkIndex: 0, status: "completed", linesProcessed: 2 }),
+      {
+        type: "line_status",
+        chunkIndex: 0,
+        lineNumber: 0,
+        translationStatus: "translated",
+        alignmentStatus: "aligned",
+        line: after.chunks[0].lines[0],
+      },
+      expect.objectContaining({ type: "line_status", lineNumber: 1, line: line(1, "dos") }),
+      { type: "job_status", status: "completed" },
+    ]);
+  });
+
+  it("reports retries with their backoff", () => {
+    const before = job();
+    const after = structuredClone(before);
+    after.chunks[1].retries = 1;
+    after.chunks[1].nextRetryAt = 5000;
+    after.chunks[1].error = "rate limited";
+
+    expect(diffProgressEvents(before, after)).toEqual([
+      {
+        type: "retry",
+        chunkIndex: 1,
+        retries: 1,
+        maxRetries: 3,
+        nextRetryAt: 5000,
+        error: "rate limited",
+      },
+    ]);
+  });
+
+  it("replays events onto a job and its summary", () => {
+    const before = job();
+    const after = structuredClone(before);
+    after.chunks[0].lines = [line(0, "uno"), line(1, "dos")];
+    after.chunks[0].linesProcessed = 2;
+    after.chunks[0].status = "completed";
+    after.chunks[1].status = "processing";
+
+    const events = messages(before, after);
+    const replayed = events.reduce(applyProgressEvent, before);
+    expect(replayed.chunks).toEqual(after.chunks);
+    expect(replayed.updatedAt).toBe(3000);
+
+    const summary = events.reduce(
+      applyProgressEventToSummary,
+      summarizeTranslationJob(before)!
+    );
+    expect(summary.progress).toEqual(
+      summarizeTranslationJob({ ...after, updatedAt: 3000 })!.progress
+    );
+    expect(summary.progress).toMatchObject({ completed: 1, processing: 1 });
+  });
+
+  it("reports a budget block and its clearing", () => {
+    const before = job();
+    const blocked = structuredClone(before);
+    blocked.blocked = { reason: "budget_exceeded", message: "Budget used up", at: 2500 };
+
+    const [event] = messages(before, blocked);
+    expect(event).toMatchObject({ type: "job_blocked", blocked: blocked.blocked });
+    expect(
+      applyProgressEventToSummary(summarizeTranslationJob(before)!, event).blocked
+    ).toEqual(blocked.blocked);
+    expect(summarizeTranslationJob(blocked)!.blocked).toEqual(blocked.blocked);
+
+    expect(diffProgressEvents(blocked, before)).toEqual([
+      { type: "job_blocked", blocked: null },
+    ]);
+  });
+
+  it("ignores events for a replaced job", () => {
+    const before = job();
+    const [event] = messages(before, { ...before, status: "failed" });
+    expect(applyProgressEvent(before, { ...event, jobId: "job-2" })).toBe(before);
+  });
+});
+
+describe("summarizeSectionProgress", () => {
+  it("counts each section's chunks, missing ones as pending", () => {
+    const sections = [
+      { index: 0, title: "Canto I", firstChunk: 0, chunkCount: 1, firstLine: 0, lineCount: 2 },
+      { index: 1, title: "Canto II", firstChunk: 1, chunkCount: 2, firstLine: 2, lineCount: 3 },
+    ];
+    const [first, second] = summarizeSectionProgress(sections, job().chunks);
+
+    expect(first.section.title).toBe("Canto I");
+    expect(first.progress).toMatchObject({ total: 1, processing: 1 });
+    expect(second.progress).toMatchObject({ total: 2, queued: 1, pending: 1 });
+  });
+});
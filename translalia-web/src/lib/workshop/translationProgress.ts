@@ -1,10 +1,48 @@
 import type {
+  TranslatedLine,
   TranslationChunkState,
   TranslationJobProgressCounts,
   TranslationJobProgressSummary,
   TranslationJobState,
+  TranslationProgressEvent,
+  TranslationProgressMessage,
   TranslationStanzaState,
 } from "@/types/translationJob";
+import type { PoemSectionOutline } from "@/lib/poem/sections";
+
+/** The job fields progress summaries and progress events work on. */
+type ProgressTarget = Pick<
+  TranslationJobState,
+  "jobId" | "status" | "blocked" | "updatedAt" | "chunks" | "stanzas"
+>;
+
+/** Per-section chunk counts of a long-form job. */
+export interface SectionProgress {
+  section: PoemSectionOutline;
+  progress: TranslationJobProgressCounts;
+}
+
+function countChunkStatuses(
+  states: Array<Pick<TranslationChunkState, "status"> | undefined>
+): TranslationJobProgressCounts {
+  const counts: TranslationJobProgressCounts = {
+    total: states.length,
+    completed: 0,
+    processing: 0,
+    queued: 0,
+    pending: 0,
+    failed: 0,
+  };
+
+  states.forEach((stanza) => {
+    if (stanza?.status === "completed") counts.completed += 1;
+    else if (stanza?.status === "processing") counts.processing += 1;
+    else if (stanza?.status === "queued") counts.queued += 1;
+    else if (stanza?.status === "failed") counts.failed += 1;
+    else counts.pending += 1;
+  });
+  return counts;
+}
 
 function cloneChunkState(
   chunk: TranslationChunkState
@@ -19,7 +57,7 @@ function cloneStanzaState(
 }
 
 export function summarizeTranslationJob(
-  job: TranslationJobState | null
+  job: ProgressTarget | null
 ): TranslationJobProgressSummary | null {
   if (!job) {
     return null;
@@ -28,22 +66,7 @@ export function summarizeTranslationJob(
   // Use chunks if available, otherwise fall back to stanzas
   const chunkOrStanzaStates = job.chunks || job.stanzas || {};
 
-  const counts: TranslationJobProgressCounts = {
-    total: Object.keys(chunkOrStanzaStates).length,
-    completed: 0,
-    processing: 0,
-    queued: 0,
-    pending: 0,
-    failed: 0,
-  };
-
-  Object.values(chunkOrStanzaStates).forEach((stanza) => {
-    if (stanza.status === "completed") counts.completed += 1;
-    else if (stanza.status === "processing") counts.processing += 1;
-    else if (stanza.status === "queued") counts.queued += 1;
-    else if (stanza.status === "failed") counts.failed += 1;
-    else counts.pending += 1;
-  });
+  const counts = countChunkStatuses(Object.values(chunkOrStanzaStates));
 
   const clonedChunks = Object.fromEntries(
     Object.entries(chunkOrStanzaStates).map(([index, chunk]) => [
@@ -77,9 +100,191 @@ export function summarizeTranslationJob(
   return {
     jobId: job.jobId,
     status: job.status,
+    ...(job.blocked ? { blocked: job.blocked } : {}),
     progress: counts,
     chunks: clonedChunks,
     stanzas: clonedStanzas,
     updatedAt: job.updatedAt,
   };
 }
+
+/**
+ * Chunk counts per section of a long-form poem. Chunks without a state yet
+ * count as pending.
+ */
+export function summarizeSectionProgress(
+  sections: PoemSectionOutline[],
+  chunkStates:
+    | Record<number, Pick<TranslationChunkState, "status">>
+    | null
+    | undefined
+): SectionProgress[] {
+  return sections.map((section) => ({
+    section,
+    progress: countChunkStatuses(
+      Array.from(
+        { length: section.chunkCount },
+        (_, i) => chunkStates?.[section.firstChunk + i]
+      )
+    ),
+  }));
+}
+
+// ============================================================================
+// Progress Events
+// ============================================================================
+
+function linesByNumber(chunk: TranslationChunkState | undefined) {
+  return new Map((chunk?.lines ?? []).map((line) => [line.line_number, line]));
+}
+
+/**
+ * Transitions between two states of the same job: job and chunk status,
+ * per-line translation/alignment status and chunk retries. Lines carry their
+ * full content when they become (or are re-)translated.
+ */
+export function diffProgressEvents(
+  before: TranslationJobState,
+  after: TranslationJobState
+): TranslationProgressEvent[] {
+  const events: TranslationProgressEvent[] = [];
+
+  for (const [idx, chunk] of Object.entries(after.chunks ?? {})) {
+    const chunkIndex = Number(idx);
+    const prev = before.chunks?.[chunkIndex];
+
+    if ((chunk.retries ?? 0) > (prev?.retries ?? 0)) {
+      events.push({
+        type: "retry",
+        chunkIndex,
+        retries: chunk.retries ?? 0,
+        maxRetries: chunk.maxRetries,
+        nextRetryAt: chunk.nextRetryAt,
+        error: chunk.error,
+      });
+    }
+
+    if (
+      !prev ||
+      prev.status !== chunk.status ||
+      prev.linesProcessed !== chunk.linesProcessed
+    ) {
+      events.push({
+        type: "chunk_status",
+        chunkIndex,
+        status: chunk.status,
+        linesProcessed: chunk.linesProcessed,
+        totalLines: chunk.totalLines,
+        error: chunk.error,
+      });
+    }
+
+    const prevLines = linesByNumber(prev);
+    for (const line of chunk.lines ?? []) {
+      const prevLine = prevLines.get(line.line_number);
+      const statusChanged =
+        prevLine?.translationStatus !== line.translationStatus ||
+        prevLine?.alignmentStatus !== line.alignmentStatus;
+      const retranslated =
+        line.translationStatus === "translated" &&
+        JSON.stringify(prevLine) !== JSON.stringify(line);
+      if (!statusChanged && !retranslated) continue;
+
+      events.push({
+        type: "line_status",
+        chunkIndex,
+        lineNumber: line.line_number,
+        translationStatus: line.translationStatus,
+        alignmentStatus: line.alignmentStatus,
+        ...(retranslated ? { line } : {}),
+      });
+    }
+  }
+
+  if (before.status !== after.status) {
+    events.push({ type: "job_status", status: after.status });
+  }
+  if (before.blocked?.reason !== after.blocked?.reason) {
+    events.push({ type: "job_blocked", blocked: after.blocked ?? null });
+  }
+  return events;
+}
+
+function patchLines(
+  lines: TranslatedLine[],
+  event: Extract<TranslationProgressEvent, { type: "line_status" }>
+): TranslatedLine[] {
+  const { line } = event;
+  if (line) {
+    return [...lines.filter((l) => l.line_number !== line.line_number), line].sort(
+      (a, b) => a.line_number - b.line_number
+    );
+  }
+  return lines.map((l) =>
+    l.line_number === event.lineNumber
+      ? {
+          ...l,
+          translationStatus: event.translationStatus,
+          alignmentStatus: event.alignmentStatus,
+        }
+      : l
+  );
+}
+
+/**
+ * Apply one streamed event to a job (or progress summary). Events for another
+ * job are ignored; callers should reload when `message.jobId` differs.
+ */
+export function applyProgressEvent<T extends ProgressTarget>(
+  target: T,
+  message: TranslationProgressMessage
+): T {
+  if (message.jobId !== target.jobId) return target;
+
+  const updatedAt = Math.max(target.updatedAt, message.at);
+  if (message.type === "job_status") {
+    return { ...target, status: message.status, updatedAt };
+  }
+  if (message.type === "job_blocked") {
+    return { ...target, blocked: message.blocked ?? undefined, updatedAt };
+  }
+
+  const chunk = target.chunks?.[message.chunkIndex];
+  if (!chunk) return target;
+
+  let next: TranslationChunkState;
+  if (message.type === "chunk_status") {
+    next = {
+      ...chunk,
+      status: message.status,
+      linesProcessed: message.linesProcessed,
+      totalLines: message.totalLines,
+      error: message.error,
+    };
+  } else if (message.type === "retry") {
+    next = {
+      ...chunk,
+      retries: message.retries,
+      maxRetries: message.maxRetries ?? chunk.maxRetries,
+      nextRetryAt: message.nextRetryAt,
+      error: message.error ?? chunk.error,
+    };
+  } else {
+    next = { ...chunk, lines: patchLines(chunk.lines ?? [], message) };
+  }
+
+  return {
+    ...target,
+    chunks: { ...target.chunks, [message.chunkIndex]: next },
+    updatedAt,
+  };
+}
+
+/** Apply one streamed event to a progress summary, recounting chunks. */
+export function applyProgressEventToSummary(
+  summary: TranslationJobProgressSummary,
+  message: TranslationProgressMessage
+): TranslationJobProgressSummary {
+  const next = applyProgressEvent(summary, message);
+  return next === summary ? summary : summarizeTranslationJob(next)!;
+}
@@ -0,0 +1,102 @@
+/**
+ * Tests for queue admission: jobs weigh one slot per 50 poem lines, a job
+ * is rejected when the waiting jobs' weights leave no room for it, and an
+ * empty queue admits a job of any size.
+ *
+ * Run with: npx vitest run src/lib/workshop/translationQueue.test.ts
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { redis } = vi.hoisted(() => {
+  const lists = new Map<string, string[]>();
+  const sets = new Map<string, Set<string>>();
+  const list = (key: string) => lists.get(key) ?? lists.set(key, []).get(key)!;
+
+  return {
+    redis: {
+      reset() {
+        lists.clear();
+        sets.clear();
+      },
+      raw: (key: string) => [...list(key)],
+      llen: async (key: string) => list(key).length,
+      lpush: async (key: string, ...values: string[]) => {
+        list(key).unshift(...values.reverse());
+        return list(key).length;
+      },
+      // Upstash auto-deserializes JSON values on read
+      lrange: async (key: string, start: number, stop: number) =>
+        list(key)
+          .slice(start, stop < 0 ? undefined : stop + 1)
+          .map((value) => JSON.parse(value)),
+      sadd: async (key: string, member: string) => {
+        const set = sets.get(key) ?? sets.set(key, new Set()).get(key)!;
+        if (set.has(member)) return 0;
+        set.add(member);
+        return 1;
+      },
+      srem: async (key: string, member: string) =>
+        sets.get(key)?.delete(member) ? 1 : 0,
+    },
+  };
+});
+
+vi.mock("@/lib/ai/cache", () => ({ getUpstashRedis: async () => redis }));
+
+import {
+  QUEUE_KEY,
+  enqueueTranslationJob,
+  parseQueueMessage,
+  queueWeight,
+} from "./translationQueue";
+
+beforeEach(() => {
+  redis.reset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("queueWeight", () => {
+  it("takes a slot per 50 lines, capped at the queue depth", () => {
+    expect(queueWeight(undefined)).toBe(1);
+    expect(queueWeight(12)).toBe(1);
+    expect(queueWeight(50)).toBe(1);
+    expect(queueWeight(51)).toBe(2);
+    expect(queueWeight(1800)).toBe(36);
+    expect(queueWeight(100000)).toBe(100);
+  });
+});
+
+describe("enqueueTranslationJob admission", () => {
+  it("stores the line count on the message", async () => {
+    await enqueueTranslationJob("t1", { userId: "u1", lines: 120 });
+    const [raw] = redis.raw(QUEUE_KEY);
+    expect(parseQueueMessage(raw)).toMatchObject({ threadId: "t1", lines: 120 });
+  });
+
+  it("rejects a job that does not fit beside the waiting ones", async () => {
+    // 60 + 30 slots waiting
+    await enqueueTranslationJob("epic-1", { lines: 3000 });
+    await enqueueTranslationJob("epic-2", { lines: 1500 });
+
+    expect(await enqueueTranslationJob("epic-3", { lines: 600 })).toEqual({
+      enqueued: false,
+      reason: "queue_full",
+    });
+    expect(await enqueueTranslationJob("short", { lines: 14 })).toEqual({
+      enqueued: true,
+    });
+    expect(redis.raw(QUEUE_KEY)).toHaveLength(3);
+  });
+
+  it("admits an oversized job into an empty queue", async () => {
+    expect(await enqueueTranslationJob("epic", { lines: 100000 })).toEqual({
+      enqueued: true,
+    });
+    expect(await enqueueTranslationJob("short", { lines: 10 })).toEqual({
+      enqueued: false,
+      reason: "queue_full",
+    });
+  });
+});
@@ -8,17 +8,41 @@
  * - Legacy: raw threadId string
  * - Structured: JSON with threadId, attempt, enqueuedAt, failureClass, traceId
  * The worker handles both formats for safe deploy-order rollout.
+ *
+ * The worker does not pop the list in FIFO order: fairScheduler.ts picks the
+ * next message across users, priority classes and model caps.
  */
 
 import { getUpstashRedis } from "@/lib/ai/cache";
+import {
+  recordDeadLetter,
+  recordReenqueue,
+} from "@/lib/telemetry/metricsCollector";
 
-const QUEUE_KEY = "translation:queue";
+export const QUEUE_KEY = "translation:queue";
 const MAX_QUEUE_DEPTH = parseInt(
   process.env.TRANSLATION_MAX_QUEUE_DEPTH || "100",
   10
 );
+/**
+ * Poem lines that count as one queue slot. A long-form job takes several
+ * slots, so a burst of long works cannot fill the queue with hours of work.
+ */
+const LINES_PER_QUEUE_SLOT = parseInt(
+  process.env.TRANSLATION_LINES_PER_QUEUE_SLOT || "50",
+  10
+);
 const MAX_RETRY_ATTEMPTS = 5;
-const DLQ_KEY = "translation:dlq";
+/** Messages that exhausted their retries; see deadLetterQueue.ts */
+export const DLQ_KEY = "translation:dlq";
+/** Threads whose next tick was requested interactively (e.g. a stanza retry) */
+export const INTERACTIVE_KEY = `${QUEUE_KEY}:interactive`;
+
+/**
+ * Scheduling class: interactive work (user-triggered retries) is picked
+ * before bulk work (initialize-translations and re-enqueues).
+ */
+export type QueuePriority = "interactive" | "bulk";
 
 export interface StructuredQueueMessage {
   threadId: string;
@@ -27,6 +51,12 @@ export interface StructuredQueueMessage {
   failureClass?: string;
   traceId?: string;
   userId?: string;
+  /** Translation model, for the scheduler's per-model concurrency caps */
+  model?: string;
+  /** Poem line count, for size-weighted admission (see queueWeight) */
+  lines?: number;
+  /** When the message was moved to the DLQ (epoch ms) */
+  deadLetteredAt?: number;
 }
 
 /**
@@ -47,6 +77,9 @@ export function parseQueueMessage(raw: string | object): StructuredQueueMessage
         failureClass: obj.failureClass as string | undefined,
         traceId: obj.traceId as string | undefined,
         userId: obj.userId as string | undefined,
+        model: obj.model as string | undefined,
+        lines: obj.lines as number | undefined,
+        deadLetteredAt: obj.deadLetteredAt as number | undefined,
       };
     }
   }
@@ -62,6 +95,9 @@ export function parseQueueMessage(raw: string | object): StructuredQueueMessage
         failureClass: parsed.failureClass,
         traceId: parsed.traceId,
         userId: parsed.userId,
+        model: parsed.model,
+        lines: parsed.lines,
+        deadLetteredAt: parsed.deadLetteredAt,
       };
     }
   } catch {
@@ -74,6 +110,26 @@ export function parseQueueMessage(raw: string | object): StructuredQueueMessage
   };
 }
 
+/** Queue `model` for a job from its guide preferences (translationModel). */
+export function queueModelOf(
+  guidePreferences: Record<string, unknown> | undefined | null
+): string | undefined {
+  const model = guidePreferences?.translationModel;
+  return typeof model === "string" && model ? model : undefined;
+}
+
+/**
+ * Queue slots taken by a job of `lines` poem lines: one per
+ * LINES_PER_QUEUE_SLOT lines, at least one, at most the whole queue.
+ */
+export function queueWeight(lines: number | undefined): number {
+  if (!lines || !Number.isFinite(lines) || lines <= 0) return 1;
+  return Math.min(
+    MAX_QUEUE_DEPTH,
+    Math.max(1, Math.ceil(lines / LINES_PER_QUEUE_SLOT))
+  );
+}
+
 function serializeQueueMessage(msg: StructuredQueueMessage): string {
   return JSON.stringify(msg);
 }
@@ -83,11 +139,24 @@ function serializeQueueMessage(msg: StructuredQueueMessage): string {
  *
  * Admission control:
  * - Rejects if queue depth exceeds MAX_QUEUE_DEPTH.
+ * - Rejects if the waiting jobs' weights plus this job's exceed
+ *   MAX_QUEUE_DEPTH (see queueWeight); a job is always admitted to an
+ *   empty queue, however long the poem.
  * - Deduplicates via active set (SADD).
+ *
+ * An interactive enqueue of a thread that is already queued or running
+ * promotes its next tick instead (reason "already_active").
  */
 export async function enqueueTranslationJob(
   threadId: string,
-  options?: { userId?: string; traceId?: string }
+  options?: {
+    userId?: string;
+    traceId?: string;
+    model?: string;
+    priority?: QueuePriority;
+    /** Poem line count (long-form works weigh more) */
+    lines?: number;
+  }
 ): Promise<{ enqueued: boolean; reason?: string }> {
   const redis = await getUpstashRedis();
 
@@ -114,12 +183,38 @@ export async function enqueueTranslationJob(
       return { enqueued: false, reason: "queue_full" };
     }
 
+    const weight = queueWeight(options?.lines);
+    if (queueDepth > 0) {
+      const waiting = await (
+        redis as {
+          lrange: (key: string, start: number, stop: number) => Promise<unknown[]>;
+        }
+      ).lrange(QUEUE_KEY, 0, -1);
+      const used = waiting.reduce<number>(
+        (sum, raw) =>
+          sum + queueWeight(parseQueueMessage(raw as string | object).lines),
+        0
+      );
+      if (used + weight > MAX_QUEUE_DEPTH) {
+        console.warn(
+          `[translationQueue] Queue full (${used}+${weight}/${MAX_QUEUE_DEPTH} slots), rejecting ${threadId}`
+        );
+        return { enqueued: false, reason: "queue_full" };
+      }
+    }
+
     // De-dupe: Use SADD to track active jobs
     const activeKey = `${QUEUE_KEY}:active`;
     const wasAdded = await (
       redis as { sadd: (key: string, member: string) => Promise<number> }
     ).sadd(activeKey, threadId);
 
+    if (options?.priority === "interactive") {
+      await (
+        redis as { sadd: (key: string, member: string) => Promise<number> }
+      ).sadd(INTERACTIVE_KEY, threadId);
+    }
+
     if (wasAdded > 0) {
       const msg: StructuredQueueMessage = {
         threadId,
@@ -127,6 +222,8 @@ export async function enqueueTranslationJob(
         enqueuedAt: Date.now(),
         traceId: options?.traceId,
         userId: options?.userId,
+        model: options?.model,
+        lines: options?.lines,
       };
       await (
         redis as {
@@ -170,7 +267,11 @@ export async function reenqueueWithRetry(
         }
       ).lpush(
         DLQ_KEY,
-        serializeQueueMessage({ ...msg, attempt: nextAttempt })
+        serializeQueueMessage({
+          ...msg,
+          attempt: nextAttempt,
+          deadLetteredAt: Date.now(),
+        })
       );
     } catch (err) {
       console.error(
@@ -178,6 +279,7 @@ export async function reenqueueWithRetry(
         err
       );
     }
+    recordDeadLetter();
     await deactivateTranslationJob(msg.threadId);
     return { reenqueued: false, dlq: true };
   }
@@ -194,6 +296,7 @@ export async function reenqueueWithRetry(
         lpush: (key: string, ...values: string[]) => Promise<number>;
       }
     ).lpush(QUEUE_KEY, serializeQueueMessage(updated));
+    recordReenqueue();
     console.log(
       `[translationQueue] Re-enqueued ${msg.threadId} (attempt ${nextAttempt}/${MAX_RETRY_ATTEMPTS})`
     );
@@ -208,7 +311,8 @@ export async function reenqueueWithRetry(
 }
 
 /**
- * Remove a job from the active set (called by worker when done)
+ * Remove a job from the active set (called by worker when done), along with
+ * any pending interactive promotion
  */
 export async function deactivateTranslationJob(
   threadId: string
@@ -221,6 +325,9 @@ export async function deactivateTranslationJob(
     await (
       redis as { srem: (key: string, member: string) => Promise<number> }
     ).srem(activeKey, threadId);
+    await (
+      redis as { srem: (key: string, member: string) => Promise<number> }
+    ).srem(INTERACTIVE_KEY, threadId);
   } catch (error) {
     console.error(
       `[translationQueue] Failed to deactivate ${threadId}:`,
@@ -270,6 +377,38 @@ export async function removeFromTranslationActiveSet(
   return removed;
 }
 
+/**
+ * Queue and dead-letter lengths, active set size and the age of the oldest
+ * waiting message (messages are LPUSHed, so the oldest is at the tail).
+ * Null when Redis is not configured.
+ */
+export async function getTranslationQueueStats(): Promise<{
+  depth: number;
+  dlqDepth: number;
+  activeJobs: number;
+  oldestAgeMs: number;
+} | null> {
+  const redis = (await getUpstashRedis()) as {
+    llen: (key: string) => Promise<number>;
+    scard: (key: string) => Promise<number>;
+    lindex: (key: string, index: number) => Promise<string | object | null>;
+  } | null;
+  if (!redis) return null;
+
+  const [depth, dlqDepth, activeJobs, oldest] = await Promise.all([
+    redis.llen(QUEUE_KEY),
+    redis.llen(DLQ_KEY),
+    redis.scard(`${QUEUE_KEY}:active`),
+    redis.lindex(QUEUE_KEY, -1),
+  ]);
+  const oldestAgeMs =
+    oldest == null
+      ? 0
+      : Math.max(0, Date.now() - parseQueueMessage(oldest).enqueuedAt);
+
+  return { depth, dlqDepth, activeJobs, oldestAgeMs };
+}
+
 /**
  * Get Redis client for worker (used by worker script)
  */
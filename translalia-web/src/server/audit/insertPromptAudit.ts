@@ -57,6 +57,7 @@ export async function insertPromptAudit(
 ): Promise<string | null> {
   try {
     const supabase = await getServerClient();
+    const stage = normalizeStage(args.stage);
 
     const { data, error } = await supabase
       .from("prompt_audits")
@@ -64,9 +65,14 @@ export async function insertPromptAudit(
         created_by: args.createdBy,
         project_id: args.projectId ?? null,
         thread_id: args.threadId ?? null,
-        stage: normalizeStage(args.stage),
+        stage,
         model: args.model,
-        params: args.params,
+        // Keep the caller's stage when the constraint forced another one, so
+        // the audit explorer can still filter on it
+        params:
+          stage === args.stage
+            ? args.params
+            : { ...args.params, requested_stage: args.stage },
         prompt_system: args.promptSystemMasked,
         // Table expects jsonb for prompt_user — store masked string under {masked: "..."}
         prompt_user:
@@ -0,0 +1,96 @@
+/**
+ * Server-side persistence for golden-set eval reports (eval_runs table).
+ * RLS-scoped: callers pass the authenticated client from requireUser(), and
+ * each user only sees their own runs.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { EvalMethod, EvalMetrics, EvalReport, EvalReportDiff } from "@/lib/eval/types";
+
+export type EvalRunSummaryRow = {
+  id: string;
+  golden_set_version: string;
+  method: EvalMethod;
+  model: string;
+  client_kind: string;
+  summary: EvalMetrics;
+  previous_run_id: string | null;
+  regressed: boolean | null;
+  created_at: string;
+};
+
+/**
+ * Most recent stored report for the same golden set, method, client kind and
+ * model as `report`, or null. Runs against another client or model are not
+ * comparable baselines.
+ */
+export async function loadPreviousEvalReport(
+  sb: SupabaseClient,
+  report: Pick<EvalReport, "goldenSetVersion" | "method" | "clientKind" | "model">
+): Promise<EvalReport | null> {
+  const { data, error } = await sb
+    .from("eval_runs")
+    .select("report")
+    .eq("golden_set_version", report.goldenSetVersion)
+    .eq("method", report.method)
+    .eq("client_kind", report.clientKind)
+    .eq("model", report.model)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[evalRunStore] previous run lookup failed", error.message);
+    return null;
+  }
+  return (data?.report as EvalReport | undefined) ?? null;
+}
+
+/**
+ * Store a report with its diff against the previous run. Throws on failure so
+ * the caller can tell the run was not recorded.
+ */
+export async function saveEvalReport(
+  sb: SupabaseClient,
+  args: { createdBy: string; report: EvalReport; diff: EvalReportDiff | null }
+): Promise<void> {
+  const { createdBy, report, diff } = args;
+  const { error } = await sb.from("eval_runs").insert({
+    id: report.runId,
+    created_by: createdBy,
+    golden_set_version: report.goldenSetVersion,
+    method: report.method,
+    model: report.model,
+    client_kind: report.clientKind,
+    summary: report.summary,
+    report,
+    diff,
+    previous_run_id: diff?.previousRunId ?? null,
+    regressed: diff ? diff.regressed : null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to store eval run: ${error.message}`);
+  }
+}
+
+/**
+ * Recent runs without the full report payload
+ */
+export async function listEvalRuns(
+  sb: SupabaseClient,
+  limit = 20
+): Promise<EvalRunSummaryRow[]> {
+  const { data, error } = await sb
+    .from("eval_runs")
+    .select(
+      "id, golden_set_version, method, model, client_kind, summary, previous_run_id, regressed, created_at"
+    )
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list eval runs: ${error.message}`);
+  }
+  return (data ?? []) as EvalRunSummaryRow[];
+}
@@ -4,7 +4,15 @@ import { supabaseServer } from "@/lib/supabaseServer";
 import { GuideAnswers } from "@/store/guideSlice";
 import type { SimplePoemStanzas } from "@/lib/utils/stanzaUtils";
 import type { StanzaDetectionResult } from "@/lib/poem/stanzaDetection";
-import type { TranslatedLine, TranslationJobState } from "@/types/translationJob";
+import { normalizeSectionOutline } from "@/lib/poem/sections";
+import type { TranslatedLine } from "@/types/translationJob";
+import { getTranslationJob } from "@/lib/workshop/jobState";
+import { isThreadLocked } from "@/lib/classroom/store";
+import {
+  MAX_VARIANT_COUNT,
+  MIN_VARIANT_COUNT,
+  resolveVariantCount,
+} from "@/lib/ai/variantCount";
 import { z } from "zod";
 
 // Validation schemas for each answer type
@@ -77,6 +85,13 @@ const GuideAnswersSchema = z
       ])
       .optional(),
     translationMethod: z.enum(["method-1", "method-2"]).optional(),
+    translationMemory: z.boolean().optional(),
+    variantCount: z
+      .number()
+      .int()
+      .min(MIN_VARIANT_COUNT)
+      .max(MAX_VARIANT_COUNT)
+      .optional(),
     targetLanguage: TargetLanguageSchema.optional(),
     audience: AudienceSchema.optional(),
     stance: StanceSchema.optional(),
@@ -92,6 +107,9 @@ export type UpdateGuideStateResult =
   | { success: true }
   | { success: false; error: string };
 
+const SUBMISSION_LOCKED_ERROR =
+  "This translation has been submitted and is locked until it is returned";
+
 interface SavePoemStateParams {
   threadId: string;
   rawPoem: string;
@@ -104,6 +122,8 @@ interface SavePoemStateParams {
 function convertToStanzaDetectionResult(
   simple: SimplePoemStanzas
 ): StanzaDetectionResult {
+  // Long-form poems carry a section outline; drop it if it does not match
+  const sections = normalizeSectionOutline(simple.sections, simple.stanzas);
   return {
     stanzas: simple.stanzas.map((stanza) => ({
       number: stanza.number,
@@ -114,7 +134,10 @@ function convertToStanzaDetectionResult(
     })),
     totalStanzas: simple.totalStanzas,
     detectionMethod: "local",
-    reasoning: "Client-side 4-line stanza detection",
+    reasoning: sections
+      ? "Client-side long-form sections, chunked per section"
+      : "Client-side 4-line stanza detection",
+    ...(sections ? { sections } : {}),
   };
 }
 
@@ -154,7 +177,7 @@ export async function updateGuideState(
     // Fetch current thread state and columns
     const { data: thread, error: fetchError } = await supabase
       .from("chat_threads")
-      .select("id, state, translation_model, translation_method, translation_intent, translation_zone, source_language_variety")
+      .select("id, state, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, translation_memory_enabled, variant_count")
       .eq("id", threadId)
       .eq("created_by", user.id)
       .single();
@@ -162,6 +185,9 @@ export async function updateGuideState(
     if (fetchError || !thread) {
       return { success: false, error: "Thread not found or unauthorized" };
     }
+    if (await isThreadLocked(supabase, threadId)) {
+      return { success: false, error: SUBMISSION_LOCKED_ERROR };
+    }
 
     // Merge updates with existing guide_answers (from columns, with JSONB fallback for legacy)
     const currentState = (thread.state as any) || {};
@@ -173,6 +199,8 @@ export async function updateGuideState(
       translationIntent: thread.translation_intent ?? currentState.guide_answers?.translationIntent ?? null,
       translationZone: thread.translation_zone ?? currentState.guide_answers?.translationZone ?? null,
       sourceLanguageVariety: thread.source_language_variety ?? currentState.guide_answers?.sourceLanguageVariety ?? null,
+      translationMemory: thread.translation_memory_enabled ?? true,
+      variantCount: resolveVariantCount(thread.variant_count),
     };
     const mergedAnswers: GuideAnswers = {
       ...currentAnswers,
@@ -212,6 +240,8 @@ export async function updateGuideState(
       translation_intent: mergedAnswers.translationIntent ?? null,
       translation_zone: mergedAnswers.translationZone ?? null,
       source_language_variety: mergedAnswers.sourceLanguageVariety ?? null,
+      translation_memory_enabled: mergedAnswers.translationMemory !== false,
+      variant_count: resolveVariantCount(mergedAnswers.variantCount),
       // NOTE: Do NOT update the state JSONB here - this was clobbering recipe cache
       // Only remove guide_answers from state if it exists using atomic jsonb patch
     };
@@ -273,7 +303,7 @@ export async function getGuideState(
 
     const { data: thread, error: fetchError } = await supabase
       .from("chat_threads")
-      .select("state, translation_model, translation_method, translation_intent, translation_zone, source_language_variety")
+      .select("state, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, translation_memory_enabled, variant_count")
       .eq("id", threadId)
       .eq("created_by", user.id)
       .single();
@@ -292,6 +322,8 @@ export async function getGuideState(
       translationIntent: thread.translation_intent ?? currentState.guide_answers?.translationIntent ?? null,
       translationZone: thread.translation_zone ?? currentState.guide_answers?.translationZone ?? null,
       sourceLanguageVariety: thread.source_language_variety ?? currentState.guide_answers?.sourceLanguageVariety ?? null,
+      translationMemory: thread.translation_memory_enabled ?? true,
+      variantCount: resolveVariantCount(thread.variant_count),
     };
 
     return { success: true, answers };
@@ -345,6 +377,9 @@ export async function savePoemState({
     if (fetchError || !thread) {
       return { success: false, error: "Thread not found or unauthorized" };
     }
+    if (await isThreadLocked(supabase, threadId)) {
+      return { success: false, error: SUBMISSION_LOCKED_ERROR };
+    }
 
     // Convert SimplePoemStanzas to StanzaDetectionResult format
     const stanzaDetectionResult = convertToStanzaDetectionResult(stanzas);
@@ -434,7 +469,7 @@ export async function getFullThreadState(
     const { data: thread, error: fetchError } = await supabase
       .from("chat_threads")
       .select(
-        "state, raw_poem, translation_model, translation_method, translation_intent, translation_zone, source_language_variety"
+        "state, raw_poem, translation_model, translation_method, translation_intent, translation_zone, source_language_variety, translation_memory_enabled, variant_count"
       )
       .eq("id", threadId)
       .eq("created_by", user.id)
@@ -456,6 +491,8 @@ export async function getFullThreadState(
       translationIntent: thread.translation_intent ?? (legacyAnswers.translationIntent as string) ?? null,
       translationZone: thread.translation_zone ?? (legacyAnswers.translationZone as string) ?? null,
       sourceLanguageVariety: thread.source_language_variety ?? (legacyAnswers.sourceLanguageVariety as string) ?? null,
+      translationMemory: thread.translation_memory_enabled ?? true,
+      variantCount: resolveVariantCount(thread.variant_count),
     };
 
     // Extract poem stanzas from JSONB state
@@ -465,7 +502,7 @@ export async function getFullThreadState(
     const workshopLines = (currentState.workshop_lines as Array<{ original: string; translated: string } | null>) ?? null;
 
     // Extract lean line-level variant data from completed chunks/stanzas
-    const translationJob = currentState.translation_job as TranslationJobState | undefined;
+    const translationJob = await getTranslationJob(threadId);
     const chunkOrStanzaStates = translationJob?.chunks ?? translationJob?.stanzas ?? null;
     const chunkLineData = chunkOrStanzaStates
       ? Object.values(chunkOrStanzaStates)
@@ -504,6 +541,8 @@ export async function getFullThreadState(
  * This is atomic and doesn't overwrite other concurrent state changes.
  *
  * CRITICAL: Use this for variant_recipes_v1 updates to avoid lost updates.
+ * The thread owner and its collaborators (thread_collaborators) may patch,
+ * unless the thread is a locked (submitted or reviewed) submission.
  *
  * @param threadId - The thread to update
  * @param fieldPath - Path in the JSON (e.g., ['variant_recipes_v1'])
@@ -533,6 +572,11 @@ export async function patchThreadStateField(
       return { success: false, error: "Unauthenticated" };
     }
 
+    // exec_sql bypasses RLS, so the submission lock is checked here
+    if (await isThreadLocked(supabase, threadId)) {
+      return { success: false, error: SUBMISSION_LOCKED_ERROR };
+    }
+
     // Convert field path to PostgreSQL format: ['variant_recipes_v1'] -> '{variant_recipes_v1}'
     const pathStr = `{${fieldPath.join(",")}}`;
     const valueJson = JSON.stringify(value);
@@ -543,7 +587,14 @@ export async function patchThreadStateField(
       query: `
         UPDATE chat_threads
         SET state = jsonb_set(COALESCE(state, '{}'::jsonb), $1::text[], $2::jsonb)
-        WHERE id = $3::uuid AND created_by = $4::uuid
+        WHERE id = $3::uuid
+          AND (
+            created_by = $4::uuid
+            OR EXISTS (
+              SELECT 1 FROM thread_collaborators c
+              WHERE c.thread_id = $3::uuid AND c.user_id = $4::uuid
+            )
+          )
       `,
       params: [pathStr, valueJson, threadId, user.id],
     });
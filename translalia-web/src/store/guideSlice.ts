@@ -8,6 +8,7 @@ import {
   type SimplePoemStanzas,
 } from "@/lib/utils/stanzaUtils";
 import { customSegmentationToStanzas } from "@/lib/utils/customSegmentationToStanzas";
+import { splitLongFormPoem } from "@/lib/poem/sections";
 
 export interface GuideAnswers {
   /**
@@ -49,6 +50,18 @@ export interface GuideAnswers {
    */
   translationMethod?: "method-1" | "method-2";
 
+  /**
+   * Whether this thread records chosen lines into the user's translation
+   * memory and shows fuzzy matches from their other threads. Defaults to on.
+   */
+  translationMemory?: boolean;
+
+  /**
+   * Number of prismatic variants generated per line (1–6, default 3).
+   * Applies to Method 2; Method 1 always returns three.
+   */
+  variantCount?: number;
+
   /**
    * Legacy structured fields are kept optional so previously saved
    * projects keep loading without errors. New flows won't populate these.
@@ -58,6 +71,7 @@ export interface GuideAnswers {
   stance?: { closeness: "close" | "in_between" | "natural" };
   style?: { vibes: string[] };
   translanguaging?: { allow: boolean; scopes: string[] };
+  /** @deprecated Superseded by the project glossary (project_glossary_terms) */
   policy?: { must_keep: string[]; no_go: string[] };
   form?: { line_breaks: string; rhyme: string; line_length: string };
   style_anchors?: string[];
@@ -80,6 +94,8 @@ export interface GuideState {
     text: string;
     isSubmitted: boolean;
     preserveFormatting: boolean;
+    // Long-form mode: higher length limit, stanzas split into sections
+    longForm: boolean;
     stanzas: SimplePoemStanzas | null;
     customSegmentation: {
       lineToSegment: Record<number, number>; // Map of line index -> segment number (1-indexed)
@@ -136,6 +152,7 @@ export interface GuideState {
     } | null
   ) => void;
   setPreserveFormatting: (preserve: boolean) => void;
+  setLongForm: (enabled: boolean) => void;
   setSourceLanguageVariety: (value: string) => void;
   submitSourceLanguageVariety: () => void;
   editSourceLanguageVariety: () => void;
@@ -154,6 +171,8 @@ export interface GuideState {
       | "deepseek-v4-flash"
   ) => void;
   setTranslationMethod: (method: "method-1" | "method-2") => void;
+  setTranslationMemory: (enabled: boolean) => void;
+  setVariantCount: (count: number) => void;
   mergeAnswers: (updates: Partial<GuideAnswers>) => void;
   toggleCollapse: () => void;
   setWidth: (width: number) => void;
@@ -184,6 +203,7 @@ const initialState: Pick<
     text: "",
     isSubmitted: false,
     preserveFormatting: true,
+    longForm: false,
     stanzas: null,
     customSegmentation: null,
   },
@@ -226,8 +246,12 @@ export const useGuideStore = create<GuideState>()(
         const state = get();
         let stanzas: SimplePoemStanzas;
 
-        // Use custom segmentation if available, otherwise use default 4-lines-per-segment
-        if (state.poem.customSegmentation) {
+        // Long-form works are chunked per section (custom segmentation does
+        // not apply); otherwise use custom segmentation if available, else
+        // the default 4-lines-per-segment
+        if (state.poem.longForm) {
+          stanzas = splitLongFormPoem(text);
+        } else if (state.poem.customSegmentation) {
           const poemLines = text
             .split("\n")
             .map((l) => l.trim())
@@ -306,6 +330,16 @@ export const useGuideStore = create<GuideState>()(
           meta: { threadId: getActiveThreadId() },
         })),
 
+      setLongForm: (enabled: boolean) => {
+        const { text } = get().poem;
+        set((state) => ({
+          poem: { ...state.poem, longForm: enabled },
+          meta: { threadId: getActiveThreadId() },
+        }));
+        // Re-split the current text for the new mode
+        if (text) get().setPoem(text);
+      },
+
       setTranslationIntent: (intent: string) =>
         set((state) => ({
           currentStep: "setup",
@@ -419,6 +453,22 @@ export const useGuideStore = create<GuideState>()(
           },
         })),
 
+      setTranslationMemory: (enabled: boolean) =>
+        set((state) => ({
+          answers: {
+            ...state.answers,
+            translationMemory: enabled,
+          },
+        })),
+
+      setVariantCount: (count: number) =>
+        set((state) => ({
+          answers: {
+            ...state.answers,
+            variantCount: count,
+          },
+        })),
+
       mergeAnswers: (updates: Partial<GuideAnswers>) =>
         set((state) => {
           const incomingIntent =
@@ -571,10 +621,13 @@ export const useGuideStore = create<GuideState>()(
             text: p.poem?.text ?? current.poem.text ?? "",
             isSubmitted: p.poem?.isSubmitted ?? current.poem.isSubmitted,
             preserveFormatting: p.poem?.preserveFormatting ?? false,
+            longForm: p.poem?.longForm ?? false,
             stanzas: p.poem?.stanzas
               ? p.poem.stanzas
               : p.poem?.text
-              ? splitPoemIntoStanzas(p.poem.text)
+              ? p.poem?.longForm
+                ? splitLongFormPoem(p.poem.text)
+                : splitPoemIntoStanzas(p.poem.text)
               : null,
           },
           translationZone: {
@@ -5,6 +5,7 @@ import { persist, createJSONStorage } from "zustand/middleware";
 import { getActiveThreadId, threadStorage } from "@/lib/threadStorage";
 import type { LineTranslationResponse } from "@/types/lineTranslation";
 import type { TranslatedLine } from "@/types/translationJob";
+import type { SaveOrigin } from "@/types/revisions";
 
 export interface WorkshopState {
   // Hydration flag
@@ -18,8 +19,8 @@ export interface WorkshopState {
   // Line-level translations (new workflow) - lineIndex -> LineTranslationResponse
   lineTranslations: Record<number, LineTranslationResponse | null>;
 
-  // Selected variant for each line (lineIndex -> variant 1|2|3)
-  selectedVariant: Record<number, 1 | 2 | 3 | null>;
+  // Selected variant for each line (lineIndex -> 1-based variant number)
+  selectedVariant: Record<number, number | null>;
 
   // UI state
   isApplying: boolean;
@@ -37,6 +38,12 @@ export interface WorkshopState {
    */
   draftLines: Record<number, string>;
 
+  /**
+   * Where each draft's latest change came from (lineIndex -> origin), sent with
+   * the save so the line's revision history records it. Absent = manual edit.
+   */
+  draftOrigins: Record<number, SaveOrigin>;
+
   // AI model used for current generation
   modelUsed: string | null;
 
@@ -48,17 +55,26 @@ export interface WorkshopState {
   setPoemLines: (lines: string[]) => void;
   setCompletedLine: (index: number, translation: string) => void;
   setCompletedLines: (lines: Record<number, string>) => void;
-  setDraft: (index: number, translation: string) => void;
+  setDraft: (
+    index: number,
+    translation: string,
+    origin?: SaveOrigin
+  ) => void;
   setDraftLines: (lines: Record<number, string>) => void;
-  appendToDraft: (lineIndex: number, text: string) => void;
+  appendToDraft: (
+    lineIndex: number,
+    text: string,
+    origin?: SaveOrigin
+  ) => void;
   clearDraft: (lineIndex: number) => void;
+  getDraftOrigin: (lineIndex: number) => SaveOrigin;
   getDisplayText: (lineIndex: number) => string;
   // Line translation actions
   setLineTranslation: (
     lineIndex: number,
     translation: LineTranslationResponse | null
   ) => void;
-  selectVariant: (lineIndex: number, variant: 1 | 2 | 3 | null) => void;
+  selectVariant: (lineIndex: number, variant: number | null) => void;
   hydrateFromJobChunks: (
     chunkLineData: TranslatedLine[][],
     completedLines: Record<number, string>
@@ -69,12 +85,20 @@ export interface WorkshopState {
   setThreadId: (threadId: string | null) => void;
 }
 
+/** Copy of a per-line record without `lineIndex` */
+function withoutLine<T>(record: Record<number, T>, lineIndex: number): Record<number, T> {
+  const next = { ...record };
+  delete next[lineIndex];
+  return next;
+}
+
 const initialState = {
   currentLineIndex: null,
   isApplying: false,
   poemLines: [],
   completedLines: {},
   draftLines: {},
+  draftOrigins: {},
   modelUsed: null,
   lineTranslations: {},
   selectedVariant: {},
@@ -115,13 +139,13 @@ export const useWorkshopStore = create<WorkshopState>()(
       setCompletedLine: (index: number, translation: string) =>
         set((state) => {
           // Clear draft when completing a line
-          const { [index]: _, ...remainingDrafts } = state.draftLines;
           return {
             completedLines: {
               ...state.completedLines,
               [index]: translation,
             },
-            draftLines: remainingDrafts,
+            draftLines: withoutLine(state.draftLines, index),
+            draftOrigins: withoutLine(state.draftOrigins, index),
           };
         }),
 
@@ -135,26 +159,50 @@ export const useWorkshopStore = create<WorkshopState>()(
               ([key]) => !savedLineIndices.has(Number(key))
             )
           );
+          const remainingOrigins = Object.fromEntries(
+            Object.entries(state.draftOrigins).filter(
+              ([key]) => !savedLineIndices.has(Number(key))
+            )
+          );
           return {
             completedLines: lines,
             draftLines: remainingDrafts,
+            draftOrigins: remainingOrigins,
           };
         }),
 
-      setDraft: (index: number, translation: string) =>
+      setDraft: (
+        index: number,
+        translation: string,
+        origin: SaveOrigin = "manual_edit"
+      ) =>
         set((state) => ({
           draftLines: {
             ...state.draftLines,
             [index]: translation,
           },
+          draftOrigins: {
+            ...state.draftOrigins,
+            [index]: origin,
+          },
         })),
 
       setDraftLines: (lines: Record<number, string>) =>
-        set({
+        set((state) => ({
           draftLines: lines,
-        }),
+          // Bulk edits are manual; keep origins only for untouched drafts
+          draftOrigins: Object.fromEntries(
+            Object.entries(state.draftOrigins).filter(
+              ([key]) => lines[Number(key)] === state.draftLines[Number(key)]
+            )
+          ),
+        })),
 
-      appendToDraft: (lineIndex: number, text: string) => {
+      appendToDraft: (
+        lineIndex: number,
+        text: string,
+        origin: SaveOrigin = "manual_edit"
+      ) => {
         const state = get();
         const current = state.draftLines[lineIndex] ?? state.completedLines[lineIndex] ?? "";
         const separator = current.trim() ? " " : "";
@@ -163,15 +211,24 @@ export const useWorkshopStore = create<WorkshopState>()(
             ...state.draftLines,
             [lineIndex]: current + separator + text,
           },
+          draftOrigins: {
+            ...state.draftOrigins,
+            [lineIndex]: origin,
+          },
         });
       },
 
       clearDraft: (lineIndex: number) =>
         set((state) => {
-          const { [lineIndex]: _, ...rest } = state.draftLines;
-          return { draftLines: rest };
+          return {
+            draftLines: withoutLine(state.draftLines, lineIndex),
+            draftOrigins: withoutLine(state.draftOrigins, lineIndex),
+          };
         }),
 
+      getDraftOrigin: (lineIndex: number) =>
+        get().draftOrigins[lineIndex] ?? "manual_edit",
+
       getDisplayText: (lineIndex: number) => {
         const state = get();
         return state.draftLines[lineIndex] ?? state.completedLines[lineIndex] ?? "";
@@ -188,7 +245,7 @@ export const useWorkshopStore = create<WorkshopState>()(
           },
         })),
 
-      selectVariant: (lineIndex: number, variant: 1 | 2 | 3 | null) =>
+      selectVariant: (lineIndex: number, variant: number | null) =>
         set((state) => ({
           selectedVariant: {
             ...state.selectedVariant,
@@ -210,12 +267,12 @@ export const useWorkshopStore = create<WorkshopState>()(
           chunkLineData.forEach((chunkLines) => {
             chunkLines.forEach((line) => {
               if (!line || typeof line.line_number !== "number") return;
-              if (!Array.isArray(line.translations) || line.translations.length < 3) {
+              if (!Array.isArray(line.translations) || line.translations.length === 0) {
                 return;
               }
 
               const translations =
-                line.translations.slice(0, 3) as LineTranslationResponse["translations"];
+                line.translations as LineTranslationResponse["translations"];
 
               nextLineTranslations[line.line_number] = {
                 lineOriginal: line.original_text ?? "",
@@ -235,10 +292,7 @@ export const useWorkshopStore = create<WorkshopState>()(
               );
 
               if (selectedIndex >= 0) {
-                nextSelectedVariant[line.line_number] = (selectedIndex + 1) as
-                  | 1
-                  | 2
-                  | 3;
+                nextSelectedVariant[line.line_number] = selectedIndex + 1;
               } else {
                 delete nextSelectedVariant[line.line_number];
               }
@@ -344,6 +398,7 @@ export const useWorkshopStore = create<WorkshopState>()(
             : current.poemLines,
           completedLines: p.completedLines ?? current.completedLines,
           draftLines: persistedDraftLines,
+          draftOrigins: p.draftOrigins ?? current.draftOrigins,
           modelUsed:
             typeof p.modelUsed === "string" || p.modelUsed === null
               ? p.modelUsed
@@ -364,6 +419,7 @@ export const useWorkshopStore = create<WorkshopState>()(
         poemLines: state.poemLines,
         completedLines: state.completedLines,
         draftLines: state.draftLines,
+        draftOrigins: state.draftOrigins,
         modelUsed: state.modelUsed,
         currentLineIndex: state.currentLineIndex,
         lineTranslations: state.lineTranslations,
@@ -0,0 +1,123 @@
+/**
+ * Audit explorer: masked prompt audits (`prompt_audits`) and Method 2 line
+ * audits (`translation_audits`), listed, diffed and replayed from
+ * /api/audits.
+ */
+
+import type { LineQualityMetadata } from "./translationJob";
+import type { VerificationDimensions } from "./verification";
+
+export type AuditKind = "prompt" | "line";
+
+export interface AuditFilters {
+  kind: AuditKind;
+  stage?: string;
+  model?: string;
+  threadId?: string;
+  /** Substring of the diversity gate reason (line audits) */
+  gateReason?: string;
+  regenStrategy?: "single" | "salvage";
+  /** Substring of the masked system prompt or response (prompt audits) */
+  q?: string;
+  /** Only audits created before this ISO timestamp (pagination cursor) */
+  before?: string;
+  limit?: number;
+}
+
+export interface PromptAuditRecord {
+  kind: "prompt";
+  id: string;
+  createdAt: string;
+  /** The stage the caller audited under (the table may store a normalized one) */
+  stage: string;
+  model: string;
+  threadId: string | null;
+  projectId: string | null;
+  params: Record<string, unknown>;
+  promptSystem: string;
+  promptUser: string;
+  responseExcerpt: string | null;
+  redactions: string[];
+  /** Whether POST /api/audits/[auditId]/replay can re-run it */
+  replayable: boolean;
+}
+
+export interface LineAuditRecord {
+  kind: "line";
+  id: string;
+  createdAt: string;
+  threadId: string;
+  lineIndex: number | null;
+  stanzaIndex: number | null;
+  mode: string;
+  model: string;
+  recipeCacheHit: string | null;
+  phase1Pass: boolean | null;
+  phase1Failed: string[] | null;
+  gatePass: boolean;
+  gateReason: string | null;
+  gateFailedConstraints: string[] | null;
+  gateSimilarity: Record<string, number> | null;
+  regenPerformed: boolean;
+  regenReason: string | null;
+  regenStrategy: "single" | "salvage" | null;
+  regenVariantLabel: string | null;
+  replayable: boolean;
+}
+
+export type AuditRecord = PromptAuditRecord | LineAuditRecord;
+
+export interface AuditListResponse {
+  audits: AuditRecord[];
+  /** Cursor for the next page, null at the end */
+  nextBefore: string | null;
+}
+
+export interface TextDiffOp {
+  op: "equal" | "add" | "remove";
+  text: string;
+}
+
+export interface FieldDiff {
+  path: string;
+  a: unknown;
+  b: unknown;
+}
+
+export interface AuditDiff {
+  kind: AuditKind;
+  a: AuditRecord;
+  b: AuditRecord;
+  /** Line diffs of the masked prompt texts (prompt audits only) */
+  text: Record<string, TextDiffOp[]>;
+  /** Scalar fields that differ, by dotted path */
+  fields: FieldDiff[];
+}
+
+export type AuditReplayResult =
+  | {
+      kind: "prompt";
+      stage: "line-verification-internal";
+      model: string;
+      /** Stored masked prompt vs the one the current builder produces */
+      promptDiff: Record<"system" | "user", TextDiffOp[]>;
+      original: { overall: number | null; scores: Partial<VerificationDimensions> };
+      replay: { overall: number | null; scores: Partial<VerificationDimensions> };
+    }
+  | {
+      kind: "line";
+      model: string;
+      lineText: string;
+      original: {
+        gatePass: boolean;
+        gateReason: string | null;
+        regenPerformed: boolean;
+        /** Final variants from the matching line trace, when one was recorded */
+        variants: string[] | null;
+      };
+      replay: {
+        variants: string[];
+        qualityMetadata: LineQualityMetadata | null;
+      };
+      variantDiffs: TextDiffOp[][] | null;
+    };
@@ -0,0 +1,126 @@
+/**
+ * Type definitions for classes, assignments and submission review
+ *
+ * A teacher creates a class and posts assignments (a source poem plus guide
+ * defaults). Each student who starts an assignment gets their own thread and
+ * a submission; submitting locks the notebook until the teacher returns it
+ * or marks it reviewed.
+ */
+
+import type { ReflectionArtifactsResponse } from "@/lib/reflection/artifacts";
+import type { GuideAnswers } from "@/store/guideSlice";
+
+export type ClassRole = "teacher" | "student";
+
+export type SubmissionStatus = "in_progress" | "submitted" | "returned" | "reviewed";
+
+/** Guide answers an assignment applies to each student's thread */
+export type AssignmentGuideDefaults = Pick<
+  GuideAnswers,
+  | "translationIntent"
+  | "translationZone"
+  | "sourceLanguageVariety"
+  | "translationModel"
+  | "translationMethod"
+  | "translationMemory"
+  | "variantCount"
+>;
+
+export interface ClassSummary {
+  id: string;
+  name: string;
+  /** The caller's role in the class */
+  role: ClassRole;
+  /** Only returned to teachers */
+  joinCode: string | null;
+  createdAt: string;
+}
+
+export interface ClassMember {
+  userId: string;
+  role: ClassRole;
+  displayName: string | null;
+  email: string | null;
+  joinedAt: string;
+}
+
+export interface Assignment {
+  id: string;
+  classId: string;
+  title: string;
+  instructions: string | null;
+  sourcePoem: string;
+  guideDefaults: Partial<AssignmentGuideDefaults>;
+  dueAt: string | null;
+  createdAt: string;
+}
+
+export interface Submission {
+  id: string;
+  assignmentId: string;
+  studentId: string;
+  threadId: string;
+  status: SubmissionStatus;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  feedback: string | null;
+  createdAt: string;
+}
+
+export interface SubmissionComment {
+  id: string;
+  submissionId: string;
+  /** null for a comment on the whole translation */
+  lineIndex: number | null;
+  body: string;
+  authorId: string;
+  createdAt: string;
+}
+
+/** An assignment as listed in a class: students get their own submission */
+export interface ClassAssignment extends Assignment {
+  /** Student view: the caller's submission, if started */
+  submission: Submission | null;
+  /** Teacher view: submissions per status */
+  statusCounts: Partial<Record<SubmissionStatus, number>> | null;
+}
+
+/** GET /api/classes */
+export interface ClassesResponse {
+  classes: ClassSummary[];
+}
+
+/** GET /api/classes/[classId] */
+export interface ClassDetailResponse {
+  class: ClassSummary;
+  members: ClassMember[];
+  assignments: ClassAssignment[];
+}
+
+/** GET /api/assignments/[assignmentId]/submissions */
+export interface AssignmentSubmissionsResponse {
+  assignment: Assignment;
+  submissions: Array<Submission & { student: ClassMember | null }>;
+}
+
+/** GET /api/submissions/[submissionId] — what the teacher reviews */
+export interface SubmissionReview {
+  submission: Submission;
+  assignment: Assignment;
+  student: ClassMember | null;
+  /** The caller's role in the assignment's class */
+  role: ClassRole;
+  sourceLines: string[];
+  /** Saved translation per line (null where the student has none) */
+  translatedLines: Array<string | null>;
+  expressYourView: string | null;
+  journeySummary: ReflectionArtifactsResponse["journeySummary"];
+  comments: SubmissionComment[];
+}
+
+/** GET /api/threads/[threadId]/submission — for the student's notebook */
+export interface ThreadSubmissionResponse {
+  submission: Submission | null;
+  assignment: Pick<Assignment, "id" | "title" | "classId" | "dueAt"> | null;
+  comments: SubmissionComment[];
+}
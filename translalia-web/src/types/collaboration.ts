@@ -0,0 +1,64 @@
+/**
+ * Type definitions for co-editing a thread's notebook
+ *
+ * The owner adds collaborators (table `thread_collaborators`). While the
+ * notebook is open, every client polls /api/threads/[threadId]/collab for
+ * presence, line locks and the event log (drafts typed, lines and notes
+ * saved). A line lock covers both the line's translation and its note.
+ */
+
+export type ThreadRole = "owner" | "collaborator";
+
+export interface ThreadParticipant {
+  userId: string;
+  role: ThreadRole;
+  displayName: string | null;
+  email: string | null;
+  addedAt: string;
+}
+
+export interface ThreadParticipantsResponse {
+  participants: ThreadParticipant[];
+}
+
+/** Someone with the notebook open (refreshed by heartbeats) */
+export interface CollabPresence {
+  userId: string;
+  name: string;
+  /** Line they are on, null when none is selected */
+  lineIndex: number | null;
+  /** Epoch ms of the last heartbeat */
+  at: number;
+}
+
+/** Line being edited by one user; others see it read-only */
+export interface CollabLineLock {
+  lineIndex: number;
+  userId: string;
+  name: string;
+  /** Epoch ms when acquired or last renewed */
+  at: number;
+}
+
+export type CollabEvent =
+  | { type: "draft"; lineIndex: number; text: string }
+  | { type: "line_saved"; lineIndex: number; text: string }
+  | { type: "note_saved"; lineIndex: number | null; content: string | null };
+
+export type CollabMessage = CollabEvent & {
+  /** Monotonic per-thread sequence number */
+  seq: number;
+  userId: string;
+  name: string;
+  at: number;
+};
+
+/** GET /api/threads/[threadId]/collab?after= */
+export interface CollabSnapshot {
+  /** Latest sequence number; pass it as `after` on the next poll */
+  seq: number;
+  /** Events after the requested sequence, oldest first */
+  events: CollabMessage[];
+  presence: CollabPresence[];
+  locks: CollabLineLock[];
+}
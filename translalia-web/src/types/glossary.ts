@@ -0,0 +1,24 @@
+/**
+ * Project terminology glossary.
+ *
+ * - required: when `sourceTerm` appears in a line, every variant must use
+ *   `targetTerm`
+ * - do_not_translate: when `sourceTerm` appears, it stays verbatim
+ * - forbidden: `targetTerm` must never appear in a variant
+ */
+export type GlossaryTermKind = "required" | "do_not_translate" | "forbidden";
+
+export interface GlossaryEntry {
+  id: string;
+  kind: GlossaryTermKind;
+  /** Empty for forbidden terms */
+  sourceTerm: string;
+  /** Empty for do-not-translate terms */
+  targetTerm: string;
+  note?: string | null;
+}
+
+export interface ProjectGlossaryResponse {
+  projectId: string;
+  entries: GlossaryEntry[];
+}
@@ -0,0 +1,122 @@
+/**
+ * Type definitions for per-line pipeline traces
+ *
+ * A trace records what one line translation run actually did: stage timings,
+ * token usage and the variants it produced. Method 2 traces add the LineAudit
+ * (recipe cache, gate, regen) and the variants before regeneration; Method 1
+ * traces record how the single-call response parsed. Traces are stored in
+ * `line_traces` and replayed by the Translation Tuning view.
+ */
+
+import type { LineAudit } from "@/lib/ai/audit";
+import type { QualityTier } from "./translationJob";
+import type { VariantLabel } from "@/lib/ai/variantCount";
+
+export type LineTraceStageId =
+  | "context"
+  | "prompt"
+  | "generation"
+  | "gates"
+  | "output";
+
+export interface LineTraceStage {
+  id: LineTraceStageId;
+  /** Offset from the start of the line run */
+  startMs: number;
+  durationMs: number;
+}
+
+export interface LineTraceUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type LineTraceMethod = "method-1" | "method-2";
+
+interface LineTraceBase {
+  version: 1;
+  threadId: string;
+  lineIndex: number;
+  stanzaIndex?: number;
+  /** ISO timestamp of the run */
+  ts: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+
+  context: {
+    lineText: string;
+    prevLine?: string;
+    nextLine?: string;
+    poemLineCount: number;
+    translationIntent?: string;
+    translationZone?: string;
+  };
+
+  prompt: {
+    systemChars: number;
+    userChars: number;
+    /** Masked, truncated user prompt */
+    userExcerpt: string;
+  };
+
+  generation: {
+    temperature?: number;
+    finishReason?: string;
+    strictSchema: boolean;
+  };
+
+  variants: {
+    /** As returned by main generation */
+    initial: string[];
+    /** After regeneration (same as initial when no regen ran) */
+    final: string[];
+  };
+
+  /** Token usage by call type (recipe calls only appear on cache misses) */
+  usage: Partial<Record<"recipe" | "main-gen" | "regen", LineTraceUsage>>;
+
+  stages: LineTraceStage[];
+  totalMs: number;
+}
+
+/** A run of the recipe pipeline (translateLineWithRecipesInternal) */
+export interface Method2LineTrace extends LineTraceBase {
+  /** Absent on traces recorded before Method 1 runs were traced */
+  method?: "method-2";
+
+  /** Recipe cache info, phase 1, diversity gate and regen, as audited */
+  audit: LineAudit;
+
+  recipes: Array<{ label: VariantLabel; archetype?: string; directive: string }>;
+
+  fidelity: { pass: boolean; reason?: string };
+
+  qualityTier: QualityTier;
+}
+
+/** A run of the single-call line translation (translateLineInternal) */
+export interface Method1LineTrace extends LineTraceBase {
+  method: "method-1";
+  /** Model that answered (after any fallback to gpt-4o-mini) */
+  model: string;
+  /** Simplified prompt without word alignment, after an invalid first answer */
+  fallbackMode: boolean;
+  /** "repaired": the answer failed the schema and missing fields were filled in */
+  validation: "valid" | "repaired";
+}
+
+export type LineTrace = Method1LineTrace | Method2LineTrace;
+
+/**
+ * GET /api/workshop/line-traces response
+ */
+export interface LineTracesResponse {
+  thread: { id: string; title: string | null };
+  lineIndex: number;
+  /** Newest first */
+  traces: LineTrace[];
+  /** Line indices that have at least one trace */
+  tracedLines: number[];
+}
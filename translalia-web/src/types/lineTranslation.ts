@@ -11,6 +11,17 @@ export interface AlignedWord {
   partOfSpeech: string;
   /** Position in original line (0-indexed) */
   position: number;
+  /**
+   * Whitespace-token indices this entry links in the source line and in the
+   * translation. Together they make many-to-many links; older alignments
+   * without them are located from `original` / `translation`.
+   */
+  sourceIndices?: number[];
+  targetIndices?: number[];
+  /** How sure the aligner was of the link, 0–1 (1 for links a user drew) */
+  confidence?: number;
+  /** Drawn or corrected by the user in the alignment editor */
+  manual?: boolean;
 }
 
 export interface LineTranslationMetadata {
@@ -25,8 +36,8 @@ export interface LineTranslationMetadata {
 }
 
 export interface LineTranslationVariant {
-  /** Variant number: 1, 2, or 3 */
-  variant: 1 | 2 | 3;
+  /** Variant number, 1-based (1 = A, 2 = B, …) */
+  variant: number;
   /** Complete translated line text */
   fullText: string;
   /** Aligned words/phrases mapping original to translation */
@@ -38,12 +49,8 @@ export interface LineTranslationVariant {
 export interface LineTranslationResponse {
   /** Original line text */
   lineOriginal: string;
-  /** Three translation variants */
-  translations: [
-    LineTranslationVariant,
-    LineTranslationVariant,
-    LineTranslationVariant
-  ];
+  /** Translation variants, one per label (count set per thread in the guide) */
+  translations: LineTranslationVariant[];
   /** Model used for generation */
   modelUsed: string;
 }
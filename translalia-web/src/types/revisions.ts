@@ -0,0 +1,60 @@
+/**
+ * Type definitions for draft version history
+ *
+ * Each saved translation of a line is kept as a revision (table
+ * `line_revisions`). Revisions belong to the thread's main translation
+ * (`branchId: null`, mirrored in state.workshop_lines) or to a branch: an
+ * alternative translation of the same poem (`translation_branches`).
+ */
+
+export type LineRevisionOrigin =
+  | "variant_pick"
+  | "manual_edit"
+  | "ai_assist"
+  | "rhyme_rewrite"
+  | "restore"
+  | "fork";
+
+/** Origins a saved line can carry; "fork" is only written when branching */
+export type SaveOrigin = Exclude<LineRevisionOrigin, "fork">;
+
+export interface LineRevision {
+  id: string;
+  /** null for the thread's main translation */
+  branchId: string | null;
+  lineIndex: number;
+  text: string;
+  origin: LineRevisionOrigin;
+  /** 1-based variant number for variant picks */
+  variant: number | null;
+  /** Revision this one restored (origin "restore") */
+  restoredFrom: string | null;
+  /** User who saved it (the owner or a collaborator) */
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface TranslationBranch {
+  id: string;
+  name: string;
+  /** Branch it was forked from; null when forked from the main translation */
+  forkedFromBranchId: string | null;
+  createdAt: string;
+  /** Current text per line (latest revision of each line) */
+  lines: Record<number, string>;
+}
+
+export interface LineRevisionsResponse {
+  /** Newest first */
+  revisions: LineRevision[];
+}
+
+export interface TranslationBranchesResponse {
+  branches: TranslationBranch[];
+}
+
+/** One word-level diff segment: kept, added in the newer text, or removed */
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
@@ -164,16 +164,38 @@ export interface RhymeWorkshopRequest {
 }
 
 // ============================================================================
-// Rhyme Dictionary Types (for Datamuse API)
+// Rhyme Dictionary Types (offline rhyme engine)
 // ============================================================================
 
+/**
+ * Rhyme quality between two words:
+ * - perfect: identical sounds from the stressed vowel on ("night" / "light")
+ * - slant: same stressed vowel or same ending consonants ("lake" / "fate")
+ * - near: similar but not matching sounds ("moon" / "on")
+ */
+export type RhymeQuality = "perfect" | "slant" | "near";
+
+export interface RhymeCandidate {
+  word: string;
+  quality: RhymeQuality;
+  /** Rhyme-quality score in [0, 1]; 1 = perfect rhyme */
+  score: number;
+  syllables: number;
+}
+
 export interface RhymeResult {
   /** The word being looked up */
   word: string;
   /** Perfect rhymes (e.g., "night" -> ["light", "sight", "bright"]) */
   perfectRhymes: string[];
-  /** Near/slant rhymes */
+  /** Slant rhymes (assonance or consonance on the line ending) */
+  slantRhymes: string[];
+  /** Near rhymes (similar vowel and ending) */
   nearRhymes: string[];
+  /** All candidates with their rhyme-quality scores, best first */
+  candidates: RhymeCandidate[];
+  /** Whether the looked-up word's pronunciation was guessed from spelling */
+  pronunciationGuessed: boolean;
 }
 
 export interface RhymeDictionaryData {
@@ -163,6 +163,16 @@ export interface CostMetadata {
   costPerStanza?: Record<number, number>;
 }
 
+/**
+ * Why a job stopped advancing without failing. Set by the tick, cleared by
+ * the first tick that can run again.
+ */
+export interface TranslationJobBlock {
+  reason: "budget_exceeded";
+  message: string;
+  at: number;
+}
+
 /**
  * Main translation job state
  */
@@ -181,6 +191,8 @@ export interface TranslationJobState {
   active: number[];
   chunks: Record<number, TranslationChunkState>;
   lastError?: string;
+  /** Set while the owner's `block` AI budget is used up */
+  blocked?: TranslationJobBlock;
   /** Feature 8: Full poem text for context */
   full_poem?: string;
   /** Feature 8: User's guide preferences */
@@ -215,6 +227,7 @@ export interface TranslationJobProgressCounts {
 export interface TranslationJobProgressSummary {
   jobId: string;
   status: TranslationJobStatus;
+  blocked?: TranslationJobBlock;
   progress: TranslationJobProgressCounts;
   chunks: Record<number, TranslationChunkState>;
   updatedAt: number;
@@ -222,6 +235,47 @@ export interface TranslationJobProgressSummary {
   stanzas?: Record<number, TranslationStanzaState>;
 }
 
+/**
+ * Progress transitions pushed to clients over
+ * /api/workshop/translation-events. Published by jobState whenever a job
+ * write changes one of these fields.
+ */
+export type TranslationProgressEvent =
+  | { type: "job_status"; status: TranslationJobStatus }
+  | { type: "job_blocked"; blocked: TranslationJobBlock | null }
+  | {
+      type: "chunk_status";
+      chunkIndex: number;
+      status: TranslationChunkStatus;
+      linesProcessed: number;
+      totalLines: number;
+      error?: string;
+    }
+  | {
+      type: "line_status";
+      chunkIndex: number;
+      lineNumber: number;
+      translationStatus?: TranslationStatus;
+      alignmentStatus?: AlignmentStatus;
+      /** Full line when it (re)entered "translated", so clients need not refetch. */
+      line?: TranslatedLine;
+    }
+  | {
+      type: "retry";
+      chunkIndex: number;
+      retries: number;
+      maxRetries?: number;
+      nextRetryAt?: number;
+      error?: string;
+    };
+
+export type TranslationProgressMessage = TranslationProgressEvent & {
+  /** Monotonic per-thread sequence number (the SSE event id). */
+  seq: number;
+  jobId: string;
+  at: number;
+};
+
 export interface TranslationTickResult {
   job: TranslationJobState;
   startedChunks: number[];
@@ -0,0 +1,30 @@
+/**
+ * Type definitions for the per-user translation memory
+ *
+ * Lines saved through save-line / save-manual-line are remembered per user
+ * (table `translation_memory`) and offered back as fuzzy matches when a
+ * similar source line appears in another thread.
+ */
+
+export type TranslationMemoryOrigin = "workshop" | "manual";
+
+export interface TranslationMemoryMatch {
+  id: string;
+  /** Thread the line was saved in (null if that thread was deleted) */
+  threadId: string | null;
+  threadTitle: string | null;
+  lineIndex: number | null;
+  sourceText: string;
+  targetText: string;
+  origin: TranslationMemoryOrigin;
+  /** 100 = identical source, 99 = differs only in case/punctuation */
+  matchPercent: number;
+  updatedAt: string;
+}
+
+export interface TranslationMemoryMatchesResponse {
+  /** False when the thread's guide answers turned translation memory off */
+  enabled: boolean;
+  /** Matches per requested segment, best first */
+  matches: TranslationMemoryMatch[][];
+}
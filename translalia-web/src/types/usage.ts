@@ -0,0 +1,34 @@
+/**
+ * AI cost accounting: monthly budget state and the spend breakdown shown on
+ * the account usage page.
+ */
+
+export type BudgetAction = "block" | "downgrade";
+
+export interface BudgetStatus {
+  /** First day of the month, YYYY-MM-DD (UTC) */
+  month: string;
+  /** Null when the user has no monthly limit */
+  limitUsd: number | null;
+  spentUsd: number;
+  action: BudgetAction;
+  exceeded: boolean;
+}
+
+export type UsageDimension = "route" | "model" | "project" | "thread" | "day";
+
+export interface UsageBreakdownRow {
+  key: string;
+  /** Project or thread title; the key itself for routes and models */
+  label: string | null;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  budget: BudgetStatus;
+  totals: Omit<UsageBreakdownRow, "key" | "label">;
+  breakdown: Record<UsageDimension, UsageBreakdownRow[]>;
+}
@@ -4,6 +4,8 @@
  * Track B: Contextual notes (educational, user-facing)
  */
 
+import type { AlignedWord } from "./lineTranslation";
+
 export interface VerificationDimensions {
   semantic_accuracy: number; // 0-10: Literal meaning preserved
   cultural_fidelity: number; // 0-10: Idioms, references handled appropriately
@@ -78,4 +80,65 @@ export interface WorkshopLineWithVerification {
   completedAt: string;
   word_options?: WordOptionForVerification[]; // Store for verification reference
   verification?: LineVerification; // NEW
+  /** Word alignment of `translated`, kept in step with edits */
+  alignment?: AlignedWord[];
+}
+
+// ---------------------------------------------------------------------------
+// Track A calibration: humans blind-grade sampled lines on the same
+// dimensions so the grader can be checked against them.
+// ---------------------------------------------------------------------------
+
+export type VerificationDimension = keyof VerificationDimensions;
+
+/** A reviewer's scores; null marks a dimension as not applicable to the line */
+export type HumanDimensionScores = {
+  [K in VerificationDimension]: number | null;
+};
+
+/** A sampled Track A grade, as shown to reviewers (no model scores) */
+export interface CalibrationQueueItem {
+  id: string;
+  sourceLine: string;
+  translatedLine: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export interface DimensionCalibration {
+  dimension: VerificationDimension;
+  /** Items with at least one human score on this dimension */
+  items: number;
+  /** Krippendorff's alpha (interval) over items with 2+ human scores */
+  humanAlpha: number | null;
+  /** Mean absolute difference between two reviewers of the same item */
+  humanMeanAbsDiff: number | null;
+  /** Pearson correlation of the model score with the mean human score */
+  modelPearson: number | null;
+  /** Spearman rank correlation of the same pairs */
+  modelSpearman: number | null;
+  /** Mean of model minus mean human score (positive: model grades higher) */
+  modelBias: number | null;
+  modelMeanAbsError: number | null;
+  verdict: "trusted" | "review" | "insufficient";
+}
+
+export interface CalibrationDriftPoint {
+  /** Monday of the ISO week the model grade was made, YYYY-MM-DD */
+  period: string;
+  items: number;
+  /** Across all dimensions of the period's items */
+  modelBias: number | null;
+  modelMeanAbsError: number | null;
+  modelPearson: number | null;
+}
+
+export interface CalibrationReport {
+  sampledItems: number;
+  ratedItems: number;
+  ratings: number;
+  reviewers: number;
+  dimensions: DimensionCalibration[];
+  drift: CalibrationDriftPoint[];
+  generatedAt: string;
 }
@@ -0,0 +1,61 @@
+/**
+ * Type definitions for saved poem versions
+ *
+ * A version is a named, read-only snapshot of a thread's translation (table
+ * `translation_versions`). Two versions are compared line by line at one
+ * granularity, optionally with AI commentary through a lens.
+ */
+
+import type { DiffSegment } from "./revisions";
+
+export type CompareLens = "meaning" | "form" | "tone" | "culture";
+
+/** Diff unit within a line: the whole line, phrases, or characters */
+export type CompareGranularity = "line" | "phrase" | "char";
+
+export interface TranslationVersion {
+  id: string;
+  threadId: string;
+  projectId: string;
+  title: string;
+  /** One entry per poem line (0-based); "" for an untranslated line */
+  lines: string[];
+  tags: string[];
+  summary: string | null;
+  meta: Record<string, unknown>;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/** Version without its lines, for lists */
+export type TranslationVersionSummary = Omit<TranslationVersion, "lines"> & {
+  lineCount: number;
+};
+
+export interface TranslationVersionsResponse {
+  /** Newest first */
+  versions: TranslationVersionSummary[];
+}
+
+export type VersionLineStatus = "equal" | "changed" | "added" | "removed";
+
+export interface VersionLineDiff {
+  lineIndex: number;
+  left: string;
+  right: string;
+  /** "added"/"removed": the line is only translated in the right/left version */
+  status: VersionLineStatus;
+  /** Left to right, in reading order */
+  segments: DiffSegment[];
+}
+
+export interface VersionCompareResult {
+  left: TranslationVersionSummary;
+  right: TranslationVersionSummary;
+  granularity: CompareGranularity;
+  lens: CompareLens | null;
+  lines: VersionLineDiff[];
+  stats: Record<VersionLineStatus, number>;
+  /** AI commentary under `lens`; null when no lens was requested */
+  commentary: string | null;
+}
@@ -0,0 +1,35 @@
+-- =============================================================================
+-- Migration: eval_runs — stored golden-set evaluation reports
+-- =============================================================================
+-- One row per POST /api/eval/run. `report` holds the full EvalReport (per-line
+-- variants, gate results, scorecards); `summary` duplicates its run-level
+-- metrics for cheap listing; `diff` is the comparison with previous_run_id.
+-- =============================================================================
+
+create table if not exists public.eval_runs (
+  id uuid primary key,
+  created_by uuid not null references auth.users(id) on delete cascade,
+  golden_set_version text not null,
+  method text not null check (method in ('method-1', 'method-2')),
+  model text not null,
+  client_kind text not null check (client_kind in ('live', 'fake')),
+  summary jsonb not null,
+  report jsonb not null,
+  diff jsonb,
+  previous_run_id uuid references public.eval_runs(id) on delete set null,
+  regressed boolean,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists eval_runs_lookup_idx
+  on public.eval_runs (created_by, golden_set_version, method, created_at desc);
+
+alter table public.eval_runs enable row level security;
+
+drop policy if exists eval_runs_select_own on public.eval_runs;
+create policy eval_runs_select_own on public.eval_runs
+  for select using (created_by = auth.uid());
+
+drop policy if exists eval_runs_insert_own on public.eval_runs;
+create policy eval_runs_insert_own on public.eval_runs
+  for insert with check (created_by = auth.uid());
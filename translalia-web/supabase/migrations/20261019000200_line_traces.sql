@@ -0,0 +1,73 @@
+-- =============================================================================
+-- Migration: line_traces — per-line translation traces
+-- =============================================================================
+-- One row per line run of translateLineInternal (Method 1) or
+-- translateLineWithRecipesInternal (Method 2). `trace` holds the LineTrace
+-- JSON (stage timings, token usage, variants; for Method 2 also the LineAudit
+-- and the variants before regen) replayed by the Translation Tuning view.
+-- Rows are written by the server (service role from background workers) and
+-- read by the thread owner through GET /api/workshop/line-traces.
+--
+-- Retention: every insert prunes the line down to its newest 50 runs, the
+-- most the route returns, so retranslating a line does not grow the table.
+-- =============================================================================
+
+create table if not exists public.line_traces (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.chat_threads(id) on delete cascade,
+  line_index integer not null,
+  trace jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists line_traces_thread_line_idx
+  on public.line_traces (thread_id, line_index, created_at desc);
+
+alter table public.line_traces enable row level security;
+
+drop policy if exists line_traces_select_own on public.line_traces;
+create policy line_traces_select_own on public.line_traces
+  for select using (
+    exists (
+      select 1 from public.chat_threads ct
+      where ct.id = line_traces.thread_id and ct.created_by = auth.uid()
+    )
+  );
+
+drop policy if exists line_traces_insert_own on public.line_traces;
+create policy line_traces_insert_own on public.line_traces
+  for insert with check (
+    exists (
+      select 1 from public.chat_threads ct
+      where ct.id = line_traces.thread_id and ct.created_by = auth.uid()
+    )
+  );
+
+-- =============================================================================
+-- Retention
+-- =============================================================================
+
+create or replace function public.line_traces_prune()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.line_traces lt
+  where lt.id in (
+    select old_runs.id
+    from public.line_traces old_runs
+    where old_runs.thread_id = new.thread_id
+      and old_runs.line_index = new.line_index
+    order by old_runs.created_at desc, old_runs.id desc
+    offset 50
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists line_traces_prune on public.line_traces;
+create trigger line_traces_prune
+  after insert on public.line_traces
+  for each row execute function public.line_traces_prune();
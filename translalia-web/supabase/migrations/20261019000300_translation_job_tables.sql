@@ -0,0 +1,343 @@
+-- =============================================================================
+-- Migration: translation job tables — normalized job / chunk / line state
+-- =============================================================================
+-- Moves TranslationJobState out of chat_threads.state.translation_job. One row
+-- per job (queue, active, limits), one per chunk (status, retries,
+-- error_history) and one per translated line (the TranslatedLine JSON).
+--
+-- Every row carries a `version` used for optimistic concurrency: writers send
+-- the version they read, and translation_job_apply raises SQLSTATE 40001 when
+-- any row moved underneath them, rolling back the whole change set. Line and
+-- chunk updates from concurrent ticks therefore no longer rewrite one shared
+-- JSON document.
+--
+-- Existing blobs are migrated lazily by src/lib/workshop/jobState.ts: the
+-- first read of a thread without rows imports state.translation_job through
+-- translation_job_replace (p_only_if_absent) and strips the blob.
+-- =============================================================================
+
+create table if not exists public.translation_jobs (
+  job_id uuid primary key,
+  thread_id uuid not null unique references public.chat_threads(id) on delete cascade,
+  version integer not null default 1,
+  status text not null,
+  queue integer[] not null default '{}',
+  active integer[] not null default '{}',
+  max_concurrent integer not null,
+  max_chunks_per_tick integer not null,
+  full_poem text,
+  guide_preferences jsonb,
+  -- createdAt/startedAt/completedAt (epoch ms), lastError, costMetadata, ...
+  meta jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.translation_job_chunks (
+  job_id uuid not null references public.translation_jobs(job_id) on delete cascade,
+  chunk_index integer not null,
+  version integer not null default 1,
+  status text not null,
+  lines_processed integer not null default 0,
+  total_lines integer not null default 0,
+  retries integer not null default 0,
+  max_retries integer,
+  next_retry_at bigint,
+  error text,
+  error_history jsonb,
+  -- startedAt/completedAt (epoch ms), error_details, lastLineTranslated, fallback_mode
+  meta jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now(),
+  primary key (job_id, chunk_index)
+);
+
+create table if not exists public.translation_job_lines (
+  job_id uuid not null references public.translation_jobs(job_id) on delete cascade,
+  line_number integer not null,
+  chunk_index integer not null,
+  version integer not null default 1,
+  translation_status text,
+  alignment_status text,
+  line jsonb not null,
+  updated_at timestamptz not null default now(),
+  primary key (job_id, line_number),
+  foreign key (job_id, chunk_index)
+    references public.translation_job_chunks(job_id, chunk_index) on delete cascade
+);
+
+create index if not exists translation_job_lines_chunk_idx
+  on public.translation_job_lines (job_id, chunk_index);
+
+-- -----------------------------------------------------------------------------
+-- Row level security: thread owners only (workers use the service role)
+-- -----------------------------------------------------------------------------
+
+alter table public.translation_jobs enable row level security;
+alter table public.translation_job_chunks enable row level security;
+alter table public.translation_job_lines enable row level security;
+
+drop policy if exists translation_jobs_own on public.translation_jobs;
+create policy translation_jobs_own on public.translation_jobs
+  for all using (
+    exists (
+      select 1 from public.chat_threads ct
+      where ct.id = translation_jobs.thread_id and ct.created_by = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.chat_threads ct
+      where ct.id = translation_jobs.thread_id and ct.created_by = auth.uid()
+    )
+  );
+
+drop policy if exists translation_job_chunks_own on public.translation_job_chunks;
+create policy translation_job_chunks_own on public.translation_job_chunks
+  for all using (
+    exists (
+      select 1 from public.translation_jobs j
+      join public.chat_threads ct on ct.id = j.thread_id
+      where j.job_id = translation_job_chunks.job_id and ct.created_by = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.translation_jobs j
+      join public.chat_threads ct on ct.id = j.thread_id
+      where j.job_id = translation_job_chunks.job_id and ct.created_by = auth.uid()
+    )
+  );
+
+drop policy if exists translation_job_lines_own on public.translation_job_lines;
+create policy translation_job_lines_own on public.translation_job_lines
+  for all using (
+    exists (
+      select 1 from public.translation_jobs j
+      join public.chat_threads ct on ct.id = j.thread_id
+      where j.job_id = translation_job_lines.job_id and ct.created_by = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.translation_jobs j
+      join public.chat_threads ct on ct.id = j.thread_id
+      where j.job_id = translation_job_lines.job_id and ct.created_by = auth.uid()
+    )
+  );
+
+-- -----------------------------------------------------------------------------
+-- translation_job_replace: create, replace, import or clear a thread's job
+-- -----------------------------------------------------------------------------
+-- Deletes the thread's job rows (cascading to chunks and lines), inserts the
+-- given rows and removes p_strip_state_keys from chat_threads.state, all in
+-- one transaction. A null p_job only clears. With p_only_if_absent the call
+-- is a no-op when the thread already has a job (concurrent lazy migration).
+-- Two first reads can both find no job (FOR UPDATE locks no rows), so the
+-- job insert skips on conflict: the later p_only_if_absent call returns the
+-- job the other one stored, any other call raises 23505.
+-- Returns the job_id now stored for the thread, or null.
+
+create or replace function public.translation_job_replace(
+  p_thread_id uuid,
+  p_job jsonb,
+  p_chunks jsonb default '[]'::jsonb,
+  p_lines jsonb default '[]'::jsonb,
+  p_strip_state_keys text[] default '{}',
+  p_only_if_absent boolean default false
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_existing uuid;
+begin
+  select job_id into v_existing
+  from public.translation_jobs
+  where thread_id = p_thread_id
+  for update;
+
+  if p_only_if_absent and v_existing is not null then
+    return v_existing;
+  end if;
+
+  delete from public.translation_jobs where thread_id = p_thread_id;
+
+  if array_length(p_strip_state_keys, 1) > 0 then
+    update public.chat_threads
+    set state = coalesce(state, '{}'::jsonb) - p_strip_state_keys
+    where id = p_thread_id;
+  end if;
+
+  if p_job is null then
+    return null;
+  end if;
+
+  insert into public.translation_jobs (
+    job_id, thread_id, version, status, queue, active,
+    max_concurrent, max_chunks_per_tick, full_poem, guide_preferences, meta
+  )
+  select
+    (p_job->>'job_id')::uuid,
+    p_thread_id,
+    coalesce((p_job->>'version')::integer, 1),
+    p_job->>'status',
+    array(select jsonb_array_elements_text(coalesce(p_job->'queue', '[]'::jsonb))::integer),
+    array(select jsonb_array_elements_text(coalesce(p_job->'active', '[]'::jsonb))::integer),
+    (p_job->>'max_concurrent')::integer,
+    (p_job->>'max_chunks_per_tick')::integer,
+    p_job->>'full_poem',
+    p_job->'guide_preferences',
+    coalesce(p_job->'meta', '{}'::jsonb)
+  on conflict do nothing;
+
+  if not found then
+    if p_only_if_absent then
+      select job_id into v_existing
+      from public.translation_jobs
+      where thread_id = p_thread_id;
+      return v_existing;
+    end if;
+    raise exception 'translation job for thread % was created concurrently', p_thread_id
+      using errcode = '23505';
+  end if;
+
+  insert into public.translation_job_chunks (
+    job_id, chunk_index, status, lines_processed, total_lines,
+    retries, max_retries, next_retry_at, error, error_history, meta
+  )
+  select
+    (p_job->>'job_id')::uuid,
+    (c->>'chunk_index')::integer,
+    c->>'status',
+    coalesce((c->>'lines_processed')::integer, 0),
+    coalesce((c->>'total_lines')::integer, 0),
+    coalesce((c->>'retries')::integer, 0),
+    (c->>'max_retries')::integer,
+    (c->>'next_retry_at')::bigint,
+    c->>'error',
+    c->'error_history',
+    coalesce(c->'meta', '{}'::jsonb)
+  from jsonb_array_elements(coalesce(p_chunks, '[]'::jsonb)) as c;
+
+  insert into public.translation_job_lines (
+    job_id, line_number, chunk_index, translation_status, alignment_status, line
+  )
+  select
+    (p_job->>'job_id')::uuid,
+    (l->>'line_number')::integer,
+    (l->>'chunk_index')::integer,
+    l->>'translation_status',
+    l->>'alignment_status',
+    l->'line'
+  from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) as l;
+
+  return (p_job->>'job_id')::uuid;
+end;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- translation_job_apply: versioned row-level change set
+-- -----------------------------------------------------------------------------
+-- p_job (optional) updates the job row when its version still equals
+-- p_expected_version. Each p_chunks / p_lines entry carries
+-- `expected_version` (null for new lines). p_delete_lines lists line numbers
+-- to remove. Any stale version raises 40001 and nothing is written.
+
+create or replace function public.translation_job_apply(
+  p_job_id uuid,
+  p_expected_version integer default null,
+  p_job jsonb default null,
+  p_chunks jsonb default '[]'::jsonb,
+  p_lines jsonb default '[]'::jsonb,
+  p_delete_lines integer[] default '{}'
+)
+returns void
+language plpgsql
+as $$
+declare
+  c jsonb;
+  l jsonb;
+begin
+  if p_job is not null then
+    update public.translation_jobs
+    set
+      version = version + 1,
+      status = p_job->>'status',
+      queue = array(select jsonb_array_elements_text(coalesce(p_job->'queue', '[]'::jsonb))::integer),
+      active = array(select jsonb_array_elements_text(coalesce(p_job->'active', '[]'::jsonb))::integer),
+      max_concurrent = (p_job->>'max_concurrent')::integer,
+      max_chunks_per_tick = (p_job->>'max_chunks_per_tick')::integer,
+      full_poem = p_job->>'full_poem',
+      guide_preferences = p_job->'guide_preferences',
+      meta = coalesce(p_job->'meta', '{}'::jsonb),
+      updated_at = now()
+    where job_id = p_job_id and version = p_expected_version;
+
+    if not found then
+      raise exception 'translation job % modified concurrently', p_job_id
+        using errcode = '40001';
+    end if;
+  end if;
+
+  for c in select * from jsonb_array_elements(coalesce(p_chunks, '[]'::jsonb)) loop
+    update public.translation_job_chunks
+    set
+      version = version + 1,
+      status = c->>'status',
+      lines_processed = coalesce((c->>'lines_processed')::integer, 0),
+      total_lines = coalesce((c->>'total_lines')::integer, 0),
+      retries = coalesce((c->>'retries')::integer, 0),
+      max_retries = (c->>'max_retries')::integer,
+      next_retry_at = (c->>'next_retry_at')::bigint,
+      error = c->>'error',
+      error_history = c->'error_history',
+      meta = coalesce(c->'meta', '{}'::jsonb),
+      updated_at = now()
+    where job_id = p_job_id
+      and chunk_index = (c->>'chunk_index')::integer
+      and version = (c->>'expected_version')::integer;
+
+    if not found then
+      raise exception 'translation job % chunk % modified concurrently',
+        p_job_id, c->>'chunk_index'
+        using errcode = '40001';
+    end if;
+  end loop;
+
+  delete from public.translation_job_lines
+  where job_id = p_job_id and line_number = any(p_delete_lines);
+
+  for l in select * from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) loop
+    if l->'expected_version' is null or jsonb_typeof(l->'expected_version') = 'null' then
+      insert into public.translation_job_lines (
+        job_id, line_number, chunk_index, translation_status, alignment_status, line
+      ) values (
+        p_job_id,
+        (l->>'line_number')::integer,
+        (l->>'chunk_index')::integer,
+        l->>'translation_status',
+        l->>'alignment_status',
+        l->'line'
+      )
+      on conflict (job_id, line_number) do nothing;
+    else
+      update public.translation_job_lines
+      set
+        version = version + 1,
+        chunk_index = (l->>'chunk_index')::integer,
+        translation_status = l->>'translation_status',
+        alignment_status = l->>'alignment_status',
+        line = l->'line',
+        updated_at = now()
+      where job_id = p_job_id
+        and line_number = (l->>'line_number')::integer
+        and version = (l->>'expected_version')::integer;
+    end if;
+
+    if not found then
+      raise exception 'translation job % line % modified concurrently',
+        p_job_id, l->>'line_number'
+        using errcode = '40001';
+    end if;
+  end loop;
+end;
+$$;
+
+grant execute on function public.translation_job_replace(uuid, jsonb, jsonb, jsonb, text[], boolean) to authenticated;
+grant execute on function public.translation_job_apply(uuid, integer, jsonb, jsonb, jsonb, integer[]) to authenticated;
@@ -0,0 +1,91 @@
+-- =============================================================================
+-- Migration: translation_memory — per-user memory of chosen lines
+-- =============================================================================
+-- One row per saved line (thread + line index): the source segment and the
+-- translation the user chose in the workshop (save-line) or wrote in the
+-- notebook (save-manual-line). Saving the same line again replaces its row.
+--
+-- translation_memory_search returns trigram-similar candidates from the
+-- caller's other threads; src/lib/translationMemory scores them into match
+-- percentages. chat_threads.translation_memory_enabled is the per-thread
+-- toggle from the guide answers (recording and suggestions).
+-- =============================================================================
+
+create extension if not exists pg_trgm;
+
+alter table public.chat_threads
+  add column if not exists translation_memory_enabled boolean not null default true;
+
+create table if not exists public.translation_memory (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  thread_id uuid references public.chat_threads(id) on delete set null,
+  line_index integer,
+  source_text text not null,
+  -- Lowercased, punctuation-free source used for trigram lookups
+  source_norm text not null,
+  target_text text not null,
+  origin text not null check (origin in ('workshop', 'manual')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, thread_id, line_index)
+);
+
+create index if not exists translation_memory_user_idx
+  on public.translation_memory (user_id, updated_at desc);
+
+create index if not exists translation_memory_source_trgm_idx
+  on public.translation_memory using gin (source_norm gin_trgm_ops);
+
+alter table public.translation_memory enable row level security;
+
+drop policy if exists translation_memory_own on public.translation_memory;
+create policy translation_memory_own on public.translation_memory
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- -----------------------------------------------------------------------------
+-- translation_memory_search: trigram candidates for one normalized segment
+-- -----------------------------------------------------------------------------
+-- Runs as the caller, so RLS limits rows to their own memory. p_exclude_thread
+-- leaves out the thread being translated.
+
+create or replace function public.translation_memory_search(
+  p_source_norm text,
+  p_exclude_thread uuid default null,
+  p_min_similarity real default 0.3,
+  p_limit integer default 5
+)
+returns table (
+  id uuid,
+  thread_id uuid,
+  thread_title text,
+  line_index integer,
+  source_text text,
+  target_text text,
+  origin text,
+  updated_at timestamptz,
+  similarity real
+)
+language sql
+stable
+as $$
+  select
+    tm.id,
+    tm.thread_id,
+    ct.title,
+    tm.line_index,
+    tm.source_text,
+    tm.target_text,
+    tm.origin,
+    tm.updated_at,
+    similarity(tm.source_norm, p_source_norm)
+  from public.translation_memory tm
+  left join public.chat_threads ct on ct.id = tm.thread_id
+  where tm.user_id = auth.uid()
+    and (p_exclude_thread is null or tm.thread_id is distinct from p_exclude_thread)
+    and similarity(tm.source_norm, p_source_norm) >= p_min_similarity
+  order by similarity(tm.source_norm, p_source_norm) desc, tm.updated_at desc
+  limit p_limit;
+$$;
+
+grant execute on function public.translation_memory_search(text, uuid, real, integer) to authenticated;
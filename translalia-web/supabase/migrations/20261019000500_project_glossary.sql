@@ -0,0 +1,48 @@
+-- =============================================================================
+-- Migration: project_glossary_terms — per-project terminology glossary
+-- =============================================================================
+-- One row per glossary entry of a workspace (project):
+--   required          source_term → target_term in every variant
+--   do_not_translate  source_term stays verbatim
+--   forbidden         target_term never appears in a variant
+-- Managed by the project owner through /api/projects/[projectId]/glossary and
+-- read by the Method 2 pipeline (src/lib/glossary/store.ts) for every line of
+-- the project's threads. Replaces the legacy guide_answers.policy
+-- must_keep / no_go lists, which no prompt reads any more.
+-- =============================================================================
+
+create table if not exists public.project_glossary_terms (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects(id) on delete cascade,
+  kind text not null check (kind in ('required', 'do_not_translate', 'forbidden')),
+  source_term text not null default '',
+  target_term text not null default '',
+  note text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (
+    (kind = 'required' and source_term <> '' and target_term <> '')
+    or (kind = 'do_not_translate' and source_term <> '')
+    or (kind = 'forbidden' and target_term <> '')
+  )
+);
+
+create unique index if not exists project_glossary_terms_unique_idx
+  on public.project_glossary_terms (project_id, kind, lower(source_term), lower(target_term));
+
+alter table public.project_glossary_terms enable row level security;
+
+drop policy if exists project_glossary_terms_own on public.project_glossary_terms;
+create policy project_glossary_terms_own on public.project_glossary_terms
+  for all using (
+    exists (
+      select 1 from public.projects p
+      where p.id = project_glossary_terms.project_id and p.owner_id = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.projects p
+      where p.id = project_glossary_terms.project_id and p.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,12 @@
+-- =============================================================================
+-- Migration: chat_threads.variant_count — prismatic variants per line
+-- =============================================================================
+-- Number of variants (A, B, C, …) the Method 2 pipeline generates for each
+-- line of the thread. Set in the guide (guideAnswers.variantCount) and read by
+-- every generation path; src/lib/ai/variantCount.ts holds the same 1–6 range.
+-- Existing threads keep the previous fixed count of three.
+-- =============================================================================
+
+alter table public.chat_threads
+  add column if not exists variant_count smallint not null default 3
+    check (variant_count between 1 and 6);
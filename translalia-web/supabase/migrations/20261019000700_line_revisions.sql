@@ -0,0 +1,80 @@
+-- =============================================================================
+-- Migration: line_revisions + translation_branches — draft version history
+-- =============================================================================
+-- Every saved translation of a line is kept as a revision instead of only
+-- overwriting state.workshop_lines. A revision records where the text came
+-- from:
+--   variant_pick   a workshop variant chosen (or inserted whole into the draft)
+--   manual_edit    typed by the user
+--   ai_assist      built from AI word/line suggestions
+--   rhyme_rewrite  a Refine & Rhyme adjustment applied
+--   restore        an earlier revision restored (restored_from points to it)
+--   fork           copied into a new branch when it was forked
+--
+-- branch_id null is the thread's main translation (state.workshop_lines);
+-- translation_branches are alternative translations of the same poem, forked
+-- from the main translation or another branch, compared in ComparisonView.
+-- Written by save-line / save-manual-line and /api/threads/[threadId]/branches
+-- through src/lib/revisions/store.ts.
+-- =============================================================================
+
+create table if not exists public.translation_branches (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.chat_threads(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 80),
+  forked_from_branch_id uuid references public.translation_branches(id) on delete set null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists translation_branches_thread_idx
+  on public.translation_branches (thread_id, created_at);
+
+create table if not exists public.line_revisions (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.chat_threads(id) on delete cascade,
+  branch_id uuid references public.translation_branches(id) on delete cascade,
+  line_index integer not null check (line_index >= 0),
+  text text not null,
+  origin text not null check (
+    origin in ('variant_pick', 'manual_edit', 'ai_assist', 'rhyme_rewrite', 'restore', 'fork')
+  ),
+  variant smallint check (variant between 1 and 6),
+  restored_from uuid references public.line_revisions(id) on delete set null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists line_revisions_line_idx
+  on public.line_revisions (thread_id, branch_id, line_index, created_at desc);
+
+alter table public.translation_branches enable row level security;
+alter table public.line_revisions enable row level security;
+
+drop policy if exists translation_branches_own on public.translation_branches;
+create policy translation_branches_own on public.translation_branches
+  for all using (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = translation_branches.thread_id and t.created_by = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = translation_branches.thread_id and t.created_by = auth.uid()
+    )
+  );
+
+drop policy if exists line_revisions_own on public.line_revisions;
+create policy line_revisions_own on public.line_revisions
+  for all using (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = line_revisions.thread_id and t.created_by = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = line_revisions.thread_id and t.created_by = auth.uid()
+    )
+  );
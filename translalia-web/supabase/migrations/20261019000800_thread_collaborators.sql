@@ -0,0 +1,271 @@
+-- =============================================================================
+-- Migration: thread_collaborators — co-editing a thread's notebook
+-- =============================================================================
+-- The thread owner (chat_threads.created_by) can add other users as
+-- collaborators. Collaborators can read the thread, save its lines and notes
+-- and retry chunks of its translation job; presence, per-line locks and live
+-- drafts go through the collaboration relay (src/lib/collab/relay.ts,
+-- /api/threads/[threadId]/collab), not the database. Who changed which line
+-- is kept in line_revisions.created_by.
+--
+-- The chat_threads policies check membership through is_thread_collaborator
+-- (security definer): thread_collaborators' own policy reads chat_threads, so
+-- querying it from a chat_threads policy would recurse. Collaborators may
+-- update a thread but not its owner or project (chat_threads_collaborator_keys).
+--
+-- add_thread_collaborator looks the user up by profiles.email, which callers
+-- cannot read under RLS, so it runs as definer and checks ownership itself.
+-- thread_participants returns the owner and collaborators with display names
+-- for anyone on the thread.
+-- =============================================================================
+
+create table if not exists public.thread_collaborators (
+  thread_id uuid not null references public.chat_threads(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  added_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (thread_id, user_id)
+);
+
+create index if not exists thread_collaborators_user_idx
+  on public.thread_collaborators (user_id);
+
+alter table public.thread_collaborators enable row level security;
+
+-- Owners manage their threads' collaborators; collaborators see (and can
+-- delete, i.e. leave) their own row.
+drop policy if exists thread_collaborators_owner on public.thread_collaborators;
+create policy thread_collaborators_owner on public.thread_collaborators
+  for all using (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = thread_collaborators.thread_id and t.created_by = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = thread_collaborators.thread_id and t.created_by = auth.uid()
+    )
+  );
+
+drop policy if exists thread_collaborators_self_select on public.thread_collaborators;
+create policy thread_collaborators_self_select on public.thread_collaborators
+  for select using (user_id = auth.uid());
+
+drop policy if exists thread_collaborators_self_delete on public.thread_collaborators;
+create policy thread_collaborators_self_delete on public.thread_collaborators
+  for delete using (user_id = auth.uid());
+
+-- -----------------------------------------------------------------------------
+-- Helpers (security definer, so policies on chat_threads do not recurse)
+-- -----------------------------------------------------------------------------
+
+create or replace function public.is_thread_collaborator(p_thread_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.thread_collaborators c
+    where c.thread_id = p_thread_id and c.user_id = auth.uid()
+  );
+$$;
+
+-- True when the stored thread still has this owner and project. Used in a
+-- WITH CHECK, where it sees the row as it was before the update.
+create or replace function public.thread_keys_unchanged(
+  p_thread_id uuid,
+  p_created_by uuid,
+  p_project_id uuid
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.chat_threads t
+    where t.id = p_thread_id
+      and t.created_by is not distinct from p_created_by
+      and t.project_id is not distinct from p_project_id
+  );
+$$;
+
+grant execute on function public.is_thread_collaborator(uuid) to authenticated;
+grant execute on function public.thread_keys_unchanged(uuid, uuid, uuid) to authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Collaborator access to the thread and its history
+-- -----------------------------------------------------------------------------
+
+drop policy if exists chat_threads_collaborator_select on public.chat_threads;
+create policy chat_threads_collaborator_select on public.chat_threads
+  for select using (public.is_thread_collaborator(id));
+
+drop policy if exists chat_threads_collaborator_update on public.chat_threads;
+create policy chat_threads_collaborator_update on public.chat_threads
+  for update using (public.is_thread_collaborator(id))
+  with check (public.is_thread_collaborator(id));
+
+-- Restrictive: a permissive check alone would let the owner policy accept a
+-- collaborator's row that names them as created_by.
+drop policy if exists chat_threads_collaborator_keys on public.chat_threads;
+create policy chat_threads_collaborator_keys on public.chat_threads
+  as restrictive
+  for update using (true)
+  with check (
+    not public.is_thread_collaborator(id)
+    or public.thread_keys_unchanged(id, created_by, project_id)
+  );
+
+drop policy if exists line_revisions_collaborator on public.line_revisions;
+create policy line_revisions_collaborator on public.line_revisions
+  for all using (public.is_thread_collaborator(thread_id))
+  with check (public.is_thread_collaborator(thread_id));
+
+drop policy if exists translation_branches_collaborator on public.translation_branches;
+create policy translation_branches_collaborator on public.translation_branches
+  for all using (public.is_thread_collaborator(thread_id))
+  with check (public.is_thread_collaborator(thread_id));
+
+-- Background translation job: collaborators load it and retry or requeue
+-- chunks (translation_job_apply, which also writes and clears line rows).
+-- Creating or replacing the job stays with the owner.
+drop policy if exists translation_jobs_collaborator_select on public.translation_jobs;
+create policy translation_jobs_collaborator_select on public.translation_jobs
+  for select using (public.is_thread_collaborator(thread_id));
+
+drop policy if exists translation_jobs_collaborator_update on public.translation_jobs;
+create policy translation_jobs_collaborator_update on public.translation_jobs
+  for update using (public.is_thread_collaborator(thread_id))
+  with check (public.is_thread_collaborator(thread_id));
+
+drop policy if exists translation_job_chunks_collaborator_select on public.translation_job_chunks;
+create policy translation_job_chunks_collaborator_select on public.translation_job_chunks
+  for select using (
+    exists (
+      select 1 from public.translation_jobs j
+      where j.job_id = translation_job_chunks.job_id
+        and public.is_thread_collaborator(j.thread_id)
+    )
+  );
+
+drop policy if exists translation_job_chunks_collaborator_update on public.translation_job_chunks;
+create policy translation_job_chunks_collaborator_update on public.translation_job_chunks
+  for update using (
+    exists (
+      select 1 from public.translation_jobs j
+      where j.job_id = translation_job_chunks.job_id
+        and public.is_thread_collaborator(j.thread_id)
+    )
+  ) with check (
+    exists (
+      select 1 from public.translation_jobs j
+      where j.job_id = translation_job_chunks.job_id
+        and public.is_thread_collaborator(j.thread_id)
+    )
+  );
+
+drop policy if exists translation_job_lines_collaborator on public.translation_job_lines;
+create policy translation_job_lines_collaborator on public.translation_job_lines
+  for all using (
+    exists (
+      select 1 from public.translation_jobs j
+      where j.job_id = translation_job_lines.job_id
+        and public.is_thread_collaborator(j.thread_id)
+    )
+  ) with check (
+    exists (
+      select 1 from public.translation_jobs j
+      where j.job_id = translation_job_lines.job_id
+        and public.is_thread_collaborator(j.thread_id)
+    )
+  );
+
+-- -----------------------------------------------------------------------------
+-- add_thread_collaborator: owner adds a user by email
+-- -----------------------------------------------------------------------------
+-- Returns the added user's id, or null when no profile has that email.
+
+create or replace function public.add_thread_collaborator(
+  p_thread_id uuid,
+  p_email text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  if not exists (
+    select 1 from public.chat_threads t
+    where t.id = p_thread_id and t.created_by = auth.uid()
+  ) then
+    raise exception 'not the thread owner' using errcode = '42501';
+  end if;
+
+  select p.id into v_user_id
+  from public.profiles p
+  where lower(p.email) = lower(trim(p_email))
+  limit 1;
+
+  if v_user_id is null or v_user_id = auth.uid() then
+    return v_user_id;
+  end if;
+
+  insert into public.thread_collaborators (thread_id, user_id, added_by)
+  values (p_thread_id, v_user_id, auth.uid())
+  on conflict (thread_id, user_id) do nothing;
+
+  return v_user_id;
+end;
+$$;
+
+grant execute on function public.add_thread_collaborator(uuid, text) to authenticated;
+
+-- -----------------------------------------------------------------------------
+-- thread_participants: owner and collaborators of a thread with their names
+-- -----------------------------------------------------------------------------
+
+create or replace function public.thread_participants(p_thread_id uuid)
+returns table (
+  user_id uuid,
+  role text,
+  display_name text,
+  email text,
+  added_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with access as (
+    select 1
+    from public.chat_threads t
+    where t.id = p_thread_id
+      and (
+        t.created_by = auth.uid()
+        or exists (
+          select 1 from public.thread_collaborators c
+          where c.thread_id = t.id and c.user_id = auth.uid()
+        )
+      )
+  )
+  select t.created_by, 'owner', p.display_name, p.email, t.created_at
+  from public.chat_threads t
+  left join public.profiles p on p.id = t.created_by
+  where t.id = p_thread_id and exists (select 1 from access)
+  union all
+  select c.user_id, 'collaborator', p.display_name, p.email, c.created_at
+  from public.thread_collaborators c
+  left join public.profiles p on p.id = c.user_id
+  where c.thread_id = p_thread_id and exists (select 1 from access);
+$$;
+
+grant execute on function public.thread_participants(uuid) to authenticated;
@@ -0,0 +1,340 @@
+-- =============================================================================
+-- Migration: classrooms — classes, assignments, submissions and review
+-- =============================================================================
+-- A teacher creates a class (students join with its join code) and posts
+-- assignments: a source poem plus guide defaults. Starting an assignment gives
+-- each student their own thread (in a per-class project they own) and a
+-- submission row. Submitting locks the thread's notebook until the teacher
+-- returns it; the teacher reads the student's thread, journey summary and
+-- Express Your View text and leaves line comments.
+--
+-- Class membership checks go through is_class_teacher / is_class_member
+-- (security definer) so policies on class_members do not recurse.
+-- =============================================================================
+
+create table if not exists public.classes (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(name) between 1 and 120),
+  join_code text not null unique,
+  created_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.class_members (
+  class_id uuid not null references public.classes(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null default 'student' check (role in ('teacher', 'student')),
+  joined_at timestamptz not null default now(),
+  primary key (class_id, user_id)
+);
+
+create index if not exists class_members_user_idx
+  on public.class_members (user_id);
+
+create table if not exists public.assignments (
+  id uuid primary key default gen_random_uuid(),
+  class_id uuid not null references public.classes(id) on delete cascade,
+  title text not null check (char_length(title) between 1 and 120),
+  instructions text,
+  source_poem text not null,
+  -- Guide answers applied to each student's thread (camelCase GuideAnswers keys)
+  guide_defaults jsonb not null default '{}'::jsonb,
+  due_at timestamptz,
+  created_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists assignments_class_idx
+  on public.assignments (class_id, created_at desc);
+
+create table if not exists public.assignment_submissions (
+  id uuid primary key default gen_random_uuid(),
+  assignment_id uuid not null references public.assignments(id) on delete cascade,
+  student_id uuid not null references auth.users(id) on delete cascade,
+  thread_id uuid not null unique references public.chat_threads(id) on delete cascade,
+  status text not null default 'in_progress'
+    check (status in ('in_progress', 'submitted', 'returned', 'reviewed')),
+  submitted_at timestamptz,
+  reviewed_at timestamptz,
+  feedback text,
+  created_at timestamptz not null default now(),
+  unique (assignment_id, student_id)
+);
+
+create table if not exists public.submission_comments (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references public.assignment_submissions(id) on delete cascade,
+  -- null for a comment on the whole translation
+  line_index integer check (line_index is null or line_index >= 0),
+  body text not null check (char_length(body) between 1 and 2000),
+  author_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists submission_comments_submission_idx
+  on public.submission_comments (submission_id, created_at);
+
+-- Students' class projects
+alter table public.projects
+  add column if not exists class_id uuid references public.classes(id) on delete set null;
+
+-- -----------------------------------------------------------------------------
+-- Membership helpers
+-- -----------------------------------------------------------------------------
+
+create or replace function public.is_class_teacher(p_class_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.class_members m
+    where m.class_id = p_class_id and m.user_id = auth.uid() and m.role = 'teacher'
+  );
+$$;
+
+create or replace function public.is_class_member(p_class_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.class_members m
+    where m.class_id = p_class_id and m.user_id = auth.uid()
+  );
+$$;
+
+grant execute on function public.is_class_teacher(uuid) to authenticated;
+grant execute on function public.is_class_member(uuid) to authenticated;
+
+-- -----------------------------------------------------------------------------
+-- RLS
+-- -----------------------------------------------------------------------------
+
+alter table public.classes enable row level security;
+alter table public.class_members enable row level security;
+alter table public.assignments enable row level security;
+alter table public.assignment_submissions enable row level security;
+alter table public.submission_comments enable row level security;
+
+drop policy if exists classes_member_select on public.classes;
+create policy classes_member_select on public.classes
+  for select using (public.is_class_member(id) or created_by = auth.uid());
+
+drop policy if exists classes_creator_insert on public.classes;
+create policy classes_creator_insert on public.classes
+  for insert with check (created_by = auth.uid());
+
+drop policy if exists classes_teacher_write on public.classes;
+create policy classes_teacher_write on public.classes
+  for update using (public.is_class_teacher(id));
+
+drop policy if exists classes_teacher_delete on public.classes;
+create policy classes_teacher_delete on public.classes
+  for delete using (public.is_class_teacher(id));
+
+-- Members see the class roster; teachers manage it. The creator adds
+-- themselves as the first teacher; students join through join_class().
+drop policy if exists class_members_select on public.class_members;
+create policy class_members_select on public.class_members
+  for select using (public.is_class_member(class_id));
+
+drop policy if exists class_members_creator_insert on public.class_members;
+create policy class_members_creator_insert on public.class_members
+  for insert with check (
+    user_id = auth.uid()
+    and role = 'teacher'
+    and exists (
+      select 1 from public.classes c
+      where c.id = class_members.class_id and c.created_by = auth.uid()
+    )
+  );
+
+drop policy if exists class_members_teacher_delete on public.class_members;
+create policy class_members_teacher_delete on public.class_members
+  for delete using (public.is_class_teacher(class_id) or user_id = auth.uid());
+
+drop policy if exists assignments_member_select on public.assignments;
+create policy assignments_member_select on public.assignments
+  for select using (public.is_class_member(class_id));
+
+drop policy if exists assignments_teacher_write on public.assignments;
+create policy assignments_teacher_write on public.assignments
+  for all using (public.is_class_teacher(class_id))
+  with check (public.is_class_teacher(class_id));
+
+-- Students see and start their own submissions; teachers of the class see
+-- and review all of them. Status changes are validated by the API.
+drop policy if exists assignment_submissions_student on public.assignment_submissions;
+create policy assignment_submissions_student on public.assignment_submissions
+  for select using (student_id = auth.uid());
+
+-- Collaborators on the student's thread see the submission too, so the
+-- submission lock applies to their writes as well.
+drop policy if exists assignment_submissions_collaborator on public.assignment_submissions;
+create policy assignment_submissions_collaborator on public.assignment_submissions
+  for select using (public.is_thread_collaborator(thread_id));
+
+drop policy if exists assignment_submissions_student_insert on public.assignment_submissions;
+create policy assignment_submissions_student_insert on public.assignment_submissions
+  for insert with check (
+    student_id = auth.uid()
+    and exists (
+      select 1 from public.assignments a
+      where a.id = assignment_submissions.assignment_id
+        and public.is_class_member(a.class_id)
+    )
+  );
+
+drop policy if exists assignment_submissions_student_update on public.assignment_submissions;
+create policy assignment_submissions_student_update on public.assignment_submissions
+  for update using (student_id = auth.uid() and status in ('in_progress', 'returned'))
+  with check (student_id = auth.uid() and status in ('in_progress', 'submitted'));
+
+drop policy if exists assignment_submissions_teacher on public.assignment_submissions;
+create policy assignment_submissions_teacher on public.assignment_submissions
+  for select using (
+    exists (
+      select 1 from public.assignments a
+      where a.id = assignment_submissions.assignment_id
+        and public.is_class_teacher(a.class_id)
+    )
+  );
+
+drop policy if exists assignment_submissions_teacher_update on public.assignment_submissions;
+create policy assignment_submissions_teacher_update on public.assignment_submissions
+  for update using (
+    exists (
+      select 1 from public.assignments a
+      where a.id = assignment_submissions.assignment_id
+        and public.is_class_teacher(a.class_id)
+    )
+  );
+
+drop policy if exists submission_comments_select on public.submission_comments;
+create policy submission_comments_select on public.submission_comments
+  for select using (
+    exists (
+      select 1
+      from public.assignment_submissions s
+      join public.assignments a on a.id = s.assignment_id
+      where s.id = submission_comments.submission_id
+        and (s.student_id = auth.uid() or public.is_class_teacher(a.class_id))
+    )
+  );
+
+drop policy if exists submission_comments_teacher_write on public.submission_comments;
+create policy submission_comments_teacher_write on public.submission_comments
+  for all using (
+    author_id = auth.uid()
+    and exists (
+      select 1
+      from public.assignment_submissions s
+      join public.assignments a on a.id = s.assignment_id
+      where s.id = submission_comments.submission_id
+        and public.is_class_teacher(a.class_id)
+    )
+  ) with check (
+    author_id = auth.uid()
+    and exists (
+      select 1
+      from public.assignment_submissions s
+      join public.assignments a on a.id = s.assignment_id
+      where s.id = submission_comments.submission_id
+        and public.is_class_teacher(a.class_id)
+    )
+  );
+
+-- Teachers read (never write) their students' submission threads and journey
+-- summaries.
+drop policy if exists chat_threads_teacher_select on public.chat_threads;
+create policy chat_threads_teacher_select on public.chat_threads
+  for select using (
+    exists (
+      select 1
+      from public.assignment_submissions s
+      join public.assignments a on a.id = s.assignment_id
+      where s.thread_id = chat_threads.id and public.is_class_teacher(a.class_id)
+    )
+  );
+
+drop policy if exists journey_ai_summaries_teacher_select on public.journey_ai_summaries;
+create policy journey_ai_summaries_teacher_select on public.journey_ai_summaries
+  for select using (
+    exists (
+      select 1
+      from public.assignment_submissions s
+      join public.assignments a on a.id = s.assignment_id
+      where s.thread_id = journey_ai_summaries.thread_id
+        and public.is_class_teacher(a.class_id)
+    )
+  );
+
+-- -----------------------------------------------------------------------------
+-- join_class: student joins with a class's join code
+-- -----------------------------------------------------------------------------
+-- Students cannot read a class before joining it, so the code lookup runs as
+-- definer. Returns the class id, or null for an unknown code. Existing members
+-- keep their role.
+
+create or replace function public.join_class(p_join_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_class_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  select c.id into v_class_id
+  from public.classes c
+  where upper(c.join_code) = upper(trim(p_join_code))
+  limit 1;
+
+  if v_class_id is null then
+    return null;
+  end if;
+
+  insert into public.class_members (class_id, user_id, role)
+  values (v_class_id, auth.uid(), 'student')
+  on conflict (class_id, user_id) do nothing;
+
+  return v_class_id;
+end;
+$$;
+
+grant execute on function public.join_class(text) to authenticated;
+
+-- -----------------------------------------------------------------------------
+-- class_roster: members of a class with display names
+-- -----------------------------------------------------------------------------
+
+create or replace function public.class_roster(p_class_id uuid)
+returns table (
+  user_id uuid,
+  role text,
+  display_name text,
+  email text,
+  joined_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.user_id, m.role, p.display_name, p.email, m.joined_at
+  from public.class_members m
+  left join public.profiles p on p.id = m.user_id
+  where m.class_id = p_class_id and public.is_class_member(p_class_id)
+  order by m.role desc, coalesce(p.display_name, p.email);
+$$;
+
+grant execute on function public.class_roster(uuid) to authenticated;
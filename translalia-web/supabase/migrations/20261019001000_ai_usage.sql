@@ -0,0 +1,203 @@
+-- =============================================================================
+-- Migration: ai_usage — per-call AI cost ledger and monthly budgets
+-- =============================================================================
+-- Every model call made through getClientForModel() is recorded in
+-- ai_usage_events with its tokens, estimated cost (src/lib/usage/pricing.ts)
+-- and attribution (user, project, thread, route). record_ai_usage() also
+-- maintains ai_usage_monthly, which budget checks read instead of summing
+-- events. ai_budgets holds per-user overrides of the AI_MONTHLY_BUDGET_USD /
+-- AI_BUDGET_ACTION defaults; there is no write policy, so overrides are set
+-- with the service role.
+-- =============================================================================
+
+create table if not exists public.ai_usage_events (
+  id bigint generated always as identity primary key,
+  user_id uuid references auth.users(id) on delete cascade,
+  project_id uuid references public.projects(id) on delete set null,
+  thread_id uuid references public.chat_threads(id) on delete set null,
+  route text not null,
+  stage text,
+  provider text not null,
+  model text not null,
+  -- Set when a budget downgrade replaced the requested model
+  requested_model text,
+  prompt_tokens integer not null default 0,
+  cached_prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_usage_events_user_created_idx
+  on public.ai_usage_events (user_id, created_at desc);
+
+create index if not exists ai_usage_events_thread_idx
+  on public.ai_usage_events (thread_id)
+  where thread_id is not null;
+
+create table if not exists public.ai_usage_monthly (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  month date not null,
+  calls integer not null default 0,
+  prompt_tokens bigint not null default 0,
+  completion_tokens bigint not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, month)
+);
+
+create table if not exists public.ai_budgets (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  -- Null means no limit for this user, whatever the default
+  monthly_limit_usd numeric(10, 2),
+  on_exceed text not null default 'block'
+    check (on_exceed in ('block', 'downgrade')),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.ai_usage_events enable row level security;
+alter table public.ai_usage_monthly enable row level security;
+alter table public.ai_budgets enable row level security;
+
+drop policy if exists ai_usage_events_select_own on public.ai_usage_events;
+create policy ai_usage_events_select_own on public.ai_usage_events
+  for select using (user_id = auth.uid());
+
+drop policy if exists ai_usage_monthly_select_own on public.ai_usage_monthly;
+create policy ai_usage_monthly_select_own on public.ai_usage_monthly
+  for select using (user_id = auth.uid());
+
+drop policy if exists ai_budgets_select_own on public.ai_budgets;
+create policy ai_budgets_select_own on public.ai_budgets
+  for select using (user_id = auth.uid());
+
+-- -----------------------------------------------------------------------------
+-- record_ai_usage: append one call to the ledger and the caller's month
+-- -----------------------------------------------------------------------------
+-- Signed-in callers may only record their own usage; the service role (worker)
+-- records on behalf of the thread owner. project_id defaults to the thread's;
+-- an unknown thread id is dropped rather than failing the insert.
+
+create or replace function public.record_ai_usage(
+  p_user_id uuid,
+  p_project_id uuid,
+  p_thread_id uuid,
+  p_route text,
+  p_stage text,
+  p_provider text,
+  p_model text,
+  p_requested_model text,
+  p_prompt_tokens integer,
+  p_cached_prompt_tokens integer,
+  p_completion_tokens integer,
+  p_cost_usd numeric
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_project_id uuid := p_project_id;
+  v_thread_id uuid;
+begin
+  if auth.uid() is not null and p_user_id is distinct from auth.uid() then
+    raise exception 'cannot record usage for another user' using errcode = '42501';
+  end if;
+
+  if p_thread_id is not null then
+    select t.id, coalesce(v_project_id, t.project_id)
+    into v_thread_id, v_project_id
+    from public.chat_threads t
+    where t.id = p_thread_id;
+  end if;
+
+  insert into public.ai_usage_events (
+    user_id, project_id, thread_id, route, stage, provider, model,
+    requested_model, prompt_tokens, cached_prompt_tokens, completion_tokens,
+    cost_usd
+  )
+  values (
+    p_user_id, v_project_id, v_thread_id, p_route, p_stage, p_provider, p_model,
+    p_requested_model, p_prompt_tokens, p_cached_prompt_tokens,
+    p_completion_tokens, p_cost_usd
+  );
+
+  if p_user_id is not null then
+    insert into public.ai_usage_monthly as m (
+      user_id, month, calls, prompt_tokens, completion_tokens, cost_usd
+    )
+    values (
+      p_user_id,
+      date_trunc('month', now() at time zone 'utc')::date,
+      1, p_prompt_tokens, p_completion_tokens, p_cost_usd
+    )
+    on conflict (user_id, month) do update set
+      calls = m.calls + 1,
+      prompt_tokens = m.prompt_tokens + excluded.prompt_tokens,
+      completion_tokens = m.completion_tokens + excluded.completion_tokens,
+      cost_usd = m.cost_usd + excluded.cost_usd,
+      updated_at = now();
+  end if;
+end;
+$$;
+
+grant execute on function public.record_ai_usage(
+  uuid, uuid, uuid, text, text, text, text, text, integer, integer, integer, numeric
+) to authenticated, service_role;
+
+-- -----------------------------------------------------------------------------
+-- ai_usage_summary: the caller's spend for one month, grouped
+-- -----------------------------------------------------------------------------
+-- One row per (dimension, key) with dimension in route, model, project,
+-- thread and day (UTC, YYYY-MM-DD). `label` is the project/thread title.
+
+create or replace function public.ai_usage_summary(p_month date)
+returns table (
+  dimension text,
+  key text,
+  label text,
+  calls bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost_usd numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with ev as (
+    select e.*
+    from public.ai_usage_events e
+    where e.user_id = auth.uid()
+      and e.created_at >= date_trunc('month', p_month::timestamp) at time zone 'utc'
+      and e.created_at < (date_trunc('month', p_month::timestamp) + interval '1 month') at time zone 'utc'
+  )
+  select 'route', ev.route, ev.route, count(*), sum(ev.prompt_tokens),
+         sum(ev.completion_tokens), sum(ev.cost_usd)
+  from ev group by ev.route
+  union all
+  select 'model', ev.model, ev.model, count(*), sum(ev.prompt_tokens),
+         sum(ev.completion_tokens), sum(ev.cost_usd)
+  from ev group by ev.model
+  union all
+  select 'project', ev.project_id::text, max(p.title), count(*),
+         sum(ev.prompt_tokens), sum(ev.completion_tokens), sum(ev.cost_usd)
+  from ev left join public.projects p on p.id = ev.project_id
+  where ev.project_id is not null
+  group by ev.project_id
+  union all
+  select 'thread', ev.thread_id::text, max(t.title), count(*),
+         sum(ev.prompt_tokens), sum(ev.completion_tokens), sum(ev.cost_usd)
+  from ev left join public.chat_threads t on t.id = ev.thread_id
+  where ev.thread_id is not null
+  group by ev.thread_id
+  union all
+  select 'day', to_char(ev.created_at at time zone 'utc', 'YYYY-MM-DD'), null,
+         count(*), sum(ev.prompt_tokens), sum(ev.completion_tokens),
+         sum(ev.cost_usd)
+  from ev group by 2;
+$$;
+
+grant execute on function public.ai_usage_summary(date) to authenticated;
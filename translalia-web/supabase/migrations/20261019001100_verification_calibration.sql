@@ -0,0 +1,50 @@
+-- =============================================================================
+-- Migration: verification_calibration — human calibration of Track A grades
+-- =============================================================================
+-- calibration_items snapshots sampled Track A grades (prompt_audits rows whose
+-- params carry a grade): the line text as graded and the model's
+-- dimension scores, so later edits to the thread don't move the target.
+-- calibration_ratings holds one blind grade per reviewer and item on the same
+-- VerificationDimensions (null = not applicable).
+--
+-- Reviewers come from CALIBRATION_REVIEWER_EMAILS and span every user's
+-- threads, so both tables are read and written with the service role only:
+-- RLS is on with no policies.
+-- =============================================================================
+
+create table if not exists public.calibration_items (
+  id uuid primary key default gen_random_uuid(),
+  audit_id uuid not null unique,
+  thread_id uuid references public.chat_threads(id) on delete set null,
+  line_index integer not null,
+  source_line text not null,
+  translated_line text not null,
+  source_language text,
+  target_language text,
+  model_used text,
+  model_overall numeric(4, 2),
+  model_scores jsonb not null,
+  graded_at timestamptz not null,
+  sampled_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists calibration_items_graded_idx
+  on public.calibration_items (graded_at desc);
+
+create table if not exists public.calibration_ratings (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.calibration_items(id) on delete cascade,
+  reviewer_id uuid not null references auth.users(id) on delete cascade,
+  scores jsonb not null,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (item_id, reviewer_id)
+);
+
+create index if not exists calibration_ratings_reviewer_idx
+  on public.calibration_ratings (reviewer_id);
+
+alter table public.calibration_items enable row level security;
+alter table public.calibration_ratings enable row level security;
@@ -0,0 +1,45 @@
+-- =============================================================================
+-- Migration: audit_explorer — search Method 2 line audits by owner
+-- =============================================================================
+-- translation_audits rows carry only a thread_id, so the audit explorer
+-- (GET /api/audits?kind=line) reads them through search_translation_audits(),
+-- which returns the caller's rows only (threads they created) with the
+-- explorer's filters applied. Prompt audits need no helper: prompt_audits has
+-- created_by.
+-- =============================================================================
+
+create index if not exists translation_audits_thread_created_idx
+  on public.translation_audits (thread_id, created_at desc);
+
+create or replace function public.search_translation_audits(
+  p_thread_id uuid default null,
+  p_model text default null,
+  p_gate_reason text default null,
+  p_regen_strategy text default null,
+  p_audit_id uuid default null,
+  p_before timestamptz default null,
+  p_limit integer default 50
+)
+returns setof public.translation_audits
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select a.*
+  from public.translation_audits a
+  join public.chat_threads t on t.id = a.thread_id
+  where t.created_by = auth.uid()
+    and (p_audit_id is null or a.id = p_audit_id)
+    and (p_thread_id is null or a.thread_id = p_thread_id)
+    and (p_model is null or a.model = p_model)
+    and (p_gate_reason is null or a.gate_reason ilike '%' || p_gate_reason || '%')
+    and (p_regen_strategy is null or a.regen_strategy = p_regen_strategy)
+    and (p_before is null or a.created_at < p_before)
+  order by a.created_at desc
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+$$;
+
+grant execute on function public.search_translation_audits(
+  uuid, text, text, text, uuid, timestamptz, integer
+) to authenticated;
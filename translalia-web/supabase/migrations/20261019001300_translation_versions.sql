@@ -0,0 +1,58 @@
+-- =============================================================================
+-- Migration: translation_versions — named snapshots of a thread's translation
+-- =============================================================================
+-- A version freezes the translation's lines under a title (e.g. "Before the
+-- rhyme pass") so two versions can be compared later, line by line, phrase
+-- by phrase or character by character, with optional AI commentary through
+-- a lens (meaning, form, tone, culture). Unlike translation_branches, a
+-- version is never edited after it is saved.
+-- Written by /api/threads/[threadId]/versions through
+-- src/lib/versions/store.ts; compared by .../versions/compare.
+-- =============================================================================
+
+create table if not exists public.translation_versions (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.chat_threads(id) on delete cascade,
+  project_id uuid not null references public.projects(id) on delete cascade,
+  title text not null check (char_length(title) between 1 and 120),
+  -- One entry per poem line (0-based); "" for a line not translated yet
+  lines text[] not null,
+  tags text[] not null default '{}',
+  summary text,
+  meta jsonb not null default '{}'::jsonb,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists translation_versions_thread_idx
+  on public.translation_versions (thread_id, created_at desc);
+
+alter table public.translation_versions enable row level security;
+
+drop policy if exists translation_versions_own on public.translation_versions;
+create policy translation_versions_own on public.translation_versions
+  for all using (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = translation_versions.thread_id and t.created_by = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = translation_versions.thread_id and t.created_by = auth.uid()
+    )
+  );
+
+drop policy if exists translation_versions_collaborator on public.translation_versions;
+create policy translation_versions_collaborator on public.translation_versions
+  for all using (
+    exists (
+      select 1 from public.thread_collaborators c
+      where c.thread_id = translation_versions.thread_id and c.user_id = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.thread_collaborators c
+      where c.thread_id = translation_versions.thread_id and c.user_id = auth.uid()
+    )
+  );
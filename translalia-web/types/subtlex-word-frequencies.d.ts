@@ -0,0 +1,4 @@
+declare module "subtlex-word-frequencies" {
+  const frequencies: Array<{ word: string; count: number }>;
+  export default frequencies;
+}